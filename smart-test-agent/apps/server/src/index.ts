@@ -14,6 +14,9 @@ import dotenv from 'dotenv';
 import { appRouter } from './trpc/routers/index.js';
 import { createContextFactory } from './trpc/context.js';
 import { uploadRouter } from './routes/upload.js';
+import { getPipelineRunner } from './services/pipeline-runner.js';
+import { getRunScheduler } from './services/run-scheduler.js';
+import { getReviewSweeper } from './services/review-sweeper.js';
 
 // Load environment variables
 dotenv.config();
@@ -256,6 +259,21 @@ httpServer.listen(PORT, HOST, () => {
   console.log(`Health check: http://${HOST}:${PORT}/health`);
   console.log(`WebSocket: ws://${HOST}:${PORT}`);
   console.log('='.repeat(60));
+
+  // Recover runs interrupted by the previous shutdown and start the pipeline queue
+  const pipelineRunner = getPipelineRunner();
+  pipelineRunner.setSocketIO(io);
+  void pipelineRunner.recoverOrphanedRuns();
+
+  // Launch scheduled runs
+  const runScheduler = getRunScheduler();
+  runScheduler.setSocketIO(io);
+  runScheduler.start();
+
+  // Remind reviewers and enforce approval and confirmation deadlines
+  const reviewSweeper = getReviewSweeper();
+  reviewSweeper.setSocketIO(io);
+  reviewSweeper.start();
 });
 
 // ============================================================================
@@ -264,3 +282,4 @@ httpServer.listen(PORT, HOST, () => {
 
 export { app, io, httpServer };
 export type { AppRouter } from './trpc/routers/index.js';
+export type { EditableTestCaseInput } from './trpc/routers/testRun.js';
@@ -277,4 +277,57 @@ describe('Upload Route', () => {
       expect(res.body.error).toContain('No files');
     });
   });
+
+  describe('PRD documents', () => {
+    it('should check PRD documents and return the conversion result', async () => {
+      const boundary = '----TestBoundary' + Date.now();
+      const html = '<html><body><h1>用户管理</h1><img src="missing.png" alt="流程图"></body></html>';
+      const body = buildMultipartBody(
+        boundary,
+        [{ name: 'category', value: 'prd' }],
+        [{ fieldName: 'files', filename: 'prd.html', content: html, contentType: 'text/html' }]
+      );
+
+      const res = await sendRequest(server, {
+        method: 'POST',
+        path: `/api/upload/${testProjectId}`,
+        headers: {
+          'Content-Type': `multipart/form-data; boundary=${boundary}`,
+        },
+        body,
+      });
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body.files[0].storagePath).toContain('prd-files');
+      expect(res.body.files[0].prd).toEqual({
+        format: 'html',
+        assetCount: 0,
+        warnings: ['图片不存在，已忽略: missing.png'],
+      });
+      expect(fs.existsSync(path.join(UPLOAD_BASE_DIR, testProjectId, 'prd-files', 'prd.html'))).toBe(true);
+    });
+
+    it('should reject unsupported PRD formats and remove the stored file', async () => {
+      const boundary = '----TestBoundary' + Date.now();
+      const body = buildMultipartBody(
+        boundary,
+        [{ name: 'category', value: 'prd' }],
+        [{ fieldName: 'files', filename: 'prd.doc', content: 'legacy word', contentType: 'application/msword' }]
+      );
+
+      const res = await sendRequest(server, {
+        method: 'POST',
+        path: `/api/upload/${testProjectId}`,
+        headers: {
+          'Content-Type': `multipart/form-data; boundary=${boundary}`,
+        },
+        body,
+      });
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body.success).toBe(false);
+      expect(res.body.error).toContain('Unsupported PRD format');
+      expect(fs.existsSync(path.join(UPLOAD_BASE_DIR, testProjectId, 'prd-files', 'prd.doc'))).toBe(false);
+    });
+  });
 });
@@ -1,6 +1,6 @@
 /**
  * File Upload Route Module
- * Handles multipart/form-data file uploads for source code files
+ * Handles multipart/form-data file uploads for source code files and PRD documents
  * Storage path: data/uploads/{projectId}/{category}-files/
  *
  * @see Requirements 3.1, 3.2, 3.3, 3.4, 3.5
@@ -10,19 +10,31 @@ import { Router, type Request, type Response, type NextFunction } from 'express'
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
+import { detectPrdFormat, ingestPrd, PRD_FORMAT_EXTENSIONS, type PrdFormat } from '@smart-test-agent/core/prd-ingest';
 
 // ============================================================================
 // Types
 // ============================================================================
 
 /** Valid upload categories */
-type UploadCategory = 'route' | 'page';
+type UploadCategory = 'route' | 'page' | 'prd';
+
+/** Conversion check result of an uploaded PRD document */
+interface PrdConversionInfo {
+  format: PrdFormat;
+  /** Number of embedded images extracted */
+  assetCount: number;
+  warnings: string[];
+}
 
 /** Single file info in the upload response */
 interface UploadedFileInfo {
   originalName: string;
   storagePath: string;
   size: number;
+  /** Only for category "prd" */
+  prd?: PrdConversionInfo;
 }
 
 /** Upload endpoint response */
@@ -48,7 +60,7 @@ const UPLOAD_BASE_DIR = 'data/uploads';
 const MAX_FILE_SIZE = 50 * 1024 * 1024;
 
 /** Valid category values */
-const VALID_CATEGORIES: UploadCategory[] = ['route', 'page'];
+const VALID_CATEGORIES: UploadCategory[] = ['route', 'page', 'prd'];
 
 // ============================================================================
 // Multer Storage Configuration
@@ -105,6 +117,41 @@ const upload = multer({
   },
 });
 
+// ============================================================================
+// PRD Documents
+// ============================================================================
+
+/**
+ * Convert uploaded PRD documents once so broken or unsupported files are rejected at upload time
+ * The pipeline converts the document again into the run workspace; the result here is discarded.
+ * @throws Error with a user-facing message for the first file that cannot be converted
+ */
+async function checkPrdDocuments(files: Express.Multer.File[]): Promise<Map<string, PrdConversionInfo>> {
+  const results = new Map<string, PrdConversionInfo>();
+
+  for (const file of files) {
+    if (!detectPrdFormat(file.originalname)) {
+      throw new Error(
+        `Unsupported PRD format: ${file.originalname}. Supported: ${Object.keys(PRD_FORMAT_EXTENSIONS).join(', ')}`
+      );
+    }
+
+    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'prd-upload-'));
+    try {
+      const result = await ingestPrd(file.path, { assetsDir: path.join(tempDir, 'prd-assets') });
+      results.set(file.path, {
+        format: result.format,
+        assetCount: result.assets.length,
+        warnings: result.warnings,
+      });
+    } finally {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  return results;
+}
+
 // ============================================================================
 // Router
 // ============================================================================
@@ -117,7 +164,7 @@ const uploadRouter: Router = Router();
  * Upload files for a project, organized by category.
  *
  * @param projectId - Project identifier (URL parameter)
- * @body category - File category: "route" | "page" (form field)
+ * @body category - File category: "route" | "page" | "prd" (form field)
  * @body files - Files to upload (multipart form field)
  *
  * @returns {UploadResponse} On success - file info with storage paths
@@ -142,7 +189,7 @@ uploadRouter.post(
   // Process file upload with multer
   upload.array('files', 20),
   // Handle successful upload
-  (req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
     const files = req.files as Express.Multer.File[] | undefined;
 
     if (!files || files.length === 0) {
@@ -153,10 +200,26 @@ uploadRouter.post(
       return;
     }
 
+    // PRD documents must be convertible to Markdown; rejected uploads are removed again
+    let prdResults = new Map<string, PrdConversionInfo>();
+    if (req.body?.category === 'prd') {
+      try {
+        prdResults = await checkPrdDocuments(files);
+      } catch (error) {
+        await Promise.all(files.map((file) => fs.promises.rm(file.path, { force: true })));
+        res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        } as UploadErrorResponse);
+        return;
+      }
+    }
+
     const fileInfos: UploadedFileInfo[] = files.map((file) => ({
       originalName: file.originalname,
       storagePath: file.path,
       size: file.size,
+      ...(prdResults.has(file.path) && { prd: prdResults.get(file.path) }),
     }));
 
     res.json({
@@ -206,4 +269,4 @@ uploadRouter.use(
 // ============================================================================
 
 export { uploadRouter, UPLOAD_BASE_DIR, MAX_FILE_SIZE, VALID_CATEGORIES };
-export type { UploadCategory, UploadedFileInfo, UploadResponse, UploadErrorResponse };
+export type { UploadCategory, PrdConversionInfo, UploadedFileInfo, UploadResponse, UploadErrorResponse };
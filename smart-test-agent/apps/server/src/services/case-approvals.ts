@@ -0,0 +1,132 @@
+/**
+ * Case Approval Store
+ * Per-case approval status of a run's generated test cases, backed by the CaseApproval table.
+ * Rows are created when a reviewer submits a decision; approving a run as a whole approves every
+ * case in one round, partial approval decides case by case and rejected cases come back
+ * as pending in the next round, regenerated or unchanged when the agent skipped them.
+ *
+ * @see Requirements 6.3, 6.4
+ */
+
+import { prisma, type CaseApproval as CaseApprovalRecord } from '@smart-test-agent/db';
+import type { CaseApprovalDecision, CaseApprovalStatus } from '@smart-test-agent/shared';
+
+/**
+ * Approval status of one test case as stored in the database
+ */
+export interface CaseApproval {
+  caseId: string;
+  status: CaseApprovalStatus;
+  feedback: string | null;
+  reviewerId: string | null;
+  /** Approval round that decided the case, 0 while pending */
+  round: number;
+  updatedAt: Date;
+}
+
+/**
+ * Convert a database record to a case approval
+ */
+function toCaseApproval(record: CaseApprovalRecord): CaseApproval {
+  return {
+    caseId: record.caseId,
+    status: record.status as CaseApprovalStatus,
+    feedback: record.feedback ?? null,
+    reviewerId: record.reviewerId ?? null,
+    round: record.round,
+    updatedAt: record.updatedAt,
+  };
+}
+
+/**
+ * List the approval status of a run's test cases
+ */
+export async function listCaseApprovals(runId: string): Promise<CaseApproval[]> {
+  const records = await prisma.caseApproval.findMany({
+    where: { runId },
+    orderBy: { caseId: 'asc' },
+  });
+  return records.map(toCaseApproval);
+}
+
+/**
+ * Get the approval status of one test case, null if it was never decided
+ */
+export async function getCaseApproval(runId: string, caseId: string): Promise<CaseApproval | null> {
+  const record = await prisma.caseApproval.findUnique({
+    where: { runId_caseId: { runId, caseId } },
+  });
+  return record ? toCaseApproval(record) : null;
+}
+
+/**
+ * Align the approval rows with the run's current test cases
+ * Cases without a row start pending; rows of cases that no longer exist are removed
+ * unless the case was already executed.
+ */
+export async function syncCaseApprovals(runId: string, caseIds: string[]): Promise<CaseApproval[]> {
+  const existing = await listCaseApprovals(runId);
+  const known = new Set(existing.map((approval) => approval.caseId));
+
+  for (const caseId of caseIds.filter((id) => !known.has(id))) {
+    await prisma.caseApproval.create({ data: { runId, caseId } });
+  }
+
+  const removed = existing
+    .filter((approval) => !caseIds.includes(approval.caseId) && approval.status !== 'executed')
+    .map((approval) => approval.caseId);
+  if (removed.length > 0) {
+    await prisma.caseApproval.deleteMany({ where: { runId, caseId: { in: removed } } });
+  }
+
+  return listCaseApprovals(runId);
+}
+
+/**
+ * Number of the next approval round
+ */
+export function nextApprovalRound(approvals: CaseApproval[]): number {
+  return Math.max(0, ...approvals.map((approval) => approval.round)) + 1;
+}
+
+/**
+ * Record reviewer decisions on pending cases
+ */
+export async function recordCaseDecisions(
+  runId: string,
+  reviewerId: string,
+  round: number,
+  decisions: CaseApprovalDecision[]
+): Promise<void> {
+  for (const decision of decisions) {
+    await prisma.caseApproval.update({
+      where: { runId_caseId: { runId, caseId: decision.caseId } },
+      data: {
+        status: decision.approved ? 'approved' : 'rejected',
+        feedback: decision.approved ? null : decision.feedback ?? null,
+        reviewerId,
+        round,
+      },
+    });
+  }
+}
+
+/**
+ * Put regenerated cases back up for approval
+ */
+export async function resetCaseApprovals(runId: string, caseIds: string[]): Promise<void> {
+  await prisma.caseApproval.updateMany({
+    where: { runId, caseId: { in: caseIds } },
+    data: { status: 'pending', feedback: null, reviewerId: null, round: 0 },
+  });
+}
+
+/**
+ * Mark the approved cases of an execution batch as executed
+ */
+export async function markCasesExecuted(runId: string, caseIds: string[]): Promise<void> {
+  await prisma.caseApproval.updateMany({
+    where: { runId, caseId: { in: caseIds }, status: 'approved' },
+    data: { status: 'executed' },
+  });
+}
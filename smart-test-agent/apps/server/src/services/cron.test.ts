@@ -0,0 +1,64 @@
+/**
+ * Cron Expression Tests
+ * @see Requirements 13.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCronExpression, isValidCronExpression, getNextCronTime } from './cron.js';
+
+// Dates are local time, like the expressions
+const at = (month: number, day: number, hour: number, minute: number) => new Date(2026, month - 1, day, hour, minute);
+
+describe('parseCronExpression', () => {
+  it('should expand ranges, steps and lists', () => {
+    const schedule = parseCronExpression('*/15 9-17/4 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should accept aliases and treat 7 as Sunday', () => {
+    expect([...parseCronExpression('@nightly').hours]).toEqual([2]);
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(isValidCronExpression('0 2 * *')).toBe(false);
+    expect(isValidCronExpression('60 * * * *')).toBe(false);
+    expect(isValidCronExpression('5-1 * * * *')).toBe(false);
+    expect(isValidCronExpression('*/0 * * * *')).toBe(false);
+    expect(isValidCronExpression('@yearly')).toBe(false);
+    expect(isValidCronExpression('0 2 * * MON')).toBe(false);
+    expect(() => parseCronExpression('a * * * *')).toThrow('Invalid cron minute field');
+  });
+});
+
+describe('getNextCronTime', () => {
+  it('should return the next matching minute strictly after the given time', () => {
+    expect(getNextCronTime('*/15 * * * *', at(3, 10, 8, 7))).toEqual(at(3, 10, 8, 15));
+    expect(getNextCronTime('*/15 * * * *', at(3, 10, 8, 15))).toEqual(at(3, 10, 8, 30));
+  });
+
+  it('should roll over to the next day and month', () => {
+    expect(getNextCronTime('@nightly', at(3, 10, 8, 0))).toEqual(at(3, 11, 2, 0));
+    expect(getNextCronTime('0 0 1 * *', at(3, 10, 8, 0))).toEqual(at(4, 1, 0, 0));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2026-03-10 is a Tuesday; the 15th or the next Friday, whichever comes first
+    expect(getNextCronTime('0 9 15 * 5', at(3, 10, 12, 0))).toEqual(at(3, 13, 9, 0));
+    expect(getNextCronTime('0 9 11 * 5', at(3, 10, 12, 0))).toEqual(at(3, 11, 9, 0));
+  });
+
+  it('should only run on matching weekdays when day of month is unrestricted', () => {
+    // Weekdays at 06:30; 2026-03-13 is a Friday
+    expect(getNextCronTime('30 6 * * 1-5', at(3, 13, 7, 0))).toEqual(at(3, 16, 6, 30));
+  });
+
+  it('should throw for expressions that never match', () => {
+    expect(() => getNextCronTime('0 0 31 2 *', at(3, 10, 8, 0))).toThrow('never matches');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Cron Expressions
+ * Parses standard 5-field cron expressions (minute hour day-of-month month day-of-week)
+ * and computes the next matching time in the server's local time zone.
+ *
+ * Each field is `*`, `n`, `a-b` or a comma-separated list of these, optionally with a
+ * `/step` suffix.
+ * Day-of-week accepts 0-7 (0 and 7 are Sunday). As in cron, when both day-of-month and
+ * day-of-week are restricted a day matches if either field matches.
+ *
+ * @see Requirements 13.1
+ */
+
+/**
+ * Aliases accepted in place of a 5-field expression
+ */
+export const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@nightly': '0 2 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+/**
+ * Parsed cron expression
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month field is not `*` */
+  dayOfMonthRestricted: boolean;
+  /** Day-of-week field is not `*` */
+  dayOfWeekRestricted: boolean;
+}
+
+interface FieldRange {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: FieldRange[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+/** Search horizon for the next run; expressions like `0 0 31 2 *` never match */
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Parse one field into the set of values it matches
+ */
+function parseField(value: string, field: FieldRange): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of value.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${field.name} field: "${value}"`);
+    }
+
+    const [, range, startText, endText, stepText] = match;
+    const start = range === '*' ? field.min : Number(startText);
+    const end = range === '*' ? field.max : endText !== undefined ? Number(endText) : stepText ? field.max : start;
+    const step = stepText !== undefined ? Number(stepText) : 1;
+
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      throw new Error(`Cron ${field.name} field out of range (${field.min}-${field.max}): "${value}"`);
+    }
+
+    for (let n = start; n <= end; n += step) {
+      values.add(n);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression or alias
+ * @throws Error when the expression is malformed
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = expression.trim();
+  const fields = (CRON_ALIASES[normalized.toLowerCase()] ?? normalized).split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields or be one of ${Object.keys(CRON_ALIASES).join(', ')}: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+/**
+ * Whether an expression can be parsed
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a date's day matches the day-of-month and day-of-week fields
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next time strictly after `after` that matches the expression
+ * @throws Error when the expression is malformed or never matches
+ */
+export function getNextCronTime(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (next <= limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  throw new Error(`Cron expression never matches within ${MAX_SEARCH_YEARS} years`);
+}
@@ -0,0 +1,275 @@
+/**
+ * Pipeline Job Queue Tests
+ * @see Requirements 13.1, 13.3, 14.1
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PipelineQueue, getQueuePosition, type PipelineJob } from './pipeline-queue.js';
+
+// In-memory PipelineJob table
+const mockJobs: any[] = [];
+let nextId = 1;
+let clock = 0;
+
+function matches(job: any, where: any = {}): boolean {
+  for (const [key, cond] of Object.entries<any>(where)) {
+    if (key === 'OR') {
+      if (!cond.some((c: any) => matches(job, c))) return false;
+    } else if (key === 'NOT') {
+      if (matches(job, cond)) return false;
+    } else if (cond && typeof cond === 'object' && !(cond instanceof Date)) {
+      if (cond.in && !cond.in.includes(job[key])) return false;
+      if (cond.gt !== undefined && !(job[key] > cond.gt)) return false;
+      if (cond.lt !== undefined && !(job[key] < cond.lt)) return false;
+    } else if (job[key] !== cond) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function byQueueOrder(a: any, b: any): number {
+  return b.priority - a.priority || a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+vi.mock('@smart-test-agent/db', () => ({
+  prisma: {
+    pipelineJob: {
+      create: vi.fn(async ({ data }) => {
+        const job = {
+          id: `job-${nextId++}`,
+          fromStep: null,
+          workerId: null,
+          error: null,
+          startedAt: null,
+          finishedAt: null,
+          ...data,
+          createdAt: new Date(++clock),
+        };
+        mockJobs.push(job);
+        return job;
+      }),
+      findFirst: vi.fn(async ({ where }) => {
+        return mockJobs.filter(j => matches(j, where)).sort(byQueueOrder)[0] ?? null;
+      }),
+      findMany: vi.fn(async ({ where }) => {
+        return mockJobs.filter(j => matches(j, where)).sort(byQueueOrder);
+      }),
+      count: vi.fn(async ({ where }) => mockJobs.filter(j => matches(j, where)).length),
+      update: vi.fn(async ({ where, data }) => {
+        const job = mockJobs.find(j => j.id === where.id);
+        Object.assign(job, data);
+        return job;
+      }),
+      updateMany: vi.fn(async ({ where, data }) => {
+        const found = mockJobs.filter(j => matches(j, where));
+        found.forEach(j => Object.assign(j, data));
+        return { count: found.length };
+      }),
+    },
+  },
+}));
+
+/**
+ * Handler whose jobs finish only when released by the test
+ */
+function createControlledHandler() {
+  const started: PipelineJob[] = [];
+  const releases = new Map<string, (error?: Error) => void>();
+  const handler = vi.fn((job: PipelineJob) => {
+    started.push(job);
+    return new Promise<void>((resolve, reject) => {
+      releases.set(job.runId, (error) => (error ? reject(error) : resolve()));
+    });
+  });
+  return { handler, started, release: (runId: string, error?: Error) => releases.get(runId)?.(error) };
+}
+
+function jobOf(runId: string) {
+  return mockJobs.find(j => j.runId === runId);
+}
+
+describe('PipelineQueue', () => {
+  beforeEach(() => {
+    mockJobs.length = 0;
+    nextId = 1;
+    clock = 0;
+    vi.clearAllMocks();
+  });
+
+  it('should not run jobs before the queue is started', async () => {
+    const { handler } = createControlledHandler();
+    const queue = new PipelineQueue(handler, { concurrency: 1 });
+
+    await queue.enqueue('run-1', { kind: 'start' });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(jobOf('run-1').status).toBe('queued');
+  });
+
+  it('should limit the number of jobs running at the same time', async () => {
+    const { handler, started, release } = createControlledHandler();
+    const queue = new PipelineQueue(handler, { concurrency: 2, workerId: 'worker-a' });
+    queue.start();
+
+    await queue.enqueue('run-1', { kind: 'start' });
+    await queue.enqueue('run-2', { kind: 'start' });
+    await queue.enqueue('run-3', { kind: 'start' });
+
+    await vi.waitFor(() => expect(started).toHaveLength(2));
+    expect(queue.getActiveCount()).toBe(2);
+    expect(jobOf('run-1')).toMatchObject({ status: 'running', workerId: 'worker-a' });
+    expect(jobOf('run-3').status).toBe('queued');
+
+    release('run-1');
+
+    await vi.waitFor(() => expect(started.map(j => j.runId)).toEqual(['run-1', 'run-2', 'run-3']));
+    expect(jobOf('run-1').status).toBe('completed');
+    expect(jobOf('run-1').finishedAt).toBeInstanceOf(Date);
+  });
+
+  it('should run higher priority jobs first and keep FIFO order within a priority', async () => {
+    const { handler, started, release } = createControlledHandler();
+    const queue = new PipelineQueue(handler, { concurrency: 1 });
+
+    await queue.enqueue('run-low-1', { kind: 'start' }, 0);
+    await queue.enqueue('run-low-2', { kind: 'start' }, 0);
+    await queue.enqueue('run-high', { kind: 'continue' }, 5);
+    queue.start();
+
+    for (const runId of ['run-high', 'run-low-1', 'run-low-2']) {
+      await vi.waitFor(() => expect(started.at(-1)?.runId).toBe(runId));
+      release(runId);
+    }
+    await vi.waitFor(() => expect(mockJobs.every(j => j.status === 'completed')).toBe(true));
+  });
+
+  it('should pass the job payload to the handler', async () => {
+    const { handler, started } = createControlledHandler();
+    const queue = new PipelineQueue(handler);
+    queue.start();
+
+    await queue.enqueue('run-1', { kind: 'resume', fromStep: 'codex_review', useCassette: true });
+
+    await vi.waitFor(() => expect(started).toHaveLength(1));
+    expect(started[0]).toMatchObject({
+      runId: 'run-1',
+      kind: 'resume',
+      fromStep: 'codex_review',
+      useCassette: true,
+      status: 'running',
+    });
+  });
+
+  it('should record handler errors on the job and continue with the next job', async () => {
+    const { handler, started, release } = createControlledHandler();
+    const queue = new PipelineQueue(handler, { concurrency: 1 });
+    queue.start();
+
+    await queue.enqueue('run-1', { kind: 'start' });
+    await queue.enqueue('run-2', { kind: 'start' });
+
+    await vi.waitFor(() => expect(started).toHaveLength(1));
+    release('run-1', new Error('Target profile not found'));
+
+    await vi.waitFor(() => expect(started).toHaveLength(2));
+    expect(jobOf('run-1')).toMatchObject({ status: 'failed', error: 'Target profile not found' });
+  });
+
+  it('should report pending jobs of a run', async () => {
+    const { handler, release } = createControlledHandler();
+    const queue = new PipelineQueue(handler);
+
+    expect(await queue.hasPendingJob('run-1')).toBe(false);
+    await queue.enqueue('run-1', { kind: 'start' });
+    expect(await queue.hasPendingJob('run-1')).toBe(true);
+
+    queue.start();
+    await vi.waitFor(() => expect(jobOf('run-1').status).toBe('running'));
+    expect(await queue.hasPendingJob('run-1')).toBe(true);
+
+    release('run-1');
+    await vi.waitFor(() => expect(jobOf('run-1').status).toBe('completed'));
+    expect(await queue.hasPendingJob('run-1')).toBe(false);
+  });
+
+  it('should find jobs left running by another worker and requeue them in place', async () => {
+    const { handler, started } = createControlledHandler();
+    mockJobs.push(
+      { id: 'orphan', runId: 'run-1', kind: 'continue', priority: 0, status: 'running', workerId: 'old-worker', createdAt: new Date(0) },
+      { id: 'queued', runId: 'run-2', kind: 'start', priority: 0, status: 'queued', workerId: null, createdAt: new Date(5) }
+    );
+    const queue = new PipelineQueue(handler, { concurrency: 1, workerId: 'new-worker' });
+
+    const orphans = await queue.findOrphanedJobs();
+    expect(orphans.map(j => j.id)).toEqual(['orphan']);
+
+    await queue.requeue('orphan', { kind: 'resume', fromStep: 'test_execution' });
+    queue.start();
+
+    await vi.waitFor(() => expect(started).toHaveLength(1));
+    expect(started[0]).toMatchObject({ id: 'orphan', kind: 'resume', fromStep: 'test_execution' });
+    expect(jobOf('run-1').workerId).toBe('new-worker');
+  });
+
+  it('should mark a job failed without running it', async () => {
+    const { handler } = createControlledHandler();
+    const queue = new PipelineQueue(handler);
+    const job = await queue.enqueue('run-1', { kind: 'start' });
+
+    await queue.fail(job.id, 'Worker disappeared');
+
+    expect(jobOf('run-1')).toMatchObject({ status: 'failed', error: 'Worker disappeared' });
+  });
+
+  it('should cancel queued jobs of a run without running them', async () => {
+    const { handler } = createControlledHandler();
+    const queue = new PipelineQueue(handler);
+    await queue.enqueue('run-1', { kind: 'start' });
+    await queue.enqueue('run-2', { kind: 'start' });
+
+    expect(await queue.cancelQueued('run-1')).toBe(1);
+    expect(await queue.cancelQueued('run-1')).toBe(0);
+
+    queue.start();
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+    expect(handler.mock.calls[0][0].runId).toBe('run-2');
+    expect(jobOf('run-1')).toMatchObject({ status: 'cancelled' });
+    expect(jobOf('run-1').finishedAt).toBeInstanceOf(Date);
+  });
+
+  it('should record jobs whose handler reports cancellation as cancelled', async () => {
+    const queue = new PipelineQueue(vi.fn(async () => 'cancelled' as const));
+    queue.start();
+
+    await queue.enqueue('run-1', { kind: 'start' });
+
+    await vi.waitFor(() => expect(jobOf('run-1').status).toBe('cancelled'));
+  });
+});
+
+describe('getQueuePosition', () => {
+  beforeEach(() => {
+    mockJobs.length = 0;
+    nextId = 1;
+    clock = 0;
+  });
+
+  it('should count queued jobs ahead of the run', async () => {
+    const queue = new PipelineQueue(vi.fn(async () => {}));
+    await queue.enqueue('run-1', { kind: 'start' }, 0);
+    await queue.enqueue('run-2', { kind: 'start' }, 0);
+    await queue.enqueue('run-3', { kind: 'start' }, 3);
+
+    expect(await getQueuePosition('run-3')).toBe(1);
+    expect(await getQueuePosition('run-1')).toBe(2);
+    expect(await getQueuePosition('run-2')).toBe(3);
+  });
+
+  it('should return null for runs that are not queued', async () => {
+    mockJobs.push({ id: 'job-1', runId: 'run-1', priority: 0, status: 'running', createdAt: new Date(0) });
+
+    expect(await getQueuePosition('run-1')).toBeNull();
+    expect(await getQueuePosition('run-unknown')).toBeNull();
+  });
+});
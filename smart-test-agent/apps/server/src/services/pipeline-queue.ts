@@ -0,0 +1,312 @@
+/**
+ * Pipeline Job Queue
+ * Durable queue of pipeline work backed by the PipelineJob table, so queued and
+ * interrupted runs survive server restarts. Jobs run highest priority first and in
+ * FIFO order within a priority, with at most `concurrency` jobs per server process.
+ *
+ * @see Requirements 13.1, 13.3, 14.1
+ */
+
+import { prisma, type PipelineJob as PipelineJobRecord } from '@smart-test-agent/db';
+import type { ResumableStep } from '@smart-test-agent/core';
+import * as os from 'os';
+
+/**
+ * Kind of pipeline work
+ * - start: run the full pipeline of a new test run
+ * - resume: run from `fromStep` using the outputs already in the workspace
+ * - continue: run from test execution after the test cases were approved
+ * - regenerate: regenerate the test cases rejected in a partial approval
+ */
+export type PipelineJobKind = 'start' | 'resume' | 'continue' | 'regenerate';
+
+export type PipelineJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * What a job should do when it runs
+ */
+export interface PipelineJobPayload {
+  kind: PipelineJobKind;
+  fromStep?: ResumableStep;
+  useCassette?: boolean;
+}
+
+/**
+ * Pipeline job as stored in the database
+ */
+export interface PipelineJob extends PipelineJobPayload {
+  id: string;
+  runId: string;
+  priority: number;
+  status: PipelineJobStatus;
+  workerId: string | null;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+/**
+ * Runs a claimed job; resolves when the pipeline has stopped (finished, failed or paused)
+ * Resolving with 'cancelled' records the job as cancelled instead of completed.
+ */
+export type PipelineJobHandler = (job: PipelineJob) => Promise<'cancelled' | void>;
+
+export interface PipelineQueueOptions {
+  /** Maximum number of jobs this process runs at the same time */
+  concurrency?: number;
+  /** Identifies this process in claimed jobs (defaults to host, pid and start time) */
+  workerId?: string;
+}
+
+/** Default number of pipelines run at the same time */
+export const DEFAULT_PIPELINE_CONCURRENCY = 2;
+
+/** Priority of jobs that continue a run a user is waiting on (approval, resume, recovery) */
+export const CONTINUATION_JOB_PRIORITY = 10;
+
+/**
+ * Convert a database record to a job
+ */
+function toJob(record: PipelineJobRecord): PipelineJob {
+  return {
+    id: record.id,
+    runId: record.runId,
+    kind: record.kind as PipelineJobKind,
+    fromStep: (record.fromStep ?? undefined) as ResumableStep | undefined,
+    useCassette: record.useCassette ?? false,
+    priority: record.priority,
+    status: record.status as PipelineJobStatus,
+    workerId: record.workerId ?? null,
+    error: record.error ?? null,
+    createdAt: record.createdAt,
+    startedAt: record.startedAt ?? null,
+    finishedAt: record.finishedAt ?? null,
+  };
+}
+
+/**
+ * Position of a run's queued job (1 = next to start), or null if the run is not queued
+ */
+export async function getQueuePosition(runId: string): Promise<number | null> {
+  const job = await prisma.pipelineJob.findFirst({
+    where: { runId, status: 'queued' },
+    orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+  });
+  if (!job) {
+    return null;
+  }
+
+  const ahead = await prisma.pipelineJob.count({
+    where: {
+      status: 'queued',
+      OR: [
+        { priority: { gt: job.priority } },
+        { priority: job.priority, createdAt: { lt: job.createdAt } },
+      ],
+    },
+  });
+  return ahead + 1;
+}
+
+/**
+ * Pipeline Job Queue
+ */
+export class PipelineQueue {
+  readonly workerId: string;
+  private handler: PipelineJobHandler;
+  private concurrency: number;
+  private activeJobs: Set<string> = new Set();
+  private pumping = false;
+  private pumpAgain = false;
+  private started = false;
+
+  constructor(handler: PipelineJobHandler, options: PipelineQueueOptions = {}) {
+    this.handler = handler;
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_PIPELINE_CONCURRENCY);
+    this.workerId = options.workerId ?? `${os.hostname()}:${process.pid}:${Date.now()}`;
+  }
+
+  /**
+   * Start claiming jobs
+   * Call after orphaned jobs were recovered, so recovered work keeps its place in the queue
+   */
+  start(): void {
+    this.started = true;
+    this.pump();
+  }
+
+  /**
+   * Add a job for a run
+   * @param priority Higher priority jobs run first
+   */
+  async enqueue(runId: string, payload: PipelineJobPayload, priority = 0): Promise<PipelineJob> {
+    const record = await prisma.pipelineJob.create({
+      data: {
+        runId,
+        kind: payload.kind,
+        fromStep: payload.fromStep ?? null,
+        useCassette: payload.useCassette ?? false,
+        priority,
+        status: 'queued',
+      },
+    });
+    this.pump();
+    return toJob(record);
+  }
+
+  /**
+   * Put a job back in the queue with new work, keeping its priority and position
+   */
+  async requeue(jobId: string, payload: PipelineJobPayload): Promise<void> {
+    await prisma.pipelineJob.update({
+      where: { id: jobId },
+      data: {
+        kind: payload.kind,
+        fromStep: payload.fromStep ?? null,
+        useCassette: payload.useCassette ?? false,
+        status: 'queued',
+        workerId: null,
+        startedAt: null,
+      },
+    });
+    this.pump();
+  }
+
+  /**
+   * Mark a job as failed without running it
+   */
+  async fail(jobId: string, error: string): Promise<void> {
+    await this.finish(jobId, 'failed', error);
+  }
+
+  /**
+   * Cancel the queued jobs of a run
+   * @returns Number of jobs removed from the queue
+   */
+  async cancelQueued(runId: string): Promise<number> {
+    const { count } = await prisma.pipelineJob.updateMany({
+      where: { runId, status: 'queued' },
+      data: { status: 'cancelled', finishedAt: new Date() },
+    });
+    return count;
+  }
+
+  /**
+   * Whether a run has a job waiting or running
+   */
+  async hasPendingJob(runId: string): Promise<boolean> {
+    const count = await prisma.pipelineJob.count({
+      where: { runId, status: { in: ['queued', 'running'] } },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Jobs marked running by a process other than this one
+   * The server runs a single process, so on startup these belong to a worker that disappeared.
+   */
+  async findOrphanedJobs(): Promise<PipelineJob[]> {
+    const records = await prisma.pipelineJob.findMany({
+      where: { status: 'running', NOT: { workerId: this.workerId } },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+    return records.map(toJob);
+  }
+
+  /**
+   * Number of jobs running in this process
+   */
+  getActiveCount(): number {
+    return this.activeJobs.size;
+  }
+
+  /**
+   * Claim and run jobs until the concurrency limit is reached or the queue is empty
+   * Only one claim loop runs at a time; calls made meanwhile trigger another pass.
+   */
+  private pump(): void {
+    if (!this.started) {
+      return;
+    }
+    if (this.pumping) {
+      this.pumpAgain = true;
+      return;
+    }
+
+    this.pumping = true;
+    void (async () => {
+      try {
+        do {
+          this.pumpAgain = false;
+          while (this.activeJobs.size < this.concurrency) {
+            const job = await this.claimNext();
+            if (!job) break;
+            this.activeJobs.add(job.id);
+            void this.run(job);
+          }
+        } while (this.pumpAgain);
+      } catch (error) {
+        console.error('[PipelineQueue] Failed to claim jobs:', error);
+      } finally {
+        this.pumping = false;
+      }
+    })();
+  }
+
+  /**
+   * Claim the next queued job for this process
+   * The conditional update makes the claim safe against another process claiming the same job.
+   */
+  private async claimNext(): Promise<PipelineJob | null> {
+    for (;;) {
+      const next = await prisma.pipelineJob.findFirst({
+        where: { status: 'queued' },
+        orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+      });
+      if (!next) {
+        return null;
+      }
+
+      const startedAt = new Date();
+      const { count } = await prisma.pipelineJob.updateMany({
+        where: { id: next.id, status: 'queued' },
+        data: { status: 'running', workerId: this.workerId, startedAt },
+      });
+      if (count === 1) {
+        return toJob({ ...next, status: 'running', workerId: this.workerId, startedAt });
+      }
+    }
+  }
+
+  /**
+   * Run a claimed job and record its outcome
+   */
+  private async run(job: PipelineJob): Promise<void> {
+    try {
+      const outcome = await this.handler(job);
+      await this.finish(job.id, outcome === 'cancelled' ? 'cancelled' : 'completed');
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[PipelineQueue] Job ${job.id} (${job.kind}) for run ${job.runId} failed:`, errorMsg);
+      await this.finish(job.id, 'failed', errorMsg);
+    } finally {
+      this.activeJobs.delete(job.id);
+      this.pump();
+    }
+  }
+
+  /**
+   * Record the final status of a job
+   */
+  private async finish(jobId: string, status: 'completed' | 'failed' | 'cancelled', error?: string): Promise<void> {
+    try {
+      await prisma.pipelineJob.update({
+        where: { id: jobId },
+        data: { status, error: error ?? null, finishedAt: new Date() },
+      });
+    } catch (updateError) {
+      console.error(`[PipelineQueue] Failed to update job ${jobId}:`, updateError);
+    }
+  }
+}
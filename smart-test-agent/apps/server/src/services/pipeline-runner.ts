@@ -13,12 +13,48 @@ import {
   type PipelineResult,
   PrerequisiteValidator,
   type ResumableStep,
+  type ResumableStepInfo,
   CliAdapter,
+  createLlmProviderBindings,
+  resolveLlmProviderConfigFromEnv,
+  CassetteRecorder,
+  getCassettePath,
+  createCassetteBindingConfig,
+  CASSETTE_FILENAME,
+  applyEnvironment,
+  type LlmProviderBindingConfig,
+  type RunCaseHistory,
+  type IncrementalBase,
+  ingestPrd,
+  PRD_ASSETS_DIRNAME,
+  planExecutionStart,
+  type ExecutionBatch,
+  applyRegeneratedCases,
+  readRawTestCases,
+  REGENERATED_CASES_FILENAME,
+  getRunStepSelection,
+  getReviewTimeoutMs,
+  getReviewReminderAt,
+  type ReviewState,
 } from '@smart-test-agent/core';
 import { prisma, toJsonString, fromJsonString } from '@smart-test-agent/db';
-import type { TestRunState } from '@smart-test-agent/shared';
+import type { PipelineStepSelection, ReviewPolicy, TestRunState } from '@smart-test-agent/shared';
+import { WebSocketEvents, type StepRetryEvent } from '../websocket/events.js';
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import {
+  PipelineQueue,
+  CONTINUATION_JOB_PRIORITY,
+  DEFAULT_PIPELINE_CONCURRENCY,
+  type PipelineJob,
+  type PipelineJobPayload,
+} from './pipeline-queue.js';
+import {
+  listCaseApprovals,
+  syncCaseApprovals,
+  resetCaseApprovals,
+  markCasesExecuted,
+} from './case-approvals.js';
 
 // State mapping from pipeline events to database states
 const STEP_TO_STATE: Record<string, TestRunState> = {
@@ -26,6 +62,7 @@ const STEP_TO_STATE: Record<string, TestRunState> = {
   source_indexing: 'parsing',
   prd_parsing: 'parsing',
   test_execution: 'executing',
+  a11y_audit: 'executing',
   codex_review: 'codex_reviewing',
   cross_validation: 'codex_reviewing',
   report_generation: 'report_ready',
@@ -39,6 +76,7 @@ const STEP_TO_STATE: Record<string, TestRunState> = {
 const RESUME_STEP_TO_STATE: Record<ResumableStep, TestRunState> = {
   prd_parsing: 'parsing',
   test_execution: 'executing',
+  a11y_audit: 'executing',
   codex_review: 'codex_reviewing',
   cross_validation: 'codex_reviewing',
   report_generation: 'report_ready',
@@ -51,9 +89,31 @@ const RESUME_STEP_TO_STATE: Record<ResumableStep, TestRunState> = {
  */
 const NON_RESUMABLE_STATES: TestRunState[] = ['executing', 'codex_reviewing'];
 
+/**
+ * 服务重启时仍处于执行中的状态，这些运行的 worker 已经消失，需要恢复或标记失败
+ */
+const RECOVERABLE_STATES: TestRunState[] = ['created', 'parsing', 'generating', 'executing', 'codex_reviewing'];
+
+/** Earlier scheduled runs whose case results feed the flaky rate */
+const RUN_HISTORY_LIMIT = 10;
+
 export interface PipelineRunnerConfig {
   workspaceRoot: string;
   promptsDir: string;
+  /** LLM provider bound to each task (parse/execute/review) */
+  llmProviders?: LlmProviderBindingConfig;
+  /** Record every LLM call into the run's cassette (logs/agent-cassette.json) */
+  recordCassettes?: boolean;
+  /** Maximum number of pipelines executed at the same time (default 2) */
+  maxConcurrentRuns?: number;
+}
+
+/**
+ * 恢复执行 / 重新生成选项
+ */
+export interface ReplayOptions {
+  /** 使用该运行已录制的 cassette 回放 LLM 调用，而不是重新调用 */
+  useCassette?: boolean;
 }
 
 /**
@@ -64,9 +124,14 @@ export class PipelineRunner {
   private io: SocketIOServer | null = null;
   private config: PipelineRunnerConfig;
   private runningPipelines: Map<string, TestPipeline> = new Map();
+  private queue: PipelineQueue;
+  private abortControllers: Map<string, AbortController> = new Map();
 
   constructor(config: PipelineRunnerConfig) {
     this.config = config;
+    this.queue = new PipelineQueue((job) => this.runJob(job), {
+      concurrency: config.maxConcurrentRuns ?? DEFAULT_PIPELINE_CONCURRENCY,
+    });
   }
 
   /**
@@ -78,9 +143,18 @@ export class PipelineRunner {
 
   /**
    * Start pipeline execution for a test run
-   * This runs asynchronously in the background
+   * The run is queued and executes in the background once a worker slot is free
+   * @param priority Higher priority runs start first
    */
-  async startPipeline(runId: string): Promise<void> {
+  async startPipeline(runId: string, priority = 0): Promise<void> {
+    console.log(`[PipelineRunner] Queueing pipeline for run: ${runId} (priority ${priority})`);
+    await this.queue.enqueue(runId, { kind: 'start' }, priority);
+  }
+
+  /**
+   * Run a queued start job: execute the full pipeline
+   */
+  private async runStartJob(runId: string, signal: AbortSignal): Promise<void> {
     console.log(`[PipelineRunner] Starting pipeline for run: ${runId}`);
 
     // Get test run from database
@@ -115,8 +189,17 @@ export class PipelineRunner {
       return;
     }
 
+    // Get the selected environment (null runs against the base profile)
+    const environment = await this.findEnvironment(testRun);
+
+    if (environment === undefined) {
+      console.error(`[PipelineRunner] Environment not found: ${testRun.environment}`);
+      await this.updateRunState(runId, 'failed', 'internal_error', `Environment "${testRun.environment}" not found`);
+      return;
+    }
+
     // Convert target profile to pipeline format
-    const profileConfig = this.convertTargetProfile(targetProfile);
+    const profileConfig = this.convertTargetProfile(targetProfile, environment);
 
     // Resolve PRD path
     const prdPath = await this.resolvePrdPath(testRun.prdPath, testRun.projectId);
@@ -131,6 +214,14 @@ export class PipelineRunner {
       promptsDir: this.config.promptsDir,
       existingRunId: runId, // Use the existing run ID from database
       skipStateTransitions: true, // State is managed by PipelineRunner
+      executionMode: testRun.executionMode === 'local' ? 'local' : 'agent',
+      environment: testRun.environment ?? undefined,
+      a11yAudit: testRun.a11yAudit ?? false,
+      runHistory: await this.loadRunHistory(testRun),
+      incrementalBase: this.getIncrementalBase(testRun),
+      llmProviders: this.config.llmProviders,
+      recordCassette: this.config.recordCassettes,
+      signal,
     };
 
     // Create and configure pipeline
@@ -168,6 +259,7 @@ export class PipelineRunner {
             testCasesPath: event.data.testCasesPath,
           });
         }
+        await this.applyScheduleApprovalPolicy(runId);
       }
 
       if (event.type === 'confirmation_required') {
@@ -194,8 +286,266 @@ export class PipelineRunner {
       }
     });
 
-    // Execute pipeline in background
-    this.executePipelineAsync(runId, pipeline, pipelineConfig);
+    await this.executePipelineAsync(runId, pipeline, pipelineConfig);
+  }
+
+  /**
+   * Run a job claimed from the queue
+   * Errors raised before the pipeline starts fail the run; the queue records them on the job.
+   */
+  private async runJob(job: PipelineJob): Promise<'cancelled' | void> {
+    const controller = new AbortController();
+    this.abortControllers.set(job.runId, controller);
+    try {
+      switch (job.kind) {
+        case 'start':
+          await this.runStartJob(job.runId, controller.signal);
+          break;
+        case 'resume':
+          await this.runResumeJob(job.runId, job.fromStep ?? 'prd_parsing', controller.signal, {
+            useCassette: job.useCassette,
+          });
+          break;
+        case 'continue':
+          await this.runContinueJob(job.runId, controller.signal);
+          break;
+        case 'regenerate':
+          await this.runRegenerateJob(job.runId, controller.signal, { useCassette: job.useCassette });
+          break;
+      }
+      if (controller.signal.aborted) {
+        return 'cancelled';
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return 'cancelled';
+      }
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      await this.updateRunState(job.runId, 'failed', 'internal_error', errorMsg);
+      if (this.io) {
+        this.io.to(`run:${job.runId}`).emit('pipeline:error', {
+          runId: job.runId,
+          error: errorMsg,
+        });
+      }
+      throw error;
+    } finally {
+      // An auto-approved run may already have a continuation job with its own controller
+      if (this.abortControllers.get(job.runId) === controller) {
+        this.abortControllers.delete(job.runId);
+      }
+    }
+  }
+
+  /**
+   * Cancel a run's pipeline
+   * Queued jobs are dropped; a running pipeline is aborted, which terminates the agent CLI
+   * or test script process group it is waiting on. The run's state is left to the caller.
+   * @returns Whether there was queued or running work to cancel
+   * @see Requirements 13.2
+   */
+  async cancelPipeline(runId: string): Promise<boolean> {
+    const cancelledJobs = await this.queue.cancelQueued(runId);
+    const controller = this.abortControllers.get(runId);
+    controller?.abort();
+    console.log(`[PipelineRunner] Cancel run ${runId}: ${cancelledJobs} queued job(s), running: ${!!controller}`);
+    return cancelledJobs > 0 || controller !== undefined;
+  }
+
+  /**
+   * Recover runs interrupted by a server restart, then start processing the queue
+   * Runs whose worker disappeared are queued again from the earliest step of their
+   * current phase that still has its prerequisite files; runs that cannot continue
+   * are marked failed. Queued jobs are kept as they are.
+   * @see Requirements 6.1, 13.3
+   */
+  async recoverOrphanedRuns(): Promise<void> {
+    try {
+      const orphanedJobs = await this.queue.findOrphanedJobs();
+      const orphanByRun = new Map<string, PipelineJob>();
+      for (const job of orphanedJobs) {
+        if (orphanByRun.has(job.runId)) {
+          await this.queue.fail(job.id, 'Worker disappeared');
+        } else {
+          orphanByRun.set(job.runId, job);
+        }
+      }
+
+      const runs = await prisma.testRun.findMany({
+        where: { state: { in: RECOVERABLE_STATES } },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      for (const run of runs) {
+        const orphan = orphanByRun.get(run.id);
+        orphanByRun.delete(run.id);
+        if (!orphan && (await this.queue.hasPendingJob(run.id))) {
+          continue;
+        }
+
+        const payload = await this.getRecoveryPayload(run.id, run.state as TestRunState);
+        if (payload) {
+          const details = payload.kind === 'resume'
+            ? `resume from ${payload.fromStep}`
+            : payload.kind === 'regenerate' ? 'regenerate rejected cases' : 'restart pipeline';
+          console.log(`[PipelineRunner] Recovering run ${run.id} (${run.state}): ${details}`);
+          if (orphan) {
+            await this.queue.requeue(orphan.id, payload);
+          } else {
+            await this.queue.enqueue(run.id, payload, CONTINUATION_JOB_PRIORITY);
+          }
+          await this.addDecisionLogEntry(run.id, 'pipeline_recovered', details);
+        } else {
+          const errorMsg = `Worker disappeared while ${run.state}; no step can be resumed`;
+          console.warn(`[PipelineRunner] Failing run ${run.id}: ${errorMsg}`);
+          if (orphan) {
+            await this.queue.fail(orphan.id, errorMsg);
+          }
+          await this.updateRunState(run.id, 'failed', 'internal_error', errorMsg);
+        }
+      }
+
+      // 剩余的孤立任务对应的运行已不在执行中（如已等待审批或已失败），无需重新执行
+      for (const job of orphanByRun.values()) {
+        await this.queue.fail(job.id, 'Worker disappeared');
+      }
+    } catch (error) {
+      console.error('[PipelineRunner] Failed to recover orphaned runs:', error);
+    } finally {
+      this.queue.start();
+    }
+  }
+
+  /**
+   * Work that continues an interrupted run, or null if it cannot continue
+   * Runs that were still being created or parsed start over, so their test cases are
+   * approved before execution; runs regenerating the cases rejected in a partial approval
+   * regenerate them again; later phases resume from their first resumable step.
+   */
+  private async getRecoveryPayload(runId: string, state: TestRunState): Promise<PipelineJobPayload | null> {
+    if (state === 'created' || state === 'parsing') {
+      return { kind: 'start' };
+    }
+    if (state === 'generating') {
+      const hasRejected = (await listCaseApprovals(runId)).some((approval) => approval.status === 'rejected');
+      return hasRejected ? { kind: 'regenerate' } : null;
+    }
+
+    const steps = await this.getResumableSteps(runId);
+    const step = steps.find((info) => info.available && RESUME_STEP_TO_STATE[info.step] === state);
+    return step ? { kind: 'resume', fromStep: step.step } : null;
+  }
+
+  /**
+   * Apply the approval mode of the schedule that launched a run, once the run awaits approval
+   * Auto mode approves and queues the continuation right away.
+   * @see Requirements 6.3
+   */
+  private async applyScheduleApprovalPolicy(runId: string): Promise<void> {
+    const run = await prisma.testRun.findUnique({
+      where: { id: runId },
+      include: { schedule: true },
+    });
+    const schedule = run?.schedule;
+    if (!schedule || schedule.approvalMode !== 'auto') return;
+
+    console.log(`[PipelineRunner] Run ${runId} auto-approved by schedule "${schedule.name}"`);
+    await this.addDecisionLogEntry(runId, 'approval_granted', `Auto-approved by schedule "${schedule.name}"`);
+    await this.updateRunState(runId, 'executing');
+    // The current job is still finishing, so enqueue directly instead of continueAfterApproval
+    await this.queue.enqueue(runId, { kind: 'continue' }, CONTINUATION_JOB_PRIORITY);
+  }
+
+  /**
+   * Deadline and reminder time of a run entering a review state, enforced by the review sweeper
+   * The project's review policy sets the durations; a schedule's approval window overrides the approval timeout.
+   * @see Requirements 13.1, 13.2
+   */
+  private async getReviewDeadline(
+    run: { projectId: string; scheduleId?: string | null },
+    state: ReviewState,
+    now: Date
+  ): Promise<Record<string, Date | null>> {
+    const profile = await prisma.targetProfile.findUnique({ where: { projectId: run.projectId } });
+    const policy = profile?.reviewPolicy ? fromJsonString<ReviewPolicy>(profile.reviewPolicy) : undefined;
+
+    let timeoutMs = getReviewTimeoutMs(state, policy);
+    if (state === 'awaiting_approval' && run.scheduleId) {
+      const schedule = await prisma.schedule.findUnique({ where: { id: run.scheduleId } });
+      if (schedule?.approvalWindowMinutes) {
+        timeoutMs = schedule.approvalWindowMinutes * 60 * 1000;
+      }
+    }
+
+    const dueAt = new Date(now.getTime() + timeoutMs);
+    return {
+      [state === 'awaiting_approval' ? 'approvalDueAt' : 'confirmDueAt']: dueAt,
+      reminderAt: getReviewReminderAt(now, dueAt, policy),
+    };
+  }
+
+  /**
+   * Baseline run for incremental PRD parsing, when the run was created with one
+   * @see Requirements 3.1
+   */
+  private getIncrementalBase(testRun: { baseRunId?: string | null }): IncrementalBase | undefined {
+    if (!testRun.baseRunId) {
+      return undefined;
+    }
+    return {
+      runId: testRun.baseRunId,
+      workspaceDir: path.join(this.config.workspaceRoot, testRun.baseRunId),
+    };
+  }
+
+  /**
+   * Case results of the earlier runs of a run's schedule, oldest first, for the flaky rate
+   * Manual runs have no comparable history and return an empty list.
+   * @see Requirements 11.5
+   */
+  private async loadRunHistory(testRun: { id: string; scheduleId?: string | null; createdAt: Date }): Promise<RunCaseHistory[]> {
+    if (!testRun.scheduleId) {
+      return [];
+    }
+
+    const previousRuns = await prisma.testRun.findMany({
+      where: {
+        scheduleId: testRun.scheduleId,
+        id: { not: testRun.id },
+        createdAt: { lt: testRun.createdAt },
+        state: { in: ['report_ready', 'completed'] },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: RUN_HISTORY_LIMIT,
+    });
+
+    const history: RunCaseHistory[] = [];
+    for (const run of previousRuns.reverse()) {
+      try {
+        const executionResult = JSON.parse(
+          await fs.readFile(path.join(this.config.workspaceRoot, run.id, 'outputs', 'execution-results.json'), 'utf-8')
+        );
+        history.push({ testCases: executionResult.testCases ?? [] });
+      } catch {
+        // Workspace cleaned up or execution never finished
+      }
+    }
+    return history;
+  }
+
+  /**
+   * Append an entry to a run's decision log without changing its state
+   */
+  private async addDecisionLogEntry(runId: string, action: string, details?: string): Promise<void> {
+    const run = await prisma.testRun.findUnique({ where: { id: runId } });
+    if (!run) return;
+
+    const decisionLog = fromJsonString<Array<{ timestamp: string; action: string; details?: string }>>(run.decisionLog);
+    decisionLog.push({ timestamp: new Date().toISOString(), action, details });
+    await prisma.testRun.update({
+      where: { id: runId },
+      data: { decisionLog: toJsonString(decisionLog) },
+    });
   }
 
   /**
@@ -206,6 +556,39 @@ export class PipelineRunner {
     pipeline: TestPipeline,
     config: PipelineConfig
   ): Promise<void> {
+    let cancelledStep: string | undefined;
+    let incompleteOutputs: string[] = [];
+    pipeline.onEvent(async (event) => {
+      if (event.type === 'pipeline_cancelled') {
+        cancelledStep = event.data.step as string | undefined;
+        incompleteOutputs = (event.data.incompleteOutputs as string[] | undefined) ?? [];
+      }
+
+      // 步骤失败后按重试策略重试：记录到 decision log，并推送 "重试 2/3" 进度
+      if (event.type === 'step_retrying') {
+        const retryEvent: StepRetryEvent = {
+          runId,
+          step: event.data.step as string,
+          attempt: event.data.attempt as number,
+          maxAttempts: event.data.maxAttempts as number,
+          category: event.data.category as string,
+          errorMessage: event.data.error as string,
+          delayMs: event.data.delay as number,
+          timestamp: new Date().toISOString(),
+        };
+        await this.addDecisionLogEntry(
+          runId,
+          'step_retry',
+          `${retryEvent.step} retry ${retryEvent.attempt}/${retryEvent.maxAttempts} after ${retryEvent.category} error: ${retryEvent.errorMessage}`
+        ).catch((logError) => {
+          console.error(`[PipelineRunner] Failed to record retry for run ${runId}:`, logError);
+        });
+        if (this.io) {
+          this.io.to(`run:${runId}`).emit(WebSocketEvents.STEP_RETRY, retryEvent);
+        }
+      }
+    });
+
     try {
       console.log(`[PipelineRunner] ========== 开始执行 Pipeline ==========`);
       console.log(`[PipelineRunner] Run ID: ${runId}`);
@@ -227,7 +610,30 @@ export class PipelineRunner {
         });
       } else if (result.status === 'failed') {
         console.log(`[PipelineRunner] 更新状态为 failed, 错误: ${result.error}`);
-        await this.updateRunState(runId, 'failed', 'internal_error', result.error);
+        await this.updateRunState(runId, 'failed', result.reasonCode ?? 'internal_error', result.error);
+      } else if (result.status === 'batch_executed') {
+        // 部分审批：已通过的用例执行完毕，接着重新生成被驳回的用例
+        console.log(`[PipelineRunner] 已审批批次执行完成，重新生成被驳回的用例`);
+        // The current job is still finishing, so the regeneration is queued as a job of its own
+        await this.queue.enqueue(runId, { kind: 'regenerate' }, CONTINUATION_JOB_PRIORITY);
+      } else if (result.status === 'cancelled') {
+        // 状态已由取消请求更新，这里只记录进程已终止
+        console.log(`[PipelineRunner] Pipeline 已取消, 中断步骤: ${cancelledStep ?? '无'}`);
+        await this.addDecisionLogEntry(
+          runId,
+          'pipeline_cancelled',
+          cancelledStep
+            ? `Processes stopped during ${cancelledStep}` +
+                (incompleteOutputs.length > 0 ? `; incomplete outputs moved aside: ${incompleteOutputs.join(', ')}` : '')
+            : 'Processes stopped'
+        );
+        if (this.io) {
+          this.io.to(`run:${runId}`).emit('pipeline:cancelled', {
+            runId,
+            step: cancelledStep,
+            timestamp: new Date().toISOString(),
+          });
+        }
       }
 
       // Emit completion event
@@ -256,7 +662,9 @@ export class PipelineRunner {
       }
     } finally {
       console.log(`[PipelineRunner] 清理 runningPipelines: ${runId}`);
-      this.runningPipelines.delete(runId);
+      if (this.runningPipelines.get(runId) === pipeline) {
+        this.runningPipelines.delete(runId);
+      }
     }
   }
 
@@ -303,6 +711,10 @@ export class PipelineRunner {
         updateData.completedAt = new Date();
       }
 
+      if (state !== run.state && (state === 'awaiting_approval' || state === 'report_ready')) {
+        Object.assign(updateData, await this.getReviewDeadline(run, state, new Date()));
+      }
+
       await prisma.testRun.update({
         where: { id: runId },
         data: updateData,
@@ -322,11 +734,28 @@ export class PipelineRunner {
     }
   }
 
+  /**
+   * Find the environment a test run targets
+   * @returns null for runs against the base profile, undefined if the environment no longer exists
+   */
+  private async findEnvironment(testRun: { projectId: string; environment?: string | null }): Promise<any | null | undefined> {
+    if (!testRun.environment) {
+      return null;
+    }
+
+    const environment = await prisma.environment.findUnique({
+      where: { projectId_name: { projectId: testRun.projectId, name: testRun.environment } },
+    });
+
+    return environment ?? undefined;
+  }
+
   /**
    * Convert database target profile to pipeline format
+   * Environment overrides are merged on top of the base profile
    */
-  private convertTargetProfile(dbProfile: any): any {
-    return {
+  private convertTargetProfile(dbProfile: any, dbEnvironment: any | null = null): any {
+    const profile: any = {
       id: dbProfile.id,
       projectId: dbProfile.projectId,
       baseUrl: dbProfile.baseUrl,
@@ -338,7 +767,20 @@ export class PipelineRunner {
       sourceCode: fromJsonString(dbProfile.sourceCodeConfig),
       uiFramework: dbProfile.uiFramework,
       antdQuirks: dbProfile.antdQuirks ? fromJsonString(dbProfile.antdQuirks) : undefined,
+      roles: dbProfile.roles ? fromJsonString(dbProfile.roles) : undefined,
+      pipelineSteps: dbProfile.pipelineSteps ? fromJsonString(dbProfile.pipelineSteps) : undefined,
+      retryBudgets: dbProfile.retryBudgets ? fromJsonString(dbProfile.retryBudgets) : undefined,
     };
+
+    if (!dbEnvironment) {
+      return profile;
+    }
+
+    return applyEnvironment(profile, {
+      baseUrl: dbEnvironment.baseUrl ?? undefined,
+      login: dbEnvironment.loginConfig ? fromJsonString(dbEnvironment.loginConfig) : undefined,
+      browser: dbEnvironment.browserConfig ? fromJsonString(dbEnvironment.browserConfig) : undefined,
+    });
   }
 
   /**
@@ -377,6 +819,8 @@ export class PipelineRunner {
       path.join(this.config.workspaceRoot, 'uploads', projectId, prdPath),
       // In data/uploads directory
       path.join(serverRoot, 'data', 'uploads', projectId, prdPath),
+      // Uploaded PRD documents (Markdown / Word / PDF / HTML)
+      path.join(serverRoot, 'data', 'uploads', projectId, 'prd-files', prdPath),
     ];
 
     for (const searchPath of searchPaths) {
@@ -413,10 +857,15 @@ export class PipelineRunner {
    * 恢复执行 Pipeline
    * @param runId 运行 ID
    * @param fromStep 从哪个步骤开始恢复
+   * @param options 回放选项
    * @throws Error 如果验证失败
    * @see Requirements 1.1, 1.2, 1.3, 1.5, 6.1, 6.2, 6.3, 6.5
    */
-  async resumePipeline(runId: string, fromStep: ResumableStep): Promise<void> {
+  async resumePipeline(
+    runId: string,
+    fromStep: ResumableStep,
+    options: ReplayOptions = {}
+  ): Promise<void> {
     console.log(`[PipelineRunner] Resuming pipeline for run: ${runId} from step: ${fromStep}`);
 
     // 1. 验证 TestRun 存在
@@ -434,13 +883,54 @@ export class PipelineRunner {
     }
 
     // 3. 验证前置文件存在
-    const validator = new PrerequisiteValidator(this.config.workspaceRoot);
+    const validator = new PrerequisiteValidator(this.config.workspaceRoot, {
+      steps: await this.loadStepSelection(runId),
+    });
     const validation = await validator.validateStep(runId, fromStep);
     
     if (!validation.valid) {
       throw new Error(`Missing prerequisite files: ${validation.missingFiles.join(', ')}`);
     }
 
+    await this.resolveLlmProviders(runId, options.useCassette);
+
+    // 4. 验证没有排队中或执行中的任务
+    if (await this.queue.hasPendingJob(runId)) {
+      throw new Error(`Pipeline is already queued or running for run: ${runId}`);
+    }
+
+    // 5. 加入队列，由 runResumeJob 执行
+    await this.queue.enqueue(
+      runId,
+      { kind: 'resume', fromStep, useCassette: options.useCassette },
+      CONTINUATION_JOB_PRIORITY
+    );
+  }
+
+  /**
+   * 执行排队的恢复任务
+   * @param runId 运行 ID
+   * @param fromStep 从哪个步骤开始恢复
+   * @param options 回放选项
+   */
+  private async runResumeJob(
+    runId: string,
+    fromStep: ResumableStep,
+    signal: AbortSignal,
+    options: ReplayOptions = {}
+  ): Promise<void> {
+    console.log(`[PipelineRunner] Running resume job for run: ${runId} from step: ${fromStep}`);
+
+    const testRun = await prisma.testRun.findUnique({
+      where: { id: runId },
+    });
+
+    if (!testRun) {
+      throw new Error(`TestRun not found: ${runId}`);
+    }
+
+    const llmProviders = await this.resolveLlmProviders(runId, options.useCassette);
+
     // 4. 获取 target profile
     const targetProfile = await prisma.targetProfile.findUnique({
       where: { projectId: testRun.projectId },
@@ -459,12 +949,28 @@ export class PipelineRunner {
       throw new Error(`Project not found: ${testRun.projectId}`);
     }
 
-    // 6. 转换 target profile
-    const profileConfig = this.convertTargetProfile(targetProfile);
+    // 6. 转换 target profile，叠加所选环境的配置
+    const environment = await this.findEnvironment(testRun);
+    if (environment === undefined) {
+      throw new Error(`Environment "${testRun.environment}" not found for project: ${testRun.projectId}`);
+    }
+    const profileConfig = this.convertTargetProfile(targetProfile, environment);
 
     // 7. 解析 PRD 路径
     const prdPath = await this.resolvePrdPath(testRun.prdPath, testRun.projectId);
 
+    // 从 test_execution 恢复时与审批后继续相同：只执行已通过且尚未执行的用例
+    let startFromStep = fromStep;
+    let caseBatch: ExecutionBatch | undefined;
+    if (fromStep === 'test_execution') {
+      const executionStart = planExecutionStart(await listCaseApprovals(runId));
+      if (executionStart.kind === 'regenerate') {
+        await this.runRegenerateJob(runId, signal);
+        return;
+      }
+      ({ startFromStep, caseBatch } = executionStart);
+    }
+
     // 8. 创建 Pipeline 配置，设置 startFromStep 和 isResume
     const pipelineConfig: PipelineConfig = {
       projectId: testRun.projectId,
@@ -475,12 +981,22 @@ export class PipelineRunner {
       promptsDir: this.config.promptsDir,
       existingRunId: runId,
       skipStateTransitions: true,
-      startFromStep: fromStep,
+      executionMode: testRun.executionMode === 'local' ? 'local' : 'agent',
+      environment: testRun.environment ?? undefined,
+      a11yAudit: testRun.a11yAudit ?? false,
+      runHistory: await this.loadRunHistory(testRun),
+      incrementalBase: this.getIncrementalBase(testRun),
+      llmProviders,
+      recordCassette: this.config.recordCassettes,
+      signal,
+      startFromStep,
       isResume: true,
+      ...(caseBatch ? { caseBatch } : {}),
     };
 
     // 9. 更新 TestRun 状态为恢复步骤对应的状态
-    const newState = RESUME_STEP_TO_STATE[fromStep];
+    const newState = RESUME_STEP_TO_STATE[startFromStep];
+    if (signal.aborted) return;
     await this.updateRunState(runId, newState, null, undefined);
 
     // 10. 创建并配置 Pipeline
@@ -527,6 +1043,12 @@ export class PipelineRunner {
         }
       }
 
+      if (event.type === 'step_completed') {
+        if (event.data.step === 'test_execution' && pipelineConfig.caseBatch) {
+          await markCasesExecuted(runId, pipelineConfig.caseBatch.caseIds);
+        }
+      }
+
       if (event.type === 'step_failed') {
         const errorMsg = event.data.error as string;
         console.error(`[PipelineRunner] Step failed: ${event.data.step}`, errorMsg);
@@ -540,6 +1062,7 @@ export class PipelineRunner {
             testCasesPath: event.data.testCasesPath,
           });
         }
+        await this.applyScheduleApprovalPolicy(runId);
       }
 
       if (event.type === 'confirmation_required') {
@@ -566,8 +1089,31 @@ export class PipelineRunner {
       }
     });
 
-    // 12. 在后台执行 Pipeline
-    this.executePipelineAsync(runId, pipeline, pipelineConfig);
+    // 12. 执行 Pipeline
+    await this.executePipelineAsync(runId, pipeline, pipelineConfig);
+  }
+
+  /**
+   * 解析 LLM provider 配置，使用录制回放时所有任务都由该运行的 cassette 提供
+   * @param runId 运行 ID
+   * @param useCassette 是否回放 cassette
+   * @throws Error 如果 cassette 文件不存在
+   */
+  private async resolveLlmProviders(
+    runId: string,
+    useCassette?: boolean
+  ): Promise<LlmProviderBindingConfig | undefined> {
+    if (!useCassette) {
+      return this.config.llmProviders;
+    }
+
+    const cassettePath = getCassettePath(path.join(this.config.workspaceRoot, runId));
+    try {
+      await fs.access(cassettePath);
+    } catch {
+      throw new Error(`Missing prerequisite files: logs/${CASSETTE_FILENAME}`);
+    }
+    return createCassetteBindingConfig(cassettePath);
   }
 
   /**
@@ -576,9 +1122,26 @@ export class PipelineRunner {
    * @returns 可恢复步骤列表
    * @see Requirements 3.1
    */
-  async getResumableSteps(runId: string) {
-    const validator = new PrerequisiteValidator(this.config.workspaceRoot);
-    return validator.getResumableSteps(runId);
+  async getResumableSteps(runId: string): Promise<Array<ResumableStepInfo & { step: ResumableStep }>> {
+    const validator = new PrerequisiteValidator(this.config.workspaceRoot, {
+      steps: await this.loadStepSelection(runId),
+    });
+    // 服务端只使用内置步骤，不注册自定义步骤
+    return validator.getResumableSteps(runId) as Promise<Array<ResumableStepInfo & { step: ResumableStep }>>;
+  }
+
+  /**
+   * 运行启用/禁用的 pipeline 步骤：项目配置加上运行的无障碍审计开关
+   */
+  private async loadStepSelection(runId: string): Promise<PipelineStepSelection> {
+    const testRun = await prisma.testRun.findUnique({ where: { id: runId } });
+    const targetProfile = testRun
+      ? await prisma.targetProfile.findUnique({ where: { projectId: testRun.projectId } })
+      : null;
+    return getRunStepSelection(
+      targetProfile?.pipelineSteps ? fromJsonString<PipelineStepSelection>(targetProfile.pipelineSteps) : undefined,
+      testRun?.a11yAudit ?? false
+    );
   }
 
   /**
@@ -609,15 +1172,34 @@ export class PipelineRunner {
       throw new Error(`TestRun is not in a resumable state (state: ${testRun.state})`);
     }
     
-    // 如果状态是 executing，检查是否真的在运行
+    // 检查是否已有排队中或执行中的任务（executing 状态可能是之前执行中断）
+    if (await this.queue.hasPendingJob(runId)) {
+      console.error(`[PipelineRunner] Pipeline 已在队列中或运行中`);
+      throw new Error(`Pipeline is already running for run: ${runId}`);
+    }
     if (testRun.state === 'executing') {
-      if (this.runningPipelines.has(runId)) {
-        console.error(`[PipelineRunner] Pipeline 已在运行中`);
-        throw new Error(`Pipeline is already running for run: ${runId}`);
-      }
       console.log(`[PipelineRunner] 状态为 executing 但 Pipeline 未运行，允许恢复执行`);
     }
 
+    // 3. 加入队列，由 runContinueJob 执行
+    await this.queue.enqueue(runId, { kind: 'continue' }, CONTINUATION_JOB_PRIORITY);
+    console.log(`[PipelineRunner] ========== 已加入执行队列 ==========`);
+  }
+
+  /**
+   * 执行排队的审批后继续任务：从 test_execution 步骤开始
+   * @param runId 运行 ID
+   */
+  private async runContinueJob(runId: string, signal: AbortSignal): Promise<void> {
+    console.log(`[PipelineRunner] ========== 开始继续执行 ==========`);
+    const testRun = await prisma.testRun.findUnique({
+      where: { id: runId },
+    });
+
+    if (!testRun) {
+      throw new Error(`TestRun not found: ${runId}`);
+    }
+
     // 3. 获取 target profile
     console.log(`[PipelineRunner] Step 3: 获取 target profile...`);
     const targetProfile = await prisma.targetProfile.findUnique({
@@ -644,13 +1226,26 @@ export class PipelineRunner {
 
     // 5. 转换 target profile
     console.log(`[PipelineRunner] Step 5: 转换 target profile...`);
-    const profileConfig = this.convertTargetProfile(targetProfile);
+    const environment = await this.findEnvironment(testRun);
+    if (environment === undefined) {
+      throw new Error(`Environment "${testRun.environment}" not found for project: ${testRun.projectId}`);
+    }
+    const profileConfig = this.convertTargetProfile(targetProfile, environment);
 
     // 6. 解析 PRD 路径
     console.log(`[PipelineRunner] Step 6: 解析 PRD 路径...`);
     const prdPath = await this.resolvePrdPath(testRun.prdPath, testRun.projectId);
     console.log(`[PipelineRunner] PRD 路径: ${prdPath}`);
 
+    // 部分审批：只执行已通过且尚未执行的用例；没有可执行的用例时直接重新生成被驳回的用例，
+    // 或（所有用例都已执行）从 codex_review 开始
+    const executionStart = planExecutionStart(await listCaseApprovals(runId));
+    if (executionStart.kind === 'regenerate') {
+      await this.runRegenerateJob(runId, signal);
+      return;
+    }
+    const { startFromStep, caseBatch } = executionStart;
+
     // 7. 创建 Pipeline 配置，从 test_execution 步骤开始
     console.log(`[PipelineRunner] Step 7: 创建 Pipeline 配置...`);
     const pipelineConfig: PipelineConfig = {
@@ -662,14 +1257,23 @@ export class PipelineRunner {
       promptsDir: this.config.promptsDir,
       existingRunId: runId,
       skipStateTransitions: true,
-      startFromStep: 'test_execution',
+      executionMode: testRun.executionMode === 'local' ? 'local' : 'agent',
+      environment: testRun.environment ?? undefined,
+      a11yAudit: testRun.a11yAudit ?? false,
+      runHistory: await this.loadRunHistory(testRun),
+      llmProviders: this.config.llmProviders,
+      recordCassette: this.config.recordCassettes,
+      signal,
+      startFromStep,
       isResume: true,
       skipApprovalWait: true,
+      ...(caseBatch ? { caseBatch } : {}),
     };
     console.log(`[PipelineRunner] Pipeline 配置: startFromStep=${pipelineConfig.startFromStep}, isResume=${pipelineConfig.isResume}`);
 
     // 8. 更新 TestRun 状态为 executing
     console.log(`[PipelineRunner] Step 8: 更新状态为 executing...`);
+    if (signal.aborted) return;
     await this.updateRunState(runId, 'executing', null, undefined);
 
     // 9. 创建并配置 Pipeline
@@ -699,6 +1303,9 @@ export class PipelineRunner {
 
       if (event.type === 'step_completed') {
         console.log(`[PipelineRunner] 步骤完成: ${event.data.step}, 状态: ${event.data.status}`);
+        if (event.data.step === 'test_execution' && pipelineConfig.caseBatch) {
+          await markCasesExecuted(runId, pipelineConfig.caseBatch.caseIds);
+        }
       }
 
       if (event.type === 'step_failed') {
@@ -732,22 +1339,23 @@ export class PipelineRunner {
       }
     });
 
-    // 11. 在后台执行 Pipeline
-    console.log(`[PipelineRunner] Step 11: 启动后台 Pipeline 执行...`);
-    this.executePipelineAsync(runId, pipeline, pipelineConfig);
-    console.log(`[PipelineRunner] ========== Pipeline 已在后台启动 ==========`);
+    // 11. 执行 Pipeline
+    console.log(`[PipelineRunner] Step 11: 执行 Pipeline...`);
+    await this.executePipelineAsync(runId, pipeline, pipelineConfig);
   }
 
   /**
    * 基于反馈重新生成测试用例
    * @param runId 运行 ID
    * @param feedback 用户反馈信息
+   * @param options 回放选项
    * @throws Error 如果验证失败
    * @see Requirements 5.1, 5.2, 5.3
    */
   async regenerateTestCases(
     runId: string,
-    feedback: { feedbackType: string; feedbackDetail: string }
+    feedback: { feedbackType: string; feedbackDetail: string },
+    options: ReplayOptions = {}
   ): Promise<void> {
     console.log(`[PipelineRunner] Regenerating test cases for run: ${runId}`);
 
@@ -778,32 +1386,13 @@ export class PipelineRunner {
       throw new Error(`Project not found: ${testRun.projectId}`);
     }
 
-    // 4. 读取原始 PRD
-    const prdPath = await this.resolvePrdPath(testRun.prdPath, testRun.projectId);
-    let prdContent = '';
-    try {
-      prdContent = await fs.readFile(prdPath, 'utf-8');
-    } catch {
-      console.warn(`[PipelineRunner] Failed to read PRD file: ${prdPath}`);
-    }
+    // 4. 读取 PRD 与需求
+    const { prdContent, requirements } = await this.loadRegenerationContext(testRun);
 
     // 5. 读取已生成的测试用例
-    const workspaceRoot = this.config.workspaceRoot;
-    const outputsDir = path.join(workspaceRoot, runId, 'outputs');
+    const outputsDir = path.join(this.config.workspaceRoot, runId, 'outputs');
     const testCasesDir = path.join(outputsDir, 'test-cases');
-    const requirementsPath = path.join(outputsDir, 'requirements.json');
-
     let existingTestCases: unknown[] = [];
-    let requirements: unknown[] = [];
-
-    // 读取需求
-    try {
-      const reqContent = await fs.readFile(requirementsPath, 'utf-8');
-      const parsed = JSON.parse(reqContent);
-      requirements = parsed.requirements || (Array.isArray(parsed) ? parsed : []);
-    } catch {
-      console.warn(`[PipelineRunner] Failed to read requirements: ${requirementsPath}`);
-    }
 
     // 读取测试用例
     try {
@@ -930,8 +1519,180 @@ rm -rf ./outputs/test-cases/*
 `;
 
     // 7. 调用 Claude Code 重新生成
+    await this.invokeRegeneration(runId, regeneratePrompt, options);
+  }
+
+  /**
+   * 重新生成部分审批中被驳回的用例：按每条用例的反馈定向修改，已通过的用例保持不变
+   * 生成结果替换 test-cases 中被驳回的用例，并作为待审批用例进入下一轮审批
+   * 重新生成作为 regenerate 任务加入队列，受并发限制，可取消，服务重启后可恢复
+   * @param runId 运行 ID
+   * @see Requirements 5.1, 5.2, 6.3, 6.4
+   */
+  async regenerateRejectedCases(runId: string, options: ReplayOptions = {}): Promise<void> {
+    await this.queue.enqueue(runId, { kind: 'regenerate', useCassette: options.useCassette }, CONTINUATION_JOB_PRIORITY);
+  }
+
+  /**
+   * 执行排队的 regenerate 任务：按反馈重新生成被驳回的用例
+   * @param runId 运行 ID
+   */
+  private async runRegenerateJob(runId: string, signal: AbortSignal, options: ReplayOptions = {}): Promise<void> {
+    const testRun = await prisma.testRun.findUnique({
+      where: { id: runId },
+    });
+
+    if (!testRun) {
+      throw new Error(`TestRun not found: ${runId}`);
+    }
+
+    const rejected = (await listCaseApprovals(runId)).filter((approval) => approval.status === 'rejected');
+    if (rejected.length === 0) {
+      return;
+    }
+    console.log(`[PipelineRunner] Regenerating rejected test cases for run ${runId}: ${rejected.map((a) => a.caseId).join(', ')}`);
+    await this.updateRunState(runId, 'generating');
+
+    const { prdContent, requirements } = await this.loadRegenerationContext(testRun);
+    const outputsDir = path.join(this.config.workspaceRoot, runId, 'outputs');
+    const regeneratedPath = path.join(outputsDir, REGENERATED_CASES_FILENAME);
+    await fs.rm(regeneratedPath, { force: true });
+
+    const rejectedIds = new Set(rejected.map((approval) => approval.caseId));
+    const rawTestCases = await readRawTestCases(outputsDir);
+    const caseIdOf = (raw: Record<string, unknown>) => String(raw.case_id ?? raw.caseId ?? '');
+    const rejectedCases = rejected.map((approval) => ({
+      feedback: approval.feedback ?? '',
+      testCase: rawTestCases.find((raw) => caseIdOf(raw) === approval.caseId) ?? { case_id: approval.caseId },
+    }));
+    const keptCases = rawTestCases.filter((raw) => !rejectedIds.has(caseIdOf(raw)));
+    const testRoutes = fromJsonString<string[]>(testRun.testedRoutes);
+
+    const prompt = `# 测试用例定向重新生成任务
+
+## 背景
+
+审批人逐条审核了测试用例。已通过的用例保持不变，下面被驳回的用例需要按各自的反馈重新生成。
+
+## 被驳回的用例及反馈
+
+${rejectedCases.map(({ feedback, testCase }) => `### ${caseIdOf(testCase)}
+
+**反馈**: ${feedback}
+
+\`\`\`json
+${JSON.stringify(testCase, null, 2)}
+\`\`\``).join('\n\n')}
+
+## 原始 PRD 文档
+
+${prdContent || '（PRD 文档不可用，请参考已有的需求和测试用例）'}
+
+## 已生成的需求列表
+
+\`\`\`json
+${JSON.stringify(requirements, null, 2)}
+\`\`\`
+
+## 已通过的用例（不要修改或重复）
+
+${keptCases.map((raw) => `- ${caseIdOf(raw)}: ${String(raw.title ?? '')}`).join('\n') || '（无）'}
+
+## 测试路由配置
+
+${testRoutes.map(r => `- \`${r}\``).join('\n')}
+
+## 任务要求
+
+1. 只重新生成被驳回的用例，逐条落实对应的反馈
+2. 保持原用例的 \`case_id\` 和 \`requirement_id\`；确需拆分成多个用例时，新增用例使用新的 \`case_id\`
+3. 不要修改 \`./outputs/test-cases/\` 目录和 \`./outputs/test-cases.json\`
+4. 所有用例的 \`route\` 字段使用上面指定的测试路由
+
+## 输出要求
+
+将重新生成的用例写入 \`./outputs/${REGENERATED_CASES_FILENAME}\`：
+\`\`\`json
+{
+  "test_cases": [
+    {"case_id": "TC-003", ...}
+  ]
+}
+\`\`\`
+
+写入完成后，输出确认信息：
+\`\`\`json
+{"status": "completed", "test_cases_count": Y}
+\`\`\`
+`;
+
+    await this.invokeRegeneration(runId, prompt, { ...options, signal }, async () => {
+      const regenerated = JSON.parse(await fs.readFile(regeneratedPath, 'utf-8'));
+      const { testCases, regeneratedCaseIds, skippedCaseIds } = await applyRegeneratedCases(
+        outputsDir, runId, [...rejectedIds], regenerated
+      );
+      // 未重新生成的被驳回用例保持原样，重新交给审批人决定
+      await resetCaseApprovals(runId, [...regeneratedCaseIds, ...skippedCaseIds]);
+      await syncCaseApprovals(runId, testCases.map((testCase) => testCase.caseId));
+      if (skippedCaseIds.length > 0) {
+        await this.addDecisionLogEntry(
+          runId,
+          'regeneration_skipped',
+          `Rejected test cases not regenerated, back to approval unchanged: ${skippedCaseIds.join(', ')}`
+        );
+      }
+    });
+  }
+
+  /**
+   * 读取重新生成所需的 PRD（优先使用 initialize 转换后的 inputs/prd.md，Word / PDF / HTML 原件无法直接读取）与需求
+   */
+  private async loadRegenerationContext(
+    testRun: { id: string; prdPath: string; projectId: string }
+  ): Promise<{ prdContent: string; requirements: unknown[] }> {
+    const inputsDir = path.join(this.config.workspaceRoot, testRun.id, 'inputs');
+    let prdContent = '';
+    try {
+      prdContent = await fs.readFile(path.join(inputsDir, 'prd.md'), 'utf-8');
+    } catch {
+      const prdPath = await this.resolvePrdPath(testRun.prdPath, testRun.projectId);
+      try {
+        const prd = await ingestPrd(prdPath, { assetsDir: path.join(inputsDir, PRD_ASSETS_DIRNAME) });
+        prdContent = prd.markdown;
+      } catch {
+        console.warn(`[PipelineRunner] Failed to read PRD file: ${prdPath}`);
+      }
+    }
+
+    const requirementsPath = path.join(this.config.workspaceRoot, testRun.id, 'outputs', 'requirements.json');
+    let requirements: unknown[] = [];
+    try {
+      const parsed = JSON.parse(await fs.readFile(requirementsPath, 'utf-8'));
+      requirements = parsed.requirements || (Array.isArray(parsed) ? parsed : []);
+    } catch {
+      console.warn(`[PipelineRunner] Failed to read requirements: ${requirementsPath}`);
+    }
+
+    return { prdContent, requirements };
+  }
+
+  /**
+   * 调用 parse 任务重新生成测试用例，成功后回到 awaiting_approval，失败时运行标记为 failed
+   * 取消（signal 中止）时终止 agent 进程，运行状态由取消请求处理
+   * @param apply 在回到审批前处理生成结果（例如合并定向重新生成的用例）
+   */
+  private async invokeRegeneration(
+    runId: string,
+    prompt: string,
+    options: ReplayOptions & { signal?: AbortSignal },
+    apply?: () => Promise<void>
+  ): Promise<void> {
     const cliAdapter = new CliAdapter();
-    const workspacePath = path.join(workspaceRoot, runId);
+    cliAdapter.setSignal(options.signal ?? null);
+    const workspacePath = path.join(this.config.workspaceRoot, runId);
+    if (this.config.recordCassettes) {
+      cliAdapter.setRecorder(new CassetteRecorder(getCassettePath(workspacePath)));
+    }
 
     const onLog = (type: 'stdout' | 'stderr' | 'info', message: string) => {
       if (this.io) {
@@ -946,8 +1707,11 @@ rm -rf ./outputs/test-cases/*
     };
 
     try {
-      const result = await cliAdapter.invokeClaudeCode({
-        prompt: regeneratePrompt,
+      const llmProviders = await this.resolveLlmProviders(runId, options.useCassette);
+      cliAdapter.setProviders(createLlmProviderBindings(llmProviders ?? {}));
+
+      const result = await cliAdapter.invokeTask('parse', {
+        prompt,
         workingDir: workspacePath,
         outputFormat: 'stream-json',
         onLog,
@@ -964,13 +1728,17 @@ rm -rf ./outputs/test-cases/*
       );
 
       if (!result.success) {
-        throw new Error(`Claude Code 调用失败: ${result.error || '未知错误'}`);
+        throw new Error(`${cliAdapter.getProviderType('parse')} 调用失败: ${result.error || '未知错误'}`);
       }
 
-      // 8. 更新状态为 awaiting_approval
+      if (apply) {
+        await apply();
+      }
+
+      // 更新状态为 awaiting_approval
       await this.updateRunState(runId, 'awaiting_approval');
 
-      // 9. 发送 WebSocket 事件
+      // 发送 WebSocket 事件
       if (this.io) {
         this.io.to(`run:${runId}`).emit('regeneration:completed', {
           runId,
@@ -979,12 +1747,16 @@ rm -rf ./outputs/test-cases/*
 
         this.io.to(`run:${runId}`).emit('approval:required', {
           runId,
-          testCasesPath: path.join(outputsDir, 'test-cases'),
+          testCasesPath: path.join(workspacePath, 'outputs', 'test-cases'),
         });
       }
 
       console.log(`[PipelineRunner] Test cases regenerated for run: ${runId}`);
     } catch (error) {
+      if (options.signal?.aborted) {
+        console.log(`[PipelineRunner] Regeneration cancelled for run: ${runId}`);
+        return;
+      }
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       console.error(`[PipelineRunner] Regeneration failed for run ${runId}:`, errorMsg);
       
@@ -1020,6 +1792,9 @@ export function getPipelineRunner(config?: PipelineRunnerConfig): PipelineRunner
       config = {
         workspaceRoot: process.env.WORKSPACE_DIR || '.ai-test-workspace',
         promptsDir: process.env.PROMPTS_DIR || path.join(monorepoRoot, 'prompts'),
+        llmProviders: resolveLlmProviderConfigFromEnv(process.env),
+        recordCassettes: process.env.LLM_RECORD_CASSETTE !== 'false',
+        maxConcurrentRuns: Number(process.env.PIPELINE_CONCURRENCY) || DEFAULT_PIPELINE_CONCURRENCY,
       };
     }
     pipelineRunner = new PipelineRunner(config);
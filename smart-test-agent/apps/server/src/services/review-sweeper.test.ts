@@ -0,0 +1,173 @@
+/**
+ * Review Sweeper Tests
+ * @see Requirements 13.1, 13.2
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ReviewSweeper, AUTO_APPROVAL_REVIEWER } from './review-sweeper.js';
+
+// Mock data storage
+const mockRuns = new Map<string, any>();
+const mockProfiles = new Map<string, any>();
+
+const projectId = '550e8400-e29b-41d4-a716-446655440000';
+
+vi.mock('@smart-test-agent/db', () => ({
+  prisma: {
+    testRun: {
+      findMany: vi.fn(async ({ where }) => {
+        const states: string[] = typeof where.state === 'string' ? [where.state] : where.state.in;
+        const [field, condition] = Object.entries(where).find(([key]) => key !== 'state') as [string, { lte: Date }];
+        return Array.from(mockRuns.values()).filter(
+          (r) => states.includes(r.state) && r[field] && r[field] <= condition.lte
+        );
+      }),
+      updateMany: vi.fn(async ({ where, data }) => {
+        const run = mockRuns.get(where.id);
+        if (!run || run.state !== where.state || ('reminderAt' in where && run.reminderAt !== where.reminderAt)) {
+          return { count: 0 };
+        }
+        Object.assign(run, data);
+        return { count: 1 };
+      }),
+    },
+    targetProfile: {
+      findUnique: vi.fn(async ({ where }) => mockProfiles.get(where.projectId) ?? null),
+    },
+  },
+  toJsonString: (value: any) => JSON.stringify(value),
+  fromJsonString: <T>(str: string): T => JSON.parse(str),
+  fromJsonStringNullable: <T>(str: string | null): T | null => str ? JSON.parse(str) : null,
+}));
+
+const continueAfterApproval = vi.fn(async () => {});
+vi.mock('./pipeline-runner.js', () => ({
+  getPipelineRunner: () => ({ setSocketIO: vi.fn(), continueAfterApproval }),
+}));
+
+const recordCaseDecisions = vi.fn(async () => {});
+vi.mock('./case-approvals.js', () => ({
+  listCaseApprovals: vi.fn(async () => [
+    { caseId: 'TC-001', status: 'executed', round: 1 },
+    { caseId: 'TC-002', status: 'pending', round: 0 },
+  ]),
+  nextApprovalRound: () => 2,
+  recordCaseDecisions: (...args: unknown[]) => recordCaseDecisions(...(args as [])),
+}));
+
+function addRun(id: string, overrides: Record<string, any>) {
+  mockRuns.set(id, {
+    id,
+    projectId,
+    state: 'awaiting_approval',
+    approvalDueAt: null,
+    confirmDueAt: null,
+    reminderAt: null,
+    decisionLog: JSON.stringify([]),
+    ...overrides,
+  });
+}
+
+function createIO() {
+  const emit = vi.fn();
+  return { io: { to: vi.fn(() => ({ emit })) }, emit };
+}
+
+describe('ReviewSweeper', () => {
+  const now = new Date(2026, 2, 10, 12, 0);
+
+  beforeEach(() => {
+    mockRuns.clear();
+    mockProfiles.clear();
+    vi.clearAllMocks();
+  });
+
+  it('should fail runs not approved within the approval window', async () => {
+    addRun('run-overdue', { approvalDueAt: new Date(2026, 2, 10, 11, 0) });
+    addRun('run-waiting', { approvalDueAt: new Date(2026, 2, 10, 13, 0) });
+    const { io } = createIO();
+    const sweeper = new ReviewSweeper();
+    sweeper.setSocketIO(io as any);
+
+    await sweeper.tick(now);
+
+    expect(mockRuns.get('run-overdue')).toMatchObject({
+      state: 'failed',
+      reasonCode: 'approval_timeout',
+      completedAt: now,
+    });
+    expect(JSON.parse(mockRuns.get('run-overdue').decisionLog)[0].action).toBe('approval_timeout');
+    expect(mockRuns.get('run-waiting').state).toBe('awaiting_approval');
+    expect(io.to).toHaveBeenCalledWith('run:run-overdue');
+  });
+
+  it('should fail reports not confirmed in time', async () => {
+    addRun('run-report', { state: 'report_ready', confirmDueAt: new Date(2026, 2, 10, 11, 59) });
+    const { io, emit } = createIO();
+    const sweeper = new ReviewSweeper();
+    sweeper.setSocketIO(io as any);
+
+    await sweeper.tick(now);
+
+    expect(mockRuns.get('run-report')).toMatchObject({ state: 'failed', reasonCode: 'confirm_timeout' });
+    expect(emit).toHaveBeenCalledWith('state_transition', expect.objectContaining({
+      previousState: 'report_ready',
+      currentState: 'failed',
+      reasonCode: 'confirm_timeout',
+    }));
+  });
+
+  it('should remind reviewers once before the deadline', async () => {
+    const dueAt = new Date(2026, 2, 10, 14, 0);
+    addRun('run-soon', { approvalDueAt: dueAt, reminderAt: new Date(2026, 2, 10, 12, 0) });
+    const { io, emit } = createIO();
+    const sweeper = new ReviewSweeper();
+    sweeper.setSocketIO(io as any);
+
+    await sweeper.tick(now);
+    await sweeper.tick(new Date(2026, 2, 10, 12, 1));
+
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledWith('review:reminder', {
+      runId: 'run-soon',
+      kind: 'approval',
+      dueAt: dueAt.toISOString(),
+      timestamp: now.toISOString(),
+    });
+    expect(mockRuns.get('run-soon')).toMatchObject({ state: 'awaiting_approval', reminderAt: null });
+    expect(JSON.parse(mockRuns.get('run-soon').decisionLog)[0].action).toBe('approval_reminder');
+  });
+
+  it('should auto-approve overdue read-only runs when the project allows it', async () => {
+    mockProfiles.set(projectId, {
+      allowedOperations: JSON.stringify(['query', 'view_detail']),
+      roles: null,
+      reviewPolicy: JSON.stringify({ autoApproveReadOnly: true }),
+    });
+    addRun('run-read-only', { approvalDueAt: new Date(2026, 2, 10, 11, 0) });
+    const sweeper = new ReviewSweeper();
+
+    await sweeper.tick(now);
+
+    expect(mockRuns.get('run-read-only').state).toBe('executing');
+    expect(recordCaseDecisions).toHaveBeenCalledWith('run-read-only', AUTO_APPROVAL_REVIEWER, 2, [
+      { caseId: 'TC-002', approved: true },
+    ]);
+    expect(continueAfterApproval).toHaveBeenCalledWith('run-read-only');
+  });
+
+  it('should fail overdue runs that can change data even with auto-approval enabled', async () => {
+    mockProfiles.set(projectId, {
+      allowedOperations: JSON.stringify(['query', 'delete']),
+      roles: null,
+      reviewPolicy: JSON.stringify({ autoApproveReadOnly: true }),
+    });
+    addRun('run-writes', { approvalDueAt: new Date(2026, 2, 10, 11, 0) });
+    const sweeper = new ReviewSweeper();
+
+    await sweeper.tick(now);
+
+    expect(mockRuns.get('run-writes')).toMatchObject({ state: 'failed', reasonCode: 'approval_timeout' });
+    expect(continueAfterApproval).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Review Sweeper Service
+ * Enforces the deadlines of runs waiting for a reviewer: reminds reviewers before a deadline,
+ * fails runs that miss it with approval_timeout / confirm_timeout and, when the project's review
+ * policy allows it, approves read-only runs instead of failing them.
+ * Deadlines are stored on the run when it enters awaiting_approval or report_ready, so they
+ * survive server restarts.
+ *
+ * @see Requirements 13.1, 13.2
+ */
+
+import { Server as SocketIOServer } from 'socket.io';
+import { prisma, toJsonString, fromJsonString, type TestRun } from '@smart-test-agent/db';
+import { isReadOnlyProfile } from '@smart-test-agent/core';
+import type { OperationType, ReviewPolicy, RoleConfig } from '@smart-test-agent/shared';
+import { WebSocketEvents, type ReviewReminderEvent } from '../websocket/events.js';
+import { getPipelineRunner } from './pipeline-runner.js';
+import { listCaseApprovals, nextApprovalRound, recordCaseDecisions } from './case-approvals.js';
+
+/** How often review deadlines are checked */
+export const REVIEW_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** Reviewer recorded on cases approved by the sweeper */
+export const AUTO_APPROVAL_REVIEWER = 'review-sweeper';
+
+type DecisionLog = Array<{ timestamp: string; action: string; details?: string }>;
+
+/**
+ * Review state of a run and the deadline that applies to it
+ */
+const REVIEW_DEADLINES = {
+  awaiting_approval: { kind: 'approval', dueField: 'approvalDueAt', reasonCode: 'approval_timeout' },
+  report_ready: { kind: 'confirmation', dueField: 'confirmDueAt', reasonCode: 'confirm_timeout' },
+} as const;
+
+type ReviewState = keyof typeof REVIEW_DEADLINES;
+
+/**
+ * Review Sweeper Service
+ */
+export class ReviewSweeper {
+  private io: SocketIOServer | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sweeping = false;
+
+  /**
+   * Set Socket.IO server for reminder and state transition events
+   */
+  setSocketIO(io: SocketIOServer): void {
+    this.io = io;
+  }
+
+  /**
+   * Start checking deadlines periodically
+   */
+  start(intervalMs = REVIEW_SWEEP_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    this.timer.unref?.();
+    void this.tick();
+  }
+
+  /**
+   * Stop checking deadlines
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send due reminders, then expire overdue approvals and confirmations
+   * Overlapping ticks are skipped.
+   */
+  async tick(now = new Date()): Promise<void> {
+    if (this.sweeping) {
+      return;
+    }
+    this.sweeping = true;
+    try {
+      await this.sendReminders(now);
+      await this.expireOverdueRuns('awaiting_approval', now);
+      await this.expireOverdueRuns('report_ready', now);
+    } catch (error) {
+      console.error('[ReviewSweeper] Tick failed:', error);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Remind reviewers of runs whose deadline is close
+   */
+  private async sendReminders(now: Date): Promise<void> {
+    const runs = await prisma.testRun.findMany({
+      where: { state: { in: Object.keys(REVIEW_DEADLINES) }, reminderAt: { lte: now } },
+    });
+
+    for (const run of runs) {
+      const { kind, dueField } = REVIEW_DEADLINES[run.state as ReviewState];
+      const dueAt = run[dueField];
+      if (!dueAt) {
+        continue;
+      }
+
+      const decisionLog = appendDecision(run.decisionLog, now, `${kind}_reminder`, `Due at ${dueAt.toISOString()}`);
+      // Only remind once, the deadline may have been moved since the run was read
+      const { count } = await prisma.testRun.updateMany({
+        where: { id: run.id, state: run.state, reminderAt: run.reminderAt },
+        data: { reminderAt: null, decisionLog },
+      });
+      if (count !== 1) {
+        continue;
+      }
+
+      console.log(`[ReviewSweeper] Reminded reviewers of run ${run.id}, ${kind} due at ${dueAt.toISOString()}`);
+      if (this.io) {
+        const reminderEvent: ReviewReminderEvent = {
+          runId: run.id,
+          kind,
+          dueAt: dueAt.toISOString(),
+          timestamp: now.toISOString(),
+        };
+        this.io.to(`run:${run.id}`).emit(WebSocketEvents.REVIEW_REMINDER, reminderEvent);
+      }
+    }
+  }
+
+  /**
+   * Fail runs that missed their deadline, or auto-approve them if the project allows it
+   */
+  private async expireOverdueRuns(state: ReviewState, now: Date): Promise<void> {
+    const { dueField, reasonCode } = REVIEW_DEADLINES[state];
+    const overdueRuns = await prisma.testRun.findMany({
+      where: { state, [dueField]: { lte: now } },
+    });
+
+    for (const run of overdueRuns) {
+      const dueAt = run[dueField];
+      if (!dueAt) {
+        continue;
+      }
+      if (state === 'awaiting_approval' && (await this.canAutoApprove(run.projectId))) {
+        await this.autoApprove(run, now);
+        continue;
+      }
+
+      const verb = state === 'awaiting_approval' ? 'approved' : 'confirmed';
+      const decisionLog = appendDecision(run.decisionLog, now, reasonCode, `Not ${verb} by ${dueAt.toISOString()}`);
+      // Only fail runs still waiting, a reviewer may have acted since they were read
+      const { count } = await prisma.testRun.updateMany({
+        where: { id: run.id, state },
+        data: {
+          state: 'failed',
+          reasonCode,
+          decisionLog,
+          reminderAt: null,
+          completedAt: now,
+        },
+      });
+      if (count !== 1) {
+        continue;
+      }
+
+      console.log(`[ReviewSweeper] Run ${run.id} was not ${verb} in time`);
+      this.emitStateTransition(run.id, state, 'failed', now, reasonCode);
+    }
+  }
+
+  /**
+   * Whether the project approves read-only runs when the approval deadline passes
+   */
+  private async canAutoApprove(projectId: string): Promise<boolean> {
+    const profile = await prisma.targetProfile.findUnique({ where: { projectId } });
+    if (!profile?.reviewPolicy) {
+      return false;
+    }
+    const policy = fromJsonString<ReviewPolicy>(profile.reviewPolicy);
+    return (
+      policy.autoApproveReadOnly === true &&
+      isReadOnlyProfile({
+        allowedOperations: fromJsonString<OperationType[]>(profile.allowedOperations),
+        roles: profile.roles ? fromJsonString<RoleConfig[]>(profile.roles) : undefined,
+      })
+    );
+  }
+
+  /**
+   * Approve all pending test cases of an overdue read-only run and continue its pipeline
+   */
+  private async autoApprove(run: TestRun, now: Date): Promise<void> {
+    const decisionLog = appendDecision(
+      run.decisionLog,
+      now,
+      'approval_granted',
+      'Auto-approved after the approval deadline: the project only allows read-only operations'
+    );
+    const { count } = await prisma.testRun.updateMany({
+      where: { id: run.id, state: 'awaiting_approval' },
+      data: { state: 'executing', decisionLog, reminderAt: null },
+    });
+    if (count !== 1) {
+      return;
+    }
+
+    const approvals = await listCaseApprovals(run.id);
+    const pending = approvals.filter((approval) => approval.status === 'pending');
+    if (pending.length > 0) {
+      await recordCaseDecisions(
+        run.id,
+        AUTO_APPROVAL_REVIEWER,
+        nextApprovalRound(approvals),
+        pending.map((approval) => ({ caseId: approval.caseId, approved: true }))
+      );
+    }
+
+    console.log(`[ReviewSweeper] Run ${run.id} auto-approved after its approval deadline`);
+    this.emitStateTransition(run.id, 'awaiting_approval', 'executing', now);
+
+    const pipelineRunner = getPipelineRunner();
+    if (this.io) {
+      pipelineRunner.setSocketIO(this.io);
+    }
+    pipelineRunner.continueAfterApproval(run.id).catch((error) => {
+      console.error(`[ReviewSweeper] Failed to continue pipeline for run ${run.id}:`, error);
+    });
+  }
+
+  private emitStateTransition(
+    runId: string,
+    previousState: string,
+    currentState: string,
+    now: Date,
+    reasonCode?: string
+  ): void {
+    if (this.io) {
+      this.io.to(`run:${runId}`).emit('state_transition', {
+        runId,
+        previousState,
+        currentState,
+        ...(reasonCode ? { reasonCode } : {}),
+        timestamp: now.toISOString(),
+      });
+    }
+  }
+}
+
+/**
+ * Append an entry to a run's decision log JSON
+ */
+function appendDecision(decisionLogJson: string, now: Date, action: string, details: string): string {
+  const decisionLog = fromJsonString<DecisionLog>(decisionLogJson);
+  decisionLog.push({ timestamp: now.toISOString(), action, details });
+  return toJsonString(decisionLog);
+}
+
+// Singleton instance
+let reviewSweeper: ReviewSweeper | null = null;
+
+/**
+ * Get or create the review sweeper instance
+ */
+export function getReviewSweeper(): ReviewSweeper {
+  if (!reviewSweeper) {
+    reviewSweeper = new ReviewSweeper();
+  }
+  return reviewSweeper;
+}
+
+export default ReviewSweeper;
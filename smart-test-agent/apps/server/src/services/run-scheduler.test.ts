@@ -0,0 +1,126 @@
+/**
+ * Run Scheduler Tests
+ * @see Requirements 6.3, 13.1
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RunScheduler } from './run-scheduler.js';
+
+// Mock data storage
+const mockSchedules = new Map<string, any>();
+const mockRuns = new Map<string, any>();
+
+const projectId = '550e8400-e29b-41d4-a716-446655440000';
+
+vi.mock('@smart-test-agent/db', () => ({
+  prisma: {
+    project: {
+      findUnique: vi.fn(async ({ where }) => (where.id === projectId ? { id: projectId } : null)),
+    },
+    targetProfile: {
+      findUnique: vi.fn(async ({ where }) => (where.projectId === projectId ? { id: 'profile-1' } : null)),
+    },
+    schedule: {
+      findMany: vi.fn(async ({ where }) => {
+        return Array.from(mockSchedules.values()).filter(
+          (s) => s.paused === where.paused && s.nextRunAt && s.nextRunAt <= where.nextRunAt.lte
+        );
+      }),
+      updateMany: vi.fn(async ({ where, data }) => {
+        const schedule = mockSchedules.get(where.id);
+        if (!schedule || schedule.paused !== where.paused || schedule.nextRunAt !== where.nextRunAt) {
+          return { count: 0 };
+        }
+        Object.assign(schedule, data);
+        return { count: 1 };
+      }),
+      update: vi.fn(async ({ where, data }) => Object.assign(mockSchedules.get(where.id), data)),
+    },
+    testRun: {
+      create: vi.fn(async ({ data }) => {
+        const run = { ...data, createdAt: new Date(), updatedAt: new Date() };
+        mockRuns.set(run.id, run);
+        return run;
+      }),
+    },
+  },
+  toJsonString: (value: any) => JSON.stringify(value),
+  fromJsonString: <T>(str: string): T => JSON.parse(str),
+  fromJsonStringNullable: <T>(str: string | null): T | null => str ? JSON.parse(str) : null,
+}));
+
+function addSchedule(overrides: Record<string, any> = {}) {
+  const schedule = {
+    id: crypto.randomUUID(),
+    projectId,
+    name: 'Nightly regression',
+    cronExpression: '@nightly',
+    prdPath: 'prd.md',
+    routes: JSON.stringify(['/users']),
+    executionMode: 'local',
+    environment: null,
+    a11yAudit: true,
+    approvalMode: 'manual',
+    approvalWindowMinutes: null,
+    paused: false,
+    nextRunAt: new Date(2026, 2, 10, 2, 0),
+    lastRunAt: null,
+    lastRunId: null,
+    ...overrides,
+  };
+  mockSchedules.set(schedule.id, schedule);
+  return schedule;
+}
+
+describe('RunScheduler', () => {
+  beforeEach(() => {
+    mockSchedules.clear();
+    mockRuns.clear();
+    vi.clearAllMocks();
+  });
+
+  it('should launch a run for due schedules and advance them', async () => {
+    const schedule = addSchedule();
+    const scheduler = new RunScheduler();
+
+    await scheduler.tick(new Date(2026, 2, 10, 2, 0, 30));
+
+    const runs = Array.from(mockRuns.values());
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({
+      projectId,
+      prdPath: 'prd.md',
+      testedRoutes: JSON.stringify(['/users']),
+      executionMode: 'local',
+      a11yAudit: true,
+      scheduleId: schedule.id,
+      state: 'created',
+    });
+    expect(schedule.lastRunId).toBe(runs[0].id);
+    expect(schedule.nextRunAt).toEqual(new Date(2026, 2, 11, 2, 0));
+  });
+
+  it('should launch a missed schedule once and skip schedules not yet due or paused', async () => {
+    const missed = addSchedule({ nextRunAt: new Date(2026, 2, 7, 2, 0) });
+    addSchedule({ nextRunAt: new Date(2026, 2, 11, 2, 0) });
+    addSchedule({ paused: true, nextRunAt: new Date(2026, 2, 9, 2, 0) });
+    const scheduler = new RunScheduler();
+
+    await scheduler.tick(new Date(2026, 2, 10, 9, 0));
+    await scheduler.tick(new Date(2026, 2, 10, 9, 1));
+
+    expect(mockRuns.size).toBe(1);
+    expect(missed.nextRunAt).toEqual(new Date(2026, 2, 11, 2, 0));
+  });
+
+  it('should advance the schedule even when the run cannot be created', async () => {
+    const schedule = addSchedule({ projectId: '550e8400-e29b-41d4-a716-446655440099' });
+    const scheduler = new RunScheduler();
+
+    await scheduler.tick(new Date(2026, 2, 10, 2, 0));
+
+    expect(mockRuns.size).toBe(0);
+    expect(schedule.nextRunAt).toEqual(new Date(2026, 2, 11, 2, 0));
+    expect(schedule.lastRunId).toBeNull();
+  });
+});
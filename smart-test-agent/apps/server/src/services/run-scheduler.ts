@@ -0,0 +1,135 @@
+/**
+ * Run Scheduler Service
+ * Launches test runs for due schedules. The approval window of scheduled runs is enforced by
+ * the review sweeper. Schedules are polled from the database, so due runs survive server restarts; a run missed
+ * while the server was down is launched once on the next tick.
+ *
+ * @see Requirements 6.3, 13.1
+ */
+
+import { Server as SocketIOServer } from 'socket.io';
+import { prisma, fromJsonString } from '@smart-test-agent/db';
+import { getNextCronTime } from './cron.js';
+import { createTestRun, type ExecutionMode } from '../trpc/routers/testRun.js';
+
+/** How often due schedules are checked */
+export const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Run Scheduler Service
+ */
+export class RunScheduler {
+  private io: SocketIOServer | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+
+  /**
+   * Set Socket.IO server; runs are only started when it is set
+   */
+  setSocketIO(io: SocketIOServer): void {
+    this.io = io;
+  }
+
+  /**
+   * Start checking schedules periodically
+   */
+  start(intervalMs = SCHEDULER_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    this.timer.unref?.();
+    void this.tick();
+  }
+
+  /**
+   * Stop checking schedules
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Launch due schedules
+   * Overlapping ticks are skipped.
+   */
+  async tick(now = new Date()): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+    try {
+      await this.launchDueSchedules(now);
+    } catch (error) {
+      console.error('[RunScheduler] Tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Create a run for every schedule whose next run time has passed
+   */
+  private async launchDueSchedules(now: Date): Promise<void> {
+    const dueSchedules = await prisma.schedule.findMany({
+      where: { paused: false, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' },
+    });
+
+    for (const schedule of dueSchedules) {
+      // Advance the schedule before launching, so a failing launch is not retried every tick.
+      // The conditional update keeps a schedule from launching twice if it changed meanwhile.
+      const nextRunAt = getNextCronTime(schedule.cronExpression, now);
+      const { count } = await prisma.schedule.updateMany({
+        where: { id: schedule.id, paused: false, nextRunAt: schedule.nextRunAt },
+        data: { nextRunAt, lastRunAt: now },
+      });
+      if (count !== 1) {
+        continue;
+      }
+
+      try {
+        const run = await createTestRun(
+          {
+            projectId: schedule.projectId,
+            prdPath: schedule.prdPath,
+            routes: fromJsonString<string[]>(schedule.routes),
+            executionMode: (schedule.executionMode ?? 'agent') as ExecutionMode,
+            environment: schedule.environment ?? undefined,
+            a11yAudit: schedule.a11yAudit ?? false,
+            priority: 0,
+          },
+          this.io,
+          { scheduleId: schedule.id }
+        );
+
+        await prisma.schedule.update({
+          where: { id: schedule.id },
+          data: { lastRunId: run.id },
+        });
+        console.log(`[RunScheduler] Schedule "${schedule.name}" launched run ${run.id}, next run at ${nextRunAt.toISOString()}`);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[RunScheduler] Schedule "${schedule.name}" failed to launch a run: ${errorMsg}`);
+      }
+    }
+  }
+}
+
+// Singleton instance
+let runScheduler: RunScheduler | null = null;
+
+/**
+ * Get or create the run scheduler instance
+ */
+export function getRunScheduler(): RunScheduler {
+  if (!runScheduler) {
+    runScheduler = new RunScheduler();
+  }
+  return runScheduler;
+}
+
+export default RunScheduler;
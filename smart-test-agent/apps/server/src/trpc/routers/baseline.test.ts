@@ -0,0 +1,125 @@
+/**
+ * Baseline Router Tests
+ * Unit tests for visual regression baseline API endpoints
+ * @see Requirements 4.8, 7.4, 17.4
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { baselineRouter } from './baseline.js';
+import { createCallerFactory } from '../trpc.js';
+
+// Mock data storage
+const mockRuns = new Map<string, any>();
+
+// Mock the Prisma client
+vi.mock('@smart-test-agent/db', () => {
+  return {
+    prisma: {
+      testRun: {
+        findUnique: vi.fn(async ({ where }) => mockRuns.get(where.id) || null),
+      },
+    },
+    toJsonString: (value: any) => JSON.stringify(value),
+    fromJsonString: <T>(str: string): T => JSON.parse(str),
+    fromJsonStringNullable: <T>(str: string | null): T | null => str ? JSON.parse(str) : null,
+  };
+});
+
+// Create a caller for testing
+const createCaller = createCallerFactory(baselineRouter);
+
+const projectId = '550e8400-e29b-41d4-a716-446655440000';
+const runId = '660e8400-e29b-41d4-a716-446655440001';
+
+describe('Baseline Router', () => {
+  let workspaceRoot: string;
+  let originalWorkspaceDir: string | undefined;
+
+  function writeVisual(key: string, content: string): void {
+    const filePath = path.join(workspaceRoot, runId, 'evidence', 'screenshots', 'visual', key);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-router-'));
+    originalWorkspaceDir = process.env.WORKSPACE_DIR;
+    process.env.WORKSPACE_DIR = workspaceRoot;
+    mockRuns.clear();
+    mockRuns.set(runId, {
+      id: runId,
+      projectId,
+      environment: 'staging',
+      workspacePath: path.join(workspaceRoot, runId),
+    });
+  });
+
+  afterEach(() => {
+    if (originalWorkspaceDir === undefined) {
+      delete process.env.WORKSPACE_DIR;
+    } else {
+      process.env.WORKSPACE_DIR = originalWorkspaceDir;
+    }
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  describe('promote', () => {
+    it('should copy visual screenshots into the environment baselines', async () => {
+      writeVisual('users_list/TC001-A001.png', 'actual-1');
+      writeVisual('users_list/TC001-A001-diff.png', 'diff-1');
+      writeVisual('root/TC002-A001.png', 'actual-2');
+
+      const caller = createCaller({});
+      const result = await caller.promote({ runId });
+
+      expect(result.environment).toBe('staging');
+      expect(result.promoted).toEqual(['root/TC002-A001.png', 'users_list/TC001-A001.png']);
+      const baselineDir = path.join(workspaceRoot, 'baselines', projectId, 'staging');
+      expect(fs.readFileSync(path.join(baselineDir, 'users_list', 'TC001-A001.png'), 'utf-8')).toBe('actual-1');
+      expect(fs.existsSync(path.join(baselineDir, 'users_list', 'TC001-A001-diff.png'))).toBe(false);
+    });
+
+    it('should only promote the selected cases', async () => {
+      writeVisual('users_list/TC001-A001.png', 'actual-1');
+      writeVisual('root/TC002-A001.png', 'actual-2');
+      mockRuns.get(runId).environment = null;
+
+      const caller = createCaller({});
+      const result = await caller.promote({ runId, caseIds: ['TC002'] });
+
+      expect(result.environment).toBeNull();
+      expect(result.promoted).toEqual(['root/TC002-A001.png']);
+      expect(fs.existsSync(path.join(workspaceRoot, 'baselines', projectId, '_base', 'root', 'TC002-A001.png'))).toBe(true);
+    });
+
+    it('should reject runs without visual screenshots', async () => {
+      const caller = createCaller({});
+
+      await expect(caller.promote({ runId })).rejects.toThrow('no visual screenshots');
+    });
+
+    it('should throw NOT_FOUND for unknown runs', async () => {
+      const caller = createCaller({});
+
+      await expect(caller.promote({ runId: '770e8400-e29b-41d4-a716-446655440002' })).rejects.toThrow('not found');
+    });
+  });
+
+  describe('list', () => {
+    it('should list promoted baselines with their URLs', async () => {
+      writeVisual('users_list/TC001-A001.png', 'actual-1');
+      const caller = createCaller({});
+      await caller.promote({ runId });
+
+      const result = await caller.list({ projectId, environment: 'staging' });
+
+      expect(result.total).toBe(1);
+      expect(result.baselines[0].key).toBe('users_list/TC001-A001.png');
+      expect(result.baselines[0].url).toBe(`/workspace/baselines/${projectId}/staging/users_list/TC001-A001.png`);
+      expect(await caller.list({ projectId })).toEqual({ baselines: [], total: 0 });
+    });
+  });
+});
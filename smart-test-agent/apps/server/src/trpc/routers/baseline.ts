@@ -0,0 +1,158 @@
+/**
+ * Baseline Router
+ * Manages visual regression baselines, stored per project + environment + route
+ * under <workspace>/baselines/<projectId>/<environment|_base>/<route>/<caseId>-<assertionId>.png
+ * @see Requirements 4.8, 7.4, 17.4
+ */
+
+import { z } from 'zod';
+import { router, publicProcedure } from '../trpc.js';
+import { TRPCError } from '@trpc/server';
+import { prisma } from '@smart-test-agent/db';
+import { getBaselineDir, VISUAL_SCREENSHOT_DIRNAME } from '@smart-test-agent/playwright-runner';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { environmentNameSchema } from './environment.js';
+
+/**
+ * Baseline image info
+ */
+export interface BaselineImage {
+  /** Path relative to the environment's baseline directory (<route>/<caseId>-<assertionId>.png) */
+  key: string;
+  url: string;
+  size: number;
+  updatedAt: Date;
+}
+
+/**
+ * Root directory of run workspaces
+ */
+function getWorkspaceRoot(): string {
+  return process.env.WORKSPACE_DIR || '.ai-test-workspace';
+}
+
+/**
+ * List PNG files below a directory, as paths relative to it
+ */
+async function listPngFiles(dir: string, prefix = ''): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(path.join(dir, prefix), { withFileTypes: true });
+  } catch {
+    // Directory doesn't exist yet
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listPngFiles(dir, relativePath));
+    } else if (/\.png$/i.test(entry.name)) {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Check whether a visual screenshot belongs to one of the selected cases
+ */
+function matchesCase(key: string, caseIds?: string[]): boolean {
+  if (!caseIds || caseIds.length === 0) {
+    return true;
+  }
+  const filename = path.posix.basename(key);
+  return caseIds.some((caseId) => filename.startsWith(`${caseId}-`));
+}
+
+/**
+ * Baseline router
+ */
+export const baselineRouter = router({
+  /**
+   * List the baselines of a project environment
+   */
+  list: publicProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+      environment: environmentNameSchema.optional(),
+    }))
+    .query(async ({ input }) => {
+      const baselineDir = getBaselineDir(getWorkspaceRoot(), input.projectId, input.environment);
+      const subdir = path.relative(getWorkspaceRoot(), baselineDir);
+      const keys = await listPngFiles(baselineDir);
+
+      const baselines: BaselineImage[] = await Promise.all(
+        keys.map(async (key) => {
+          const stats = await fs.stat(path.join(baselineDir, key));
+          return {
+            key,
+            url: `/workspace/${subdir.split(path.sep).join('/')}/${key}`,
+            size: stats.size,
+            updatedAt: stats.mtime,
+          };
+        })
+      );
+
+      return {
+        baselines,
+        total: baselines.length,
+      };
+    }),
+
+  /**
+   * Promote the visual screenshots of a run to baselines of its project environment
+   * Diff images are skipped; existing baselines with the same key are replaced.
+   */
+  promote: publicProcedure
+    .input(z.object({
+      runId: z.string().uuid(),
+      /** Only promote the screenshots of these cases (all when omitted) */
+      caseIds: z.array(z.string()).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const run = await prisma.testRun.findUnique({
+        where: { id: input.runId },
+        select: {
+          projectId: true,
+          environment: true,
+          workspacePath: true,
+        },
+      });
+
+      if (!run) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Test run with id ${input.runId} not found`,
+        });
+      }
+
+      const visualDir = path.join(run.workspacePath, 'evidence', 'screenshots', VISUAL_SCREENSHOT_DIRNAME);
+      const keys = (await listPngFiles(visualDir))
+        .filter((key) => !key.endsWith('-diff.png'))
+        .filter((key) => matchesCase(key, input.caseIds));
+
+      if (keys.length === 0) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `Test run ${input.runId} has no visual screenshots to promote`,
+        });
+      }
+
+      const environment = run.environment ?? undefined;
+      const baselineDir = getBaselineDir(getWorkspaceRoot(), run.projectId, environment);
+      for (const key of keys) {
+        const target = path.join(baselineDir, key);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.copyFile(path.join(visualDir, key), target);
+      }
+
+      return {
+        projectId: run.projectId,
+        environment: environment ?? null,
+        promoted: keys,
+      };
+    }),
+});
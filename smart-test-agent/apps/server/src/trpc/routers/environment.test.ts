@@ -0,0 +1,159 @@
+/**
+ * Environment Router Tests
+ * Unit tests for named environment API endpoints
+ * @see Requirements 1.1, 1.4, 17.1
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { environmentRouter } from './environment.js';
+import { createCallerFactory } from '../trpc.js';
+
+// Mock data storage
+const mockProjects = new Map<string, any>();
+const mockProfiles = new Map<string, any>();
+const mockEnvironments = new Map<string, any>();
+
+const envKey = (projectId: string, name: string) => `${projectId}:${name}`;
+
+// Mock the Prisma client
+vi.mock('@smart-test-agent/db', () => {
+  return {
+    prisma: {
+      project: {
+        findUnique: vi.fn(async ({ where }) => mockProjects.get(where.id) || null),
+      },
+      targetProfile: {
+        findUnique: vi.fn(async ({ where }) => mockProfiles.get(where.projectId) || null),
+      },
+      environment: {
+        findMany: vi.fn(async ({ where }) => {
+          return Array.from(mockEnvironments.values())
+            .filter((env) => env.projectId === where.projectId)
+            .sort((a, b) => a.name.localeCompare(b.name));
+        }),
+        findUnique: vi.fn(async ({ where }) => {
+          const { projectId, name } = where.projectId_name;
+          return mockEnvironments.get(envKey(projectId, name)) || null;
+        }),
+        upsert: vi.fn(async ({ where, create, update }) => {
+          const { projectId, name } = where.projectId_name;
+          const key = envKey(projectId, name);
+          const existing = mockEnvironments.get(key);
+          const now = new Date();
+          const record = existing
+            ? { ...existing, ...update, updatedAt: now }
+            : { id: crypto.randomUUID(), ...create, createdAt: now, updatedAt: now };
+          mockEnvironments.set(key, record);
+          return record;
+        }),
+        delete: vi.fn(async ({ where }) => {
+          for (const [key, env] of mockEnvironments) {
+            if (env.id === where.id) {
+              mockEnvironments.delete(key);
+              return env;
+            }
+          }
+          return null;
+        }),
+      },
+    },
+    toJsonString: (value: any) => JSON.stringify(value),
+    fromJsonString: <T>(str: string): T => JSON.parse(str),
+    fromJsonStringNullable: <T>(str: string | null): T | null => str ? JSON.parse(str) : null,
+  };
+});
+
+// Create a caller for testing
+const createCaller = createCallerFactory(environmentRouter);
+
+const projectId = '550e8400-e29b-41d4-a716-446655440000';
+
+describe('Environment Router', () => {
+  beforeEach(() => {
+    mockProjects.clear();
+    mockProfiles.clear();
+    mockEnvironments.clear();
+    mockProjects.set(projectId, { id: projectId, name: 'Test Project' });
+    mockProfiles.set(projectId, { id: 'profile-1', projectId });
+  });
+
+  describe('upsert', () => {
+    it('should create an environment with overrides', async () => {
+      const caller = createCaller({} as any);
+      const result = await caller.upsert({
+        projectId,
+        name: 'staging',
+        baseUrl: 'https://staging.example.com',
+        login: { credentials: { username: '$STAGING_USERNAME', password: '$STAGING_PASSWORD' } },
+        browser: { timeoutMs: 60000 },
+      });
+
+      expect(result.name).toBe('staging');
+      expect(result.baseUrl).toBe('https://staging.example.com');
+      expect(result.login?.credentials?.username).toBe('$STAGING_USERNAME');
+      expect(result.browser).toEqual({ timeoutMs: 60000 });
+    });
+
+    it('should update an existing environment', async () => {
+      const caller = createCaller({} as any);
+      await caller.upsert({ projectId, name: 'uat', baseUrl: 'https://uat.example.com' });
+      const result = await caller.upsert({ projectId, name: 'uat', baseUrl: 'https://uat2.example.com' });
+
+      expect(result.baseUrl).toBe('https://uat2.example.com');
+      expect(mockEnvironments.size).toBe(1);
+    });
+
+    it('should reject invalid environment names', async () => {
+      const caller = createCaller({} as any);
+
+      await expect(caller.upsert({ projectId, name: 'Staging Env' })).rejects.toThrow();
+    });
+
+    it('should require a base target profile', async () => {
+      mockProfiles.clear();
+      const caller = createCaller({} as any);
+
+      await expect(caller.upsert({ projectId, name: 'dev' })).rejects.toMatchObject({
+        code: 'PRECONDITION_FAILED',
+      });
+    });
+  });
+
+  describe('list', () => {
+    it('should list environments sorted by name', async () => {
+      const caller = createCaller({} as any);
+      await caller.upsert({ projectId, name: 'uat' });
+      await caller.upsert({ projectId, name: 'dev' });
+
+      const result = await caller.list({ projectId });
+
+      expect(result.map((env) => env.name)).toEqual(['dev', 'uat']);
+      expect(result[0].login).toBeNull();
+    });
+
+    it('should throw NOT_FOUND for unknown projects', async () => {
+      mockProjects.clear();
+      const caller = createCaller({} as any);
+
+      await expect(caller.list({ projectId })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete an environment', async () => {
+      const caller = createCaller({} as any);
+      await caller.upsert({ projectId, name: 'dev' });
+
+      const result = await caller.delete({ projectId, name: 'dev' });
+
+      expect(result.success).toBe(true);
+      expect(mockEnvironments.size).toBe(0);
+    });
+
+    it('should throw NOT_FOUND for unknown environments', async () => {
+      const caller = createCaller({} as any);
+
+      await expect(caller.delete({ projectId, name: 'dev' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+});
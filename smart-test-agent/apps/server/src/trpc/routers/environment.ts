@@ -0,0 +1,170 @@
+/**
+ * Environment Router
+ * Handles named environments (dev, staging, uat) that override a project's target profile
+ * @see Requirements 1.1, 1.4, 17.1
+ */
+
+import { z } from 'zod';
+import { router, publicProcedure } from '../trpc.js';
+import { TRPCError } from '@trpc/server';
+import { prisma, toJsonString, fromJsonStringNullable } from '@smart-test-agent/db';
+import { browserConfigSchema, loginConfigSchema } from './targetProfile.js';
+
+/**
+ * Environment name schema
+ * Lowercase letters, digits, '-' and '_', up to 32 characters
+ */
+export const environmentNameSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,31}$/, 'Environment name must be lowercase letters, digits, - or _ (max 32)');
+
+/**
+ * Environment input schema
+ * Every override is optional; unset fields inherit from the base target profile
+ */
+const environmentInputSchema = z.object({
+  projectId: z.string().uuid(),
+  name: environmentNameSchema,
+  baseUrl: z.string().url().optional(),
+  login: loginConfigSchema.partial().extend({
+    credentials: z.object({
+      username: z.string(),
+      password: z.string(),
+    }).partial().optional(),
+  }).optional(),
+  browser: browserConfigSchema.partial().optional(),
+});
+
+export type EnvironmentInput = z.infer<typeof environmentInputSchema>;
+
+/**
+ * Environment output type
+ */
+export interface Environment {
+  id: string;
+  projectId: string;
+  name: string;
+  baseUrl: string | null;
+  login: EnvironmentInput['login'] | null;
+  browser: EnvironmentInput['browser'] | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Convert database record to API response format
+ */
+function dbToApiFormat(dbRecord: any): Environment {
+  return {
+    id: dbRecord.id,
+    projectId: dbRecord.projectId,
+    name: dbRecord.name,
+    baseUrl: dbRecord.baseUrl,
+    login: fromJsonStringNullable(dbRecord.loginConfig),
+    browser: fromJsonStringNullable(dbRecord.browserConfig),
+    createdAt: dbRecord.createdAt,
+    updatedAt: dbRecord.updatedAt,
+  };
+}
+
+/**
+ * Ensure the project exists
+ */
+async function assertProjectExists(projectId: string): Promise<void> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+  });
+
+  if (!project) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Project with id ${projectId} not found`,
+    });
+  }
+}
+
+/**
+ * Environment router with Prisma database integration
+ */
+export const environmentRouter = router({
+  /**
+   * List environments of a project
+   */
+  list: publicProcedure
+    .input(z.object({ projectId: z.string().uuid() }))
+    .query(async ({ input }) => {
+      await assertProjectExists(input.projectId);
+
+      const environments = await prisma.environment.findMany({
+        where: { projectId: input.projectId },
+        orderBy: { name: 'asc' },
+      });
+
+      return environments.map(dbToApiFormat);
+    }),
+
+  /**
+   * Create or update an environment
+   */
+  upsert: publicProcedure
+    .input(environmentInputSchema)
+    .mutation(async ({ input }) => {
+      await assertProjectExists(input.projectId);
+
+      // Environments inherit from the base profile, so it must exist first
+      const profile = await prisma.targetProfile.findUnique({
+        where: { projectId: input.projectId },
+        select: { id: true },
+      });
+
+      if (!profile) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `Target profile for project ${input.projectId} not found. Please configure target profile first.`,
+        });
+      }
+
+      const dbData = {
+        baseUrl: input.baseUrl ?? null,
+        loginConfig: input.login ? toJsonString(input.login) : null,
+        browserConfig: input.browser ? toJsonString(input.browser) : null,
+      };
+
+      const environment = await prisma.environment.upsert({
+        where: { projectId_name: { projectId: input.projectId, name: input.name } },
+        create: {
+          projectId: input.projectId,
+          name: input.name,
+          ...dbData,
+        },
+        update: dbData,
+      });
+
+      return dbToApiFormat(environment);
+    }),
+
+  /**
+   * Delete an environment
+   * Test runs keep the environment name for history filtering.
+   */
+  delete: publicProcedure
+    .input(z.object({ projectId: z.string().uuid(), name: environmentNameSchema }))
+    .mutation(async ({ input }) => {
+      const environment = await prisma.environment.findUnique({
+        where: { projectId_name: { projectId: input.projectId, name: input.name } },
+      });
+
+      if (!environment) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Environment "${input.name}" not found for project ${input.projectId}`,
+        });
+      }
+
+      await prisma.environment.delete({
+        where: { id: environment.id },
+      });
+
+      return { success: true, projectId: input.projectId, name: input.name };
+    }),
+});
@@ -44,4 +44,16 @@ describe('App Router', () => {
     expect(appRouter._def.procedures).toHaveProperty('report.getScreenshot');
     expect(appRouter._def.procedures).toHaveProperty('report.getQualityMetrics');
   });
+
+  it('should have baseline router', () => {
+    expect(appRouter._def.procedures).toHaveProperty('baseline.list');
+    expect(appRouter._def.procedures).toHaveProperty('baseline.promote');
+  });
+
+  it('should have schedule router', () => {
+    expect(appRouter._def.procedures).toHaveProperty('schedule.list');
+    expect(appRouter._def.procedures).toHaveProperty('schedule.create');
+    expect(appRouter._def.procedures).toHaveProperty('schedule.setPaused');
+    expect(appRouter._def.procedures).toHaveProperty('schedule.delete');
+  });
 });
@@ -8,8 +8,11 @@ import { router } from '../trpc.js';
 import { healthRouter } from './health.js';
 import { projectRouter } from './project.js';
 import { targetProfileRouter } from './targetProfile.js';
+import { environmentRouter } from './environment.js';
 import { testRunRouter } from './testRun.js';
 import { reportRouter } from './report.js';
+import { baselineRouter } from './baseline.js';
+import { scheduleRouter } from './schedule.js';
 
 /**
  * Main application router
@@ -22,10 +25,16 @@ export const appRouter = router({
   project: projectRouter,
   /** Target profile configuration endpoints */
   targetProfile: targetProfileRouter,
+  /** Named environment endpoints */
+  environment: environmentRouter,
   /** Test run management endpoints */
   testRun: testRunRouter,
   /** Report viewing endpoints */
   report: reportRouter,
+  /** Visual regression baseline endpoints */
+  baseline: baselineRouter,
+  /** Scheduled test run endpoints */
+  schedule: scheduleRouter,
 });
 
 /**
@@ -39,5 +48,8 @@ export type AppRouter = typeof appRouter;
 export { healthRouter } from './health.js';
 export { projectRouter } from './project.js';
 export { targetProfileRouter } from './targetProfile.js';
+export { environmentRouter } from './environment.js';
 export { testRunRouter } from './testRun.js';
 export { reportRouter } from './report.js';
+export { baselineRouter } from './baseline.js';
+export { scheduleRouter } from './schedule.js';
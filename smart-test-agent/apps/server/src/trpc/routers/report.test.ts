@@ -18,6 +18,9 @@ vi.mock('fs/promises', () => ({
     if (filePath.includes('report.md')) {
       return '# Test Report\n\nThis is a test report.';
     }
+    if (filePath.includes('har-run') && filePath.endsWith('execution-results.json')) {
+      return JSON.stringify({ testCases: [{ caseId: 'TC-001', harPath: 'evidence/har/TC-001.har' }] });
+    }
     throw new Error('File not found');
   }),
   stat: vi.fn(async (filePath: string) => {
@@ -62,6 +65,13 @@ vi.mock('@smart-test-agent/db', () => {
           
           return run;
         }),
+        findMany: vi.fn(async ({ where, take }) => {
+          return [...mockRuns.values()]
+            .filter((run) => run.projectId === where.projectId && run.qualityMetrics !== null)
+            .filter((run) => !where.environment || run.environment === where.environment)
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .slice(0, take);
+        }),
       },
     },
     fromJsonString: <T>(str: string): T => JSON.parse(str),
@@ -140,6 +150,41 @@ describe('Report Router', () => {
       expect(result.summary.severityDistribution.critical).toBe(1);
       expect(result.defects).toHaveLength(1);
       expect(result.testCases).toHaveLength(1);
+      expect(result.defects[0]).not.toHaveProperty('harPath');
+    });
+
+    it('should link defects to the HAR file of their case', async () => {
+      const now = new Date();
+      mockRuns.set(testRunId, {
+        id: testRunId,
+        projectId: 'project-1',
+        state: 'completed',
+        workspacePath: `.ai-test-workspace/har-run`,
+        qualityMetrics: null,
+        requirements: [],
+        testCases: [
+          { id: 'tc-1', caseId: 'TC-001', title: 'Test Case 1', route: '/dashboard', requirementId: 'req-1', steps: '[]' },
+        ],
+        assertions: [
+          {
+            id: 'a-1',
+            assertionId: 'A-001',
+            caseId: 'tc-1',
+            type: 'api_response',
+            description: 'List request succeeds',
+            expected: '/api/users',
+            actual: 'GET /api/users -> 500 in 20ms (expected status 2xx)',
+            finalVerdict: 'fail',
+          },
+        ],
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const caller = createCaller({} as any);
+      const result = await caller.getByRunId({ runId: testRunId });
+
+      expect(result.defects[0].harPath).toBe('evidence/har/TC-001.har');
     });
 
     it('should throw NOT_FOUND when run does not exist', async () => {
@@ -338,6 +383,66 @@ describe('Report Router', () => {
 
       expect(result.gateStatus).toBe('failed');
     });
+
+    it('should include the accessibility metric when audited', async () => {
+      mockRuns.set(testRunId, {
+        id: testRunId,
+        state: 'completed',
+        qualityMetrics: JSON.stringify({
+          rc: { value: 0.9, threshold: 0.85, passed: true },
+          apr: { value: 0.98, threshold: 0.95, passed: true },
+          a11y: { value: 0.8, threshold: 0.95, passed: false },
+        }),
+      });
+
+      const caller = createCaller({} as any);
+      const result = await caller.getQualityMetrics({ runId: testRunId });
+
+      expect(result.metrics.map((m) => m.name)).toEqual(['RC', 'APR', 'A11Y']);
+      expect(result.gateStatus).toBe('failed');
+    });
+  });
+
+  describe('getQualityHistory', () => {
+    const projectId = '660e8400-e29b-41d4-a716-446655440000';
+
+    function addRun(id: string, environment: string | null, fr: number | null, createdAt: Date) {
+      mockRuns.set(id, {
+        id,
+        projectId,
+        environment,
+        createdAt,
+        qualityMetrics: JSON.stringify({
+          rc: { value: 0.9 },
+          ...(fr !== null ? { fr: { value: fr } } : {}),
+        }),
+      });
+    }
+
+    beforeEach(() => {
+      addRun('run-dev-1', 'dev', 0.1, new Date('2026-01-01'));
+      addRun('run-staging-1', 'staging', 0.02, new Date('2026-01-02'));
+      addRun('run-dev-2', 'dev', 0.3, new Date('2026-01-03'));
+      addRun('run-base', null, null, new Date('2026-01-04'));
+    });
+
+    it('should return the history of all environments newest first', async () => {
+      const caller = createCaller({} as any);
+      const result = await caller.getQualityHistory({ projectId });
+
+      expect(result.items.map((item) => item.runId)).toEqual(['run-base', 'run-dev-2', 'run-staging-1', 'run-dev-1']);
+      expect(result.items[0].fr).toBeNull();
+      expect(result.environment).toBeNull();
+    });
+
+    it('should filter the flaky-rate history by environment', async () => {
+      const caller = createCaller({} as any);
+      const result = await caller.getQualityHistory({ projectId, environment: 'dev' });
+
+      expect(result.items.map((item) => item.runId)).toEqual(['run-dev-2', 'run-dev-1']);
+      expect(result.items.every((item) => item.environment === 'dev')).toBe(true);
+      expect(result.averageFlakyRate).toBeCloseTo(0.2);
+    });
   });
 
   describe('listScreenshots', () => {
@@ -32,6 +32,7 @@ const defectReportSchema = z.object({
   caseId: z.string(),
   requirementId: z.string(),
   route: z.string(),
+  harPath: z.string().optional(),
 });
 
 /**
@@ -39,7 +40,7 @@ const defectReportSchema = z.object({
  * @see Requirements 11.1, 11.2, 11.5
  */
 const qualityMetricSchema = z.object({
-  name: z.enum(['RC', 'APR', 'FR']),
+  name: z.enum(['RC', 'APR', 'FR', 'A11Y']),
   value: z.number(),
   threshold: z.number(),
   passed: z.boolean(),
@@ -101,6 +102,27 @@ function determineSeverity(priority: string, assertionType: string): DefectSever
   return 'minor';
 }
 
+/**
+ * Load the HAR path of every executed case from execution-results.json
+ * Returns an empty map when the run has not been executed yet
+ */
+async function loadHarPaths(workspacePath: string): Promise<Map<string, string>> {
+  const harPaths = new Map<string, string>();
+  try {
+    const result = JSON.parse(
+      await fs.readFile(path.join(workspacePath, 'outputs', 'execution-results.json'), 'utf-8')
+    );
+    for (const testCase of result.testCases ?? []) {
+      if (testCase.harPath) {
+        harPaths.set(testCase.caseId, testCase.harPath);
+      }
+    }
+  } catch {
+    // Not executed yet
+  }
+  return harPaths;
+}
+
 /**
  * Report router with Prisma database and file system integration
  */
@@ -133,6 +155,7 @@ export const reportRouter = router({
       }
 
       // Build defects list from failed assertions
+      const harPaths = await loadHarPaths(run.workspacePath);
       const defects: DefectReport[] = [];
       const affectedRoutes = new Set<string>();
       const severityDistribution: Record<DefectSeverity, number> = {
@@ -167,6 +190,7 @@ export const reportRouter = router({
             caseId: testCase?.caseId || 'unknown',
             requirementId: requirement?.requirementId || 'unknown',
             route: testCase?.route || 'unknown',
+            ...(testCase && harPaths.has(testCase.caseId) && { harPath: harPaths.get(testCase.caseId) }),
           });
         }
       }
@@ -224,6 +248,14 @@ export const reportRouter = router({
             passed: metrics.fr.passed ?? (metrics.fr.value <= 0.05),
           });
         }
+        if (metrics.a11y) {
+          qualityMetrics.push({
+            name: 'A11Y',
+            value: metrics.a11y.value,
+            threshold: metrics.a11y.threshold || 0.95,
+            passed: metrics.a11y.passed ?? (metrics.a11y.value >= 0.95),
+          });
+        }
       }
 
       const reportData: ReportData = {
@@ -313,6 +345,7 @@ export const reportRouter = router({
       }
 
       // Build defects list
+      const harPaths = await loadHarPaths(run.workspacePath);
       const defects: DefectReport[] = [];
 
       for (const assertion of run.assertions) {
@@ -340,6 +373,7 @@ export const reportRouter = router({
           caseId: testCase?.caseId || 'unknown',
           requirementId: requirement?.requirementId || 'unknown',
           route: testCase?.route || 'unknown',
+          ...(testCase && harPaths.has(testCase.caseId) && { harPath: harPaths.get(testCase.caseId) }),
         });
       }
 
@@ -457,6 +491,15 @@ export const reportRouter = router({
         });
       }
 
+      if (metricsData.a11y) {
+        metrics.push({
+          name: 'A11Y',
+          value: metricsData.a11y.value,
+          threshold: metricsData.a11y.threshold || 0.95,
+          passed: metricsData.a11y.passed ?? (metricsData.a11y.value >= 0.95),
+        });
+      }
+
       return {
         metrics,
         calculated: true,
@@ -465,6 +508,57 @@ export const reportRouter = router({
       };
     }),
 
+  /**
+   * Get quality metric history (RC / APR / flaky rate / A11Y) of a project's runs
+   * Optionally scoped to one environment so dev, staging and UAT trends stay separate
+   */
+  getQualityHistory: publicProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+      environment: z.string().optional(),
+      take: z.number().int().min(1).max(100).default(20),
+    }))
+    .query(async ({ input }) => {
+      const runs = await prisma.testRun.findMany({
+        where: {
+          projectId: input.projectId,
+          qualityMetrics: { not: null },
+          ...(input.environment ? { environment: input.environment } : {}),
+        },
+        select: {
+          id: true,
+          environment: true,
+          qualityMetrics: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: input.take,
+      });
+
+      const items = runs.map((run) => {
+        const metricsData = fromJsonStringNullable<any>(run.qualityMetrics) ?? {};
+        return {
+          runId: run.id,
+          environment: run.environment,
+          createdAt: run.createdAt,
+          rc: (metricsData.rc?.value ?? null) as number | null,
+          apr: (metricsData.apr?.value ?? null) as number | null,
+          fr: (metricsData.fr?.value ?? null) as number | null,
+          a11y: (metricsData.a11y?.value ?? null) as number | null,
+        };
+      });
+
+      const flakyRates = items.map((item) => item.fr).filter((fr): fr is number => fr !== null);
+
+      return {
+        items,
+        environment: input.environment ?? null,
+        averageFlakyRate: flakyRates.length > 0
+          ? flakyRates.reduce((sum, fr) => sum + fr, 0) / flakyRates.length
+          : null,
+      };
+    }),
+
   /**
    * List all screenshots for a test run
    */
@@ -0,0 +1,169 @@
+/**
+ * Schedule Router Tests
+ * Unit tests for scheduled test run API endpoints
+ * @see Requirements 6.3, 11.5, 13.1
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import { scheduleRouter } from './schedule.js';
+import { createCallerFactory } from '../trpc.js';
+
+// Mock data storage
+const mockProjects = new Map<string, any>();
+const mockProfiles = new Map<string, any>();
+const mockSchedules = new Map<string, any>();
+
+// Mock the Prisma client
+vi.mock('@smart-test-agent/db', () => {
+  return {
+    prisma: {
+      project: {
+        findUnique: vi.fn(async ({ where }) => mockProjects.get(where.id) || null),
+      },
+      targetProfile: {
+        findUnique: vi.fn(async ({ where }) => mockProfiles.get(where.projectId) || null),
+      },
+      environment: {
+        findUnique: vi.fn(async ({ where }) => {
+          const { projectId, name } = where.projectId_name;
+          return name === 'staging' && mockProfiles.has(projectId) ? { id: 'env-staging' } : null;
+        }),
+      },
+      schedule: {
+        findMany: vi.fn(async ({ where }) => {
+          return Array.from(mockSchedules.values()).filter(
+            (schedule) => !where.projectId || schedule.projectId === where.projectId
+          );
+        }),
+        findUnique: vi.fn(async ({ where }) => mockSchedules.get(where.id) || null),
+        create: vi.fn(async ({ data }) => {
+          const now = new Date();
+          const schedule = { id: crypto.randomUUID(), lastRunAt: null, lastRunId: null, ...data, createdAt: now, updatedAt: now };
+          mockSchedules.set(schedule.id, schedule);
+          return schedule;
+        }),
+        update: vi.fn(async ({ where, data }) => {
+          const updated = { ...mockSchedules.get(where.id), ...data, updatedAt: new Date() };
+          mockSchedules.set(where.id, updated);
+          return updated;
+        }),
+        delete: vi.fn(async ({ where }) => {
+          const schedule = mockSchedules.get(where.id);
+          mockSchedules.delete(where.id);
+          return schedule;
+        }),
+      },
+    },
+    toJsonString: (value: any) => JSON.stringify(value),
+    fromJsonString: <T>(str: string): T => JSON.parse(str),
+    fromJsonStringNullable: <T>(str: string | null): T | null => str ? JSON.parse(str) : null,
+  };
+});
+
+// Create a caller for testing
+const createCaller = createCallerFactory(scheduleRouter);
+
+const projectId = '550e8400-e29b-41d4-a716-446655440000';
+
+const nightlyInput = {
+  projectId,
+  name: 'Nightly regression',
+  cronExpression: '@nightly',
+  prdPath: 'prd.md',
+  routes: ['/users', '/orders'],
+};
+
+describe('Schedule Router', () => {
+  beforeEach(() => {
+    mockProjects.clear();
+    mockProfiles.clear();
+    mockSchedules.clear();
+    mockProjects.set(projectId, { id: projectId, name: 'Test Project' });
+    mockProfiles.set(projectId, { id: 'profile-1', projectId });
+  });
+
+  describe('create', () => {
+    it('should create a schedule with its first run time', async () => {
+      const caller = createCaller({} as any);
+
+      const schedule = await caller.create({ ...nightlyInput, environment: 'staging', approvalWindowMinutes: 120 });
+
+      expect(schedule).toMatchObject({
+        name: 'Nightly regression',
+        routes: ['/users', '/orders'],
+        executionMode: 'agent',
+        environment: 'staging',
+        approvalMode: 'manual',
+        approvalWindowMinutes: 120,
+        paused: false,
+      });
+      expect(schedule.nextRunAt!.getHours()).toBe(2);
+      expect(schedule.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should reject invalid cron expressions', async () => {
+      const caller = createCaller({} as any);
+
+      await expect(caller.create({ ...nightlyInput, cronExpression: '0 25 * * *' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+      });
+    });
+
+    it('should reject an approval window for auto-approved schedules', async () => {
+      const caller = createCaller({} as any);
+
+      await expect(
+        caller.create({ ...nightlyInput, approvalMode: 'auto', approvalWindowMinutes: 60 })
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('should require a target profile and an existing environment', async () => {
+      const caller = createCaller({} as any);
+
+      await expect(caller.create({ ...nightlyInput, environment: 'uat' })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+
+      mockProfiles.clear();
+      await expect(caller.create(nightlyInput)).rejects.toMatchObject({
+        code: 'PRECONDITION_FAILED',
+      });
+    });
+  });
+
+  describe('setPaused', () => {
+    it('should clear the next run while paused and recompute it on resume', async () => {
+      const caller = createCaller({} as any);
+      const schedule = await caller.create({ ...nightlyInput, cronExpression: '*/5 * * * *' });
+
+      const paused = await caller.setPaused({ id: schedule.id, paused: true });
+      expect(paused).toMatchObject({ paused: true, nextRunAt: null });
+
+      const resumed = await caller.setPaused({ id: schedule.id, paused: false });
+      expect(resumed.paused).toBe(false);
+      expect(resumed.nextRunAt!.getMinutes() % 5).toBe(0);
+    });
+
+    it('should throw NOT_FOUND for unknown schedules', async () => {
+      const caller = createCaller({} as any);
+
+      await expect(
+        caller.setPaused({ id: '550e8400-e29b-41d4-a716-446655440099', paused: true })
+      ).rejects.toThrow(TRPCError);
+    });
+  });
+
+  describe('list and delete', () => {
+    it('should list and delete schedules of a project', async () => {
+      const caller = createCaller({} as any);
+      const schedule = await caller.create(nightlyInput);
+
+      expect(await caller.list({ projectId })).toHaveLength(1);
+
+      const result = await caller.delete({ id: schedule.id });
+      expect(result.success).toBe(true);
+      expect(await caller.list({ projectId })).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Schedule Router
+ * Handles recurring test runs of a project's PRD and routes on a cron expression
+ * @see Requirements 6.3, 11.5, 13.1
+ */
+
+import { z } from 'zod';
+import { router, publicProcedure } from '../trpc.js';
+import { TRPCError } from '@trpc/server';
+import { prisma, toJsonString, fromJsonString } from '@smart-test-agent/db';
+import { environmentNameSchema } from './environment.js';
+import { assertProjectRunnable, executionModeSchema, type ExecutionMode } from './testRun.js';
+import { getNextCronTime, isValidCronExpression } from '../../services/cron.js';
+
+/**
+ * Approval mode of scheduled runs
+ * - auto: generated test cases are approved without a reviewer
+ * - manual: a reviewer approves, optionally within `approvalWindowMinutes`
+ */
+const approvalModeSchema = z.enum(['auto', 'manual']);
+
+/**
+ * Create schedule input schema
+ */
+const createScheduleInputSchema = z
+  .object({
+    projectId: z.string().uuid(),
+    name: z.string().min(1).max(100),
+    /** 5-field cron expression or alias (@hourly, @daily, @nightly, @weekly, @monthly) */
+    cronExpression: z.string().refine(isValidCronExpression, 'Invalid cron expression'),
+    prdPath: z.string().min(1),
+    routes: z.array(z.string()).min(1, 'At least one route is required'),
+    executionMode: executionModeSchema.default('agent'),
+    environment: environmentNameSchema.optional(),
+    a11yAudit: z.boolean().default(false),
+    approvalMode: approvalModeSchema.default('manual'),
+    /** Runs not approved within the window fail with approval_timeout (manual mode only) */
+    approvalWindowMinutes: z.number().int().min(1).max(7 * 24 * 60).optional(),
+  })
+  .refine((input) => input.approvalMode === 'manual' || input.approvalWindowMinutes === undefined, {
+    message: 'Approval window only applies to manual approval',
+    path: ['approvalWindowMinutes'],
+  });
+
+export type ScheduleApprovalMode = z.infer<typeof approvalModeSchema>;
+export type CreateScheduleInput = z.infer<typeof createScheduleInputSchema>;
+
+/**
+ * Schedule output type
+ */
+export interface Schedule {
+  id: string;
+  projectId: string;
+  name: string;
+  cronExpression: string;
+  prdPath: string;
+  routes: string[];
+  executionMode: ExecutionMode;
+  environment: string | null;
+  a11yAudit: boolean;
+  approvalMode: ScheduleApprovalMode;
+  approvalWindowMinutes: number | null;
+  paused: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastRunId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Convert database record to API response format
+ */
+function dbToApiFormat(dbRecord: any): Schedule {
+  return {
+    id: dbRecord.id,
+    projectId: dbRecord.projectId,
+    name: dbRecord.name,
+    cronExpression: dbRecord.cronExpression,
+    prdPath: dbRecord.prdPath,
+    routes: fromJsonString(dbRecord.routes),
+    executionMode: (dbRecord.executionMode ?? 'agent') as ExecutionMode,
+    environment: dbRecord.environment ?? null,
+    a11yAudit: dbRecord.a11yAudit ?? false,
+    approvalMode: (dbRecord.approvalMode ?? 'manual') as ScheduleApprovalMode,
+    approvalWindowMinutes: dbRecord.approvalWindowMinutes ?? null,
+    paused: dbRecord.paused ?? false,
+    nextRunAt: dbRecord.nextRunAt ?? null,
+    lastRunAt: dbRecord.lastRunAt ?? null,
+    lastRunId: dbRecord.lastRunId ?? null,
+    createdAt: dbRecord.createdAt,
+    updatedAt: dbRecord.updatedAt,
+  };
+}
+
+/**
+ * Get a schedule or throw NOT_FOUND
+ */
+async function findScheduleOrThrow(id: string) {
+  const schedule = await prisma.schedule.findUnique({
+    where: { id },
+  });
+
+  if (!schedule) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Schedule with id ${id} not found`,
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Schedule router with Prisma database integration
+ */
+export const scheduleRouter = router({
+  /**
+   * List schedules of a project (or all if no projectId)
+   */
+  list: publicProcedure
+    .input(z.object({ projectId: z.string().uuid().optional() }))
+    .query(async ({ input }) => {
+      const schedules = await prisma.schedule.findMany({
+        where: input.projectId ? { projectId: input.projectId } : {},
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return schedules.map(dbToApiFormat);
+    }),
+
+  /**
+   * Create a schedule
+   * The first run is due at the next time matching the cron expression.
+   */
+  create: publicProcedure
+    .input(createScheduleInputSchema)
+    .mutation(async ({ input }) => {
+      await assertProjectRunnable(input.projectId, input.environment);
+
+      let nextRunAt: Date;
+      try {
+        nextRunAt = getNextCronTime(input.cronExpression, new Date());
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: error instanceof Error ? error.message : 'Invalid cron expression',
+        });
+      }
+
+      const schedule = await prisma.schedule.create({
+        data: {
+          projectId: input.projectId,
+          name: input.name,
+          cronExpression: input.cronExpression.trim(),
+          prdPath: input.prdPath,
+          routes: toJsonString(input.routes),
+          executionMode: input.executionMode,
+          environment: input.environment ?? null,
+          a11yAudit: input.a11yAudit,
+          approvalMode: input.approvalMode,
+          approvalWindowMinutes: input.approvalWindowMinutes ?? null,
+          paused: false,
+          nextRunAt,
+        },
+      });
+
+      return dbToApiFormat(schedule);
+    }),
+
+  /**
+   * Pause or resume a schedule
+   * Resuming computes the next run from now, so runs missed while paused are skipped.
+   */
+  setPaused: publicProcedure
+    .input(z.object({ id: z.string().uuid(), paused: z.boolean() }))
+    .mutation(async ({ input }) => {
+      const schedule = await findScheduleOrThrow(input.id);
+
+      const updated = await prisma.schedule.update({
+        where: { id: input.id },
+        data: {
+          paused: input.paused,
+          nextRunAt: input.paused ? null : getNextCronTime(schedule.cronExpression, new Date()),
+        },
+      });
+
+      return dbToApiFormat(updated);
+    }),
+
+  /**
+   * Delete a schedule
+   * Runs it launched are kept and no longer reference it.
+   */
+  delete: publicProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      await findScheduleOrThrow(input.id);
+
+      await prisma.schedule.delete({
+        where: { id: input.id },
+      });
+
+      return { success: true, id: input.id };
+    }),
+});
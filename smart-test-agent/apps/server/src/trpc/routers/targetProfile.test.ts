@@ -66,6 +66,23 @@ vi.mock('@smart-test-agent/db', () => {
 vi.mock('@smart-test-agent/core', () => ({
   TargetProfileManager: class {},
   validateTargetProfile: vi.fn(() => ({ valid: true, errors: [] })),
+  StepRegistry: class {
+    resolve(selection: { enable?: string[]; disable?: string[] }) {
+      const unknown = [...(selection.enable ?? []), ...(selection.disable ?? [])]
+        .find((id) => !['a11y_audit', 'quality_gate'].includes(id));
+      if (unknown) {
+        throw new Error(`Unknown pipeline step: ${unknown}`);
+      }
+      return [];
+    }
+  },
+  discoverFileSystemRoutes: vi.fn(async () => ({
+    framework: 'react',
+    routes: [
+      { path: '/', componentPath: '/app/pages/index.tsx', layouts: ['/app/pages/_app.tsx'] },
+      { path: '/users/:id', componentPath: '/app/pages/users/[id].tsx' },
+    ],
+  })),
 }));
 
 // Create a caller for testing
@@ -180,6 +197,49 @@ describe('Target Profile Router', () => {
     });
   });
 
+  describe('discoverRoutes', () => {
+    const projectId = '550e8400-e29b-41d4-a716-446655440000';
+
+    function addProfile(sourceCode: Record<string, unknown>) {
+      mockProfiles.set(projectId, { id: 'profile-1', projectId, sourceCodeConfig: JSON.stringify(sourceCode) });
+    }
+
+    it('should return the routes discovered from the page directory', async () => {
+      addProfile({ routeFiles: [], pageFiles: [], pageDir: '/app/pages', routingConvention: 'next-pages' });
+
+      const caller = createCaller({} as any);
+      const result = await caller.discoverRoutes({ projectId });
+
+      expect(result).toEqual({
+        framework: 'react',
+        routes: [
+          { path: '/', componentPath: '/app/pages/index.tsx', layouts: ['/app/pages/_app.tsx'] },
+          { path: '/users/:id', componentPath: '/app/pages/users/[id].tsx', layouts: [] },
+        ],
+      });
+    });
+
+    it('should return no routes for projects with a router file', async () => {
+      addProfile(validProfileInput.sourceCode);
+
+      const caller = createCaller({} as any);
+      const result = await caller.discoverRoutes({ projectId });
+
+      expect(result).toEqual({ framework: null, routes: [] });
+    });
+
+    it('should require a page directory for file-system routing', async () => {
+      const caller = createCaller({} as any);
+
+      await expect(
+        caller.upsert({
+          ...validProfileInput,
+          sourceCode: { ...validProfileInput.sourceCode, routingConvention: 'nuxt' },
+        })
+      ).rejects.toThrow('pageDir is required for file-system routing');
+    });
+  });
+
   describe('upsert', () => {
     it('should create a new target profile', async () => {
       const caller = createCaller({} as any);
@@ -191,6 +251,113 @@ describe('Target Profile Router', () => {
       expect(result.createdAt).toBeDefined();
     });
 
+    it('should store the OpenAPI document of the backend', async () => {
+      const caller = createCaller({} as any);
+      const result = await caller.upsert({
+        ...validProfileInput,
+        sourceCode: { ...validProfileInput.sourceCode, openApiFile: '/workspace/server/openapi.json' },
+      });
+
+      expect(result.sourceCode.openApiFile).toBe('/workspace/server/openapi.json');
+    });
+
+    it('should reject an OpenAPI document that is not JSON', async () => {
+      const caller = createCaller({} as any);
+
+      await expect(
+        caller.upsert({
+          ...validProfileInput,
+          sourceCode: { ...validProfileInput.sourceCode, openApiFile: '/workspace/server/openapi.yaml' },
+        })
+      ).rejects.toThrow('OpenAPI document must be a .json file');
+    });
+
+    it('should store the frontend checkout and its router file', async () => {
+      const caller = createCaller({} as any);
+      const result = await caller.upsert({
+        ...validProfileInput,
+        sourceCode: { ...validProfileInput.sourceCode, frontendRoot: '/workspace/web', routerFile: 'src/router/index.ts' },
+      });
+
+      expect(result.sourceCode).toMatchObject({ frontendRoot: '/workspace/web', routerFile: 'src/router/index.ts' });
+    });
+
+    it('should require the frontend checkout to read a router file', async () => {
+      const caller = createCaller({} as any);
+
+      await expect(
+        caller.upsert({
+          ...validProfileInput,
+          sourceCode: { ...validProfileInput.sourceCode, routerFile: 'src/router/index.ts' },
+        })
+      ).rejects.toThrow('frontendRoot is required to read the router file');
+    });
+
+    it('should store roles with their own credentials', async () => {
+      const caller = createCaller({} as any);
+      const result = await caller.upsert({
+        ...validProfileInput,
+        roles: [
+          {
+            name: 'viewer',
+            credentials: { username: '$VIEWER_USERNAME', password: '$VIEWER_PASSWORD' },
+            deniedOperations: ['delete'],
+          },
+        ],
+      });
+
+      expect(result.roles).toHaveLength(1);
+      expect(result.roles?.[0].credentials?.username).toBe('$VIEWER_USERNAME');
+      expect(result.roles?.[0].deniedOperations).toEqual(['delete']);
+    });
+
+    it('should store the pipeline steps enabled for the project', async () => {
+      const caller = createCaller({} as any);
+      const result = await caller.upsert({
+        ...validProfileInput,
+        pipelineSteps: { enable: ['a11y_audit'], disable: ['quality_gate'] },
+      });
+
+      expect(result.pipelineSteps).toEqual({ enable: ['a11y_audit'], disable: ['quality_gate'] });
+    });
+
+    it('should reject unknown pipeline steps', async () => {
+      const caller = createCaller({} as any);
+
+      await expect(
+        caller.upsert({ ...validProfileInput, pipelineSteps: { enable: ['visual_diff'] } })
+      ).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: 'Unknown pipeline step: visual_diff',
+      });
+    });
+
+    it('should store retry budgets and reject budgets below one attempt', async () => {
+      const caller = createCaller({} as any);
+      const result = await caller.upsert({
+        ...validProfileInput,
+        retryBudgets: { ai_agent: 4, validation: 1 },
+      });
+
+      expect(result.retryBudgets).toEqual({ ai_agent: 4, validation: 1 });
+      await expect(
+        caller.upsert({ ...validProfileInput, retryBudgets: { network: 0 } })
+      ).rejects.toThrow('At least one attempt is required');
+    });
+
+    it('should store the review policy and reject non-positive timeouts', async () => {
+      const caller = createCaller({} as any);
+      const result = await caller.upsert({
+        ...validProfileInput,
+        reviewPolicy: { approvalTimeoutHours: 8, reminderLeadHours: 1, autoApproveReadOnly: true },
+      });
+
+      expect(result.reviewPolicy).toEqual({ approvalTimeoutHours: 8, reminderLeadHours: 1, autoApproveReadOnly: true });
+      await expect(
+        caller.upsert({ ...validProfileInput, reviewPolicy: { confirmationTimeoutHours: 0 } })
+      ).rejects.toThrow();
+    });
+
     it('should update existing target profile', async () => {
       // Create initial profile
       const now = new Date();
@@ -290,6 +457,50 @@ describe('Target Profile Router', () => {
       expect(result.valid).toBe(false);
       expect(result.errors).toContain('Timeout must be at least 1000ms');
     });
+
+    it('should validate strategy-specific login fields', async () => {
+      const caller = createCaller({} as any);
+      const result = await caller.validate({
+        ...validProfileInput,
+        login: {
+          ...validProfileInput.login,
+          strategy: 'scripted',
+          steps: [{ action: 'totp', selector: '#otp' }],
+        },
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('TOTP secret is required for totp steps');
+    });
+
+    it('should accept a storage state login', async () => {
+      const caller = createCaller({} as any);
+      const result = await caller.validate({
+        ...validProfileInput,
+        login: {
+          ...validProfileInput.login,
+          strategy: 'storage_state',
+          storageStatePath: 'auth/admin.json',
+        },
+      });
+
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should validate role definitions', async () => {
+      const caller = createCaller({} as any);
+      const result = await caller.validate({
+        ...validProfileInput,
+        roles: [
+          { name: 'viewer', allowedOperations: ['query', 'delete'], deniedOperations: ['delete'] },
+          { name: 'viewer' },
+        ],
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Role "viewer" cannot both allow and deny: delete');
+      expect(result.errors).toContain('Duplicate role name "viewer"');
+    });
   });
 
   describe('delete', () => {
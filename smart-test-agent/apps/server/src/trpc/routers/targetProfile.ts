@@ -8,12 +8,13 @@ import { z } from 'zod';
 import { router, publicProcedure } from '../trpc.js';
 import { TRPCError } from '@trpc/server';
 import { prisma, toJsonString, fromJsonString } from '@smart-test-agent/db';
+import { StepRegistry, discoverFileSystemRoutes } from '@smart-test-agent/core';
 
 /**
  * Browser config schema
  * @see Requirements 1.4, 1.5
  */
-const browserConfigSchema = z.object({
+export const browserConfigSchema = z.object({
   ignoreHTTPSErrors: z.boolean(),
   viewport: z.object({
     width: z.number().int().positive(),
@@ -21,6 +22,7 @@ const browserConfigSchema = z.object({
   }),
   locale: z.string(),
   timeoutMs: z.number().int().positive(),
+  workers: z.number().int().min(1).max(16).optional(),
 });
 
 /**
@@ -39,16 +41,59 @@ export const loginConfigSchema = z.object({
   successIndicator: z.string(),
   tenantValue: z.string().optional(),
   tenantAlreadySelected: z.boolean().optional(),
+  strategy: z.enum(['form', 'storage_state', 'cookies', 'bearer_token', 'scripted']).optional(),
+  storageStatePath: z.string().optional(),
+  cookies: z.array(z.object({
+    name: z.string(),
+    value: z.string(),
+    domain: z.string().optional(),
+    path: z.string().optional(),
+    httpOnly: z.boolean().optional(),
+    secure: z.boolean().optional(),
+  })).optional(),
+  bearerToken: z.string().optional(),
+  tokenHeader: z.string().optional(),
+  steps: z.array(z.object({
+    action: z.enum(['goto', 'fill', 'click', 'select', 'wait', 'totp']),
+    selector: z.string().optional(),
+    value: z.string().optional(),
+  })).optional(),
+  totpSecret: z.string().optional(),
 });
 
+/**
+ * File-system routing convention schema
+ * @see Requirements 2.1
+ */
+export const routingConventionSchema = z.enum(['next-app', 'next-pages', 'nuxt', 'umi']);
+
 /**
  * Source code config schema
- * @see Requirements 2.1, 2.2, 2.3
+ * Projects without a router file (Next.js, Nuxt, umi) set a routing convention and the
+ * page directory their routes are discovered from. frontendRoot is the frontend checkout
+ * on the server and routerFile its router file relative to it; the element inventory of
+ * router-based projects is built from them. openApiFile points at the backend's
+ * OpenAPI / Swagger JSON document.
+ * @see Requirements 2.1, 2.2, 2.3, 19.1
  */
-export const sourceCodeConfigSchema = z.object({
-  routeFiles: z.array(z.string()),
-  pageFiles: z.array(z.string()),
-});
+export const sourceCodeConfigSchema = z
+  .object({
+    routeFiles: z.array(z.string()),
+    pageFiles: z.array(z.string()),
+    frontendRoot: z.string().min(1).optional(),
+    routerFile: z.string().min(1).optional(),
+    pageDir: z.string().min(1).optional(),
+    routingConvention: routingConventionSchema.optional(),
+    openApiFile: z.string().regex(/\.json$/i, 'OpenAPI document must be a .json file').optional(),
+  })
+  .refine((input) => !input.routingConvention || input.pageDir !== undefined, {
+    message: 'pageDir is required for file-system routing',
+    path: ['pageDir'],
+  })
+  .refine((input) => !input.routerFile || input.frontendRoot !== undefined, {
+    message: 'frontendRoot is required to read the router file',
+    path: ['frontendRoot'],
+  });
 
 /**
  * Ant Design quirks config schema
@@ -75,12 +120,65 @@ const operationTypeSchema = z.enum([
   'delete',
 ]);
 
+/**
+ * Role config schema
+ * Credentials and login fields override the profile login for the role
+ * @see Requirements 1.3, 1.9
+ */
+export const roleConfigSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9_-]{0,31}$/, 'Role name must be lowercase letters, digits, - or _ (max 32)'),
+  description: z.string().optional(),
+  credentials: z.object({
+    username: z.string(),
+    password: z.string(),
+  }).optional(),
+  login: loginConfigSchema.partial().optional(),
+  allowedOperations: z.array(operationTypeSchema).optional(),
+  deniedOperations: z.array(operationTypeSchema).optional(),
+});
+
 /**
  * UI Framework types
  * @see Requirements 1.8
  */
 const uiFrameworkSchema = z.enum(['antd', 'element-ui', 'custom']);
 
+/**
+ * Pipeline step selection schema
+ * Only enables or disables built-in steps; step IDs are checked against the step registry on upsert
+ */
+const pipelineStepSelectionSchema = z.object({
+  enable: z.array(z.string()).optional(),
+  disable: z.array(z.string()).optional(),
+});
+
+/**
+ * Retry budget schema: max attempts per error category, including the first attempt
+ * @see Requirements 7.7, 13.2
+ */
+const retryAttemptsSchema = z.number().int().min(1, 'At least one attempt is required').max(10);
+const retryBudgetsSchema = z.object({
+  network: retryAttemptsSchema.optional(),
+  timeout: retryAttemptsSchema.optional(),
+  playwright: retryAttemptsSchema.optional(),
+  ai_agent: retryAttemptsSchema.optional(),
+  validation: retryAttemptsSchema.optional(),
+  internal: retryAttemptsSchema.optional(),
+}).strict();
+
+/**
+ * Review policy schema: approval / confirmation deadlines and reminders
+ * @see Requirements 13.1, 13.2
+ */
+const reviewPolicySchema = z.object({
+  approvalTimeoutHours: z.number().positive().max(720).optional(),
+  confirmationTimeoutHours: z.number().positive().max(720).optional(),
+  reminderLeadHours: z.number().min(0).max(720).optional(),
+  autoApproveReadOnly: z.boolean().optional(),
+});
+
 /**
  * Target profile input schema
  * @see Requirements 1.1, 1.2, 1.3, 1.4, 1.5, 1.6, 1.7, 1.8, 1.9
@@ -96,6 +194,10 @@ const targetProfileInputSchema = z.object({
   sourceCode: sourceCodeConfigSchema,
   uiFramework: uiFrameworkSchema,
   antdQuirks: antdQuirksConfigSchema.optional(),
+  roles: z.array(roleConfigSchema).optional(),
+  pipelineSteps: pipelineStepSelectionSchema.optional(),
+  retryBudgets: retryBudgetsSchema.optional(),
+  reviewPolicy: reviewPolicySchema.optional(),
 });
 
 /**
@@ -129,6 +231,10 @@ function dbToApiFormat(dbRecord: any): TargetProfile {
     sourceCode: fromJsonString(dbRecord.sourceCodeConfig),
     uiFramework: dbRecord.uiFramework as 'antd' | 'element-ui' | 'custom',
     antdQuirks: antdQuirksValue,
+    roles: dbRecord.roles ? fromJsonString(dbRecord.roles) : undefined,
+    pipelineSteps: dbRecord.pipelineSteps ? fromJsonString(dbRecord.pipelineSteps) : undefined,
+    retryBudgets: dbRecord.retryBudgets ? fromJsonString(dbRecord.retryBudgets) : undefined,
+    reviewPolicy: dbRecord.reviewPolicy ? fromJsonString(dbRecord.reviewPolicy) : undefined,
     createdAt: dbRecord.createdAt,
     updatedAt: dbRecord.updatedAt,
   };
@@ -171,6 +277,48 @@ export const targetProfileRouter = router({
       return dbToApiFormat(profile);
     }),
 
+  /**
+   * Discover routes from the page directory of a project using file-system routing
+   * Projects with a router file have no discovered routes.
+   * @see Requirements 2.1
+   */
+  discoverRoutes: publicProcedure
+    .input(z.object({ projectId: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const profile = await prisma.targetProfile.findUnique({
+        where: { projectId: input.projectId },
+      });
+
+      if (!profile) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Target profile for project ${input.projectId} not found`,
+        });
+      }
+
+      const sourceCode = fromJsonString<z.infer<typeof sourceCodeConfigSchema>>(profile.sourceCodeConfig);
+      if (!sourceCode.routingConvention || !sourceCode.pageDir) {
+        return { framework: null, routes: [] };
+      }
+
+      try {
+        const result = await discoverFileSystemRoutes(sourceCode.pageDir, sourceCode.routingConvention);
+        return {
+          framework: result.framework,
+          routes: result.routes.map((route) => ({
+            path: route.path,
+            componentPath: route.componentPath,
+            layouts: route.layouts ?? [],
+          })),
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Could not read page directory ${sourceCode.pageDir}: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    }),
+
   /**
    * Create or update target profile
    */
@@ -189,6 +337,18 @@ export const targetProfileRouter = router({
         });
       }
 
+      // Enabled steps must exist and form a valid step graph
+      if (input.pipelineSteps) {
+        try {
+          new StepRegistry().resolve(input.pipelineSteps);
+        } catch (error) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error instanceof Error ? error.message : 'Invalid pipeline steps',
+          });
+        }
+      }
+
       // Prepare data for database
       const dbData = {
         baseUrl: input.baseUrl,
@@ -201,6 +361,12 @@ export const targetProfileRouter = router({
         sourceCodeConfig: toJsonString(input.sourceCode),
         uiFramework: input.uiFramework,
         antdQuirks: input.antdQuirks ? toJsonString(input.antdQuirks) : null,
+        roles: input.roles?.length ? toJsonString(input.roles) : null,
+        pipelineSteps: input.pipelineSteps ? toJsonString(input.pipelineSteps) : null,
+        retryBudgets: input.retryBudgets && Object.keys(input.retryBudgets).length > 0
+          ? toJsonString(input.retryBudgets)
+          : null,
+        reviewPolicy: input.reviewPolicy ? toJsonString(input.reviewPolicy) : null,
       };
 
       // Upsert target profile
@@ -232,6 +398,50 @@ export const targetProfileRouter = router({
         }
       }
 
+      // Validate strategy-specific login fields
+      const login = input.login;
+      switch (login.strategy ?? 'form') {
+        case 'storage_state':
+          if (!login.storageStatePath?.trim()) {
+            errors.push('Storage state file path is required');
+          }
+          break;
+        case 'cookies':
+          if (!login.cookies?.length) {
+            errors.push('At least one cookie is required for the cookies strategy');
+          } else if (login.cookies.some((cookie) => !cookie.name.trim() || !cookie.value.trim())) {
+            errors.push('Cookie name and value are required');
+          }
+          break;
+        case 'bearer_token':
+          if (!login.bearerToken?.trim()) {
+            errors.push('Bearer token is required');
+          }
+          break;
+        case 'scripted':
+          if (!login.steps?.length) {
+            errors.push('At least one login step is required for the scripted strategy');
+          }
+          if (login.steps?.some((step) => step.action === 'totp') && !login.totpSecret?.trim()) {
+            errors.push('TOTP secret is required for totp steps');
+          }
+          break;
+      }
+
+      // Validate roles: unique names, no operation both allowed and denied
+      const roleNames = new Set<string>();
+      for (const role of input.roles ?? []) {
+        if (roleNames.has(role.name)) {
+          errors.push(`Duplicate role name "${role.name}"`);
+        }
+        roleNames.add(role.name);
+
+        const overlap = (role.allowedOperations ?? []).filter((op) => role.deniedOperations?.includes(op));
+        if (overlap.length > 0) {
+          errors.push(`Role "${role.name}" cannot both allow and deny: ${overlap.join(', ')}`);
+        }
+      }
+
       // Validate antdQuirks is provided when uiFramework is 'antd'
       if (input.uiFramework === 'antd' && !input.antdQuirks) {
         errors.push('antdQuirks configuration is recommended for Ant Design framework');
@@ -6,6 +6,9 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { TRPCError } from '@trpc/server';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
 import { testRunRouter } from './testRun.js';
 import { createCallerFactory } from '../trpc.js';
 
@@ -13,6 +16,8 @@ import { createCallerFactory } from '../trpc.js';
 const mockProjects = new Map<string, any>();
 const mockProfiles = new Map<string, any>();
 const mockRuns = new Map<string, any>();
+const mockJobs: any[] = [];
+const mockCaseApprovals: any[] = [];
 
 // Mock the Prisma client
 vi.mock('@smart-test-agent/db', () => {
@@ -28,6 +33,12 @@ vi.mock('@smart-test-agent/db', () => {
           return mockProfiles.get(where.projectId) || null;
         }),
       },
+      environment: {
+        findUnique: vi.fn(async ({ where }) => {
+          const { projectId, name } = where.projectId_name;
+          return name === 'staging' && mockProfiles.has(projectId) ? { id: 'env-staging' } : null;
+        }),
+      },
       testRun: {
         findMany: vi.fn(async ({ where, skip, take, orderBy }) => {
           let runs = Array.from(mockRuns.values());
@@ -37,6 +48,9 @@ vi.mock('@smart-test-agent/db', () => {
           if (where?.state) {
             runs = runs.filter(r => r.state === where.state);
           }
+          if (where?.environment) {
+            runs = runs.filter(r => r.environment === where.environment);
+          }
           // Sort by createdAt desc
           runs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
           return runs.slice(skip || 0, (skip || 0) + (take || 20));
@@ -89,6 +103,50 @@ vi.mock('@smart-test-agent/db', () => {
           return updated;
         }),
       },
+      caseApproval: {
+        findMany: vi.fn(async ({ where }) => {
+          return mockCaseApprovals
+            .filter(a => a.runId === where.runId)
+            .sort((a, b) => a.caseId.localeCompare(b.caseId));
+        }),
+        findUnique: vi.fn(async ({ where }) => {
+          const { runId, caseId } = where.runId_caseId;
+          return mockCaseApprovals.find(a => a.runId === runId && a.caseId === caseId) || null;
+        }),
+        create: vi.fn(async ({ data }) => {
+          const approval = { status: 'pending', feedback: null, reviewerId: null, round: 0, updatedAt: new Date(), ...data };
+          mockCaseApprovals.push(approval);
+          return approval;
+        }),
+        update: vi.fn(async ({ where, data }) => {
+          const { runId, caseId } = where.runId_caseId;
+          const approval = mockCaseApprovals.find(a => a.runId === runId && a.caseId === caseId);
+          Object.assign(approval, data);
+          return approval;
+        }),
+        deleteMany: vi.fn(async ({ where }) => {
+          const removed = mockCaseApprovals.filter(a => a.runId === where.runId && where.caseId.in.includes(a.caseId));
+          removed.forEach(a => mockCaseApprovals.splice(mockCaseApprovals.indexOf(a), 1));
+          return { count: removed.length };
+        }),
+      },
+      pipelineJob: {
+        findFirst: vi.fn(async ({ where }) => {
+          return mockJobs.find(j => j.runId === where.runId && j.status === where.status) || null;
+        }),
+        count: vi.fn(async ({ where }) => {
+          return mockJobs.filter(j => j.status === where.status && where.OR.some((cond: any) =>
+            cond.priority.gt !== undefined
+              ? j.priority > cond.priority.gt
+              : j.priority === cond.priority && j.createdAt < cond.createdAt.lt
+          )).length;
+        }),
+        updateMany: vi.fn(async ({ where, data }) => {
+          const found = mockJobs.filter(j => j.runId === where.runId && j.status === where.status);
+          found.forEach(j => Object.assign(j, data));
+          return { count: found.length };
+        }),
+      },
     },
     toJsonString: (value: any) => JSON.stringify(value),
     fromJsonString: <T>(str: string): T => JSON.parse(str),
@@ -107,6 +165,8 @@ describe('Test Run Router', () => {
     mockProjects.clear();
     mockProfiles.clear();
     mockRuns.clear();
+    mockJobs.length = 0;
+    mockCaseApprovals.length = 0;
     vi.clearAllMocks();
 
     // Add a test project
@@ -168,6 +228,43 @@ describe('Test Run Router', () => {
       expect(result.items[0].id).toBe('run-1');
     });
 
+    it('should record the base run of an incremental parse', async () => {
+      const baseRunId = '550e8400-e29b-41d4-a716-446655440010';
+      mockRuns.set(baseRunId, { id: baseRunId, projectId: testProjectId, state: 'completed', createdAt: new Date() });
+
+      const caller = createCaller({ io: null } as any);
+      const result = await caller.create({
+        projectId: testProjectId,
+        prdPath: '/path/to/prd.md',
+        routes: ['/dashboard'],
+        baseRunId,
+      });
+
+      expect(result.baseRunId).toBe(baseRunId);
+      expect(mockRuns.get(result.id).baseRunId).toBe(baseRunId);
+    });
+
+    it('should throw NOT_FOUND when the base run belongs to another project', async () => {
+      const baseRunId = '550e8400-e29b-41d4-a716-446655440010';
+      mockRuns.set(baseRunId, {
+        id: baseRunId,
+        projectId: '550e8400-e29b-41d4-a716-446655440099',
+        state: 'completed',
+        createdAt: new Date(),
+      });
+
+      const caller = createCaller({ io: null } as any);
+
+      await expect(
+        caller.create({
+          projectId: testProjectId,
+          prdPath: '/path/to/prd.md',
+          routes: ['/dashboard'],
+          baseRunId,
+        })
+      ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
     it('should throw NOT_FOUND when project does not exist', async () => {
       mockProjects.clear();
 
@@ -241,6 +338,36 @@ describe('Test Run Router', () => {
       expect(result.reasonCode).toBeNull();
     });
 
+    it('should return the queue position of a queued run', async () => {
+      const now = new Date();
+      const runId = '550e8400-e29b-41d4-a716-446655440001';
+      mockRuns.set(runId, { id: runId, state: 'created', reasonCode: null, updatedAt: now, completedAt: null });
+      mockJobs.push(
+        { runId: 'other-1', status: 'queued', priority: 5, createdAt: new Date(now.getTime() + 1000) },
+        { runId: 'other-2', status: 'queued', priority: 0, createdAt: new Date(now.getTime() - 1000) },
+        { runId, status: 'queued', priority: 0, createdAt: now },
+        { runId: 'other-3', status: 'queued', priority: 0, createdAt: new Date(now.getTime() + 1000) },
+        { runId: 'other-4', status: 'running', priority: 10, createdAt: now }
+      );
+
+      const caller = createCaller({} as any);
+      const result = await caller.getStatus({ id: runId });
+
+      expect(result.queuePosition).toBe(3);
+    });
+
+    it('should return a null queue position when the run is not queued', async () => {
+      const now = new Date();
+      const runId = '550e8400-e29b-41d4-a716-446655440001';
+      mockRuns.set(runId, { id: runId, state: 'executing', reasonCode: null, updatedAt: now, completedAt: null });
+      mockJobs.push({ runId, status: 'running', priority: 0, createdAt: now });
+
+      const caller = createCaller({} as any);
+      const result = await caller.getStatus({ id: runId });
+
+      expect(result.queuePosition).toBeNull();
+    });
+
     it('should throw NOT_FOUND when run does not exist', async () => {
       const caller = createCaller({} as any);
       const runId = '550e8400-e29b-41d4-a716-446655440001';
@@ -263,6 +390,72 @@ describe('Test Run Router', () => {
       expect(result.testedRoutes).toEqual(['/dashboard', '/users']);
     });
 
+    it('should default execution mode to agent', async () => {
+      const caller = createCaller({ io: null } as any);
+      const result = await caller.create({
+        projectId: testProjectId,
+        prdPath: '/path/to/prd.md',
+        routes: ['/dashboard'],
+      });
+
+      expect(result.executionMode).toBe('agent');
+    });
+
+    it('should store local execution mode', async () => {
+      const caller = createCaller({ io: null } as any);
+      const result = await caller.create({
+        projectId: testProjectId,
+        prdPath: '/path/to/prd.md',
+        routes: ['/dashboard'],
+        executionMode: 'local',
+      });
+
+      expect(result.executionMode).toBe('local');
+      expect(mockRuns.get(result.id).executionMode).toBe('local');
+    });
+
+    it('should store the accessibility audit option', async () => {
+      const caller = createCaller({ io: null } as any);
+      const result = await caller.create({
+        projectId: testProjectId,
+        prdPath: '/path/to/prd.md',
+        routes: ['/dashboard'],
+        a11yAudit: true,
+      });
+
+      expect(result.a11yAudit).toBe(true);
+      expect(mockRuns.get(result.id).a11yAudit).toBe(true);
+    });
+
+    it('should record the selected environment', async () => {
+      const caller = createCaller({ io: null } as any);
+      const result = await caller.create({
+        projectId: testProjectId,
+        prdPath: '/path/to/prd.md',
+        routes: ['/dashboard'],
+        environment: 'staging',
+      });
+
+      expect(result.environment).toBe('staging');
+      expect(result.envFingerprint.environment).toBe('staging');
+
+      const list = await caller.list({ projectId: testProjectId, environment: 'staging' });
+      expect(list.items.map((run) => run.id)).toEqual([result.id]);
+    });
+
+    it('should throw NOT_FOUND when environment does not exist', async () => {
+      const caller = createCaller({ io: null } as any);
+
+      await expect(
+        caller.create({
+          projectId: testProjectId,
+          prdPath: '/path/to/prd.md',
+          routes: ['/dashboard'],
+          environment: 'uat',
+        })
+      ).rejects.toThrow('Environment "uat" not found');
+    });
+
     it('should throw NOT_FOUND when project does not exist', async () => {
       mockProjects.clear();
 
@@ -478,6 +671,27 @@ describe('Test Run Router', () => {
       expect(result.success).toBe(true);
     });
 
+    it('should cancel queued pipeline jobs of the run', async () => {
+      const now = new Date();
+      const runId = '550e8400-e29b-41d4-a716-446655440001';
+      mockRuns.set(runId, {
+        id: runId,
+        projectId: testProjectId,
+        state: 'created',
+        decisionLog: JSON.stringify([]),
+        createdAt: now,
+        updatedAt: now,
+      });
+      mockJobs.push({ runId, status: 'queued', priority: 0, createdAt: now });
+
+      const caller = createCaller({ io: null } as any);
+      const result = await caller.cancel({ id: runId });
+
+      expect(result.pipelineStopped).toBe(true);
+      expect(mockJobs[0].status).toBe('cancelled');
+      expect(mockRuns.get(runId).state).toBe('failed');
+    });
+
     it('should throw PRECONDITION_FAILED when run is completed', async () => {
       const now = new Date();
       const runId = '550e8400-e29b-41d4-a716-446655440001';
@@ -500,6 +714,323 @@ describe('Test Run Router', () => {
     });
   });
 
+  describe('getPrdChanges', () => {
+    const runId = '550e8400-e29b-41d4-a716-446655440020';
+    const baseRunId = '550e8400-e29b-41d4-a716-446655440010';
+    const originalWorkspaceDir = process.env.WORKSPACE_DIR;
+    let workspaceRoot: string;
+
+    beforeEach(async () => {
+      workspaceRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'test-run-router-'));
+      process.env.WORKSPACE_DIR = workspaceRoot;
+    });
+
+    afterEach(async () => {
+      process.env.WORKSPACE_DIR = originalWorkspaceDir;
+      await fs.rm(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('should return the change summary of an incremental run', async () => {
+      const summary = {
+        baseRunId,
+        fullReparse: false,
+        sections: { added: ['导出用户'], modified: [], removed: [], unchanged: ['用户列表'] },
+        requirements: { added: ['REQ-004'], modified: [], removed: [], unchanged: ['REQ-001'] },
+      };
+      mockRuns.set(runId, { id: runId, projectId: testProjectId, baseRunId, state: 'awaiting_approval' });
+      await fs.mkdir(path.join(workspaceRoot, runId, 'outputs'), { recursive: true });
+      await fs.writeFile(path.join(workspaceRoot, runId, 'outputs', 'prd-changes.json'), JSON.stringify(summary));
+
+      const caller = createCaller({} as any);
+
+      expect(await caller.getPrdChanges({ runId })).toEqual(summary);
+    });
+
+    it('should return null for full parses and unfinished incremental parses', async () => {
+      mockRuns.set(runId, { id: runId, projectId: testProjectId, baseRunId: null, state: 'completed' });
+      const caller = createCaller({} as any);
+
+      expect(await caller.getPrdChanges({ runId })).toBeNull();
+
+      mockRuns.set(runId, { id: runId, projectId: testProjectId, baseRunId, state: 'parsing' });
+      expect(await caller.getPrdChanges({ runId })).toBeNull();
+    });
+  });
+
+  describe('test case editing', () => {
+    const runId = '550e8400-e29b-41d4-a716-446655440030';
+    const originalWorkspaceDir = process.env.WORKSPACE_DIR;
+    let workspaceRoot: string;
+    let testCasesDir: string;
+
+    const rawCase = (caseId: string) => ({
+      case_id: caseId,
+      requirement_id: 'REQ-001',
+      route: '/users',
+      title: `用例 ${caseId}`,
+      precondition: '已登录',
+      steps: [
+        { step_id: 'S1', action: 'click', target: '#add' },
+        { step_id: 'S2', action: 'fill', target: '#name', value: 'Alice' },
+      ],
+      assertions: [{ assertion_id: 'A-001', type: 'text_content', expected: '保存成功', description: '提示成功' }],
+    });
+
+    const readStoredCases = async () =>
+      JSON.parse(await fs.readFile(path.join(testCasesDir, 'REQ-001.json'), 'utf-8')).test_cases;
+
+    beforeEach(async () => {
+      workspaceRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'test-run-router-'));
+      process.env.WORKSPACE_DIR = workspaceRoot;
+      testCasesDir = path.join(workspaceRoot, runId, 'outputs', 'test-cases');
+      await fs.mkdir(testCasesDir, { recursive: true });
+      await fs.writeFile(
+        path.join(testCasesDir, 'REQ-001.json'),
+        JSON.stringify({ requirement_id: 'REQ-001', test_cases: [rawCase('TC-001'), rawCase('TC-002')] })
+      );
+      mockRuns.set(runId, { id: runId, projectId: testProjectId, state: 'awaiting_approval', decisionLog: '[]' });
+    });
+
+    afterEach(async () => {
+      process.env.WORKSPACE_DIR = originalWorkspaceDir;
+      await fs.rm(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('should save an edited test case and record the edit in the decision log', async () => {
+      const caller = createCaller({} as any);
+      const { testCases, editable } = await caller.getEditableTestCases({ runId });
+      expect(editable).toBe(true);
+
+      const edited = {
+        ...testCases[0],
+        steps: [testCases[0].steps[1], { ...testCases[0].steps[0], selector: '[data-testid="add"]' }],
+      };
+      const result = await caller.updateTestCase({ runId, testCase: edited, reviewerId: 'alice' });
+
+      expect(result.testCases[0].steps.map((step) => step.stepNumber)).toEqual([1, 2]);
+      const stored = await readStoredCases();
+      expect(stored[0].steps).toEqual([
+        { step_id: 'S1', action: 'fill', target: '#name', value: 'Alice' },
+        { step_id: 'S2', action: 'click', target: '[data-testid="add"]' },
+      ]);
+      const merged = JSON.parse(await fs.readFile(path.join(workspaceRoot, runId, 'outputs', 'test-cases.json'), 'utf-8'));
+      expect(merged).toHaveLength(2);
+
+      const log = JSON.parse(mockRuns.get(runId).decisionLog);
+      expect(log[0].action).toBe('test_case_edited');
+      expect(JSON.parse(log[0].details)).toMatchObject({
+        operation: 'updated',
+        reviewerId: 'alice',
+        caseId: 'TC-001',
+        changedFields: ['steps'],
+      });
+    });
+
+    it('should add and delete test cases', async () => {
+      const caller = createCaller({} as any);
+      const { testCases } = await caller.getEditableTestCases({ runId });
+
+      const { caseId: _caseId, ...template } = testCases[0];
+      const added = await caller.addTestCase({ runId, testCase: { ...template, title: '新用例' }, reviewerId: 'alice' });
+      expect(added.caseId).toBe('TC-003');
+
+      await caller.deleteTestCase({ runId, caseId: 'TC-001', reviewerId: 'alice' });
+
+      const stored = await readStoredCases();
+      expect(stored.map((tc: { case_id: string }) => tc.case_id)).toEqual(['TC-002', 'TC-003']);
+      const log = JSON.parse(mockRuns.get(runId).decisionLog);
+      expect(log.map((entry: { details: string }) => JSON.parse(entry.details).operation)).toEqual(['added', 'removed']);
+    });
+
+    it('should reject edits that violate the test case schema', async () => {
+      const caller = createCaller({} as any);
+      const { testCases } = await caller.getEditableTestCases({ runId });
+
+      await expect(
+        caller.updateTestCase({ runId, testCase: { ...testCases[0], steps: [] }, reviewerId: 'alice' })
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      await expect(
+        caller.deleteTestCase({ runId, caseId: 'TC-404', reviewerId: 'alice' })
+      ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+      expect((await readStoredCases())[0].steps).toHaveLength(2);
+      expect(mockRuns.get(runId).decisionLog).toBe('[]');
+    });
+
+    it('should only allow edits while awaiting approval', async () => {
+      mockRuns.set(runId, { ...mockRuns.get(runId), state: 'executing' });
+      const caller = createCaller({} as any);
+      const { testCases, editable } = await caller.getEditableTestCases({ runId });
+      expect(editable).toBe(false);
+
+      await expect(
+        caller.updateTestCase({ runId, testCase: testCases[0], reviewerId: 'alice' })
+      ).rejects.toThrow(TRPCError);
+    });
+
+    it('should not allow edits of test cases that were already executed', async () => {
+      mockCaseApprovals.push({ runId, caseId: 'TC-001', status: 'executed', round: 1 });
+      const caller = createCaller({} as any);
+      const { testCases } = await caller.getEditableTestCases({ runId });
+
+      await expect(
+        caller.deleteTestCase({ runId, caseId: 'TC-001', reviewerId: 'alice' })
+      ).rejects.toMatchObject({ code: 'PRECONDITION_FAILED' });
+      await caller.updateTestCase({ runId, testCase: { ...testCases[1], title: '改名' }, reviewerId: 'alice' });
+    });
+  });
+
+  describe('per-case approval', () => {
+    const runId = '550e8400-e29b-41d4-a716-446655440031';
+    const originalWorkspaceDir = process.env.WORKSPACE_DIR;
+    let workspaceRoot: string;
+
+    const rawCase = (caseId: string) => ({
+      case_id: caseId,
+      requirement_id: 'REQ-001',
+      route: '/users',
+      title: `用例 ${caseId}`,
+      precondition: '已登录',
+      steps: [{ step_id: 'S1', action: 'click', target: '#add' }],
+      assertions: [{ assertion_id: 'A-001', type: 'text_content', expected: '保存成功', description: '提示成功' }],
+    });
+
+    const statusOf = () => Object.fromEntries(mockCaseApprovals.map(a => [a.caseId, a.status]));
+
+    beforeEach(async () => {
+      workspaceRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'test-run-router-'));
+      process.env.WORKSPACE_DIR = workspaceRoot;
+      const testCasesDir = path.join(workspaceRoot, runId, 'outputs', 'test-cases');
+      await fs.mkdir(testCasesDir, { recursive: true });
+      await fs.writeFile(
+        path.join(testCasesDir, 'REQ-001.json'),
+        JSON.stringify({ requirement_id: 'REQ-001', test_cases: [rawCase('TC-001'), rawCase('TC-002'), rawCase('TC-003')] })
+      );
+      mockRuns.set(runId, { id: runId, projectId: testProjectId, state: 'awaiting_approval', decisionLog: '[]' });
+    });
+
+    afterEach(async () => {
+      process.env.WORKSPACE_DIR = originalWorkspaceDir;
+      await fs.rm(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('should execute the approved cases and send the rejected ones back with feedback', async () => {
+      const caller = createCaller({ io: null } as any);
+      const result = await caller.submitCaseApprovals({
+        runId,
+        reviewerId: 'reviewer-1',
+        decisions: [
+          { caseId: 'TC-001', approved: true },
+          { caseId: 'TC-002', approved: false, feedback: '缺少重名校验' },
+          { caseId: 'TC-003', approved: true },
+        ],
+      });
+
+      expect(result).toMatchObject({ success: true, newState: 'executing', round: 1, approvedCount: 2, rejectedCount: 1 });
+      expect(statusOf()).toEqual({ 'TC-001': 'approved', 'TC-002': 'rejected', 'TC-003': 'approved' });
+      expect(mockCaseApprovals.find(a => a.caseId === 'TC-002').feedback).toBe('缺少重名校验');
+
+      const run = mockRuns.get(runId);
+      expect(run.state).toBe('executing');
+      const log = JSON.parse(run.decisionLog);
+      expect(log[0].action).toBe('partial_approval');
+      expect(JSON.parse(log[0].details)).toMatchObject({ round: 1, approved: ['TC-001', 'TC-003'] });
+
+      const approvals = await caller.getCaseApprovals({ runId });
+      expect(approvals.map((a) => a.caseId)).toEqual(['TC-001', 'TC-002', 'TC-003']);
+    });
+
+    it('should only ask for decisions on cases still pending in later rounds', async () => {
+      mockCaseApprovals.push(
+        { runId, caseId: 'TC-001', status: 'executed', round: 1 },
+        { runId, caseId: 'TC-003', status: 'executed', round: 1 },
+      );
+      const caller = createCaller({ io: null } as any);
+
+      await expect(
+        caller.submitCaseApprovals({ runId, reviewerId: 'reviewer-1', decisions: [{ caseId: 'TC-001', approved: true }] })
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+      const result = await caller.submitCaseApprovals({
+        runId,
+        reviewerId: 'reviewer-1',
+        decisions: [{ caseId: 'TC-002', approved: true }],
+      });
+      expect(result).toMatchObject({ newState: 'executing', round: 2 });
+      expect(statusOf()).toEqual({ 'TC-001': 'executed', 'TC-002': 'approved', 'TC-003': 'executed' });
+    });
+
+    it('should require a decision for every pending case and feedback for rejections', async () => {
+      const caller = createCaller({ io: null } as any);
+
+      await expect(
+        caller.submitCaseApprovals({ runId, reviewerId: 'reviewer-1', decisions: [{ caseId: 'TC-001', approved: true }] })
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringContaining('TC-002, TC-003') });
+      await expect(
+        caller.submitCaseApprovals({
+          runId,
+          reviewerId: 'reviewer-1',
+          decisions: ['TC-001', 'TC-002', 'TC-003'].map((caseId) => ({ caseId, approved: false })),
+        })
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      expect(mockRuns.get(runId).state).toBe('awaiting_approval');
+    });
+
+    it('should go straight to regeneration when every case is rejected', async () => {
+      const caller = createCaller({ io: null } as any);
+      const result = await caller.submitCaseApprovals({
+        runId,
+        reviewerId: 'reviewer-1',
+        decisions: ['TC-001', 'TC-002', 'TC-003'].map((caseId) => ({ caseId, approved: false, feedback: '断言不准确' })),
+      });
+
+      expect(result.newState).toBe('generating');
+      expect(mockRuns.get(runId).state).toBe('generating');
+    });
+
+    it('should warn about step selectors missing from the element inventory', async () => {
+      const caller = createCaller({ io: null } as any);
+      expect(await caller.getSelectorWarnings({ runId })).toEqual([]);
+
+      const testCasesDir = path.join(workspaceRoot, runId, 'outputs', 'test-cases');
+      const withSelector = (caseId: string, target: string) => ({
+        ...rawCase(caseId),
+        steps: [{ step_id: 'S1', action: 'click', target }],
+      });
+      await fs.writeFile(
+        path.join(testCasesDir, 'REQ-001.json'),
+        JSON.stringify({
+          requirement_id: 'REQ-001',
+          test_cases: [
+            withSelector('TC-001', "page.getByRole('button', { name: '新增用户' })"),
+            withSelector('TC-002', "page.getByRole('button', { name: '批量导入' })"),
+            withSelector('TC-003', '#add'),
+          ],
+        })
+      );
+      await fs.mkdir(path.join(workspaceRoot, runId, 'inputs'), { recursive: true });
+      await fs.writeFile(
+        path.join(workspaceRoot, runId, 'inputs', 'element-inventory.json'),
+        JSON.stringify([
+          { route: '/users', componentPath: 'src/views/users.vue', elements: [{ kind: 'button', component: 'a-button', text: '新增用户' }] },
+        ])
+      );
+
+      const warnings = await caller.getSelectorWarnings({ runId });
+      expect(warnings).toEqual([
+        { caseId: 'TC-002', route: '/users', stepNumber: 1, selector: "page.getByRole('button', { name: '批量导入' })" },
+      ]);
+    });
+
+    it('should approve every pending case when the run is approved as a whole', async () => {
+      const caller = createCaller({ io: null } as any);
+      await caller.submitApproval({ runId, approved: true, reviewerId: 'reviewer-1' });
+
+      expect(statusOf()).toEqual({ 'TC-001': 'approved', 'TC-002': 'approved', 'TC-003': 'approved' });
+      expect(mockCaseApprovals.every(a => a.round === 1)).toBe(true);
+    });
+  });
+
   describe('getStats', () => {
     it('should return statistics for project', async () => {
       const now = new Date();
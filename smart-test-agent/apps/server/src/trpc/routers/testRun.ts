@@ -9,6 +9,29 @@ import { router, publicProcedure } from '../trpc.js';
 import { TRPCError } from '@trpc/server';
 import { prisma, toJsonString, fromJsonString, fromJsonStringNullable } from '@smart-test-agent/db';
 import { getPipelineRunner } from '../../services/pipeline-runner.js';
+import { getQueuePosition } from '../../services/pipeline-queue.js';
+import {
+  listCaseApprovals,
+  getCaseApproval,
+  syncCaseApprovals,
+  nextApprovalRound,
+  recordCaseDecisions,
+} from '../../services/case-approvals.js';
+import { environmentNameSchema } from './environment.js';
+import { formatValidationErrors } from '@smart-test-agent/shared';
+import {
+  PRD_CHANGES_FILENAME,
+  loadEditableTestCases,
+  saveEditableTestCases,
+  validateEditableTestCases,
+  nextTestCaseId,
+  summarizeTestCaseEdit,
+  loadElementInventory,
+  findUnverifiedSelectors,
+  type PrdChangeSummary,
+  type EditableTestCase,
+} from '@smart-test-agent/core';
+import type { Server as SocketIOServer } from 'socket.io';
 
 /**
  * Test run state enum
@@ -40,6 +63,13 @@ const reasonCodeSchema = z.enum([
   'internal_error',
 ]);
 
+/**
+ * Execution mode enum
+ * - agent: Claude Code generates and runs the test script
+ * - local: the pipeline runs the script itself and escalates failed cases to Claude Code
+ */
+export const executionModeSchema = z.enum(['agent', 'local']);
+
 /**
  * Create test run input schema
  */
@@ -47,6 +77,15 @@ const createTestRunInputSchema = z.object({
   projectId: z.string().uuid(),
   prdPath: z.string(),
   routes: z.array(z.string()).min(1, 'At least one route is required'),
+  executionMode: executionModeSchema.default('agent'),
+  /** Named environment to run against; omitted runs use the base target profile */
+  environment: environmentNameSchema.optional(),
+  /** Audit the visited routes for accessibility after test execution */
+  a11yAudit: z.boolean().default(false),
+  /** Queue priority; higher priority runs start first when all workers are busy */
+  priority: z.number().int().min(0).max(10).default(0),
+  /** Earlier run of the same project; only PRD sections changed since that run are parsed again */
+  baseRunId: z.string().uuid().optional(),
 });
 
 /**
@@ -57,6 +96,9 @@ const listOptionsSchema = z.object({
   skip: z.number().int().min(0).default(0),
   take: z.number().int().min(1).max(100).default(20),
   state: testRunStateSchema.optional(),
+  environment: environmentNameSchema.optional(),
+  /** Only runs launched by this schedule */
+  scheduleId: z.string().uuid().optional(),
 });
 
 /**
@@ -70,6 +112,22 @@ const approvalDecisionSchema = z.object({
   reviewerId: z.string(),
 });
 
+/**
+ * Per-case approval schema
+ * Every pending case needs a decision; rejected cases need feedback for regeneration.
+ * @see Requirements 6.3, 6.4
+ */
+const caseApprovalInputSchema = z.object({
+  runId: z.string().uuid(),
+  reviewerId: z.string(),
+  comments: z.string().optional(),
+  decisions: z.array(z.object({
+    caseId: z.string(),
+    approved: z.boolean(),
+    feedback: z.string().optional(),
+  })).min(1, 'At least one decision is required'),
+});
+
 /**
  * Confirmation decision schema
  * @see Requirements 12.3, 12.4
@@ -102,16 +160,77 @@ const regenerateInputSchema = z.object({
   feedbackType: feedbackTypeSchema,
   feedbackDetail: z.string().min(1, '请提供具体的反馈意见'),
   reviewerId: z.string(),
+  /** 回放该运行已录制的 cassette，而不是重新调用 LLM */
+  useCassette: z.boolean().optional(),
 });
 
 /** Maximum regeneration attempts allowed */
 const MAX_REGENERATION_ATTEMPTS = 3;
 
+/** Decision log actions that send test cases back for regeneration */
+const REGENERATION_ACTIONS = ['regeneration_requested', 'partial_approval'];
+
+/**
+ * Editable test case schemas (TestCase shape of test-cases.schema.json)
+ * Structural checks only; patterns and enums are checked against the JSON schema on save.
+ */
+const editableTestStepSchema = z.object({
+  stepNumber: z.number().int().optional(),
+  action: z.string(),
+  selector: z.string().optional(),
+  inputValue: z.string().optional(),
+  expectedResult: z.string().optional(),
+  screenshot: z.boolean().optional(),
+});
+
+const editableAssertionSchema = z.object({
+  assertionId: z.string(),
+  type: z.enum(['element_visible', 'text_content', 'element_count', 'navigation', 'permission_denied', 'visual', 'api_response', 'soft']),
+  description: z.string(),
+  expected: z.string(),
+  visual: z.object({
+    threshold: z.number().optional(),
+    pixelThreshold: z.number().optional(),
+    maskSelectors: z.array(z.string()).optional(),
+  }).optional(),
+  api: z.object({
+    method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']).optional(),
+    status: z.number().int().optional(),
+    maxLatencyMs: z.number().optional(),
+    jsonPath: z.string().optional(),
+    jsonValue: z.unknown().optional(),
+  }).optional(),
+});
+
+const editableDataStepSchema = z.object({
+  action: z.enum(['create', 'update', 'delete', 'api_call']),
+  target: z.string(),
+  data: z.record(z.unknown()).optional(),
+  cleanup: z.boolean().optional(),
+});
+
+const editableTestCaseSchema = z.object({
+  caseId: z.string(),
+  requirementId: z.string(),
+  route: z.string(),
+  role: z.string().optional(),
+  title: z.string(),
+  precondition: z.string(),
+  steps: z.array(editableTestStepSchema),
+  assertions: z.array(editableAssertionSchema),
+  dataPreparation: z.array(editableDataStepSchema).optional(),
+  dataCleanup: z.array(editableDataStepSchema).optional(),
+});
+
 export type TestRunState = z.infer<typeof testRunStateSchema>;
 export type ReasonCode = z.infer<typeof reasonCodeSchema>;
+export type ExecutionMode = z.infer<typeof executionModeSchema>;
 export type CreateTestRunInput = z.infer<typeof createTestRunInputSchema>;
 export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>;
+export type CaseApprovalInput = z.infer<typeof caseApprovalInputSchema>;
 export type ConfirmationDecision = z.infer<typeof confirmationDecisionSchema>;
+/** Edited test case as submitted; step numbers are assigned from the step order */
+export type EditableTestCaseInput = z.infer<typeof editableTestCaseSchema>;
 
 /**
  * Test run output type
@@ -130,6 +249,17 @@ export interface TestRun {
   decisionLog: Array<{ timestamp: string; action: string; details?: string }>;
   qualityMetrics: Record<string, any> | null;
   reportPath: string | null;
+  executionMode: ExecutionMode;
+  environment: string | null;
+  a11yAudit: boolean;
+  /** Schedule that launched the run, null for manual runs */
+  scheduleId: string | null;
+  /** Baseline run of an incremental PRD parse, null for full parses */
+  baseRunId: string | null;
+  /** Approval deadline while awaiting approval, enforced by the review sweeper */
+  approvalDueAt: Date | null;
+  /** Confirmation deadline while the report is ready, enforced by the review sweeper */
+  confirmDueAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   completedAt: Date | null;
@@ -153,12 +283,140 @@ function dbToApiFormat(dbRecord: any): TestRun {
     decisionLog: fromJsonString(dbRecord.decisionLog),
     qualityMetrics: fromJsonStringNullable(dbRecord.qualityMetrics),
     reportPath: dbRecord.reportPath,
+    executionMode: (dbRecord.executionMode ?? 'agent') as ExecutionMode,
+    environment: dbRecord.environment ?? null,
+    a11yAudit: dbRecord.a11yAudit ?? false,
+    scheduleId: dbRecord.scheduleId ?? null,
+    baseRunId: dbRecord.baseRunId ?? null,
+    approvalDueAt: dbRecord.approvalDueAt ?? null,
+    confirmDueAt: dbRecord.confirmDueAt ?? null,
     createdAt: dbRecord.createdAt,
     updatedAt: dbRecord.updatedAt,
     completedAt: dbRecord.completedAt,
   };
 }
 
+/**
+ * Apply a test case edit at the approval stage
+ * Validates the edited list against test-cases.schema.json, writes it back to the run's
+ * outputs and records the edit in the decision log.
+ * @see Requirements 6.2
+ */
+async function editTestCases(
+  runId: string,
+  reviewerId: string,
+  edit: (testCases: EditableTestCase[]) => {
+    testCases: EditableTestCaseInput[];
+    before?: EditableTestCase;
+    after?: EditableTestCaseInput;
+  }
+): Promise<{ testCases: EditableTestCase[]; caseId: string }> {
+  const run = await prisma.testRun.findUnique({
+    where: { id: runId },
+  });
+
+  if (!run) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Test run with id ${runId} not found`,
+    });
+  }
+
+  if (run.state !== 'awaiting_approval') {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: `Test run is in state "${run.state}", expected "awaiting_approval"`,
+    });
+  }
+
+  const workspaceRoot = process.env.WORKSPACE_DIR || '.ai-test-workspace';
+  const outputsDir = `${workspaceRoot}/${runId}/outputs`;
+
+  let current: EditableTestCase[];
+  try {
+    current = await loadEditableTestCases(outputsDir);
+  } catch {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Test cases file not found',
+    });
+  }
+
+  const { testCases, before, after } = edit(current);
+  // 部分审批中已执行的用例不再允许修改，否则报告与执行结果对不上
+  if (before && (await getCaseApproval(runId, before.caseId))?.status === 'executed') {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: `Test case ${before.caseId} has already been executed`,
+    });
+  }
+  // 步骤编号按列表顺序重排，支持拖拽排序
+  const renumbered: EditableTestCase[] = testCases.map((testCase) => ({
+    ...testCase,
+    steps: testCase.steps.map((step, index) => ({ ...step, stepNumber: index + 1 })),
+  }));
+
+  const validation = validateEditableTestCases(runId, renumbered);
+  if (!validation.valid) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: formatValidationErrors(validation),
+    });
+  }
+
+  await saveEditableTestCases(outputsDir, renumbered);
+
+  const summary = summarizeTestCaseEdit(before, after && renumbered.find((tc) => tc.caseId === after.caseId));
+  const operation = before && after ? 'updated' : after ? 'added' : 'removed';
+  await prisma.testRun.update({
+    where: { id: runId },
+    data: {
+      decisionLog: addDecisionLogEntry(
+        run.decisionLog,
+        'test_case_edited',
+        JSON.stringify({ operation, reviewerId, ...summary })
+      ),
+    },
+  });
+
+  return { testCases: renumbered, caseId: summary.caseId };
+}
+
+/**
+ * IDs of the test cases stored in a run's workspace, or null if it has none
+ */
+async function loadCaseIds(runId: string): Promise<string[] | null> {
+  const workspaceRoot = process.env.WORKSPACE_DIR || '.ai-test-workspace';
+  try {
+    const testCases = await loadEditableTestCases(`${workspaceRoot}/${runId}/outputs`);
+    return testCases.map((testCase) => testCase.caseId);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Count how often a run's test cases were sent back for regeneration
+ */
+function countRegenerations(decisionLog: string): number {
+  return fromJsonString<Array<{ action: string }>>(decisionLog)
+    .filter((entry) => REGENERATION_ACTIONS.includes(entry.action)).length;
+}
+
+/**
+ * Find a test case by ID or fail with NOT_FOUND
+ */
+function findTestCaseIndex(testCases: EditableTestCase[], caseId: string): number {
+  const index = testCases.findIndex((testCase) => testCase.caseId === caseId);
+  if (index === -1) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Test case ${caseId} not found`,
+    });
+  }
+  return index;
+}
+
 /**
  * Add entry to decision log
  */
@@ -176,6 +434,148 @@ function addDecisionLogEntry(
   return toJsonString(log);
 }
 
+/**
+ * Check that a project can run tests: it exists, has a target profile and the selected environment exists
+ * Shared by test run creation and schedule creation.
+ */
+export async function assertProjectRunnable(projectId: string, environment?: string | null): Promise<void> {
+  // Check if project exists
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+  });
+
+  if (!project) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Project with id ${projectId} not found`,
+    });
+  }
+
+  // Check if target profile exists
+  const profile = await prisma.targetProfile.findUnique({
+    where: { projectId },
+    select: { id: true },
+  });
+
+  if (!profile) {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: `Target profile for project ${projectId} not found. Please configure target profile first.`,
+    });
+  }
+
+  // Check if the selected environment exists
+  if (environment) {
+    const record = await prisma.environment.findUnique({
+      where: { projectId_name: { projectId, name: environment } },
+      select: { id: true },
+    });
+
+    if (!record) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: `Environment "${environment}" not found for project ${projectId}`,
+      });
+    }
+  }
+}
+
+/**
+ * Create a test run and queue its pipeline
+ * Shared by the create procedure and the run scheduler.
+ * @param io Socket.IO server; the pipeline is only started when present
+ */
+export async function createTestRun(
+  input: CreateTestRunInput,
+  io?: SocketIOServer | null,
+  options: { scheduleId?: string } = {}
+): Promise<TestRun> {
+  await assertProjectRunnable(input.projectId, input.environment);
+
+  // Check that the baseline run of an incremental parse belongs to the project
+  if (input.baseRunId) {
+    const baseRun = await prisma.testRun.findUnique({
+      where: { id: input.baseRunId },
+      select: { projectId: true },
+    });
+
+    if (!baseRun || baseRun.projectId !== input.projectId) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: `Base run ${input.baseRunId} not found for project ${input.projectId}`,
+      });
+    }
+  }
+
+  const now = new Date();
+  const runId = crypto.randomUUID();
+  const workspacePath = `.ai-test-workspace/${runId}`;
+
+  // Create initial decision log
+  const decisionLog = [
+    {
+      timestamp: now.toISOString(),
+      action: 'created',
+      details: `Test run created for routes: ${input.routes.join(', ')} (execution mode: ${input.executionMode}, environment: ${input.environment ?? 'base'}, a11y audit: ${input.a11yAudit ? 'on' : 'off'}${options.scheduleId ? `, schedule: ${options.scheduleId}` : ''}${input.baseRunId ? `, incremental from: ${input.baseRunId}` : ''})`,
+    },
+  ];
+
+  // Create test run in database
+  const run = await prisma.testRun.create({
+    data: {
+      id: runId,
+      projectId: input.projectId,
+      state: 'created',
+      prdPath: input.prdPath,
+      testedRoutes: toJsonString(input.routes),
+      workspacePath,
+      executionMode: input.executionMode,
+      environment: input.environment ?? null,
+      a11yAudit: input.a11yAudit,
+      scheduleId: options.scheduleId ?? null,
+      baseRunId: input.baseRunId ?? null,
+      envFingerprint: toJsonString({
+        service_version: process.env.npm_package_version || '0.1.0',
+        git_commit: process.env.GIT_COMMIT || 'unknown',
+        config_hash: 'pending',
+        browser_version: 'pending',
+        ...(input.environment ? { environment: input.environment } : {}),
+      }),
+      agentVersions: toJsonString({
+        claudeCode: 'pending',
+        codex: 'pending',
+      }),
+      promptVersions: toJsonString({
+        prdParse: '1.0.0',
+        uiTestExecute: '1.0.0',
+        reviewResults: '1.0.0',
+      }),
+      decisionLog: toJsonString(decisionLog),
+    },
+  });
+
+  // Emit WebSocket event for new test run
+  if (io) {
+    io.emit('test-run:created', {
+      runId,
+      projectId: input.projectId,
+      state: 'created',
+      timestamp: now.toISOString(),
+    });
+
+    // Initialize pipeline runner with Socket.IO
+    const pipelineRunner = getPipelineRunner();
+    pipelineRunner.setSocketIO(io);
+
+    // Start pipeline execution in background (non-blocking)
+    pipelineRunner.startPipeline(runId, input.priority).catch((error) => {
+      console.error(`[testRun.create] Failed to start pipeline for run ${runId}:`, error);
+    });
+  }
+
+  return dbToApiFormat(run);
+}
+
 /**
  * Test run router with Prisma database integration
  */
@@ -186,7 +586,7 @@ export const testRunRouter = router({
   list: publicProcedure
     .input(listOptionsSchema)
     .query(async ({ input }) => {
-      const { projectId, skip, take, state } = input;
+      const { projectId, skip, take, state, environment, scheduleId } = input;
 
       // If projectId provided, check if project exists
       if (projectId) {
@@ -210,6 +610,12 @@ export const testRunRouter = router({
       if (state) {
         where.state = state;
       }
+      if (environment) {
+        where.environment = environment;
+      }
+      if (scheduleId) {
+        where.scheduleId = scheduleId;
+      }
 
       // Get total count
       const total = await prisma.testRun.count({ where });
@@ -281,6 +687,8 @@ export const testRunRouter = router({
         reasonCode: run.reasonCode as ReasonCode | null,
         updatedAt: run.updatedAt,
         completedAt: run.completedAt,
+        /** Position in the pipeline queue (1 = next to start), null when not waiting */
+        queuePosition: await getQueuePosition(run.id),
       };
     }),
 
@@ -289,102 +697,105 @@ export const testRunRouter = router({
    */
   create: publicProcedure
     .input(createTestRunInputSchema)
+    .mutation(async ({ input, ctx }) => createTestRun(input, ctx.io)),
+
+  /**
+   * Submit approval decision
+   * @see Requirements 6.3, 6.4
+   */
+  submitApproval: publicProcedure
+    .input(approvalDecisionSchema)
     .mutation(async ({ input, ctx }) => {
-      // Check if project exists
-      const project = await prisma.project.findUnique({
-        where: { id: input.projectId },
+      // Get current test run
+      const run = await prisma.testRun.findUnique({
+        where: { id: input.runId },
       });
 
-      if (!project) {
+      if (!run) {
         throw new TRPCError({
           code: 'NOT_FOUND',
-          message: `Project with id ${input.projectId} not found`,
+          message: `Test run with id ${input.runId} not found`,
         });
       }
 
-      // Check if target profile exists
-      const profile = await prisma.targetProfile.findUnique({
-        where: { projectId: input.projectId },
-      });
-
-      if (!profile) {
+      // Validate current state
+      if (run.state !== 'awaiting_approval') {
         throw new TRPCError({
           code: 'PRECONDITION_FAILED',
-          message: `Target profile for project ${input.projectId} not found. Please configure target profile first.`,
+          message: `Test run is in state "${run.state}", expected "awaiting_approval"`,
         });
       }
 
       const now = new Date();
-      const runId = crypto.randomUUID();
-      const workspacePath = `.ai-test-workspace/${runId}`;
+      const newState = input.approved ? 'executing' : 'generating';
 
-      // Create initial decision log
-      const decisionLog = [
-        {
-          timestamp: now.toISOString(),
-          action: 'created',
-          details: `Test run created for routes: ${input.routes.join(', ')}`,
-        },
-      ];
+      // 整体通过时所有待审批用例都记为通过，后续批次据此只执行未执行的用例
+      const caseIds = input.approved ? await loadCaseIds(input.runId) : null;
+      if (caseIds) {
+        const approvals = await syncCaseApprovals(input.runId, caseIds);
+        await recordCaseDecisions(
+          input.runId,
+          input.reviewerId,
+          nextApprovalRound(approvals),
+          approvals
+            .filter((approval) => approval.status === 'pending')
+            .map((approval) => ({ caseId: approval.caseId, approved: true }))
+        );
+      }
 
-      // Create test run in database
-      const run = await prisma.testRun.create({
+      // Update decision log
+      const updatedLog = addDecisionLogEntry(
+        run.decisionLog,
+        input.approved ? 'approval_granted' : 'approval_rejected',
+        `Reviewer: ${input.reviewerId}${input.comments ? `, Comments: ${input.comments}` : ''}`
+      );
+
+      // Update test run
+      await prisma.testRun.update({
+        where: { id: input.runId },
         data: {
-          id: runId,
-          projectId: input.projectId,
-          state: 'created',
-          prdPath: input.prdPath,
-          testedRoutes: toJsonString(input.routes),
-          workspacePath,
-          envFingerprint: toJsonString({
-            service_version: process.env.npm_package_version || '0.1.0',
-            git_commit: process.env.GIT_COMMIT || 'unknown',
-            config_hash: 'pending',
-            browser_version: 'pending',
-          }),
-          agentVersions: toJsonString({
-            claudeCode: 'pending',
-            codex: 'pending',
-          }),
-          promptVersions: toJsonString({
-            prdParse: '1.0.0',
-            uiTestExecute: '1.0.0',
-            reviewResults: '1.0.0',
-          }),
-          decisionLog: toJsonString(decisionLog),
+          state: newState,
+          decisionLog: updatedLog,
         },
       });
 
-      // Emit WebSocket event for new test run
+      // Emit WebSocket event
       if (ctx.io) {
-        ctx.io.emit('test-run:created', {
-          runId,
-          projectId: input.projectId,
-          state: 'created',
+        ctx.io.to(`run:${input.runId}`).emit('state_transition', {
+          runId: input.runId,
+          previousState: 'awaiting_approval',
+          currentState: newState,
           timestamp: now.toISOString(),
         });
 
-        // Initialize pipeline runner with Socket.IO
-        const pipelineRunner = getPipelineRunner();
-        pipelineRunner.setSocketIO(ctx.io);
-
-        // Start pipeline execution in background (non-blocking)
-        pipelineRunner.startPipeline(runId).catch((error) => {
-          console.error(`[testRun.create] Failed to start pipeline for run ${runId}:`, error);
-        });
+        // If approved, continue pipeline execution
+        if (input.approved) {
+          const pipelineRunner = getPipelineRunner();
+          pipelineRunner.setSocketIO(ctx.io);
+          
+          // Continue pipeline execution in background (non-blocking)
+          pipelineRunner.continueAfterApproval(input.runId).catch((error) => {
+            console.error(`[testRun.submitApproval] Failed to continue pipeline for run ${input.runId}:`, error);
+          });
+        }
       }
 
-      return dbToApiFormat(run);
+      return {
+        success: true,
+        newState,
+        timestamp: now.toISOString(),
+      };
     }),
 
   /**
-   * Submit approval decision
+   * Approve or reject test cases one by one
+   * Approved cases proceed to test execution; rejected cases are regenerated with their
+   * feedback and come back for approval once the approved batch has run.
    * @see Requirements 6.3, 6.4
    */
-  submitApproval: publicProcedure
-    .input(approvalDecisionSchema)
+  submitCaseApprovals: publicProcedure
+    .input(caseApprovalInputSchema)
     .mutation(async ({ input, ctx }) => {
-      // Get current test run
       const run = await prisma.testRun.findUnique({
         where: { id: input.runId },
       });
@@ -396,7 +807,6 @@ export const testRunRouter = router({
         });
       }
 
-      // Validate current state
       if (run.state !== 'awaiting_approval') {
         throw new TRPCError({
           code: 'PRECONDITION_FAILED',
@@ -404,17 +814,70 @@ export const testRunRouter = router({
         });
       }
 
+      const caseIds = await loadCaseIds(input.runId);
+      if (!caseIds) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Test cases file not found',
+        });
+      }
+
+      const approvals = await syncCaseApprovals(input.runId, caseIds);
+      const pending = approvals.filter((approval) => approval.status === 'pending').map((approval) => approval.caseId);
+      const decided = new Set(input.decisions.map((decision) => decision.caseId));
+
+      const notPending = [...decided].filter((caseId) => !pending.includes(caseId));
+      if (notPending.length > 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Test cases are not awaiting approval: ${notPending.join(', ')}`,
+        });
+      }
+      const undecided = pending.filter((caseId) => !decided.has(caseId));
+      if (undecided.length > 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Missing decisions for test cases: ${undecided.join(', ')}`,
+        });
+      }
+
+      const rejected = input.decisions.filter((decision) => !decision.approved);
+      const withoutFeedback = rejected.filter((decision) => !decision.feedback?.trim());
+      if (withoutFeedback.length > 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Rejected test cases need feedback: ${withoutFeedback.map((decision) => decision.caseId).join(', ')}`,
+        });
+      }
+
+      const regenerationCount = countRegenerations(run.decisionLog);
+      if (rejected.length > 0 && regenerationCount >= MAX_REGENERATION_ATTEMPTS) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `Maximum regeneration attempts (${MAX_REGENERATION_ATTEMPTS}) reached. Please manually edit test cases or force continue.`,
+        });
+      }
+
       const now = new Date();
-      const newState = input.approved ? 'executing' : 'generating';
+      const round = nextApprovalRound(approvals);
+      const approvedCaseIds = input.decisions.filter((decision) => decision.approved).map((decision) => decision.caseId);
+      // 有通过的用例先执行，被驳回的用例在该批次执行完后重新生成
+      const newState = approvedCaseIds.length > 0 ? 'executing' : 'generating';
+
+      await recordCaseDecisions(input.runId, input.reviewerId, round, input.decisions);
 
-      // Update decision log
       const updatedLog = addDecisionLogEntry(
         run.decisionLog,
-        input.approved ? 'approval_granted' : 'approval_rejected',
-        `Reviewer: ${input.reviewerId}${input.comments ? `, Comments: ${input.comments}` : ''}`
+        rejected.length > 0 ? 'partial_approval' : 'approval_granted',
+        JSON.stringify({
+          reviewerId: input.reviewerId,
+          round,
+          approved: approvedCaseIds,
+          rejected: rejected.map((decision) => ({ caseId: decision.caseId, feedback: decision.feedback })),
+          ...(input.comments ? { comments: input.comments } : {}),
+        })
       );
 
-      // Update test run
       await prisma.testRun.update({
         where: { id: input.runId },
         data: {
@@ -423,7 +886,6 @@ export const testRunRouter = router({
         },
       });
 
-      // Emit WebSocket event
       if (ctx.io) {
         ctx.io.to(`run:${input.runId}`).emit('state_transition', {
           runId: input.runId,
@@ -432,25 +894,61 @@ export const testRunRouter = router({
           timestamp: now.toISOString(),
         });
 
-        // If approved, continue pipeline execution
-        if (input.approved) {
-          const pipelineRunner = getPipelineRunner();
-          pipelineRunner.setSocketIO(ctx.io);
-          
-          // Continue pipeline execution in background (non-blocking)
-          pipelineRunner.continueAfterApproval(input.runId).catch((error) => {
-            console.error(`[testRun.submitApproval] Failed to continue pipeline for run ${input.runId}:`, error);
-          });
-        }
+        const pipelineRunner = getPipelineRunner();
+        pipelineRunner.setSocketIO(ctx.io);
+
+        const next = approvedCaseIds.length > 0
+          ? pipelineRunner.continueAfterApproval(input.runId)
+          : pipelineRunner.regenerateRejectedCases(input.runId);
+        next.catch((error) => {
+          console.error(`[testRun.submitCaseApprovals] Failed to continue run ${input.runId}:`, error);
+        });
       }
 
       return {
         success: true,
         newState,
+        round,
+        approvedCount: approvedCaseIds.length,
+        rejectedCount: rejected.length,
         timestamp: now.toISOString(),
       };
     }),
 
+  /**
+   * Get the per-case approval status of a run's test cases
+   * Cases without a status have not been decided yet (pending).
+   * @see Requirements 6.3, 6.4
+   */
+  getCaseApprovals: publicProcedure
+    .input(z.object({ runId: z.string().uuid() }))
+    .query(async ({ input }) => listCaseApprovals(input.runId)),
+
+  /**
+   * Get the test steps whose selector matches no element in the page source
+   * Shown to reviewers as warnings at approval time; empty when the run has no element inventory.
+   * @see Requirements 4.2, 6.3
+   */
+  getSelectorWarnings: publicProcedure
+    .input(z.object({ runId: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const workspaceRoot = process.env.WORKSPACE_DIR || '.ai-test-workspace';
+      const inventory = await loadElementInventory(`${workspaceRoot}/${input.runId}/inputs`);
+      if (inventory.length === 0) {
+        return [];
+      }
+
+      try {
+        const testCases = await loadEditableTestCases(`${workspaceRoot}/${input.runId}/outputs`);
+        return findUnverifiedSelectors(testCases, inventory);
+      } catch {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Test cases file not found',
+        });
+      }
+    }),
+
   /**
    * Submit confirmation decision
    * @see Requirements 12.3, 12.4
@@ -534,6 +1032,9 @@ export const testRunRouter = router({
 
   /**
    * Cancel a test run
+   * Drops the run's queued pipeline jobs and stops its running agent and test processes.
+   * The pipeline moves the outputs the interrupted step already wrote under incomplete/,
+   * so that resuming the run does not take them for the results of a finished step.
    */
   cancel: publicProcedure
     .input(z.object({ 
@@ -580,6 +1081,9 @@ export const testRunRouter = router({
         },
       });
 
+      // Stop queued and in-flight pipeline work; the runner logs and emits once processes exit
+      const pipelineStopped = await getPipelineRunner().cancelPipeline(input.id);
+
       // Emit WebSocket event
       if (ctx.io) {
         ctx.io.to(`run:${input.id}`).emit('state_transition', {
@@ -593,6 +1097,7 @@ export const testRunRouter = router({
 
       return {
         success: true,
+        pipelineStopped,
         timestamp: now.toISOString(),
       };
     }),
@@ -601,15 +1106,19 @@ export const testRunRouter = router({
    * Get test run statistics for a project
    */
   getStats: publicProcedure
-    .input(z.object({ projectId: z.string().uuid() }))
+    .input(z.object({ projectId: z.string().uuid(), environment: environmentNameSchema.optional() }))
     .query(async ({ input }) => {
+      const scope = {
+        projectId: input.projectId,
+        ...(input.environment ? { environment: input.environment } : {}),
+      };
       const [total, completed, failed, inProgress] = await Promise.all([
-        prisma.testRun.count({ where: { projectId: input.projectId } }),
-        prisma.testRun.count({ where: { projectId: input.projectId, state: 'completed' } }),
-        prisma.testRun.count({ where: { projectId: input.projectId, state: 'failed' } }),
+        prisma.testRun.count({ where: scope }),
+        prisma.testRun.count({ where: { ...scope, state: 'completed' } }),
+        prisma.testRun.count({ where: { ...scope, state: 'failed' } }),
         prisma.testRun.count({
           where: {
-            projectId: input.projectId,
+            ...scope,
             state: { notIn: ['completed', 'failed'] },
           },
         }),
@@ -784,6 +1293,40 @@ export const testRunRouter = router({
       };
     }),
 
+  /**
+   * 获取增量解析的 PRD 变更摘要（非增量运行或尚未解析完成时返回 null）
+   * @see Requirements 3.1
+   */
+  getPrdChanges: publicProcedure
+    .input(z.object({ runId: z.string().uuid() }))
+    .query(async ({ input }): Promise<PrdChangeSummary | null> => {
+      const run = await prisma.testRun.findUnique({
+        where: { id: input.runId },
+      });
+
+      if (!run) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Test run with id ${input.runId} not found`,
+        });
+      }
+
+      if (!run.baseRunId) {
+        return null;
+      }
+
+      const workspaceRoot = process.env.WORKSPACE_DIR || '.ai-test-workspace';
+      const changesPath = `${workspaceRoot}/${input.runId}/outputs/${PRD_CHANGES_FILENAME}`;
+
+      const fs = await import('fs/promises');
+
+      try {
+        return JSON.parse(await fs.readFile(changesPath, 'utf-8')) as PrdChangeSummary;
+      } catch {
+        return null;
+      }
+    }),
+
   /**
    * 获取可恢复的步骤列表
    * @see Requirements 3.1
@@ -824,11 +1367,14 @@ export const testRunRouter = router({
       fromStep: z.enum([
         'prd_parsing',
         'test_execution',
+        'a11y_audit',
         'codex_review',
         'cross_validation',
         'report_generation',
         'quality_gate',
       ]),
+      /** 回放该运行已录制的 cassette，而不是重新调用 LLM */
+      useCassette: z.boolean().optional(),
     }))
     .mutation(async ({ input, ctx }) => {
       // 验证 TestRun 存在
@@ -860,13 +1406,15 @@ export const testRunRouter = router({
 
       try {
         // 恢复执行 Pipeline
-        await pipelineRunner.resumePipeline(input.runId, input.fromStep);
+        await pipelineRunner.resumePipeline(input.runId, input.fromStep, {
+          useCassette: input.useCassette,
+        });
 
         // 更新 decision log
         const updatedLog = addDecisionLogEntry(
           run.decisionLog,
           'pipeline_resumed',
-          `Resumed from step: ${input.fromStep}`
+          `Resumed from step: ${input.fromStep}${input.useCassette ? ' (cassette replay)' : ''}`
         );
 
         await prisma.testRun.update({
@@ -947,10 +1495,7 @@ export const testRunRouter = router({
       }
 
       // 3. 检查重新生成次数
-      const decisionLog = fromJsonString<Array<{ timestamp: string; action: string; details?: string }>>(run.decisionLog);
-      const regenerationCount = decisionLog.filter(
-        (entry) => entry.action === 'regeneration_requested'
-      ).length;
+      const regenerationCount = countRegenerations(run.decisionLog);
 
       if (regenerationCount >= MAX_REGENERATION_ATTEMPTS) {
         throw new TRPCError({
@@ -999,6 +1544,8 @@ export const testRunRouter = router({
         pipelineRunner.regenerateTestCases(input.runId, {
           feedbackType: input.feedbackType,
           feedbackDetail: input.feedbackDetail,
+        }, {
+          useCassette: input.useCassette,
         }).catch((error) => {
           console.error(`[testRun.regenerateTestCases] Failed to regenerate for run ${input.runId}:`, error);
         });
@@ -1012,6 +1559,96 @@ export const testRunRouter = router({
       };
     }),
 
+  /**
+   * 获取可编辑的测试用例（TestCase 结构）
+   * @see Requirements 6.2
+   */
+  getEditableTestCases: publicProcedure
+    .input(z.object({ runId: z.string().uuid() }))
+    .query(async ({ input }) => {
+      const run = await prisma.testRun.findUnique({
+        where: { id: input.runId },
+      });
+
+      if (!run) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Test run with id ${input.runId} not found`,
+        });
+      }
+
+      const workspaceRoot = process.env.WORKSPACE_DIR || '.ai-test-workspace';
+      try {
+        const testCases = await loadEditableTestCases(`${workspaceRoot}/${input.runId}/outputs`);
+        return {
+          testCases,
+          editable: run.state === 'awaiting_approval',
+        };
+      } catch {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Test cases file not found',
+        });
+      }
+    }),
+
+  /**
+   * 审批阶段编辑测试用例（步骤、断言、选择器、数据步骤）
+   * 步骤与断言的增删和排序通过提交完整的用例完成
+   * @see Requirements 6.2
+   */
+  updateTestCase: publicProcedure
+    .input(z.object({
+      runId: z.string().uuid(),
+      testCase: editableTestCaseSchema,
+      reviewerId: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      const result = await editTestCases(input.runId, input.reviewerId, (testCases) => {
+        const index = findTestCaseIndex(testCases, input.testCase.caseId);
+        const updated: EditableTestCaseInput[] = [...testCases];
+        updated[index] = input.testCase;
+        return { testCases: updated, before: testCases[index], after: input.testCase };
+      });
+      return { success: true, ...result };
+    }),
+
+  /**
+   * 审批阶段新增测试用例，未指定 caseId 时自动分配
+   * @see Requirements 6.2
+   */
+  addTestCase: publicProcedure
+    .input(z.object({
+      runId: z.string().uuid(),
+      testCase: editableTestCaseSchema.extend({ caseId: z.string().optional() }),
+      reviewerId: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      const result = await editTestCases(input.runId, input.reviewerId, (testCases) => {
+        const added = { ...input.testCase, caseId: input.testCase.caseId || nextTestCaseId(testCases) };
+        return { testCases: [...testCases, added], after: added };
+      });
+      return { success: true, ...result };
+    }),
+
+  /**
+   * 审批阶段删除测试用例
+   * @see Requirements 6.2
+   */
+  deleteTestCase: publicProcedure
+    .input(z.object({
+      runId: z.string().uuid(),
+      caseId: z.string(),
+      reviewerId: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      const result = await editTestCases(input.runId, input.reviewerId, (testCases) => {
+        const index = findTestCaseIndex(testCases, input.caseId);
+        return { testCases: testCases.filter((_, i) => i !== index), before: testCases[index] };
+      });
+      return { success: true, ...result };
+    }),
+
   /**
    * 生成 Playwright 脚本预览
    * @see Requirements 6.1, 6.3, 8.3
@@ -272,6 +272,44 @@ describe('WebSocketEventEmitter', () => {
     });
   });
 
+  describe('emitStepRetry', () => {
+    it('should emit step_retry event with the attempt progress', () => {
+      emitter.emitStepRetry({
+        runId: 'test-run-1',
+        step: 'prd_parsing',
+        attempt: 2,
+        maxAttempts: 3,
+        category: 'ai_agent',
+        errorMessage: 'Claude Code exited with code 1',
+        delayMs: 4000,
+        timestamp: new Date().toISOString(),
+      });
+
+      expect(mockIO._toFn).toHaveBeenCalledWith('run:test-run-1');
+      expect(mockIO._emitFn).toHaveBeenCalledWith(
+        WebSocketEvents.STEP_RETRY,
+        expect.objectContaining({ step: 'prd_parsing', attempt: 2, maxAttempts: 3 })
+      );
+    });
+  });
+
+  describe('emitReviewReminder', () => {
+    it('should emit review reminder event with the deadline', () => {
+      emitter.emitReviewReminder({
+        runId: 'test-run-1',
+        kind: 'approval',
+        dueAt: '2026-03-10T14:00:00.000Z',
+        timestamp: new Date().toISOString(),
+      });
+
+      expect(mockIO._toFn).toHaveBeenCalledWith('run:test-run-1');
+      expect(mockIO._emitFn).toHaveBeenCalledWith(
+        WebSocketEvents.REVIEW_REMINDER,
+        expect.objectContaining({ kind: 'approval', dueAt: '2026-03-10T14:00:00.000Z' })
+      );
+    });
+  });
+
   describe('broadcast', () => {
     it('should broadcast to all clients', () => {
       emitter.broadcast('custom-event', { data: 'test' });
@@ -107,12 +107,37 @@ export interface ProgressUpdateEvent {
  */
 export interface CliLogEvent {
   runId: string;
-  source: 'claude' | 'codex';
+  source: 'claude' | 'codex' | 'playwright';
   type: 'stdout' | 'stderr' | 'info' | 'error';
   message: string;
   timestamp: string;
 }
 
+/**
+ * Step retry event payload - a failed pipeline step is about to be retried
+ */
+export interface StepRetryEvent {
+  runId: string;
+  step: string;
+  /** Attempt that is about to run (2 = first retry) */
+  attempt: number;
+  maxAttempts: number;
+  category: string;
+  errorMessage: string;
+  delayMs: number;
+  timestamp: string;
+}
+
+/**
+ * Review reminder event payload - a run's approval or confirmation deadline is close
+ */
+export interface ReviewReminderEvent {
+  runId: string;
+  kind: 'approval' | 'confirmation';
+  dueAt: string;
+  timestamp: string;
+}
+
 /**
  * Error event payload
  */
@@ -144,6 +169,12 @@ export const WebSocketEvents = {
   
   // CLI log events
   CLI_LOG: 'cli_log',
+
+  // Retry events
+  STEP_RETRY: 'step_retry',
+
+  // Review events
+  REVIEW_REMINDER: 'review:reminder',
   
   // Error events
   ERROR: 'error',
@@ -258,6 +289,26 @@ export class WebSocketEventEmitter {
     );
   }
 
+  /**
+   * Emit step retry event
+   */
+  emitStepRetry(event: StepRetryEvent): void {
+    this.io.to(this.getRoomName(event.runId)).emit(
+      WebSocketEvents.STEP_RETRY,
+      event
+    );
+  }
+
+  /**
+   * Emit review reminder event
+   */
+  emitReviewReminder(event: ReviewReminderEvent): void {
+    this.io.to(this.getRoomName(event.runId)).emit(
+      WebSocketEvents.REVIEW_REMINDER,
+      event
+    );
+  }
+
   /**
    * Emit error event
    */
@@ -14,5 +14,7 @@ export {
   type TestCaseCompletedEvent,
   type AssertionResultEvent,
   type ProgressUpdateEvent,
+  type StepRetryEvent,
+  type ReviewReminderEvent,
   type ErrorEvent,
 } from './events.js';
@@ -20,6 +20,7 @@ import RouteSelection from './pages/RouteSelection';
 import TestRunList from './pages/TestRunList';
 import TestRunDetail from './pages/TestRunDetail';
 import ReportView from './pages/ReportView';
+import ScheduleList from './pages/ScheduleList';
 
 // Create React Query client
 const queryClient = new QueryClient({
@@ -50,6 +51,7 @@ function App() {
                 <Route path="routes/:projectId" element={<RouteSelection />} />
                 <Route path="runs" element={<TestRunList />} />
                 <Route path="runs/:runId" element={<TestRunDetail />} />
+                <Route path="schedules" element={<ScheduleList />} />
                 <Route path="reports" element={<TestRunList />} />
                 <Route path="reports/:runId" element={<ReportView />} />
               </Route>
@@ -20,8 +20,10 @@ import {
   CloseCircleOutlined,
   CodeOutlined,
   DownloadOutlined,
+  OrderedListOutlined,
 } from '@ant-design/icons';
 import { trpc } from '../lib/trpc';
+import { CaseApprovalModal } from './CaseApprovalModal';
 
 const { TextArea } = Input;
 const { Option } = Select;
@@ -51,9 +53,16 @@ export const ApprovalActions: React.FC<ApprovalActionsProps> = ({
 }) => {
   const [approveModalOpen, setApproveModalOpen] = useState(false);
   const [rejectModalOpen, setRejectModalOpen] = useState(false);
+  const [caseApprovalOpen, setCaseApprovalOpen] = useState(false);
   const [approveComments, setApproveComments] = useState('');
   const [rejectForm] = Form.useForm();
 
+  // 选择器在页面源码中找不到对应元素的步骤
+  const { data: selectorWarnings } = trpc.testRun.getSelectorWarnings.useQuery(
+    { runId },
+    { enabled: approveModalOpen }
+  );
+
   // 审批通过 mutation
   const approveMutation = trpc.testRun.submitApproval.useMutation({
     onSuccess: () => {
@@ -129,6 +138,12 @@ export const ApprovalActions: React.FC<ApprovalActionsProps> = ({
         >
           批准执行
         </Button>
+        <Button
+          icon={<OrderedListOutlined />}
+          onClick={() => setCaseApprovalOpen(true)}
+        >
+          逐条审批
+        </Button>
         <Button
           danger
           icon={<CloseCircleOutlined />}
@@ -154,6 +169,24 @@ export const ApprovalActions: React.FC<ApprovalActionsProps> = ({
           description="请确认测试用例符合预期，批准后系统将自动执行 Playwright 测试脚本。"
           style={{ marginBottom: 16 }}
         />
+        {selectorWarnings && selectorWarnings.length > 0 && (
+          <Alert
+            type="warning"
+            showIcon
+            message={`${selectorWarnings.length} 个步骤的选择器在页面源码中未找到对应元素`}
+            description={
+              <ul style={{ margin: 0, paddingLeft: 20 }}>
+                {selectorWarnings.slice(0, 5).map((warning) => (
+                  <li key={`${warning.caseId}-${warning.stepNumber}`}>
+                    {warning.caseId} 步骤 {warning.stepNumber}: <code>{warning.selector}</code>
+                  </li>
+                ))}
+                {selectorWarnings.length > 5 && <li>…（可在逐条审批中查看全部）</li>}
+              </ul>
+            }
+            style={{ marginBottom: 16 }}
+          />
+        )}
         <TextArea
           rows={3}
           placeholder="审批意见（可选）"
@@ -205,6 +238,14 @@ export const ApprovalActions: React.FC<ApprovalActionsProps> = ({
           </Form.Item>
         </Form>
       </Modal>
+
+      {/* 逐条审批对话框 */}
+      <CaseApprovalModal
+        runId={runId}
+        open={caseApprovalOpen}
+        onClose={() => setCaseApprovalOpen(false)}
+        onSubmitted={onApprovalComplete}
+      />
     </div>
   );
 };
@@ -0,0 +1,231 @@
+/**
+ * Case Approval Modal Component
+ * 逐条审批测试用例：通过的用例先执行，驳回的用例按反馈重新生成后再次审批
+ * @see Requirements 6.3, 6.4
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Modal,
+  Table,
+  Radio,
+  Input,
+  Alert,
+  Space,
+  Button,
+  Tag,
+  Tooltip,
+  Typography,
+  message,
+} from 'antd';
+import { trpc } from '../lib/trpc';
+
+const { Text } = Typography;
+
+interface CaseApprovalModalProps {
+  runId: string;
+  open: boolean;
+  onClose: () => void;
+  onSubmitted?: () => void;
+}
+
+interface CaseDecision {
+  approved: boolean;
+  feedback: string;
+}
+
+interface PendingCaseRow {
+  caseId: string;
+  title: string;
+  requirementId: string;
+}
+
+export const CaseApprovalModal: React.FC<CaseApprovalModalProps> = ({
+  runId,
+  open,
+  onClose,
+  onSubmitted,
+}) => {
+  const [decisions, setDecisions] = useState<Record<string, CaseDecision>>({});
+  const utils = trpc.useContext();
+
+  const { data: editableCases, isLoading: casesLoading } = trpc.testRun.getEditableTestCases.useQuery(
+    { runId },
+    { enabled: open }
+  );
+  const { data: approvals, isLoading: approvalsLoading } = trpc.testRun.getCaseApprovals.useQuery(
+    { runId },
+    { enabled: open }
+  );
+
+  const { data: selectorWarnings } = trpc.testRun.getSelectorWarnings.useQuery(
+    { runId },
+    { enabled: open }
+  );
+
+  // 按用例归组：步骤选择器在页面元素清单中找不到对应元素
+  const warningsByCase = useMemo(() => {
+    const grouped = new Map<string, string[]>();
+    for (const warning of selectorWarnings ?? []) {
+      const list = grouped.get(warning.caseId) ?? [];
+      list.push(`步骤 ${warning.stepNumber}: ${warning.selector}`);
+      grouped.set(warning.caseId, list);
+    }
+    return grouped;
+  }, [selectorWarnings]);
+
+  // 没有审批记录或仍为 pending 的用例需要本轮决定
+  const pendingCases = useMemo<PendingCaseRow[]>(() => {
+    const statusById = new Map((approvals ?? []).map((approval) => [approval.caseId, approval.status]));
+    return (editableCases?.testCases ?? [])
+      .filter((tc) => (statusById.get(tc.caseId) ?? 'pending') === 'pending')
+      .map((tc) => ({ caseId: tc.caseId, title: tc.title, requirementId: tc.requirementId }));
+  }, [editableCases, approvals]);
+
+  // 默认全部通过；重新拉取数据时保留已填写的决定
+  useEffect(() => {
+    if (open) {
+      setDecisions((current) =>
+        Object.fromEntries(
+          pendingCases.map((tc) => [tc.caseId, current[tc.caseId] ?? { approved: true, feedback: '' }])
+        )
+      );
+    }
+  }, [open, pendingCases]);
+
+  const submitMutation = trpc.testRun.submitCaseApprovals.useMutation({
+    onSuccess: (result) => {
+      message.success(
+        result.rejectedCount > 0
+          ? `已通过 ${result.approvedCount} 个用例，${result.rejectedCount} 个用例将按反馈重新生成`
+          : `已通过 ${result.approvedCount} 个用例，开始执行测试`
+      );
+      utils.testRun.getCaseApprovals.invalidate({ runId });
+      onClose();
+      onSubmitted?.();
+    },
+    onError: (error) => {
+      message.error(`审批失败: ${error.message}`);
+    },
+  });
+
+  const updateDecision = (caseId: string, patch: Partial<CaseDecision>) => {
+    setDecisions((current) => ({ ...current, [caseId]: { ...current[caseId], ...patch } }));
+  };
+
+  const setAll = (approved: boolean) => {
+    setDecisions((current) =>
+      Object.fromEntries(Object.entries(current).map(([caseId, decision]) => [caseId, { ...decision, approved }]))
+    );
+  };
+
+  const rejected = Object.entries(decisions).filter(([, decision]) => !decision.approved);
+  const missingFeedback = rejected.some(([, decision]) => !decision.feedback.trim());
+
+  const handleSubmit = () => {
+    submitMutation.mutate({
+      runId,
+      reviewerId: 'current-user', // TODO: 从认证上下文获取
+      decisions: pendingCases.map((tc) => ({
+        caseId: tc.caseId,
+        approved: decisions[tc.caseId]?.approved ?? true,
+        feedback: decisions[tc.caseId]?.approved === false ? decisions[tc.caseId].feedback : undefined,
+      })),
+    });
+  };
+
+  return (
+    <Modal
+      title="逐条审批测试用例"
+      open={open}
+      onCancel={onClose}
+      onOk={handleSubmit}
+      okText={`提交（通过 ${pendingCases.length - rejected.length}，驳回 ${rejected.length}）`}
+      cancelText="取消"
+      width={900}
+      confirmLoading={submitMutation.isLoading}
+      okButtonProps={{ disabled: pendingCases.length === 0 || missingFeedback }}
+    >
+      <Alert
+        type="info"
+        message="通过的用例立即执行，驳回的用例按反馈重新生成后再次审批"
+        description="所有用例都执行完后才会进入交叉评审和报告生成。驳回的用例必须填写反馈。"
+        style={{ marginBottom: 16 }}
+      />
+      <Space style={{ marginBottom: 12 }}>
+        <Button size="small" onClick={() => setAll(true)}>全部通过</Button>
+        <Button size="small" onClick={() => setAll(false)}>全部驳回</Button>
+        <Text type="secondary">待审批 {pendingCases.length} 个用例</Text>
+      </Space>
+      <Table<PendingCaseRow>
+        rowKey="caseId"
+        size="small"
+        loading={casesLoading || approvalsLoading}
+        dataSource={pendingCases}
+        pagination={false}
+        scroll={{ y: 420 }}
+        columns={[
+          {
+            title: '用例',
+            dataIndex: 'caseId',
+            width: 260,
+            render: (caseId: string, row) => (
+              <Space direction="vertical" size={0}>
+                <Space>
+                  <Text strong>{caseId}</Text>
+                  <Tag color="blue">{row.requirementId}</Tag>
+                  {warningsByCase.has(caseId) && (
+                    <Tooltip
+                      title={
+                        <>
+                          <div>以下步骤的选择器在页面源码中未找到对应元素：</div>
+                          {warningsByCase.get(caseId)!.map((text) => <div key={text}>{text}</div>)}
+                        </>
+                      }
+                    >
+                      <Tag color="warning">选择器待核实</Tag>
+                    </Tooltip>
+                  )}
+                </Space>
+                <Text type="secondary" style={{ fontSize: 12 }}>{row.title}</Text>
+              </Space>
+            ),
+          },
+          {
+            title: '决定',
+            dataIndex: 'caseId',
+            key: 'decision',
+            width: 150,
+            render: (caseId: string) => (
+              <Radio.Group
+                size="small"
+                value={decisions[caseId]?.approved ?? true}
+                onChange={(e) => updateDecision(caseId, { approved: e.target.value })}
+              >
+                <Radio.Button value={true}>通过</Radio.Button>
+                <Radio.Button value={false}>驳回</Radio.Button>
+              </Radio.Group>
+            ),
+          },
+          {
+            title: '驳回反馈',
+            dataIndex: 'caseId',
+            key: 'feedback',
+            render: (caseId: string) => (
+              <Input
+                size="small"
+                disabled={decisions[caseId]?.approved !== false}
+                status={decisions[caseId]?.approved === false && !decisions[caseId].feedback.trim() ? 'error' : undefined}
+                placeholder="例如：缺少重名校验、断言应检查提示文案"
+                value={decisions[caseId]?.feedback ?? ''}
+                onChange={(e) => updateDecision(caseId, { feedback: e.target.value })}
+              />
+            ),
+          },
+        ]}
+      />
+    </Modal>
+  );
+};
+
+export default CaseApprovalModal;
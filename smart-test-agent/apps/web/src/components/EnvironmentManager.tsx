@@ -0,0 +1,202 @@
+/**
+ * Environment Manager Component
+ * 管理项目的命名环境（dev / staging / uat），每个环境可覆盖 baseUrl、登录凭证和浏览器配置
+ * @see Requirements 1.1, 1.4, 17.1
+ */
+
+import React, { useState } from 'react';
+import {
+  Card,
+  Table,
+  Button,
+  Modal,
+  Form,
+  Input,
+  InputNumber,
+  Space,
+  Popconfirm,
+  Typography,
+  message,
+} from 'antd';
+import { PlusOutlined } from '@ant-design/icons';
+import { trpc } from '../lib/trpc';
+
+const { Text } = Typography;
+
+interface EnvironmentManagerProps {
+  /** 项目 ID */
+  projectId: string;
+  /** 基础配置的 baseUrl，作为未覆盖时的提示 */
+  baseUrl?: string;
+}
+
+/**
+ * 从表单值中去掉空字段，未填写的字段继承基础配置
+ */
+function compact<T extends Record<string, any>>(values: T): Partial<T> | undefined {
+  const entries = Object.entries(values).filter(([, value]) => value !== undefined && value !== null && value !== '');
+  return entries.length > 0 ? (Object.fromEntries(entries) as Partial<T>) : undefined;
+}
+
+/**
+ * Environment manager component
+ */
+export const EnvironmentManager: React.FC<EnvironmentManagerProps> = ({ projectId, baseUrl }) => {
+  const [form] = Form.useForm();
+  const [editing, setEditing] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const { data: environments, isLoading, refetch } = trpc.environment.list.useQuery({ projectId });
+
+  const upsertMutation = trpc.environment.upsert.useMutation({
+    onSuccess: () => {
+      message.success('环境已保存');
+      setIsModalOpen(false);
+      form.resetFields();
+      refetch();
+    },
+    onError: (error) => {
+      message.error(error.message);
+    },
+  });
+
+  const deleteMutation = trpc.environment.delete.useMutation({
+    onSuccess: () => {
+      message.success('环境已删除');
+      refetch();
+    },
+    onError: (error) => {
+      message.error(error.message);
+    },
+  });
+
+  const openModal = (environment?: any) => {
+    form.resetFields();
+    if (environment) {
+      form.setFieldsValue({
+        name: environment.name,
+        baseUrl: environment.baseUrl ?? undefined,
+        username: environment.login?.credentials?.username,
+        password: environment.login?.credentials?.password,
+        loginUrl: environment.login?.loginUrl,
+        timeoutMs: environment.browser?.timeoutMs,
+      });
+    }
+    setEditing(environment?.name ?? null);
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = (values: any) => {
+    const credentials = compact({ username: values.username, password: values.password });
+    upsertMutation.mutate({
+      projectId,
+      name: values.name,
+      baseUrl: values.baseUrl || undefined,
+      login: compact({ loginUrl: values.loginUrl, credentials }),
+      browser: compact({ timeoutMs: values.timeoutMs }),
+    });
+  };
+
+  const columns = [
+    {
+      title: '环境',
+      dataIndex: 'name',
+      key: 'name',
+    },
+    {
+      title: '目标 URL',
+      dataIndex: 'baseUrl',
+      key: 'baseUrl',
+      render: (url: string | null) => url || <Text type="secondary">继承: {baseUrl}</Text>,
+    },
+    {
+      title: '登录凭证',
+      key: 'credentials',
+      render: (_: any, record: any) => record.login?.credentials?.username || <Text type="secondary">继承</Text>,
+    },
+    {
+      title: '操作',
+      key: 'actions',
+      render: (_: any, record: any) => (
+        <Space>
+          <Button type="link" onClick={() => openModal(record)}>
+            编辑
+          </Button>
+          <Popconfirm
+            title={`确定删除环境 ${record.name}？`}
+            onConfirm={() => deleteMutation.mutate({ projectId, name: record.name })}
+          >
+            <Button type="link" danger>
+              删除
+            </Button>
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Card
+      title="环境配置"
+      style={{ marginBottom: 16 }}
+      extra={
+        <Button icon={<PlusOutlined />} onClick={() => openModal()}>
+          添加环境
+        </Button>
+      }
+    >
+      <Text type="secondary">
+        为 dev / staging / UAT 等环境覆盖目标 URL、登录凭证和浏览器配置，未填写的字段继承上方的基础配置
+      </Text>
+      <Table
+        columns={columns}
+        dataSource={environments ?? []}
+        rowKey="id"
+        loading={isLoading}
+        pagination={false}
+        size="small"
+        style={{ marginTop: 16 }}
+      />
+
+      <Modal
+        title={editing ? `编辑环境: ${editing}` : '添加环境'}
+        open={isModalOpen}
+        onCancel={() => setIsModalOpen(false)}
+        onOk={() => form.submit()}
+        confirmLoading={upsertMutation.isLoading}
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          <Form.Item
+            name="name"
+            label="环境名称"
+            rules={[
+              { required: true, message: '请输入环境名称' },
+              { pattern: /^[a-z0-9][a-z0-9_-]{0,31}$/, message: '仅支持小写字母、数字、- 和 _' },
+            ]}
+          >
+            <Input placeholder="staging" disabled={!!editing} />
+          </Form.Item>
+          <Form.Item name="baseUrl" label="目标 URL" rules={[{ type: 'url', message: '请输入有效的 URL' }]}>
+            <Input placeholder={baseUrl} />
+          </Form.Item>
+          <Form.Item name="loginUrl" label="登录页面 URL">
+            <Input placeholder="继承基础配置" />
+          </Form.Item>
+          <Space style={{ display: 'flex' }}>
+            <Form.Item name="username" label="用户名">
+              <Input placeholder="$STAGING_USERNAME" />
+            </Form.Item>
+            <Form.Item name="password" label="密码">
+              <Input.Password placeholder="$STAGING_PASSWORD" />
+            </Form.Item>
+          </Space>
+          <Form.Item name="timeoutMs" label="超时时间 (ms)">
+            <InputNumber min={1000} max={120000} step={1000} placeholder="继承基础配置" />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Card>
+  );
+};
+
+export default EnvironmentManager;
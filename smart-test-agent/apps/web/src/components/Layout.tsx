@@ -8,6 +8,7 @@ import { Layout as AntLayout, Menu, Typography } from 'antd';
 import {
   DashboardOutlined,
   PlayCircleOutlined,
+  FieldTimeOutlined,
   FileTextOutlined,
 } from '@ant-design/icons';
 import { useNavigate, useLocation, Outlet } from 'react-router-dom';
@@ -29,6 +30,11 @@ const menuItems = [
     icon: <PlayCircleOutlined />,
     label: '测试运行',
   },
+  {
+    key: '/schedules',
+    icon: <FieldTimeOutlined />,
+    label: '定时测试',
+  },
   {
     key: '/reports',
     icon: <FileTextOutlined />,
@@ -14,6 +14,7 @@ import {
   Tag,
   Spin,
   List,
+  Checkbox,
   message,
 } from 'antd';
 import {
@@ -31,6 +32,7 @@ const { Text } = Typography;
 type ResumableStep = 
   | 'prd_parsing'
   | 'test_execution'
+  | 'a11y_audit'
   | 'codex_review'
   | 'cross_validation'
   | 'report_generation'
@@ -67,6 +69,7 @@ export const ResumeRunDialog: React.FC<ResumeRunDialogProps> = ({
   onSuccess,
 }) => {
   const [selectedStep, setSelectedStep] = useState<ResumableStep | null>(null);
+  const [useCassette, setUseCassette] = useState(false);
 
   // 获取可恢复步骤
   const { 
@@ -96,6 +99,7 @@ export const ResumeRunDialog: React.FC<ResumeRunDialogProps> = ({
     if (open) {
       refetch();
       setSelectedStep(null);
+      setUseCassette(false);
     }
   }, [open, refetch]);
 
@@ -114,7 +118,7 @@ export const ResumeRunDialog: React.FC<ResumeRunDialogProps> = ({
       message.warning('请选择要恢复的步骤');
       return;
     }
-    resumeMutation.mutate({ runId, fromStep: selectedStep });
+    resumeMutation.mutate({ runId, fromStep: selectedStep, useCassette });
   };
 
   const availableSteps = resumableData?.steps?.filter(s => s.available) || [];
@@ -180,6 +184,13 @@ export const ResumeRunDialog: React.FC<ResumeRunDialogProps> = ({
                   description="之前的步骤将被跳过，使用已有的输出文件。"
                 />
               )}
+
+              <Checkbox
+                checked={useCassette}
+                onChange={(e) => setUseCassette(e.target.checked)}
+              >
+                回放已录制的 AI 调用（不重新调用 Claude Code / Codex）
+              </Checkbox>
             </>
           ) : (
             <Alert
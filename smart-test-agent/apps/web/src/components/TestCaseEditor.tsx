@@ -0,0 +1,491 @@
+/**
+ * Test Case Editor Component
+ * 审批阶段编辑测试用例：步骤、断言、选择器与数据步骤的增删改和排序
+ * @see Requirements 6.2
+ */
+
+import React, { useEffect } from 'react';
+import {
+  Modal,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  Switch,
+  Button,
+  Space,
+  Card,
+  Divider,
+  message,
+} from 'antd';
+import {
+  PlusOutlined,
+  DeleteOutlined,
+  ArrowUpOutlined,
+  ArrowDownOutlined,
+} from '@ant-design/icons';
+import type { EditableTestCaseInput } from '@smart-test-agent/server';
+import { trpc } from '../lib/trpc';
+
+const { TextArea } = Input;
+
+/**
+ * 可编辑的测试用例（test-cases.schema.json 中的 TestCase 结构）
+ */
+export interface EditableTestCase {
+  caseId: string;
+  requirementId: string;
+  route: string;
+  role?: string;
+  title: string;
+  precondition: string;
+  steps: Array<{
+    stepNumber?: number;
+    action: string;
+    selector?: string;
+    inputValue?: string;
+    expectedResult?: string;
+    screenshot?: boolean;
+  }>;
+  assertions: Array<{
+    assertionId: string;
+    type: string;
+    description: string;
+    expected: string;
+    visual?: { threshold?: number; pixelThreshold?: number; maskSelectors?: string[] };
+    api?: { method?: string; status?: number; maxLatencyMs?: number; jsonPath?: string; jsonValue?: unknown };
+  }>;
+  dataPreparation?: DataStep[];
+  dataCleanup?: DataStep[];
+}
+
+interface DataStep {
+  action: 'create' | 'update' | 'delete' | 'api_call';
+  target: string;
+  data?: Record<string, unknown>;
+  cleanup?: boolean;
+}
+
+interface TestCaseEditorProps {
+  runId: string;
+  open: boolean;
+  /** 编辑的用例；为空时新增用例 */
+  testCase?: EditableTestCase | null;
+  /** 新增用例时的默认需求 */
+  defaultRequirementId?: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const ASSERTION_TYPES = [
+  'element_visible',
+  'text_content',
+  'element_count',
+  'navigation',
+  'permission_denied',
+  'visual',
+  'api_response',
+  'soft',
+];
+
+const DATA_ACTIONS = ['create', 'update', 'delete', 'api_call'];
+
+/**
+ * 数据步骤的 data 字段在表单中以 JSON 文本编辑
+ */
+function toFormValues(testCase: EditableTestCase) {
+  const toFormDataStep = (step: DataStep) => ({
+    ...step,
+    data: step.data ? JSON.stringify(step.data, null, 2) : undefined,
+  });
+  return {
+    ...testCase,
+    assertions: testCase.assertions.map((assertion) => ({
+      ...assertion,
+      maskSelectors: assertion.visual?.maskSelectors?.join('\n'),
+      jsonValue: assertion.api?.jsonValue !== undefined ? JSON.stringify(assertion.api.jsonValue) : undefined,
+    })),
+    dataPreparation: testCase.dataPreparation?.map(toFormDataStep),
+    dataCleanup: testCase.dataCleanup?.map(toFormDataStep),
+  };
+}
+
+/**
+ * 表单值转换回 TestCase 结构
+ * @throws Error 数据步骤或 JSON 期望值不是合法 JSON 时
+ */
+function fromFormValues(values: any): Omit<EditableTestCaseInput, 'caseId'> & { caseId?: string } {
+  const parseJson = (text: string | undefined, label: string) => {
+    if (!text || !text.trim()) return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`${label} 不是合法的 JSON`);
+    }
+  };
+  const fromFormDataStep = (step: any, index: number) => ({
+    action: step.action,
+    target: step.target,
+    ...(step.data && { data: parseJson(step.data, `数据步骤 ${index + 1}`) }),
+    ...(step.cleanup !== undefined && { cleanup: step.cleanup }),
+  });
+
+  return {
+    caseId: values.caseId,
+    requirementId: values.requirementId,
+    route: values.route,
+    role: values.role || undefined,
+    title: values.title,
+    precondition: values.precondition ?? '',
+    steps: (values.steps ?? []).map((step: any) => ({
+      action: step.action,
+      selector: step.selector || undefined,
+      inputValue: step.inputValue || undefined,
+      expectedResult: step.expectedResult || undefined,
+      screenshot: step.screenshot || undefined,
+    })),
+    assertions: (values.assertions ?? []).map((assertion: any, index: number) => {
+      const maskSelectors = assertion.maskSelectors
+        ?.split('\n')
+        .map((selector: string) => selector.trim())
+        .filter(Boolean);
+      return {
+        assertionId: assertion.assertionId,
+        type: assertion.type,
+        description: assertion.description,
+        expected: assertion.expected ?? '',
+        ...(assertion.type === 'visual' && {
+          visual: {
+            threshold: assertion.visual?.threshold ?? undefined,
+            pixelThreshold: assertion.visual?.pixelThreshold ?? undefined,
+            maskSelectors: maskSelectors?.length ? maskSelectors : undefined,
+          },
+        }),
+        ...(assertion.type === 'api_response' && {
+          api: {
+            method: assertion.api?.method || undefined,
+            status: assertion.api?.status ?? undefined,
+            maxLatencyMs: assertion.api?.maxLatencyMs ?? undefined,
+            jsonPath: assertion.api?.jsonPath || undefined,
+            jsonValue: parseJson(assertion.jsonValue, `断言 ${index + 1} 的 JSON 值`),
+          },
+        }),
+      };
+    }),
+    dataPreparation: (values.dataPreparation ?? []).map(fromFormDataStep),
+    dataCleanup: (values.dataCleanup ?? []).map(fromFormDataStep),
+  };
+}
+
+/**
+ * 列表项的排序与删除按钮
+ */
+const ItemActions: React.FC<{
+  index: number;
+  count: number;
+  move: (from: number, to: number) => void;
+  remove: (index: number) => void;
+}> = ({ index, count, move, remove }) => (
+  <Space size={4}>
+    <Button size="small" icon={<ArrowUpOutlined />} disabled={index === 0} onClick={() => move(index, index - 1)} />
+    <Button size="small" icon={<ArrowDownOutlined />} disabled={index === count - 1} onClick={() => move(index, index + 1)} />
+    <Button size="small" danger icon={<DeleteOutlined />} onClick={() => remove(index)} />
+  </Space>
+);
+
+/**
+ * 数据准备 / 清理步骤列表
+ */
+const DataStepList: React.FC<{ name: string; label: string }> = ({ name, label }) => (
+  <Form.List name={name}>
+    {(fields, { add, remove, move }) => (
+      <>
+        <Divider orientation="left" plain>{label}</Divider>
+        {fields.map((field, index) => (
+          <Card
+            key={field.key}
+            size="small"
+            style={{ marginBottom: 8 }}
+            title={`${label} ${index + 1}`}
+            extra={<ItemActions index={index} count={fields.length} move={move} remove={remove} />}
+          >
+            <Space align="start" wrap>
+              <Form.Item name={[field.name, 'action']} label="操作" rules={[{ required: true, message: '请选择操作' }]}>
+                <Select style={{ width: 120 }} options={DATA_ACTIONS.map((value) => ({ value, label: value }))} />
+              </Form.Item>
+              <Form.Item name={[field.name, 'target']} label="目标" rules={[{ required: true, message: '请输入目标' }]}>
+                <Input style={{ width: 280 }} placeholder="实体或接口，如 POST /api/users" />
+              </Form.Item>
+              <Form.Item name={[field.name, 'cleanup']} label="清理" valuePropName="checked">
+                <Switch size="small" />
+              </Form.Item>
+            </Space>
+            <Form.Item name={[field.name, 'data']} label="数据 (JSON)">
+              <TextArea rows={2} placeholder='{"name": "test-user"}' />
+            </Form.Item>
+          </Card>
+        ))}
+        <Button type="dashed" block icon={<PlusOutlined />} onClick={() => add({ action: 'api_call', target: '' })}>
+          添加{label}
+        </Button>
+      </>
+    )}
+  </Form.List>
+);
+
+export const TestCaseEditor: React.FC<TestCaseEditorProps> = ({
+  runId,
+  open,
+  testCase,
+  defaultRequirementId,
+  onClose,
+  onSaved,
+}) => {
+  const [form] = Form.useForm();
+  const isNew = !testCase;
+
+  useEffect(() => {
+    if (!open) return;
+    form.resetFields();
+    form.setFieldsValue(
+      testCase
+        ? toFormValues(testCase)
+        : {
+            requirementId: defaultRequirementId,
+            route: '/',
+            precondition: '',
+            steps: [{ action: '' }],
+            assertions: [{ assertionId: 'AST-001', type: 'element_visible', description: '', expected: '' }],
+          }
+    );
+  }, [open, testCase, defaultRequirementId, form]);
+
+  const mutationOptions = {
+    onSuccess: () => {
+      message.success(isNew ? '测试用例已新增' : '测试用例已保存');
+      onSaved();
+      onClose();
+    },
+    onError: (error: { message: string }) => {
+      message.error(`保存失败: ${error.message}`);
+    },
+  };
+  const updateMutation = trpc.testRun.updateTestCase.useMutation(mutationOptions);
+  const addMutation = trpc.testRun.addTestCase.useMutation(mutationOptions);
+
+  const handleSave = async () => {
+    let edited: ReturnType<typeof fromFormValues>;
+    try {
+      edited = fromFormValues(await form.validateFields());
+    } catch (error) {
+      if (error instanceof Error) {
+        message.error(error.message);
+      }
+      return;
+    }
+
+    if (isNew) {
+      addMutation.mutate({ runId, testCase: edited, reviewerId: 'current-user' });
+    } else {
+      updateMutation.mutate({
+        runId,
+        testCase: { ...edited, caseId: testCase!.caseId },
+        reviewerId: 'current-user', // TODO: 从认证上下文获取
+      });
+    }
+  };
+
+  return (
+    <Modal
+      title={isNew ? '新增测试用例' : `编辑测试用例 ${testCase!.caseId}`}
+      open={open}
+      onCancel={onClose}
+      onOk={handleSave}
+      okText="保存"
+      cancelText="取消"
+      width={900}
+      confirmLoading={updateMutation.isLoading || addMutation.isLoading}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical" size="small">
+        <Space align="start" wrap>
+          <Form.Item name="requirementId" label="关联需求" rules={[{ required: true, message: '请输入需求 ID' }]}>
+            <Input style={{ width: 140 }} placeholder="REQ-001" />
+          </Form.Item>
+          <Form.Item
+            name="route"
+            label="测试路由"
+            rules={[{ required: true, pattern: /^\//, message: '路由需以 / 开头' }]}
+          >
+            <Input style={{ width: 240 }} placeholder="/users" />
+          </Form.Item>
+          <Form.Item name="role" label="执行角色">
+            <Input style={{ width: 140 }} placeholder="默认登录" />
+          </Form.Item>
+        </Space>
+        <Form.Item name="title" label="标题" rules={[{ required: true, message: '请输入标题' }]}>
+          <Input />
+        </Form.Item>
+        <Form.Item name="precondition" label="前置条件">
+          <TextArea rows={2} />
+        </Form.Item>
+
+        {/* 测试步骤 */}
+        <Form.List
+          name="steps"
+          rules={[{
+            validator: async (_, steps) => {
+              if (!steps || steps.length === 0) throw new Error('至少需要一个步骤');
+            },
+          }]}
+        >
+          {(fields, { add, remove, move }, { errors }) => (
+            <>
+              <Divider orientation="left" plain>测试步骤</Divider>
+              {fields.map((field, index) => (
+                <Card
+                  key={field.key}
+                  size="small"
+                  style={{ marginBottom: 8 }}
+                  title={`步骤 ${index + 1}`}
+                  extra={<ItemActions index={index} count={fields.length} move={move} remove={remove} />}
+                >
+                  <Space align="start" wrap>
+                    <Form.Item name={[field.name, 'action']} label="操作" rules={[{ required: true, message: '请输入操作' }]}>
+                      <Input style={{ width: 160 }} placeholder="click / fill / navigate" />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'selector']} label="选择器">
+                      <Input style={{ width: 300 }} placeholder='[data-testid="submit"]' />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'inputValue']} label="输入值">
+                      <Input style={{ width: 160 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'screenshot']} label="截图" valuePropName="checked">
+                      <Switch size="small" />
+                    </Form.Item>
+                  </Space>
+                  <Form.Item name={[field.name, 'expectedResult']} label="预期结果 / 说明">
+                    <Input />
+                  </Form.Item>
+                </Card>
+              ))}
+              <Form.ErrorList errors={errors} />
+              <Button type="dashed" block icon={<PlusOutlined />} onClick={() => add({ action: '' })}>
+                添加步骤
+              </Button>
+            </>
+          )}
+        </Form.List>
+
+        {/* 断言 */}
+        <Form.List
+          name="assertions"
+          rules={[{
+            validator: async (_, assertions) => {
+              if (!assertions || assertions.length === 0) throw new Error('至少需要一个断言');
+            },
+          }]}
+        >
+          {(fields, { add, remove, move }, { errors }) => (
+            <>
+              <Divider orientation="left" plain>断言</Divider>
+              {fields.map((field, index) => (
+                <Card
+                  key={field.key}
+                  size="small"
+                  style={{ marginBottom: 8 }}
+                  title={`断言 ${index + 1}`}
+                  extra={<ItemActions index={index} count={fields.length} move={move} remove={remove} />}
+                >
+                  <Space align="start" wrap>
+                    <Form.Item
+                      name={[field.name, 'assertionId']}
+                      label="断言 ID"
+                      rules={[{ required: true, pattern: /^(A|AST)-\d{3,}$/, message: '格式为 AST-001' }]}
+                    >
+                      <Input style={{ width: 100 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'type']} label="类型" rules={[{ required: true, message: '请选择类型' }]}>
+                      <Select style={{ width: 160 }} options={ASSERTION_TYPES.map((value) => ({ value, label: value }))} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'expected']} label="期望值 / 选择器">
+                      <Input style={{ width: 320 }} />
+                    </Form.Item>
+                  </Space>
+                  <Form.Item name={[field.name, 'description']} label="描述" rules={[{ required: true, message: '请输入描述' }]}>
+                    <Input />
+                  </Form.Item>
+                  <Form.Item noStyle shouldUpdate>
+                    {() => {
+                      const type = form.getFieldValue(['assertions', field.name, 'type']);
+                      if (type === 'visual') {
+                        return (
+                          <Space align="start" wrap>
+                            <Form.Item name={[field.name, 'visual', 'threshold']} label="差异像素比例">
+                              <InputNumber min={0} max={1} step={0.001} />
+                            </Form.Item>
+                            <Form.Item name={[field.name, 'visual', 'pixelThreshold']} label="像素色差阈值">
+                              <InputNumber min={0} max={1} step={0.05} />
+                            </Form.Item>
+                            <Form.Item name={[field.name, 'maskSelectors']} label="遮罩选择器（每行一个）">
+                              <TextArea rows={2} style={{ width: 300 }} />
+                            </Form.Item>
+                          </Space>
+                        );
+                      }
+                      if (type === 'api_response') {
+                        return (
+                          <Space align="start" wrap>
+                            <Form.Item name={[field.name, 'api', 'method']} label="方法">
+                              <Select
+                                allowClear
+                                style={{ width: 100 }}
+                                options={['GET', 'POST', 'PUT', 'DELETE', 'PATCH'].map((value) => ({ value, label: value }))}
+                              />
+                            </Form.Item>
+                            <Form.Item name={[field.name, 'api', 'status']} label="状态码">
+                              <InputNumber min={100} max={599} />
+                            </Form.Item>
+                            <Form.Item name={[field.name, 'api', 'maxLatencyMs']} label="最大耗时 (ms)">
+                              <InputNumber min={0} />
+                            </Form.Item>
+                            <Form.Item name={[field.name, 'api', 'jsonPath']} label="JSON 路径">
+                              <Input style={{ width: 160 }} placeholder="$.data.total" />
+                            </Form.Item>
+                            <Form.Item name={[field.name, 'jsonValue']} label="JSON 值">
+                              <Input style={{ width: 140 }} placeholder='3 或 "ok"' />
+                            </Form.Item>
+                          </Space>
+                        );
+                      }
+                      return null;
+                    }}
+                  </Form.Item>
+                </Card>
+              ))}
+              <Form.ErrorList errors={errors} />
+              <Button
+                type="dashed"
+                block
+                icon={<PlusOutlined />}
+                onClick={() => add({
+                  assertionId: `AST-${String(fields.length + 1).padStart(3, '0')}`,
+                  type: 'element_visible',
+                  description: '',
+                  expected: '',
+                })}
+              >
+                添加断言
+              </Button>
+            </>
+          )}
+        </Form.List>
+
+        <DataStepList name="dataPreparation" label="数据准备" />
+        <DataStepList name="dataCleanup" label="数据清理" />
+      </Form>
+    </Modal>
+  );
+};
+
+export default TestCaseEditor;
@@ -1,10 +1,10 @@
 /**
  * Test Case List Component
- * 显示测试用例列表，支持展开查看详情
- * @see Requirements 2.1, 2.2, 2.3, 2.4
+ * 显示测试用例列表，支持展开查看详情；审批阶段可编辑、新增和删除用例
+ * @see Requirements 2.1, 2.2, 2.3, 2.4, 6.2, 6.3
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Collapse,
   Tag,
@@ -15,12 +15,22 @@ import {
   Empty,
   Descriptions,
   Badge,
+  Button,
+  Popconfirm,
+  Tooltip,
+  message,
 } from 'antd';
 import {
   PlayCircleOutlined,
   CheckCircleOutlined,
   ExclamationCircleOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  PlusOutlined,
 } from '@ant-design/icons';
+import { trpc } from '../lib/trpc';
+import { TestCaseEditor, type EditableTestCase } from './TestCaseEditor';
+import type { CaseApprovalStatus } from '@smart-test-agent/shared';
 
 const { Text } = Typography;
 const { Panel } = Collapse;
@@ -45,6 +55,7 @@ interface TestCase {
   case_id: string;
   requirement_id: string;
   route?: string;
+  role?: string;
   title: string;
   precondition?: string;
   steps: TestStep[];
@@ -64,6 +75,12 @@ interface TestCaseListProps {
   testCases?: TestCaseQueryResult;
   selectedRequirement?: string | null;
   loading?: boolean;
+  /** 运行 ID，编辑用例时必填 */
+  runId?: string;
+  /** 是否可编辑（仅 awaiting_approval 状态） */
+  editable?: boolean;
+  /** 用例被修改后回调，用于刷新列表 */
+  onChange?: () => void;
 }
 
 /**
@@ -101,6 +118,12 @@ function getAssertionTypeColor(type: string): string {
       return 'purple';
     case 'navigation':
       return 'orange';
+    case 'permission_denied':
+      return 'red';
+    case 'visual':
+      return 'magenta';
+    case 'api_response':
+      return 'geekblue';
     case 'soft':
       return 'cyan';
     default:
@@ -123,6 +146,11 @@ const TestCaseDetail: React.FC<{ testCase: TestCase }> = ({ testCase }) => {
             <Text code>{testCase.route}</Text>
           </Descriptions.Item>
         )}
+        {testCase.role && (
+          <Descriptions.Item label="执行角色">
+            <Tag color="gold">{testCase.role}</Tag>
+          </Descriptions.Item>
+        )}
         {testCase.precondition && (
           <Descriptions.Item label="前置条件">
             {testCase.precondition}
@@ -230,13 +258,109 @@ const TestCaseDetail: React.FC<{ testCase: TestCase }> = ({ testCase }) => {
   );
 };
 
+/**
+ * 逐条审批状态配置
+ */
+const caseApprovalStatusConfig: Record<CaseApprovalStatus, { color: string; label: string }> = {
+  pending: { color: 'default', label: '待审批' },
+  approved: { color: 'green', label: '已通过' },
+  rejected: { color: 'red', label: '已驳回' },
+  executed: { color: 'purple', label: '已执行' },
+};
+
+/**
+ * 逐条审批状态标签，驳回的用例悬停显示反馈
+ */
+const CaseApprovalTag: React.FC<{ approval?: { status: CaseApprovalStatus; feedback: string | null } }> = ({
+  approval,
+}) => {
+  if (!approval) {
+    return null;
+  }
+  const config = caseApprovalStatusConfig[approval.status];
+  return (
+    <Tooltip title={approval.feedback ?? undefined}>
+      <Tag color={config.color}>{config.label}</Tag>
+    </Tooltip>
+  );
+};
+
 export const TestCaseList: React.FC<TestCaseListProps> = ({
   testCases,
   selectedRequirement,
   loading,
+  runId,
+  editable = false,
+  onChange,
 }) => {
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingCase, setEditingCase] = useState<EditableTestCase | null>(null);
+  const canEdit = editable && !!runId;
+
+  // 编辑使用 TestCase 结构的数据
+  const { data: editableCases, refetch: refetchEditable } = trpc.testRun.getEditableTestCases.useQuery(
+    { runId: runId! },
+    { enabled: canEdit }
+  );
+
+  // 逐条审批状态（未逐条审批的运行没有记录）
+  const { data: caseApprovals } = trpc.testRun.getCaseApprovals.useQuery(
+    { runId: runId! },
+    { enabled: !!runId }
+  );
+  const approvalById = new Map((caseApprovals ?? []).map((approval) => [approval.caseId, approval]));
+
+  const deleteMutation = trpc.testRun.deleteTestCase.useMutation({
+    onSuccess: () => {
+      message.success('测试用例已删除');
+      handleSaved();
+    },
+    onError: (error) => {
+      message.error(`删除失败: ${error.message}`);
+    },
+  });
+
+  function handleSaved() {
+    refetchEditable();
+    onChange?.();
+  }
+
+  const openEditor = (caseId: string | null) => {
+    const found = caseId
+      ? editableCases?.testCases.find((tc) => tc.caseId === caseId)
+      : null;
+    if (caseId && !found) {
+      message.warning(`未找到测试用例 ${caseId}`);
+      return;
+    }
+    setEditingCase((found as EditableTestCase | undefined) ?? null);
+    setEditorOpen(true);
+  };
+
+  const editor = canEdit && (
+    <TestCaseEditor
+      runId={runId!}
+      open={editorOpen}
+      testCase={editingCase}
+      defaultRequirementId={selectedRequirement ?? undefined}
+      onClose={() => setEditorOpen(false)}
+      onSaved={handleSaved}
+    />
+  );
+
+  const addButton = canEdit && (
+    <Button size="small" icon={<PlusOutlined />} onClick={() => openEditor(null)}>
+      新增用例
+    </Button>
+  );
+
   if (!testCases || testCases.testCases.length === 0) {
-    return <Empty description="暂无测试用例数据" />;
+    return (
+      <>
+        <Empty description="暂无测试用例数据">{addButton}</Empty>
+        {editor}
+      </>
+    );
   }
 
   // 根据选择的需求筛选测试用例
@@ -266,6 +390,7 @@ export const TestCaseList: React.FC<TestCaseListProps> = ({
               共 {testCases.total} 个用例，覆盖 {Object.keys(testCases.byRequirement).length} 个需求
             </Text>
           )}
+          {addButton}
         </Space>
       </div>
 
@@ -279,18 +404,37 @@ export const TestCaseList: React.FC<TestCaseListProps> = ({
                 <Text strong>{tc.case_id}</Text>
                 <Text>{tc.title}</Text>
                 <Tag color="blue">{tc.requirement_id}</Tag>
+                {tc.role && <Tag color="gold">{tc.role}</Tag>}
                 <Tag>{tc.steps.length} 步骤</Tag>
                 <Tag>{tc.assertions.length} 断言</Tag>
                 {tc.tags?.map((tag) => (
                   <Tag key={tag} style={{ fontSize: 11 }}>{tag}</Tag>
                 ))}
+                <CaseApprovalTag approval={approvalById.get(tc.case_id)} />
               </Space>
             }
+            extra={canEdit && approvalById.get(tc.case_id)?.status !== 'executed' && (
+              <Space size={4} onClick={(e) => e.stopPropagation()}>
+                <Button size="small" type="text" icon={<EditOutlined />} onClick={() => openEditor(tc.case_id)}>
+                  编辑
+                </Button>
+                <Popconfirm
+                  title={`删除测试用例 ${tc.case_id}？`}
+                  okText="删除"
+                  cancelText="取消"
+                  okButtonProps={{ danger: true, loading: deleteMutation.isLoading }}
+                  onConfirm={() => deleteMutation.mutate({ runId: runId!, caseId: tc.case_id, reviewerId: 'current-user' })}
+                >
+                  <Button size="small" type="text" danger icon={<DeleteOutlined />} />
+                </Popconfirm>
+              </Space>
+            )}
           >
             <TestCaseDetail testCase={tc} />
           </Panel>
         ))}
       </Collapse>
+      {editor}
     </div>
   );
 };
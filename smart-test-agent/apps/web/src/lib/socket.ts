@@ -67,6 +67,8 @@ export const SocketEvents = {
   STEP_SCREENSHOT: 'step_screenshot',
   PROGRESS_UPDATE: 'progress_update',
   CLI_LOG: 'cli_log',
+  STEP_RETRY: 'step_retry',
+  REVIEW_REMINDER: 'review:reminder',
   ERROR: 'error',
   JOINED_RUN: 'joined-run',
 } as const;
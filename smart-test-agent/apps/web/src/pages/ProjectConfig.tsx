@@ -23,10 +23,126 @@ import {
 import { UploadOutlined } from '@ant-design/icons';
 import { useParams, useNavigate } from 'react-router-dom';
 import { trpc } from '../lib/trpc';
+import { EnvironmentManager } from '../components/EnvironmentManager';
 import type { UploadFile, UploadProps } from 'antd/es/upload/interface';
+import type { RoutingConvention } from '@smart-test-agent/shared';
 
 const { Title, Text } = Typography;
 
+/**
+ * 操作类型选项
+ */
+const OPERATION_OPTIONS = [
+  { value: 'query', label: '查询' },
+  { value: 'view_detail', label: '查看详情' },
+  { value: 'search', label: '搜索' },
+  { value: 'filter', label: '筛选' },
+  { value: 'paginate', label: '分页' },
+  { value: 'create', label: '创建' },
+  { value: 'edit', label: '编辑' },
+  { value: 'delete', label: '删除' },
+];
+
+/**
+ * 项目可额外启用 / 禁用的内置 pipeline 步骤
+ * 其余步骤为必需步骤，或是后续步骤的输入来源，不能单独禁用
+ */
+const ENABLE_STEP_OPTIONS = [{ value: 'a11y_audit', label: '无障碍审计' }];
+const DISABLE_STEP_OPTIONS = [
+  { value: 'report_generation', label: '报告生成' },
+  { value: 'quality_gate', label: '质量门检查' },
+];
+
+/**
+ * 整理 pipeline 步骤配置：都未选择时不保存
+ */
+function normalizePipelineSteps(steps: { enable?: string[]; disable?: string[] } | undefined) {
+  if (!steps?.enable?.length && !steps?.disable?.length) {
+    return undefined;
+  }
+  return { enable: steps.enable ?? [], disable: steps.disable ?? [] };
+}
+
+/**
+ * 步骤失败后按错误类别重试，数值为最大执行次数（含首次，1 表示不重试）
+ * 未填写的类别使用默认值
+ */
+const RETRY_CATEGORIES = [
+  { key: 'ai_agent', label: 'AI Agent 错误', defaultAttempts: 3 },
+  { key: 'network', label: '网络错误', defaultAttempts: 3 },
+  { key: 'timeout', label: '超时', defaultAttempts: 3 },
+  { key: 'playwright', label: 'Playwright 错误', defaultAttempts: 2 },
+  { key: 'internal', label: '内部错误', defaultAttempts: 2 },
+  { key: 'validation', label: '校验错误', defaultAttempts: 1 },
+] as const;
+
+/**
+ * 整理重试次数配置：只保存填写了的类别，都未填写时不保存
+ */
+function normalizeRetryBudgets(budgets: Record<string, number | null | undefined> | undefined) {
+  const entries = Object.entries(budgets ?? {}).filter(([, value]) => typeof value === 'number');
+  return entries.length > 0 ? (Object.fromEntries(entries) as Record<string, number>) : undefined;
+}
+
+/**
+ * 整理审批时限配置：未填写的时限使用默认值（审批 24 小时、确认 48 小时、提前 2 小时提醒），都未填写时不保存
+ */
+function normalizeReviewPolicy(policy: Record<string, number | boolean | null | undefined> | undefined) {
+  const entries = Object.entries(policy ?? {}).filter(
+    ([, value]) => typeof value === 'number' || value === true
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * 无路由文件的框架按页面目录约定发现路由
+ */
+const ROUTING_CONVENTION_OPTIONS = [
+  { value: 'next-app', label: 'Next.js App Router（app/）' },
+  { value: 'next-pages', label: 'Next.js Pages Router（pages/）' },
+  { value: 'nuxt', label: 'Nuxt（pages/）' },
+  { value: 'umi', label: 'umi 约定式路由（src/pages/）' },
+];
+
+/**
+ * 整理前端源码目录配置：未填写的项不保存
+ */
+function normalizeSourceCheckout(
+  sourceCode: { frontendRoot?: string; routerFile?: string } | undefined
+): { frontendRoot?: string; routerFile?: string } {
+  return {
+    frontendRoot: sourceCode?.frontendRoot?.trim() || undefined,
+    routerFile: sourceCode?.routerFile?.trim() || undefined,
+  };
+}
+
+/**
+ * 整理文件系统路由配置：未选择路由约定时不保存页面目录
+ */
+function normalizeFileSystemRouting(
+  sourceCode: { routingConvention?: RoutingConvention; pageDir?: string } | undefined
+): { routingConvention?: RoutingConvention; pageDir?: string } {
+  if (!sourceCode?.routingConvention) {
+    return {};
+  }
+  return { routingConvention: sourceCode.routingConvention, pageDir: sourceCode.pageDir?.trim() };
+}
+
+/**
+ * 整理角色配置：未填写的凭证和操作列表继承登录配置和测试范围
+ */
+function normalizeRoles(roles: any[] | undefined) {
+  return (roles ?? []).map((role) => ({
+    name: role.name,
+    description: role.description || undefined,
+    credentials: role.credentials?.username
+      ? { username: role.credentials.username, password: role.credentials.password ?? '' }
+      : undefined,
+    allowedOperations: role.allowedOperations?.length ? role.allowedOperations : undefined,
+    deniedOperations: role.deniedOperations?.length ? role.deniedOperations : undefined,
+  }));
+}
+
 /**
  * Project configuration page component
  */
@@ -34,6 +150,9 @@ export const ProjectConfig: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
   const [form] = Form.useForm();
+  const loginStrategy = Form.useWatch(['login', 'strategy'], form) ?? 'form';
+  const isFormLogin = loginStrategy === 'form';
+  const needsLoginPage = isFormLogin || loginStrategy === 'scripted';
 
   // State for uploaded file paths (source code config)
   const [routeFiles, setRouteFiles] = useState<string[]>([]);
@@ -95,10 +214,33 @@ export const ProjectConfig: React.FC = () => {
         allowedOperations: profile.allowedOperations,
         uiFramework: profile.uiFramework,
         antdQuirks: profile.antdQuirks,
+        roles: profile.roles ?? [],
+        pipelineSteps: profile.pipelineSteps ?? {},
+        retryBudgets: profile.retryBudgets ?? {},
+        reviewPolicy: profile.reviewPolicy ?? {},
       });
 
       // Load uploaded file paths from sourceCode (new format)
-      const sc = profile.sourceCode as { routeFiles?: string[]; pageFiles?: string[] } | undefined;
+      const sc = profile.sourceCode as
+        | {
+            routeFiles?: string[];
+            pageFiles?: string[];
+            frontendRoot?: string;
+            routerFile?: string;
+            routingConvention?: string;
+            pageDir?: string;
+            openApiFile?: string;
+          }
+        | undefined;
+      form.setFieldsValue({
+        sourceCode: {
+          frontendRoot: sc?.frontendRoot,
+          routerFile: sc?.routerFile,
+          routingConvention: sc?.routingConvention,
+          pageDir: sc?.pageDir,
+          openApiFile: sc?.openApiFile,
+        },
+      });
       if (sc?.routeFiles) {
         setRouteFiles(sc.routeFiles);
         setRouteFileList(
@@ -133,9 +275,19 @@ export const ProjectConfig: React.FC = () => {
       allowedRoutes: [values.testRoute],
       allowedOperations: values.allowedOperations,
       deniedOperations: [],
-      sourceCode: { routeFiles, pageFiles },
+      sourceCode: {
+        routeFiles,
+        pageFiles,
+        ...normalizeSourceCheckout(values.sourceCode),
+        ...normalizeFileSystemRouting(values.sourceCode),
+        openApiFile: values.sourceCode?.openApiFile?.trim() || undefined,
+      },
       uiFramework: values.uiFramework,
       antdQuirks: values.uiFramework === 'antd' ? values.antdQuirks : undefined,
+      roles: normalizeRoles(values.roles),
+      pipelineSteps: normalizePipelineSteps(values.pipelineSteps),
+      retryBudgets: normalizeRetryBudgets(values.retryBudgets),
+      reviewPolicy: normalizeReviewPolicy(values.reviewPolicy),
     };
 
     upsertMutation.mutate(data);
@@ -152,9 +304,19 @@ export const ProjectConfig: React.FC = () => {
         allowedRoutes: [values.testRoute],
         allowedOperations: values.allowedOperations,
         deniedOperations: [],
-        sourceCode: { routeFiles, pageFiles },
+        sourceCode: {
+          routeFiles,
+          pageFiles,
+          ...normalizeSourceCheckout(values.sourceCode),
+          ...normalizeFileSystemRouting(values.sourceCode),
+          openApiFile: values.sourceCode?.openApiFile?.trim() || undefined,
+        },
         uiFramework: values.uiFramework,
         antdQuirks: values.uiFramework === 'antd' ? values.antdQuirks : undefined,
+        roles: normalizeRoles(values.roles),
+        pipelineSteps: normalizePipelineSteps(values.pipelineSteps),
+        retryBudgets: normalizeRetryBudgets(values.retryBudgets),
+        reviewPolicy: normalizeReviewPolicy(values.reviewPolicy),
       };
       validateMutation.mutate(data);
     } catch (error) {
@@ -225,10 +387,12 @@ export const ProjectConfig: React.FC = () => {
             viewport: { width: 1920, height: 1080 },
             locale: 'zh-CN',
             timeoutMs: 30000,
+            workers: 1,
             headless: true,
             slowMo: 0,
           },
           login: {
+            strategy: 'form',
             loginUrl: '/#/login',
             usernameSelector: "input[placeholder='请输入用户名']",
             passwordSelector: "input[placeholder='请输入密码']",
@@ -277,6 +441,13 @@ export const ProjectConfig: React.FC = () => {
             <Form.Item name={['browser', 'timeoutMs']} label="超时时间 (ms)">
               <InputNumber min={1000} max={120000} step={1000} />
             </Form.Item>
+            <Form.Item
+              name={['browser', 'workers']}
+              label="并行 Worker 数"
+              tooltip="本地执行模式下并行运行的浏览器上下文数量，包含写操作的用例会按数据依赖串行执行"
+            >
+              <InputNumber min={1} max={16} />
+            </Form.Item>
           </Space>
           <Form.Item name={['browser', 'locale']} label="语言区域">
             <Input placeholder="zh-CN" />
@@ -305,14 +476,28 @@ export const ProjectConfig: React.FC = () => {
         </Card>
 
         <Card title="登录配置" style={{ marginBottom: 16 }}>
+          <Form.Item
+            name={['login', 'strategy']}
+            label="认证方式"
+            tooltip="登录会话在每次运行中只建立一次，并缓存到工作目录供所有 Worker 复用"
+          >
+            <Select>
+              <Select.Option value="form">表单登录</Select.Option>
+              <Select.Option value="storage_state">Storage State 文件</Select.Option>
+              <Select.Option value="cookies">注入 Cookie</Select.Option>
+              <Select.Option value="bearer_token">Bearer Token</Select.Option>
+              <Select.Option value="scripted">多步骤脚本登录</Select.Option>
+            </Select>
+          </Form.Item>
           <Form.Item
             name={['login', 'loginUrl']}
             label="登录页面 URL"
-            rules={[{ required: true, message: '请输入登录页面 URL' }]}
+            hidden={!needsLoginPage}
+            rules={[{ required: needsLoginPage, message: '请输入登录页面 URL' }]}
           >
             <Input placeholder="/#/login" />
           </Form.Item>
-          <div style={{ display: 'flex', gap: 16 }}>
+          <div style={{ display: isFormLogin ? 'flex' : 'none', gap: 16 }}>
             <Form.Item name={['login', 'usernameSelector']} label="用户名选择器" style={{ flex: 1 }}>
               <Input placeholder="input[placeholder='请输入用户名']" />
             </Form.Item>
@@ -323,7 +508,7 @@ export const ProjectConfig: React.FC = () => {
               <Input placeholder="button:has-text('登录')" />
             </Form.Item>
           </div>
-          <div style={{ display: 'flex', gap: 16 }}>
+          <div style={{ display: isFormLogin ? 'flex' : 'none', gap: 16 }}>
             <Form.Item name={['login', 'credentials', 'username']} label="用户名" style={{ flex: 1 }}>
               <Input placeholder="$TEST_USERNAME" />
             </Form.Item>
@@ -331,6 +516,97 @@ export const ProjectConfig: React.FC = () => {
               <Input.Password placeholder="$TEST_PASSWORD" />
             </Form.Item>
           </div>
+          <Form.Item
+            name={['login', 'storageStatePath']}
+            label="Storage State 文件路径"
+            hidden={loginStrategy !== 'storage_state'}
+            tooltip="Playwright storageState 导出的 JSON 文件，相对路径按服务端工作目录解析"
+            rules={[{ required: loginStrategy === 'storage_state', message: '请输入 Storage State 文件路径' }]}
+          >
+            <Input placeholder="auth/admin.json" />
+          </Form.Item>
+          <div style={{ display: loginStrategy === 'cookies' ? 'block' : 'none' }}>
+            <Form.List name={['login', 'cookies']}>
+              {(fields, { add, remove }) => (
+                <>
+                  {fields.map((field) => (
+                    <Space key={field.key} align="baseline">
+                      <Form.Item name={[field.name, 'name']} label="名称">
+                        <Input placeholder="SESSION" />
+                      </Form.Item>
+                      <Form.Item name={[field.name, 'value']} label="值">
+                        <Input placeholder="$TEST_SESSION_COOKIE" />
+                      </Form.Item>
+                      <Form.Item name={[field.name, 'domain']} label="域名">
+                        <Input placeholder="默认为目标 URL" />
+                      </Form.Item>
+                      <Button type="link" danger onClick={() => remove(field.name)}>
+                        删除
+                      </Button>
+                    </Space>
+                  ))}
+                  <Form.Item>
+                    <Button type="dashed" onClick={() => add({ name: '', value: '' })}>
+                      添加 Cookie
+                    </Button>
+                  </Form.Item>
+                </>
+              )}
+            </Form.List>
+          </div>
+          <div style={{ display: loginStrategy === 'bearer_token' ? 'flex' : 'none', gap: 16 }}>
+            <Form.Item
+              name={['login', 'bearerToken']}
+              label="Token"
+              style={{ flex: 2 }}
+              rules={[{ required: loginStrategy === 'bearer_token', message: '请输入 Token' }]}
+            >
+              <Input.Password placeholder="$TEST_API_TOKEN" />
+            </Form.Item>
+            <Form.Item name={['login', 'tokenHeader']} label="请求头" style={{ flex: 1 }}>
+              <Input placeholder="Authorization" />
+            </Form.Item>
+          </div>
+          <div style={{ display: loginStrategy === 'scripted' ? 'block' : 'none' }}>
+            <Form.List name={['login', 'steps']}>
+              {(fields, { add, remove }) => (
+                <>
+                  {fields.map((field, index) => (
+                    <Space key={field.key} align="baseline">
+                      <Text type="secondary">{index + 1}.</Text>
+                      <Form.Item name={[field.name, 'action']}>
+                        <Select style={{ width: 120 }}>
+                          <Select.Option value="goto">跳转</Select.Option>
+                          <Select.Option value="fill">填写</Select.Option>
+                          <Select.Option value="click">点击</Select.Option>
+                          <Select.Option value="select">选择</Select.Option>
+                          <Select.Option value="wait">等待</Select.Option>
+                          <Select.Option value="totp">TOTP 验证码</Select.Option>
+                        </Select>
+                      </Form.Item>
+                      <Form.Item name={[field.name, 'selector']}>
+                        <Input placeholder="选择器" />
+                      </Form.Item>
+                      <Form.Item name={[field.name, 'value']}>
+                        <Input placeholder="值，支持 $ENV_VAR" />
+                      </Form.Item>
+                      <Button type="link" danger onClick={() => remove(field.name)}>
+                        删除
+                      </Button>
+                    </Space>
+                  ))}
+                  <Form.Item>
+                    <Button type="dashed" onClick={() => add({ action: 'fill' })}>
+                      添加登录步骤
+                    </Button>
+                  </Form.Item>
+                </>
+              )}
+            </Form.List>
+            <Form.Item name={['login', 'totpSecret']} label="TOTP 密钥" tooltip="Base32 编码的密钥，支持 $ENV_VAR">
+              <Input.Password placeholder="$TEST_TOTP_SECRET" />
+            </Form.Item>
+          </div>
           <Form.Item name={['login', 'successIndicator']} label="登录成功标识">
             <Input placeholder="/#/myWorkSatp" />
           </Form.Item>
@@ -345,19 +621,62 @@ export const ProjectConfig: React.FC = () => {
             <Input placeholder="/dashboard" />
           </Form.Item>
           <Form.Item name="allowedOperations" label="允许的操作类型">
-            <Select mode="multiple">
-              <Select.Option value="query">查询</Select.Option>
-              <Select.Option value="view_detail">查看详情</Select.Option>
-              <Select.Option value="search">搜索</Select.Option>
-              <Select.Option value="filter">筛选</Select.Option>
-              <Select.Option value="paginate">分页</Select.Option>
-              <Select.Option value="create">创建</Select.Option>
-              <Select.Option value="edit">编辑</Select.Option>
-              <Select.Option value="delete">删除</Select.Option>
-            </Select>
+            <Select mode="multiple" options={OPERATION_OPTIONS} />
           </Form.Item>
         </Card>
 
+        <Card title="用户角色" style={{ marginBottom: 16 }}>
+          <Text type="secondary">
+            为管理员、只读用户等角色配置独立的登录凭证和权限，测试用例可指定以某个角色执行，并用 permission_denied 断言验证无权操作
+          </Text>
+          <Form.List name="roles">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <div key={field.key} style={{ marginTop: 16 }}>
+                    <Space align="baseline" wrap>
+                      <Form.Item
+                        name={[field.name, 'name']}
+                        rules={[
+                          { required: true, message: '请输入角色名' },
+                          { pattern: /^[a-z0-9][a-z0-9_-]{0,31}$/, message: '仅支持小写字母、数字、- 和 _' },
+                        ]}
+                      >
+                        <Input placeholder="角色名，如 viewer" />
+                      </Form.Item>
+                      <Form.Item name={[field.name, 'description']}>
+                        <Input placeholder="描述" />
+                      </Form.Item>
+                      <Form.Item name={[field.name, 'credentials', 'username']}>
+                        <Input placeholder="$VIEWER_USERNAME" />
+                      </Form.Item>
+                      <Form.Item name={[field.name, 'credentials', 'password']}>
+                        <Input.Password placeholder="$VIEWER_PASSWORD" />
+                      </Form.Item>
+                      <Button type="link" danger onClick={() => remove(field.name)}>
+                        删除
+                      </Button>
+                    </Space>
+                    <Space align="baseline" wrap>
+                      <Form.Item name={[field.name, 'allowedOperations']} label="允许">
+                        <Select mode="multiple" options={OPERATION_OPTIONS} placeholder="继承测试范围" style={{ minWidth: 240 }} />
+                      </Form.Item>
+                      <Form.Item name={[field.name, 'deniedOperations']} label="禁止">
+                        <Select mode="multiple" options={OPERATION_OPTIONS} style={{ minWidth: 240 }} />
+                      </Form.Item>
+                    </Space>
+                  </div>
+                ))}
+                <Form.Item style={{ marginTop: 16 }}>
+                  <Button type="dashed" onClick={() => add()}>
+                    添加角色
+                  </Button>
+                </Form.Item>
+              </>
+            )}
+          </Form.List>
+        </Card>
+
         <Card title="源码配置" style={{ marginBottom: 16 }}>
           <Form.Item label="路由/菜单文件（最多 2 个）">
             <Upload
@@ -384,6 +703,59 @@ export const ProjectConfig: React.FC = () => {
               <Button icon={<UploadOutlined />}>上传页面文件</Button>
             </Upload>
           </Form.Item>
+          <Divider plain>前端源码目录</Divider>
+          <Text type="secondary">
+            填写服务器上的前端源码目录和其中的路由文件后，将解析被测页面的按钮、表单项和表格列，用于校验用例步骤中的选择器
+          </Text>
+          <Space align="baseline" wrap style={{ marginTop: 16 }}>
+            <Form.Item
+              name={['sourceCode', 'frontendRoot']}
+              label="源码目录"
+              dependencies={[['sourceCode', 'routerFile']]}
+              rules={[
+                ({ getFieldValue }) => ({
+                  required: !!getFieldValue(['sourceCode', 'routerFile'])?.trim(),
+                  message: '请输入源码目录',
+                }),
+              ]}
+            >
+              <Input placeholder="/workspace/web" style={{ minWidth: 320 }} />
+            </Form.Item>
+            <Form.Item name={['sourceCode', 'routerFile']} label="路由文件" extra="相对源码目录的路径">
+              <Input placeholder="src/router/index.ts" style={{ minWidth: 280 }} />
+            </Form.Item>
+          </Space>
+          <Divider plain>文件系统路由</Divider>
+          <Text type="secondary">
+            Next.js、Nuxt、umi 等没有路由文件的项目，选择路由约定并填写页面目录后，将遍历目录发现路由（含动态路由、布局和路由分组）
+          </Text>
+          <Space align="baseline" wrap style={{ marginTop: 16 }}>
+            <Form.Item name={['sourceCode', 'routingConvention']} label="路由约定">
+              <Select allowClear options={ROUTING_CONVENTION_OPTIONS} placeholder="使用路由文件" style={{ minWidth: 280 }} />
+            </Form.Item>
+            <Form.Item
+              name={['sourceCode', 'pageDir']}
+              label="页面目录"
+              dependencies={[['sourceCode', 'routingConvention']]}
+              rules={[
+                ({ getFieldValue }) => ({
+                  required: !!getFieldValue(['sourceCode', 'routingConvention']),
+                  message: '请输入页面目录',
+                }),
+              ]}
+            >
+              <Input placeholder="/workspace/web/src/pages" style={{ minWidth: 320 }} />
+            </Form.Item>
+          </Space>
+          <Divider plain>后端接口文档</Divider>
+          <Form.Item
+            name={['sourceCode', 'openApiFile']}
+            label="OpenAPI / Swagger 文档"
+            extra="JSON 格式，用于补全接口的请求体必填字段和返回结构，生成数据准备与清理代码"
+            rules={[{ pattern: /\.json$/i, message: '仅支持 JSON 格式的文档' }]}
+          >
+            <Input placeholder="/workspace/server/openapi.json" style={{ maxWidth: 480 }} />
+          </Form.Item>
         </Card>
 
         <Form.Item noStyle shouldUpdate={(prev, curr) => prev.uiFramework !== curr.uiFramework}>
@@ -407,6 +779,57 @@ export const ProjectConfig: React.FC = () => {
           }
         </Form.Item>
 
+        <Card title="Pipeline 步骤" style={{ marginBottom: 16 }}>
+          <Form.Item
+            name={['pipelineSteps', 'enable']}
+            label="额外启用"
+            extra="对项目的每次运行启用（创建运行时也可以单独开启无障碍审计）"
+          >
+            <Select mode="multiple" allowClear options={ENABLE_STEP_OPTIONS} placeholder="默认不启用" />
+          </Form.Item>
+          <Form.Item name={['pipelineSteps', 'disable']} label="禁用">
+            <Select mode="multiple" allowClear options={DISABLE_STEP_OPTIONS} placeholder="默认全部执行" />
+          </Form.Item>
+        </Card>
+
+        <Card title="失败重试" style={{ marginBottom: 16 }}>
+          <Text type="secondary" style={{ display: 'block', marginBottom: 12 }}>
+            步骤失败后按错误类别重试，填写最大执行次数（含首次执行，1 表示不重试）。重试次数用完后运行以 retry_exhausted 失败。
+          </Text>
+          <Space wrap>
+            {RETRY_CATEGORIES.map((category) => (
+              <Form.Item key={category.key} name={['retryBudgets', category.key]} label={category.label}>
+                <InputNumber min={1} max={10} placeholder={String(category.defaultAttempts)} />
+              </Form.Item>
+            ))}
+          </Space>
+        </Card>
+
+        <Card title="审批时限" style={{ marginBottom: 16 }}>
+          <Text type="secondary" style={{ display: 'block', marginBottom: 12 }}>
+            超过时限未审批的运行以 approval_timeout 失败，未确认的报告以 confirm_timeout 失败；截止前按设定时间提醒审批人（0 表示不提醒）。
+          </Text>
+          <Space wrap>
+            <Form.Item name={['reviewPolicy', 'approvalTimeoutHours']} label="审批时限（小时）">
+              <InputNumber min={0.1} max={720} placeholder="24" />
+            </Form.Item>
+            <Form.Item name={['reviewPolicy', 'confirmationTimeoutHours']} label="确认时限（小时）">
+              <InputNumber min={0.1} max={720} placeholder="48" />
+            </Form.Item>
+            <Form.Item name={['reviewPolicy', 'reminderLeadHours']} label="提前提醒（小时）">
+              <InputNumber min={0} max={720} placeholder="2" />
+            </Form.Item>
+          </Space>
+          <Form.Item
+            name={['reviewPolicy', 'autoApproveReadOnly']}
+            label="超时自动批准只读运行"
+            valuePropName="checked"
+            extra="仅当测试范围和所有角色都只包含查询、查看详情、搜索、筛选、分页操作时生效"
+          >
+            <Switch />
+          </Form.Item>
+        </Card>
+
         <Divider />
 
         <Form.Item>
@@ -424,6 +847,8 @@ export const ProjectConfig: React.FC = () => {
           </Space>
         </Form.Item>
       </Form>
+
+      {profile && <EnvironmentManager projectId={projectId!} baseUrl={profile.baseUrl} />}
     </div>
   );
 };
@@ -4,7 +4,7 @@
  * @see Requirements 17.4
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Card,
   Table,
@@ -17,12 +17,18 @@ import {
   Alert,
   Spin,
   Progress,
+  Select,
+  Button,
+  Popconfirm,
+  Space,
+  message,
 } from 'antd';
 import {
   CheckCircleOutlined,
   CloseCircleOutlined,
   WarningOutlined,
   InfoCircleOutlined,
+  PictureOutlined,
 } from '@ant-design/icons';
 import { useParams } from 'react-router-dom';
 import { trpc } from '../lib/trpc';
@@ -49,6 +55,16 @@ const severityIcons: Record<string, React.ReactNode> = {
   suggestion: <InfoCircleOutlined />,
 };
 
+/**
+ * Quality metric titles
+ */
+const metricTitles: Record<string, string> = {
+  RC: '需求覆盖率',
+  APR: '断言通过率',
+  FR: '不稳定率',
+  A11Y: '无障碍通过率',
+};
+
 /**
  * Report view page component
  */
@@ -67,6 +83,38 @@ export const ReportView: React.FC = () => {
     { enabled: !!runId }
   );
 
+  // Fetch run for project and environment
+  const { data: run } = trpc.testRun.getById.useQuery(
+    { id: runId! },
+    { enabled: !!runId }
+  );
+
+  // Quality history of the project, optionally filtered by environment
+  const [historyEnvironment, setHistoryEnvironment] = useState<string | undefined>(undefined);
+  const { data: environments } = trpc.environment.list.useQuery(
+    { projectId: run?.projectId ?? '' },
+    { enabled: !!run?.projectId, retry: false }
+  );
+  const { data: history } = trpc.report.getQualityHistory.useQuery(
+    { projectId: run?.projectId ?? '', environment: historyEnvironment },
+    { enabled: !!run?.projectId }
+  );
+
+  // Visual regression baselines of the run's project environment
+  const { data: baselines, refetch: refetchBaselines } = trpc.baseline.list.useQuery(
+    { projectId: run?.projectId ?? '', environment: run?.environment ?? undefined },
+    { enabled: !!run?.projectId }
+  );
+  const promoteMutation = trpc.baseline.promote.useMutation({
+    onSuccess: (result) => {
+      message.success(`已提升 ${result.promoted.length} 张截图为基线`);
+      refetchBaselines();
+    },
+    onError: (error) => {
+      message.error(error.message);
+    },
+  });
+
   if (reportLoading || metricsLoading) {
     return <Spin size="large" />;
   }
@@ -156,10 +204,52 @@ export const ReportView: React.FC = () => {
     },
   ];
 
+  const formatMetric = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+  const historyColumns = [
+    {
+      title: '运行 ID',
+      dataIndex: 'runId',
+      key: 'runId',
+      render: (id: string) => (id === runId ? <Text strong>{id.slice(0, 8)}</Text> : id.slice(0, 8)),
+    },
+    {
+      title: '环境',
+      dataIndex: 'environment',
+      key: 'environment',
+      render: (environment: string | null) => (environment ? <Tag>{environment}</Tag> : '-'),
+    },
+    {
+      title: '需求覆盖率',
+      dataIndex: 'rc',
+      key: 'rc',
+      render: formatMetric,
+    },
+    {
+      title: '断言通过率',
+      dataIndex: 'apr',
+      key: 'apr',
+      render: formatMetric,
+    },
+    {
+      title: '不稳定率',
+      dataIndex: 'fr',
+      key: 'fr',
+      render: formatMetric,
+    },
+    {
+      title: '时间',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      render: (date: string) => new Date(date).toLocaleString(),
+    },
+  ];
+
   return (
     <div>
       <Title level={4}>测试报告</Title>
       <Text type="secondary">生成时间: {new Date(report.generatedAt).toLocaleString()}</Text>
+      {run?.environment && <Tag style={{ marginLeft: 8 }}>环境: {run.environment}</Tag>}
 
       {/* Quality Metrics */}
       <Card title="质量门禁" style={{ marginTop: 16, marginBottom: 16 }}>
@@ -168,7 +258,7 @@ export const ReportView: React.FC = () => {
             <Col span={8} key={metric.name}>
               <Card>
                 <Statistic
-                  title={metric.name === 'RC' ? '需求覆盖率' : metric.name === 'APR' ? '断言通过率' : '不稳定率'}
+                  title={metricTitles[metric.name] ?? metric.name}
                   value={metric.value * 100}
                   precision={1}
                   suffix="%"
@@ -271,12 +361,90 @@ export const ReportView: React.FC = () => {
                     </div>
                   </div>
                 )}
+                {record.harPath && (
+                  <Paragraph style={{ marginTop: 8 }}>
+                    <Text strong>网络记录: </Text>
+                    <a href={`/workspace/${runId}/${record.harPath}`} download>
+                      {record.harPath.split('/').pop()}
+                    </a>
+                  </Paragraph>
+                )}
               </div>
             ),
           }}
         />
       </Card>
 
+      {/* Quality History */}
+      <Card
+        title="质量趋势"
+        style={{ marginBottom: 16 }}
+        extra={
+          <Select
+            style={{ width: 160 }}
+            placeholder="全部环境"
+            allowClear
+            value={historyEnvironment}
+            onChange={setHistoryEnvironment}
+          >
+            {environments?.map((env) => (
+              <Select.Option key={env.id} value={env.name}>
+                {env.name}
+              </Select.Option>
+            ))}
+          </Select>
+        }
+      >
+        {history?.averageFlakyRate != null && (
+          <Statistic
+            title="平均不稳定率"
+            value={history.averageFlakyRate * 100}
+            precision={1}
+            suffix="%"
+            style={{ marginBottom: 16 }}
+          />
+        )}
+        <Table
+          columns={historyColumns}
+          dataSource={history?.items ?? []}
+          rowKey="runId"
+          size="small"
+          pagination={{ pageSize: 10 }}
+        />
+      </Card>
+
+      {/* Visual Baselines */}
+      <Card
+        title={<Space><PictureOutlined />视觉基线{run?.environment && <Tag>{run.environment}</Tag>}</Space>}
+        style={{ marginBottom: 16 }}
+        extra={
+          <Popconfirm
+            title="将本次运行的视觉截图提升为基线？"
+            description="同一用例断言的已有基线将被替换"
+            onConfirm={() => promoteMutation.mutate({ runId: runId! })}
+          >
+            <Button loading={promoteMutation.isLoading}>提升为基线</Button>
+          </Popconfirm>
+        }
+      >
+        {baselines && baselines.total > 0 ? (
+          <Image.PreviewGroup>
+            <Space wrap>
+              {baselines.baselines.map((baseline) => (
+                <div key={baseline.key} style={{ textAlign: 'center' }}>
+                  <Image src={baseline.url} width={160} />
+                  <div>
+                    <Text type="secondary" style={{ fontSize: 12 }}>{baseline.key}</Text>
+                  </div>
+                </div>
+              ))}
+            </Space>
+          </Image.PreviewGroup>
+        ) : (
+          <Text type="secondary">暂无基线，视觉断言首次运行后可将截图提升为基线</Text>
+        )}
+      </Card>
+
       {/* Test Cases */}
       <Card title="测试用例" style={{ marginBottom: 16 }}>
         <Table
@@ -19,6 +19,8 @@ import {
   Tag,
   Input,
   Divider,
+  Radio,
+  Select,
 } from 'antd';
 import {
   UploadOutlined,
@@ -33,9 +35,12 @@ import type { UploadFile, UploadProps } from 'antd/es/upload/interface';
 const { Title, Text, Paragraph } = Typography;
 const { TextArea } = Input;
 
+type ExecutionMode = 'agent' | 'local';
+
 interface RouteItem {
   path: string;
   componentPath?: string;
+  layouts?: string[];
   selected: boolean;
 }
 
@@ -50,6 +55,9 @@ export const RouteSelection: React.FC = () => {
   const [prdContent, setPrdContent] = useState<string>('');
   const [prdPath, setPrdPath] = useState<string>('');
   const [loading, setLoading] = useState(false);
+  const [executionMode, setExecutionMode] = useState<ExecutionMode>('agent');
+  const [environment, setEnvironment] = useState<string | undefined>(undefined);
+  const [a11yAudit, setA11yAudit] = useState(false);
 
   // Fetch project
   const { data: project, isLoading: projectLoading } = trpc.project.getById.useQuery(
@@ -63,6 +71,18 @@ export const RouteSelection: React.FC = () => {
     { enabled: !!projectId, retry: false }
   );
 
+  // Discover routes from the page directory (Next.js / Nuxt / umi)
+  const { data: discovered, isLoading: discoverLoading } = trpc.targetProfile.discoverRoutes.useQuery(
+    { projectId: projectId! },
+    { enabled: !!projectId && !!profile, retry: false }
+  );
+
+  // Fetch named environments (dev / staging / uat)
+  const { data: environments } = trpc.environment.list.useQuery(
+    { projectId: projectId! },
+    { enabled: !!projectId, retry: false }
+  );
+
   // Create test run mutation
   const createRunMutation = trpc.testRun.create.useMutation({
     onSuccess: (result) => {
@@ -74,17 +94,27 @@ export const RouteSelection: React.FC = () => {
     },
   });
 
-  // Initialize routes from profile
+  // Initialize routes from the discovered routes and the profile's allowed routes
   useEffect(() => {
     if (profile?.allowedRoutes) {
-      setRoutes(
-        profile.allowedRoutes.map((path) => ({
-          path,
+      const discoveredRoutes = discovered?.routes ?? [];
+      const discoveredPaths = new Set(discoveredRoutes.map((r) => r.path));
+      setRoutes([
+        ...discoveredRoutes.map((r) => ({
+          path: r.path,
+          componentPath: r.componentPath,
+          layouts: r.layouts,
           selected: false,
-        }))
-      );
+        })),
+        ...profile.allowedRoutes
+          .filter((path) => !discoveredPaths.has(path))
+          .map((path) => ({
+            path,
+            selected: false,
+          })),
+      ]);
     }
-  }, [profile]);
+  }, [profile, discovered]);
 
   const handleRouteSelect = (path: string, checked: boolean) => {
     setRoutes((prev) =>
@@ -135,6 +165,9 @@ export const RouteSelection: React.FC = () => {
         projectId: projectId!,
         prdPath: prdPath || 'uploaded-prd.md',
         routes: selectedRoutes,
+        executionMode,
+        environment,
+        a11yAudit,
       });
     } finally {
       setLoading(false);
@@ -174,9 +207,17 @@ export const RouteSelection: React.FC = () => {
       key: 'componentPath',
       render: (path: string) => path || '-',
     },
+    {
+      title: '布局',
+      dataIndex: 'layouts',
+      key: 'layouts',
+      width: 100,
+      render: (layouts: string[] | undefined) =>
+        layouts?.length ? <Tag title={layouts.join('\n')}>{layouts.length} 层</Tag> : '-',
+    },
   ];
 
-  if (projectLoading || profileLoading) {
+  if (projectLoading || profileLoading || (!!profile && discoverLoading)) {
     return <Spin size="large" />;
   }
 
@@ -264,6 +305,58 @@ export const RouteSelection: React.FC = () => {
         />
       </Card>
 
+      {/* Execution Mode Section */}
+      <Card title="执行模式" style={{ marginBottom: 16 }}>
+        <Radio.Group
+          value={executionMode}
+          onChange={(e) => setExecutionMode(e.target.value)}
+        >
+          <Space direction="vertical">
+            <Radio value="agent">
+              Agent 执行
+              <Text type="secondary" style={{ marginLeft: 8 }}>
+                由 Claude Code 生成并执行测试脚本
+              </Text>
+            </Radio>
+            <Radio value="local">
+              本地执行
+              <Text type="secondary" style={{ marginLeft: 8 }}>
+                本地确定性执行测试用例，仅将失败用例交给 Claude Code 修复
+              </Text>
+            </Radio>
+          </Space>
+        </Radio.Group>
+        <Divider style={{ margin: '12px 0' }} />
+        <Checkbox checked={a11yAudit} onChange={(e) => setA11yAudit(e.target.checked)}>
+          无障碍审计
+          <Text type="secondary" style={{ marginLeft: 8 }}>
+            测试执行后检查访问过的页面是否符合 WCAG 规则
+          </Text>
+        </Checkbox>
+      </Card>
+
+      {/* Environment Section */}
+      <Card title="目标环境" style={{ marginBottom: 16 }}>
+        <Select
+          style={{ width: 320 }}
+          allowClear
+          placeholder={`基础配置 (${profile?.baseUrl ?? ''})`}
+          value={environment}
+          onChange={setEnvironment}
+        >
+          {environments?.map((env) => (
+            <Select.Option key={env.id} value={env.name}>
+              {env.name}
+              {env.baseUrl && (
+                <Text type="secondary" style={{ marginLeft: 8 }}>
+                  {env.baseUrl}
+                </Text>
+              )}
+            </Select.Option>
+          ))}
+        </Select>
+      </Card>
+
       {/* Action Buttons */}
       <Card>
         <Space>
@@ -0,0 +1,338 @@
+/**
+ * Schedule List Page
+ * Displays scheduled test runs of a project and allows creating, pausing and deleting them
+ * @see Requirements 13.1, 17.3
+ */
+
+import React, { useState } from 'react';
+import {
+  Table,
+  Button,
+  Space,
+  Modal,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  Checkbox,
+  Radio,
+  AutoComplete,
+  Popconfirm,
+  message,
+  Tag,
+  Typography,
+} from 'antd';
+import {
+  PlusOutlined,
+  PauseCircleOutlined,
+  PlayCircleOutlined,
+  DeleteOutlined,
+} from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import { trpc } from '../lib/trpc';
+
+const { Title, Text } = Typography;
+const { TextArea } = Input;
+
+/**
+ * Common cron presets
+ */
+const cronPresets = [
+  { value: '@nightly', label: '每晚 02:00' },
+  { value: '@daily', label: '每天 00:00' },
+  { value: '0 9 * * 1-5', label: '工作日 09:00' },
+  { value: '@weekly', label: '每周日 00:00' },
+  { value: '@hourly', label: '每小时' },
+];
+
+/**
+ * Schedule list page component
+ */
+export const ScheduleList: React.FC = () => {
+  const navigate = useNavigate();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedProject, setSelectedProject] = useState<string | null>(null);
+  const [form] = Form.useForm();
+  const approvalMode = Form.useWatch('approvalMode', form);
+
+  // Fetch projects for selection
+  const { data: projects } = trpc.project.list.useQuery({});
+
+  // Fetch schedules - when no project selected, fetch all
+  const { data: schedules, isLoading, refetch } = trpc.schedule.list.useQuery(
+    selectedProject ? { projectId: selectedProject } : {},
+  );
+
+  // Fetch environments of the selected project
+  const { data: environments } = trpc.environment.list.useQuery(
+    { projectId: selectedProject! },
+    { enabled: !!selectedProject, retry: false }
+  );
+
+  // Create mutation
+  const createMutation = trpc.schedule.create.useMutation({
+    onSuccess: () => {
+      message.success('定时任务创建成功');
+      setIsModalOpen(false);
+      form.resetFields();
+      refetch();
+    },
+    onError: (error) => {
+      message.error(error.message);
+    },
+  });
+
+  // Pause / resume mutation
+  const setPausedMutation = trpc.schedule.setPaused.useMutation({
+    onSuccess: (result) => {
+      message.success(result.paused ? '定时任务已暂停' : '定时任务已恢复');
+      refetch();
+    },
+    onError: (error) => {
+      message.error(error.message);
+    },
+  });
+
+  // Delete mutation
+  const deleteMutation = trpc.schedule.delete.useMutation({
+    onSuccess: () => {
+      message.success('定时任务已删除');
+      refetch();
+    },
+    onError: (error) => {
+      message.error(error.message);
+    },
+  });
+
+  const handleCreate = () => {
+    if (!selectedProject) {
+      message.warning('请先选择一个项目');
+      return;
+    }
+    form.setFieldsValue({
+      projectId: selectedProject,
+      cronExpression: '@nightly',
+      approvalMode: 'manual',
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = async (values: any) => {
+    const routes = values.routes.split('\n').filter((r: string) => r.trim());
+    createMutation.mutate({
+      projectId: values.projectId,
+      name: values.name,
+      cronExpression: values.cronExpression,
+      prdPath: values.prdPath,
+      routes,
+      environment: values.environment,
+      a11yAudit: values.a11yAudit ?? false,
+      approvalMode: values.approvalMode,
+      approvalWindowMinutes: values.approvalMode === 'manual' ? values.approvalWindowMinutes ?? undefined : undefined,
+    });
+  };
+
+  const columns = [
+    {
+      title: '名称',
+      dataIndex: 'name',
+      key: 'name',
+    },
+    {
+      title: '周期',
+      dataIndex: 'cronExpression',
+      key: 'cronExpression',
+      render: (cron: string) => (
+        <Text code>{cronPresets.find((p) => p.value === cron)?.label ?? cron}</Text>
+      ),
+    },
+    {
+      title: '测试路由',
+      dataIndex: 'routes',
+      key: 'routes',
+      render: (routes: string[]) => routes?.join(', ') || '-',
+    },
+    {
+      title: '环境',
+      dataIndex: 'environment',
+      key: 'environment',
+      render: (environment: string | null) => (environment ? <Tag>{environment}</Tag> : '-'),
+    },
+    {
+      title: '审批',
+      key: 'approval',
+      render: (_: any, record: any) =>
+        record.approvalMode === 'auto' ? (
+          <Tag color="green">自动通过</Tag>
+        ) : (
+          <Tag color="orange">
+            人工审批{record.approvalWindowMinutes ? `（${record.approvalWindowMinutes} 分钟内）` : ''}
+          </Tag>
+        ),
+    },
+    {
+      title: '下次运行',
+      dataIndex: 'nextRunAt',
+      key: 'nextRunAt',
+      render: (date: string | null, record: any) =>
+        record.paused ? <Tag>已暂停</Tag> : date ? new Date(date).toLocaleString() : '-',
+    },
+    {
+      title: '上次运行',
+      key: 'lastRun',
+      render: (_: any, record: any) =>
+        record.lastRunId ? (
+          <Button type="link" onClick={() => navigate(`/runs/${record.lastRunId}`)}>
+            {new Date(record.lastRunAt).toLocaleString()}
+          </Button>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      title: '操作',
+      key: 'actions',
+      render: (_: any, record: any) => (
+        <Space>
+          <Button
+            type="link"
+            icon={record.paused ? <PlayCircleOutlined /> : <PauseCircleOutlined />}
+            onClick={() => setPausedMutation.mutate({ id: record.id, paused: !record.paused })}
+          >
+            {record.paused ? '恢复' : '暂停'}
+          </Button>
+          <Popconfirm
+            title="确定删除该定时任务？已创建的测试运行会保留。"
+            onConfirm={() => deleteMutation.mutate({ id: record.id })}
+          >
+            <Button type="link" danger icon={<DeleteOutlined />}>
+              删除
+            </Button>
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 16 }}>
+        <Title level={4}>定时测试</Title>
+        <Space>
+          <Select
+            style={{ width: 200 }}
+            placeholder="选择项目"
+            value={selectedProject}
+            onChange={setSelectedProject}
+          >
+            {projects?.items?.map((p: any) => (
+              <Select.Option key={p.id} value={p.id}>
+                {p.name}
+              </Select.Option>
+            ))}
+          </Select>
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={handleCreate}
+            disabled={!selectedProject}
+          >
+            新建定时任务
+          </Button>
+        </Space>
+      </div>
+
+      <Table
+        columns={columns}
+        dataSource={schedules || []}
+        rowKey="id"
+        loading={isLoading}
+      />
+
+      <Modal
+        title="新建定时任务"
+        open={isModalOpen}
+        onCancel={() => {
+          setIsModalOpen(false);
+          form.resetFields();
+        }}
+        footer={null}
+        width={600}
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          <Form.Item name="projectId" label="项目" hidden>
+            <Input />
+          </Form.Item>
+          <Form.Item
+            name="name"
+            label="名称"
+            rules={[{ required: true, message: '请输入名称' }]}
+          >
+            <Input placeholder="每晚回归" />
+          </Form.Item>
+          <Form.Item
+            name="cronExpression"
+            label="运行周期（cron 表达式，按服务器时间）"
+            rules={[{ required: true, message: '请输入 cron 表达式' }]}
+            extra="格式：分 时 日 月 周，例如 30 1 * * 1-5；也可使用 @nightly、@daily、@hourly、@weekly、@monthly"
+          >
+            <AutoComplete
+              options={cronPresets.map((p) => ({ value: p.value, label: `${p.label}（${p.value}）` }))}
+            />
+          </Form.Item>
+          <Form.Item
+            name="prdPath"
+            label="PRD 文件路径"
+            rules={[{ required: true, message: '请输入 PRD 文件路径' }]}
+          >
+            <Input placeholder="/path/to/prd.md" />
+          </Form.Item>
+          <Form.Item
+            name="routes"
+            label="测试路由（每行一个）"
+            rules={[{ required: true, message: '请输入至少一个测试路由' }]}
+          >
+            <TextArea rows={4} placeholder="/dashboard&#10;/users" />
+          </Form.Item>
+          <Form.Item name="environment" label="目标环境">
+            <Select allowClear placeholder="基础配置">
+              {environments?.map((env) => (
+                <Select.Option key={env.id} value={env.name}>
+                  {env.name}
+                </Select.Option>
+              ))}
+            </Select>
+          </Form.Item>
+          <Form.Item name="a11yAudit" valuePropName="checked">
+            <Checkbox>测试执行后进行无障碍审计</Checkbox>
+          </Form.Item>
+          <Form.Item name="approvalMode" label="测试用例审批">
+            <Radio.Group>
+              <Radio value="manual">人工审批</Radio>
+              <Radio value="auto">自动通过</Radio>
+            </Radio.Group>
+          </Form.Item>
+          {approvalMode === 'manual' && (
+            <Form.Item
+              name="approvalWindowMinutes"
+              label="审批时限（分钟）"
+              extra="超过时限未审批的运行将以 approval_timeout 失败；留空时使用项目配置的审批时限"
+            >
+              <InputNumber min={1} max={7 * 24 * 60} style={{ width: 200 }} />
+            </Form.Item>
+          )}
+          <Form.Item>
+            <Space>
+              <Button type="primary" htmlType="submit" loading={createMutation.isLoading}>
+                创建
+              </Button>
+              <Button onClick={() => setIsModalOpen(false)}>取消</Button>
+            </Space>
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default ScheduleList;
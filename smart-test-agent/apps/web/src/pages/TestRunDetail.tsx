@@ -22,6 +22,7 @@ import {
   Descriptions,
   Alert,
   Tabs,
+  Tooltip,
 } from 'antd';
 import {
   CheckCircleOutlined,
@@ -76,11 +77,17 @@ export const TestRunDetail: React.FC = () => {
   const [latestScreenshot, setLatestScreenshot] = useState<string | null>(null);
   const [selectedRequirement, setSelectedRequirement] = useState<string | null>(null);
   const [cliLogs, setCliLogs] = useState<Array<{
-    source: 'claude' | 'codex';
+    source: 'claude' | 'codex' | 'playwright' | 'retry';
     type: 'stdout' | 'stderr' | 'info';
     message: string;
     timestamp: string;
   }>>([]);
+  const [retryStatus, setRetryStatus] = useState<{
+    step: string;
+    attempt: number;
+    maxAttempts: number;
+    errorMessage: string;
+  } | null>(null);
 
   // Fetch test run
   const { data: run, isLoading, refetch } = trpc.testRun.getById.useQuery(
@@ -88,6 +95,18 @@ export const TestRunDetail: React.FC = () => {
     { enabled: !!runId, refetchInterval: 5000 }
   );
 
+  // Fetch queue position while the run waits for a pipeline worker
+  const { data: status } = trpc.testRun.getStatus.useQuery(
+    { id: runId! },
+    { enabled: !!runId, refetchInterval: 5000 }
+  );
+
+  // Fetch the PRD change summary of incremental runs
+  const { data: prdChanges } = trpc.testRun.getPrdChanges.useQuery(
+    { runId: runId! },
+    { enabled: !!runId && !!run?.baseRunId }
+  );
+
   // Fetch requirements (only when awaiting_approval)
   const { data: requirements, isLoading: requirementsLoading } = trpc.testRun.getRequirements.useQuery(
     { runId: runId! },
@@ -95,7 +114,7 @@ export const TestRunDetail: React.FC = () => {
   );
 
   // Fetch test cases (only when awaiting_approval)
-  const { data: testCases, isLoading: testCasesLoading } = trpc.testRun.getTestCases.useQuery(
+  const { data: testCases, isLoading: testCasesLoading, refetch: refetchTestCases } = trpc.testRun.getTestCases.useQuery(
     { runId: runId! },
     { enabled: !!runId && run?.state === 'awaiting_approval' }
   );
@@ -137,6 +156,7 @@ export const TestRunDetail: React.FC = () => {
     // Listen for state transitions
     socket.on(SocketEvents.STATE_TRANSITION, (data: any) => {
       if (data.runId === runId) {
+        setRetryStatus(null);
         refetch();
       }
     });
@@ -175,6 +195,32 @@ export const TestRunDetail: React.FC = () => {
       }
     });
 
+    // Listen for step retries
+    socket.on(SocketEvents.STEP_RETRY, (data: any) => {
+      if (data.runId === runId) {
+        setRetryStatus({
+          step: data.step,
+          attempt: data.attempt,
+          maxAttempts: data.maxAttempts,
+          errorMessage: data.errorMessage,
+        });
+        setCliLogs(prev => [...prev.slice(-99), {
+          source: 'retry',
+          type: 'stderr',
+          message: `${data.step} 失败 (${data.category})，${Math.round(data.delayMs / 1000)} 秒后重试 ${data.attempt}/${data.maxAttempts}: ${data.errorMessage}`,
+          timestamp: data.timestamp,
+        }]);
+      }
+    });
+
+    // Listen for review deadline reminders
+    socket.on(SocketEvents.REVIEW_REMINDER, (data: any) => {
+      if (data.runId === runId) {
+        const action = data.kind === 'approval' ? '审批' : '确认';
+        message.warning(`请在 ${new Date(data.dueAt).toLocaleString()} 前完成${action}，超时运行将失败`);
+      }
+    });
+
     return () => {
       leaveTestRun(runId);
       socket.off(SocketEvents.STATE_TRANSITION);
@@ -182,6 +228,8 @@ export const TestRunDetail: React.FC = () => {
       socket.off(SocketEvents.STEP_SCREENSHOT);
       socket.off(SocketEvents.PROGRESS_UPDATE);
       socket.off(SocketEvents.CLI_LOG);
+      socket.off(SocketEvents.STEP_RETRY);
+      socket.off(SocketEvents.REVIEW_REMINDER);
     };
   }, [runId, refetch]);
 
@@ -221,6 +269,15 @@ export const TestRunDetail: React.FC = () => {
         <Text type="secondary">ID: {run.id}</Text>
       </div>
 
+      {status?.queuePosition != null && (
+        <Alert
+          type="info"
+          message="排队中"
+          description={`当前排在第 ${status.queuePosition} 位，等待空闲的执行槽位`}
+          style={{ marginBottom: 16 }}
+        />
+      )}
+
       {run.state === 'failed' && (
         <Alert
           type="error"
@@ -266,9 +323,50 @@ export const TestRunDetail: React.FC = () => {
               {new Date(run.completedAt).toLocaleString()}
             </Descriptions.Item>
           )}
+          {run.baseRunId && (
+            <Descriptions.Item label="增量解析基准">
+              <Button type="link" style={{ padding: 0 }} onClick={() => navigate(`/runs/${run.baseRunId}`)}>
+                {run.baseRunId.slice(0, 8)}
+              </Button>
+            </Descriptions.Item>
+          )}
         </Descriptions>
       </Card>
 
+      {/* PRD change summary of incremental runs */}
+      {prdChanges && (
+        <Card title="PRD 变更" style={{ marginBottom: 16 }}>
+          {prdChanges.fullReparse && (
+            <Alert
+              type="info"
+              message="PRD 没有可对比的章节标题，已全量重新解析；需求 ID 按标题与基准运行对齐"
+              style={{ marginBottom: 16 }}
+            />
+          )}
+          <Descriptions column={1}>
+            {([
+              ['added', '新增需求', 'green'],
+              ['modified', '修改需求', 'orange'],
+              ['removed', '删除需求', 'red'],
+            ] as const).map(([key, label, color]) => (
+              <Descriptions.Item key={key} label={`${label}（${prdChanges.requirements[key].length}）`}>
+                {prdChanges.requirements[key].length > 0
+                  ? prdChanges.requirements[key].map((id) => <Tag key={id} color={color}>{id}</Tag>)
+                  : '-'}
+              </Descriptions.Item>
+            ))}
+            <Descriptions.Item label={`未变化需求（${prdChanges.requirements.unchanged.length}）`}>
+              {prdChanges.requirements.unchanged.join(', ') || '-'}
+            </Descriptions.Item>
+            <Descriptions.Item label="变更章节">
+              {[...prdChanges.sections.added, ...prdChanges.sections.modified, ...prdChanges.sections.removed]
+                .filter(Boolean)
+                .join('；') || '-'}
+            </Descriptions.Item>
+          </Descriptions>
+        </Card>
+      )}
+
       {/* Resume execution section - show when not actively running */}
       {!['executing', 'codex_reviewing', 'parsing', 'generating'].includes(run.state) && (
         <Card title="恢复执行" style={{ marginBottom: 16 }}>
@@ -295,6 +393,9 @@ export const TestRunDetail: React.FC = () => {
           extra={
             <Space>
               <Tag color="processing">等待审批</Tag>
+              {run.approvalDueAt && (
+                <Text type="secondary">截止 {new Date(run.approvalDueAt).toLocaleString()}</Text>
+              )}
               <Text type="secondary">
                 {requirements?.total || 0} 个需求，{testCases?.total || 0} 个用例
               </Text>
@@ -341,6 +442,12 @@ export const TestRunDetail: React.FC = () => {
                     testCases={testCases}
                     selectedRequirement={selectedRequirement}
                     loading={testCasesLoading}
+                    runId={runId}
+                    editable={run.state === 'awaiting_approval'}
+                    onChange={() => {
+                      refetchTestCases();
+                      refetch();
+                    }}
                   />
                 ),
               },
@@ -358,7 +465,13 @@ export const TestRunDetail: React.FC = () => {
 
       {/* Confirmation section */}
       {run.state === 'report_ready' && (
-        <Card title="报告确认" style={{ marginBottom: 16 }}>
+        <Card
+          title="报告确认"
+          style={{ marginBottom: 16 }}
+          extra={run.confirmDueAt && (
+            <Text type="secondary">截止 {new Date(run.confirmDueAt).toLocaleString()}</Text>
+          )}
+        >
           <Alert
             type="success"
             message="测试报告已生成"
@@ -437,7 +550,18 @@ export const TestRunDetail: React.FC = () => {
         <Card 
           title="执行日志" 
           style={{ marginBottom: 16 }}
-          extra={<Text type="secondary">{cliLogs.length} 条日志</Text>}
+          extra={
+            <Space>
+              {retryStatus && (
+                <Tooltip title={retryStatus.errorMessage}>
+                  <Tag color="orange">
+                    {retryStatus.step} 重试 {retryStatus.attempt}/{retryStatus.maxAttempts}
+                  </Tag>
+                </Tooltip>
+              )}
+              <Text type="secondary">{cliLogs.length} 条日志</Text>
+            </Space>
+          }
         >
           <div 
             style={{ 
@@ -464,7 +588,11 @@ export const TestRunDetail: React.FC = () => {
                     </span>
                     {' '}
                     <Tag 
-                      color={log.source === 'claude' ? 'blue' : 'purple'} 
+                      color={
+                        log.source === 'claude' ? 'blue' :
+                        log.source === 'playwright' ? 'green' :
+                        log.source === 'retry' ? 'orange' : 'purple'
+                      } 
                       style={{ fontSize: 10 }}
                     >
                       {log.source}
@@ -13,14 +13,17 @@ import {
   Form,
   Input,
   Select,
+  Checkbox,
   message,
   Tag,
   Typography,
   Progress,
+  Upload,
 } from 'antd';
-import { PlayCircleOutlined, EyeOutlined, StopOutlined } from '@ant-design/icons';
+import { PlayCircleOutlined, EyeOutlined, StopOutlined, UploadOutlined } from '@ant-design/icons';
 import { useNavigate } from 'react-router-dom';
 import { trpc } from '../lib/trpc';
+import type { UploadFile, UploadProps } from 'antd/es/upload/interface';
 
 const { Title } = Typography;
 const { TextArea } = Input;
@@ -61,7 +64,9 @@ const stateLabels: Record<string, string> = {
 export const TestRunList: React.FC = () => {
   const navigate = useNavigate();
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [prdFileList, setPrdFileList] = useState<UploadFile[]>([]);
   const [selectedProject, setSelectedProject] = useState<string | null>(null);
+  const [selectedEnvironment, setSelectedEnvironment] = useState<string | undefined>(undefined);
   const [form] = Form.useForm();
 
   // Fetch projects for selection
@@ -69,7 +74,19 @@ export const TestRunList: React.FC = () => {
 
   // Fetch test runs - when no project selected, fetch all
   const { data, isLoading, refetch } = trpc.testRun.list.useQuery(
-    selectedProject ? { projectId: selectedProject } : {},
+    selectedProject ? { projectId: selectedProject, environment: selectedEnvironment } : {},
+  );
+
+  // Fetch environments of the selected project
+  const { data: environments } = trpc.environment.list.useQuery(
+    { projectId: selectedProject! },
+    { enabled: !!selectedProject, retry: false }
+  );
+
+  // Fetch earlier runs of the selected project as baselines for incremental parsing
+  const { data: baseRuns } = trpc.testRun.list.useQuery(
+    { projectId: selectedProject!, take: 50 },
+    { enabled: !!selectedProject && isModalOpen }
   );
 
   // Create mutation
@@ -77,6 +94,7 @@ export const TestRunList: React.FC = () => {
     onSuccess: (result) => {
       message.success('测试运行创建成功');
       setIsModalOpen(false);
+      setPrdFileList([]);
       form.resetFields();
       refetch();
       navigate(`/runs/${result.id}`);
@@ -112,9 +130,27 @@ export const TestRunList: React.FC = () => {
       projectId: values.projectId,
       prdPath: values.prdPath,
       routes,
+      environment: values.environment,
+      a11yAudit: values.a11yAudit ?? false,
+      baseRunId: values.baseRunId,
     });
   };
 
+  // Upload change handler for PRD documents (Markdown / Word / PDF / HTML)
+  const handlePrdUploadChange: UploadProps['onChange'] = (info) => {
+    setPrdFileList(info.fileList.slice(-1));
+    if (info.file.status === 'done' && info.file.response?.success) {
+      const uploaded = info.file.response.files[0];
+      form.setFieldsValue({ prdPath: uploaded.storagePath });
+      message.success(`${info.file.name} 上传成功`);
+      for (const warning of uploaded.prd?.warnings ?? []) {
+        message.warning(`${info.file.name}: ${warning}`);
+      }
+    } else if (info.file.status === 'error') {
+      message.error(info.file.response?.error ?? `${info.file.name} 上传失败`);
+    }
+  };
+
   const handleCancel = (id: string) => {
     cancelMutation.mutate({ id });
   };
@@ -134,6 +170,12 @@ export const TestRunList: React.FC = () => {
         <Tag color={stateColors[state]}>{stateLabels[state] || state}</Tag>
       ),
     },
+    {
+      title: '环境',
+      dataIndex: 'environment',
+      key: 'environment',
+      render: (environment: string | null) => (environment ? <Tag>{environment}</Tag> : '-'),
+    },
     {
       title: '测试路由',
       dataIndex: 'testedRoutes',
@@ -182,7 +224,10 @@ export const TestRunList: React.FC = () => {
             style={{ width: 200 }}
             placeholder="选择项目"
             value={selectedProject}
-            onChange={setSelectedProject}
+            onChange={(value) => {
+              setSelectedProject(value);
+              setSelectedEnvironment(undefined);
+            }}
           >
             {projects?.items?.map((p: any) => (
               <Select.Option key={p.id} value={p.id}>
@@ -190,6 +235,20 @@ export const TestRunList: React.FC = () => {
               </Select.Option>
             ))}
           </Select>
+          <Select
+            style={{ width: 160 }}
+            placeholder="全部环境"
+            allowClear
+            value={selectedEnvironment}
+            onChange={setSelectedEnvironment}
+            disabled={!selectedProject}
+          >
+            {environments?.map((env) => (
+              <Select.Option key={env.id} value={env.name}>
+                {env.name}
+              </Select.Option>
+            ))}
+          </Select>
           <Button
             type="primary"
             icon={<PlayCircleOutlined />}
@@ -217,6 +276,7 @@ export const TestRunList: React.FC = () => {
         open={isModalOpen}
         onCancel={() => {
           setIsModalOpen(false);
+          setPrdFileList([]);
           form.resetFields();
         }}
         footer={null}
@@ -233,6 +293,18 @@ export const TestRunList: React.FC = () => {
           >
             <Input placeholder="/path/to/prd.md" />
           </Form.Item>
+          <Form.Item label="或上传 PRD 文档（Markdown / Word / PDF / HTML）">
+            <Upload
+              action={`/api/upload/${selectedProject}`}
+              data={{ category: 'prd' }}
+              name="files"
+              accept=".md,.markdown,.txt,.docx,.pdf,.html,.htm"
+              fileList={prdFileList}
+              onChange={handlePrdUploadChange}
+            >
+              <Button icon={<UploadOutlined />}>上传 PRD</Button>
+            </Upload>
+          </Form.Item>
           <Form.Item
             name="routes"
             label="测试路由（每行一个）"
@@ -240,6 +312,33 @@ export const TestRunList: React.FC = () => {
           >
             <TextArea rows={4} placeholder="/dashboard&#10;/users" />
           </Form.Item>
+          <Form.Item name="environment" label="目标环境">
+            <Select allowClear placeholder="基础配置">
+              {environments?.map((env) => (
+                <Select.Option key={env.id} value={env.name}>
+                  {env.name}
+                </Select.Option>
+              ))}
+            </Select>
+          </Form.Item>
+          <Form.Item
+            name="baseRunId"
+            label="增量解析基准"
+            extra="选择此前的运行后，只重新解析 PRD 中新增或修改的章节，其余需求和用例沿用原 ID"
+          >
+            <Select allowClear placeholder="不使用（全量解析）">
+              {baseRuns?.items
+                ?.filter((run: any) => !['created', 'parsing', 'generating'].includes(run.state))
+                .map((run: any) => (
+                  <Select.Option key={run.id} value={run.id}>
+                    {run.id.slice(0, 8)} · {run.prdPath} · {new Date(run.createdAt).toLocaleString()}
+                  </Select.Option>
+                ))}
+            </Select>
+          </Form.Item>
+          <Form.Item name="a11yAudit" valuePropName="checked">
+            <Checkbox>测试执行后进行无障碍审计</Checkbox>
+          </Form.Item>
           <Form.Item>
             <Space>
               <Button type="primary" htmlType="submit" loading={createMutation.isLoading}>
@@ -0,0 +1,327 @@
+/**
+ * Case Approval Tests
+ * @see Requirements 6.3, 6.4
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { ExecutionResult, TestCaseResult } from '@smart-test-agent/shared';
+import {
+  BATCH_RESULTS_FILENAME,
+  CASE_BATCH_FILENAME,
+  applyRegeneratedCases,
+  findUnverifiedSelectors,
+  loadElementInventory,
+  mergeBatchExecutionResults,
+  planExecutionBatch,
+  planExecutionStart,
+  runExecutionBatch,
+  writeCaseBatch,
+} from './index.js';
+
+const rawCase = (caseId: string, requirementId: string, title = `用例 ${caseId}`) => ({
+  case_id: caseId,
+  requirement_id: requirementId,
+  route: '/users',
+  title,
+  precondition: '已登录',
+  steps: [{ step_id: 'S1', action: 'click', target: '#add' }],
+  assertions: [{ assertion_id: 'A-001', type: 'element_visible', expected: '.ant-modal', description: '弹窗可见' }],
+});
+
+/** A case as the PRD parse prompt (prompts/prd-parse.md) asks the agent to write it */
+const promptCase = (caseId: string, title: string) => ({
+  case_id: caseId,
+  requirement_id: 'REQ-001',
+  route: '/users',
+  title,
+  precondition: '用户已登录且有用户管理权限',
+  steps: [
+    { step_id: 'S1', action: 'navigate', target: '/users', description: '导航到用户管理页面' },
+    { step_id: 'S2', action: 'wait', target: '.ant-table', description: '等待表格加载完成' },
+  ],
+  assertions: [
+    { assertion_id: 'AST-001', type: 'element_visible', target: "th:has-text('用户名')", expected: 'visible', description: '验证用户名列存在' },
+  ],
+  tags: ['smoke'],
+});
+
+const caseResult = (caseId: string, status: TestCaseResult['status']): TestCaseResult => ({
+  caseId,
+  status,
+  steps: [],
+  assertions: [],
+  durationMs: 1000,
+});
+
+const executionResult = (testCases: TestCaseResult[], overrides: Partial<ExecutionResult> = {}): ExecutionResult => ({
+  runId: 'run-1',
+  startTime: '2024-01-01T00:00:00.000Z',
+  endTime: '2024-01-01T00:01:00.000Z',
+  totalDurationMs: 60000,
+  testCases,
+  screenshots: testCases.map((tc) => ({
+    id: `shot-${tc.caseId}`,
+    caseId: tc.caseId,
+    stepNumber: 1,
+    path: `evidence/screenshots/${tc.caseId}.png`,
+    timestamp: '2024-01-01T00:00:01.000Z',
+  })),
+  success: true,
+  ...overrides,
+});
+
+describe('Case Approval', () => {
+  let outputsDir: string;
+
+  beforeEach(async () => {
+    outputsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'case-approval-'));
+    await fs.mkdir(path.join(outputsDir, 'test-cases'));
+    await fs.writeFile(
+      path.join(outputsDir, 'test-cases', 'REQ-001.json'),
+      JSON.stringify({
+        requirement_id: 'REQ-001',
+        test_cases: [rawCase('TC-001', 'REQ-001'), rawCase('TC-002', 'REQ-001'), rawCase('TC-003', 'REQ-001')],
+      })
+    );
+    await fs.writeFile(
+      path.join(outputsDir, 'test-cases.json'),
+      JSON.stringify([rawCase('TC-001', 'REQ-001'), rawCase('TC-002', 'REQ-001'), rawCase('TC-003', 'REQ-001')])
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(outputsDir, { recursive: true, force: true });
+  });
+
+  describe('planExecutionBatch', () => {
+    it('should execute every case when the run has no per-case approvals', () => {
+      expect(planExecutionBatch([])).toBeUndefined();
+    });
+
+    it('should execute approved cases and hold while cases are rejected', () => {
+      expect(planExecutionBatch([
+        { caseId: 'TC-001', status: 'executed' },
+        { caseId: 'TC-002', status: 'approved' },
+        { caseId: 'TC-003', status: 'rejected', feedback: '断言不准确' },
+      ])).toEqual({ caseIds: ['TC-002'], holdForRegeneration: true });
+
+      expect(planExecutionBatch([
+        { caseId: 'TC-001', status: 'executed' },
+        { caseId: 'TC-002', status: 'approved' },
+      ])).toEqual({ caseIds: ['TC-002'], holdForRegeneration: false });
+    });
+  });
+
+  describe('planExecutionStart', () => {
+    it('should execute only the approved cases that were not executed yet', () => {
+      expect(planExecutionStart([])).toEqual({ kind: 'execute', startFromStep: 'test_execution' });
+      expect(planExecutionStart([
+        { caseId: 'TC-001', status: 'executed' },
+        { caseId: 'TC-002', status: 'approved' },
+        { caseId: 'TC-003', status: 'pending' },
+        { caseId: 'TC-004', status: 'rejected', feedback: '断言不准确' },
+      ])).toEqual({
+        kind: 'execute',
+        startFromStep: 'test_execution',
+        caseBatch: { caseIds: ['TC-002'], holdForRegeneration: true },
+      });
+    });
+
+    it('should regenerate rejected cases or start review when no approved case is left', () => {
+      expect(planExecutionStart([
+        { caseId: 'TC-001', status: 'executed' },
+        { caseId: 'TC-002', status: 'rejected', feedback: '断言不准确' },
+      ])).toEqual({ kind: 'regenerate' });
+      expect(planExecutionStart([
+        { caseId: 'TC-001', status: 'executed' },
+        { caseId: 'TC-002', status: 'executed' },
+      ])).toEqual({ kind: 'execute', startFromStep: 'codex_review' });
+    });
+  });
+
+  it('should write the cases of a batch next to test-cases.json', async () => {
+    const batchPath = await writeCaseBatch(path.join(outputsDir, 'test-cases.json'), ['TC-001', 'TC-003']);
+
+    expect(batchPath).toBe(path.join(outputsDir, CASE_BATCH_FILENAME));
+    const batch = JSON.parse(await fs.readFile(batchPath, 'utf-8'));
+    expect(batch.map((tc: { case_id: string }) => tc.case_id)).toEqual(['TC-001', 'TC-003']);
+  });
+
+  it('should merge batch results so that review sees every executed case', () => {
+    const first = executionResult([caseResult('TC-001', 'passed'), caseResult('TC-002', 'failed')]);
+    const second = executionResult([caseResult('TC-003', 'passed')], { totalDurationMs: 30000 });
+
+    const merged = mergeBatchExecutionResults(first, second);
+
+    expect(merged.testCases.map((tc) => [tc.caseId, tc.status])).toEqual([
+      ['TC-001', 'passed'],
+      ['TC-002', 'failed'],
+      ['TC-003', 'passed'],
+    ]);
+    expect(merged.screenshots).toHaveLength(3);
+    expect(merged.totalDurationMs).toBe(90000);
+    expect(merged.success).toBe(true);
+  });
+
+  it('should keep a failed earlier batch failed after merging', () => {
+    const first = executionResult([caseResult('TC-001', 'error')], { success: false, error: 'login failed' });
+    const merged = mergeBatchExecutionResults(first, { testCases: [caseResult('TC-002', 'passed')] });
+
+    expect(merged.success).toBe(false);
+    expect(merged.error).toBe('login failed');
+    expect(merged.testCases).toHaveLength(2);
+  });
+
+  it('should keep the results of earlier batches when a later batch fails or is cancelled', async () => {
+    const resultsPath = path.join(outputsDir, 'execution-results.json');
+    const readCaseIds = async (file: string) =>
+      JSON.parse(await fs.readFile(file, 'utf-8')).testCases.map((tc: TestCaseResult) => tc.caseId);
+    // 执行器在运行前删除旧的 execution-results.json
+    const runBatch = (result: ExecutionResult | null) => async () => {
+      await fs.rm(resultsPath, { force: true });
+      if (result) await fs.writeFile(resultsPath, JSON.stringify(result));
+      return result?.success ?? false;
+    };
+
+    await runExecutionBatch(outputsDir, runBatch(executionResult([caseResult('TC-001', 'passed')])), (ok) => ok);
+    expect(await readCaseIds(resultsPath)).toEqual(['TC-001']);
+
+    await expect(runExecutionBatch(outputsDir, runBatch(null), (ok) => ok)).resolves.toBe(false);
+    expect(await readCaseIds(resultsPath)).toEqual(['TC-001']);
+
+    const cancelled = async () => {
+      await fs.rm(resultsPath, { force: true });
+      throw new Error('Pipeline cancelled');
+    };
+    await expect(runExecutionBatch(outputsDir, cancelled, () => true)).rejects.toThrow('Pipeline cancelled');
+    expect(await readCaseIds(resultsPath)).toEqual(['TC-001']);
+
+    await runExecutionBatch(outputsDir, runBatch(executionResult([caseResult('TC-002', 'passed')])), (ok) => ok);
+    expect(await readCaseIds(resultsPath)).toEqual(['TC-001', 'TC-002']);
+    expect(await readCaseIds(path.join(outputsDir, BATCH_RESULTS_FILENAME))).toEqual(['TC-001', 'TC-002']);
+  });
+
+  it('should replace rejected cases with their regenerated versions and keep the others', async () => {
+    const { testCases, regeneratedCaseIds } = await applyRegeneratedCases(outputsDir, 'run-1', ['TC-002'], {
+      test_cases: [
+        rawCase('TC-002', 'REQ-001', '新增用户（修正）'),
+        rawCase('TC-001', 'REQ-001', '补充场景'),
+      ],
+    });
+
+    expect(testCases.map((tc) => [tc.caseId, tc.title])).toEqual([
+      ['TC-001', '用例 TC-001'],
+      ['TC-002', '新增用户（修正）'],
+      ['TC-003', '用例 TC-003'],
+      ['TC-004', '补充场景'],
+    ]);
+    expect(regeneratedCaseIds).toEqual(['TC-002', 'TC-004']);
+
+    const merged = JSON.parse(await fs.readFile(path.join(outputsDir, 'test-cases.json'), 'utf-8'));
+    expect(merged.map((tc: { case_id: string }) => tc.case_id)).toEqual(['TC-001', 'TC-002', 'TC-003', 'TC-004']);
+  });
+
+  it('should keep rejected cases that were not regenerated and reject invalid output', async () => {
+    const { testCases, regeneratedCaseIds, skippedCaseIds } = await applyRegeneratedCases(
+      outputsDir, 'run-1', ['TC-002', 'TC-003'], [rawCase('TC-002', 'REQ-001', '新增用户（修正）')]
+    );
+    expect(testCases.map((tc) => [tc.caseId, tc.title])).toEqual([
+      ['TC-001', '用例 TC-001'],
+      ['TC-002', '新增用户（修正）'],
+      ['TC-003', '用例 TC-003'],
+    ]);
+    expect(regeneratedCaseIds).toEqual(['TC-002']);
+    expect(skippedCaseIds).toEqual(['TC-003']);
+
+    await expect(
+      applyRegeneratedCases(outputsDir, 'run-1', ['TC-002'], [{ ...rawCase('TC-002', 'REQ-001'), route: 'users' }])
+    ).rejects.toThrow('Regenerated test cases are invalid');
+  });
+
+  it('should run a partial-approval round on cases in the PRD parse prompt format', async () => {
+    const generated = [promptCase('TC-001', '验证列表列'), promptCase('TC-002', '验证搜索'), promptCase('TC-003', '验证分页')];
+    await fs.writeFile(
+      path.join(outputsDir, 'test-cases', 'REQ-001.json'),
+      JSON.stringify({ requirement_id: 'REQ-001', test_cases: generated })
+    );
+    await fs.writeFile(path.join(outputsDir, 'test-cases.json'), JSON.stringify(generated));
+
+    // 第一轮：TC-001、TC-003 通过并执行，TC-002 被驳回
+    const batch = planExecutionBatch([
+      { caseId: 'TC-001', status: 'approved' },
+      { caseId: 'TC-002', status: 'rejected', feedback: '缺少模糊搜索场景' },
+      { caseId: 'TC-003', status: 'approved' },
+    ]);
+    expect(batch).toEqual({ caseIds: ['TC-001', 'TC-003'], holdForRegeneration: true });
+    const batchPath = await writeCaseBatch(path.join(outputsDir, 'test-cases.json'), batch!.caseIds);
+    expect(JSON.parse(await fs.readFile(batchPath, 'utf-8'))).toHaveLength(2);
+
+    // 重新生成被驳回的用例，并拆出一条新用例
+    const { testCases, regeneratedCaseIds } = await applyRegeneratedCases(outputsDir, 'run-1', ['TC-002'], {
+      test_cases: [promptCase('TC-002', '验证精确搜索'), promptCase('TC-002', '验证模糊搜索')],
+    });
+
+    expect(testCases.map((tc) => [tc.caseId, tc.title])).toEqual([
+      ['TC-001', '验证列表列'],
+      ['TC-002', '验证精确搜索'],
+      ['TC-003', '验证分页'],
+      ['TC-004', '验证模糊搜索'],
+    ]);
+    expect(testCases.every((tc) => tc.assertions[0].assertionId === 'AST-001')).toBe(true);
+    expect(regeneratedCaseIds).toEqual(['TC-002', 'TC-004']);
+
+    // 第二轮：重新生成的用例通过后只执行它们
+    expect(planExecutionBatch([
+      { caseId: 'TC-001', status: 'executed' },
+      { caseId: 'TC-002', status: 'approved' },
+      { caseId: 'TC-003', status: 'executed' },
+      { caseId: 'TC-004', status: 'approved' },
+    ])).toEqual({ caseIds: ['TC-002', 'TC-004'], holdForRegeneration: false });
+  });
+
+  it('should flag steps whose selector matches no element of the route inventory', async () => {
+    await fs.writeFile(
+      path.join(outputsDir, 'element-inventory.json'),
+      JSON.stringify([
+        {
+          route: '/users',
+          componentPath: 'src/views/users/index.vue',
+          elements: [
+            { kind: 'button', component: 'a-button', text: '新增用户' },
+            { kind: 'field', component: 'a-form-item', label: '用户名' },
+          ],
+        },
+      ])
+    );
+    const inventory = await loadElementInventory(outputsDir);
+    const step = (stepNumber: number, selector?: string) => ({ stepNumber, action: 'click', selector });
+    const testCase = (caseId: string, route: string, steps: ReturnType<typeof step>[]) => ({
+      caseId,
+      requirementId: 'REQ-001',
+      route,
+      title: caseId,
+      precondition: '已登录',
+      steps,
+      assertions: [],
+    });
+
+    const warnings = findUnverifiedSelectors(
+      [
+        testCase('TC-001', '/users', [
+          step(1, "page.getByRole('button', { name: '新增用户' })"),
+          step(2, "page.getByLabel('邮箱')"),
+          step(3, '.ant-modal'),
+          step(4),
+        ]),
+        testCase('TC-002', '/orders', [step(1, "page.getByLabel('邮箱')")]),
+      ],
+      inventory
+    );
+
+    expect(warnings).toEqual([{ caseId: 'TC-001', route: '/users', stepNumber: 2, selector: "page.getByLabel('邮箱')" }]);
+    expect(await loadElementInventory(path.join(outputsDir, 'missing'))).toEqual([]);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Case Approval Module
+ * Splits the test cases of a run by per-case approval status: approved cases are executed
+ * in batches while rejected ones go back for regeneration, and the execution results of
+ * all batches are merged into outputs/execution-results.json before review.
+ * @see Requirements 6.3, 6.4
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  formatValidationErrors,
+  type CaseApprovalStatus,
+  type ElementInventory,
+  type ExecutionResult,
+} from '@smart-test-agent/shared';
+import {
+  checkSelectorQuery,
+  extractRawTestCases,
+  mergeExecutionResults,
+  parseSelectorQuery,
+} from '@smart-test-agent/playwright-runner';
+import {
+  loadEditableTestCases,
+  saveEditableTestCases,
+  validateEditableTestCases,
+  nextTestCaseId,
+  toEditableTestCase,
+  type EditableTestCase,
+} from '../test-case-editor/index.js';
+import type { RawTestCase } from '../prd-diff/index.js';
+import { ELEMENT_INVENTORY_FILENAME } from '../source-indexer/element-inventory.js';
+
+/** Test cases of the current execution batch (written next to test-cases.json) */
+export const CASE_BATCH_FILENAME = 'test-cases.batch.json';
+
+/**
+ * Merged execution results of the finished batches (under outputs/)
+ * Kept apart from execution-results.json, which every execution of a batch rewrites.
+ */
+export const BATCH_RESULTS_FILENAME = 'execution-results.batches.json';
+
+/** Regenerated versions of rejected test cases, written by the agent under outputs/ */
+export const REGENERATED_CASES_FILENAME = 'regenerated-test-cases.json';
+
+/**
+ * Approval status of one test case of a run
+ */
+export interface CaseApprovalState {
+  caseId: string;
+  status: CaseApprovalStatus;
+  /** Reviewer feedback of a rejected case */
+  feedback?: string | null;
+}
+
+/**
+ * Approved test cases executed in one pipeline pass
+ */
+export interface ExecutionBatch {
+  caseIds: string[];
+  /** Rejected cases are waiting for regeneration: stop after test execution instead of starting review */
+  holdForRegeneration: boolean;
+}
+
+/**
+ * How a run continues into test execution after (partial) approval
+ */
+export type ExecutionStart =
+  | { kind: 'regenerate' }
+  | { kind: 'execute'; startFromStep: 'test_execution' | 'codex_review'; caseBatch?: ExecutionBatch };
+
+/**
+ * A test step whose selector matches no element in the page source
+ */
+export interface SelectorWarning {
+  caseId: string;
+  route: string;
+  stepNumber: number;
+  selector: string;
+}
+
+/**
+ * Plan the next execution batch from the per-case approval status
+ * @returns undefined when the run has no per-case approvals (all test cases are executed)
+ */
+export function planExecutionBatch(approvals: CaseApprovalState[]): ExecutionBatch | undefined {
+  if (approvals.length === 0) {
+    return undefined;
+  }
+  return {
+    caseIds: approvals.filter((approval) => approval.status === 'approved').map((approval) => approval.caseId),
+    holdForRegeneration: approvals.some((approval) => approval.status === 'rejected'),
+  };
+}
+
+/**
+ * Plan how an approved run enters test execution, after approval or when resumed from test_execution
+ * Only the approved cases not yet executed run; with none left the rejected cases are
+ * regenerated, or review starts once every case was executed.
+ */
+export function planExecutionStart(approvals: CaseApprovalState[]): ExecutionStart {
+  const caseBatch = planExecutionBatch(approvals);
+  if (!caseBatch) {
+    return { kind: 'execute', startFromStep: 'test_execution' };
+  }
+  if (caseBatch.caseIds.length > 0) {
+    return { kind: 'execute', startFromStep: 'test_execution', caseBatch };
+  }
+  return caseBatch.holdForRegeneration
+    ? { kind: 'regenerate' }
+    : { kind: 'execute', startFromStep: 'codex_review' };
+}
+
+/**
+ * Write the test cases of a batch next to the full test case file
+ * @returns Path of the batch file
+ */
+export async function writeCaseBatch(testCasesPath: string, caseIds: string[]): Promise<string> {
+  const selected = new Set(caseIds);
+  const rawTestCases = extractRawTestCases(
+    JSON.parse(await fs.readFile(testCasesPath, 'utf-8'))
+  ).filter((item) => {
+    const raw = item as { case_id?: string; caseId?: string };
+    return selected.has(raw.case_id ?? raw.caseId ?? '');
+  });
+
+  const batchPath = path.join(path.dirname(testCasesPath), CASE_BATCH_FILENAME);
+  await fs.writeFile(batchPath, JSON.stringify(rawTestCases, null, 2));
+  return batchPath;
+}
+
+function asExecutionResult(value: Partial<ExecutionResult>): ExecutionResult {
+  return {
+    ...value,
+    runId: value.runId ?? '',
+    startTime: value.startTime ?? '',
+    endTime: value.endTime ?? '',
+    totalDurationMs: value.totalDurationMs ?? 0,
+    testCases: value.testCases ?? [],
+    screenshots: value.screenshots ?? [],
+    success: value.success !== false,
+  };
+}
+
+/**
+ * Merge the results of an execution batch into the results of earlier batches
+ * Cases executed again replace their earlier results; the merged run succeeds only if every batch did.
+ */
+export function mergeBatchExecutionResults(
+  previous: Partial<ExecutionResult>,
+  batch: Partial<ExecutionResult>
+): ExecutionResult {
+  const base = asExecutionResult(previous);
+  const current = asExecutionResult(batch);
+  const merged = mergeExecutionResults(base, current);
+  if (!base.success) {
+    merged.success = false;
+    merged.error = current.error ?? base.error;
+    merged.reasonCode = current.reasonCode ?? base.reasonCode;
+  }
+  return merged;
+}
+
+/**
+ * Run one execution batch and merge its results into those of the earlier batches
+ * The results of the finished batches are kept in BATCH_RESULTS_FILENAME. A successful batch
+ * is merged into them; after a failed, retried or cancelled batch, execution-results.json
+ * is restored to the results of the earlier batches.
+ * @param execute - Runs the batch, writing its results to execution-results.json
+ * @param succeeded - Whether the batch finished and its results should be kept
+ */
+export async function runExecutionBatch<T>(
+  outputsDir: string,
+  execute: () => Promise<T>,
+  succeeded: (outcome: T) => boolean
+): Promise<T> {
+  const resultsPath = path.join(outputsDir, 'execution-results.json');
+  const batchResultsPath = path.join(outputsDir, BATCH_RESULTS_FILENAME);
+  let previous: Partial<ExecutionResult> | null = null;
+  try {
+    previous = JSON.parse(await fs.readFile(batchResultsPath, 'utf-8'));
+  } catch { /* first batch */ }
+
+  let outcome: T | undefined;
+  try {
+    outcome = await execute();
+    return outcome;
+  } finally {
+    if (outcome !== undefined && succeeded(outcome)) {
+      const current: Partial<ExecutionResult> = JSON.parse(await fs.readFile(resultsPath, 'utf-8'));
+      const merged = previous ? mergeBatchExecutionResults(previous, current) : asExecutionResult(current);
+      await fs.writeFile(batchResultsPath, JSON.stringify(merged, null, 2));
+      await fs.writeFile(resultsPath, JSON.stringify(merged, null, 2));
+    } else if (previous) {
+      await fs.writeFile(resultsPath, JSON.stringify(previous, null, 2));
+    }
+  }
+}
+
+/**
+ * Replace rejected test cases with their regenerated versions
+ * A regenerated case takes the place of the rejected case with the same ID; other
+ * regenerated cases are appended, with a new ID if theirs is taken by a kept case.
+ * Rejected cases the agent did not regenerate are kept unchanged.
+ * @param regenerated - Parsed content of regenerated-test-cases.json
+ * @returns The saved test cases, the IDs of the regenerated ones and of the rejected ones kept unchanged
+ * @throws Error if the result violates test-cases.schema.json
+ */
+export async function applyRegeneratedCases(
+  outputsDir: string,
+  runId: string,
+  rejectedCaseIds: string[],
+  regenerated: unknown
+): Promise<{ testCases: EditableTestCase[]; regeneratedCaseIds: string[]; skippedCaseIds: string[] }> {
+  const rejected = new Set(rejectedCaseIds);
+  const current = await loadEditableTestCases(outputsDir);
+  const replacements = (extractRawTestCases(regenerated) as RawTestCase[]).map((raw, index) =>
+    toEditableTestCase(raw, index)
+  );
+
+  // The first regenerated case with a rejected ID replaces it; later ones with the same ID are appended
+  const replacementById = new Map<string, EditableTestCase>();
+  for (const testCase of replacements) {
+    if (rejected.has(testCase.caseId) && !replacementById.has(testCase.caseId)) {
+      replacementById.set(testCase.caseId, testCase);
+    }
+  }
+  const usedReplacements = new Set(replacementById.values());
+  const testCases = current.map((testCase) => replacementById.get(testCase.caseId) ?? testCase);
+  const skippedCaseIds = current
+    .map((testCase) => testCase.caseId)
+    .filter((caseId) => rejected.has(caseId) && !replacementById.has(caseId));
+
+  const regeneratedCaseIds = [...replacementById.keys()];
+  for (const testCase of replacements.filter((candidate) => !usedReplacements.has(candidate))) {
+    const caseId = testCases.some((existing) => existing.caseId === testCase.caseId)
+      ? nextTestCaseId(testCases)
+      : testCase.caseId;
+    testCases.push({ ...testCase, caseId });
+    regeneratedCaseIds.push(caseId);
+  }
+
+  const validation = validateEditableTestCases(runId, testCases);
+  if (!validation.valid) {
+    throw new Error(`Regenerated test cases are invalid: ${formatValidationErrors(validation)}`);
+  }
+
+  await saveEditableTestCases(outputsDir, testCases);
+  return { testCases, regeneratedCaseIds, skippedCaseIds };
+}
+
+/**
+ * Load the element inventory written to inputs/ at initialization
+ * @returns An empty inventory if the run has none (no source code configured)
+ */
+export async function loadElementInventory(inputsDir: string): Promise<ElementInventory[]> {
+  try {
+    const content = await fs.readFile(path.join(inputsDir, ELEMENT_INVENTORY_FILENAME), 'utf-8');
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Find test steps whose selector references an element missing from the inventory of the case's route
+ * Steps are only reported when the selector can be parsed and the inventory rules the element out;
+ * cases of routes without an inventory are skipped.
+ * @see Requirements 4.2, 6.3
+ */
+export function findUnverifiedSelectors(
+  testCases: EditableTestCase[],
+  inventories: ElementInventory[]
+): SelectorWarning[] {
+  const byRoute = new Map(inventories.map((inventory) => [inventory.route, inventory.elements]));
+  const warnings: SelectorWarning[] = [];
+
+  for (const testCase of testCases) {
+    const elements = byRoute.get(testCase.route);
+    if (!elements) continue;
+
+    for (const step of testCase.steps) {
+      const query = step.selector ? parseSelectorQuery(step.selector) : undefined;
+      if (query && checkSelectorQuery(query, elements) === 'missing') {
+        warnings.push({
+          caseId: testCase.caseId,
+          route: testCase.route,
+          stepNumber: step.stepNumber,
+          selector: step.selector!,
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
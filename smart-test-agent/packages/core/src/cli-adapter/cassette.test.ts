@@ -0,0 +1,212 @@
+/**
+ * Agent Cassette Unit Tests
+ * @see Requirements 16.3, 16.5
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CassetteRecorder,
+  CassetteProvider,
+  createCassetteBindingConfig,
+  getCassettePath,
+  hashSnapshot,
+  parseStreamEvents,
+  readCassette,
+  snapshotDirectory,
+} from './cassette.js';
+import { createLlmProvider } from './provider-factory.js';
+import { CliAdapter } from './index.js';
+import type { LlmProvider, LlmResult } from './llm-provider.js';
+
+const STREAM_OUTPUT = [
+  '{"type":"system","subtype":"init"}',
+  'not json',
+  '{"type":"result","result":"{\\"status\\": \\"completed\\"}"}',
+].join('\n');
+
+function createResult(overrides: Partial<LlmResult> = {}): LlmResult {
+  return {
+    success: true,
+    output: '{"status": "completed"}',
+    rawOutput: STREAM_OUTPUT,
+    exitCode: 0,
+    durationMs: 5,
+    degradations: [],
+    ...overrides,
+  };
+}
+
+describe('Agent Cassette', () => {
+  let tempDir: string;
+  let workingDir: string;
+  let cassettePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+    workingDir = path.join(tempDir, 'run-1');
+    cassettePath = getCassettePath(workingDir);
+    await fs.mkdir(path.join(workingDir, 'outputs', 'test-cases'), { recursive: true });
+    await fs.writeFile(path.join(workingDir, 'inputs.md'), '# PRD');
+    await fs.writeFile(path.join(workingDir, 'outputs', 'test-cases', 'REQ-OLD.json'), '[]');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  /** Simulates an agent that replaces the test case files */
+  async function agentRun(): Promise<LlmResult> {
+    await fs.rm(path.join(workingDir, 'outputs', 'test-cases', 'REQ-OLD.json'));
+    await fs.writeFile(path.join(workingDir, 'outputs', 'test-cases', 'REQ-001.json'), '{"test_cases": []}');
+    await fs.writeFile(path.join(workingDir, 'outputs', 'shot.png'), Buffer.from([0x89, 0x50, 0x00, 0x01]));
+    return createResult();
+  }
+
+  describe('snapshotDirectory', () => {
+    it('should hash files and skip the logs directory', async () => {
+      await fs.mkdir(path.join(workingDir, 'logs'), { recursive: true });
+      await fs.writeFile(path.join(workingDir, 'logs', 'prd-parse.log'), 'log');
+
+      const snapshot = await snapshotDirectory(workingDir);
+
+      expect([...snapshot.keys()].sort()).toEqual(['inputs.md', 'outputs/test-cases/REQ-OLD.json']);
+    });
+
+    it('should change the hash when a file changes', async () => {
+      const before = hashSnapshot(await snapshotDirectory(workingDir));
+      await fs.writeFile(path.join(workingDir, 'inputs.md'), '# PRD v2');
+
+      expect(hashSnapshot(await snapshotDirectory(workingDir))).not.toBe(before);
+    });
+  });
+
+  it('should parse stream-json events and skip other lines', () => {
+    expect(parseStreamEvents(STREAM_OUTPUT)).toHaveLength(2);
+    expect(parseStreamEvents(undefined)).toEqual([]);
+  });
+
+  describe('CassetteRecorder', () => {
+    it('should record the prompt, events and file changes', async () => {
+      const recorder = new CassetteRecorder(cassettePath);
+
+      const result = await recorder.record('parse', 'claude-code', { prompt: 'Parse PRD', workingDir }, agentRun);
+
+      expect(result.success).toBe(true);
+      const cassette = await readCassette(cassettePath);
+      expect(cassette.entries).toHaveLength(1);
+      const entry = cassette.entries[0];
+      expect(entry.prompt).toBe('Parse PRD');
+      expect(entry.providerType).toBe('claude-code');
+      expect(entry.workingDirHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(entry.events).toEqual([
+        { type: 'system', subtype: 'init' },
+        { type: 'result', result: '{"status": "completed"}' },
+      ]);
+      expect(entry.files['outputs/test-cases/REQ-001.json']).toEqual({
+        encoding: 'utf-8',
+        content: '{"test_cases": []}',
+      });
+      expect(entry.files['outputs/shot.png'].encoding).toBe('base64');
+      expect(entry.files['inputs.md']).toBeUndefined();
+      expect(entry.deletedFiles).toEqual(['outputs/test-cases/REQ-OLD.json']);
+    });
+
+    it('should append entries across invocations', async () => {
+      const recorder = new CassetteRecorder(cassettePath);
+
+      await recorder.record('parse', 'claude-code', { prompt: 'a', workingDir }, async () => createResult());
+      await recorder.record('review', 'codex', { prompt: 'b', workingDir }, async () => createResult());
+
+      const cassette = await readCassette(cassettePath);
+      expect(cassette.entries.map((e) => e.task)).toEqual(['parse', 'review']);
+    });
+
+    it('should not record cancelled invocations', async () => {
+      const recorder = new CassetteRecorder(cassettePath);
+
+      await recorder.record('parse', 'claude-code', { prompt: 'a', workingDir }, async () => createResult());
+      const result = await recorder.record('review', 'codex', { prompt: 'b', workingDir }, async () =>
+        createResult({ success: false, cancelled: true })
+      );
+
+      expect(result.cancelled).toBe(true);
+      const cassette = await readCassette(cassettePath);
+      expect(cassette.entries.map((e) => e.task)).toEqual(['parse']);
+    });
+  });
+
+  describe('CassetteProvider', () => {
+    it('should replay a recorded invocation exactly', async () => {
+      const snapshotBefore = await snapshotDirectory(workingDir);
+      await new CassetteRecorder(cassettePath).record('parse', 'claude-code', { prompt: 'Parse PRD', workingDir }, agentRun);
+      const snapshotAfter = await snapshotDirectory(workingDir);
+
+      // Restore the pre-call state
+      await fs.rm(path.join(workingDir, 'outputs'), { recursive: true });
+      await fs.mkdir(path.join(workingDir, 'outputs', 'test-cases'), { recursive: true });
+      await fs.writeFile(path.join(workingDir, 'outputs', 'test-cases', 'REQ-OLD.json'), '[]');
+      expect(hashSnapshot(await snapshotDirectory(workingDir))).toBe(hashSnapshot(snapshotBefore));
+
+      const onLog = vi.fn();
+      const result = await new CassetteProvider(cassettePath).invoke('parse', { prompt: 'Parse PRD', workingDir, onLog });
+
+      expect(result.success).toBe(true);
+      expect(result.rawOutput).toBe(STREAM_OUTPUT);
+      expect(result.parsedOutput).toEqual({ status: 'completed' });
+      expect(hashSnapshot(await snapshotDirectory(workingDir))).toBe(hashSnapshot(snapshotAfter));
+      expect(onLog).toHaveBeenCalledWith('info', expect.stringContaining('回放录制'));
+    });
+
+    it('should fail for prompts that were not recorded', async () => {
+      await new CassetteRecorder(cassettePath).record('parse', 'claude-code', { prompt: 'Parse PRD' }, async () => createResult());
+
+      const result = await new CassetteProvider(cassettePath).invoke('parse', { prompt: 'Other PRD' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('未找到回放记录');
+    });
+
+    it('should warn when the working directory differs from the recording', async () => {
+      await new CassetteRecorder(cassettePath).record('review', 'codex', { prompt: 'Review', workingDir }, async () => createResult());
+      await fs.writeFile(path.join(workingDir, 'inputs.md'), '# Changed');
+      const onLog = vi.fn();
+
+      await new CassetteProvider(cassettePath).invoke('review', { prompt: 'Review', workingDir, onLog });
+
+      expect(onLog).toHaveBeenCalledWith('info', expect.stringContaining('工作目录与录制时不一致'));
+    });
+
+    it('should be created from binding configuration for every task', async () => {
+      const config = createCassetteBindingConfig(cassettePath);
+
+      expect(config.parse).toEqual({ type: 'cassette', cassettePath });
+      expect(config.review).toEqual({ type: 'cassette', cassettePath });
+      expect(createLlmProvider(config.execute!)).toBeInstanceOf(CassetteProvider);
+      expect(await new CassetteProvider(cassettePath).isAvailable()).toBe(false);
+    });
+  });
+
+  describe('CliAdapter recording', () => {
+    it('should record task invocations but not cassette replays', async () => {
+      const provider: LlmProvider = {
+        type: 'openai-compatible',
+        isAvailable: vi.fn().mockResolvedValue(true),
+        invoke: vi.fn().mockResolvedValue(createResult()),
+      };
+      const adapter = new CliAdapter({ parse: provider });
+      adapter.setRecorder(new CassetteRecorder(cassettePath));
+
+      await adapter.invokeTask('parse', { prompt: 'Parse PRD', workingDir });
+      adapter.setProviders({ parse: new CassetteProvider(cassettePath) });
+      const replayed = await adapter.invokeTask('parse', { prompt: 'Parse PRD', workingDir });
+
+      expect(replayed.success).toBe(true);
+      const cassette = await readCassette(cassettePath);
+      expect(cassette.entries).toHaveLength(1);
+      expect(cassette.entries[0].providerType).toBe('openai-compatible');
+    });
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Agent Cassettes
+ * Records every LLM invocation of a run into a cassette file under the run's logs/ directory:
+ * the prompt, a hash of the working directory before the call, the stream-json events and
+ * the files the agent wrote or deleted. A later run can replay the cassette exactly,
+ * so downstream steps can be debugged without invoking the agent again.
+ * @see Requirements 16.3, 16.5
+ */
+
+import { createHash } from 'crypto';
+import type { Dirent } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  LLM_TASKS,
+  hashPrompt,
+  tryParseJsonOutput,
+  type LlmInvokeParams,
+  type LlmProvider,
+  type LlmProviderBindingConfig,
+  type LlmProviderType,
+  type LlmResult,
+  type LlmTask,
+} from './llm-provider.js';
+
+/** Current cassette format version */
+export const CASSETTE_VERSION = 1;
+
+/** Cassette file name inside the run's logs/ directory */
+export const CASSETTE_FILENAME = 'agent-cassette.json';
+
+/**
+ * Directories excluded from working directory snapshots
+ * logs/ holds the cassette itself and the per-step log files.
+ */
+const SNAPSHOT_EXCLUDED_DIRS = new Set(['logs', 'node_modules', '.git']);
+
+/**
+ * File captured in a cassette
+ */
+export interface CassetteFile {
+  encoding: 'utf-8' | 'base64';
+  content: string;
+}
+
+/**
+ * One recorded invocation
+ */
+export interface CassetteEntry {
+  task: LlmTask;
+  /** Provider that served the recorded call */
+  providerType: LlmProviderType;
+  promptHash: string;
+  prompt: string;
+  /** Hash of the working directory before the call */
+  workingDirHash?: string;
+  recordedAt: string;
+  result: {
+    success: boolean;
+    output: string;
+    rawOutput?: string;
+    error?: string;
+    exitCode: number;
+    durationMs: number;
+  };
+  /** Parsed stream-json events from the raw output */
+  events: unknown[];
+  /** Files written by the agent, keyed by path relative to the working directory */
+  files: Record<string, CassetteFile>;
+  /** Files deleted by the agent */
+  deletedFiles: string[];
+}
+
+/**
+ * Cassette file content
+ */
+export interface Cassette {
+  version: number;
+  entries: CassetteEntry[];
+}
+
+/**
+ * Gets the cassette path of a run workspace
+ * @param workspacePath Run workspace root ({workspaceRoot}/{runId})
+ */
+export function getCassettePath(workspacePath: string): string {
+  return path.join(workspacePath, 'logs', CASSETTE_FILENAME);
+}
+
+/**
+ * Creates provider configuration that replays a cassette for every task
+ */
+export function createCassetteBindingConfig(cassettePath: string): LlmProviderBindingConfig {
+  const config: LlmProviderBindingConfig = {};
+  for (const task of LLM_TASKS) {
+    config[task] = { type: 'cassette', cassettePath };
+  }
+  return config;
+}
+
+/**
+ * Reads a cassette file
+ * @returns Cassette, or an empty cassette if the file does not exist
+ * @throws Error if the file exists but has an unsupported format
+ */
+export async function readCassette(cassettePath: string): Promise<Cassette> {
+  let content: string;
+  try {
+    content = await fs.readFile(cassettePath, 'utf-8');
+  } catch {
+    return { version: CASSETTE_VERSION, entries: [] };
+  }
+
+  const cassette = JSON.parse(content) as Cassette;
+  if (cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.entries)) {
+    throw new Error(`Unsupported cassette format: ${cassettePath}`);
+  }
+  return cassette;
+}
+
+/**
+ * Snapshots a working directory as relative path -> content hash
+ * @param rootDir Directory to snapshot
+ * @returns Snapshot map (empty if the directory does not exist)
+ */
+export async function snapshotDirectory(rootDir: string): Promise<Map<string, string>> {
+  const snapshot = new Map<string, string>();
+
+  const walk = async (dir: string, relativeDir: string): Promise<void> => {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!relativeDir && SNAPSHOT_EXCLUDED_DIRS.has(entry.name)) continue;
+        await walk(fullPath, relativePath);
+      } else if (entry.isFile()) {
+        const content = await fs.readFile(fullPath);
+        snapshot.set(relativePath, createHash('sha256').update(content).digest('hex'));
+      }
+    }
+  };
+
+  await walk(rootDir, '');
+  return snapshot;
+}
+
+/**
+ * Computes a single hash for a directory snapshot
+ */
+export function hashSnapshot(snapshot: Map<string, string>): string {
+  const lines = [...snapshot.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([file, hash]) => `${file}:${hash}`);
+  return createHash('sha256').update(lines.join('\n')).digest('hex');
+}
+
+/**
+ * Parses stream-json events from raw output, skipping non-JSON lines
+ */
+export function parseStreamEvents(rawOutput: string | undefined): unknown[] {
+  if (!rawOutput) return [];
+
+  const events: unknown[] = [];
+  for (const line of rawOutput.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) continue;
+    try {
+      events.push(JSON.parse(trimmed));
+    } catch {
+      // Not an event line
+    }
+  }
+  return events;
+}
+
+/**
+ * Encodes file content, using base64 for binary files (e.g. screenshots)
+ */
+function encodeFile(content: Buffer): CassetteFile {
+  return content.includes(0)
+    ? { encoding: 'base64', content: content.toString('base64') }
+    : { encoding: 'utf-8', content: content.toString('utf-8') };
+}
+
+/**
+ * Resolves a recorded path, refusing paths that escape the working directory
+ */
+function resolveInside(root: string, relativePath: string): string {
+  const target = path.resolve(root, relativePath);
+  if (target === root || !target.startsWith(root + path.sep)) {
+    throw new Error(`回放文件路径超出工作目录: ${relativePath}`);
+  }
+  return target;
+}
+
+/**
+ * Cassette recorder
+ * Appends one entry per invocation to the cassette file.
+ */
+export class CassetteRecorder {
+  private cassettePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(cassettePath: string) {
+    this.cassettePath = cassettePath;
+  }
+
+  getCassettePath(): string {
+    return this.cassettePath;
+  }
+
+  /**
+   * Runs an invocation and records it
+   * Recording failures are reported through onLog and never fail the invocation.
+   * Cancelled invocations are not recorded.
+   * @param task Pipeline task
+   * @param providerType Provider serving the call
+   * @param params Invocation parameters
+   * @param invoke Performs the actual invocation
+   * @returns Invocation result
+   */
+  async record(
+    task: LlmTask,
+    providerType: LlmProviderType,
+    params: LlmInvokeParams,
+    invoke: () => Promise<LlmResult>
+  ): Promise<LlmResult> {
+    const before = params.workingDir ? await snapshotDirectory(params.workingDir) : undefined;
+    const result = await invoke();
+    if (result.cancelled) {
+      return result;
+    }
+
+    try {
+      const entry: CassetteEntry = {
+        task,
+        providerType,
+        promptHash: hashPrompt(task, params.prompt),
+        prompt: params.prompt,
+        workingDirHash: before ? hashSnapshot(before) : undefined,
+        recordedAt: new Date().toISOString(),
+        result: {
+          success: result.success,
+          output: result.output,
+          rawOutput: result.rawOutput,
+          error: result.error,
+          exitCode: result.exitCode,
+          durationMs: result.durationMs,
+        },
+        events: parseStreamEvents(result.rawOutput),
+        files: {},
+        deletedFiles: [],
+      };
+
+      if (params.workingDir && before) {
+        const after = await snapshotDirectory(params.workingDir);
+        for (const [file, hash] of after) {
+          if (before.get(file) !== hash) {
+            entry.files[file] = encodeFile(await fs.readFile(path.join(params.workingDir, file)));
+          }
+        }
+        entry.deletedFiles = [...before.keys()].filter((file) => !after.has(file));
+      }
+
+      await this.append(entry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      params.onLog?.('stderr', `⚠️ 录制失败: ${message}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Appends an entry, serializing concurrent writes
+   */
+  private append(entry: CassetteEntry): Promise<void> {
+    this.writeQueue = this.writeQueue.then(async () => {
+      const cassette = await readCassette(this.cassettePath);
+      cassette.entries.push(entry);
+      await fs.mkdir(path.dirname(this.cassettePath), { recursive: true });
+      await fs.writeFile(this.cassettePath, JSON.stringify(cassette, null, 2));
+    });
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Cassette provider
+ * Replays recorded invocations matched by task and prompt hash.
+ * When a prompt was recorded several times the latest entry wins.
+ */
+export class CassetteProvider implements LlmProvider {
+  readonly type = 'cassette' as const;
+  private cassettePath: string;
+
+  constructor(cassettePath: string) {
+    this.cassettePath = cassettePath;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      return (await fs.stat(this.cassettePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async invoke(task: LlmTask, params: LlmInvokeParams): Promise<LlmResult> {
+    const startTime = Date.now();
+    const onLog = params.onLog;
+    const promptHash = hashPrompt(task, params.prompt);
+
+    const cassette = await readCassette(this.cassettePath);
+    const entry = [...cassette.entries]
+      .reverse()
+      .find((e) => e.task === task && e.promptHash === promptHash);
+
+    if (!entry) {
+      const error = `未找到回放记录: ${task}-${promptHash.slice(0, 12)}`;
+      onLog?.('stderr', `❌ 错误: ${error}`);
+      return { success: false, output: '', error, exitCode: -1, durationMs: Date.now() - startTime, degradations: [] };
+    }
+
+    onLog?.('info', `⏪ 回放录制 (${task}, ${entry.providerType}, ${entry.recordedAt})`);
+
+    if (params.workingDir) {
+      const root = path.resolve(params.workingDir);
+      if (entry.workingDirHash && hashSnapshot(await snapshotDirectory(root)) !== entry.workingDirHash) {
+        onLog?.('info', '⚠️ 工作目录与录制时不一致，回放结果可能有差异');
+      }
+      await this.restoreFiles(root, entry);
+    }
+
+    return {
+      success: entry.result.success,
+      output: entry.result.output,
+      rawOutput: entry.result.rawOutput,
+      parsedOutput: tryParseJsonOutput(entry.result.output),
+      error: entry.result.error,
+      exitCode: entry.result.exitCode,
+      durationMs: Date.now() - startTime,
+      degradations: [],
+    };
+  }
+
+  /**
+   * Applies recorded deletions and writes
+   */
+  private async restoreFiles(root: string, entry: CassetteEntry): Promise<void> {
+    for (const relativePath of entry.deletedFiles) {
+      await fs.rm(resolveInside(root, relativePath), { force: true });
+    }
+    for (const [relativePath, file] of Object.entries(entry.files)) {
+      const target = resolveInside(root, relativePath);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, Buffer.from(file.content, file.encoding === 'base64' ? 'base64' : 'utf-8'));
+    }
+  }
+}
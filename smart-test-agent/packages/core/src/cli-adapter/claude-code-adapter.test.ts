@@ -210,6 +210,47 @@ describe('Claude Code Adapter', () => {
       expect(mockProc.stdin.write).toHaveBeenCalledWith('My test prompt');
       expect(mockProc.stdin.end).toHaveBeenCalled();
     });
+
+    it('should report a cancelled invocation once the process group exits', async () => {
+      const capabilities: ClaudeCodeCapabilities = {
+        supportsStreamJson: true,
+        supportsAllowedTools: true,
+        version: '1.0.0',
+      };
+      const proc = new EventEmitter() as any;
+      proc.stdout = new EventEmitter();
+      proc.stderr = new EventEmitter();
+      proc.stdin = { write: vi.fn(), end: vi.fn() };
+      spawnMock.mockReturnValue(proc);
+      const controller = new AbortController();
+
+      const adapter = new ClaudeCodeAdapter(capabilities);
+      const invocation = adapter.invoke({ prompt: 'Test prompt', signal: controller.signal });
+      controller.abort();
+      proc.emit('close', null);
+      const result = await invocation;
+
+      expect(spawnMock.mock.calls[0][2]).toMatchObject({ detached: process.platform !== 'win32' });
+      expect(result.success).toBe(false);
+      expect(result.cancelled).toBe(true);
+      expect(result.error).toBe('Claude Code CLI 调用已取消');
+    });
+
+    it('should not start the CLI when already cancelled', async () => {
+      const capabilities: ClaudeCodeCapabilities = {
+        supportsStreamJson: true,
+        supportsAllowedTools: true,
+        version: '1.0.0',
+      };
+      const controller = new AbortController();
+      controller.abort();
+
+      const adapter = new ClaudeCodeAdapter(capabilities);
+      const result = await adapter.invoke({ prompt: 'Test prompt', signal: controller.signal });
+
+      expect(spawnMock).not.toHaveBeenCalled();
+      expect(result.cancelled).toBe(true);
+    });
   });
 
   describe('getDegradations', () => {
@@ -5,6 +5,7 @@
  */
 
 import { spawn } from 'child_process';
+import { SUPPORTS_PROCESS_GROUPS, onAbort, terminateProcessGroup } from '@smart-test-agent/playwright-runner';
 import type { ClaudeCodeCapabilities, DegradationDecision } from '@smart-test-agent/shared';
 
 /**
@@ -25,6 +26,8 @@ export interface ClaudeCodeParams {
   additionalArgs?: string[];
   /** Callback for real-time log output */
   onLog?: (type: 'stdout' | 'stderr' | 'info', message: string) => void;
+  /** Cancels the invocation, terminating the CLI and every process it started */
+  signal?: AbortSignal;
 }
 
 /**
@@ -47,6 +50,8 @@ export interface ClaudeCodeResult {
   durationMs: number;
   /** Degradation decisions made */
   degradations: DegradationDecision[];
+  /** Whether the invocation was cancelled through the abort signal */
+  cancelled?: boolean;
 }
 
 /** Default timeout (30 minutes for complex PRD parsing) */
@@ -91,8 +96,21 @@ export class ClaudeCodeAdapter {
     const args = this.buildArgs(params);
     const timeout = params.timeoutMs || DEFAULT_TIMEOUT;
 
+    if (params.signal?.aborted) {
+      return {
+        success: false,
+        output: '',
+        error: 'Claude Code CLI 调用已取消',
+        exitCode: -1,
+        durationMs: 0,
+        degradations: this.degradations,
+        cancelled: true,
+      };
+    }
+
     return new Promise((resolve) => {
       let output = '';
+      let cancelled = false;
       let errorOutput = '';
       const onLog = params.onLog;
 
@@ -105,9 +123,17 @@ export class ClaudeCodeAdapter {
       
       onLog?.('info', `🚀 启动 Claude Code CLI (超时: ${Math.round(timeout / 1000)}秒)...`);
       
+      // The shell leads its own process group so cancellation also stops the CLI it started
       const proc = spawn('zsh', ['-c', claudeCmd], {
         cwd: params.workingDir,
         timeout,
+        detached: SUPPORTS_PROCESS_GROUPS,
+      });
+
+      const removeAbortListener = onAbort(params.signal, () => {
+        cancelled = true;
+        onLog?.('info', '⏹️ 正在取消 Claude Code CLI...');
+        terminateProcessGroup(proc);
       });
 
       proc.stdout?.on('data', (data) => {
@@ -133,11 +159,25 @@ export class ClaudeCodeAdapter {
       });
 
       proc.on('close', (code) => {
+        removeAbortListener();
         const durationMs = Date.now() - startTime;
         const exitCode = code ?? -1;
 
         onLog?.('info', `⏹️ Claude Code CLI 退出 (代码: ${exitCode}, 耗时: ${Math.round(durationMs / 1000)}秒)`);
 
+        if (cancelled) {
+          resolve({
+            success: false,
+            output,
+            error: 'Claude Code CLI 调用已取消',
+            exitCode,
+            durationMs,
+            degradations: this.degradations,
+            cancelled: true,
+          });
+          return;
+        }
+
         // Check for authentication errors in output (CLI may return 0 but with error message)
         const authErrorPatterns = [
           'Not logged in',
@@ -213,6 +253,7 @@ export class ClaudeCodeAdapter {
       });
 
       proc.on('error', (err) => {
+        removeAbortListener();
         const durationMs = Date.now() - startTime;
         resolve({
           success: false,
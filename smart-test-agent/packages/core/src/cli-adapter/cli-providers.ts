@@ -0,0 +1,69 @@
+/**
+ * CLI-backed LLM Providers
+ * Expose the Claude Code and Codex CLI adapters through the LlmProvider interface
+ * @see Requirements 16.1, 16.3, 16.4
+ */
+
+import {
+  probeClaudeCodeCapabilities,
+  probeCodexCapabilities,
+  isClaudeCodeAvailable,
+  isCodexAvailable,
+} from './capability-detector.js';
+import { ClaudeCodeAdapter } from './claude-code-adapter.js';
+import { CodexAdapter } from './codex-adapter.js';
+import type { LlmInvokeParams, LlmProvider, LlmResult, LlmTask } from './llm-provider.js';
+
+/**
+ * Claude Code CLI provider
+ */
+export class ClaudeCodeProvider implements LlmProvider {
+  readonly type = 'claude-code' as const;
+  private adapter: ClaudeCodeAdapter | null = null;
+
+  async isAvailable(): Promise<boolean> {
+    return isClaudeCodeAvailable();
+  }
+
+  async invoke(_task: LlmTask, params: LlmInvokeParams): Promise<LlmResult> {
+    if (!this.adapter) {
+      this.adapter = new ClaudeCodeAdapter(await probeClaudeCodeCapabilities());
+    }
+    return this.adapter.invoke({
+      prompt: params.prompt,
+      workingDir: params.workingDir,
+      allowedTools: params.allowedTools,
+      outputFormat: params.outputFormat,
+      timeoutMs: params.timeoutMs,
+      onLog: params.onLog,
+      signal: params.signal,
+    });
+  }
+}
+
+/**
+ * Codex CLI provider
+ */
+export class CodexProvider implements LlmProvider {
+  readonly type = 'codex' as const;
+  private adapter: CodexAdapter | null = null;
+
+  async isAvailable(): Promise<boolean> {
+    return isCodexAvailable();
+  }
+
+  async invoke(_task: LlmTask, params: LlmInvokeParams): Promise<LlmResult> {
+    if (!this.adapter) {
+      this.adapter = new CodexAdapter(await probeCodexCapabilities());
+    }
+    return this.adapter.invoke({
+      prompt: params.prompt,
+      workingDir: params.workingDir,
+      outputSchema: params.outputSchema,
+      imagePaths: params.imagePaths,
+      timeoutMs: params.timeoutMs,
+      onLog: params.onLog,
+      signal: params.signal,
+    });
+  }
+}
@@ -5,6 +5,7 @@
  */
 
 import { spawn } from 'child_process';
+import { SUPPORTS_PROCESS_GROUPS, onAbort, terminateProcessGroup } from '@smart-test-agent/playwright-runner';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
@@ -30,6 +31,8 @@ export interface CodexParams {
   additionalArgs?: string[];
   /** Callback for real-time log output */
   onLog?: (type: 'stdout' | 'stderr' | 'info', message: string) => void;
+  /** Cancels the invocation, terminating the CLI and every process it started */
+  signal?: AbortSignal;
 }
 
 /**
@@ -50,6 +53,8 @@ export interface CodexResult {
   durationMs: number;
   /** Degradation decisions made */
   degradations: DegradationDecision[];
+  /** Whether the invocation was cancelled through the abort signal */
+  cancelled?: boolean;
 }
 
 /** Default timeout (15 minutes) */
@@ -79,8 +84,21 @@ export class CodexAdapter {
     const args = await this.buildArgs(params);
     const timeout = params.timeoutMs || DEFAULT_TIMEOUT;
 
+    if (params.signal?.aborted) {
+      return {
+        success: false,
+        output: '',
+        error: 'Codex CLI 调用已取消',
+        exitCode: -1,
+        durationMs: 0,
+        degradations: this.degradations,
+        cancelled: true,
+      };
+    }
+
     return new Promise((resolve) => {
       let output = '';
+      let cancelled = false;
       let errorOutput = '';
       const onLog = params.onLog;
 
@@ -89,9 +107,17 @@ export class CodexAdapter {
 
       onLog?.('info', `🚀 启动 Codex CLI (超时: ${Math.round(timeout / 1000)}秒)...`);
 
+      // The shell leads its own process group so cancellation also stops the CLI it started
       const proc = spawn('zsh', ['-c', codexCmd], {
         cwd: params.workingDir,
         timeout,
+        detached: SUPPORTS_PROCESS_GROUPS,
+      });
+
+      const removeAbortListener = onAbort(params.signal, () => {
+        cancelled = true;
+        onLog?.('info', '⏹️ 正在取消 Codex CLI...');
+        terminateProcessGroup(proc);
       });
 
       proc.stdout?.on('data', (data) => {
@@ -131,11 +157,25 @@ export class CodexAdapter {
       });
 
       proc.on('close', (code) => {
+        removeAbortListener();
         const durationMs = Date.now() - startTime;
         const exitCode = code ?? -1;
 
         onLog?.('info', `⏹️ Codex CLI 退出 (代码: ${exitCode}, 耗时: ${Math.round(durationMs / 1000)}秒)`);
 
+        if (cancelled) {
+          resolve({
+            success: false,
+            output,
+            error: 'Codex CLI 调用已取消',
+            exitCode,
+            durationMs,
+            degradations: this.degradations,
+            cancelled: true,
+          });
+          return;
+        }
+
         // Check for authentication errors in output
         const authErrorPatterns = [
           'Not logged in',
@@ -197,6 +237,7 @@ export class CodexAdapter {
       });
 
       proc.on('error', (err) => {
+        removeAbortListener();
         const durationMs = Date.now() - startTime;
         resolve({
           success: false,
@@ -1,6 +1,7 @@
 /**
  * CLI Adapter Module
- * Provides unified interface for Claude Code and Codex CLI tools
+ * Provides unified interface for Claude Code and Codex CLI tools,
+ * with pluggable LLM providers bound per pipeline task
  * @see Requirements 16.1, 16.2, 16.3, 16.4, 16.5
  */
 
@@ -13,6 +14,12 @@ import type {
 export * from './capability-detector.js';
 export * from './claude-code-adapter.js';
 export * from './codex-adapter.js';
+export * from './llm-provider.js';
+export * from './cli-providers.js';
+export * from './openai-compatible-provider.js';
+export * from './replay-provider.js';
+export * from './cassette.js';
+export * from './provider-factory.js';
 
 import {
   probeAllCapabilities,
@@ -23,6 +30,22 @@ import {
 } from './capability-detector.js';
 import { ClaudeCodeAdapter, type ClaudeCodeParams, type ClaudeCodeResult } from './claude-code-adapter.js';
 import { CodexAdapter, type CodexParams, type CodexResult } from './codex-adapter.js';
+import type { CassetteRecorder } from './cassette.js';
+import type {
+  LlmInvokeParams,
+  LlmProvider,
+  LlmProviderBindings,
+  LlmProviderType,
+  LlmResult,
+  LlmTask,
+} from './llm-provider.js';
+
+/** Default CLI used for each task when no provider is bound */
+const DEFAULT_TASK_PROVIDER: Record<LlmTask, LlmProviderType> = {
+  parse: 'claude-code',
+  execute: 'claude-code',
+  review: 'codex',
+};
 
 /**
  * Unified CLI Adapter
@@ -33,6 +56,99 @@ export class CliAdapter {
   private claudeCodeAdapter: ClaudeCodeAdapter | null = null;
   private codexAdapter: CodexAdapter | null = null;
   private allDegradations: DegradationDecision[] = [];
+  private providers: LlmProviderBindings;
+  private recorder: CassetteRecorder | null = null;
+  private signal: AbortSignal | null = null;
+
+  /**
+   * @param providers Providers bound per task; unbound tasks use the default CLI
+   */
+  constructor(providers: LlmProviderBindings = {}) {
+    this.providers = { ...providers };
+  }
+
+  /**
+   * Binds providers to tasks, replacing existing bindings for those tasks
+   */
+  setProviders(providers: LlmProviderBindings): void {
+    this.providers = { ...this.providers, ...providers };
+  }
+
+  /**
+   * Sets the recorder that captures every task invocation into a cassette
+   * Calls served by a cassette provider are not recorded again.
+   * @param recorder Cassette recorder, or null to stop recording
+   */
+  setRecorder(recorder: CassetteRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Sets the signal that cancels every task invocation (unless a call passes its own)
+   * @param signal Abort signal of the current run, or null to clear it
+   */
+  setSignal(signal: AbortSignal | null): void {
+    this.signal = signal;
+  }
+
+  /**
+   * Gets the provider type serving a task
+   */
+  getProviderType(task: LlmTask): LlmProviderType {
+    return this.providers[task]?.type ?? DEFAULT_TASK_PROVIDER[task];
+  }
+
+  /**
+   * Invokes the provider bound to a task
+   * Falls back to Claude Code (parse, execute) or Codex (review) when no provider is bound.
+   * The call is captured into the cassette when a recorder is set.
+   * @param task Pipeline task
+   * @param params Invocation parameters
+   * @returns Invocation result
+   * @see Requirements 16.3, 16.4
+   */
+  async invokeTask(task: LlmTask, params: LlmInvokeParams): Promise<LlmResult> {
+    if (this.signal && !params.signal) {
+      params = { ...params, signal: this.signal };
+    }
+    const providerType = this.getProviderType(task);
+    if (this.recorder && providerType !== 'cassette') {
+      return this.recorder.record(task, providerType, params, () => this.invokeProvider(task, params));
+    }
+    return this.invokeProvider(task, params);
+  }
+
+  /**
+   * Invokes the provider bound to a task without recording
+   */
+  private async invokeProvider(task: LlmTask, params: LlmInvokeParams): Promise<LlmResult> {
+    const provider: LlmProvider | undefined = this.providers[task];
+    if (!provider) {
+      return DEFAULT_TASK_PROVIDER[task] === 'codex'
+        ? this.invokeCodex(params)
+        : this.invokeClaudeCode(params);
+    }
+
+    const result = await provider.invoke(task, params);
+
+    // Record degradations
+    this.allDegradations.push(...result.degradations);
+
+    return result;
+  }
+
+  /**
+   * Checks if the provider bound to a task is available
+   */
+  async isTaskAvailable(task: LlmTask): Promise<boolean> {
+    const provider = this.providers[task];
+    if (!provider) {
+      return DEFAULT_TASK_PROVIDER[task] === 'codex'
+        ? this.isCodexAvailable()
+        : this.isClaudeCodeAvailable();
+    }
+    return provider.isAvailable();
+  }
 
   /**
    * Probes and initializes CLI capabilities
@@ -0,0 +1,164 @@
+/**
+ * LLM Provider Interface
+ * Abstracts the backend that serves each pipeline task (parse, execute, review)
+ * so that Claude Code, Codex, an OpenAI-compatible endpoint, recorded responses or a run cassette
+ * can be bound per task
+ * @see Requirements 16.3, 16.4
+ */
+
+import { createHash } from 'crypto';
+import type { DegradationDecision } from '@smart-test-agent/shared';
+
+/**
+ * Pipeline task served by an LLM provider
+ * - parse: PRD parsing and test case generation
+ * - execute: UI test execution
+ * - review: execution result review
+ */
+export type LlmTask = 'parse' | 'execute' | 'review';
+
+/**
+ * Supported provider types
+ */
+export type LlmProviderType = 'claude-code' | 'codex' | 'openai-compatible' | 'replay' | 'cassette';
+
+/** All tasks, in pipeline order */
+export const LLM_TASKS: LlmTask[] = ['parse', 'execute', 'review'];
+
+/** All provider types */
+export const LLM_PROVIDER_TYPES: LlmProviderType[] = [
+  'claude-code',
+  'codex',
+  'openai-compatible',
+  'replay',
+  'cassette',
+];
+
+/**
+ * Parameters for a provider invocation
+ * Providers ignore options they do not support (e.g. allowedTools over HTTP).
+ */
+export interface LlmInvokeParams {
+  /** The prompt to send */
+  prompt: string;
+  /** Working directory the agent operates in */
+  workingDir?: string;
+  /** Allowed tools (agent CLIs only) */
+  allowedTools?: string[];
+  /** Output format preference (Claude Code only) */
+  outputFormat?: 'json' | 'stream-json' | 'text';
+  /** Output schema for structured output (Codex only) */
+  outputSchema?: object;
+  /** Image paths to include (Codex only) */
+  imagePaths?: string[];
+  /** Timeout in milliseconds */
+  timeoutMs?: number;
+  /** Callback for real-time log output */
+  onLog?: (type: 'stdout' | 'stderr' | 'info', message: string) => void;
+  /** Cancels the invocation; agent CLIs are terminated together with their child processes */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result from a provider invocation
+ */
+export interface LlmResult {
+  /** Whether the invocation succeeded */
+  success: boolean;
+  /** Output for processing */
+  output: string;
+  /** Raw output (full stream for debugging) */
+  rawOutput?: string;
+  /** Parsed JSON output (if applicable) */
+  parsedOutput?: unknown;
+  /** Error message if failed */
+  error?: string;
+  /** Exit code (or -1 / -2 for non-process failures) */
+  exitCode: number;
+  /** Duration in milliseconds */
+  durationMs: number;
+  /** Degradation decisions made */
+  degradations: DegradationDecision[];
+  /** Whether the invocation was cancelled through the abort signal */
+  cancelled?: boolean;
+}
+
+/**
+ * LLM provider
+ */
+export interface LlmProvider {
+  /** Provider type */
+  readonly type: LlmProviderType;
+  /** Checks whether the backend can be used */
+  isAvailable(): Promise<boolean>;
+  /** Invokes the backend for a task */
+  invoke(task: LlmTask, params: LlmInvokeParams): Promise<LlmResult>;
+}
+
+/**
+ * OpenAI-compatible endpoint settings
+ */
+export interface OpenAICompatibleConfig {
+  /** Base URL, e.g. https://api.openai.com/v1 */
+  baseUrl: string;
+  /** Model name */
+  model: string;
+  /** API key, plain value or $ENV_VAR reference */
+  apiKey?: string;
+  /** Sampling temperature (defaults to 0) */
+  temperature?: number;
+}
+
+/**
+ * Serializable provider configuration
+ */
+export interface LlmProviderConfig {
+  type: LlmProviderType;
+  /** Fixture directory for the replay provider */
+  replayDir?: string;
+  /** Cassette file for the cassette provider */
+  cassettePath?: string;
+  /** Endpoint settings for the openai-compatible provider */
+  openai?: OpenAICompatibleConfig;
+}
+
+/**
+ * Provider configuration per task; tasks without an entry use the default CLI
+ */
+export type LlmProviderBindingConfig = Partial<Record<LlmTask, LlmProviderConfig>>;
+
+/**
+ * Provider instances per task
+ */
+export type LlmProviderBindings = Partial<Record<LlmTask, LlmProvider>>;
+
+/**
+ * Computes the stable hash used to key recorded responses
+ * @param task Pipeline task
+ * @param prompt Prompt text
+ * @returns Hex encoded SHA-256 hash
+ */
+export function hashPrompt(task: LlmTask, prompt: string): string {
+  return createHash('sha256').update(`${task}\n${prompt.replace(/\r\n/g, '\n')}`).digest('hex');
+}
+
+/**
+ * Attempts to parse JSON embedded in output text
+ */
+export function tryParseJsonOutput(output: string): unknown | undefined {
+  try {
+    const jsonMatch = output.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      return JSON.parse(jsonMatch[0]);
+    }
+
+    const arrayMatch = output.match(/\[[\s\S]*\]/);
+    if (arrayMatch) {
+      return JSON.parse(arrayMatch[0]);
+    }
+
+    return undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * OpenAI-compatible HTTP Provider
+ * Sends prompts to a /chat/completions endpoint.
+ * The model has no tool access, so it cannot write workspace files; the pipeline
+ * falls back to parsing the JSON returned in the response text.
+ * @see Requirements 16.3
+ */
+
+import { resolveEnvVariable } from '../target-profile/env-resolver.js';
+import {
+  tryParseJsonOutput,
+  type LlmInvokeParams,
+  type LlmProvider,
+  type LlmResult,
+  type LlmTask,
+  type OpenAICompatibleConfig,
+} from './llm-provider.js';
+
+/** Default timeout (10 minutes) */
+const DEFAULT_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * Chat completion response (fields used here only)
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  error?: { message?: string };
+}
+
+/**
+ * OpenAI-compatible provider
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly type = 'openai-compatible' as const;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = config;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return !!this.config.baseUrl && !!this.config.model;
+  }
+
+  async invoke(task: LlmTask, params: LlmInvokeParams): Promise<LlmResult> {
+    const startTime = Date.now();
+    const onLog = params.onLog;
+    const url = `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const controller = new AbortController();
+    const timeout = params.timeoutMs || DEFAULT_TIMEOUT;
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const cancel = () => controller.abort();
+    params.signal?.addEventListener('abort', cancel, { once: true });
+    if (params.signal?.aborted) {
+      controller.abort();
+    }
+
+    onLog?.('info', `🚀 调用 ${this.config.model} (${task}, 超时: ${Math.round(timeout / 1000)}秒)...`);
+
+    try {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (this.config.apiKey) {
+        headers.Authorization = `Bearer ${resolveEnvVariable(this.config.apiKey)}`;
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.config.model,
+          messages: [{ role: 'user', content: params.prompt }],
+          temperature: this.config.temperature ?? 0,
+        }),
+        signal: controller.signal,
+      });
+      const rawOutput = await response.text();
+      const durationMs = Date.now() - startTime;
+
+      let body: ChatCompletionResponse = {};
+      try {
+        body = JSON.parse(rawOutput) as ChatCompletionResponse;
+      } catch {
+        // Non-JSON body, handled below
+      }
+
+      if (!response.ok) {
+        const error = `HTTP ${response.status}: ${body.error?.message || rawOutput.substring(0, 200)}`;
+        onLog?.('stderr', `❌ 错误: ${error}`);
+        return { success: false, output: rawOutput, rawOutput, error, exitCode: -2, durationMs, degradations: [] };
+      }
+
+      const output = body.choices?.[0]?.message?.content ?? '';
+      onLog?.('info', `✅ 任务完成 (${Math.round(durationMs / 1000)}秒)`);
+      return {
+        success: true,
+        output,
+        rawOutput,
+        parsedOutput: tryParseJsonOutput(output),
+        exitCode: 0,
+        durationMs,
+        degradations: [],
+      };
+    } catch (err) {
+      const durationMs = Date.now() - startTime;
+      if (params.signal?.aborted) {
+        onLog?.('info', '⏹️ 请求已取消');
+        return { success: false, output: '', error: '请求已取消', exitCode: -1, durationMs, degradations: [], cancelled: true };
+      }
+      const error = controller.signal.aborted
+        ? `请求超时 (${Math.round(durationMs / 1000)}秒)`
+        : err instanceof Error ? err.message : String(err);
+      onLog?.('stderr', `❌ 错误: ${error}`);
+      return { success: false, output: '', error, exitCode: -1, durationMs, degradations: [] };
+    } finally {
+      clearTimeout(timeoutId);
+      params.signal?.removeEventListener('abort', cancel);
+    }
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * LLM Provider Factory and Task Routing Unit Tests
+ * @see Requirements 16.3
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createLlmProvider,
+  createLlmProviderBindings,
+  resolveLlmProviderConfigFromEnv,
+} from './provider-factory.js';
+import { OpenAICompatibleProvider } from './openai-compatible-provider.js';
+import { ReplayProvider } from './replay-provider.js';
+import { CliAdapter } from './index.js';
+import type { LlmProvider, LlmResult } from './llm-provider.js';
+
+function createFakeProvider(output: string): LlmProvider & { invoke: ReturnType<typeof vi.fn> } {
+  const result: LlmResult = {
+    success: true,
+    output,
+    exitCode: 0,
+    durationMs: 1,
+    degradations: [],
+  };
+  return {
+    type: 'replay',
+    isAvailable: vi.fn().mockResolvedValue(true),
+    invoke: vi.fn().mockResolvedValue(result),
+  };
+}
+
+describe('LLM Provider Factory', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('createLlmProvider', () => {
+    it('should create providers by type', () => {
+      expect(createLlmProvider({ type: 'replay', replayDir: '/tmp/fixtures' }))
+        .toBeInstanceOf(ReplayProvider);
+      expect(createLlmProvider({
+        type: 'openai-compatible',
+        openai: { baseUrl: 'http://localhost:8000/v1', model: 'test-model' },
+      })).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(createLlmProvider({ type: 'claude-code' }).type).toBe('claude-code');
+      expect(createLlmProvider({ type: 'codex' }).type).toBe('codex');
+    });
+
+    it('should reject incomplete configuration', () => {
+      expect(() => createLlmProvider({ type: 'replay' })).toThrow('replayDir');
+      expect(() => createLlmProvider({ type: 'openai-compatible' })).toThrow('baseUrl');
+    });
+  });
+
+  describe('createLlmProviderBindings', () => {
+    it('should share one instance between tasks with the same configuration', () => {
+      const bindings = createLlmProviderBindings({
+        parse: { type: 'replay', replayDir: '/tmp/fixtures' },
+        execute: { type: 'replay', replayDir: '/tmp/fixtures' },
+      });
+
+      expect(bindings.parse).toBe(bindings.execute);
+      expect(bindings.review).toBeUndefined();
+    });
+  });
+
+  describe('resolveLlmProviderConfigFromEnv', () => {
+    it('should return no bindings when nothing is configured', () => {
+      expect(resolveLlmProviderConfigFromEnv({})).toEqual({});
+    });
+
+    it('should apply the global provider with per-task overrides', () => {
+      const config = resolveLlmProviderConfigFromEnv({
+        LLM_PROVIDER: 'replay',
+        LLM_REPLAY_DIR: '/fixtures',
+        LLM_PROVIDER_REVIEW: 'openai-compatible',
+        OPENAI_BASE_URL: 'http://localhost:8000/v1',
+        OPENAI_MODEL: 'test-model',
+        OPENAI_API_KEY: 'secret',
+      });
+
+      expect(config.parse).toEqual({ type: 'replay', replayDir: '/fixtures' });
+      expect(config.execute).toEqual({ type: 'replay', replayDir: '/fixtures' });
+      expect(config.review).toEqual({
+        type: 'openai-compatible',
+        openai: { baseUrl: 'http://localhost:8000/v1', model: 'test-model', apiKey: '$OPENAI_API_KEY' },
+      });
+    });
+
+    it('should reject unknown provider types', () => {
+      expect(() => resolveLlmProviderConfigFromEnv({ LLM_PROVIDER: 'gpt' }))
+        .toThrow('Unknown LLM provider type');
+    });
+  });
+
+  describe('CliAdapter task routing', () => {
+    it('should invoke the provider bound to a task', async () => {
+      const parseProvider = createFakeProvider('parsed');
+      const adapter = new CliAdapter({ parse: parseProvider });
+
+      const result = await adapter.invokeTask('parse', { prompt: 'PRD', workingDir: '/tmp' });
+
+      expect(result.output).toBe('parsed');
+      expect(parseProvider.invoke).toHaveBeenCalledWith('parse', { prompt: 'PRD', workingDir: '/tmp' });
+      expect(adapter.getProviderType('parse')).toBe('replay');
+    });
+
+    it('should report default CLI types for unbound tasks', () => {
+      const adapter = new CliAdapter();
+
+      expect(adapter.getProviderType('parse')).toBe('claude-code');
+      expect(adapter.getProviderType('execute')).toBe('claude-code');
+      expect(adapter.getProviderType('review')).toBe('codex');
+    });
+
+    it('should merge bindings set later', async () => {
+      const parseProvider = createFakeProvider('parsed');
+      const reviewProvider = createFakeProvider('reviewed');
+      const adapter = new CliAdapter({ parse: parseProvider });
+
+      adapter.setProviders({ review: reviewProvider });
+
+      expect((await adapter.invokeTask('review', { prompt: 'x' })).output).toBe('reviewed');
+      expect(await adapter.isTaskAvailable('parse')).toBe(true);
+    });
+
+    it('should pass the run signal to providers unless the call has its own', async () => {
+      const parseProvider = createFakeProvider('parsed');
+      const adapter = new CliAdapter({ parse: parseProvider });
+      const runSignal = new AbortController().signal;
+      const callSignal = new AbortController().signal;
+
+      adapter.setSignal(runSignal);
+      await adapter.invokeTask('parse', { prompt: 'a' });
+      await adapter.invokeTask('parse', { prompt: 'b', signal: callSignal });
+      adapter.setSignal(null);
+      await adapter.invokeTask('parse', { prompt: 'c' });
+
+      expect(parseProvider.invoke.mock.calls.map(([, params]) => params.signal)).toEqual([
+        runSignal,
+        callSignal,
+        undefined,
+      ]);
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('should return the completion content', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ choices: [{ message: { content: '{"ok": true}' } }] }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new OpenAICompatibleProvider({
+        baseUrl: 'http://localhost:8000/v1/',
+        model: 'test-model',
+      });
+
+      const result = await provider.invoke('review', { prompt: 'Review' });
+
+      expect(result.success).toBe(true);
+      expect(result.parsedOutput).toEqual({ ok: true });
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8000/v1/chat/completions');
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+        model: 'test-model',
+        messages: [{ role: 'user', content: 'Review' }],
+      });
+    });
+
+    it('should report HTTP errors', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: false,
+        status: 401,
+        text: async () => JSON.stringify({ error: { message: 'Invalid API key' } }),
+      }));
+      const provider = new OpenAICompatibleProvider({ baseUrl: 'http://x/v1', model: 'm' });
+
+      const result = await provider.invoke('parse', { prompt: 'PRD' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('HTTP 401: Invalid API key');
+    });
+
+    it('should abort the request when cancelled', async () => {
+      vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      })));
+      const provider = new OpenAICompatibleProvider({ baseUrl: 'http://x/v1', model: 'm' });
+      const controller = new AbortController();
+
+      const invocation = provider.invoke('parse', { prompt: 'PRD', signal: controller.signal });
+      controller.abort();
+      const result = await invocation;
+
+      expect(result.success).toBe(false);
+      expect(result.cancelled).toBe(true);
+      expect(result.error).toBe('请求已取消');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * LLM Provider Factory
+ * Creates providers from serializable configuration and environment variables
+ * @see Requirements 16.3
+ */
+
+import { ClaudeCodeProvider, CodexProvider } from './cli-providers.js';
+import { OpenAICompatibleProvider } from './openai-compatible-provider.js';
+import { ReplayProvider } from './replay-provider.js';
+import { CassetteProvider } from './cassette.js';
+import {
+  LLM_TASKS,
+  LLM_PROVIDER_TYPES,
+  type LlmProvider,
+  type LlmProviderBindingConfig,
+  type LlmProviderBindings,
+  type LlmProviderConfig,
+  type LlmProviderType,
+} from './llm-provider.js';
+
+/**
+ * Creates a provider from configuration
+ * @throws Error if required settings are missing
+ */
+export function createLlmProvider(config: LlmProviderConfig): LlmProvider {
+  switch (config.type) {
+    case 'claude-code':
+      return new ClaudeCodeProvider();
+    case 'codex':
+      return new CodexProvider();
+    case 'openai-compatible':
+      if (!config.openai?.baseUrl || !config.openai?.model) {
+        throw new Error('openai-compatible provider requires baseUrl and model');
+      }
+      return new OpenAICompatibleProvider(config.openai);
+    case 'replay':
+      if (!config.replayDir) {
+        throw new Error('replay provider requires replayDir');
+      }
+      return new ReplayProvider(config.replayDir);
+    case 'cassette':
+      if (!config.cassettePath) {
+        throw new Error('cassette provider requires cassettePath');
+      }
+      return new CassetteProvider(config.cassettePath);
+    default:
+      throw new Error(`Unknown LLM provider type: ${(config as { type: string }).type}`);
+  }
+}
+
+/**
+ * Creates provider instances for every configured task
+ * Tasks bound to the same configuration share one instance.
+ */
+export function createLlmProviderBindings(config: LlmProviderBindingConfig): LlmProviderBindings {
+  const bindings: LlmProviderBindings = {};
+  const cache = new Map<string, LlmProvider>();
+
+  for (const task of LLM_TASKS) {
+    const taskConfig = config[task];
+    if (!taskConfig) continue;
+
+    const key = JSON.stringify(taskConfig);
+    let provider = cache.get(key);
+    if (!provider) {
+      provider = createLlmProvider(taskConfig);
+      cache.set(key, provider);
+    }
+    bindings[task] = provider;
+  }
+
+  return bindings;
+}
+
+/**
+ * Resolves provider configuration from environment variables
+ *
+ * - LLM_PROVIDER: provider type for all tasks
+ * - LLM_PROVIDER_PARSE / LLM_PROVIDER_EXECUTE / LLM_PROVIDER_REVIEW: per-task override
+ * - LLM_REPLAY_DIR: fixture directory for the replay provider
+ * - LLM_CASSETTE_PATH: cassette file for the cassette provider
+ * - OPENAI_BASE_URL / OPENAI_MODEL / OPENAI_API_KEY: openai-compatible endpoint
+ *
+ * @param env Environment variables
+ * @returns Configuration for tasks that have a provider set
+ * @throws Error if a provider type is unknown
+ */
+export function resolveLlmProviderConfigFromEnv(
+  env: Record<string, string | undefined>
+): LlmProviderBindingConfig {
+  const config: LlmProviderBindingConfig = {};
+
+  for (const task of LLM_TASKS) {
+    const type = env[`LLM_PROVIDER_${task.toUpperCase()}`] || env.LLM_PROVIDER;
+    if (!type) continue;
+
+    if (!LLM_PROVIDER_TYPES.includes(type as LlmProviderType)) {
+      throw new Error(`Unknown LLM provider type: ${type}`);
+    }
+
+    const taskConfig: LlmProviderConfig = { type: type as LlmProviderType };
+    if (type === 'replay') {
+      taskConfig.replayDir = env.LLM_REPLAY_DIR;
+    } else if (type === 'cassette') {
+      taskConfig.cassettePath = env.LLM_CASSETTE_PATH;
+    } else if (type === 'openai-compatible') {
+      taskConfig.openai = {
+        baseUrl: env.OPENAI_BASE_URL || '',
+        model: env.OPENAI_MODEL || '',
+        apiKey: env.OPENAI_API_KEY ? '$OPENAI_API_KEY' : undefined,
+      };
+    }
+    config[task] = taskConfig;
+  }
+
+  return config;
+}
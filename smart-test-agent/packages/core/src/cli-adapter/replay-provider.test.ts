@@ -0,0 +1,96 @@
+/**
+ * Replay Provider Unit Tests
+ * @see Requirements 16.3
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ReplayProvider,
+  writeReplayFixture,
+  getReplayFixturePath,
+} from './replay-provider.js';
+import { hashPrompt } from './llm-provider.js';
+
+describe('Replay Provider', () => {
+  let tempDir: string;
+  let replayDir: string;
+  let workingDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'replay-provider-'));
+    replayDir = path.join(tempDir, 'fixtures');
+    workingDir = path.join(tempDir, 'workspace');
+    await fs.mkdir(workingDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('hashPrompt', () => {
+    it('should be stable and task-specific', () => {
+      expect(hashPrompt('parse', 'hello')).toBe(hashPrompt('parse', 'hello'));
+      expect(hashPrompt('parse', 'line1\nline2')).toBe(hashPrompt('parse', 'line1\r\nline2'));
+      expect(hashPrompt('parse', 'hello')).not.toBe(hashPrompt('review', 'hello'));
+    });
+  });
+
+  it('should serve a recorded response and restore written files', async () => {
+    await writeReplayFixture(
+      replayDir,
+      'parse',
+      'Parse this PRD',
+      { success: true, output: '{"status": "completed"}', exitCode: 0 },
+      { 'outputs/requirements.json': '{"requirements": []}' }
+    );
+    const provider = new ReplayProvider(replayDir);
+    const onLog = vi.fn();
+
+    const result = await provider.invoke('parse', { prompt: 'Parse this PRD', workingDir, onLog });
+
+    expect(result.success).toBe(true);
+    expect(result.parsedOutput).toEqual({ status: 'completed' });
+    expect(await fs.readFile(path.join(workingDir, 'outputs', 'requirements.json'), 'utf-8'))
+      .toBe('{"requirements": []}');
+    expect(onLog).toHaveBeenCalledWith('info', expect.stringContaining('回放记录'));
+  });
+
+  it('should fail when no response was recorded for the prompt', async () => {
+    const provider = new ReplayProvider(replayDir);
+
+    const result = await provider.invoke('review', { prompt: 'Unknown prompt', workingDir });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('未找到回放记录');
+  });
+
+  it('should refuse to restore files outside the working directory', async () => {
+    await writeReplayFixture(
+      replayDir,
+      'execute',
+      'Run tests',
+      { success: true, output: '', exitCode: 0 },
+      { '../escape.txt': 'nope' }
+    );
+    const provider = new ReplayProvider(replayDir);
+
+    await expect(provider.invoke('execute', { prompt: 'Run tests', workingDir }))
+      .rejects.toThrow('回放文件路径超出工作目录');
+  });
+
+  it('should report availability based on the fixture directory', async () => {
+    expect(await new ReplayProvider(replayDir).isAvailable()).toBe(false);
+
+    await fs.mkdir(replayDir, { recursive: true });
+    expect(await new ReplayProvider(replayDir).isAvailable()).toBe(true);
+  });
+
+  it('should name fixtures by task and prompt hash', () => {
+    const fixturePath = getReplayFixturePath(replayDir, 'parse', 'abc');
+
+    expect(path.basename(fixturePath)).toBe(`parse-${hashPrompt('parse', 'abc')}.json`);
+  });
+});
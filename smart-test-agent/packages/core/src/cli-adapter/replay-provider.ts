@@ -0,0 +1,137 @@
+/**
+ * Replay Provider
+ * Serves recorded responses from disk, keyed by task and prompt hash.
+ * Files the agent wrote during recording are restored into the working directory,
+ * so the whole pipeline can run deterministically without network access.
+ * @see Requirements 16.3
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  hashPrompt,
+  tryParseJsonOutput,
+  type LlmInvokeParams,
+  type LlmProvider,
+  type LlmResult,
+  type LlmTask,
+} from './llm-provider.js';
+
+/** Current fixture format version */
+export const REPLAY_FIXTURE_VERSION = 1;
+
+/**
+ * Recorded response fixture
+ */
+export interface ReplayFixture {
+  version: number;
+  task: LlmTask;
+  promptHash: string;
+  result: {
+    success: boolean;
+    output: string;
+    rawOutput?: string;
+    error?: string;
+    exitCode: number;
+  };
+  /** Files written by the agent, keyed by path relative to the working directory */
+  files?: Record<string, string>;
+}
+
+/**
+ * Gets the fixture file path for a prompt
+ */
+export function getReplayFixturePath(replayDir: string, task: LlmTask, prompt: string): string {
+  return path.join(replayDir, `${task}-${hashPrompt(task, prompt)}.json`);
+}
+
+/**
+ * Writes a fixture for a prompt
+ * @returns Path to the written fixture
+ */
+export async function writeReplayFixture(
+  replayDir: string,
+  task: LlmTask,
+  prompt: string,
+  result: ReplayFixture['result'],
+  files?: Record<string, string>
+): Promise<string> {
+  const fixture: ReplayFixture = {
+    version: REPLAY_FIXTURE_VERSION,
+    task,
+    promptHash: hashPrompt(task, prompt),
+    result,
+    files,
+  };
+  const fixturePath = getReplayFixturePath(replayDir, task, prompt);
+  await fs.mkdir(replayDir, { recursive: true });
+  await fs.writeFile(fixturePath, JSON.stringify(fixture, null, 2));
+  return fixturePath;
+}
+
+/**
+ * Replay provider
+ */
+export class ReplayProvider implements LlmProvider {
+  readonly type = 'replay' as const;
+  private replayDir: string;
+
+  constructor(replayDir: string) {
+    this.replayDir = replayDir;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      return (await fs.stat(this.replayDir)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  async invoke(task: LlmTask, params: LlmInvokeParams): Promise<LlmResult> {
+    const startTime = Date.now();
+    const onLog = params.onLog;
+    const fixturePath = getReplayFixturePath(this.replayDir, task, params.prompt);
+
+    let fixture: ReplayFixture;
+    try {
+      fixture = JSON.parse(await fs.readFile(fixturePath, 'utf-8')) as ReplayFixture;
+    } catch {
+      const error = `未找到回放记录: ${path.basename(fixturePath)}`;
+      onLog?.('stderr', `❌ 错误: ${error}`);
+      return { success: false, output: '', error, exitCode: -1, durationMs: Date.now() - startTime, degradations: [] };
+    }
+
+    onLog?.('info', `⏪ 回放记录: ${path.basename(fixturePath)}`);
+
+    if (fixture.files && params.workingDir) {
+      await this.restoreFiles(params.workingDir, fixture.files);
+    }
+
+    return {
+      success: fixture.result.success,
+      output: fixture.result.output,
+      rawOutput: fixture.result.rawOutput,
+      parsedOutput: tryParseJsonOutput(fixture.result.output),
+      error: fixture.result.error,
+      exitCode: fixture.result.exitCode,
+      durationMs: Date.now() - startTime,
+      degradations: [],
+    };
+  }
+
+  /**
+   * Restores recorded files, refusing paths that escape the working directory
+   */
+  private async restoreFiles(workingDir: string, files: Record<string, string>): Promise<void> {
+    const root = path.resolve(workingDir);
+    for (const [relativePath, content] of Object.entries(files)) {
+      const target = path.resolve(root, relativePath);
+      if (target !== root && !target.startsWith(root + path.sep)) {
+        throw new Error(`回放文件路径超出工作目录: ${relativePath}`);
+      }
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, content);
+    }
+  }
+}
@@ -36,6 +36,10 @@ describe('Arbitrator', () => {
       expect(isDeterministicAssertion('navigation')).toBe(true);
     });
 
+    it('should return true for visual', () => {
+      expect(isDeterministicAssertion('visual')).toBe(true);
+    });
+
     it('should return false for soft', () => {
       expect(isDeterministicAssertion('soft')).toBe(false);
     });
@@ -94,7 +98,7 @@ describe('Arbitrator', () => {
   });
 
   describe('arbitrateAssertion', () => {
-    const createAssertion = (type: 'element_visible' | 'soft', verdict: 'pass' | 'fail'): Assertion => ({
+    const createAssertion = (type: 'element_visible' | 'visual' | 'soft', verdict: 'pass' | 'fail'): Assertion => ({
       id: 'a-1',
       assertionId: 'A001',
       runId: 'run-1',
@@ -133,6 +137,17 @@ describe('Arbitrator', () => {
       expect(result.conflictDetected).toBe(true);
     });
 
+    it('should keep the machine verdict of visual assertions when uncertain', () => {
+      const assertion = createAssertion('visual', 'fail');
+      const review = createReview('uncertain');
+
+      const result = arbitrateAssertion(assertion, review);
+
+      expect(result.originalVerdict).toBe('fail');
+      expect(result.finalVerdict).toBe('fail');
+      expect(result.conflictDetected).toBe(false);
+    });
+
     it('should arbitrate soft assertion with agree', () => {
       const assertion = createAssertion('soft', 'pass');
       const review = createReview('agree');
@@ -26,6 +26,8 @@ export interface ArbitrationResult {
 
 /**
  * Check if assertion type is deterministic (machine verdict)
+ * Only soft assertions are judged by the agent; visual assertions count as deterministic
+ * because the verdict comes from the pixel diff against the stored baseline.
  * @see Requirements 9.1, 9.2, 9.3
  */
 export function isDeterministicAssertion(type: AssertionType): boolean {
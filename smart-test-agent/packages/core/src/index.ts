@@ -8,3 +8,7 @@ export * from './target-profile/index.js';
 export * from './pipeline/index.js';
 export * from './pipeline/error-recovery.js';
 export * from './script-generator/index.js';
+export * from './prd-diff/index.js';
+export * from './prd-ingest/index.js';
+export * from './test-case-editor/index.js';
+export * from './case-approval/index.js';
@@ -17,6 +17,7 @@ import type {
   PromptVersions,
   ApprovalDecision,
   ConfirmationDecision,
+  ReviewPolicy,
 } from '@smart-test-agent/shared';
 import {
   StateMachine,
@@ -26,8 +27,11 @@ import {
   getValidEventsForState,
   getTimeoutReasonCode,
   getErrorReasonCode,
+  getApprovalRound,
+  getApprovalRoundShardId,
   type TransitionResult,
 } from './state-machine.js';
+import { getReviewTimeoutMs } from './review-policy.js';
 
 // Re-export state machine utilities
 export {
@@ -38,13 +42,27 @@ export {
   getValidEventsForState,
   getTimeoutReasonCode,
   getErrorReasonCode,
+  getApprovalRound,
+  getApprovalRoundShardId,
   STATE_TRANSITIONS,
   TERMINAL_STATES,
+  APPROVAL_LOOP_EVENTS,
   type StateTransition,
   type TransitionResult,
   type IdempotencyKey,
 } from './state-machine.js';
 
+export {
+  APPROVAL_TIMEOUT_MS,
+  CONFIRMATION_TIMEOUT_MS,
+  REVIEW_REMINDER_LEAD_MS,
+  READ_ONLY_OPERATIONS,
+  getReviewTimeoutMs,
+  getReviewReminderAt,
+  isReadOnlyProfile,
+  type ReviewState,
+} from './review-policy.js';
+
 /**
  * Input for creating a new test run
  */
@@ -67,16 +85,6 @@ export interface TransitionOptions {
   errorType?: string;
 }
 
-/**
- * Approval timeout in milliseconds (24 hours)
- */
-export const APPROVAL_TIMEOUT_MS = 24 * 60 * 60 * 1000;
-
-/**
- * Confirmation timeout in milliseconds (48 hours)
- */
-export const CONFIRMATION_TIMEOUT_MS = 48 * 60 * 60 * 1000;
-
 /**
  * Convert database TestRun to domain TestRun
  */
@@ -222,12 +230,12 @@ export class Orchestrator {
       throw new Error(`Test run with id ${runId} not found`);
     }
 
-    // Attempt state transition
+    // Attempt state transition (approval loop transitions are scoped to the current round)
     const result = this.stateMachine.transition(
       run.state,
       event,
       runId,
-      options.shardId,
+      options.shardId ?? getApprovalRoundShardId(event, getApprovalRound(run.decisionLog)),
       options.reason,
       options.metadata
     );
@@ -296,7 +304,10 @@ export class Orchestrator {
       throw new Error(`Cannot approve test run in state: ${run.state}`);
     }
 
-    const event: StateEvent = decision.approved ? 'APPROVED' : 'REJECTED';
+    const rejectedCases = decision.caseDecisions?.filter(d => !d.approved) ?? [];
+    const event: StateEvent = !decision.approved
+      ? 'REJECTED'
+      : rejectedCases.length > 0 ? 'PARTIALLY_APPROVED' : 'APPROVED';
     
     return this.transition(runId, event, {
       reason: decision.comments,
@@ -304,6 +315,7 @@ export class Orchestrator {
         reviewerId: decision.reviewerId,
         approved: decision.approved,
         timestamp: decision.timestamp,
+        ...(decision.caseDecisions ? { rejectedCaseIds: rejectedCases.map(d => d.caseId) } : {}),
       },
     });
   }
@@ -352,9 +364,10 @@ export class Orchestrator {
    * Check for approval timeout and transition to failed if needed
    * 
    * @param runId - Test run ID
+   * @param policy - Project review policy, defaults to 24 hours
    * @returns Updated test run if timeout occurred, null otherwise
    */
-  async checkApprovalTimeout(runId: string): Promise<TestRun | null> {
+  async checkApprovalTimeout(runId: string, policy?: ReviewPolicy): Promise<TestRun | null> {
     const run = await this.getRun(runId);
     if (!run || run.state !== 'awaiting_approval') {
       return null;
@@ -373,9 +386,10 @@ export class Orchestrator {
     const now = new Date();
     const elapsed = now.getTime() - enteredAt.getTime();
 
-    if (elapsed >= APPROVAL_TIMEOUT_MS) {
+    const timeoutMs = getReviewTimeoutMs('awaiting_approval', policy);
+    if (elapsed >= timeoutMs) {
       return this.transition(runId, 'TIMEOUT', {
-        reason: 'Approval timeout (24 hours)',
+        reason: `Approval timeout (${timeoutMs / 3600000} hours)`,
       });
     }
 
@@ -386,9 +400,10 @@ export class Orchestrator {
    * Check for confirmation timeout and transition to failed if needed
    * 
    * @param runId - Test run ID
+   * @param policy - Project review policy, defaults to 48 hours
    * @returns Updated test run if timeout occurred, null otherwise
    */
-  async checkConfirmationTimeout(runId: string): Promise<TestRun | null> {
+  async checkConfirmationTimeout(runId: string, policy?: ReviewPolicy): Promise<TestRun | null> {
     const run = await this.getRun(runId);
     if (!run || run.state !== 'report_ready') {
       return null;
@@ -407,9 +422,10 @@ export class Orchestrator {
     const now = new Date();
     const elapsed = now.getTime() - enteredAt.getTime();
 
-    if (elapsed >= CONFIRMATION_TIMEOUT_MS) {
+    const timeoutMs = getReviewTimeoutMs('report_ready', policy);
+    if (elapsed >= timeoutMs) {
       return this.transition(runId, 'TIMEOUT', {
-        reason: 'Confirmation timeout (48 hours)',
+        reason: `Confirmation timeout (${timeoutMs / 3600000} hours)`,
       });
     }
 
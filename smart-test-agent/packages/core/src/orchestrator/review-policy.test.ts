@@ -0,0 +1,65 @@
+/**
+ * Unit tests for the review policy
+ * @see Requirements 13.1, 13.2
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  APPROVAL_TIMEOUT_MS,
+  CONFIRMATION_TIMEOUT_MS,
+  getReviewTimeoutMs,
+  getReviewReminderAt,
+  isReadOnlyProfile,
+} from './review-policy.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('getReviewTimeoutMs', () => {
+  it('should default to 24 hours for approval and 48 hours for confirmation', () => {
+    expect(getReviewTimeoutMs('awaiting_approval')).toBe(APPROVAL_TIMEOUT_MS);
+    expect(getReviewTimeoutMs('report_ready', {})).toBe(CONFIRMATION_TIMEOUT_MS);
+  });
+
+  it('should use the project durations', () => {
+    const policy = { approvalTimeoutHours: 4, confirmationTimeoutHours: 0.5 };
+    expect(getReviewTimeoutMs('awaiting_approval', policy)).toBe(4 * HOUR_MS);
+    expect(getReviewTimeoutMs('report_ready', policy)).toBe(HOUR_MS / 2);
+  });
+});
+
+describe('getReviewReminderAt', () => {
+  const enteredAt = new Date(2026, 2, 10, 8, 0);
+  const dueAt = new Date(2026, 2, 11, 8, 0);
+
+  it('should remind two hours before the deadline by default', () => {
+    expect(getReviewReminderAt(enteredAt, dueAt)).toEqual(new Date(2026, 2, 11, 6, 0));
+    expect(getReviewReminderAt(enteredAt, dueAt, { reminderLeadHours: 12 })).toEqual(new Date(2026, 2, 10, 20, 0));
+  });
+
+  it('should skip reminders that are disabled or would come before the run entered the state', () => {
+    expect(getReviewReminderAt(enteredAt, dueAt, { reminderLeadHours: 0 })).toBeNull();
+    expect(getReviewReminderAt(enteredAt, new Date(2026, 2, 10, 9, 0))).toBeNull();
+  });
+});
+
+describe('isReadOnlyProfile', () => {
+  it('should accept profiles whose operations and role operations are read-only', () => {
+    expect(isReadOnlyProfile({ allowedOperations: ['query', 'view_detail', 'paginate'] })).toBe(true);
+    expect(
+      isReadOnlyProfile({
+        allowedOperations: ['query'],
+        roles: [{ name: 'viewer', allowedOperations: ['search', 'filter'] }],
+      })
+    ).toBe(true);
+  });
+
+  it('should reject profiles that can change data', () => {
+    expect(isReadOnlyProfile({ allowedOperations: ['query', 'create'] })).toBe(false);
+    expect(
+      isReadOnlyProfile({
+        allowedOperations: ['query'],
+        roles: [{ name: 'admin', allowedOperations: ['delete'] }],
+      })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Review Policy
+ * Approval and confirmation deadlines of a project's runs, reminders before they expire,
+ * and which runs are low-risk enough to approve automatically when nobody reviews them.
+ *
+ * @see Requirements 13.1, 13.2
+ */
+
+import type { OperationType, ReviewPolicy, RoleConfig } from '@smart-test-agent/shared';
+
+/**
+ * Approval timeout in milliseconds (24 hours)
+ */
+export const APPROVAL_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Confirmation timeout in milliseconds (48 hours)
+ */
+export const CONFIRMATION_TIMEOUT_MS = 48 * 60 * 60 * 1000;
+
+/**
+ * How long before a deadline the reminder is sent (2 hours)
+ */
+export const REVIEW_REMINDER_LEAD_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Operations that do not change data in the target application
+ */
+export const READ_ONLY_OPERATIONS: OperationType[] = ['query', 'view_detail', 'search', 'filter', 'paginate'];
+
+/**
+ * Run states that wait for a reviewer
+ */
+export type ReviewState = 'awaiting_approval' | 'report_ready';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Time a run may stay in a review state before it times out
+ */
+export function getReviewTimeoutMs(state: ReviewState, policy?: ReviewPolicy): number {
+  const hours = state === 'awaiting_approval' ? policy?.approvalTimeoutHours : policy?.confirmationTimeoutHours;
+  if (hours !== undefined) {
+    return hours * HOUR_MS;
+  }
+  return state === 'awaiting_approval' ? APPROVAL_TIMEOUT_MS : CONFIRMATION_TIMEOUT_MS;
+}
+
+/**
+ * When to remind reviewers of a deadline
+ * @returns null if reminders are disabled or the reminder would fall before the run entered the state
+ */
+export function getReviewReminderAt(enteredAt: Date, dueAt: Date, policy?: ReviewPolicy): Date | null {
+  const leadMs = policy?.reminderLeadHours !== undefined ? policy.reminderLeadHours * HOUR_MS : REVIEW_REMINDER_LEAD_MS;
+  const reminderAt = dueAt.getTime() - leadMs;
+  if (leadMs <= 0 || reminderAt <= enteredAt.getTime()) {
+    return null;
+  }
+  return new Date(reminderAt);
+}
+
+/**
+ * Whether a run against this profile only performs read-only operations, including every role's operations
+ */
+export function isReadOnlyProfile(profile: { allowedOperations: OperationType[]; roles?: RoleConfig[] }): boolean {
+  const operations = [
+    ...profile.allowedOperations,
+    ...(profile.roles ?? []).flatMap((role) => role.allowedOperations ?? []),
+  ];
+  return operations.every((operation) => READ_ONLY_OPERATIONS.includes(operation));
+}
@@ -17,6 +17,8 @@ import {
   createIdempotencyKey,
   getTimeoutReasonCode,
   getErrorReasonCode,
+  getApprovalRound,
+  getApprovalRoundShardId,
 } from './state-machine.js';
 import type { TestRunState, StateEvent } from '@smart-test-agent/shared';
 
@@ -483,6 +485,72 @@ describe('State Machine', () => {
         const result = stateMachine.transition('report_ready', 'RETEST', runId);
         expect(result.newState).toBe('created');
       });
+
+      it('should support partial approval rounds with round shards', () => {
+        const runId = 'run-partial';
+        const log: Array<{ toState: TestRunState }> = [];
+        const step = (from: TestRunState, event: StateEvent) => {
+          const result = stateMachine.transition(
+            from, event, runId, getApprovalRoundShardId(event, getApprovalRound(log))
+          );
+          log.push({ toState: result.newState });
+          return result;
+        };
+
+        stateMachine.transition('created', 'START_PARSING', runId);
+        stateMachine.transition('parsing', 'PARSING_COMPLETE', runId);
+        step('generating', 'GENERATION_COMPLETE');
+
+        // Round 1: approved cases execute, rejected ones are regenerated
+        expect(step('awaiting_approval', 'PARTIALLY_APPROVED').newState).toBe('executing');
+        expect(step('executing', 'BATCH_EXECUTED').newState).toBe('generating');
+
+        // Round 2: the second GENERATION_COMPLETE is not a duplicate of the first
+        const regenerated = step('generating', 'GENERATION_COMPLETE');
+        expect(regenerated.isNoOp).toBe(false);
+        expect(regenerated.newState).toBe('awaiting_approval');
+        expect(step('awaiting_approval', 'APPROVED').isNoOp).toBe(false);
+
+        const executed = stateMachine.transition('executing', 'EXECUTION_COMPLETE', runId);
+        expect(executed.newState).toBe('codex_reviewing');
+      });
+
+      it('should still treat a repeated transition within a round as a no-op', () => {
+        const runId = 'run-partial-dup';
+        const shardId = getApprovalRoundShardId('PARTIALLY_APPROVED', 1);
+
+        stateMachine.transition('awaiting_approval', 'PARTIALLY_APPROVED', runId, shardId);
+        const duplicate = stateMachine.transition('awaiting_approval', 'PARTIALLY_APPROVED', runId, shardId);
+
+        expect(duplicate.isNoOp).toBe(true);
+        expect(duplicate.newState).toBe('executing');
+      });
+    });
+  });
+
+  describe('approval rounds', () => {
+    it('should count transitions into awaiting_approval', () => {
+      expect(getApprovalRound([])).toBe(0);
+      expect(getApprovalRound([
+        { toState: 'parsing' },
+        { toState: 'awaiting_approval' },
+        { toState: 'executing' },
+        { toState: 'generating' },
+        { toState: 'awaiting_approval' },
+      ])).toBe(2);
+    });
+
+    it('should only shard approval loop events', () => {
+      expect(getApprovalRoundShardId('APPROVED', 2)).toBe('round-2');
+      expect(getApprovalRoundShardId('BATCH_EXECUTED', 1)).toBe('round-1');
+      expect(getApprovalRoundShardId('EXECUTION_COMPLETE', 2)).toBeUndefined();
+      expect(getApprovalRoundShardId('START_PARSING', 0)).toBeUndefined();
+    });
+
+    it('should define the partial approval transitions', () => {
+      expect(getTargetState('awaiting_approval', 'PARTIALLY_APPROVED')).toBe('executing');
+      expect(getTargetState('executing', 'BATCH_EXECUTED')).toBe('generating');
+      expect(getValidEventsForState('executing')).toContain('BATCH_EXECUTED');
     });
   });
 });
@@ -52,6 +52,11 @@ export const STATE_TRANSITIONS: StateTransition[] = [
   { from: 'awaiting_approval', to: 'executing', event: 'APPROVED' },
   { from: 'awaiting_approval', to: 'generating', event: 'REJECTED' },
   { from: 'executing', to: 'codex_reviewing', event: 'EXECUTION_COMPLETE' },
+
+  // Partial approval: approved cases execute, then the rejected ones are regenerated
+  // and come back for approval; review starts after the last batch (EXECUTION_COMPLETE)
+  { from: 'awaiting_approval', to: 'executing', event: 'PARTIALLY_APPROVED' },
+  { from: 'executing', to: 'generating', event: 'BATCH_EXECUTED' },
   { from: 'codex_reviewing', to: 'report_ready', event: 'REVIEW_COMPLETE' },
   { from: 'report_ready', to: 'completed', event: 'CONFIRMED' },
   { from: 'report_ready', to: 'created', event: 'RETEST' },
@@ -135,6 +140,34 @@ export function createIdempotencyKey(key: IdempotencyKey): string {
   return parts.join(':');
 }
 
+/**
+ * Events of the approval loop (generating -> awaiting_approval -> executing/generating)
+ * A run can pass through these transitions once per approval round.
+ */
+export const APPROVAL_LOOP_EVENTS: StateEvent[] = [
+  'GENERATION_COMPLETE',
+  'APPROVED',
+  'REJECTED',
+  'PARTIALLY_APPROVED',
+  'BATCH_EXECUTED',
+];
+
+/**
+ * Count the approval rounds a run has entered (transitions into awaiting_approval)
+ */
+export function getApprovalRound(decisionLog: Array<Pick<DecisionLogEntry, 'toState'>>): number {
+  return decisionLog.filter(entry => entry.toState === 'awaiting_approval').length;
+}
+
+/**
+ * Shard ID that scopes approval loop transitions to one approval round
+ * Without it the second round's transitions would have the same idempotency key as the
+ * first round's and be treated as duplicates. Other events have no round shard.
+ */
+export function getApprovalRoundShardId(event: StateEvent, round: number): string | undefined {
+  return APPROVAL_LOOP_EVENTS.includes(event) ? `round-${round}` : undefined;
+}
+
 /**
  * State Machine class
  * Manages state transitions with idempotency guarantees
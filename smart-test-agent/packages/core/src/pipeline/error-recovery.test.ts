@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the error recovery policy
+ * @see Requirements 7.7, 13.2
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ErrorRecoveryManager,
+  runWithRecovery,
+  type RetryAttempt,
+} from './error-recovery.js';
+
+const options = (manager: ErrorRecoveryManager) => ({
+  manager,
+  runId: 'run-1',
+  step: 'prd_parsing',
+  state: 'parsing' as const,
+});
+
+describe('ErrorRecoveryManager', () => {
+  it('should not classify words containing "ai" as AI agent errors', () => {
+    const manager = new ErrorRecoveryManager();
+    expect(manager.classifyError(new Error('Claude Code exited with code 1'))).toBe('ai_agent');
+    expect(manager.classifyError(new Error('AI agent returned no output'))).toBe('ai_agent');
+    expect(manager.classifyError(new Error('Schema validation failed'))).toBe('validation');
+    expect(manager.classifyError(new Error('Something failed'))).toBe('internal');
+  });
+
+  it('should use the default budgets capped by maxAttempts', () => {
+    const manager = new ErrorRecoveryManager({ maxAttempts: 2 });
+    expect(manager.getRetryBudget('network')).toBe(2);
+    expect(manager.getRetryBudget('playwright')).toBe(2);
+    expect(manager.getRetryBudget('validation')).toBe(1);
+  });
+
+  it('should let configured budgets override the defaults', () => {
+    const manager = new ErrorRecoveryManager({ budgets: { ai_agent: 5, network: 0, validation: 2 } });
+    expect(manager.getRetryBudget('ai_agent')).toBe(5);
+    expect(manager.getRetryBudget('network')).toBe(1);
+    expect(manager.isRecoverable(new Error('schema mismatch'))).toBe(true);
+
+    const context = { runId: 'run-1', step: 'prd_parsing', state: 'parsing' as const, timestamp: new Date() };
+    const error = new Error('codex crashed');
+    expect(manager.determineRecovery({ ...context, error, attemptCount: 4 }).action).toBe('retry');
+    expect(manager.determineRecovery({ ...context, error, attemptCount: 5 })).toMatchObject({
+      action: 'abort',
+      reason: 'Max retry attempts (5) reached for ai_agent error',
+    });
+  });
+});
+
+describe('runWithRecovery', () => {
+  it('should retry within the budget and report each retry', async () => {
+    const manager = new ErrorRecoveryManager({ baseDelay: 0 });
+    const fn = vi
+      .fn<[], Promise<string>>()
+      .mockRejectedValueOnce(new Error('Claude Code exited with code 1'))
+      .mockRejectedValueOnce(new Error('Claude Code exited with code 1'))
+      .mockResolvedValue('ok');
+    const retries: RetryAttempt[] = [];
+
+    const outcome = await runWithRecovery(fn, { ...options(manager), onRetry: (retry) => { retries.push(retry); } });
+
+    expect(outcome).toEqual({ status: 'success', value: 'ok', attempts: 3 });
+    expect(retries.map((retry) => `${retry.attempt}/${retry.maxAttempts}`)).toEqual(['2/3', '3/3']);
+    expect(retries[0]).toMatchObject({ step: 'prd_parsing', category: 'ai_agent' });
+    expect(manager.getErrorHistory('run-1', 'prd_parsing')).toHaveLength(2);
+  });
+
+  it('should report exhaustion when the budget is used up', async () => {
+    const manager = new ErrorRecoveryManager({ baseDelay: 0, budgets: { network: 2 } });
+    const fn = vi.fn().mockRejectedValue(new Error('fetch failed: ECONNREFUSED'));
+
+    const outcome = await runWithRecovery(fn, options(manager));
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(outcome).toMatchObject({ status: 'failed', attempts: 2, category: 'network', retryExhausted: true });
+  });
+
+  it('should not retry errors whose category has no retries', async () => {
+    const manager = new ErrorRecoveryManager({ baseDelay: 0 });
+    const onRetry = vi.fn();
+    const fn = vi.fn().mockRejectedValue(new Error('Invalid test case schema'));
+
+    const outcome = await runWithRecovery(fn, { ...options(manager), onRetry });
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+    expect(outcome).toMatchObject({ status: 'failed', category: 'validation', retryExhausted: false });
+  });
+
+  it('should rethrow without retrying once the signal is aborted', async () => {
+    const manager = new ErrorRecoveryManager({ baseDelay: 60000 });
+    const controller = new AbortController();
+    const fn = vi.fn().mockImplementation(async () => {
+      throw new Error('network error');
+    });
+
+    const pending = runWithRecovery(fn, {
+      ...options(manager),
+      signal: controller.signal,
+      onRetry: () => controller.abort(),
+    });
+
+    await expect(pending).rejects.toThrow('network error');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
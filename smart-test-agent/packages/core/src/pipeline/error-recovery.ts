@@ -4,18 +4,9 @@
  * @see Requirements 7.7, 13.2
  */
 
-import type { TestRunState } from '@smart-test-agent/shared';
+import type { ErrorCategory, RetryBudgets, TestRunState } from '@smart-test-agent/shared';
 
-/**
- * Error category for classification
- */
-export type ErrorCategory =
-  | 'network'
-  | 'timeout'
-  | 'playwright'
-  | 'ai_agent'
-  | 'validation'
-  | 'internal';
+export type { ErrorCategory, RetryBudgets };
 
 /**
  * Recovery action to take
@@ -52,6 +43,8 @@ export interface RetryConfig {
   baseDelay: number;
   maxDelay: number;
   backoffMultiplier: number;
+  /** Max attempts per error category (e.g. from the project's target profile) */
+  budgets?: RetryBudgets;
 }
 
 const DEFAULT_RETRY_CONFIG: RetryConfig = {
@@ -61,6 +54,19 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
   backoffMultiplier: 2,
 };
 
+/**
+ * Default max attempts per error category, capped by maxAttempts
+ * Playwright and internal errors get one retry, validation errors are never retried.
+ */
+export const DEFAULT_RETRY_BUDGETS: Record<ErrorCategory, number> = {
+  network: 3,
+  timeout: 3,
+  playwright: 2,
+  ai_agent: 3,
+  validation: 1,
+  internal: 2,
+};
+
 /**
  * Error Recovery Manager
  * Provides error classification, recovery decisions, and retry logic
@@ -99,10 +105,11 @@ export class ErrorRecoveryManager {
       return 'playwright';
     }
 
+    // 'ai' must be a whole word, otherwise "failed" or "contains" would match
     if (
       message.includes('claude') ||
       message.includes('codex') ||
-      message.includes('ai')
+      /\bai\b/.test(message)
     ) {
       return 'ai_agent';
     }
@@ -128,11 +135,15 @@ export class ErrorRecoveryManager {
     // Record error in history
     this.recordError(context);
 
-    // Check if max attempts reached
-    if (attemptCount >= this.retryConfig.maxAttempts) {
+    // Check if the retry budget for this category is used up
+    const budget = this.getRetryBudget(category);
+    if (attemptCount >= budget) {
       return {
         action: 'abort',
-        reason: `Max retry attempts (${this.retryConfig.maxAttempts}) reached for ${category} error`,
+        reason:
+          category === 'validation'
+            ? 'Validation error - data is invalid, cannot retry'
+            : `Max retry attempts (${budget}) reached for ${category} error`,
       };
     }
 
@@ -153,49 +164,49 @@ export class ErrorRecoveryManager {
         };
 
       case 'playwright':
-        // Playwright errors might be recoverable with retry
-        if (attemptCount < 2) {
-          return {
-            action: 'retry',
-            delay: this.calculateDelay(attemptCount),
-            reason: 'Playwright error - will retry (element might not be ready)',
-          };
-        }
         return {
-          action: 'abort',
-          reason: 'Playwright error persists after retries - likely selector issue',
+          action: 'retry',
+          delay: this.calculateDelay(attemptCount),
+          reason: 'Playwright error - will retry (element might not be ready)',
         };
 
       case 'ai_agent':
         return {
           action: 'retry',
-          delay: this.calculateDelay(attemptCount) * 2, // Longer delay for AI
+          delay: Math.min(this.calculateDelay(attemptCount) * 2, this.retryConfig.maxDelay), // Longer delay for AI
           reason: 'AI agent error - will retry with longer delay',
         };
 
       case 'validation':
-        // Validation errors are not recoverable by retry
+        // Only reached when a project explicitly budgets retries for validation errors
         return {
-          action: 'abort',
-          reason: 'Validation error - data is invalid, cannot retry',
+          action: 'retry',
+          delay: this.calculateDelay(attemptCount),
+          reason: 'Validation error - will retry as configured',
         };
 
       case 'internal':
       default:
-        if (attemptCount < 2) {
-          return {
-            action: 'retry',
-            delay: this.calculateDelay(attemptCount),
-            reason: 'Internal error - will retry once',
-          };
-        }
         return {
-          action: 'abort',
-          reason: 'Internal error persists - aborting',
+          action: 'retry',
+          delay: this.calculateDelay(attemptCount),
+          reason: 'Internal error - will retry',
         };
     }
   }
 
+  /**
+   * Max attempts (including the first) for an error category
+   * Configured budgets take precedence; defaults are capped by maxAttempts
+   */
+  getRetryBudget(category: ErrorCategory): number {
+    const configured = this.retryConfig.budgets?.[category];
+    if (configured !== undefined) {
+      return Math.max(1, Math.floor(configured));
+    }
+    return Math.min(DEFAULT_RETRY_BUDGETS[category], this.retryConfig.maxAttempts);
+  }
+
   /**
    * Calculate delay with exponential backoff
    */
@@ -263,8 +274,7 @@ export class ErrorRecoveryManager {
    * Check if error is recoverable
    */
   isRecoverable(error: Error): boolean {
-    const category = this.classifyError(error);
-    return category !== 'validation';
+    return this.getRetryBudget(this.classifyError(error)) > 1;
   }
 
   /**
@@ -292,6 +302,127 @@ export class ErrorRecoveryManager {
   }
 }
 
+/**
+ * A retry that is about to happen
+ */
+export interface RetryAttempt {
+  step: string;
+  /** Attempt that is about to run (2 = first retry) */
+  attempt: number;
+  /** Retry budget for the error category */
+  maxAttempts: number;
+  category: ErrorCategory;
+  error: Error;
+  delay: number;
+  reason: string;
+}
+
+/**
+ * Outcome of running a step under the recovery policy
+ */
+export type RecoveryOutcome<T> =
+  | { status: 'success'; value: T; attempts: number }
+  | {
+      status: 'failed';
+      error: Error;
+      attempts: number;
+      category: ErrorCategory;
+      /** The retry budget of the error category was used up */
+      retryExhausted: boolean;
+    };
+
+/**
+ * Options for runWithRecovery
+ */
+export interface RunWithRecoveryOptions {
+  manager: ErrorRecoveryManager;
+  runId: string;
+  step: string;
+  state: TestRunState;
+  /** Stops retrying when aborted; the abort error is rethrown */
+  signal?: AbortSignal;
+  /** Called before waiting for each retry */
+  onRetry?: (retry: RetryAttempt) => void | Promise<void>;
+}
+
+/**
+ * Run a pipeline step under the recovery policy
+ * Failures are classified and retried within the category's budget.
+ * Errors raised after the signal was aborted are rethrown without retrying.
+ * @see Requirements 7.7, 13.2
+ */
+export async function runWithRecovery<T>(
+  fn: () => Promise<T>,
+  options: RunWithRecoveryOptions
+): Promise<RecoveryOutcome<T>> {
+  const { manager, runId, step, state, signal, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { status: 'success', value: await fn(), attempts: attempt };
+    } catch (thrown) {
+      if (signal?.aborted) {
+        throw thrown;
+      }
+      const error = thrown instanceof Error ? thrown : new Error(String(thrown));
+      const category = manager.classifyError(error);
+      const decision = manager.determineRecovery({
+        runId,
+        step,
+        state,
+        error,
+        attemptCount: attempt,
+        timestamp: new Date(),
+      });
+
+      if (decision.action !== 'retry') {
+        const budget = manager.getRetryBudget(category);
+        return {
+          status: 'failed',
+          error,
+          attempts: attempt,
+          category,
+          retryExhausted: budget > 1 && attempt >= budget,
+        };
+      }
+
+      const delay = decision.delay ?? 0;
+      await onRetry?.({
+        step,
+        attempt: attempt + 1,
+        maxAttempts: manager.getRetryBudget(category),
+        category,
+        error,
+        delay,
+        reason: decision.reason,
+      });
+      await waitForRetry(delay, signal);
+      if (signal?.aborted) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Wait before a retry, returning early when the signal is aborted
+ */
+function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, delay);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
 /**
  * Retry wrapper function
  * Executes a function with automatic retry on failure
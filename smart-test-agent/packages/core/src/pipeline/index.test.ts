@@ -0,0 +1,119 @@
+/**
+ * Unit tests for Test Pipeline
+ * @see Requirements 2.2, 4.2
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { ElementInventory, TargetProfile } from '@smart-test-agent/shared';
+import { TestPipeline } from './index.js';
+import { DEFAULT_PIPELINE_STEPS, StepRegistry } from './step-registry.js';
+import { ELEMENT_INVENTORY_FILENAME } from '../source-indexer/element-inventory.js';
+
+describe('TestPipeline', () => {
+  let tempDir: string;
+  let frontendRoot: string;
+  let workspaceRoot: string;
+  let prdPath: string;
+
+  /** Only the initialize step runs, which prepares the inputs of the run */
+  const createPipeline = () =>
+    new TestPipeline({
+      stepRegistry: new StepRegistry(DEFAULT_PIPELINE_STEPS.filter((step) => step.id === 'initialize')),
+    });
+
+  /** A target profile as the server stores it: the source code config keeps the fields of its schema only */
+  const serverProfile = (sourceCode: Record<string, unknown>) =>
+    ({
+      baseUrl: 'http://localhost:3000',
+      browser: { ignoreHTTPSErrors: true, viewport: { width: 1280, height: 720 }, locale: 'zh-CN', timeoutMs: 30000 },
+      login: {
+        loginUrl: '/login',
+        usernameSelector: '#username',
+        passwordSelector: '#password',
+        submitSelector: '#submit',
+        credentials: { username: 'admin', password: 'secret' },
+        successIndicator: '.dashboard',
+      },
+      allowedRoutes: ['/users'],
+      allowedOperations: ['query'],
+      deniedOperations: [],
+      sourceCode: { routeFiles: [], pageFiles: [], ...sourceCode },
+      uiFramework: 'antd',
+    }) as unknown as TargetProfile;
+
+  const initialize = async (targetProfile: TargetProfile) => {
+    const result = await createPipeline().execute({
+      projectId: 'project-1',
+      prdPath,
+      routes: ['/users'],
+      targetProfile,
+      workspaceRoot,
+      promptsDir: path.join(tempDir, 'prompts'),
+      existingRunId: 'run-1',
+      skipStateTransitions: true,
+    });
+    expect(result.status).toBe('completed');
+    return path.join(workspaceRoot, 'run-1', 'inputs');
+  };
+
+  const readInventory = async (inputsDir: string): Promise<ElementInventory[]> =>
+    JSON.parse(await fs.readFile(path.join(inputsDir, ELEMENT_INVENTORY_FILENAME), 'utf-8'));
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'test-pipeline-'));
+    frontendRoot = path.join(tempDir, 'web');
+    workspaceRoot = path.join(tempDir, 'workspace');
+    prdPath = path.join(tempDir, 'prd.md');
+    await fs.writeFile(prdPath, '# 用户管理\n\n用户列表支持新增用户。\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('element inventory', () => {
+    it('should build the inventory from the router file of the frontend checkout', async () => {
+      await fs.mkdir(path.join(frontendRoot, 'src', 'router'), { recursive: true });
+      await fs.mkdir(path.join(frontendRoot, 'src', 'views'), { recursive: true });
+      await fs.writeFile(
+        path.join(frontendRoot, 'src', 'router', 'index.ts'),
+        `export default [{ path: '/users', component: () => import('@/views/UserList.vue') }];\n`
+      );
+      await fs.writeFile(
+        path.join(frontendRoot, 'src', 'views', 'UserList.vue'),
+        `<template>\n  <a-button type="primary">新增用户</a-button>\n</template>\n`
+      );
+
+      const inputsDir = await initialize(serverProfile({ frontendRoot, routerFile: 'src/router/index.ts' }));
+
+      const [inventory] = await readInventory(inputsDir);
+      expect(inventory.route).toBe('/users');
+      expect(inventory.componentPath).toBe(path.join(frontendRoot, 'src', 'views', 'UserList.vue'));
+      expect(inventory.elements).toContainEqual(expect.objectContaining({ kind: 'button', text: '新增用户' }));
+    });
+
+    it('should build the inventory from the page directory of file-system routing', async () => {
+      const pageDir = path.join(frontendRoot, 'pages');
+      await fs.mkdir(pageDir, { recursive: true });
+      await fs.writeFile(
+        path.join(pageDir, 'users.tsx'),
+        `export default function Users() {\n  return <button data-testid="add-user">新增用户</button>;\n}\n`
+      );
+
+      const inputsDir = await initialize(serverProfile({ pageDir, routingConvention: 'next-pages' }));
+
+      const [inventory] = await readInventory(inputsDir);
+      expect(inventory.route).toBe('/users');
+      expect(inventory.elements).toContainEqual(expect.objectContaining({ kind: 'button', testId: 'add-user' }));
+    });
+
+    it('should skip the inventory when only uploaded files are configured', async () => {
+      const inputsDir = await initialize(serverProfile({}));
+
+      await expect(fs.access(path.join(inputsDir, ELEMENT_INVENTORY_FILENAME))).rejects.toThrow();
+    });
+  });
+});
@@ -5,17 +5,21 @@
  * 工作目录结构:
  * .ai-test-workspace/{runId}/
  * ├── inputs/                    # 输入文件（只读）
- * │   ├── prd.md                 # PRD 文档
+ * │   ├── prd.md                 # PRD 文档（Word / PDF / HTML 转换为 Markdown）
+ * │   ├── prd-assets/            # PRD 中的图片
  * │   ├── routes/                # 路由配置文件
  * │   └── pages/                 # 页面源码文件
  * ├── outputs/                   # 输出文件
  * │   ├── requirements.json      # 解析出的需求
  * │   ├── test-cases.json        # 生成的测试用例
  * │   ├── execution-results.json # 执行结果
+ * │   ├── a11y-results.json      # 无障碍审计结果（启用 a11y_audit 步骤时）
+ * │   ├── prd-changes.json       # 相对基准运行的 PRD 变更摘要（增量解析时）
  * │   └── report.html            # 测试报告
  * ├── evidence/                  # 证据文件
  * │   ├── screenshots/           # 截图
  * │   └── traces/                # Playwright traces
+ * ├── incomplete/{stepId}/       # 取消时被中断步骤已写出的输出（不作为恢复执行的前置文件）
  * └── logs/                      # 日志文件
  *     ├── prd-parse.log          # PRD 解析日志
  *     ├── test-execute.log       # 测试执行日志
@@ -25,24 +29,80 @@
  */
 
 import { Orchestrator, type TransitionOptions } from '../orchestrator/index.js';
-import { SourceIndexer } from '../source-indexer/index.js';
-import { CliAdapter } from '../cli-adapter/index.js';
+import {
+  SourceIndexer,
+  discoverFileSystemRoutes,
+  findComponentForRoute,
+  ELEMENT_INVENTORY_FILENAME,
+  OPENAPI_ENDPOINTS_FILENAME,
+  parseOpenApiFile,
+} from '../source-indexer/index.js';
+import { applyRole } from '../target-profile/roles.js';
+import {
+  CliAdapter,
+  createLlmProviderBindings,
+  CassetteRecorder,
+  getCassettePath,
+  type LlmProviderBindingConfig,
+  type LlmResult,
+} from '../cli-adapter/index.js';
 import { CrossValidator } from '../cross-validator/index.js';
 import { ReportGenerator } from '../report-generator/index.js';
-import { calculateRC, calculateAPR, evaluateGate } from '../quality-gate/index.js';
-import { createWorkspace, type WorkspaceStructure } from '../workspace/workspace-manager.js';
-import { createManifest, saveManifest } from '../workspace/manifest-manager.js';
 import {
-  STEP_ORDER,
-  type ResumableStep,
-  type PipelineStep,
-} from './prerequisite-validator.js';
+  calculateRC,
+  calculateAPR,
+  calculateFR,
+  calculateA11Y,
+  evaluateGate,
+  type RunCaseHistory,
+} from '../quality-gate/index.js';
+import {
+  planIncrementalParse,
+  mergeIncrementalParse,
+  extractParseItems,
+  type IncrementalParsePlan,
+  type RawRequirement,
+  type RawTestCase,
+  type PrdChangeSummary,
+} from '../prd-diff/index.js';
+import { ingestPrd, PRD_ASSETS_DIRNAME } from '../prd-ingest/index.js';
+import { writeCaseBatch, runExecutionBatch, type ExecutionBatch } from '../case-approval/index.js';
+import { createWorkspace, getWorkspaceStructure, type WorkspaceStructure } from '../workspace/workspace-manager.js';
+import { createManifest, saveManifest, loadManifest, addRetryRecord } from '../workspace/manifest-manager.js';
+import { ErrorRecoveryManager, runWithRecovery, type RetryAttempt, type RetryConfig } from './error-recovery.js';
+import {
+  StepRegistry,
+  getRunStepSelection,
+  type PipelineStepDefinition,
+  type StepPhase,
+} from './step-registry.js';
+import { quarantineStepOutputs } from './prerequisite-validator.js';
+import {
+  LocalTestExecutor,
+  FAILED_CASES_FILENAME,
+  REPAIR_RESULTS_FILENAME,
+  A11Y_RESULTS_FILENAME,
+  assertValidExecutionResult,
+} from './local-executor.js';
+import {
+  mergeExecutionResults,
+  getFailedCaseIds,
+  getBaselineDir,
+  normalizeTestCases,
+} from '@smart-test-agent/playwright-runner';
 import type {
+  A11yAuditResult,
   TargetProfile,
+  LoginConfig,
   StateEvent,
   Requirement,
   TestCase,
   Assertion,
+  ExecutionMode,
+  ExecutionResult,
+  ReasonCode,
+  RoutingConvention,
+  TestRunState,
 } from '@smart-test-agent/shared';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -50,16 +110,42 @@ import * as path from 'path';
 // Re-export types from prerequisite-validator
 export {
   PrerequisiteValidator,
-  STEP_PREREQUISITES,
-  STEP_ORDER,
-  RESUMABLE_STEP_ORDER,
-  STEP_LABELS,
+  INCOMPLETE_OUTPUTS_DIR,
+  quarantineStepOutputs,
   type PipelineStep,
   type ResumableStep,
+  type PrerequisiteValidatorOptions,
   type PrerequisiteValidationResult,
   type ResumableStepInfo,
 } from './prerequisite-validator.js';
 
+export {
+  StepRegistry,
+  DEFAULT_PIPELINE_STEPS,
+  STEP_PHASE_ORDER,
+  validateStepGraph,
+  mergeStepSelections,
+  getRunStepSelection,
+  type PipelineStepDefinition,
+  type PipelineStepContext,
+  type StepPhase,
+  type StepPosition,
+} from './step-registry.js';
+
+export {
+  LocalTestExecutor,
+  LOCAL_SCRIPT_FILENAME,
+  FAILED_CASES_FILENAME,
+  REPAIR_RESULTS_FILENAME,
+  A11Y_SCRIPT_FILENAME,
+  A11Y_RESULTS_FILENAME,
+  assertValidExecutionResult,
+  getA11yAuditTargets,
+  type LocalExecutionOptions,
+  type LocalExecutionOutcome,
+  type A11yAuditOptions,
+} from './local-executor.js';
+
 export interface PipelineConfig {
   projectId: string;
   prdPath: string;
@@ -69,29 +155,116 @@ export interface PipelineConfig {
   promptsDir: string;
   existingRunId?: string;
   skipStateTransitions?: boolean;
-  /** 从指定步骤开始执行（恢复执行时使用） */
-  startFromStep?: ResumableStep;
+  /** 从指定步骤开始执行（恢复执行时使用），可以是内置步骤或已注册的自定义步骤 */
+  startFromStep?: string;
   /** 标记是否为恢复执行 */
   isResume?: boolean;
   /** 跳过审批等待，直接继续执行（审批通过后继续执行时使用） */
   skipApprovalWait?: boolean;
+  /** 测试执行模式，默认 agent */
+  executionMode?: ExecutionMode;
+  /** 各任务（parse/execute/review）绑定的 LLM provider，未配置的任务使用默认 CLI */
+  llmProviders?: LlmProviderBindingConfig;
+  /** 将每次 LLM 调用录制到工作目录 logs/ 下的 cassette 文件，供后续回放 */
+  recordCassette?: boolean;
+  /** 目标环境名称（dev/staging/uat），记录到 manifest 的 envFingerprint */
+  environment?: string;
+  /** 测试执行后对访问过的路由做无障碍审计（失败不阻断流程），等同于启用 a11y_audit 步骤 */
+  a11yAudit?: boolean;
+  /** 取消信号：触发后终止正在运行的 agent / 测试脚本进程，并以 cancelled 状态结束 */
+  signal?: AbortSignal;
+  /** 同一测试范围此前运行的用例结果（按时间升序），与本次结果合并后计算 FR */
+  runHistory?: RunCaseHistory[];
+  /** 增量解析的基准运行：只重新解析相对其 PRD 新增或修改的章节，其余需求与用例沿用原 ID */
+  incrementalBase?: IncrementalBase;
+  /** 部分审批：只执行本批次已审批的用例，结果与之前批次的 execution-results.json 合并 */
+  caseBatch?: ExecutionBatch;
 }
 
+/**
+ * 增量解析的基准运行
+ */
+export interface IncrementalBase {
+  runId: string;
+  /** 基准运行的工作目录，需包含 inputs/prd.md 与 outputs/ 下的解析结果 */
+  workspaceDir: string;
+}
+
+/** PRD 变更摘要文件名（位于 outputs/ 下） */
+export const PRD_CHANGES_FILENAME = 'prd-changes.json';
+
+/** 文件系统路由表文件名（位于 inputs/routes/ 下） */
+export const FILE_SYSTEM_ROUTES_FILENAME = 'file-system-routes.json';
+
+/**
+ * 基准运行的解析结果与增量计划
+ */
+interface IncrementalParseState {
+  base: IncrementalBase;
+  plan: IncrementalParsePlan;
+  previous: { requirements: RawRequirement[]; testCases: RawTestCase[] };
+}
+
+export interface TestPipelineOptions {
+  /** 自定义 CLI 适配器（例如预先绑定 replay provider） */
+  cliAdapter?: CliAdapter;
+  /** 步骤注册表（插入自定义步骤时使用），默认只包含内置步骤 */
+  stepRegistry?: StepRegistry;
+  /** 重试的延迟参数；各类错误的重试次数由 targetProfile.retryBudgets 配置 */
+  retryConfig?: Partial<Omit<RetryConfig, 'budgets'>>;
+}
+
+/**
+ * 一次 execute() 的运行状态，initialize 步骤创建运行和工作目录后写入
+ */
+interface PipelineRunState {
+  runId: string;
+  workspace: WorkspaceStructure | null;
+  /** 已执行或跳过的步骤结果，按步骤 ID */
+  results: Map<string, StepResult>;
+}
+
+/**
+ * 阶段的最后一个步骤完成后触发的状态事件
+ */
+const PHASE_COMPLETE_EVENTS: Record<StepPhase, StateEvent> = {
+  setup: 'START_PARSING',
+  parsing: 'GENERATION_COMPLETE',
+  execution: 'EXECUTION_COMPLETE',
+  review: 'REVIEW_COMPLETE',
+};
+
+/**
+ * 步骤失败时用于错误恢复决策的运行状态
+ */
+const PHASE_STATES: Record<StepPhase, TestRunState> = {
+  setup: 'created',
+  parsing: 'parsing',
+  execution: 'executing',
+  review: 'codex_reviewing',
+};
+
 export interface StepResult {
   step: string;
   status: 'success' | 'failed' | 'skipped';
   duration: number;
   error?: string;
   artifacts?: Record<string, string | number | boolean>;
+  /** 执行次数（包括重试） */
+  attempts?: number;
+  /** 失败原因，重试次数用完时为 retry_exhausted */
+  reasonCode?: ReasonCode;
 }
 
 export interface PipelineResult {
   runId: string;
-  status: 'completed' | 'failed' | 'cancelled' | 'awaiting_approval';
+  status: 'completed' | 'failed' | 'cancelled' | 'awaiting_approval' | 'batch_executed';
   steps: StepResult[];
   reportPath?: string;
-  qualityMetrics?: { rc: number; apr: number; fr?: number };
+  qualityMetrics?: { rc: number; apr: number; fr?: number; a11y?: number };
   error?: string;
+  /** 失败原因（status 为 failed 时） */
+  reasonCode?: ReasonCode;
   /** 标记是否正在等待审批 */
   awaitingApproval?: boolean;
   /** 等待审批时的测试用例路径 */
@@ -105,11 +278,14 @@ export type PipelineEventType =
   | 'step_completed'
   | 'step_failed'
   | 'step_skipped'
+  | 'step_retrying'
   | 'pipeline_resumed'
+  | 'pipeline_cancelled'
   | 'state_changed'
   | 'screenshot_captured'
   | 'approval_required'
   | 'confirmation_required'
+  | 'batch_executed'
   | 'cli_log';
 
 export type PipelineEventHandler = (event: {
@@ -124,15 +300,27 @@ export class TestPipeline {
   private cliAdapter: CliAdapter;
   private crossValidator: CrossValidator;
   private reportGenerator: ReportGenerator;
+  private localExecutor: LocalTestExecutor;
+  private stepRegistry: StepRegistry;
+  private retryConfig: Partial<Omit<RetryConfig, 'budgets'>>;
+  private errorRecovery: ErrorRecoveryManager;
+  private activeSteps: PipelineStepDefinition[] = [];
   private eventHandlers: PipelineEventHandler[] = [];
   private skipStateTransitions: boolean = false;
+  private signal: AbortSignal | undefined;
+  private currentStep: string | undefined;
+  private workspaceRoot = '';
 
-  constructor() {
+  constructor(options: TestPipelineOptions = {}) {
     this.orchestrator = new Orchestrator();
     this.sourceIndexer = new SourceIndexer();
-    this.cliAdapter = new CliAdapter();
+    this.cliAdapter = options.cliAdapter ?? new CliAdapter();
     this.crossValidator = new CrossValidator();
     this.reportGenerator = new ReportGenerator();
+    this.localExecutor = new LocalTestExecutor();
+    this.stepRegistry = options.stepRegistry ?? new StepRegistry();
+    this.retryConfig = options.retryConfig ?? {};
+    this.errorRecovery = new ErrorRecoveryManager(this.retryConfig);
   }
 
   onEvent(handler: PipelineEventHandler): void {
@@ -149,33 +337,45 @@ export class TestPipeline {
     }
   }
 
+  /**
+   * 本次运行启用的步骤：项目配置的启用/禁用，加上运行级的无障碍审计开关
+   */
+  private resolveSteps(config: PipelineConfig): PipelineStepDefinition[] {
+    return this.stepRegistry.resolve(
+      getRunStepSelection(config.targetProfile.pipelineSteps, config.a11yAudit)
+    );
+  }
+
   /**
    * 判断指定步骤是否应该被跳过
    * @param step 步骤名称
    * @param config Pipeline 配置
    * @returns 是否应该跳过
    */
-  private shouldSkipStep(step: PipelineStep, config: PipelineConfig): boolean {
+  private shouldSkipStep(step: string, config: PipelineConfig): boolean {
     if (!config.isResume || !config.startFromStep) {
       return false;
     }
-    const stepIndex = STEP_ORDER.indexOf(step);
-    const startIndex = STEP_ORDER.indexOf(config.startFromStep);
-    return stepIndex < startIndex;
+    const stepIds = this.activeSteps.map((s) => s.id);
+    return stepIds.indexOf(step) < stepIds.indexOf(config.startFromStep);
   }
 
   /**
-   * 创建跳过步骤的结果
-   * @param step 步骤名称
-   * @param runId 运行 ID
+   * 创建跳过步骤的结果，artifacts 指向步骤声明的输出文件
+   * @param step 步骤定义
+   * @param state 运行状态
    * @returns 跳过的步骤结果
    */
-  private createSkippedStepResult(step: string, runId: string): StepResult {
-    this.emit('step_skipped', runId, { step, timestamp: new Date().toISOString() });
+  private createSkippedStepResult(step: PipelineStepDefinition, state: PipelineRunState): StepResult {
+    this.emit('step_skipped', state.runId, { step: step.id, timestamp: new Date().toISOString() });
+    const root = state.workspace!.root;
     return {
-      step,
+      step: step.id,
       status: 'skipped',
       duration: 0,
+      artifacts: Object.fromEntries(
+        Object.entries(step.outputs).map(([name, file]) => [name, path.join(root, file)])
+      ),
     };
   }
 
@@ -187,106 +387,314 @@ export class TestPipeline {
     console.log(`[TestPipeline] skipApprovalWait: ${config.skipApprovalWait}`);
     
     const steps: StepResult[] = [];
-    let runId = config.existingRunId || '';
-    let workspace: WorkspaceStructure | null = null;
+    const state: PipelineRunState = {
+      runId: config.existingRunId || '',
+      workspace: null,
+      results: new Map(),
+    };
     
     this.skipStateTransitions = config.skipStateTransitions ?? false;
+    this.signal = config.signal;
+    this.currentStep = undefined;
+    this.workspaceRoot = config.workspaceRoot;
+    this.errorRecovery = new ErrorRecoveryManager({
+      ...this.retryConfig,
+      budgets: config.targetProfile.retryBudgets,
+    });
+    this.cliAdapter.setSignal(config.signal ?? null);
+    if (config.llmProviders) {
+      this.cliAdapter.setProviders(createLlmProviderBindings(config.llmProviders));
+    }
 
     // 如果是恢复执行，发送 pipeline_resumed 事件
-    if (config.isResume && config.startFromStep && runId) {
+    if (config.isResume && config.startFromStep && state.runId) {
       console.log(`[TestPipeline] 发送 pipeline_resumed 事件, fromStep: ${config.startFromStep}`);
-      this.emit('pipeline_resumed', runId, {
+      this.emit('pipeline_resumed', state.runId, {
         fromStep: config.startFromStep,
         timestamp: new Date().toISOString(),
       });
     }
 
     try {
-      // Step 0: Initialize workspace and copy input files
-      console.log(`[TestPipeline] Step 0: Initialize - shouldSkip: ${this.shouldSkipStep('initialize', config)}`);
-      if (this.shouldSkipStep('initialize', config)) {
-        // 跳过 initialize 步骤，加载现有工作目录
-        console.log(`[TestPipeline] 跳过 initialize，加载现有工作目录`);
-        steps.push(this.createSkippedStepResult('initialize', runId));
-        const workspacePath = path.join(config.workspaceRoot, runId);
-        console.log(`[TestPipeline] 工作目录: ${workspacePath}`);
-        workspace = await createWorkspace(config.workspaceRoot, runId);
-        console.log(`[TestPipeline] workspace.root: ${workspace.root}`);
-      } else {
-        const initResult = await this.executeStep('initialize', async () => {
-          if (!runId) {
-            const testRun = await this.orchestrator.createRun({
-              projectId: config.projectId,
-              prdPath: config.prdPath,
-              routes: config.routes,
-            });
-            runId = testRun.id;
+      this.activeSteps = this.resolveSteps(config);
+      console.log(`[TestPipeline] 启用的步骤: ${this.activeSteps.map((step) => step.id).join(' → ')}`);
+      if (config.startFromStep && !this.activeSteps.some((step) => step.id === config.startFromStep)) {
+        throw new Error(`Pipeline step is not enabled: ${config.startFromStep}`);
+      }
+
+      for (const [index, step] of this.activeSteps.entries()) {
+        const skip = this.shouldSkipStep(step.id, config);
+        console.log(`[TestPipeline] ${step.id} - shouldSkip: ${skip}`);
+
+        let result: StepResult;
+        if (skip) {
+          if (step.id === 'initialize') {
+            // 跳过 initialize 步骤，加载现有工作目录
+            state.workspace = await createWorkspace(config.workspaceRoot, state.runId);
+            console.log(`[TestPipeline] workspace.root: ${state.workspace.root}`);
           }
-          workspace = await createWorkspace(config.workspaceRoot, runId);
-          
-          // Create directory structure
-          const inputsDir = path.join(workspace.root, 'inputs');
-          const outputsDir = path.join(workspace.root, 'outputs');
-          const logsDir = path.join(workspace.root, 'logs');
-          await fs.mkdir(path.join(inputsDir, 'routes'), { recursive: true });
-          await fs.mkdir(path.join(inputsDir, 'pages'), { recursive: true });
-          await fs.mkdir(outputsDir, { recursive: true });
-          await fs.mkdir(logsDir, { recursive: true });
-          
-          // Copy PRD file
-          const prdContent = await fs.readFile(config.prdPath, 'utf-8');
-          await fs.writeFile(path.join(inputsDir, 'prd.md'), prdContent);
-          
-          // Copy route files
-          const sourceCode = config.targetProfile.sourceCode as { routeFiles?: string[]; pageFiles?: string[] };
-          if (sourceCode?.routeFiles) {
-            for (const routeFile of sourceCode.routeFiles) {
-              try {
-                const fileName = path.basename(routeFile);
-                await fs.copyFile(routeFile, path.join(inputsDir, 'routes', fileName));
-              } catch (err) {
-                console.warn(`Could not copy route file: ${routeFile}`, err);
-              }
+          result = this.createSkippedStepResult(step, state);
+        } else {
+          result = await this.runStep(step, config, state);
+        }
+        steps.push(result);
+        state.results.set(step.id, result);
+
+        if (result.status === 'failed') {
+          if (step.blocking === false) {
+            console.log(`[TestPipeline] ${step.id} 失败，继续执行: ${result.error}`);
+          } else {
+            console.log(`[TestPipeline] ${step.id} 失败: ${result.error}`);
+            const reasonCode = result.reasonCode ?? step.errorType ?? 'internal_error';
+            if (step.phase !== 'setup') {
+              await this.transitionState(state.runId, 'ERROR', { errorType: reasonCode });
             }
+            return this.createFailedResult(state.runId, steps, result.error, reasonCode);
           }
-          
-          // Copy page files
-          if (sourceCode?.pageFiles) {
-            for (const pageFile of sourceCode.pageFiles) {
-              try {
-                const fileName = path.basename(pageFile);
-                await fs.copyFile(pageFile, path.join(inputsDir, 'pages', fileName));
-              } catch (err) {
-                console.warn(`Could not copy page file: ${pageFile}`, err);
-              }
-            }
+        }
+
+        // 仍有被驳回的用例等待重新生成：暂停在执行之后，最后一批执行完再进入评审
+        if (step.id === 'test_execution' && config.caseBatch?.holdForRegeneration) {
+          await this.transitionState(state.runId, 'BATCH_EXECUTED');
+          this.emit('batch_executed', state.runId, { caseIds: config.caseBatch.caseIds });
+          return { runId: state.runId, status: 'batch_executed', steps };
+        }
+
+        // 阶段的最后一个步骤完成后推进状态
+        const next = this.activeSteps[index + 1];
+        if (!next || next.phase !== step.phase) {
+          const paused = await this.completePhase(step.phase, config, state, steps);
+          if (paused) {
+            return paused;
           }
-          
-          // Create manifest
-          const manifest = createManifest(
-            runId,
-            config.projectId,
-            { claudeCode: 'unknown', codex: 'unknown' },
-            { prdParse: 'v1', uiTestExecute: 'v1', reviewResults: 'v1' }
-          );
-          await saveManifest(workspace.manifest, manifest);
-          
-          // Write target profile for test execution
-          const targetProfileForExecution = {
-            baseUrl: config.targetProfile.baseUrl,
-            login: config.targetProfile.login,
-            browser: config.targetProfile.browser,
-            allowedRoutes: config.targetProfile.allowedRoutes,
-            uiFramework: config.targetProfile.uiFramework,
-            antdQuirks: config.targetProfile.antdQuirks,
-          };
-          await fs.writeFile(
-            path.join(inputsDir, 'target-profile.json'),
-            JSON.stringify(targetProfileForExecution, null, 2)
-          );
-          
-          // Create README for the workspace
-          const readme = `# 测试运行工作目录
+        }
+      }
+
+      const reportResult = state.results.get('report_generation');
+      const gateResult = state.results.get('quality_gate');
+      return {
+        runId: state.runId,
+        status: 'completed',
+        steps,
+        reportPath: reportResult?.artifacts?.reportPath as string,
+        qualityMetrics: {
+          rc: gateResult?.artifacts?.rc as number || 0,
+          apr: gateResult?.artifacts?.apr as number || 0,
+          fr: gateResult?.artifacts?.fr as number | undefined,
+          a11y: gateResult?.artifacts?.a11y as number | undefined,
+        },
+      };
+    } catch (error) {
+      if (this.signal?.aborted) {
+        return await this.createCancelledResult(state.runId, steps);
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return this.createFailedResult(state.runId, steps, errorMessage);
+    } finally {
+      this.cliAdapter.setSignal(null);
+    }
+  }
+
+  /**
+   * 执行一个步骤：提供了 run 的步骤（自定义步骤）调用 run，内置步骤调用对应的实现
+   */
+  private async runStep(
+    step: PipelineStepDefinition,
+    config: PipelineConfig,
+    state: PipelineRunState
+  ): Promise<StepResult> {
+    if (step.id === 'initialize') {
+      return this.executeInitialize(config, state);
+    }
+
+    const workspace = state.workspace!;
+    const runId = state.runId;
+    if (step.run) {
+      const run = step.run;
+      return this.executeStep(step.id, () => run({
+        runId,
+        workspaceRoot: workspace.root,
+        targetProfile: config.targetProfile,
+        artifacts: Object.assign({}, ...[...state.results.values()].map((result) => result.artifacts ?? {})),
+        signal: config.signal,
+        log: (message) => this.emit('cli_log', runId, { source: step.id, type: 'info', message }),
+      }), runId);
+    }
+
+    switch (step.id) {
+      case 'prd_parsing':
+        return this.executePrdParsing(config, workspace, runId);
+      case 'test_execution': {
+        const parseResult = state.results.get('prd_parsing')!;
+        return config.caseBatch
+          ? this.executeCaseBatch(config, config.caseBatch, workspace, runId, parseResult)
+          : this.executeTestExecution(config, workspace, runId, parseResult);
+      }
+      case 'a11y_audit':
+        return this.executeA11yAudit(config, workspace, runId);
+      case 'codex_review':
+        return this.executeCodexReview(config, workspace, runId, state.results.get('test_execution')!);
+      case 'cross_validation':
+        return this.executeCrossValidation(workspace, runId);
+      case 'report_generation':
+        return this.executeReportGeneration(config, workspace, runId);
+      case 'quality_gate':
+        return this.executeQualityGate(config, workspace, runId);
+      default:
+        return this.executeStep(step.id, async () => {
+          throw new Error(`No handler for pipeline step: ${step.id}`);
+        }, runId);
+    }
+  }
+
+  /**
+   * 阶段完成：触发阶段对应的状态事件，并在审批/确认点暂停
+   * @returns 需要暂停时返回 pipeline 结果，否则返回 null
+   */
+  private async completePhase(
+    phase: StepPhase,
+    config: PipelineConfig,
+    state: PipelineRunState,
+    steps: StepResult[]
+  ): Promise<PipelineResult | null> {
+    const runId = state.runId;
+    if (phase === 'setup') {
+      this.cliAdapter.setRecorder(
+        config.recordCassette ? new CassetteRecorder(getCassettePath(state.workspace!.root)) : null
+      );
+    }
+
+    await this.transitionState(runId, PHASE_COMPLETE_EVENTS[phase]);
+
+    if (phase === 'parsing' && !this.shouldSkipStep('prd_parsing', config)) {
+      const parseResult = state.results.get('prd_parsing');
+      this.emit('approval_required', runId, { 
+        testCasesPath: parseResult?.artifacts?.testCasesPath,
+        requirementsPath: parseResult?.artifacts?.requirementsPath,
+      });
+      
+      // 如果不是恢复执行且不跳过审批等待，则暂停执行等待审批
+      if (!config.isResume && !config.skipApprovalWait) {
+        console.log(`[TestPipeline] 等待审批，暂停执行`);
+        return {
+          runId,
+          status: 'awaiting_approval',
+          steps,
+          awaitingApproval: true,
+          testCasesPath: parseResult?.artifacts?.testCasesPath as string,
+          requirementsPath: parseResult?.artifacts?.requirementsPath as string,
+        };
+      }
+    }
+
+    if (phase === 'review') {
+      this.emit('confirmation_required', runId, {
+        reportPath: state.results.get('report_generation')?.artifacts?.reportPath,
+      });
+    }
+    return null;
+  }
+
+  /**
+   * 执行初始化步骤：创建运行（existingRunId 为空时）和工作目录，准备输入文件
+   */
+  private async executeInitialize(config: PipelineConfig, state: PipelineRunState): Promise<StepResult> {
+    return this.executeStep('initialize', async () => {
+      if (!state.runId) {
+        const testRun = await this.orchestrator.createRun({
+          projectId: config.projectId,
+          prdPath: config.prdPath,
+          routes: config.routes,
+        });
+        state.runId = testRun.id;
+      }
+      const runId = state.runId;
+      const workspace = await createWorkspace(config.workspaceRoot, runId);
+      state.workspace = workspace;
+      
+      // Create directory structure
+      const inputsDir = path.join(workspace.root, 'inputs');
+      const outputsDir = path.join(workspace.root, 'outputs');
+      const logsDir = path.join(workspace.root, 'logs');
+      await fs.mkdir(path.join(inputsDir, 'routes'), { recursive: true });
+      await fs.mkdir(path.join(inputsDir, 'pages'), { recursive: true });
+      await fs.mkdir(outputsDir, { recursive: true });
+      await fs.mkdir(logsDir, { recursive: true });
+      
+      // Convert the PRD (Markdown / Word / PDF / HTML) to Markdown, images go to inputs/prd-assets/
+      const prd = await ingestPrd(config.prdPath, { assetsDir: path.join(inputsDir, PRD_ASSETS_DIRNAME) });
+      await fs.writeFile(path.join(inputsDir, 'prd.md'), prd.markdown);
+      for (const warning of prd.warnings) {
+        console.warn(`[TestPipeline] PRD 转换: ${warning}`);
+      }
+      
+      // Copy route files
+      const sourceCode = config.targetProfile.sourceCode as {
+        routeFiles?: string[];
+        pageFiles?: string[];
+        pageDir?: string;
+        routingConvention?: RoutingConvention;
+      };
+      if (sourceCode?.routeFiles) {
+        for (const routeFile of sourceCode.routeFiles) {
+          try {
+            const fileName = path.basename(routeFile);
+            await fs.copyFile(routeFile, path.join(inputsDir, 'routes', fileName));
+          } catch (err) {
+            console.warn(`Could not copy route file: ${routeFile}`, err);
+          }
+        }
+      }
+      
+      // Copy page files
+      if (sourceCode?.pageFiles) {
+        for (const pageFile of sourceCode.pageFiles) {
+          try {
+            const fileName = path.basename(pageFile);
+            await fs.copyFile(pageFile, path.join(inputsDir, 'pages', fileName));
+          } catch (err) {
+            console.warn(`Could not copy page file: ${pageFile}`, err);
+          }
+        }
+      }
+
+      // Projects without a router file: discover routes from the page directory
+      if (sourceCode?.routingConvention && sourceCode.pageDir) {
+        await this.copyFileSystemRoutes(sourceCode.pageDir, sourceCode.routingConvention, config.routes, inputsDir);
+      }
+
+      // Inventory of the UI elements the tested pages render, used to check step selectors
+      await this.writeElementInventory(config, inputsDir);
+
+      // Backend endpoints with request / response schemas, used to write data preparation steps
+      await this.writeOpenApiEndpoints(config, inputsDir);
+      
+      // Create manifest
+      const manifest = createManifest(
+        runId,
+        config.projectId,
+        { claudeCode: 'unknown', codex: 'unknown' },
+        { prdParse: 'v1', uiTestExecute: 'v1', reviewResults: 'v1' },
+        config.environment ? { environment: config.environment } : {}
+      );
+      await saveManifest(workspace.manifest, manifest);
+      
+      // Write target profile for test execution
+      const targetProfileForExecution = {
+        baseUrl: config.targetProfile.baseUrl,
+        login: config.targetProfile.login,
+        browser: config.targetProfile.browser,
+        allowedRoutes: config.targetProfile.allowedRoutes,
+        uiFramework: config.targetProfile.uiFramework,
+        antdQuirks: config.targetProfile.antdQuirks,
+      };
+      await fs.writeFile(
+        path.join(inputsDir, 'target-profile.json'),
+        JSON.stringify(targetProfileForExecution, null, 2)
+      );
+      
+      // Create README for the workspace
+      const readme = `# 测试运行工作目录
 
 运行 ID: ${runId}
 项目 ID: ${config.projectId}
@@ -301,167 +709,103 @@ export class TestPipeline {
 
 ## 输入文件
 
-- PRD 文档: \`inputs/prd.md\`
-- 路由配置: \`inputs/routes/\`
+- PRD 文档: \`inputs/prd.md\`（图片位于 \`inputs/${PRD_ASSETS_DIRNAME}/\`）
+- 路由配置: \`inputs/routes/\`（文件系统路由项目为 \`${FILE_SYSTEM_ROUTES_FILENAME}\`）
 - 页面源码: \`inputs/pages/\`
+- 页面元素清单: \`inputs/${ELEMENT_INVENTORY_FILENAME}\`（配置了源码目录时生成）
+- 后端接口清单: \`inputs/${OPENAPI_ENDPOINTS_FILENAME}\`（配置了 OpenAPI 文档时生成）
 
 ## 测试路由
 
 ${config.routes.map(r => `- ${r}`).join('\n')}
 `;
-          await fs.writeFile(path.join(workspace.root, 'README.md'), readme);
-          
-          return { workspacePath: workspace.root, runId };
-        }, runId);
-        steps.push(initResult);
-        if (initResult.status === 'failed' || !workspace) {
-          return this.createFailedResult(runId, steps, initResult.error);
-        }
-      }
+      await fs.writeFile(path.join(workspace.root, 'README.md'), readme);
+      
+      return { workspacePath: workspace.root, runId, prdFormat: prd.format, prdAssets: prd.assets.length };
+    }, state.runId);
+  }
 
-      await this.transitionState(runId, 'START_PARSING');
-
-      // Step 1: PRD parsing
-      let parseResult: StepResult;
-      if (this.shouldSkipStep('prd_parsing', config)) {
-        parseResult = this.createSkippedStepResult('prd_parsing', runId);
-        // 设置 artifacts 以便后续步骤使用
-        const outputsDir = path.join(workspace!.root, 'outputs');
-        parseResult.artifacts = {
-          requirementsPath: path.join(outputsDir, 'requirements.json'),
-          testCasesPath: path.join(outputsDir, 'test-cases.json'),
-        };
-      } else {
-        parseResult = await this.executePrdParsing(config, workspace!, runId);
-      }
-      steps.push(parseResult);
-      if (parseResult.status === 'failed') {
-        await this.transitionState(runId, 'ERROR', { errorType: 'internal_error' });
-        return this.createFailedResult(runId, steps, parseResult.error);
-      }
 
-      await this.transitionState(runId, 'GENERATION_COMPLETE');
-      if (!this.shouldSkipStep('prd_parsing', config)) {
-        this.emit('approval_required', runId, { 
-          testCasesPath: parseResult.artifacts?.testCasesPath,
-          requirementsPath: parseResult.artifacts?.requirementsPath,
-        });
-        
-        // 如果不是恢复执行且不跳过审批等待，则暂停执行等待审批
-        if (!config.isResume && !config.skipApprovalWait) {
-          console.log(`[TestPipeline] 等待审批，暂停执行`);
-          return {
-            runId,
-            status: 'awaiting_approval',
-            steps,
-            awaitingApproval: true,
-            testCasesPath: parseResult.artifacts?.testCasesPath as string,
-            requirementsPath: parseResult.artifacts?.requirementsPath as string,
-          };
+  /**
+   * 写入从页面目录发现的路由表，并复制被测路由的页面及其布局组件
+   * 文件保留相对页面目录上级的路径，避免 page.tsx / index.vue 等同名文件互相覆盖
+   * @see Requirements 2.1
+   */
+  private async copyFileSystemRoutes(
+    pageDir: string,
+    convention: RoutingConvention,
+    testedRoutes: string[],
+    inputsDir: string
+  ): Promise<void> {
+    try {
+      const { routes } = await discoverFileSystemRoutes(pageDir, convention);
+      await fs.writeFile(path.join(inputsDir, 'routes', FILE_SYSTEM_ROUTES_FILENAME), JSON.stringify(routes, null, 2));
+
+      const files = new Set<string>();
+      for (const testedRoute of testedRoutes) {
+        const componentPath = findComponentForRoute(routes, testedRoute);
+        if (!componentPath) {
+          console.warn(`[TestPipeline] 页面目录中未找到路由: ${testedRoute}`);
+          continue;
         }
+        files.add(componentPath);
+        const route = routes.find((r) => r.componentPath === componentPath);
+        route?.layouts?.forEach((layout) => files.add(layout));
       }
 
-      // Step 2: Test execution
-      console.log(`[TestPipeline] Step 2: test_execution - shouldSkip: ${this.shouldSkipStep('test_execution', config)}`);
-      let execResult: StepResult;
-      if (this.shouldSkipStep('test_execution', config)) {
-        console.log(`[TestPipeline] 跳过 test_execution`);
-        execResult = this.createSkippedStepResult('test_execution', runId);
-        const outputsDir = path.join(workspace!.root, 'outputs');
-        execResult.artifacts = {
-          executionResultsPath: path.join(outputsDir, 'execution-results.json'),
-          screenshotsDir: path.join(workspace!.root, 'evidence', 'screenshots'),
-        };
-      } else {
-        console.log(`[TestPipeline] 开始执行 test_execution...`);
-        execResult = await this.executeTestExecution(config, workspace!, runId, parseResult);
-        console.log(`[TestPipeline] test_execution 完成, 状态: ${execResult.status}`);
-      }
-      steps.push(execResult);
-      if (execResult.status === 'failed') {
-        console.log(`[TestPipeline] test_execution 失败: ${execResult.error}`);
-        await this.transitionState(runId, 'ERROR', { errorType: 'playwright_error' });
-        return this.createFailedResult(runId, steps, execResult.error);
-      }
-
-      await this.transitionState(runId, 'EXECUTION_COMPLETE');
-
-      // Step 3: Codex review
-      let reviewResult: StepResult;
-      if (this.shouldSkipStep('codex_review', config)) {
-        reviewResult = this.createSkippedStepResult('codex_review', runId);
-        const outputsDir = path.join(workspace!.root, 'outputs');
-        reviewResult.artifacts = {
-          reviewResultsPath: path.join(outputsDir, 'codex-review-results.json'),
-        };
-      } else {
-        reviewResult = await this.executeCodexReview(config, workspace!, runId, execResult);
-      }
-      steps.push(reviewResult);
-      if (reviewResult.status === 'failed') {
-        await this.transitionState(runId, 'ERROR', { errorType: 'internal_error' });
-        return this.createFailedResult(runId, steps, reviewResult.error);
-      }
-
-      // Step 4: Cross-validation
-      let validationResult: StepResult;
-      if (this.shouldSkipStep('cross_validation', config)) {
-        validationResult = this.createSkippedStepResult('cross_validation', runId);
-        const outputsDir = path.join(workspace!.root, 'outputs');
-        validationResult.artifacts = {
-          crossValidationPath: path.join(outputsDir, 'cross-validation-results.json'),
-          conflictCount: 0,
-        };
-      } else {
-        validationResult = await this.executeCrossValidation(workspace!, runId);
-      }
-      steps.push(validationResult);
-      if (validationResult.status === 'failed') {
-        await this.transitionState(runId, 'ERROR', { errorType: 'verdict_conflict' });
-        return this.createFailedResult(runId, steps, validationResult.error);
+      const baseDir = path.dirname(path.resolve(pageDir));
+      for (const file of files) {
+        const target = path.join(inputsDir, 'pages', path.relative(baseDir, file));
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.copyFile(file, target);
       }
+    } catch (err) {
+      console.warn(`Could not discover routes from page directory: ${pageDir}`, err);
+    }
+  }
 
-      // Step 5: Generate report
-      let reportResult: StepResult;
-      if (this.shouldSkipStep('report_generation', config)) {
-        reportResult = this.createSkippedStepResult('report_generation', runId);
-        const outputsDir = path.join(workspace!.root, 'outputs');
-        reportResult.artifacts = {
-          reportPath: path.join(outputsDir, 'report.html'),
-        };
-      } else {
-        reportResult = await this.executeReportGeneration(workspace!, runId);
-      }
-      steps.push(reportResult);
-      if (reportResult.status === 'failed') {
-        await this.transitionState(runId, 'ERROR', { errorType: 'internal_error' });
-        return this.createFailedResult(runId, steps, reportResult.error);
-      }
+  /**
+   * 写入被测路由的页面元素清单（按钮、表单项、表格列、弹窗、data-testid）
+   * 路由来自文件系统路由的页面目录，或前端源码目录下的路由文件；两者都未配置时不生成，失败不影响运行
+   * @see Requirements 2.2, 4.2
+   */
+  private async writeElementInventory(config: PipelineConfig, inputsDir: string): Promise<void> {
+    const sourceCode = config.targetProfile.sourceCode;
+    const routeSource = sourceCode?.routingConvention
+      ? sourceCode.pageDir
+      : sourceCode?.frontendRoot && sourceCode.routerFile;
+    if (!routeSource) {
+      return;
+    }
 
-      // Step 6: Quality gate
-      const gateResult = await this.executeQualityGate(workspace!, runId);
-      steps.push(gateResult);
+    try {
+      const inventory = await this.sourceIndexer.buildElementInventory(config.routes, config.targetProfile);
+      await fs.writeFile(path.join(inputsDir, ELEMENT_INVENTORY_FILENAME), JSON.stringify(inventory, null, 2));
+    } catch (err) {
+      console.warn(`Could not build element inventory from: ${routeSource}`, err);
+    }
+  }
 
-      await this.transitionState(runId, 'REVIEW_COMPLETE');
-      this.emit('confirmation_required', runId, { reportPath: reportResult.artifacts?.reportPath });
+  /**
+   * 写入 OpenAPI 文档中的后端接口（路径、请求体必填字段、响应结构）
+   * 相对路径基于前端源码目录解析，失败不影响运行
+   * @see Requirements 2.2, 19.1
+   */
+  private async writeOpenApiEndpoints(config: PipelineConfig, inputsDir: string): Promise<void> {
+    const sourceCode = config.targetProfile.sourceCode;
+    if (!sourceCode?.openApiFile) {
+      return;
+    }
 
-      return {
-        runId,
-        status: 'completed',
-        steps,
-        reportPath: reportResult.artifacts?.reportPath as string,
-        qualityMetrics: {
-          rc: gateResult.artifacts?.rc as number || 0,
-          apr: gateResult.artifacts?.apr as number || 0,
-        },
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return this.createFailedResult(runId, steps, errorMessage);
+    const specPath = path.resolve(sourceCode.frontendRoot ?? '', sourceCode.openApiFile);
+    try {
+      const { endpoints } = await parseOpenApiFile(specPath);
+      await fs.writeFile(path.join(inputsDir, OPENAPI_ENDPOINTS_FILENAME), JSON.stringify(endpoints, null, 2));
+    } catch (err) {
+      console.warn(`Could not read OpenAPI document: ${specPath}`, err);
     }
   }
 
-
   /**
    * 执行 PRD 解析步骤
    */
@@ -471,6 +815,16 @@ ${config.routes.map(r => `- ${r}`).join('\n')}
     runId: string
   ): Promise<StepResult> {
     return this.executeStep('prd_parsing', async () => {
+      const incremental = config.incrementalBase
+        ? await this.loadIncrementalParseState(config.incrementalBase, workspace)
+        : null;
+
+      // 没有新增或修改的章节时无需调用 agent，直接沿用基准运行的结果
+      if (incremental && !incremental.plan.fullReparse && incremental.plan.sectionsToParse.length === 0) {
+        console.log(`[Pipeline] PRD 相对 ${incremental.base.runId} 无新增或修改章节，沿用已有需求和测试用例`);
+        return this.writeIncrementalParseOutputs(workspace, incremental, { requirements: [], testCases: [] });
+      }
+
       const promptPath = path.join(config.promptsDir, 'prd-parse.md');
       const promptTemplate = await fs.readFile(promptPath, 'utf-8');
       
@@ -487,7 +841,7 @@ ${config.routes.map(r => `- ${r}`).join('\n')}
 ${testRoutes.map(r => `- \`${r}\``).join('\n')}
 
 生成的所有测试用例中的 \`route\` 字段必须使用上面指定的路由路径，不要使用 routes.js 中的菜单 key（如 AUTO_SCAN_CONFIG）。
-
+${this.buildRolesPromptSection(config.targetProfile, false)}${this.buildIncrementalPromptSection(incremental?.plan)}
 ## 工作目录说明
 
 你当前的工作目录已经设置好，包含所有需要的输入文件。**请使用相对路径访问文件。**
@@ -497,8 +851,11 @@ ${testRoutes.map(r => `- \`${r}\``).join('\n')}
 ./                          # 当前工作目录
 ├── inputs/
 │   ├── prd.md              # PRD 文档
+│   ├── prd-assets/         # PRD 中的图片（prd.md 中以相对路径引用，可按需查看）
 │   ├── routes/             # 路由配置文件（仅供参考组件结构，不要从中提取路由路径）
-│   └── pages/              # 页面源码文件（可能是 .zip，需要解压）
+│   ├── pages/              # 页面源码文件（可能是 .zip，需要解压）
+│   ├── ${ELEMENT_INVENTORY_FILENAME}  # 页面元素清单（配置了源码目录时存在）
+│   └── ${OPENAPI_ENDPOINTS_FILENAME}  # 后端接口清单（配置了 OpenAPI 文档时存在）
 ├── outputs/                # 输出目录（已创建）
 │   └── test-cases/         # 测试用例子目录（需要创建）
 ├── evidence/               # 证据目录
@@ -512,9 +869,11 @@ ${testRoutes.map(r => `- \`${r}\``).join('\n')}
 3. 读取 \`./inputs/pages/\` 下的页面源码文件：
    - 如果有 .zip 文件，先用 \`unzip\` 命令解压
    - 然后读取解压后的源码文件
-4. 根据 PRD 和源码分析，生成 requirements 和 test-cases
-5. **重要**：所有测试用例的 \`route\` 字段必须使用上面指定的测试路由
-6. 将结果保存到输出目录
+4. 如果存在 \`./inputs/${ELEMENT_INVENTORY_FILENAME}\`，步骤的 \`selector\` 优先使用清单中已有的按钮文本、表单标签、占位符和 data-testid；清单中找不到的元素会在审批时被标记
+5. 如果存在 \`./inputs/${OPENAPI_ENDPOINTS_FILENAME}\`，用例的数据准备与清理步骤按其中的接口路径填写 \`target\`，\`data\` 需包含请求体的必填字段
+6. 根据 PRD 和源码分析，生成 requirements 和 test-cases
+7. **重要**：所有测试用例的 \`route\` 字段必须使用上面指定的测试路由
+8. 将结果保存到输出目录
 
 ## 输出要求
 
@@ -577,7 +936,7 @@ mkdir -p ./outputs/test-cases
         this.emit('cli_log', runId, { source: 'claude', type, message });
       };
       
-      const result = await this.cliAdapter.invokeClaudeCode({
+      const result = await this.cliAdapter.invokeTask('parse', {
         prompt,
         workingDir: workspace.root,
         outputFormat: 'stream-json',
@@ -590,140 +949,248 @@ mkdir -p ./outputs/test-cases
       );
       
       if (!result.success) {
-        throw new Error(`Claude Code 调用失败: ${result.error || '未知错误'}`);
+        throw new Error(`${this.cliAdapter.getProviderType('parse')} 调用失败: ${result.error || '未知错误'}`);
       }
       
-      const outputsDir = path.join(workspace.root, 'outputs');
-      const requirementsPath = path.join(outputsDir, 'requirements.json');
-      const testCasesPath = path.join(outputsDir, 'test-cases.json');
-      const testCasesDir = path.join(outputsDir, 'test-cases');
-      const testCasesIndexPath = path.join(outputsDir, 'test-cases-index.json');
-      
-      let requirementsExist = false;
-      let testCasesExist = false;
-      let testCasesDirExist = false;
-      
-      try {
-        await fs.access(requirementsPath);
-        requirementsExist = true;
-      } catch { /* file doesn't exist */ }
-      
-      try {
-        await fs.access(testCasesPath);
-        testCasesExist = true;
-      } catch { /* file doesn't exist */ }
-      
+      const outputs = await this.collectPrdParseOutputs(workspace, result);
+      if (!incremental) {
+        return outputs;
+      }
+
+      const generated = await this.readPrdParseOutputs(outputs.requirementsPath, outputs.testCasesPath);
+      return this.writeIncrementalParseOutputs(workspace, incremental, generated);
+    }, runId);
+  }
+
+  /**
+   * 收集 agent 写入的解析结果，统一为 outputs/requirements.json 与 outputs/test-cases.json
+   */
+  private async collectPrdParseOutputs(
+    workspace: WorkspaceStructure,
+    result: LlmResult
+  ): Promise<{ requirementsPath: string; testCasesPath: string }> {
+    const outputsDir = path.join(workspace.root, 'outputs');
+    const requirementsPath = path.join(outputsDir, 'requirements.json');
+    const testCasesPath = path.join(outputsDir, 'test-cases.json');
+    const testCasesDir = path.join(outputsDir, 'test-cases');
+    const testCasesIndexPath = path.join(outputsDir, 'test-cases-index.json');
+    
+    let requirementsExist = false;
+    let testCasesExist = false;
+    let testCasesDirExist = false;
+    
+    try {
+      await fs.access(requirementsPath);
+      requirementsExist = true;
+    } catch { /* file doesn't exist */ }
+    
+    try {
+      await fs.access(testCasesPath);
+      testCasesExist = true;
+    } catch { /* file doesn't exist */ }
+    
+    try {
+      const stat = await fs.stat(testCasesDir);
+      testCasesDirExist = stat.isDirectory();
+    } catch { /* directory doesn't exist */ }
+    
+    if (requirementsExist && testCasesExist) {
       try {
-        const stat = await fs.stat(testCasesDir);
-        testCasesDirExist = stat.isDirectory();
-      } catch { /* directory doesn't exist */ }
-      
-      if (requirementsExist && testCasesExist) {
-        try {
-          JSON.parse(await fs.readFile(requirementsPath, 'utf-8'));
-          JSON.parse(await fs.readFile(testCasesPath, 'utf-8'));
-          return { requirementsPath, testCasesPath };
-        } catch (e) {
-          throw new Error(`Claude 写入的文件 JSON 格式错误: ${e instanceof Error ? e.message : '未知错误'}`);
-        }
+        JSON.parse(await fs.readFile(requirementsPath, 'utf-8'));
+        JSON.parse(await fs.readFile(testCasesPath, 'utf-8'));
+        return { requirementsPath, testCasesPath };
+      } catch (e) {
+        throw new Error(`Claude 写入的文件 JSON 格式错误: ${e instanceof Error ? e.message : '未知错误'}`);
       }
+    }
+    
+    if (requirementsExist && testCasesDirExist) {
+      console.log('[Pipeline] 检测到多文件测试用例格式，正在合并...');
       
-      if (requirementsExist && testCasesDirExist) {
-        console.log('[Pipeline] 检测到多文件测试用例格式，正在合并...');
-        
-        const files = await fs.readdir(testCasesDir);
-        const reqFiles = files.filter(f => f.startsWith('REQ-') && f.endsWith('.json'));
-        
-        if (reqFiles.length > 0) {
-          const allTestCases: unknown[] = [];
-          
-          for (const reqFile of reqFiles) {
-            try {
-              const filePath = path.join(testCasesDir, reqFile);
-              const content = await fs.readFile(filePath, 'utf-8');
-              const parsed = JSON.parse(content);
-              
-              if (Array.isArray(parsed)) {
-                allTestCases.push(...parsed);
-              } else if (parsed.test_cases && Array.isArray(parsed.test_cases)) {
-                allTestCases.push(...parsed.test_cases);
-              } else if (parsed.testCases && Array.isArray(parsed.testCases)) {
-                allTestCases.push(...parsed.testCases);
-              }
-            } catch (e) {
-              console.warn(`[Pipeline] 无法解析测试用例文件 ${reqFile}:`, e);
-            }
-          }
-          
-          if (allTestCases.length > 0) {
-            await fs.writeFile(testCasesPath, JSON.stringify(allTestCases, null, 2));
-            console.log(`[Pipeline] 已合并 ${reqFiles.length} 个文件，共 ${allTestCases.length} 个测试用例`);
-            return { requirementsPath, testCasesPath };
-          }
-        }
-        
-        try {
-          await fs.access(testCasesIndexPath);
-          const indexContent = await fs.readFile(testCasesIndexPath, 'utf-8');
-          const index = JSON.parse(indexContent);
-          console.log(`[Pipeline] 测试用例索引: ${index.total_test_cases || 0} 个测试用例`);
-        } catch { /* index doesn't exist */ }
-      }
+      const files = await fs.readdir(testCasesDir);
+      const reqFiles = files.filter(f => f.startsWith('REQ-') && f.endsWith('.json'));
       
-      if (requirementsExist && !testCasesExist && !testCasesDirExist) {
-        let testCases: unknown[] = [];
+      if (reqFiles.length > 0) {
+        const allTestCases: unknown[] = [];
         
-        if (result.output && result.output.trim()) {
+        for (const reqFile of reqFiles) {
           try {
-            const parsed = JSON.parse(result.output);
-            if (parsed.testCases) {
-              testCases = parsed.testCases;
-            }
-          } catch {
-            const jsonMatch = result.output.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-              try {
-                const parsed = JSON.parse(jsonMatch[0]);
-                if (parsed.testCases) {
-                  testCases = parsed.testCases;
-                }
-              } catch { /* ignore */ }
+            const filePath = path.join(testCasesDir, reqFile);
+            const content = await fs.readFile(filePath, 'utf-8');
+            const parsed = JSON.parse(content);
+            
+            if (Array.isArray(parsed)) {
+              allTestCases.push(...parsed);
+            } else if (parsed.test_cases && Array.isArray(parsed.test_cases)) {
+              allTestCases.push(...parsed.test_cases);
+            } else if (parsed.testCases && Array.isArray(parsed.testCases)) {
+              allTestCases.push(...parsed.testCases);
             }
+          } catch (e) {
+            console.warn(`[Pipeline] 无法解析测试用例文件 ${reqFile}:`, e);
           }
         }
         
-        if (testCases.length > 0) {
-          await fs.writeFile(testCasesPath, JSON.stringify(testCases, null, 2));
+        if (allTestCases.length > 0) {
+          await fs.writeFile(testCasesPath, JSON.stringify(allTestCases, null, 2));
+          console.log(`[Pipeline] 已合并 ${reqFiles.length} 个文件，共 ${allTestCases.length} 个测试用例`);
           return { requirementsPath, testCasesPath };
-        } else {
-          throw new Error('Claude 未能生成 test-cases.json 文件或 test-cases/ 目录');
         }
       }
       
-      if (!result.output || result.output.trim() === '') {
-        throw new Error('Claude Code 返回空输出且未写入文件');
-      }
-      
-      let parsed: { requirements?: unknown[]; testCases?: unknown[] };
       try {
-        parsed = JSON.parse(result.output);
-      } catch {
-        const jsonMatch = result.output.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          parsed = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error('无法解析 Claude Code 输出为 JSON');
+        await fs.access(testCasesIndexPath);
+        const indexContent = await fs.readFile(testCasesIndexPath, 'utf-8');
+        const index = JSON.parse(indexContent);
+        console.log(`[Pipeline] 测试用例索引: ${index.total_test_cases || 0} 个测试用例`);
+      } catch { /* index doesn't exist */ }
+    }
+    
+    if (requirementsExist && !testCasesExist && !testCasesDirExist) {
+      let testCases: unknown[] = [];
+      
+      if (result.output && result.output.trim()) {
+        try {
+          const parsed = JSON.parse(result.output);
+          if (parsed.testCases) {
+            testCases = parsed.testCases;
+          }
+        } catch {
+          const jsonMatch = result.output.match(/\{[\s\S]*\}/);
+          if (jsonMatch) {
+            try {
+              const parsed = JSON.parse(jsonMatch[0]);
+              if (parsed.testCases) {
+                testCases = parsed.testCases;
+              }
+            } catch { /* ignore */ }
+          }
         }
       }
       
-      await fs.writeFile(requirementsPath, JSON.stringify(parsed.requirements || [], null, 2));
-      await fs.writeFile(testCasesPath, JSON.stringify(parsed.testCases || [], null, 2));
-      
-      return {
-        requirementsPath: path.join(outputsDir, 'requirements.json'),
-        testCasesPath: path.join(outputsDir, 'test-cases.json'),
-      };
-    }, runId);
+      if (testCases.length > 0) {
+        await fs.writeFile(testCasesPath, JSON.stringify(testCases, null, 2));
+        return { requirementsPath, testCasesPath };
+      } else {
+        throw new Error('Claude 未能生成 test-cases.json 文件或 test-cases/ 目录');
+      }
+    }
+    
+    if (!result.output || result.output.trim() === '') {
+      throw new Error('Claude Code 返回空输出且未写入文件');
+    }
+    
+    let parsed: { requirements?: unknown[]; testCases?: unknown[] };
+    try {
+      parsed = JSON.parse(result.output);
+    } catch {
+      const jsonMatch = result.output.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        parsed = JSON.parse(jsonMatch[0]);
+      } else {
+        throw new Error('无法解析 Claude Code 输出为 JSON');
+      }
+    }
+    
+    await fs.writeFile(requirementsPath, JSON.stringify(parsed.requirements || [], null, 2));
+    await fs.writeFile(testCasesPath, JSON.stringify(parsed.testCases || [], null, 2));
+    
+    return {
+      requirementsPath: path.join(outputsDir, 'requirements.json'),
+      testCasesPath: path.join(outputsDir, 'test-cases.json'),
+    };
+  }
+
+  private async readPrdParseOutputs(
+    requirementsPath: string,
+    testCasesPath: string
+  ): Promise<{ requirements: RawRequirement[]; testCases: RawTestCase[] }> {
+    const requirements = JSON.parse(await fs.readFile(requirementsPath, 'utf-8'));
+    const testCases = JSON.parse(await fs.readFile(testCasesPath, 'utf-8'));
+    return {
+      requirements: extractParseItems(requirements, 'requirements'),
+      testCases: extractParseItems(testCases, 'test_cases', 'testCases'),
+    };
+  }
+
+  /**
+   * 读取基准运行的 PRD 与解析结果，对比本次 PRD 生成增量计划
+   */
+  private async loadIncrementalParseState(
+    base: IncrementalBase,
+    workspace: WorkspaceStructure
+  ): Promise<IncrementalParseState> {
+    const baseOutputsDir = path.join(base.workspaceDir, 'outputs');
+    let previousPrd: string;
+    let previous: IncrementalParseState['previous'];
+    try {
+      previousPrd = await fs.readFile(path.join(base.workspaceDir, 'inputs', 'prd.md'), 'utf-8');
+      previous = await this.readPrdParseOutputs(
+        path.join(baseOutputsDir, 'requirements.json'),
+        path.join(baseOutputsDir, 'test-cases.json')
+      );
+    } catch (e) {
+      throw new Error(`无法读取基准运行 ${base.runId} 的解析结果: ${e instanceof Error ? e.message : '未知错误'}`);
+    }
+
+    const currentPrd = await fs.readFile(path.join(workspace.root, 'inputs', 'prd.md'), 'utf-8');
+    return { base, plan: planIncrementalParse(previousPrd, currentPrd, previous.requirements), previous };
+  }
+
+  /**
+   * 合并基准运行与本次生成的需求和测试用例，写入解析结果与 prd-changes.json
+   * test-cases/ 目录按合并后的需求重新生成，保证与 test-cases.json 一致
+   */
+  private async writeIncrementalParseOutputs(
+    workspace: WorkspaceStructure,
+    incremental: IncrementalParseState,
+    generated: { requirements: RawRequirement[]; testCases: RawTestCase[] }
+  ): Promise<Record<string, string | number | boolean>> {
+    const { base, plan, previous } = incremental;
+    const merged = mergeIncrementalParse(previous, generated, plan);
+
+    const outputsDir = path.join(workspace.root, 'outputs');
+    const requirementsPath = path.join(outputsDir, 'requirements.json');
+    const testCasesPath = path.join(outputsDir, 'test-cases.json');
+    const testCasesDir = path.join(outputsDir, 'test-cases');
+    const prdChangesPath = path.join(outputsDir, PRD_CHANGES_FILENAME);
+
+    await fs.writeFile(requirementsPath, JSON.stringify({ version: '1.0', requirements: merged.requirements }, null, 2));
+    await fs.writeFile(testCasesPath, JSON.stringify(merged.testCases, null, 2));
+
+    await fs.rm(testCasesDir, { recursive: true, force: true });
+    await fs.mkdir(testCasesDir, { recursive: true });
+    for (const requirement of merged.requirements) {
+      const requirementId = String(requirement.requirement_id ?? requirement.requirementId);
+      const testCases = merged.testCases.filter(
+        (tc) => (tc.requirement_id ?? tc.requirementId) === requirementId
+      );
+      await fs.writeFile(
+        path.join(testCasesDir, `${requirementId}.json`),
+        JSON.stringify({ requirement_id: requirementId, test_cases: testCases }, null, 2)
+      );
+    }
+
+    const summary: PrdChangeSummary = {
+      baseRunId: base.runId,
+      fullReparse: plan.fullReparse,
+      sections: plan.sectionDiff,
+      requirements: merged.changes,
+    };
+    await fs.writeFile(prdChangesPath, JSON.stringify(summary, null, 2));
+    console.log(
+      `[Pipeline] 增量解析完成: 新增 ${merged.changes.added.length}，修改 ${merged.changes.modified.length}，` +
+        `删除 ${merged.changes.removed.length}，未变 ${merged.changes.unchanged.length}`
+    );
+
+    return {
+      requirementsPath,
+      testCasesPath,
+      prdChangesPath,
+      requirementsAdded: merged.changes.added.length,
+      requirementsModified: merged.changes.modified.length,
+      requirementsRemoved: merged.changes.removed.length,
+    };
   }
 
 
@@ -736,14 +1203,16 @@ mkdir -p ./outputs/test-cases
     runId: string,
     parseResult: StepResult
   ): Promise<StepResult> {
+    if (config.executionMode === 'local') {
+      return this.executeLocalTestExecution(config, workspace, runId, parseResult);
+    }
     return this.executeStep('test_execution', async () => {
       console.log(`[TestPipeline] executeTestExecution 开始`);
       console.log(`[TestPipeline] workspace.root: ${workspace.root}`);
       console.log(`[TestPipeline] testCasesPath: ${parseResult.artifacts?.testCasesPath}`);
       
-      const testCases = JSON.parse(
-        await fs.readFile(parseResult.artifacts?.testCasesPath as string, 'utf-8')
-      );
+      const testCasesPath = parseResult.artifacts?.testCasesPath as string;
+      const testCases = JSON.parse(await fs.readFile(testCasesPath, 'utf-8'));
       console.log(`[TestPipeline] 测试用例数量: ${testCases.length}`);
       
       const execPromptPath = path.join(config.promptsDir, 'ui-test-execute.md');
@@ -761,14 +1230,8 @@ mkdir -p ./outputs/test-cases
 **基础 URL**: ${targetProfile.baseUrl}
 
 **登录配置**:
-- 登录页面: ${targetProfile.login.loginUrl}
-- 用户名字段: ${targetProfile.login.usernameSelector}
-- 密码字段: ${targetProfile.login.passwordSelector}
-- 提交按钮: ${targetProfile.login.submitSelector}
-- 测试用户名: ${targetProfile.login.credentials?.username || ''}
-- 测试密码: ${targetProfile.login.credentials?.password || ''}
-- 登录成功标识: ${targetProfile.login.successIndicator}
-
+${this.buildLoginPromptSection(targetProfile.login)}
+${this.buildRolesPromptSection(targetProfile, true)}
 **浏览器配置**:
 - 视口: ${targetProfile.browser.viewport?.width || 1280}x${targetProfile.browser.viewport?.height || 720}
 - 超时: ${targetProfile.browser.timeoutMs || 30000}ms
@@ -790,9 +1253,9 @@ ${JSON.stringify(testCases, null, 2)}
 ## 任务
 
 1. 读取 \`inputs/target-profile.json\` 获取目标应用配置
-2. 读取 \`outputs/test-cases.json\` 获取测试用例
+2. 读取 \`${path.relative(workspace.root, testCasesPath)}\` 获取测试用例
 3. 使用 Playwright 执行测试：
-   - 首先登录系统（使用上面的登录配置）
+   - 首先登录系统（使用上面的登录配置；带 \`role\` 字段的用例使用对应角色的登录配置）
    - 然后执行每个测试用例
 4. 将截图保存到 \`evidence/screenshots/\` 目录
 5. 将执行结果保存到 \`outputs/execution-results.json\`
@@ -802,7 +1265,7 @@ ${JSON.stringify(testCases, null, 2)}
         this.emit('cli_log', runId, { source: 'claude', type, message });
       };
       
-      const result = await this.cliAdapter.invokeClaudeCode({
+      const result = await this.cliAdapter.invokeTask('execute', {
         prompt,
         workingDir: workspace.root,
         outputFormat: 'stream-json',
@@ -816,7 +1279,7 @@ ${JSON.stringify(testCases, null, 2)}
       );
       
       if (!result.success) {
-        throw new Error(`Claude Code 调用失败: ${result.error || '未知错误'}`);
+        throw new Error(`${this.cliAdapter.getProviderType('execute')} 调用失败: ${result.error || '未知错误'}`);
       }
       
       const outputsDir = path.join(workspace.root, 'outputs');
@@ -851,6 +1314,156 @@ ${JSON.stringify(testCases, null, 2)}
     }, runId);
   }
 
+  /**
+   * 执行部分审批的一批用例：只把本批次的用例交给执行步骤，
+   * 并将结果与之前批次的结果合并，供 codex_review / cross_validation 使用
+   * 本批次失败或取消时，execution-results.json 恢复为之前批次的结果
+   */
+  private async executeCaseBatch(
+    config: PipelineConfig,
+    batch: ExecutionBatch,
+    workspace: WorkspaceStructure,
+    runId: string,
+    parseResult: StepResult
+  ): Promise<StepResult> {
+    const batchPath = await writeCaseBatch(parseResult.artifacts?.testCasesPath as string, batch.caseIds);
+    console.log(`[TestPipeline] 执行已审批用例批次: ${batch.caseIds.join(', ')}`);
+    return runExecutionBatch(
+      path.join(workspace.root, 'outputs'),
+      () => this.executeTestExecution(config, workspace, runId, {
+        ...parseResult,
+        artifacts: { ...parseResult.artifacts, testCasesPath: batchPath },
+      }),
+      (execResult) => execResult.status === 'success'
+    );
+  }
+
+  /**
+   * 本地模式执行测试：由 playwright-runner 生成并运行脚本，
+   * 仅将失败的用例交给 Claude Code 修复
+   */
+  private async executeLocalTestExecution(
+    config: PipelineConfig,
+    workspace: WorkspaceStructure,
+    runId: string,
+    parseResult: StepResult
+  ): Promise<StepResult> {
+    return this.executeStep('test_execution', async () => {
+      const testCasesPath = parseResult.artifacts?.testCasesPath as string;
+      const outputsDir = path.join(workspace.root, 'outputs');
+      const executionResultsPath = path.join(outputsDir, 'execution-results.json');
+      const log = (type: 'stdout' | 'stderr' | 'info', message: string) => {
+        this.emit('cli_log', runId, { source: 'playwright', type, message });
+      };
+
+      log('info', '本地执行模式：生成并运行 Playwright 脚本');
+      const outcome = await this.localExecutor.execute({
+        runId,
+        workspaceRoot: workspace.root,
+        testCasesPath,
+        targetProfile: config.targetProfile,
+        baselineDir: getBaselineDir(config.workspaceRoot, config.projectId, config.environment),
+        signal: config.signal,
+      });
+      if (outcome.stdout) log('stdout', outcome.stdout);
+      if (outcome.stderr) log('stderr', outcome.stderr);
+
+      let logContent = `${outcome.stdout}\n${outcome.stderr}`;
+      let result = outcome.result;
+      const failedCaseIds = getFailedCaseIds(result);
+      let repairedCases = 0;
+
+      if (failedCaseIds.length > 0) {
+        log('info', `${failedCaseIds.length} 个用例失败，交给 ${this.cliAdapter.getProviderType('execute')} 修复: ${failedCaseIds.join(', ')}`);
+        const repaired = await this.repairFailedCases(
+          config, workspace, runId, testCasesPath,
+          outcome.testCases.filter((tc) => failedCaseIds.includes(tc.caseId))
+        );
+        if (repaired) {
+          result = mergeExecutionResults(result, repaired.result);
+          repairedCases = failedCaseIds.length - getFailedCaseIds(repaired.result).length;
+          logContent += `\n\n--- repair ---\n${repaired.log}`;
+          assertValidExecutionResult(result);
+          await fs.writeFile(executionResultsPath, JSON.stringify(result, null, 2));
+        }
+      }
+
+      await fs.writeFile(path.join(workspace.root, 'logs', 'test-execute.log'), logContent);
+
+      return {
+        executionResultsPath,
+        screenshotsDir: path.join(workspace.root, 'evidence', 'screenshots'),
+        executionMode: 'local',
+        repairedCases,
+      };
+    }, runId);
+  }
+
+  /**
+   * 将失败的用例交给 Claude Code 修复并重新执行
+   * Claude Code 不可用或修复失败时返回 null，保留本地执行结果
+   */
+  private async repairFailedCases(
+    config: PipelineConfig,
+    workspace: WorkspaceStructure,
+    runId: string,
+    testCasesPath: string,
+    failedTestCases: TestCase[]
+  ): Promise<{ result: ExecutionResult; log: string } | null> {
+    const onLog = (type: 'stdout' | 'stderr' | 'info', message: string) => {
+      this.emit('cli_log', runId, { source: 'claude', type, message });
+    };
+
+    if (!(await this.cliAdapter.isTaskAvailable('execute'))) {
+      onLog('info', `${this.cliAdapter.getProviderType('execute')} 不可用，保留本地执行结果`);
+      return null;
+    }
+
+    await this.localExecutor.writeFailedCases(
+      workspace.root, testCasesPath, failedTestCases.map((tc) => tc.caseId)
+    );
+    await fs.rm(path.join(workspace.root, 'outputs', REPAIR_RESULTS_FILENAME), { force: true });
+
+    const execPrompt = await fs.readFile(path.join(config.promptsDir, 'ui-test-execute.md'), 'utf-8');
+    const prompt = `${execPrompt}
+
+---
+
+## 修复任务
+
+以下测试用例在本地确定性执行中失败，执行结果见 \`outputs/execution-results.json\`，
+生成的脚本为 \`local-test-run.cjs\`。
+
+1. 读取 \`inputs/target-profile.json\` 获取目标应用配置
+2. 读取 \`outputs/${FAILED_CASES_FILENAME}\` 获取失败的测试用例
+3. 分析失败原因（选择器错误、等待不足等），修正后仅重新执行这些用例
+4. 将截图保存到 \`evidence/screenshots/\` 目录
+5. 将这些用例的执行结果保存到 \`outputs/${REPAIR_RESULTS_FILENAME}\`（格式与 execution-results.json 相同）
+6. 不要修改 \`outputs/execution-results.json\`
+`;
+
+    const result = await this.cliAdapter.invokeTask('execute', {
+      prompt,
+      workingDir: workspace.root,
+      outputFormat: 'stream-json',
+      allowedTools: ['Bash', 'Read', 'Write'],
+      onLog,
+    });
+    const log = result.rawOutput || result.output || '';
+
+    if (!result.success) {
+      onLog('info', `${this.cliAdapter.getProviderType('execute')} 修复失败，保留本地执行结果: ${result.error || '未知错误'}`);
+      return null;
+    }
+
+    const repaired = await this.localExecutor.loadRepairResult(workspace.root, runId, failedTestCases);
+    if (!repaired) {
+      onLog('info', `未找到有效的 outputs/${REPAIR_RESULTS_FILENAME}，保留本地执行结果`);
+      return null;
+    }
+    return { result: repaired, log };
+  }
+
   /**
    * 执行 Codex 审核步骤
    */
@@ -880,7 +1493,7 @@ ${JSON.stringify(executionResults, null, 2)}
         this.emit('cli_log', runId, { source: 'codex', type, message });
       };
       
-      const result = await this.cliAdapter.invokeCodex({
+      const result = await this.cliAdapter.invokeTask('review', {
         prompt,
         workingDir: workspace.root,
         onLog,
@@ -892,7 +1505,7 @@ ${JSON.stringify(executionResults, null, 2)}
       );
       
       if (!result.success) {
-        throw new Error(`Codex 调用失败: ${result.error || '未知错误'}`);
+        throw new Error(`${this.cliAdapter.getProviderType('review')} 调用失败: ${result.error || '未知错误'}`);
       }
       
       let reviewResults: unknown;
@@ -959,10 +1572,77 @@ ${JSON.stringify(executionResults, null, 2)}
     }, runId);
   }
 
+  /**
+   * 执行无障碍审计步骤：用测试执行的登录会话打开每个路由并评估内置规则
+   * @see Requirements 10.1, 11.1
+   */
+  private async executeA11yAudit(
+    config: PipelineConfig,
+    workspace: WorkspaceStructure,
+    runId: string
+  ): Promise<StepResult> {
+    return this.executeStep('a11y_audit', async () => {
+      const outputsDir = path.join(workspace.root, 'outputs');
+      // 先删除旧结果，审计失败时报告不会引用上一次的结果
+      await fs.rm(path.join(outputsDir, A11Y_RESULTS_FILENAME), { force: true });
+
+      const testCases = normalizeTestCases(
+        JSON.parse(await fs.readFile(path.join(outputsDir, 'test-cases.json'), 'utf-8')),
+        runId
+      );
+      const audit = await this.localExecutor.audit({
+        runId,
+        workspaceRoot: workspace.root,
+        testCases,
+        targetProfile: config.targetProfile,
+        signal: config.signal,
+      });
+
+      const violationCount = audit.routes.reduce((sum, route) => sum + route.violations.length, 0);
+      this.emit('cli_log', runId, {
+        source: 'playwright',
+        type: 'info',
+        message: `无障碍审计完成：${audit.routes.length} 个路由，${violationCount} 项违规`,
+      });
+
+      return {
+        a11yResultsPath: path.join(outputsDir, A11Y_RESULTS_FILENAME),
+        auditedRoutes: audit.routes.length,
+        violationCount,
+      };
+    }, runId);
+  }
+
+  /**
+   * 读取无障碍审计结果，未启用审计或审计未产出结果时返回 undefined
+   */
+  private async loadA11yAudit(outputsDir: string): Promise<A11yAuditResult | undefined> {
+    if (!this.activeSteps.some((step) => step.id === 'a11y_audit')) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(await fs.readFile(path.join(outputsDir, A11Y_RESULTS_FILENAME), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 读取执行结果（用于关联 HAR 与生成候选缺陷），缺失时返回 undefined
+   */
+  private async loadExecutionResult(outputsDir: string): Promise<ExecutionResult | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(outputsDir, 'execution-results.json'), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * 执行报告生成步骤
    */
   private async executeReportGeneration(
+    config: PipelineConfig,
     workspace: WorkspaceStructure,
     runId: string
   ): Promise<StepResult> {
@@ -978,11 +1658,19 @@ ${JSON.stringify(executionResults, null, 2)}
         await fs.readFile(path.join(outputsDir, 'cross-validation-results.json'), 'utf-8')
       );
       
+      const assertions: Assertion[] = crossValidationResults.updatedAssertions || [];
+      const a11yAudit = await this.loadA11yAudit(outputsDir);
+      const executionResult = await this.loadExecutionResult(outputsDir);
+      const qualityMetrics = [calculateRC(requirements, testCases), calculateAPR(assertions)];
+      if (a11yAudit) {
+        qualityMetrics.push(calculateA11Y(a11yAudit));
+      }
+
       const { reportPath } = this.reportGenerator.generateReport(
-        crossValidationResults.updatedAssertions || [],
+        assertions,
         testCases,
         requirements,
-        { runId, outputDir: outputsDir }
+        { runId, outputDir: outputsDir, qualityMetrics, a11yAudit, executionResult }
       );
       
       return { reportPath };
@@ -993,6 +1681,7 @@ ${JSON.stringify(executionResults, null, 2)}
    * 执行质量门检查步骤
    */
   private async executeQualityGate(
+    config: PipelineConfig,
     workspace: WorkspaceStructure,
     runId: string
   ): Promise<StepResult> {
@@ -1008,33 +1697,127 @@ ${JSON.stringify(executionResults, null, 2)}
         await fs.readFile(path.join(outputsDir, 'cross-validation-results.json'), 'utf-8')
       );
       
+      const a11yAudit = await this.loadA11yAudit(outputsDir);
+      
+      // FR 需要至少 3 次运行：此前运行的用例结果 + 本次执行结果
+      const executionResult = await this.loadExecutionResult(outputsDir);
+      const runHistory: RunCaseHistory[] = [
+        ...(config.runHistory ?? []),
+        ...(executionResult ? [{ testCases: executionResult.testCases }] : []),
+      ];
+      
       const rc = calculateRC(requirements, testCases);
       const apr = calculateAPR(crossValidationResults.updatedAssertions || []);
+      const fr = calculateFR(runHistory);
       const gateStatus = evaluateGate(
-        requirements, testCases, crossValidationResults.updatedAssertions || []
+        requirements, testCases, crossValidationResults.updatedAssertions || [], runHistory, {}, a11yAudit
       );
       
-      return { rc: rc.value, apr: apr.value, passed: gateStatus.passed, blocked: gateStatus.blocked };
+      return {
+        rc: rc.value,
+        apr: apr.value,
+        ...(fr ? { fr: fr.value } : {}),
+        ...(a11yAudit ? { a11y: calculateA11Y(a11yAudit).value } : {}),
+        passed: gateStatus.passed,
+        blocked: gateStatus.blocked,
+      };
     }, runId);
   }
 
+  /**
+   * 执行步骤：失败时按错误恢复策略重试，重试次数用完后以 retry_exhausted 失败
+   * @see Requirements 7.7, 13.2
+   */
   private async executeStep(
     stepName: string,
     fn: () => Promise<Record<string, string | number | boolean>>,
     runId: string
   ): Promise<StepResult> {
+    if (this.signal?.aborted) {
+      throw new Error('Pipeline cancelled');
+    }
     const startTime = Date.now();
+    this.currentStep = stepName;
     this.emit('step_started', runId, { step: stepName });
+
+    // 取消导致的失败不作为步骤失败处理，由 runWithRecovery 抛出，execute() 以 cancelled 结束
+    const phase = this.activeSteps.find((step) => step.id === stepName)?.phase ?? 'setup';
+    const outcome = await runWithRecovery(fn, {
+      manager: this.errorRecovery,
+      runId,
+      step: stepName,
+      state: PHASE_STATES[phase],
+      signal: this.signal,
+      onRetry: (retry) => this.recordRetry(runId, retry),
+    });
+
+    const duration = Date.now() - startTime;
+    // 步骤已结束：之后的取消不再中断它
+    this.currentStep = undefined;
+    if (outcome.status === 'success') {
+      const artifacts = outcome.value;
+      this.emit('step_completed', runId, { step: stepName, duration, artifacts, attempts: outcome.attempts });
+      return { step: stepName, status: 'success', duration, artifacts, attempts: outcome.attempts };
+    }
+
+    const errorMessage = outcome.error.message || 'Unknown error';
+    const reasonCode: ReasonCode | undefined = outcome.retryExhausted ? 'retry_exhausted' : undefined;
+    this.emit('step_failed', runId, {
+      step: stepName,
+      duration,
+      error: errorMessage,
+      attempts: outcome.attempts,
+      category: outcome.category,
+      reasonCode,
+    });
+    return {
+      step: stepName,
+      status: 'failed',
+      duration,
+      error: errorMessage,
+      attempts: outcome.attempts,
+      reasonCode,
+    };
+  }
+
+  /**
+   * 记录一次重试：发送 step_retrying 事件，并写入 manifest 的 retries
+   */
+  private async recordRetry(runId: string, retry: RetryAttempt): Promise<void> {
+    console.log(
+      `[TestPipeline] ${retry.step} 失败 (${retry.category})，${retry.delay}ms 后重试 ${retry.attempt}/${retry.maxAttempts}: ${retry.error.message}`
+    );
+    this.emit('step_retrying', runId, {
+      step: retry.step,
+      attempt: retry.attempt,
+      maxAttempts: retry.maxAttempts,
+      category: retry.category,
+      error: retry.error.message,
+      delay: retry.delay,
+    });
+
+    // 初始化步骤创建工作目录之前没有 manifest，此时只发送事件
+    if (!runId) {
+      return;
+    }
+    const manifestPath = getWorkspaceStructure(this.workspaceRoot, runId).manifest;
     try {
-      const artifacts = await fn();
-      const duration = Date.now() - startTime;
-      this.emit('step_completed', runId, { step: stepName, duration, artifacts });
-      return { step: stepName, status: 'success', duration, artifacts };
+      await fs.access(manifestPath);
+    } catch {
+      return;
+    }
+    try {
+      const manifest = await loadManifest(manifestPath);
+      await saveManifest(manifestPath, addRetryRecord(manifest, {
+        step: retry.step,
+        attempt: retry.attempt,
+        maxAttempts: retry.maxAttempts,
+        category: retry.category,
+        error: retry.error.message,
+        delayMs: retry.delay,
+      }));
     } catch (error) {
-      const duration = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.emit('step_failed', runId, { step: stepName, duration, error: errorMessage });
-      return { step: stepName, status: 'failed', duration, error: errorMessage };
+      console.warn(`[TestPipeline] 无法记录重试到 manifest: ${manifestPath}`, error);
     }
   }
 
@@ -1047,8 +1830,143 @@ ${JSON.stringify(executionResults, null, 2)}
     this.emit('state_changed', runId, { state });
   }
 
-  private createFailedResult(runId: string, steps: StepResult[], error?: string): PipelineResult {
-    return { runId, status: 'failed', steps, error };
+  /**
+   * 按认证方式生成执行 prompt 中的登录配置说明
+   */
+  private buildLoginPromptSection(login: LoginConfig): string {
+    const lines: string[] = [];
+    switch (login.strategy ?? 'form') {
+      case 'storage_state':
+        lines.push(
+          '- 认证方式: storage_state（无需登录）',
+          `- 会话文件: ${login.storageStatePath}（通过 browser.newContext({ storageState }) 加载）`
+        );
+        break;
+      case 'cookies':
+        lines.push('- 认证方式: cookies（注入 Cookie 后无需登录）');
+        for (const cookie of login.cookies ?? []) {
+          lines.push(`- Cookie: ${cookie.name}=${cookie.value}${cookie.domain ? ` (domain: ${cookie.domain})` : ''}`);
+        }
+        break;
+      case 'bearer_token': {
+        const header = login.tokenHeader || 'Authorization';
+        const value = header.toLowerCase() === 'authorization' ? `Bearer ${login.bearerToken}` : login.bearerToken;
+        lines.push(
+          '- 认证方式: bearer_token（无需登录）',
+          `- 请求头: ${header}: ${value}（通过 extraHTTPHeaders 设置）`
+        );
+        break;
+      }
+      case 'scripted':
+        lines.push('- 认证方式: scripted（多步骤登录）', `- 登录页面: ${login.loginUrl}`, '- 登录步骤:');
+        (login.steps ?? []).forEach((step, index) => {
+          const target = [step.selector, step.value].filter(Boolean).join(' = ');
+          lines.push(`  ${index + 1}. ${step.action}${target ? ` ${target}` : ''}`);
+        });
+        if (login.totpSecret) {
+          lines.push(`- TOTP 密钥: ${login.totpSecret}（totp 步骤填入基于该密钥生成的 6 位一次性验证码）`);
+        }
+        break;
+      default:
+        lines.push(
+          `- 登录页面: ${login.loginUrl}`,
+          `- 用户名字段: ${login.usernameSelector}`,
+          `- 密码字段: ${login.passwordSelector}`,
+          `- 提交按钮: ${login.submitSelector}`,
+          `- 测试用户名: ${login.credentials?.username || ''}`,
+          `- 测试密码: ${login.credentials?.password || ''}`
+        );
+    }
+    if (login.successIndicator) {
+      lines.push(`- 登录成功标识: ${login.successIndicator}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * 生成 prompt 中的增量解析说明（非增量或需全量解析时返回空字符串）
+   */
+  private buildIncrementalPromptSection(plan: IncrementalParsePlan | undefined): string {
+    if (!plan || plan.fullReparse) {
+      return '';
+    }
+
+    const lines: string[] = [
+      '',
+      '## 增量解析',
+      '',
+      '本次为增量解析：PRD 相对上一次运行只有以下章节新增或修改。**只为这些章节生成需求和测试用例**，',
+      '其余章节的需求和测试用例沿用上一次的结果，不要输出。需求和用例 ID 从 REQ-001 / TC-001 开始编号即可，系统会重新分配。',
+      '',
+      ...plan.sectionsToParse.map((title) => `- ${title}`),
+    ];
+    if (plan.sectionDiff.removed.length > 0) {
+      lines.push('', '以下章节已删除，无需处理：', '', ...plan.sectionDiff.removed.map((title) => `- ${title}`));
+    }
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  /**
+   * 生成 prompt 中的角色说明（无角色时返回空字符串）
+   * PRD 解析阶段列出角色权限，执行阶段附带每个角色的登录配置
+   */
+  private buildRolesPromptSection(profile: TargetProfile, includeLogin: boolean): string {
+    if (!profile.roles || profile.roles.length === 0) {
+      return '';
+    }
+
+    const lines: string[] = ['', '## 用户角色', ''];
+    if (!includeLogin) {
+      lines.push(
+        '目标应用包含以下角色。涉及权限的需求和测试用例请设置 `role` 字段为对应角色名；',
+        '验证角色无权执行的操作时，使用 `permission_denied` 断言（expected 为应被隐藏/禁用的元素选择器，或应被拒绝访问的路由）。',
+        ''
+      );
+    }
+
+    for (const role of profile.roles) {
+      const effective = applyRole(profile, role.name);
+      lines.push(`### ${role.name}${role.description ? `（${role.description}）` : ''}`);
+      lines.push(`- 允许操作: ${effective.allowedOperations.join(', ') || '无'}`);
+      if (effective.deniedOperations && effective.deniedOperations.length > 0) {
+        lines.push(`- 禁止操作: ${effective.deniedOperations.join(', ')}`);
+      }
+      if (includeLogin) {
+        lines.push(this.buildLoginPromptSection(effective.login));
+      }
+      lines.push('');
+    }
+    return lines.join('\n');
+  }
+
+  private createFailedResult(
+    runId: string,
+    steps: StepResult[],
+    error?: string,
+    reasonCode?: ReasonCode
+  ): PipelineResult {
+    return { runId, status: 'failed', steps, error, reasonCode };
+  }
+
+  /**
+   * 取消后的结果：被中断的步骤不写入 steps，其已写出的输出移到 incomplete/ 下，
+   * 不会被当作已完成步骤的产物用于恢复执行
+   */
+  private async createCancelledResult(runId: string, steps: StepResult[]): Promise<PipelineResult> {
+    const step = this.currentStep;
+    const definition = this.activeSteps.find((candidate) => candidate.id === step);
+    let incompleteOutputs: string[] = [];
+    if (runId && definition) {
+      try {
+        incompleteOutputs = await quarantineStepOutputs(getWorkspaceStructure(this.workspaceRoot, runId).root, definition);
+      } catch (error) {
+        console.warn(`[TestPipeline] 无法隔离中断步骤的输出: ${step}`, error);
+      }
+    }
+    console.log(`[TestPipeline] Pipeline 已取消, 中断步骤: ${step ?? '无'}, 隔离输出: ${incompleteOutputs.join(', ') || '无'}`);
+    this.emit('pipeline_cancelled', runId, { step, incompleteOutputs, timestamp: new Date().toISOString() });
+    return { runId, status: 'cancelled', steps, error: 'Pipeline cancelled' };
   }
 
   async handleApproval(runId: string, approved: boolean): Promise<void> {
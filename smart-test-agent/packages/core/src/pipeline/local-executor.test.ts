@@ -0,0 +1,254 @@
+/**
+ * Unit tests for Local Test Executor
+ * @see Requirements 7.1, 7.3, 7.5
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { TargetProfile, TestCase } from '@smart-test-agent/shared';
+import {
+  LocalTestExecutor,
+  getA11yAuditTargets,
+  LOCAL_SCRIPT_FILENAME,
+  FAILED_CASES_FILENAME,
+  REPAIR_RESULTS_FILENAME,
+} from './local-executor.js';
+
+describe('LocalTestExecutor', () => {
+  let workspaceRoot: string;
+  let testCasesPath: string;
+  const executor = new LocalTestExecutor();
+
+  const rawTestCases = {
+    version: '1.0',
+    test_cases: [
+      {
+        case_id: 'TC-001',
+        requirement_id: 'REQ-001',
+        route: '/users',
+        title: 'List users',
+        steps: [{ step_id: 'S1', action: 'navigate', target: '/users' }],
+        assertions: [{ assertion_id: 'A1', type: 'element_visible', target: '.ant-table', expected: 'visible' }],
+      },
+      {
+        case_id: 'TC-002',
+        requirement_id: 'REQ-001',
+        route: '/users',
+        title: 'Search users',
+        steps: [],
+        assertions: [],
+      },
+    ],
+  };
+
+  const targetProfile = {
+    baseUrl: 'http://localhost:3000',
+    browser: { ignoreHTTPSErrors: true, viewport: { width: 1280, height: 720 }, locale: 'zh-CN', timeoutMs: 30000 },
+    login: {
+      loginUrl: '/login',
+      usernameSelector: '#username',
+      passwordSelector: '#password',
+      submitSelector: '#submit',
+      credentials: { username: 'admin', password: 'secret' },
+      successIndicator: '.dashboard',
+    },
+  } as TargetProfile;
+
+  const failedTestCase: TestCase = {
+    id: 'run-1-TC-001',
+    caseId: 'TC-001',
+    runId: 'run-1',
+    requirementId: 'REQ-001',
+    route: '/users',
+    title: 'List users',
+    precondition: '',
+    steps: [],
+    assertions: [],
+  };
+
+  beforeEach(async () => {
+    workspaceRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'local-executor-'));
+    await fs.mkdir(path.join(workspaceRoot, 'outputs'), { recursive: true });
+    testCasesPath = path.join(workspaceRoot, 'outputs', 'test-cases.json');
+    await fs.writeFile(testCasesPath, JSON.stringify(rawTestCases));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceRoot, { recursive: true, force: true });
+  });
+
+  describe('execute', () => {
+    it('should reject an empty test case file', async () => {
+      await fs.writeFile(testCasesPath, JSON.stringify({ test_cases: [] }));
+
+      await expect(
+        executor.execute({
+          runId: 'run-1',
+          workspaceRoot,
+          testCasesPath,
+          targetProfile: {} as TargetProfile,
+        })
+      ).rejects.toThrow('没有可执行的测试用例');
+    });
+
+    it('should not write execution results for a cancelled run', async () => {
+      const resultsPath = path.join(workspaceRoot, 'outputs', 'execution-results.json');
+      await fs.writeFile(resultsPath, '{}');
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        executor.execute({
+          runId: 'run-1',
+          workspaceRoot,
+          testCasesPath,
+          targetProfile,
+          signal: controller.signal,
+        })
+      ).rejects.toThrow('测试执行已取消');
+      await expect(fs.access(resultsPath)).rejects.toThrow();
+    });
+
+    it('should generate data requests from the OpenAPI endpoints of the run', async () => {
+      await fs.writeFile(
+        testCasesPath,
+        JSON.stringify({
+          test_cases: [
+            {
+              ...rawTestCases.test_cases[0],
+              data_preparation: [{ action: 'create', target: 'users', data: { name: 'Test User' } }],
+            },
+          ],
+        })
+      );
+      await fs.mkdir(path.join(workspaceRoot, 'inputs'));
+      await fs.writeFile(
+        path.join(workspaceRoot, 'inputs', 'openapi-endpoints.json'),
+        JSON.stringify([
+          { name: 'createUser', method: 'POST', path: '/api/users' },
+          { name: 'deleteUser', method: 'DELETE', path: '/api/users/:userId' },
+        ])
+      );
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        executor.execute({
+          runId: 'run-1',
+          workspaceRoot,
+          testCasesPath,
+          targetProfile,
+          signal: controller.signal,
+        })
+      ).rejects.toThrow('测试执行已取消');
+
+      const script = await fs.readFile(path.join(workspaceRoot, LOCAL_SCRIPT_FILENAME), 'utf-8');
+      expect(script).toContain('url: `http://localhost:3000/api/users/${id}`');
+    });
+
+    it('should choose selectors from the element inventory of the run', async () => {
+      await fs.writeFile(
+        testCasesPath,
+        JSON.stringify({
+          test_cases: [
+            {
+              ...rawTestCases.test_cases[0],
+              steps: [{ step_id: 'S1', action: 'fill', target: '#username', value: 'alice' }],
+            },
+          ],
+        })
+      );
+      await fs.mkdir(path.join(workspaceRoot, 'inputs'));
+      await fs.writeFile(
+        path.join(workspaceRoot, 'inputs', 'element-inventory.json'),
+        JSON.stringify([
+          {
+            route: '/users',
+            componentPath: 'src/views/users/index.vue',
+            elements: [{ kind: 'field', component: 'el-form-item', label: '用户名', name: 'username' }],
+          },
+        ])
+      );
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        executor.execute({ runId: 'run-1', workspaceRoot, testCasesPath, targetProfile, signal: controller.signal })
+      ).rejects.toThrow('测试执行已取消');
+
+      const script = await fs.readFile(path.join(workspaceRoot, LOCAL_SCRIPT_FILENAME), 'utf-8');
+      expect(script).toContain("await page.getByLabel('用户名').fill('alice');");
+    });
+  });
+
+  describe('audit', () => {
+    it('should reject test cases without routes', async () => {
+      await expect(
+        executor.audit({
+          runId: 'run-1',
+          workspaceRoot,
+          testCases: [{ ...failedTestCase, route: '' }],
+          targetProfile: {} as TargetProfile,
+        })
+      ).rejects.toThrow('没有可审计的路由');
+    });
+  });
+
+  describe('getA11yAuditTargets', () => {
+    it('should audit each route once with the role of its first case', () => {
+      const targets = getA11yAuditTargets([
+        { ...failedTestCase, route: '/users', role: 'admin' },
+        { ...failedTestCase, route: '/users', role: 'viewer' },
+        { ...failedTestCase, route: '/orders' },
+      ]);
+
+      expect(targets).toEqual([
+        { route: '/users', role: 'admin' },
+        { route: '/orders', role: undefined },
+      ]);
+    });
+  });
+
+  describe('writeFailedCases', () => {
+    it('should write only the failed raw test cases', async () => {
+      const failedPath = await executor.writeFailedCases(workspaceRoot, testCasesPath, ['TC-001']);
+
+      expect(path.basename(failedPath)).toBe(FAILED_CASES_FILENAME);
+      const written = JSON.parse(await fs.readFile(failedPath, 'utf-8'));
+      expect(written).toHaveLength(1);
+      expect(written[0].case_id).toBe('TC-001');
+    });
+  });
+
+  describe('loadRepairResult', () => {
+    it('should return null when the agent wrote no results', async () => {
+      const result = await executor.loadRepairResult(workspaceRoot, 'run-1', [failedTestCase]);
+
+      expect(result).toBeNull();
+    });
+
+    it('should build a schema-valid result from repair output', async () => {
+      await fs.writeFile(
+        path.join(workspaceRoot, 'outputs', REPAIR_RESULTS_FILENAME),
+        JSON.stringify({
+          runId: 'run-1',
+          startTime: '2024-01-01T00:00:00.000Z',
+          endTime: '2024-01-01T00:00:05.000Z',
+          totalDurationMs: 5000,
+          testCases: [
+            { caseId: 'TC-001', status: 'passed', steps: [], assertions: [], durationMs: 4000 },
+          ],
+          screenshots: [],
+          success: true,
+        })
+      );
+
+      const result = await executor.loadRepairResult(workspaceRoot, 'run-1', [failedTestCase]);
+
+      expect(result?.success).toBe(true);
+      expect(result?.testCases[0]).toMatchObject({ caseId: 'TC-001', status: 'passed' });
+    });
+  });
+});
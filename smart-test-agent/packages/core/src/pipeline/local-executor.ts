@@ -0,0 +1,328 @@
+/**
+ * Local Test Executor
+ * Runs test-cases.json deterministically with playwright-runner, without the agent CLI.
+ * The pipeline only escalates failed cases to the agent for repair.
+ * @see Requirements 7.1, 7.2, 7.3, 7.4, 7.5
+ */
+
+import {
+  normalizeTestCases,
+  extractRawTestCases,
+  generateTestScript,
+  generateA11yAuditScript,
+  executeScript,
+  buildExecutionResult,
+  buildA11yAuditResult,
+  A11Y_SNAPSHOT_FILENAME,
+  HAR_DIRNAME,
+  type A11yAuditTarget,
+  type A11ySnapshotFile,
+} from '@smart-test-agent/playwright-runner';
+import {
+  validateExecutionResults,
+  formatValidationErrors,
+  type A11yAuditResult,
+  type ExecutionResult,
+  type TargetProfile,
+  type TestCase,
+} from '@smart-test-agent/shared';
+import { resolveCredentials } from '../target-profile/env-resolver.js';
+import { loadOpenApiEndpoints } from '../source-indexer/openapi-parser.js';
+import { loadElementInventory } from '../case-approval/index.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/** Generated script file name, written to the workspace root (.cjs because it uses require) */
+export const LOCAL_SCRIPT_FILENAME = 'local-test-run.cjs';
+/** Failed test cases handed to the agent for repair */
+export const FAILED_CASES_FILENAME = 'failed-test-cases.json';
+/** Results written by the agent after repairing failed cases */
+export const REPAIR_RESULTS_FILENAME = 'repair-results.json';
+/** Login session cached under the workspace auth/ directory and reused across local runs */
+export const SESSION_CACHE_FILENAME = 'session.json';
+
+/** Generated accessibility audit script, written to the workspace root */
+export const A11Y_SCRIPT_FILENAME = 'a11y-audit.cjs';
+/** Evaluated accessibility audit result under outputs/ */
+export const A11Y_RESULTS_FILENAME = 'a11y-results.json';
+
+/** Base script timeout */
+const BASE_TIMEOUT_MS = 60000;
+/** Additional script timeout per test case in the largest shard */
+const PER_CASE_TIMEOUT_MS = 60000;
+/** Additional audit script timeout per route */
+const PER_ROUTE_TIMEOUT_MS = 30000;
+
+/**
+ * Local execution options
+ */
+export interface LocalExecutionOptions {
+  runId: string;
+  /** Workspace root directory */
+  workspaceRoot: string;
+  /** Path to test-cases.json */
+  testCasesPath: string;
+  targetProfile: TargetProfile;
+  /** Baselines for visual assertions (project + environment); visual assertions fail without one */
+  baselineDir?: string;
+  /** Script timeout, defaults to a budget based on the largest worker shard */
+  timeoutMs?: number;
+  /** Cancels the run; no execution-results.json is written for a cancelled run */
+  signal?: AbortSignal;
+}
+
+/**
+ * Accessibility audit options
+ * @see Requirements 10.1, 11.1
+ */
+export interface A11yAuditOptions {
+  runId: string;
+  /** Workspace root directory */
+  workspaceRoot: string;
+  /** Executed test cases, whose routes are audited */
+  testCases: TestCase[];
+  targetProfile: TargetProfile;
+  /** Script timeout, defaults to a budget based on the number of routes */
+  timeoutMs?: number;
+  /** Cancels the audit; no a11y-results.json is written for a cancelled audit */
+  signal?: AbortSignal;
+}
+
+/**
+ * Local execution outcome
+ */
+export interface LocalExecutionOutcome {
+  /** Schema-valid execution result */
+  result: ExecutionResult;
+  /** Normalized test cases that were executed */
+  testCases: TestCase[];
+  scriptPath: string;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Local test executor
+ */
+export class LocalTestExecutor {
+  /**
+   * Generate, run and collect results for all test cases
+   * @throws Error if there are no test cases or the result is not schema-valid
+   */
+  async execute(options: LocalExecutionOptions): Promise<LocalExecutionOutcome> {
+    const { runId, targetProfile } = options;
+    const workspaceRoot = path.resolve(options.workspaceRoot);
+    const outputsDir = path.join(workspaceRoot, 'outputs');
+    const screenshotDir = path.join(workspaceRoot, 'evidence', 'screenshots');
+    const resultsPath = path.join(outputsDir, 'execution-results.json');
+
+    const testCases = normalizeTestCases(
+      JSON.parse(await fs.readFile(options.testCasesPath, 'utf-8')),
+      runId
+    );
+    if (testCases.length === 0) {
+      throw new Error('test-cases.json 中没有可执行的测试用例');
+    }
+
+    // 数据准备与清理按 OpenAPI 文档中的接口生成请求（inputs/ 中没有接口清单时按 REST 约定）
+    const inputsDir = path.join(workspaceRoot, 'inputs');
+    const apis = await loadOpenApiEndpoints(inputsDir);
+    // 步骤选择器优先使用页面源码元素清单确认的选择器
+    const inventory = await loadElementInventory(inputsDir);
+
+    const script = generateTestScript(testCases, this.resolveProfilePaths(targetProfile), {
+      runId,
+      outputDir: outputsDir,
+      screenshotDir,
+      sessionPath: path.join(workspaceRoot, 'auth', SESSION_CACHE_FILENAME),
+      baselineDir: options.baselineDir ? path.resolve(options.baselineDir) : undefined,
+      harDir: path.join(workspaceRoot, 'evidence', HAR_DIRNAME),
+      apis,
+      inventory,
+    });
+    const scriptPath = path.join(workspaceRoot, LOCAL_SCRIPT_FILENAME);
+    await fs.mkdir(outputsDir, { recursive: true });
+    await fs.mkdir(screenshotDir, { recursive: true });
+    await fs.writeFile(scriptPath, script.content);
+
+    // 删除旧结果，避免把上一次执行的结果当作本次结果
+    await fs.rm(resultsPath, { force: true });
+
+    // 各 worker 并行执行，超时按用例最多的分片计算
+    const largestShard = Math.max(...script.shards.map((shard) => shard.caseIds.length));
+    const startTime = new Date().toISOString();
+    const response = await executeScript(scriptPath, {
+      workingDir: outputsDir,
+      timeout: options.timeoutMs ?? BASE_TIMEOUT_MS + largestShard * PER_CASE_TIMEOUT_MS,
+      env: this.resolveCredentialEnv(targetProfile),
+      signal: options.signal,
+    });
+    if (response.cancelled) {
+      throw new Error('测试执行已取消');
+    }
+
+    const result = buildExecutionResult(response.result, testCases, {
+      runId,
+      startTime,
+      error: response.result ? undefined : response.error,
+      reasonCode: response.result ? undefined : response.reasonCode,
+    });
+    assertValidExecutionResult(result);
+
+    await fs.writeFile(resultsPath, JSON.stringify(result, null, 2));
+
+    return {
+      result,
+      testCases,
+      scriptPath,
+      stdout: response.stdout,
+      stderr: response.stderr,
+    };
+  }
+
+  /**
+   * Audit every route visited by the test cases and write outputs/a11y-results.json
+   * Pages are opened with the cached sessions of the test run; rules are evaluated locally.
+   * @throws Error if there are no routes or the script wrote no snapshots
+   * @see Requirements 10.1, 11.1
+   */
+  async audit(options: A11yAuditOptions): Promise<A11yAuditResult> {
+    const { runId, targetProfile } = options;
+    const workspaceRoot = path.resolve(options.workspaceRoot);
+    const outputsDir = path.join(workspaceRoot, 'outputs');
+    const snapshotPath = path.join(outputsDir, A11Y_SNAPSHOT_FILENAME);
+
+    const targets = getA11yAuditTargets(options.testCases);
+    if (targets.length === 0) {
+      throw new Error('没有可审计的路由');
+    }
+
+    const script = generateA11yAuditScript(targets, this.resolveProfilePaths(targetProfile), {
+      runId,
+      outputDir: outputsDir,
+      screenshotDir: path.join(workspaceRoot, 'evidence', 'screenshots'),
+      sessionPath: path.join(workspaceRoot, 'auth', SESSION_CACHE_FILENAME),
+    });
+    const scriptPath = path.join(workspaceRoot, A11Y_SCRIPT_FILENAME);
+    await fs.mkdir(outputsDir, { recursive: true });
+    await fs.writeFile(scriptPath, script.content);
+    await fs.rm(snapshotPath, { force: true });
+
+    const response = await executeScript(scriptPath, {
+      workingDir: outputsDir,
+      timeout: options.timeoutMs ?? BASE_TIMEOUT_MS + targets.length * PER_ROUTE_TIMEOUT_MS,
+      env: this.resolveCredentialEnv(targetProfile),
+      signal: options.signal,
+    });
+    if (response.cancelled) {
+      await fs.rm(snapshotPath, { force: true });
+      throw new Error('无障碍审计已取消');
+    }
+
+    let snapshots: A11ySnapshotFile;
+    try {
+      snapshots = JSON.parse(await fs.readFile(snapshotPath, 'utf-8'));
+    } catch {
+      throw new Error(`无障碍审计未生成快照: ${response.error || response.stderr || 'unknown error'}`);
+    }
+
+    const result = buildA11yAuditResult(snapshots);
+    await fs.writeFile(path.join(outputsDir, A11Y_RESULTS_FILENAME), JSON.stringify(result, null, 2));
+    return result;
+  }
+
+  /**
+   * Write the raw definitions of failed test cases for the agent to repair
+   * @returns Path to the written file
+   */
+  async writeFailedCases(
+    workspaceRoot: string,
+    testCasesPath: string,
+    failedCaseIds: string[]
+  ): Promise<string> {
+    const failed = new Set(failedCaseIds);
+    const rawTestCases = extractRawTestCases(
+      JSON.parse(await fs.readFile(testCasesPath, 'utf-8'))
+    ).filter((item) => {
+      const raw = item as { case_id?: string; caseId?: string };
+      return failed.has(raw.case_id ?? raw.caseId ?? '');
+    });
+
+    const failedCasesPath = path.join(workspaceRoot, 'outputs', FAILED_CASES_FILENAME);
+    await fs.writeFile(failedCasesPath, JSON.stringify(rawTestCases, null, 2));
+    return failedCasesPath;
+  }
+
+  /**
+   * Load the agent's repair results for the given test cases
+   * @returns Schema-valid result, or null if the agent did not write a usable file
+   */
+  async loadRepairResult(
+    workspaceRoot: string,
+    runId: string,
+    testCases: TestCase[]
+  ): Promise<ExecutionResult | null> {
+    const repairPath = path.join(workspaceRoot, 'outputs', REPAIR_RESULTS_FILENAME);
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await fs.readFile(repairPath, 'utf-8'));
+    } catch {
+      return null;
+    }
+
+    const result = buildExecutionResult(raw, testCases, { runId });
+    return validateExecutionResults(result).valid ? result : null;
+  }
+
+  /**
+   * Resolve a relative storageState path against the current directory,
+   * since the generated script runs inside the workspace outputs directory
+   */
+  private resolveProfilePaths(profile: TargetProfile): TargetProfile {
+    const storageStatePath = profile.login.storageStatePath;
+    if (!storageStatePath || path.isAbsolute(storageStatePath)) {
+      return profile;
+    }
+    return {
+      ...profile,
+      login: { ...profile.login, storageStatePath: path.resolve(storageStatePath) },
+    };
+  }
+
+  /**
+   * Resolve login credentials into the env variables read by the generated script
+   * Unresolvable references are left to the script's own fallback.
+   */
+  private resolveCredentialEnv(profile: TargetProfile): Record<string, string> {
+    try {
+      const credentials = resolveCredentials(profile.login.credentials);
+      return { TEST_USERNAME: credentials.username, TEST_PASSWORD: credentials.password };
+    } catch {
+      return {};
+    }
+  }
+}
+
+/**
+ * Distinct routes visited by the test cases, each opened as the role of the first case visiting it
+ */
+export function getA11yAuditTargets(testCases: TestCase[]): A11yAuditTarget[] {
+  const targets = new Map<string, A11yAuditTarget>();
+  for (const testCase of testCases) {
+    if (testCase.route && !targets.has(testCase.route)) {
+      targets.set(testCase.route, { route: testCase.route, role: testCase.role });
+    }
+  }
+  return [...targets.values()];
+}
+
+/**
+ * Validate an execution result against the execution-results schema
+ * @throws Error with formatted validation errors
+ */
+export function assertValidExecutionResult(result: ExecutionResult): void {
+  const validation = validateExecutionResults(result);
+  if (!validation.valid) {
+    throw new Error(`执行结果不符合 schema: ${formatValidationErrors(validation)}`);
+  }
+}
@@ -1,12 +1,22 @@
 /**
  * PrerequisiteValidator - 前置文件验证器
- * 负责验证恢复执行所需的前置文件是否存在
+ * 负责验证恢复执行所需的前置文件是否存在，前置文件由步骤注册表中声明的输入输出推导
  * 
  * @see Requirements 2.1-2.7, 3.1-3.6
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import type { PipelineStepSelection } from '@smart-test-agent/shared';
+import { StepRegistry, type PipelineStepDefinition } from './step-registry.js';
+
+/** 被中断步骤的输出移到此目录下（incomplete/{stepId}/），不再作为恢复执行的前置文件 */
+export const INCOMPLETE_OUTPUTS_DIR = 'incomplete';
+
+/** 可以替代前置文件的目录：test-cases.json 可以用 test-cases/ 目录替代 */
+const PREREQUISITE_ALTERNATIVES: Record<string, string> = {
+  'outputs/test-cases.json': 'outputs/test-cases',
+};
 
 /**
  * Pipeline 步骤枚举
@@ -15,6 +25,7 @@ export type PipelineStep =
   | 'initialize'
   | 'prd_parsing'
   | 'test_execution'
+  | 'a11y_audit'
   | 'codex_review'
   | 'cross_validation'
   | 'report_generation'
@@ -26,55 +37,14 @@ export type PipelineStep =
 export type ResumableStep = Exclude<PipelineStep, 'initialize'>;
 
 /**
- * 步骤前置文件映射
- * @see Requirements 2.1-2.6
- */
-export const STEP_PREREQUISITES: Record<ResumableStep, string[]> = {
-  prd_parsing: ['inputs/prd.md', 'inputs/target-profile.json'],
-  test_execution: ['outputs/requirements.json', 'outputs/test-cases.json', 'inputs/target-profile.json'],
-  codex_review: ['outputs/execution-results.json'],
-  cross_validation: ['outputs/codex-review-results.json', 'outputs/requirements.json', 'outputs/test-cases.json'],
-  report_generation: ['outputs/cross-validation-results.json', 'outputs/requirements.json', 'outputs/test-cases.json'],
-  quality_gate: ['outputs/cross-validation-results.json', 'outputs/requirements.json', 'outputs/test-cases.json'],
-};
-
-/**
- * 步骤执行顺序
- */
-export const STEP_ORDER: PipelineStep[] = [
-  'initialize',
-  'prd_parsing',
-  'test_execution',
-  'codex_review',
-  'cross_validation',
-  'report_generation',
-  'quality_gate',
-];
-
-/**
- * 可恢复步骤顺序（排除 initialize）
- */
-export const RESUMABLE_STEP_ORDER: ResumableStep[] = [
-  'prd_parsing',
-  'test_execution',
-  'codex_review',
-  'cross_validation',
-  'report_generation',
-  'quality_gate',
-];
-
-/**
- * 步骤中文名称映射
+ * 前置文件验证器选项
  */
-export const STEP_LABELS: Record<ResumableStep, string> = {
-  prd_parsing: 'PRD 解析',
-  test_execution: '测试执行',
-  codex_review: 'Codex 审核',
-  cross_validation: '交叉验证',
-  report_generation: '报告生成',
-  quality_gate: '质量门检查',
-};
-
+export interface PrerequisiteValidatorOptions {
+  /** 步骤注册表，默认只包含内置步骤 */
+  registry?: StepRegistry;
+  /** 运行启用/禁用的步骤 */
+  steps?: PipelineStepSelection;
+}
 
 /**
  * 前置文件验证结果
@@ -92,8 +62,8 @@ export interface PrerequisiteValidationResult {
  * @see Requirements 3.1-3.6
  */
 export interface ResumableStepInfo {
-  /** 步骤名称 */
-  step: ResumableStep;
+  /** 步骤名称（内置步骤或自定义步骤） */
+  step: string;
   /** 步骤中文名称 */
   label: string;
   /** 是否可恢复 */
@@ -107,17 +77,24 @@ export interface ResumableStepInfo {
  * 负责验证恢复执行所需的前置文件是否存在
  */
 export class PrerequisiteValidator {
-  constructor(private workspaceRoot: string) {}
+  private registry: StepRegistry;
+  private steps: PipelineStepSelection;
+
+  constructor(private workspaceRoot: string, options: PrerequisiteValidatorOptions = {}) {
+    this.registry = options.registry ?? new StepRegistry();
+    this.steps = options.steps ?? {};
+  }
 
   /**
    * 验证指定步骤的前置文件是否存在
    * @param runId 运行 ID
    * @param step 要验证的步骤
    * @returns 验证结果
+   * @throws Error 如果步骤未注册或未启用
    * @see Requirements 2.1-2.6
    */
-  async validateStep(runId: string, step: ResumableStep): Promise<PrerequisiteValidationResult> {
-    const prerequisites = STEP_PREREQUISITES[step];
+  async validateStep(runId: string, step: string): Promise<PrerequisiteValidationResult> {
+    const prerequisites = this.registry.getPrerequisites(step, this.steps);
     const workspacePath = path.join(this.workspaceRoot, runId);
     const missingFiles: string[] = [];
 
@@ -126,9 +103,9 @@ export class PrerequisiteValidator {
       const exists = await this.fileExists(filePath);
       
       // 特殊处理：test-cases.json 可以用 test-cases/ 目录替代
-      if (!exists && prerequisite === 'outputs/test-cases.json') {
-        const testCasesDir = path.join(workspacePath, 'outputs/test-cases');
-        const dirExists = await this.directoryExists(testCasesDir);
+      const alternative = PREREQUISITE_ALTERNATIVES[prerequisite];
+      if (!exists && alternative) {
+        const dirExists = await this.directoryExists(path.join(workspacePath, alternative));
         if (!dirExists) {
           missingFiles.push(prerequisite);
         }
@@ -152,11 +129,12 @@ export class PrerequisiteValidator {
   async getResumableSteps(runId: string): Promise<ResumableStepInfo[]> {
     const results: ResumableStepInfo[] = [];
 
-    for (const step of RESUMABLE_STEP_ORDER) {
-      const validation = await this.validateStep(runId, step);
+    const resumable = this.registry.resolve(this.steps).filter((step) => step.resumable !== false);
+    for (const step of resumable) {
+      const validation = await this.validateStep(runId, step.id);
       results.push({
-        step,
-        label: STEP_LABELS[step],
+        step: step.id,
+        label: step.label,
         available: validation.valid,
         missingFiles: validation.missingFiles,
       });
@@ -194,4 +172,36 @@ export class PrerequisiteValidator {
   }
 }
 
+/**
+ * 隔离被中断步骤的输出：移到 incomplete/{stepId}/ 下保留以便排查，
+ * 这些不完整的文件不再满足后续步骤恢复执行的前置条件
+ * @param workspacePath 运行工作目录
+ * @param step 被中断的步骤
+ * @returns 被隔离的文件（相对工作目录）
+ * @see Requirements 2.7
+ */
+export async function quarantineStepOutputs(
+  workspacePath: string,
+  step: PipelineStepDefinition
+): Promise<string[]> {
+  const quarantineDir = path.join(workspacePath, INCOMPLETE_OUTPUTS_DIR, step.id);
+  await fs.rm(quarantineDir, { recursive: true, force: true });
+
+  const outputs = Object.values(step.outputs).flatMap((output) =>
+    PREREQUISITE_ALTERNATIVES[output] ? [output, PREREQUISITE_ALTERNATIVES[output]] : [output]
+  );
+  const quarantined: string[] = [];
+  for (const output of outputs) {
+    const target = path.join(quarantineDir, output);
+    try {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.rename(path.join(workspacePath, output), target);
+      quarantined.push(output);
+    } catch {
+      // 步骤中断前没有写出该文件
+    }
+  }
+  return quarantined;
+}
+
 export default PrerequisiteValidator;
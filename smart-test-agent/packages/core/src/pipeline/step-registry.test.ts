@@ -0,0 +1,218 @@
+/**
+ * Unit tests for the pipeline step registry
+ * @see Requirements 2.1-2.7, 3.1-3.6
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  StepRegistry,
+  getRunStepSelection,
+  mergeStepSelections,
+  type PipelineStepDefinition,
+} from './step-registry.js';
+import { INCOMPLETE_OUTPUTS_DIR, PrerequisiteValidator, quarantineStepOutputs } from './prerequisite-validator.js';
+
+const visualDiffStep: PipelineStepDefinition = {
+  id: 'visual_diff',
+  label: '视觉对比',
+  phase: 'execution',
+  inputs: ['outputs/execution-results.json'],
+  outputs: { visualDiffPath: 'outputs/visual-diff.json' },
+  blocking: false,
+  run: async () => ({ visualDiffPath: 'outputs/visual-diff.json' }),
+};
+
+describe('StepRegistry', () => {
+  it('should resolve the built-in steps in order with optional steps disabled', () => {
+    const ids = new StepRegistry().resolve().map((step) => step.id);
+    expect(ids).toEqual([
+      'initialize',
+      'prd_parsing',
+      'test_execution',
+      'codex_review',
+      'cross_validation',
+      'report_generation',
+      'quality_gate',
+    ]);
+  });
+
+  it('should enable and disable steps from the selection', () => {
+    const ids = new StepRegistry()
+      .resolve({ enable: ['a11y_audit'], disable: ['quality_gate'] })
+      .map((step) => step.id);
+    expect(ids).toContain('a11y_audit');
+    expect(ids.indexOf('a11y_audit')).toBe(ids.indexOf('test_execution') + 1);
+    expect(ids).not.toContain('quality_gate');
+  });
+
+  it('should reject unknown and required steps in the selection', () => {
+    const registry = new StepRegistry();
+    expect(() => registry.resolve({ enable: ['api_contract'] })).toThrow('Unknown pipeline step: api_contract');
+    expect(() => registry.resolve({ disable: ['test_execution'] })).toThrow('is required');
+  });
+
+  it('should reject a graph where a step reads an artifact no earlier step produces', () => {
+    const registry = new StepRegistry();
+    registry.register({ ...visualDiffStep, id: 'early_check', phase: 'parsing' }, { after: 'prd_parsing' });
+    expect(() => registry.resolve()).toThrow(
+      'Pipeline step early_check reads outputs/execution-results.json, which no earlier step produces'
+    );
+  });
+
+  it('should insert custom steps at the end of their phase or at a given position', () => {
+    const registry = new StepRegistry().register(visualDiffStep);
+    expect(registry.resolve().map((step) => step.id).slice(2, 4)).toEqual(['test_execution', 'visual_diff']);
+
+    registry.register(
+      { ...visualDiffStep, id: 'api_contract', phase: 'review', inputs: [], outputs: {} },
+      { before: 'report_generation' }
+    );
+    const ids = registry.resolve().map((step) => step.id);
+    expect(ids.indexOf('api_contract')).toBe(ids.indexOf('report_generation') - 1);
+
+    expect(() => registry.register(visualDiffStep)).toThrow('already registered');
+    expect(() => registry.register({ ...visualDiffStep, id: 'x' }, { after: 'missing' })).toThrow('Unknown pipeline step');
+  });
+
+  it('should reject steps ordered before an earlier phase', () => {
+    const registry = new StepRegistry().register(
+      { ...visualDiffStep, inputs: [] },
+      { after: 'cross_validation' }
+    );
+    expect(() => registry.resolve()).toThrow('is ordered after a later phase');
+  });
+
+  describe('getPrerequisites', () => {
+    it('should derive prerequisites from the inputs of the remaining steps', () => {
+      const registry = new StepRegistry();
+      expect(registry.getPrerequisites('prd_parsing')).toEqual(['inputs/prd.md', 'inputs/target-profile.json']);
+      expect(registry.getPrerequisites('test_execution')).toEqual([
+        'outputs/test-cases.json',
+        'inputs/target-profile.json',
+        'outputs/requirements.json',
+      ]);
+      expect(registry.getPrerequisites('codex_review')).toEqual([
+        'outputs/execution-results.json',
+        'outputs/requirements.json',
+        'outputs/test-cases.json',
+      ]);
+      expect(registry.getPrerequisites('report_generation')).toEqual([
+        'outputs/cross-validation-results.json',
+        'outputs/requirements.json',
+        'outputs/test-cases.json',
+      ]);
+    });
+
+    it('should include the inputs of enabled custom steps', () => {
+      const registry = new StepRegistry().register({
+        ...visualDiffStep,
+        id: 'api_contract',
+        phase: 'review',
+        inputs: ['inputs/openapi.json'],
+        outputs: {},
+      });
+      expect(registry.getPrerequisites('cross_validation')).toContain('inputs/openapi.json');
+      expect(registry.getPrerequisites('cross_validation', { disable: ['api_contract'] })).not.toContain(
+        'inputs/openapi.json'
+      );
+    });
+
+    it('should reject steps that are not enabled', () => {
+      expect(() => new StepRegistry().getPrerequisites('a11y_audit')).toThrow('not enabled');
+    });
+  });
+
+  it('should let the run-level a11y switch override the project selection', () => {
+    expect(mergeStepSelections({ disable: ['a11y_audit', 'quality_gate'] }, { enable: ['a11y_audit'] })).toEqual({
+      enable: ['a11y_audit'],
+      disable: ['quality_gate'],
+    });
+    expect(getRunStepSelection(undefined, false)).toEqual({ enable: [], disable: [] });
+  });
+});
+
+describe('PrerequisiteValidator', () => {
+  let workspaceRoot: string;
+  const runId = 'run-1';
+
+  beforeEach(async () => {
+    workspaceRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'prerequisites-'));
+    const workspace = path.join(workspaceRoot, runId);
+    await fs.mkdir(path.join(workspace, 'inputs'), { recursive: true });
+    await fs.mkdir(path.join(workspace, 'outputs', 'test-cases'), { recursive: true });
+    await fs.writeFile(path.join(workspace, 'inputs', 'prd.md'), '# PRD');
+    await fs.writeFile(path.join(workspace, 'inputs', 'target-profile.json'), '{}');
+    await fs.writeFile(path.join(workspace, 'outputs', 'requirements.json'), '[]');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('should accept the test-cases directory in place of test-cases.json', async () => {
+    const validator = new PrerequisiteValidator(workspaceRoot);
+    await expect(validator.validateStep(runId, 'test_execution')).resolves.toEqual({ valid: true, missingFiles: [] });
+    await expect(validator.validateStep(runId, 'codex_review')).resolves.toEqual({
+      valid: false,
+      missingFiles: ['outputs/execution-results.json'],
+    });
+  });
+
+  it('should not count the outputs of an interrupted step as prerequisites', async () => {
+    const workspace = path.join(workspaceRoot, runId);
+    await fs.writeFile(path.join(workspace, 'outputs', 'execution-results.json'), '{"testCases": [');
+    const validator = new PrerequisiteValidator(workspaceRoot);
+    expect((await validator.validateStep(runId, 'codex_review')).valid).toBe(true);
+
+    const quarantined = await quarantineStepOutputs(workspace, new StepRegistry().get('test_execution')!);
+
+    expect(quarantined).toEqual(['outputs/execution-results.json']);
+    await expect(validator.validateStep(runId, 'codex_review')).resolves.toEqual({
+      valid: false,
+      missingFiles: ['outputs/execution-results.json'],
+    });
+    await expect(
+      fs.readFile(path.join(workspace, INCOMPLETE_OUTPUTS_DIR, 'test_execution', 'outputs', 'execution-results.json'), 'utf-8')
+    ).resolves.toBe('{"testCases": [');
+  });
+
+  it('should quarantine the test-cases directory of an interrupted PRD parse', async () => {
+    const workspace = path.join(workspaceRoot, runId);
+    await fs.writeFile(path.join(workspace, 'outputs', 'test-cases', 'REQ-001.json'), '{}');
+
+    const quarantined = await quarantineStepOutputs(workspace, new StepRegistry().get('prd_parsing')!);
+
+    expect(quarantined).toEqual(['outputs/requirements.json', 'outputs/test-cases']);
+    await expect(new PrerequisiteValidator(workspaceRoot).validateStep(runId, 'test_execution')).resolves.toEqual({
+      valid: false,
+      missingFiles: ['outputs/test-cases.json', 'outputs/requirements.json'],
+    });
+  });
+
+  it('should list the enabled resumable steps with their labels', async () => {
+    const validator = new PrerequisiteValidator(workspaceRoot, {
+      registry: new StepRegistry().register(visualDiffStep),
+      steps: { enable: ['a11y_audit'] },
+    });
+    const steps = await validator.getResumableSteps(runId);
+
+    expect(steps.map((step) => step.step)).toEqual([
+      'prd_parsing',
+      'test_execution',
+      'a11y_audit',
+      'visual_diff',
+      'codex_review',
+      'cross_validation',
+      'report_generation',
+      'quality_gate',
+    ]);
+    expect(steps.find((step) => step.step === 'visual_diff')).toMatchObject({
+      label: '视觉对比',
+      available: false,
+      missingFiles: ['outputs/execution-results.json'],
+    });
+  });
+});
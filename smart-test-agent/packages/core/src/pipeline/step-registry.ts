@@ -0,0 +1,321 @@
+/**
+ * StepRegistry - Pipeline 步骤注册表
+ * 以声明方式描述 pipeline 的步骤：每个步骤声明读取和产出的工作目录文件，
+ * 项目配置只能启用、禁用内置步骤；插入自定义步骤（如视觉对比、API 契约检查）
+ * 需要在代码中调用 register 并把注册表传给 TestPipeline，服务端目前不注册自定义步骤。
+ * 恢复执行的前置文件由这些声明推导得出。
+ *
+ * @see Requirements 2.1-2.7, 3.1-3.6
+ */
+
+import type { PipelineStepSelection, ReasonCode, TargetProfile } from '@smart-test-agent/shared';
+
+/**
+ * 步骤所属阶段，一个阶段的最后一个步骤完成后触发对应的状态事件
+ * setup → START_PARSING, parsing → GENERATION_COMPLETE,
+ * execution → EXECUTION_COMPLETE, review → REVIEW_COMPLETE
+ */
+export type StepPhase = 'setup' | 'parsing' | 'execution' | 'review';
+
+/** 阶段顺序，启用的步骤必须按阶段排列 */
+export const STEP_PHASE_ORDER: StepPhase[] = ['setup', 'parsing', 'execution', 'review'];
+
+/**
+ * 自定义步骤执行时可用的上下文
+ */
+export interface PipelineStepContext {
+  runId: string;
+  /** 运行工作目录（.ai-test-workspace/{runId}） */
+  workspaceRoot: string;
+  targetProfile: TargetProfile;
+  /** 之前步骤产出的 artifacts（同名时后面的步骤覆盖前面的） */
+  artifacts: Record<string, string | number | boolean>;
+  signal?: AbortSignal;
+  /** 输出到运行日志（cli_log 事件） */
+  log: (message: string) => void;
+}
+
+/**
+ * Pipeline 步骤定义
+ */
+export interface PipelineStepDefinition {
+  /** 步骤 ID，在注册表内唯一 */
+  id: string;
+  /** 步骤中文名称 */
+  label: string;
+  phase: StepPhase;
+  /** 步骤读取的文件（相对工作目录） */
+  inputs: string[];
+  /** 步骤产出的文件（相对工作目录），key 为传给后续步骤的 artifact 名 */
+  outputs: Record<string, string>;
+  /** 是否默认启用，默认 true */
+  enabledByDefault?: boolean;
+  /** 不可禁用的步骤 */
+  required?: boolean;
+  /** 失败时是否终止 pipeline，默认 true；非阻断步骤失败只记录日志 */
+  blocking?: boolean;
+  /** 阻断步骤失败时记录的错误类型，默认 internal_error */
+  errorType?: ReasonCode;
+  /** 是否可作为恢复执行的起点，默认 true */
+  resumable?: boolean;
+  /**
+   * 自定义步骤的执行函数，返回值作为步骤的 artifacts
+   * 内置步骤由 TestPipeline 执行，不需要提供
+   */
+  run?: (context: PipelineStepContext) => Promise<Record<string, string | number | boolean>>;
+}
+
+/**
+ * 插入自定义步骤的位置
+ */
+export interface StepPosition {
+  after?: string;
+  before?: string;
+}
+
+/**
+ * 内置步骤
+ * @see Requirements 2.1-2.6
+ */
+export const DEFAULT_PIPELINE_STEPS: PipelineStepDefinition[] = [
+  {
+    id: 'initialize',
+    label: '初始化',
+    phase: 'setup',
+    inputs: [],
+    outputs: {
+      prdPath: 'inputs/prd.md',
+      targetProfilePath: 'inputs/target-profile.json',
+    },
+    required: true,
+    resumable: false,
+  },
+  {
+    id: 'prd_parsing',
+    label: 'PRD 解析',
+    phase: 'parsing',
+    inputs: ['inputs/prd.md'],
+    outputs: {
+      requirementsPath: 'outputs/requirements.json',
+      testCasesPath: 'outputs/test-cases.json',
+    },
+    required: true,
+  },
+  {
+    id: 'test_execution',
+    label: '测试执行',
+    phase: 'execution',
+    inputs: ['outputs/test-cases.json', 'inputs/target-profile.json'],
+    outputs: {
+      executionResultsPath: 'outputs/execution-results.json',
+      screenshotsDir: 'evidence/screenshots',
+    },
+    required: true,
+    errorType: 'playwright_error',
+  },
+  {
+    id: 'a11y_audit',
+    label: '无障碍审计',
+    phase: 'execution',
+    inputs: ['outputs/test-cases.json', 'inputs/target-profile.json'],
+    outputs: {
+      a11yResultsPath: 'outputs/a11y-results.json',
+    },
+    enabledByDefault: false,
+    blocking: false,
+  },
+  {
+    id: 'codex_review',
+    label: 'Codex 审核',
+    phase: 'review',
+    inputs: ['outputs/execution-results.json'],
+    outputs: {
+      reviewResultsPath: 'outputs/codex-review-results.json',
+    },
+  },
+  {
+    id: 'cross_validation',
+    label: '交叉验证',
+    phase: 'review',
+    inputs: [
+      'outputs/codex-review-results.json',
+      'outputs/execution-results.json',
+      'outputs/requirements.json',
+      'outputs/test-cases.json',
+    ],
+    outputs: {
+      crossValidationPath: 'outputs/cross-validation-results.json',
+    },
+    errorType: 'verdict_conflict',
+  },
+  {
+    id: 'report_generation',
+    label: '报告生成',
+    phase: 'review',
+    inputs: ['outputs/cross-validation-results.json', 'outputs/requirements.json', 'outputs/test-cases.json'],
+    outputs: {
+      reportPath: 'outputs/report.html',
+    },
+  },
+  {
+    id: 'quality_gate',
+    label: '质量门检查',
+    phase: 'review',
+    inputs: ['outputs/cross-validation-results.json', 'outputs/requirements.json', 'outputs/test-cases.json'],
+    outputs: {},
+    blocking: false,
+  },
+];
+
+/**
+ * 步骤注册表
+ * 保存所有已注册的步骤及其顺序，按项目的启用/禁用配置解析出本次运行的步骤序列
+ */
+export class StepRegistry {
+  private steps: PipelineStepDefinition[];
+
+  constructor(steps: PipelineStepDefinition[] = DEFAULT_PIPELINE_STEPS) {
+    this.steps = [...steps];
+  }
+
+  /**
+   * 注册步骤，默认追加到同阶段最后一个步骤之后
+   * @throws Error 如果步骤 ID 已存在或插入位置的步骤不存在
+   */
+  register(step: PipelineStepDefinition, position: StepPosition = {}): this {
+    if (this.has(step.id)) {
+      throw new Error(`Pipeline step already registered: ${step.id}`);
+    }
+
+    let index: number;
+    if (position.after || position.before) {
+      const anchor = (position.after ?? position.before)!;
+      const anchorIndex = this.steps.findIndex((s) => s.id === anchor);
+      if (anchorIndex === -1) {
+        throw new Error(`Unknown pipeline step: ${anchor}`);
+      }
+      index = position.after ? anchorIndex + 1 : anchorIndex;
+    } else {
+      const phaseIndex = STEP_PHASE_ORDER.indexOf(step.phase);
+      const nextIndex = this.steps.findIndex((s) => STEP_PHASE_ORDER.indexOf(s.phase) > phaseIndex);
+      index = nextIndex === -1 ? this.steps.length : nextIndex;
+    }
+
+    this.steps.splice(index, 0, step);
+    return this;
+  }
+
+  has(id: string): boolean {
+    return this.steps.some((step) => step.id === id);
+  }
+
+  get(id: string): PipelineStepDefinition | undefined {
+    return this.steps.find((step) => step.id === id);
+  }
+
+  /**
+   * 所有已注册的步骤（包括未启用的）
+   */
+  list(): PipelineStepDefinition[] {
+    return [...this.steps];
+  }
+
+  /**
+   * 按启用/禁用配置解析出本次运行的步骤序列，并校验步骤图
+   * @throws Error 如果配置引用了未知步骤、禁用了必需步骤，或步骤的输入没有来源
+   */
+  resolve(selection: PipelineStepSelection = {}): PipelineStepDefinition[] {
+    const enable = selection.enable ?? [];
+    const disable = selection.disable ?? [];
+    for (const id of [...enable, ...disable]) {
+      if (!this.has(id)) {
+        throw new Error(`Unknown pipeline step: ${id}`);
+      }
+    }
+    for (const id of disable) {
+      if (this.get(id)!.required) {
+        throw new Error(`Pipeline step ${id} is required and cannot be disabled`);
+      }
+    }
+
+    const resolved = this.steps.filter((step) =>
+      disable.includes(step.id) ? false : enable.includes(step.id) || step.enabledByDefault !== false
+    );
+    validateStepGraph(resolved);
+    return resolved;
+  }
+
+  /**
+   * 从指定步骤恢复执行时需要已存在的文件
+   * 即该步骤及之后所有启用步骤的输入中，不是由这些步骤自己产出的文件
+   * @throws Error 如果步骤未注册或未启用
+   */
+  getPrerequisites(id: string, selection: PipelineStepSelection = {}): string[] {
+    const resolved = this.resolve(selection);
+    const index = resolved.findIndex((step) => step.id === id);
+    if (index === -1) {
+      throw new Error(`Pipeline step is not enabled: ${id}`);
+    }
+
+    const produced = new Set<string>();
+    const prerequisites: string[] = [];
+    for (const step of resolved.slice(index)) {
+      for (const input of step.inputs) {
+        if (!produced.has(input) && !prerequisites.includes(input)) {
+          prerequisites.push(input);
+        }
+      }
+      Object.values(step.outputs).forEach((output) => produced.add(output));
+    }
+    return prerequisites;
+  }
+}
+
+/**
+ * 校验步骤序列：阶段顺序正确，每个输入都由之前的步骤产出
+ * inputs/ 下的文件除外，它们可以由项目直接放入工作目录（如 API 契约检查的 OpenAPI 文档）
+ * @throws Error 描述第一个不满足的约束
+ */
+export function validateStepGraph(steps: PipelineStepDefinition[]): void {
+  const produced = new Set<string>();
+  let phaseIndex = 0;
+
+  for (const step of steps) {
+    const stepPhaseIndex = STEP_PHASE_ORDER.indexOf(step.phase);
+    if (stepPhaseIndex < phaseIndex) {
+      throw new Error(`Pipeline step ${step.id} (${step.phase}) is ordered after a later phase`);
+    }
+    phaseIndex = stepPhaseIndex;
+
+    const missing = step.inputs.filter((input) => !input.startsWith('inputs/') && !produced.has(input));
+    if (missing.length > 0) {
+      throw new Error(`Pipeline step ${step.id} reads ${missing.join(', ')}, which no earlier step produces`);
+    }
+    Object.values(step.outputs).forEach((output) => produced.add(output));
+  }
+}
+
+/**
+ * 合并两个步骤选择（例如项目配置与本次运行的开关），后者优先
+ */
+export function mergeStepSelections(
+  base: PipelineStepSelection | undefined,
+  override: PipelineStepSelection
+): PipelineStepSelection {
+  const enable = override.enable ?? [];
+  const disable = override.disable ?? [];
+  return {
+    enable: [...(base?.enable ?? []).filter((id) => !disable.includes(id)), ...enable],
+    disable: [...(base?.disable ?? []).filter((id) => !enable.includes(id)), ...disable],
+  };
+}
+
+/**
+ * 一次运行的步骤选择：项目配置加上运行级的无障碍审计开关
+ */
+export function getRunStepSelection(
+  projectSteps: PipelineStepSelection | undefined,
+  a11yAudit = false
+): PipelineStepSelection {
+  return mergeStepSelections(projectSteps, a11yAudit ? { enable: ['a11y_audit'] } : {});
+}
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for incremental PRD parsing
+ * @see Requirements 3.1, 3.5, 4.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planIncrementalParse, mergeIncrementalParse, extractParseItems } from './incremental-merge';
+
+const PREVIOUS_PRD = `# 用户管理
+
+## 用户列表
+
+支持按用户名搜索。
+
+## 新增用户
+
+用户名必填。
+
+## 删除用户
+
+需要二次确认。
+`;
+
+const CURRENT_PRD = `# 用户管理
+
+## 用户列表
+
+支持按用户名搜索。
+
+## 新增用户
+
+用户名必填，长度不超过 20。
+
+## 导出用户
+
+导出为 Excel。
+`;
+
+const previousRequirements = [
+  { requirement_id: 'REQ-001', title: '用户列表搜索', source_section: '用户列表', priority: 'P1' },
+  { requirement_id: 'REQ-002', title: '新增用户校验', source_section: '新增用户', priority: 'P0' },
+  { requirement_id: 'REQ-003', title: '删除确认', source_section: '删除用户', priority: 'P1' },
+];
+
+const previousTestCases = [
+  { case_id: 'TC-001', requirement_id: 'REQ-001', title: '按用户名搜索' },
+  { case_id: 'TC-002', requirement_id: 'REQ-002', title: '用户名为空' },
+  { case_id: 'TC-003', requirement_id: 'REQ-002', title: '正常新增' },
+  { case_id: 'TC-004', requirement_id: 'REQ-003', title: '取消删除' },
+];
+
+describe('planIncrementalParse', () => {
+  it('should keep requirements of unchanged sections only', () => {
+    const plan = planIncrementalParse(PREVIOUS_PRD, CURRENT_PRD, previousRequirements);
+
+    expect(plan.fullReparse).toBe(false);
+    expect(plan.keptRequirementIds).toEqual(['REQ-001']);
+    expect(plan.affectedRequirementIds).toEqual(['REQ-002', 'REQ-003']);
+    expect(plan.sectionsToParse).toEqual(['导出用户', '新增用户']);
+  });
+
+  it('should keep requirements whose section cannot be found', () => {
+    const plan = planIncrementalParse(PREVIOUS_PRD, CURRENT_PRD, [
+      { requirement_id: 'REQ-009', title: '其他', source_section: '附录' },
+    ]);
+
+    expect(plan.keptRequirementIds).toEqual(['REQ-009']);
+    expect(plan.untrackedRequirementIds).toEqual(['REQ-009']);
+  });
+
+  it('should fall back to a full reparse when the PRD has no headings', () => {
+    const plan = planIncrementalParse('旧需求', '新需求', previousRequirements);
+
+    expect(plan.fullReparse).toBe(true);
+    expect(plan.keptRequirementIds).toEqual([]);
+  });
+});
+
+describe('mergeIncrementalParse', () => {
+  it('should keep stable IDs and summarize requirement changes', () => {
+    const generated = {
+      requirements: [
+        { requirement_id: 'REQ-001', title: '新增用户校验', source_section: '新增用户', priority: 'P0', description: '长度不超过 20' },
+        { requirement_id: 'REQ-002', title: '导出用户', source_section: '导出用户', priority: 'P2' },
+      ],
+      testCases: [
+        { case_id: 'TC-001', requirement_id: 'REQ-001', title: '用户名为空' },
+        { case_id: 'TC-002', requirement_id: 'REQ-001', title: '用户名超长' },
+        { case_id: 'TC-003', requirement_id: 'REQ-002', title: '导出 Excel' },
+      ],
+    };
+
+    const result = mergeIncrementalParse(
+      { requirements: previousRequirements, testCases: previousTestCases },
+      generated,
+      { keptRequirementIds: ['REQ-001'] }
+    );
+
+    expect(result.changes).toEqual({
+      added: ['REQ-004'],
+      modified: ['REQ-002'],
+      removed: ['REQ-003'],
+      unchanged: ['REQ-001'],
+    });
+    expect(result.requirements.map((r) => r.requirement_id)).toEqual(['REQ-001', 'REQ-002', 'REQ-004']);
+    expect(result.testCases.map((tc) => [tc.case_id, tc.requirement_id])).toEqual([
+      ['TC-001', 'REQ-001'],
+      ['TC-002', 'REQ-002'],
+      ['TC-005', 'REQ-002'],
+      ['TC-006', 'REQ-004'],
+    ]);
+  });
+
+  it('should report regenerated requirements with identical content as unchanged', () => {
+    const result = mergeIncrementalParse(
+      { requirements: previousRequirements, testCases: previousTestCases },
+      { requirements: [{ ...previousRequirements[2], requirement_id: 'REQ-001' }], testCases: [] },
+      { keptRequirementIds: ['REQ-001', 'REQ-002'] }
+    );
+
+    expect(result.changes.unchanged).toEqual(['REQ-001', 'REQ-002', 'REQ-003']);
+    expect(result.changes.removed).toEqual([]);
+  });
+
+  it('should drop regenerated duplicates of kept requirements and keep camelCase keys', () => {
+    const result = mergeIncrementalParse(
+      {
+        requirements: [{ requirementId: 'REQ-010', title: '用户列表搜索' }],
+        testCases: [{ caseId: 'TC-010', requirementId: 'REQ-010', title: '搜索' }],
+      },
+      {
+        requirements: [
+          { requirementId: 'REQ-001', title: '用户列表搜索' },
+          { requirementId: 'REQ-002', title: '分页' },
+        ],
+        testCases: [
+          { caseId: 'TC-001', requirementId: 'REQ-001', title: '搜索' },
+          { caseId: 'TC-002', requirementId: 'REQ-002', title: '翻页' },
+        ],
+      },
+      { keptRequirementIds: ['REQ-010'] }
+    );
+
+    expect(result.requirements).toEqual([
+      { requirementId: 'REQ-010', title: '用户列表搜索' },
+      { requirementId: 'REQ-011', title: '分页' },
+    ]);
+    expect(result.testCases).toEqual([
+      { caseId: 'TC-010', requirementId: 'REQ-010', title: '搜索' },
+      { caseId: 'TC-011', requirementId: 'REQ-011', title: '翻页' },
+    ]);
+  });
+});
+
+describe('extractParseItems', () => {
+  it('should read arrays and wrapped lists', () => {
+    expect(extractParseItems([{ a: 1 }], 'requirements')).toEqual([{ a: 1 }]);
+    expect(extractParseItems({ requirements: [{ a: 1 }] }, 'requirements')).toEqual([{ a: 1 }]);
+    expect(extractParseItems({ test_cases: [{ a: 1 }] }, 'test_cases', 'testCases')).toEqual([{ a: 1 }]);
+    expect(extractParseItems(null, 'requirements')).toEqual([]);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Incremental PRD Parsing
+ * Plans which requirements of a previous run must be regenerated after a PRD change and
+ * merges the regenerated requirements and test cases back with stable IDs.
+ *
+ * Works on the raw agent output, which uses snake_case (`requirement_id`, `case_id`,
+ * `source_section`) but may also be camelCase.
+ *
+ * @see Requirements 3.1, 3.5, 4.1
+ */
+
+import {
+  splitPrdSections,
+  diffPrdSections,
+  findSection,
+  normalizeSectionTitle,
+  type PrdSectionDiff,
+} from './prd-sections.js';
+
+/** Requirement as written to outputs/requirements.json */
+export type RawRequirement = Record<string, unknown>;
+
+/** Test case as written to outputs/test-cases.json */
+export type RawTestCase = Record<string, unknown>;
+
+/**
+ * Which parts of a previous run's parse output can be kept
+ */
+export interface IncrementalParsePlan {
+  sectionDiff: PrdSectionDiff;
+  /** The PRD has no headings to compare, so everything is parsed again */
+  fullReparse: boolean;
+  /** Requirements whose source section is unchanged; kept with their test cases */
+  keptRequirementIds: string[];
+  /** Requirements whose source section was modified or removed */
+  affectedRequirementIds: string[];
+  /** Kept requirements whose source section could not be found in the previous PRD */
+  untrackedRequirementIds: string[];
+  /** Sections of the current PRD to parse: added and modified sections */
+  sectionsToParse: string[];
+}
+
+/**
+ * Requirement-level change summary of an incremental parse
+ */
+export interface RequirementChangeSummary {
+  added: string[];
+  modified: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+/**
+ * Content of outputs/prd-changes.json
+ */
+export interface PrdChangeSummary {
+  /** Run whose PRD and parse output were the baseline */
+  baseRunId: string;
+  fullReparse: boolean;
+  sections: PrdSectionDiff;
+  requirements: RequirementChangeSummary;
+}
+
+export interface IncrementalParseResult {
+  requirements: RawRequirement[];
+  testCases: RawTestCase[];
+  changes: RequirementChangeSummary;
+}
+
+/**
+ * Read a field that may be snake_case or camelCase
+ */
+function getField(item: Record<string, unknown>, snake: string, camel: string): string | undefined {
+  const value = item[snake] ?? item[camel];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Return a copy with a field replaced, keeping the key style of the original
+ */
+function withField(item: Record<string, unknown>, snake: string, camel: string, value: string): Record<string, unknown> {
+  const key = camel in item && !(snake in item) ? camel : snake;
+  return { ...item, [key]: value };
+}
+
+export const getRequirementId = (req: RawRequirement) => getField(req, 'requirement_id', 'requirementId') ?? '';
+const getSourceSection = (req: RawRequirement) => getField(req, 'source_section', 'sourceSection');
+const getCaseId = (tc: RawTestCase) => getField(tc, 'case_id', 'caseId') ?? '';
+const getCaseRequirementId = (tc: RawTestCase) => getField(tc, 'requirement_id', 'requirementId') ?? '';
+const getTitle = (item: Record<string, unknown>) => normalizeSectionTitle(getField(item, 'title', 'title') ?? '');
+
+/**
+ * Extract the item list from a parse output file, which is either an array or an object
+ * with a `requirements` / `test_cases` / `testCases` array
+ */
+export function extractParseItems(parsed: unknown, ...keys: string[]): Record<string, unknown>[] {
+  if (Array.isArray(parsed)) {
+    return parsed;
+  }
+  if (parsed && typeof parsed === 'object') {
+    for (const key of keys) {
+      const value = (parsed as Record<string, unknown>)[key];
+      if (Array.isArray(value)) {
+        return value;
+      }
+    }
+  }
+  return [];
+}
+
+/**
+ * Allocates IDs after the highest existing number, in the style of the existing IDs
+ * (REQ-001 → REQ-002), so removed IDs are never handed out again
+ */
+function createIdAllocator(existingIds: string[], defaultPrefix: string): () => string {
+  let prefix = defaultPrefix;
+  let width = 3;
+  let max = 0;
+
+  for (const id of existingIds) {
+    const match = /^(.*?)(\d+)$/.exec(id);
+    if (!match) continue;
+    const value = Number(match[2]);
+    if (value >= max) {
+      max = value;
+      prefix = match[1];
+      width = match[2].length;
+    }
+  }
+
+  return () => `${prefix}${String(++max).padStart(width, '0')}`;
+}
+
+/**
+ * Requirement content without its ID, for detecting modifications
+ */
+function contentKey(req: RawRequirement): string {
+  const { requirement_id: _snake, requirementId: _camel, ...rest } = req;
+  return JSON.stringify(rest, Object.keys(rest).sort());
+}
+
+/**
+ * Decide which requirements of a previous run survive a PRD change
+ */
+export function planIncrementalParse(
+  previousPrd: string,
+  currentPrd: string,
+  previousRequirements: RawRequirement[]
+): IncrementalParsePlan {
+  const previousSections = splitPrdSections(previousPrd);
+  const currentSections = splitPrdSections(currentPrd);
+  const sectionDiff = diffPrdSections(previousSections, currentSections);
+
+  const hasHeadings = (sections: typeof previousSections) => sections.some((s) => s.title);
+  if (!hasHeadings(previousSections) || !hasHeadings(currentSections)) {
+    return {
+      sectionDiff,
+      fullReparse: true,
+      keptRequirementIds: [],
+      affectedRequirementIds: previousRequirements.map(getRequirementId),
+      untrackedRequirementIds: [],
+      sectionsToParse: [],
+    };
+  }
+
+  const changedSections = new Set(
+    [...sectionDiff.modified, ...sectionDiff.removed].map(normalizeSectionTitle)
+  );
+  const plan: IncrementalParsePlan = {
+    sectionDiff,
+    fullReparse: false,
+    keptRequirementIds: [],
+    affectedRequirementIds: [],
+    untrackedRequirementIds: [],
+    sectionsToParse: [...sectionDiff.added, ...sectionDiff.modified].filter(Boolean),
+  };
+
+  for (const req of previousRequirements) {
+    const id = getRequirementId(req);
+    const section = findSection(getSourceSection(req), previousSections);
+
+    if (!section) {
+      plan.keptRequirementIds.push(id);
+      plan.untrackedRequirementIds.push(id);
+    } else if (changedSections.has(normalizeSectionTitle(section.title))) {
+      plan.affectedRequirementIds.push(id);
+    } else {
+      plan.keptRequirementIds.push(id);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Merge regenerated requirements and test cases into the kept part of a previous run
+ *
+ * - Kept requirements and their test cases are copied unchanged.
+ * - A regenerated requirement with the title of an affected one takes over its ID (modified,
+ *   or unchanged when its content is identical); its test cases take over the IDs of the
+ *   previous cases with the same title.
+ * - Other regenerated requirements and cases get new IDs after the highest previous ID (added).
+ * - Regenerated requirements duplicating a kept title are dropped with their cases.
+ * - Affected requirements nobody took over are removed.
+ */
+export function mergeIncrementalParse(
+  previous: { requirements: RawRequirement[]; testCases: RawTestCase[] },
+  generated: { requirements: RawRequirement[]; testCases: RawTestCase[] },
+  plan: Pick<IncrementalParsePlan, 'keptRequirementIds'>
+): IncrementalParseResult {
+  const kept = new Set(plan.keptRequirementIds);
+  const keptTitles = new Set(
+    previous.requirements.filter((r) => kept.has(getRequirementId(r))).map(getTitle)
+  );
+  const candidates = previous.requirements.filter((r) => !kept.has(getRequirementId(r)));
+
+  const nextRequirementId = createIdAllocator(previous.requirements.map(getRequirementId), 'REQ-');
+  const nextCaseId = createIdAllocator(previous.testCases.map(getCaseId), 'TC-');
+
+  const changes: RequirementChangeSummary = { added: [], modified: [], removed: [], unchanged: [...kept] };
+  const requirements: RawRequirement[] = previous.requirements.filter((r) => kept.has(getRequirementId(r)));
+  const testCases: RawTestCase[] = previous.testCases.filter((tc) => kept.has(getCaseRequirementId(tc)));
+
+  // Generated requirement ID → final ID; final IDs taken over from previous requirements
+  const idMap = new Map<string, string>();
+  const replaced = new Set<string>();
+
+  for (const req of generated.requirements) {
+    const title = getTitle(req);
+    if (keptTitles.has(title)) {
+      continue;
+    }
+
+    const index = candidates.findIndex((c) => getTitle(c) === title);
+    let finalId: string;
+    if (index >= 0) {
+      const [match] = candidates.splice(index, 1);
+      finalId = getRequirementId(match);
+      replaced.add(finalId);
+      const merged = withField(req, 'requirement_id', 'requirementId', finalId);
+      (contentKey(merged) === contentKey(match) ? changes.unchanged : changes.modified).push(finalId);
+    } else {
+      finalId = nextRequirementId();
+      changes.added.push(finalId);
+    }
+
+    idMap.set(getRequirementId(req), finalId);
+    requirements.push(withField(req, 'requirement_id', 'requirementId', finalId));
+  }
+
+  changes.removed = candidates.map(getRequirementId);
+
+  for (const tc of generated.testCases) {
+    const requirementId = idMap.get(getCaseRequirementId(tc));
+    if (!requirementId) {
+      continue;
+    }
+
+    let caseId: string | undefined;
+    if (replaced.has(requirementId)) {
+      const previousCase = previous.testCases.find(
+        (p) =>
+          getCaseRequirementId(p) === requirementId &&
+          getTitle(p) === getTitle(tc) &&
+          !testCases.some((t) => getCaseId(t) === getCaseId(p))
+      );
+      caseId = previousCase ? getCaseId(previousCase) : undefined;
+    }
+
+    const withRequirement = withField(tc, 'requirement_id', 'requirementId', requirementId);
+    testCases.push(withField(withRequirement, 'case_id', 'caseId', caseId ?? nextCaseId()));
+  }
+
+  return { requirements, testCases, changes };
+}
@@ -0,0 +1,27 @@
+/**
+ * PRD Diff Module
+ * Section-level PRD comparison and incremental re-parsing with stable requirement IDs
+ * @see Requirements 3.1, 3.5
+ */
+
+export {
+  splitPrdSections,
+  diffPrdSections,
+  findSection,
+  normalizeSectionTitle,
+  type PrdSection,
+  type PrdSectionDiff,
+} from './prd-sections.js';
+
+export {
+  planIncrementalParse,
+  mergeIncrementalParse,
+  extractParseItems,
+  getRequirementId,
+  type RawRequirement,
+  type RawTestCase,
+  type IncrementalParsePlan,
+  type RequirementChangeSummary,
+  type PrdChangeSummary,
+  type IncrementalParseResult,
+} from './incremental-merge.js';
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for PRD section splitting and diffing
+ * @see Requirements 3.1, 3.5
+ */
+
+import { describe, it, expect } from 'vitest';
+import { splitPrdSections, diffPrdSections, findSection } from './prd-sections';
+
+const PRD = `# 用户管理 PRD
+
+版本 1.0
+
+## 2.1 用户列表查询
+
+支持按用户名搜索。
+
+\`\`\`
+# 不是标题
+\`\`\`
+
+## 2.2 新增用户
+
+### 2.2.1 表单校验
+
+用户名必填。
+`;
+
+describe('splitPrdSections', () => {
+  it('should split headings into nested sections and ignore fenced code', () => {
+    const sections = splitPrdSections(PRD);
+
+    expect(sections.map((s) => [s.title, s.level])).toEqual([
+      ['用户管理 PRD', 1],
+      ['2.1 用户列表查询', 2],
+      ['2.2 新增用户', 2],
+      ['2.2.1 表单校验', 3],
+    ]);
+    expect(sections[1].content).toContain('# 不是标题');
+    expect(sections[2].content).not.toContain('用户名必填');
+    expect(sections[3].content).toContain('用户名必填');
+  });
+
+  it('should return text before the first heading as an untitled section', () => {
+    const sections = splitPrdSections('前言\n\n# 标题\n正文');
+
+    expect(sections[0]).toMatchObject({ title: '', level: 0 });
+    expect(sections).toHaveLength(2);
+  });
+});
+
+describe('diffPrdSections', () => {
+  it('should report added, modified, removed and unchanged sections', () => {
+    const current = PRD.replace('用户名必填。', '用户名必填，长度不超过 20。')
+      .replace(/## 2\.1[\s\S]*?(?=## 2\.2 )/, '')
+      .concat('\n## 2.3 删除用户\n\n需要二次确认。\n');
+
+    const diff = diffPrdSections(splitPrdSections(PRD), splitPrdSections(current));
+
+    expect(diff.added).toEqual(['2.3 删除用户']);
+    expect(diff.modified).toEqual(['2.2.1 表单校验']);
+    expect(diff.removed).toEqual(['2.1 用户列表查询']);
+    expect(diff.unchanged).toEqual(['用户管理 PRD', '2.2 新增用户']);
+  });
+
+  it('should ignore whitespace-only changes', () => {
+    const current = PRD.replace('支持按用户名搜索。', '  支持按用户名搜索。\n\n');
+
+    const diff = diffPrdSections(splitPrdSections(PRD), splitPrdSections(current));
+
+    expect(diff.modified).toEqual([]);
+    expect(diff.unchanged).toHaveLength(4);
+  });
+});
+
+describe('findSection', () => {
+  const sections = splitPrdSections(PRD);
+
+  it('should match exact and partial section references', () => {
+    expect(findSection('2.1 用户列表查询', sections)?.title).toBe('2.1 用户列表查询');
+    expect(findSection('用户列表查询', sections)?.title).toBe('2.1 用户列表查询');
+    expect(findSection('## 2.2.1 表单校验', sections)?.title).toBe('2.2.1 表单校验');
+  });
+
+  it('should return undefined for unknown or empty references', () => {
+    expect(findSection('订单管理', sections)).toBeUndefined();
+    expect(findSection(undefined, sections)).toBeUndefined();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * PRD Sections
+ * Splits a Markdown PRD into heading sections and compares two revisions section by section
+ * @see Requirements 3.1, 3.5
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * One heading section of a PRD
+ */
+export interface PrdSection {
+  /** Heading text without the leading #'s, e.g. "2.1 用户列表查询" */
+  title: string;
+  /** Heading level (1-6) */
+  level: number;
+  /** Section text up to the next heading, subsections excluded */
+  content: string;
+  /** Hash of the whitespace-normalized content */
+  hash: string;
+}
+
+/**
+ * Section-level difference between two PRD revisions
+ * Sections are matched by normalized title.
+ */
+export interface PrdSectionDiff {
+  added: string[];
+  modified: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Normalize a section title for matching: lowercase, collapse whitespace,
+ * drop surrounding Markdown emphasis
+ */
+export function normalizeSectionTitle(title: string): string {
+  return title
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function hashContent(content: string): string {
+  const normalized = content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 16);
+}
+
+/**
+ * Split a Markdown document into heading sections
+ * A section runs until the next heading of any level, so a change in a subsection does not
+ * mark its parents as modified. Headings inside fenced code blocks are ignored; text before
+ * the first heading is returned as a level-0 section with an empty title.
+ */
+export function splitPrdSections(markdown: string): PrdSection[] {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const headings: Array<{ line: number; level: number; title: string }> = [];
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+
+    const match = HEADING_PATTERN.exec(line);
+    if (match) {
+      headings.push({ line: index, level: match[1].length, title: match[2].trim() });
+    }
+  });
+
+  const sections: PrdSection[] = [];
+
+  const preambleEnd = headings.length > 0 ? headings[0].line : lines.length;
+  const preamble = lines.slice(0, preambleEnd).join('\n');
+  if (preamble.trim()) {
+    sections.push({ title: '', level: 0, content: preamble, hash: hashContent(preamble) });
+  }
+
+  headings.forEach((heading, i) => {
+    const next = headings[i + 1];
+    const content = lines.slice(heading.line, next ? next.line : lines.length).join('\n');
+    sections.push({ title: heading.title, level: heading.level, content, hash: hashContent(content) });
+  });
+
+  return sections;
+}
+
+/**
+ * Compare the sections of two PRD revisions
+ * Duplicate titles are compared by their first occurrence.
+ */
+export function diffPrdSections(previous: PrdSection[], current: PrdSection[]): PrdSectionDiff {
+  const byTitle = (sections: PrdSection[]) => {
+    const map = new Map<string, PrdSection>();
+    for (const section of sections) {
+      const key = normalizeSectionTitle(section.title);
+      if (!map.has(key)) map.set(key, section);
+    }
+    return map;
+  };
+
+  const previousByTitle = byTitle(previous);
+  const currentByTitle = byTitle(current);
+  const diff: PrdSectionDiff = { added: [], modified: [], removed: [], unchanged: [] };
+
+  for (const [key, section] of currentByTitle) {
+    const before = previousByTitle.get(key);
+    if (!before) {
+      diff.added.push(section.title);
+    } else if (before.hash !== section.hash) {
+      diff.modified.push(section.title);
+    } else {
+      diff.unchanged.push(section.title);
+    }
+  }
+
+  for (const [key, section] of previousByTitle) {
+    if (!currentByTitle.has(key)) {
+      diff.removed.push(section.title);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Find the section a requirement's `source_section` refers to
+ * Matches the exact normalized title first, then a title that contains the reference or is
+ * contained in it (agents often drop or add section numbers). Deeper sections win ties.
+ */
+export function findSection(sourceSection: string | undefined, sections: PrdSection[]): PrdSection | undefined {
+  if (!sourceSection?.trim()) {
+    return undefined;
+  }
+  const reference = normalizeSectionTitle(sourceSection);
+  const titled = sections.filter((s) => s.title);
+
+  const exact = titled.find((s) => normalizeSectionTitle(s.title) === reference);
+  if (exact) {
+    return exact;
+  }
+
+  return titled
+    .filter((s) => {
+      const title = normalizeSectionTitle(s.title);
+      return title.includes(reference) || reference.includes(title);
+    })
+    .sort((a, b) => b.level - a.level)[0];
+}
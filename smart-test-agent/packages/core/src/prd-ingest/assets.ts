@@ -0,0 +1,77 @@
+/**
+ * PRD Assets
+ * Stores images embedded in a PRD next to the converted Markdown
+ * @see Requirements 3.1
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/** Directory for PRD images, next to inputs/prd.md */
+export const PRD_ASSETS_DIRNAME = 'prd-assets';
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/jpg': '.jpg',
+  'image/gif': '.gif',
+  'image/bmp': '.bmp',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'image/x-emf': '.emf',
+  'image/x-wmf': '.wmf',
+};
+
+/**
+ * File extension for an image content type (".bin" for unknown types)
+ */
+export function getImageExtension(contentType: string): string {
+  return CONTENT_TYPE_EXTENSIONS[contentType.toLowerCase()] ?? '.bin';
+}
+
+/**
+ * Writes PRD images as image-001.png, image-002.jpg, ... into the assets directory
+ * Returned hrefs are relative to the directory containing the assets directory,
+ * i.e. where the Markdown file lives.
+ */
+export class PrdAssetWriter {
+  private readonly files: string[] = [];
+
+  constructor(private readonly assetsDir: string) {}
+
+  /** Absolute paths of the written assets */
+  get writtenFiles(): string[] {
+    return [...this.files];
+  }
+
+  async write(data: Buffer, extension: string): Promise<string> {
+    await fs.mkdir(this.assetsDir, { recursive: true });
+    const fileName = `image-${String(this.files.length + 1).padStart(3, '0')}${extension}`;
+    const filePath = path.join(this.assetsDir, fileName);
+    await fs.writeFile(filePath, data);
+    this.files.push(filePath);
+    return `${path.basename(this.assetsDir)}/${fileName}`;
+  }
+
+  async copy(sourcePath: string): Promise<string> {
+    return this.write(await fs.readFile(sourcePath), path.extname(sourcePath).toLowerCase() || '.bin');
+  }
+}
+
+/**
+ * Normalize converted Markdown: Unix line endings, no trailing spaces (except hard breaks),
+ * at most one blank line between blocks, single trailing newline
+ */
+export function normalizeMarkdown(markdown: string): string {
+  return (
+    markdown
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .replace(/\u00A0/g, ' ')
+      .split('\n')
+      .map((line) => (/\S {2}$/.test(line) ? line : line.trimEnd()))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim() + '\n'
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * Word PRD Converter
+ * Converts .docx to Markdown via HTML; Word heading styles become Markdown headings
+ * @see Requirements 3.1
+ */
+
+import mammoth from 'mammoth';
+import { PrdAssetWriter, getImageExtension } from './assets.js';
+import { htmlToMarkdown } from './html.js';
+
+/**
+ * Style mappings on top of mammoth's defaults (Heading 1-6, lists, tables)
+ */
+const STYLE_MAP = [
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name='Subtitle'] => h2:fresh",
+];
+
+/**
+ * Convert a .docx file to Markdown
+ */
+export async function convertDocxFile(
+  filePath: string,
+  options: { assets: PrdAssetWriter; warnings: string[] }
+): Promise<string> {
+  const result = await mammoth.convertToHtml(
+    { path: filePath },
+    {
+      styleMap: STYLE_MAP,
+      convertImage: mammoth.images.imgElement(async (image) => ({
+        src: await options.assets.write(await image.readAsBuffer(), getImageExtension(image.contentType)),
+      })),
+    }
+  );
+
+  for (const message of result.messages) {
+    options.warnings.push(message.message);
+  }
+
+  return htmlToMarkdown(result.value);
+}
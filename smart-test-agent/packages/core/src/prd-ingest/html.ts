@@ -0,0 +1,142 @@
+/**
+ * HTML PRD Converter
+ * Converts HTML (including Confluence page exports) to Markdown with GFM tables
+ * @see Requirements 3.1
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import TurndownService from 'turndown';
+import { gfm } from 'turndown-plugin-gfm';
+import { PrdAssetWriter, getImageExtension } from './assets.js';
+
+/**
+ * Confluence export chrome that is not part of the page content
+ */
+const CONFLUENCE_CHROME_IDS = new Set(['breadcrumb-section', 'footer', 'main-header']);
+const CONFLUENCE_CHROME_CLASSES = ['page-metadata'];
+
+const IMG_SRC_PATTERN = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])(.*?)\2/gi;
+const DATA_URI_PATTERN = /^data:([^;,]+)(;base64)?,(.*)$/is;
+
+function createTurndownService(): TurndownService {
+  const service = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+    emDelimiter: '*',
+  });
+  service.use(gfm);
+  // Table cells must stay on one line: flatten paragraphs and line breaks inside cells
+  service.addRule('tableCellInline', {
+    filter: ['th', 'td'],
+    replacement: (content, node) => {
+      const text = content.replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|');
+      const first = !(node as unknown as { previousElementSibling: unknown }).previousElementSibling;
+      return `${first ? '| ' : ' '}${text} |`;
+    },
+  });
+  service.remove(['script', 'style', 'head', 'title', 'nav', 'noscript']);
+  service.remove((node) => {
+    const element = node as unknown as { id?: string; className?: string };
+    return (
+      (!!element.id && CONFLUENCE_CHROME_IDS.has(element.id)) ||
+      (typeof element.className === 'string' &&
+        element.className.split(/\s+/).some((name) => CONFLUENCE_CHROME_CLASSES.includes(name)))
+    );
+  });
+  return service;
+}
+
+/**
+ * Whether a path lies inside a directory
+ */
+function isInsideDir(dir: string, filePath: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Store the images an HTML document references and point them at the assets directory
+ * data: URIs are decoded, relative paths are copied from next to the source document;
+ * remote URLs are kept as they are. Paths outside the document's directory (absolute or
+ * with ../) and malformed sources are dropped with a warning.
+ */
+async function localizeImages(
+  html: string,
+  baseDir: string,
+  assets: PrdAssetWriter,
+  warnings: string[]
+): Promise<string> {
+  const sources = new Map<string, string>();
+
+  for (const match of html.matchAll(IMG_SRC_PATTERN)) {
+    const src = match[3];
+    if (sources.has(src) || /^(https?:)?\/\//i.test(src)) {
+      continue;
+    }
+
+    try {
+      const dataUri = DATA_URI_PATTERN.exec(src);
+      if (dataUri) {
+        const data = dataUri[2]
+          ? Buffer.from(dataUri[3], 'base64')
+          : Buffer.from(decodeURIComponent(dataUri[3]));
+        sources.set(src, await assets.write(data, getImageExtension(dataUri[1])));
+        continue;
+      }
+
+      const filePath = path.resolve(baseDir, decodeURIComponent(src.split(/[?#]/)[0]));
+      if (!isInsideDir(baseDir, filePath)) {
+        warnings.push(`图片不在 PRD 所在目录内，已忽略: ${src}`);
+        sources.set(src, '');
+        continue;
+      }
+      sources.set(src, await assets.copy(filePath));
+    } catch (err) {
+      warnings.push(err instanceof URIError ? `图片地址无效，已忽略: ${src}` : `图片不存在，已忽略: ${src}`);
+      sources.set(src, '');
+    }
+  }
+
+  return html.replace(IMG_SRC_PATTERN, (whole, prefix: string, quote: string, src: string) =>
+    sources.has(src) ? `${prefix}${quote}${sources.get(src)}${quote}` : whole
+  );
+}
+
+/**
+ * Treat the first row of tables without header cells as the header row
+ * Word and many wiki tables have no marked header, and GFM tables require one.
+ */
+function promoteHeaderRows(html: string): string {
+  return html.replace(/<table\b[^>]*>[\s\S]*?<\/table>/gi, (table) =>
+    /<th\b/i.test(table)
+      ? table
+      : table.replace(/<tr\b[^>]*>[\s\S]*?<\/tr>/i, (row) => row.replace(/<(\/?)td\b/gi, '<$1th'))
+  );
+}
+
+/**
+ * Convert an HTML string to Markdown
+ * Image sources are kept as they are.
+ */
+export function htmlToMarkdown(html: string): string {
+  return createTurndownService().turndown(promoteHeaderRows(html));
+}
+
+/**
+ * Convert an HTML file to Markdown, storing its images in the assets directory
+ */
+export async function convertHtmlFile(
+  filePath: string,
+  options: { assets: PrdAssetWriter; warnings: string[] }
+): Promise<string> {
+  const html = await fs.readFile(filePath, 'utf-8');
+  const localized = await localizeImages(html, path.dirname(filePath), options.assets, options.warnings);
+  // Images that could not be stored keep only their alt text
+  const withoutMissing = localized.replace(/<img\b[^>]*?\bsrc\s*=\s*(["'])\1[^>]*>/gi, (img) => {
+    const alt = /\balt\s*=\s*(["'])(.*?)\1/i.exec(img)?.[2];
+    return alt ? `[${alt}]` : '';
+  });
+  return htmlToMarkdown(withoutMissing);
+}
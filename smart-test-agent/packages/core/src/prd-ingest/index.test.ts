@@ -0,0 +1,317 @@
+/**
+ * Unit tests for PRD ingestion
+ * @see Requirements 3.1
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { crc32 } from 'zlib';
+import { ingestPrd, detectPrdFormat, normalizeMarkdown } from './index';
+import { encodePng } from './pdf';
+
+/** 1x1 red PNG */
+const PNG_PIXEL = encodePng({ width: 1, height: 1, kind: 2, data: new Uint8Array([255, 0, 0]) })!;
+
+/**
+ * Build an uncompressed zip archive (enough for a .docx)
+ */
+function buildZip(files: Record<string, string | Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf-8');
+    const fileName = Buffer.from(name, 'utf-8');
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    locals.push(local, fileName, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, fileName);
+
+    offset += local.length + fileName.length + data.length;
+  }
+
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function buildDocx(): Buffer {
+  const paragraph = (text: string, style?: string) =>
+    `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+  const cell = (text: string) => `<w:tc>${paragraph(text)}</w:tc>`;
+  const image = `<w:p><w:r><w:drawing>
+    <wp:inline xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">
+      <wp:extent cx="9525" cy="9525"/><wp:docPr id="1" name="Picture 1" descr="流程图"/>
+      <a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">
+        <a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">
+          <pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">
+            <pic:blipFill><a:blip xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:embed="rId1"/></pic:blipFill>
+          </pic:pic>
+        </a:graphicData>
+      </a:graphic>
+    </wp:inline></w:drawing></w:r></w:p>`;
+
+  return buildZip({
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Default Extension="png" ContentType="image/png"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`,
+    'word/_rels/document.xml.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.png"/>
+</Relationships>`,
+    'word/styles.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<w:styles ${W_NS}>
+  <w:style w:type="paragraph" w:styleId="1"><w:name w:val="heading 1"/></w:style>
+  <w:style w:type="paragraph" w:styleId="2"><w:name w:val="heading 2"/></w:style>
+</w:styles>`,
+    'word/document.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<w:document ${W_NS}><w:body>
+  ${paragraph('用户管理', '1')}
+  ${paragraph('2.1 用户列表查询', '2')}
+  ${paragraph('支持按用户名搜索。')}
+  <w:tbl><w:tr>${cell('字段')}${cell('说明')}</w:tr><w:tr>${cell('用户名')}${cell('必填')}</w:tr></w:tbl>
+  ${image}
+</w:body></w:document>`,
+    'word/media/image1.png': PNG_PIXEL,
+  });
+}
+
+/**
+ * Build a one-page PDF with the given content stream and an optional 2x2 RGB image /Im1
+ */
+function buildPdf(content: string): Buffer {
+  const image = '\xff\x00\x00\x00\xff\x00\x00\x00\xff\xff\xff\xff';
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> /XObject << /Im1 6 0 R >> >> >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    `<< /Type /XObject /Subtype /Image /Width 2 /Height 2 /ColorSpace /DeviceRGB /BitsPerComponent 8 /Length ${image.length} >>\nstream\n${image}\nendstream`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('PRD ingestion', () => {
+  let tempDir: string;
+  let assetsDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prd-ingest-'));
+    assetsDir = path.join(tempDir, 'inputs', 'prd-assets');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('detectPrdFormat', () => {
+    it('should detect formats by extension', () => {
+      expect(detectPrdFormat('/docs/prd.md')).toBe('markdown');
+      expect(detectPrdFormat('需求.DOCX')).toBe('docx');
+      expect(detectPrdFormat('export.pdf')).toBe('pdf');
+      expect(detectPrdFormat('page.htm')).toBe('html');
+      expect(detectPrdFormat('prd.doc')).toBeNull();
+    });
+  });
+
+  it('should pass Markdown through with normalized whitespace', async () => {
+    const source = path.join(tempDir, 'prd.md');
+    await fs.writeFile(source, '﻿# 标题\r\n\r\n\r\n\r\n正文  \r\n');
+
+    const result = await ingestPrd(source, { assetsDir });
+
+    expect(result).toEqual({ format: 'markdown', markdown: '# 标题\n\n正文\n', assets: [], warnings: [] });
+  });
+
+  it('should reject unsupported formats', async () => {
+    await expect(ingestPrd(path.join(tempDir, 'prd.doc'), { assetsDir })).rejects.toThrow('不支持的 PRD 格式');
+  });
+
+  it('should convert Word headings, tables and images', async () => {
+    const source = path.join(tempDir, 'prd.docx');
+    await fs.writeFile(source, buildDocx());
+
+    const result = await ingestPrd(source, { assetsDir });
+
+    expect(result.format).toBe('docx');
+    expect(result.markdown).toContain('# 用户管理\n');
+    expect(result.markdown).toContain('## 2.1 用户列表查询\n\n支持按用户名搜索。');
+    expect(result.markdown).toMatch(/\| 字段 \| 说明 \|\n\| -+ \| -+ \|\n\| 用户名 \| 必填 \|/);
+    expect(result.markdown).toContain('![流程图](prd-assets/image-001.png)');
+    expect(result.assets).toEqual([path.join(assetsDir, 'image-001.png')]);
+    expect(await fs.readFile(result.assets[0])).toEqual(PNG_PIXEL);
+  });
+
+  it('should convert Confluence HTML and store its images', async () => {
+    await fs.mkdir(path.join(tempDir, 'attachments'));
+    await fs.writeFile(path.join(tempDir, 'attachments', 'flow.png'), PNG_PIXEL);
+    const source = path.join(tempDir, 'page.html');
+    await fs.writeFile(
+      source,
+      `<html><head><title>PRD</title><style>p { color: red; }</style></head><body>
+        <div id="breadcrumb-section"><a href="index.html">空间首页</a></div>
+        <h1 id="title-heading">用户管理</h1>
+        <h2>2.1 用户列表查询</h2>
+        <p>支持按<strong>用户名</strong>搜索。</p>
+        <table><tbody><tr><td>字段</td><td>说明</td></tr><tr><td>用户名</td><td><p>必填</p><p>最长 20</p></td></tr></tbody></table>
+        <img src="attachments/flow.png" alt="流程">
+        <img src="data:image/png;base64,${PNG_PIXEL.toString('base64')}">
+        <img src="attachments/missing.png" alt="缺失的图">
+        <div id="footer">Powered by Confluence</div>
+      </body></html>`
+    );
+
+    const result = await ingestPrd(source, { assetsDir });
+
+    expect(result.markdown).toBe(
+      [
+        '# 用户管理',
+        '',
+        '## 2.1 用户列表查询',
+        '',
+        '支持按**用户名**搜索。',
+        '',
+        '| 字段 | 说明 |',
+        '| --- | --- |',
+        '| 用户名 | 必填 最长 20 |',
+        '',
+        '![流程](prd-assets/image-001.png) ![](prd-assets/image-002.png) \\[缺失的图\\]',
+        '',
+      ].join('\n')
+    );
+    expect(result.assets).toHaveLength(2);
+    expect(result.warnings).toEqual(['图片不存在，已忽略: attachments/missing.png']);
+  });
+
+  it('should only copy images from inside the directory of the HTML file', async () => {
+    const pageDir = path.join(tempDir, 'page');
+    await fs.mkdir(pageDir);
+    await fs.writeFile(path.join(tempDir, 'secret.png'), PNG_PIXEL);
+    await fs.writeFile(path.join(pageDir, 'flow.png'), PNG_PIXEL);
+    const source = path.join(pageDir, 'page.html');
+    await fs.writeFile(
+      source,
+      `<p>流程</p>
+        <img src="flow.png" alt="流程">
+        <img src="../secret.png" alt="上级目录">
+        <img src="${path.join(tempDir, 'secret.png')}" alt="绝对路径">
+        <img src="%E0%A4%A.png" alt="无效地址">`
+    );
+
+    const result = await ingestPrd(source, { assetsDir });
+
+    expect(result.markdown).toBe('流程\n\n![流程](prd-assets/image-001.png) \\[上级目录\\] \\[绝对路径\\] \\[无效地址\\]\n');
+    expect(result.assets).toHaveLength(1);
+    expect(result.warnings).toEqual([
+      '图片不在 PRD 所在目录内，已忽略: ../secret.png',
+      `图片不在 PRD 所在目录内，已忽略: ${path.join(tempDir, 'secret.png')}`,
+      '图片地址无效，已忽略: %E0%A4%A.png',
+    ]);
+  });
+
+  it('should rebuild headings, tables and images from a PDF', async () => {
+    const source = path.join(tempDir, 'prd.pdf');
+    await fs.writeFile(
+      source,
+      buildPdf(
+        [
+          'BT /F1 24 Tf 50 750 Td (User Management) Tj ET',
+          'BT /F1 16 Tf 50 720 Td (2.1 User List) Tj ET',
+          'BT /F1 12 Tf 50 700 Td (Users can be searched by name.) Tj ET',
+          'BT /F1 12 Tf 50 686 Td (Results are paged.) Tj ET',
+          'BT /F1 12 Tf 50 650 Td (Field) Tj 200 0 Td (Rule) Tj ET',
+          'BT /F1 12 Tf 50 636 Td (Name) Tj 200 0 Td (Required) Tj ET',
+          'q 20 0 0 20 50 580 cm /Im1 Do Q',
+          'BT /F1 12 Tf 50 560 Td (End of section.) Tj ET',
+        ].join('\n')
+      )
+    );
+
+    const result = await ingestPrd(source, { assetsDir });
+
+    expect(result.format).toBe('pdf');
+    expect(result.markdown).toBe(
+      [
+        '# User Management',
+        '',
+        '## 2.1 User List',
+        '',
+        'Users can be searched by name.',
+        'Results are paged.',
+        '',
+        '| Field | Rule |',
+        '| --- | --- |',
+        '| Name | Required |',
+        '',
+        '![](prd-assets/image-001.png)',
+        '',
+        'End of section.',
+        '',
+      ].join('\n')
+    );
+    const png = await fs.readFile(result.assets[0]);
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+  });
+
+  it('should report unreadable documents', async () => {
+    const source = path.join(tempDir, 'broken.docx');
+    await fs.writeFile(source, 'not a zip');
+
+    await expect(ingestPrd(source, { assetsDir })).rejects.toThrow('PRD 文档转换失败 (broken.docx)');
+  });
+});
+
+describe('normalizeMarkdown', () => {
+  it('should keep hard line breaks and collapse blank lines', () => {
+    expect(normalizeMarkdown('a  \nb c   \n\n\n\nd')).toBe('a  \nb c\n\nd\n');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * PRD Ingestion Module
+ * Converts PRDs written as Markdown, Word (.docx), PDF or HTML to normalized Markdown.
+ * Headings are preserved so requirements can refer to their source section; tables become
+ * GFM tables and embedded images are stored in an assets directory next to the Markdown.
+ * @see Requirements 3.1
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { PrdAssetWriter, normalizeMarkdown } from './assets.js';
+import { convertHtmlFile } from './html.js';
+import { convertDocxFile } from './docx.js';
+import { convertPdfFile } from './pdf.js';
+
+export { PRD_ASSETS_DIRNAME, normalizeMarkdown } from './assets.js';
+export { htmlToMarkdown } from './html.js';
+
+/**
+ * Source format of a PRD
+ */
+export type PrdFormat = 'markdown' | 'docx' | 'pdf' | 'html';
+
+/**
+ * Supported PRD file extensions
+ */
+export const PRD_FORMAT_EXTENSIONS: Record<string, PrdFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'markdown',
+  '.docx': 'docx',
+  '.pdf': 'pdf',
+  '.html': 'html',
+  '.htm': 'html',
+};
+
+export interface PrdIngestOptions {
+  /**
+   * Directory for embedded images; image links in the Markdown are relative to its parent,
+   * so the Markdown should be written next to it (e.g. inputs/prd.md and inputs/prd-assets/)
+   */
+  assetsDir: string;
+}
+
+export interface PrdIngestResult {
+  format: PrdFormat;
+  markdown: string;
+  /** Absolute paths of the stored images */
+  assets: string[];
+  /** Conversion problems that did not stop the conversion */
+  warnings: string[];
+}
+
+/**
+ * Detect the PRD format from the file extension
+ * @returns null for unsupported files
+ */
+export function detectPrdFormat(filePath: string): PrdFormat | null {
+  return PRD_FORMAT_EXTENSIONS[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+/**
+ * Convert a PRD file to normalized Markdown
+ * @throws Error for unsupported formats and unreadable documents
+ */
+export async function ingestPrd(sourcePath: string, options: PrdIngestOptions): Promise<PrdIngestResult> {
+  const format = detectPrdFormat(sourcePath);
+  if (!format) {
+    throw new Error(
+      `不支持的 PRD 格式: ${path.basename(sourcePath)}（支持 ${Object.keys(PRD_FORMAT_EXTENSIONS).join(', ')}）`
+    );
+  }
+
+  const assets = new PrdAssetWriter(options.assetsDir);
+  const warnings: string[] = [];
+  let markdown: string;
+
+  try {
+    switch (format) {
+      case 'docx':
+        markdown = await convertDocxFile(sourcePath, { assets, warnings });
+        break;
+      case 'pdf':
+        markdown = await convertPdfFile(sourcePath, { assets, warnings });
+        break;
+      case 'html':
+        markdown = await convertHtmlFile(sourcePath, { assets, warnings });
+        break;
+      default:
+        markdown = await fs.readFile(sourcePath, 'utf-8');
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw error;
+    }
+    throw new Error(
+      `PRD 文档转换失败 (${path.basename(sourcePath)}): ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return { format, markdown: normalizeMarkdown(markdown), assets: assets.writtenFiles, warnings };
+}
@@ -0,0 +1,320 @@
+/**
+ * PDF PRD Converter
+ * Rebuilds Markdown from the text layout of an exported PDF:
+ * - lines set in a larger font than the body text become headings, ranked by font size
+ * - runs of lines with the same column layout become tables
+ * - images are written as PNG at their position in the text flow
+ * @see Requirements 3.1
+ */
+
+import * as fs from 'fs/promises';
+import { deflateSync, crc32 } from 'zlib';
+import { getDocument, OPS, type PDFPageProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api.js';
+import { PrdAssetWriter } from './assets.js';
+
+/** A line needs this font size ratio to the body text to be a heading */
+const HEADING_SIZE_RATIO = 1.15;
+
+/** Gap between text items (in multiples of the font size) that starts a new table cell */
+const CELL_GAP_RATIO = 2;
+
+/** pdfjs ImageKind values */
+const IMAGE_KIND = { GRAYSCALE_1BPP: 1, RGB_24BPP: 2, RGBA_32BPP: 3 } as const;
+
+interface PdfLine {
+  /** Top of the line in page coordinates (larger is higher on the page) */
+  y: number;
+  size: number;
+  cells: Array<{ x: number; text: string }>;
+}
+
+type PdfBlock = { type: 'line'; line: PdfLine } | { type: 'image'; y: number; href: string };
+
+interface PdfImage {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array;
+}
+
+/**
+ * Encode raw pdfjs image data as PNG
+ */
+export function encodePng(image: PdfImage): Buffer | null {
+  const { width, height, kind, data } = image;
+  let colorType: number;
+  let bitDepth = 8;
+  let rowBytes: number;
+
+  if (kind === IMAGE_KIND.RGB_24BPP) {
+    colorType = 2;
+    rowBytes = width * 3;
+  } else if (kind === IMAGE_KIND.RGBA_32BPP) {
+    colorType = 6;
+    rowBytes = width * 4;
+  } else if (kind === IMAGE_KIND.GRAYSCALE_1BPP) {
+    colorType = 0;
+    bitDepth = 1;
+    rowBytes = Math.ceil(width / 8);
+  } else {
+    return null;
+  }
+
+  // Each scanline starts with filter type 0 (none)
+  const raw = Buffer.alloc((rowBytes + 1) * height);
+  for (let row = 0; row < height; row++) {
+    Buffer.from(data.buffer, data.byteOffset + row * rowBytes, rowBytes).copy(raw, row * (rowBytes + 1) + 1);
+  }
+
+  const chunk = (type: string, body: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(body.length);
+    const typeAndBody = Buffer.concat([Buffer.from(type, 'ascii'), body]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(typeAndBody));
+    return Buffer.concat([length, typeAndBody, crc]);
+  };
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.writeUInt8(bitDepth, 8);
+  header.writeUInt8(colorType, 9);
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Group the text items of a page into lines of cells, top to bottom
+ */
+function extractLines(items: TextItem[]): PdfLine[] {
+  const lines: Array<PdfLine & { end: number }> = [];
+
+  const sorted = items
+    .filter((item) => item.str.trim())
+    .map((item) => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      size: Math.hypot(item.transform[2], item.transform[3]) || item.height,
+    }))
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  for (const item of sorted) {
+    const line = lines.find((l) => Math.abs(l.y - item.y) <= Math.max(l.size, item.size) * 0.3);
+    if (!line) {
+      lines.push({ y: item.y, size: item.size, cells: [{ x: item.x, text: item.text }], end: item.x + item.width });
+      continue;
+    }
+
+    const last = line.cells[line.cells.length - 1];
+    if (item.x - line.end > item.size * CELL_GAP_RATIO) {
+      line.cells.push({ x: item.x, text: item.text });
+    } else {
+      const needsSpace = /[A-Za-z0-9]$/.test(last.text) && /^[A-Za-z0-9]/.test(item.text) && item.x - line.end > item.size * 0.15;
+      last.text += needsSpace ? ` ${item.text}` : item.text;
+    }
+    line.size = Math.max(line.size, item.size);
+    line.end = Math.max(line.end, item.x + item.width);
+  }
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map(({ y, size, cells }) => ({
+      y: y + size,
+      size,
+      cells: cells.map((cell) => ({ x: cell.x, text: cell.text.replace(/\s+/g, ' ').trim() })),
+    }));
+}
+
+/**
+ * Write the images painted on a page and return them with their top position
+ */
+async function extractImages(
+  page: PDFPageProxy,
+  assets: PrdAssetWriter,
+  warnings: string[]
+): Promise<PdfBlock[]> {
+  const operatorList = await page.getOperatorList();
+  const blocks: PdfBlock[] = [];
+  const stack: number[][] = [];
+  let matrix = [1, 0, 0, 1, 0, 0];
+
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i];
+    const args = operatorList.argsArray[i];
+
+    if (fn === OPS.save) {
+      stack.push(matrix);
+    } else if (fn === OPS.restore) {
+      matrix = stack.pop() ?? [1, 0, 0, 1, 0, 0];
+    } else if (fn === OPS.transform) {
+      const [a, b, c, d, e, f] = args as number[];
+      const [m0, m1, m2, m3, m4, m5] = matrix;
+      matrix = [
+        a * m0 + b * m2,
+        a * m1 + b * m3,
+        c * m0 + d * m2,
+        c * m1 + d * m3,
+        e * m0 + f * m2 + m4,
+        e * m1 + f * m3 + m5,
+      ];
+    } else if (fn === OPS.paintImageXObject || fn === OPS.paintInlineImageXObject) {
+      const image = (
+        fn === OPS.paintInlineImageXObject
+          ? args[0]
+          : await new Promise((resolve) => {
+              const name = args[0] as string;
+              const objs = name.startsWith('g_') ? page.commonObjs : page.objs;
+              objs.get(name, resolve);
+            })
+      ) as PdfImage | null;
+
+      const png = image?.data ? encodePng(image) : null;
+      if (!png) {
+        warnings.push(`第 ${page.pageNumber} 页有无法导出的图片，已忽略`);
+        continue;
+      }
+      blocks.push({ type: 'image', y: matrix[5] + Math.abs(matrix[3]), href: await assets.write(png, '.png') });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Font size of the body text: the size covering the most characters
+ */
+function getBodySize(lines: PdfLine[]): number {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.size * 2) / 2;
+    const chars = line.cells.reduce((sum, cell) => sum + cell.text.length, 0);
+    counts.set(size, (counts.get(size) ?? 0) + chars);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+/**
+ * Render the blocks of all pages as Markdown
+ */
+function renderMarkdown(blocks: PdfBlock[], bodySize: number, headingSizes: number[]): string {
+  const output: string[] = [];
+  let previous: PdfLine | null = null;
+
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    if (block.type === 'image') {
+      output.push('', `![](${block.href})`, '');
+      previous = null;
+      continue;
+    }
+
+    const line = block.line;
+    const size = Math.round(line.size * 2) / 2;
+
+    if (size >= bodySize * HEADING_SIZE_RATIO && line.cells.length === 1) {
+      const level = Math.min(headingSizes.indexOf(size) + 1, 6);
+      output.push('', `${'#'.repeat(level)} ${line.cells[0].text}`, '');
+      previous = null;
+      continue;
+    }
+
+    // Table: at least two consecutive lines with the same aligned columns
+    const rows: PdfLine[] = [];
+    for (let j = i; j < blocks.length; j++) {
+      const candidate = blocks[j];
+      if (candidate.type !== 'line' || candidate.line.cells.length < 2) break;
+      if (
+        candidate.line.cells.length !== line.cells.length ||
+        candidate.line.cells.some((cell, k) => Math.abs(cell.x - line.cells[k].x) > line.size)
+      ) {
+        break;
+      }
+      rows.push(candidate.line);
+    }
+    if (rows.length >= 2) {
+      const toRow = (row: PdfLine) => `| ${row.cells.map((cell) => escapeCell(cell.text)).join(' | ')} |`;
+      output.push(
+        '',
+        toRow(rows[0]),
+        `| ${rows[0].cells.map(() => '---').join(' | ')} |`,
+        ...rows.slice(1).map(toRow),
+        ''
+      );
+      i += rows.length - 1;
+      previous = null;
+      continue;
+    }
+
+    // Paragraph break when the gap to the previous line is larger than a normal line gap
+    if (previous && previous.y - line.y > Math.max(previous.size, line.size) * 1.8) {
+      output.push('');
+    }
+    output.push(line.cells.map((cell) => cell.text).join(' '));
+    previous = line;
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Convert a PDF file to Markdown
+ */
+export async function convertPdfFile(
+  filePath: string,
+  options: { assets: PrdAssetWriter; warnings: string[] }
+): Promise<string> {
+  const data = new Uint8Array(await fs.readFile(filePath));
+  const document = await getDocument({ data, isEvalSupported: false, verbosity: 0 }).promise;
+
+  try {
+    const blocks: PdfBlock[] = [];
+    const lines: PdfLine[] = [];
+
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const pageLines = extractLines(content.items.filter((item): item is TextItem => 'str' in item));
+      const pageBlocks: PdfBlock[] = [
+        ...pageLines.map((line): PdfBlock => ({ type: 'line', line })),
+        ...(await extractImages(page, options.assets, options.warnings)),
+      ];
+
+      // Top to bottom; on a page, y grows upwards
+      pageBlocks.sort((a, b) => (b.type === 'line' ? b.line.y : b.y) - (a.type === 'line' ? a.line.y : a.y));
+      blocks.push(...pageBlocks);
+      lines.push(...pageLines);
+      page.cleanup();
+    }
+
+    if (lines.length === 0) {
+      options.warnings.push('PDF 中没有可提取的文本（可能是扫描件）');
+    }
+
+    const bodySize = getBodySize(lines);
+    const headingSizes = [
+      ...new Set(
+        lines
+          .filter((line) => line.cells.length === 1)
+          .map((line) => Math.round(line.size * 2) / 2)
+          .filter((size) => size >= bodySize * HEADING_SIZE_RATIO)
+      ),
+    ].sort((a, b) => b - a);
+
+    return renderMarkdown(blocks, bodySize, headingSizes);
+  } finally {
+    await document.destroy();
+  }
+}
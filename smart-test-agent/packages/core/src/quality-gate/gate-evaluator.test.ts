@@ -258,6 +258,36 @@ describe('evaluateGate', () => {
     // Still blocked due to RC < 0.85 (50%)
     expect(result.blocked).toBe(true);
   });
+
+  it('should warn without blocking when A11Y is below threshold', () => {
+    const requirements: Requirement[] = [
+      createRequirement('REQ-001', 'P0', true),
+    ];
+    const testCases: TestCase[] = [
+      createTestCase('TC-001', 'REQ-001'),
+    ];
+    const assertions: Assertion[] = [
+      createAssertion('A-001', 'element_visible', 'pass'),
+    ];
+    const a11yAudit = {
+      runId: 'run-1',
+      startTime: '2024-01-01T00:00:00.000Z',
+      endTime: '2024-01-01T00:00:05.000Z',
+      routes: [{
+        route: '/test',
+        url: 'https://example.com/test',
+        passedRules: ['document-title'],
+        violations: [{ ruleId: 'image-alt', wcag: ['1.1.1'], impact: 'critical' as const, help: 'Images must have alternative text', route: '/test', nodes: [] }],
+      }],
+    };
+
+    const result = evaluateGate(requirements, testCases, assertions, [], {}, a11yAudit);
+
+    expect(result.blocked).toBe(false);
+    expect(result.passed).toBe(false);
+    expect(result.metrics.map((m) => m.name)).toEqual(['RC', 'APR', 'A11Y']);
+    expect(result.warnings.some((w) => w.includes('A11Y (50.0%)'))).toBe(true);
+  });
 });
 
 describe('formatGateResult', () => {
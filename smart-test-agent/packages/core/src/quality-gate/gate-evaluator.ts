@@ -5,16 +5,23 @@
  */
 
 import type {
+  A11yAuditResult,
   Requirement,
   TestCase,
   Assertion,
-  TestRun,
   QualityMetric,
   QualityMetrics,
   GateResult,
   P0CoverageCheck,
 } from '@smart-test-agent/shared';
-import { calculateRC, calculateAPR, calculateFR, getRCBreakdown } from './metrics-calculator.js';
+import {
+  calculateRC,
+  calculateAPR,
+  calculateFR,
+  calculateA11Y,
+  getRCBreakdown,
+  type RunCaseHistory,
+} from './metrics-calculator.js';
 
 /**
  * Gate evaluation configuration
@@ -26,6 +33,8 @@ export interface GateConfig {
   aprThreshold: number;
   /** FR threshold (default: 0.05) */
   frThreshold: number;
+  /** A11Y threshold (default: 0.95) */
+  a11yThreshold: number;
   /** Whether to block on P0 coverage failure */
   blockOnP0Failure: boolean;
 }
@@ -34,6 +43,7 @@ const DEFAULT_CONFIG: GateConfig = {
   rcThreshold: 0.85,
   aprThreshold: 0.95,
   frThreshold: 0.05,
+  a11yThreshold: 0.95,
   blockOnP0Failure: true,
 };
 
@@ -68,7 +78,8 @@ export function calculateAllMetrics(
   requirements: Requirement[],
   testCases: TestCase[],
   assertions: Assertion[],
-  runHistory: TestRun[] = []
+  runHistory: RunCaseHistory[] = [],
+  a11yAudit?: A11yAuditResult
 ): QualityMetrics {
   const rc = calculateRC(requirements, testCases);
   const apr = calculateAPR(assertions);
@@ -78,6 +89,7 @@ export function calculateAllMetrics(
     rc,
     apr,
     fr: fr ?? undefined,
+    a11y: a11yAudit ? calculateA11Y(a11yAudit) : undefined,
   };
 }
 
@@ -89,13 +101,15 @@ export function calculateAllMetrics(
  * - RC < 0.85 OR P0 not covered → blocked
  * - APR < 0.95 → warning
  * - FR > 0.05 → warning + mark flaky
+ * - A11Y < 0.95 → warning (only when an a11y audit ran)
  */
 export function evaluateGate(
   requirements: Requirement[],
   testCases: TestCase[],
   assertions: Assertion[],
-  runHistory: TestRun[] = [],
-  config: Partial<GateConfig> = {}
+  runHistory: RunCaseHistory[] = [],
+  config: Partial<GateConfig> = {},
+  a11yAudit?: A11yAuditResult
 ): GateResult {
   const fullConfig = { ...DEFAULT_CONFIG, ...config };
   const warnings: string[] = [];
@@ -105,11 +119,15 @@ export function evaluateGate(
   const rc = calculateRC(requirements, testCases);
   const apr = calculateAPR(assertions);
   const fr = calculateFR(runHistory);
+  const a11y = a11yAudit ? calculateA11Y(a11yAudit) : null;
 
   const metrics: QualityMetric[] = [rc, apr];
   if (fr) {
     metrics.push(fr);
   }
+  if (a11y) {
+    metrics.push(a11y);
+  }
 
   // Check P0 coverage
   const p0Check = checkP0Coverage(requirements, testCases);
@@ -143,6 +161,13 @@ export function evaluateGate(
     );
   }
 
+  // Check A11Y threshold (warning only)
+  if (a11y && a11y.value < fullConfig.a11yThreshold) {
+    warnings.push(
+      `A11Y (${(a11y.value * 100).toFixed(1)}%) below threshold (${fullConfig.a11yThreshold * 100}%)`
+    );
+  }
+
   return {
     passed: !blocked && warnings.length === 0,
     blocked,
@@ -8,11 +8,13 @@ export {
   calculateRC,
   calculateAPR,
   calculateFR,
+  calculateA11Y,
   getRCBreakdown,
   getAPRBreakdown,
   getFlakyTestCases,
   type RCBreakdown,
   type APRBreakdown,
+  type RunCaseHistory,
 } from './metrics-calculator.js';
 
 export {
@@ -8,11 +8,12 @@ import {
   calculateRC,
   calculateAPR,
   calculateFR,
+  calculateA11Y,
   getRCBreakdown,
   getAPRBreakdown,
   getFlakyTestCases,
 } from './metrics-calculator';
-import type { Requirement, TestCase, Assertion, TestRun } from '@smart-test-agent/shared';
+import type { Requirement, TestCase, Assertion, TestRun, A11yAuditResult } from '@smart-test-agent/shared';
 
 describe('calculateRC', () => {
   it('should return 1 when no testable requirements', () => {
@@ -212,6 +213,18 @@ describe('calculateAPR', () => {
 });
 
 describe('calculateFR', () => {
+  it('should accept case results from execution-results.json', () => {
+    const runHistory = [
+      { testCases: [{ caseId: 'TC-001', status: 'passed' as const }, { caseId: 'TC-002', status: 'passed' as const }] },
+      { testCases: [{ caseId: 'TC-001', status: 'failed' as const }, { caseId: 'TC-002', status: 'passed' as const }] },
+      { testCases: [{ caseId: 'TC-001', status: 'passed' as const }, { caseId: 'TC-002', status: 'passed' as const }] },
+    ];
+
+    const result = calculateFR(runHistory);
+
+    expect(result?.value).toBe(0.5);
+  });
+
   it('should return null when less than 3 runs', () => {
     const runHistory: TestRun[] = [
       createTestRun('run-1', [{ caseId: 'TC-001', status: 'passed' }]),
@@ -328,6 +341,43 @@ describe('calculateFR', () => {
   });
 });
 
+describe('calculateA11Y', () => {
+  const createAudit = (routes: A11yAuditResult['routes']): A11yAuditResult => ({
+    runId: 'run-1',
+    startTime: '2024-01-01T00:00:00.000Z',
+    endTime: '2024-01-01T00:00:05.000Z',
+    routes,
+  });
+
+  it('should return 100% when no rules were evaluated', () => {
+    const result = calculateA11Y(createAudit([]));
+
+    expect(result.name).toBe('A11Y');
+    expect(result.value).toBe(1);
+    expect(result.passed).toBe(true);
+  });
+
+  it('should divide passed rule checks by evaluated checks across routes', () => {
+    const violation = {
+      ruleId: 'image-alt',
+      wcag: ['1.1.1'],
+      impact: 'critical' as const,
+      help: 'Images must have alternative text',
+      route: '/users',
+      nodes: [],
+    };
+    const result = calculateA11Y(createAudit([
+      { route: '/users', url: '', passedRules: ['document-title', 'html-has-lang', 'label'], violations: [violation] },
+      { route: '/orders', url: '', passedRules: ['document-title', 'html-has-lang'], violations: [] },
+      { route: '/broken', url: '', passedRules: [], violations: [], error: 'timeout' },
+    ]));
+
+    expect(result.value).toBeCloseTo(5 / 6, 5);
+    expect(result.threshold).toBe(0.95);
+    expect(result.passed).toBe(false);
+  });
+});
+
 describe('getRCBreakdown', () => {
   it('should return detailed breakdown', () => {
     const requirements: Requirement[] = [
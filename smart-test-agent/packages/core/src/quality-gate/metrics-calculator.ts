@@ -1,18 +1,26 @@
 /**
  * Quality Gate Metrics Calculator
- * Calculates RC, APR, and FR metrics
+ * Calculates RC, APR, FR, and A11Y metrics
  * @see Requirements 11.1, 11.2, 11.5
  */
 
 import type {
+  A11yAuditResult,
   Requirement,
   TestCase,
   Assertion,
-  TestRun,
   QualityMetric,
   QualityMetricName,
 } from '@smart-test-agent/shared';
 
+/**
+ * Case outcomes of one historical run, as used by FR
+ * Full test runs and execution results (execution-results.json) both qualify.
+ */
+export interface RunCaseHistory {
+  testCases?: Array<Pick<TestCase, 'caseId' | 'status'>>;
+}
+
 /**
  * Calculate Requirements Coverage (RC)
  * RC = covered_reqs / total_reqs (only testable=true)
@@ -99,7 +107,7 @@ export function calculateAPR(assertions: Assertion[]): QualityMetric {
  * Requires ≥3 historical executions
  * @see Requirements 11.5
  */
-export function calculateFR(runHistory: TestRun[]): QualityMetric | null {
+export function calculateFR(runHistory: RunCaseHistory[]): QualityMetric | null {
   // Requires at least 3 runs
   if (runHistory.length < 3) {
     return null;
@@ -152,6 +160,33 @@ export function calculateFR(runHistory: TestRun[]): QualityMetric | null {
   };
 }
 
+/**
+ * Calculate Accessibility pass rate (A11Y)
+ * A11Y = passed rule checks / evaluated rule checks (one check per rule and audited route)
+ * Routes that could not be audited are excluded.
+ * @see Requirements 11.1
+ */
+export function calculateA11Y(audit: A11yAuditResult): QualityMetric {
+  const threshold = 0.95;
+  let passedCount = 0;
+  let evaluatedCount = 0;
+
+  for (const route of audit.routes) {
+    if (route.error) continue;
+    passedCount += route.passedRules.length;
+    evaluatedCount += route.passedRules.length + route.violations.length;
+  }
+
+  const value = evaluatedCount > 0 ? passedCount / evaluatedCount : 1;
+
+  return {
+    name: 'A11Y',
+    value,
+    threshold,
+    passed: value >= threshold,
+  };
+}
+
 /**
  * Get detailed RC breakdown
  */
@@ -218,7 +253,7 @@ export function getAPRBreakdown(assertions: Assertion[]): APRBreakdown {
 /**
  * Get flaky test cases
  */
-export function getFlakyTestCases(runHistory: TestRun[]): string[] {
+export function getFlakyTestCases(runHistory: RunCaseHistory[]): string[] {
   if (runHistory.length < 3) {
     return [];
   }
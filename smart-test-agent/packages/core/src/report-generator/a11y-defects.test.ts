@@ -0,0 +1,63 @@
+/**
+ * Unit tests for Accessibility Defect Mapper
+ * @see Requirements 10.1, 10.3
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapA11yImpactToSeverity, mapA11yViolationsToDefects } from './a11y-defects.js';
+import type { A11yAuditResult } from '@smart-test-agent/shared';
+
+describe('Accessibility Defect Mapper', () => {
+  describe('mapA11yImpactToSeverity', () => {
+    it('should map impact levels to defect severities', () => {
+      expect(mapA11yImpactToSeverity('critical')).toBe('critical');
+      expect(mapA11yImpactToSeverity('serious')).toBe('major');
+      expect(mapA11yImpactToSeverity('moderate')).toBe('minor');
+      expect(mapA11yImpactToSeverity('minor')).toBe('suggestion');
+    });
+  });
+
+  describe('mapA11yViolationsToDefects', () => {
+    const audit: A11yAuditResult = {
+      runId: 'run-1',
+      startTime: '2024-01-01T00:00:00.000Z',
+      endTime: '2024-01-01T00:00:05.000Z',
+      routes: [
+        {
+          route: '/users',
+          url: 'https://example.com/users',
+          passedRules: ['document-title'],
+          violations: [
+            {
+              ruleId: 'link-name',
+              wcag: ['2.4.4', '4.1.2'],
+              impact: 'serious',
+              help: 'Links must have discernible text',
+              route: '/users',
+              nodes: [
+                { selector: 'a.more', html: '<a class="more">', failureSummary: 'Element has no accessible name' },
+                { selector: 'a.next', html: '<a class="next">', failureSummary: 'Element has no accessible name' },
+              ],
+            },
+          ],
+        },
+        { route: '/orders', url: 'https://example.com/orders', passedRules: [], violations: [], error: 'timeout' },
+      ],
+    };
+
+    it('should create one defect per route and rule with WCAG references', () => {
+      const defects = mapA11yViolationsToDefects(audit);
+
+      expect(defects).toHaveLength(1);
+      expect(defects[0]).toMatchObject({
+        id: 'A11Y-/users-link-name',
+        severity: 'major',
+        route: '/users',
+        ruleId: 'link-name',
+        wcag: ['2.4.4', '4.1.2'],
+      });
+      expect(defects[0].description).toContain('`a.more`');
+      expect(defects[0].description).toContain('`a.next`');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Accessibility Defect Mapper
+ * Maps a11y audit violations into defect reports
+ * @see Requirements 10.1, 10.3
+ */
+
+import type {
+  A11yAuditResult,
+  A11yImpact,
+  A11yViolation,
+  DefectReport,
+  DefectSeverity,
+} from '@smart-test-agent/shared';
+
+/**
+ * Map an axe-style impact level to a defect severity
+ * @see Requirements 10.3
+ */
+export function mapA11yImpactToSeverity(impact: A11yImpact): DefectSeverity {
+  const severities: Record<A11yImpact, DefectSeverity> = {
+    critical: 'critical',
+    serious: 'major',
+    moderate: 'minor',
+    minor: 'suggestion',
+  };
+  return severities[impact];
+}
+
+/**
+ * Map every violation of an audit into a defect report (one per route and rule)
+ * @see Requirements 10.1
+ */
+export function mapA11yViolationsToDefects(audit: A11yAuditResult): DefectReport[] {
+  return audit.routes.flatMap((route) =>
+    route.violations.map((violation) => createA11yDefect(violation))
+  );
+}
+
+/**
+ * Create a defect report from a violation
+ */
+function createA11yDefect(violation: A11yViolation): DefectReport {
+  const nodeLines = violation.nodes.map(
+    (node) => `- \`${node.selector}\`: ${node.failureSummary}`
+  );
+
+  return {
+    id: `A11Y-${violation.route}-${violation.ruleId}`,
+    severity: mapA11yImpactToSeverity(violation.impact),
+    title: `[${violation.ruleId}] ${violation.help}`,
+    description: `${violation.help}（${violation.nodes.length} 个元素）\n\n${nodeLines.join('\n')}`,
+    screenshots: [],
+    operationSteps: [`1. 打开页面 \`${violation.route}\``],
+    assertionId: violation.ruleId,
+    caseId: '',
+    requirementId: '',
+    route: violation.route,
+    ruleId: violation.ruleId,
+    wcag: violation.wcag,
+  };
+}
@@ -145,7 +145,7 @@ function generateDefectDescription(assertion: Assertion, testCase?: TestCase): s
 /**
  * Extract operation steps from test case
  */
-function extractOperationSteps(testCase?: TestCase): string[] {
+export function extractOperationSteps(testCase?: TestCase): string[] {
   if (!testCase || !testCase.steps) {
     return [];
   }
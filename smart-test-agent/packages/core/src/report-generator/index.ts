@@ -15,6 +15,18 @@ export {
   sortDefectsBySeverity,
 } from './defect-aggregator.js';
 
+// Accessibility Defect Mapper
+export {
+  mapA11yImpactToSeverity,
+  mapA11yViolationsToDefects,
+} from './a11y-defects.js';
+
+// Network Defect Mapper
+export {
+  mapNetworkIssueToSeverity,
+  aggregateNetworkDefects,
+} from './network-defects.js';
+
 // Markdown Generator
 export {
   generateMarkdownReport,
@@ -26,11 +38,20 @@ import type {
   TestCase,
   Requirement,
   ReportData,
+  A11yAuditResult,
+  ExecutionResult,
   TestCaseSummary,
   QualityMetric,
   DefectSeverity,
 } from '@smart-test-agent/shared';
-import { aggregateDefects, countDefectsBySeverity, getAffectedRoutes } from './defect-aggregator.js';
+import {
+  aggregateDefects,
+  countDefectsBySeverity,
+  getAffectedRoutes,
+  sortDefectsBySeverity,
+} from './defect-aggregator.js';
+import { mapA11yViolationsToDefects } from './a11y-defects.js';
+import { aggregateNetworkDefects } from './network-defects.js';
 import { generateMarkdownReport, generateMinimalReport } from './markdown-generator.js';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -42,6 +63,10 @@ export interface ReportGenerationOptions {
   runId: string;
   outputDir: string;
   qualityMetrics?: QualityMetric[];
+  /** Accessibility audit result, reported in its own section */
+  a11yAudit?: A11yAuditResult;
+  /** Execution result, linking HAR files to defects and yielding network candidate defects */
+  executionResult?: ExecutionResult;
 }
 
 /**
@@ -57,8 +82,13 @@ export class ReportGenerator {
     requirements: Requirement[],
     options: ReportGenerationOptions
   ): ReportData {
-    // Aggregate defects
-    const defects = aggregateDefects(assertions, testCases, requirements);
+    // Aggregate defects, linking each to the network traffic of its case
+    const caseResults = options.executionResult?.testCases ?? [];
+    const harPaths = new Map(caseResults.map((result) => [result.caseId, result.harPath]));
+    const defects = aggregateDefects(assertions, testCases, requirements).map((defect) => {
+      const harPath = harPaths.get(defect.caseId);
+      return harPath ? { ...defect, harPath } : defect;
+    });
 
     // Count by severity
     const severityDistribution = countDefectsBySeverity(defects);
@@ -79,6 +109,12 @@ export class ReportGenerator {
       },
       defects,
       testCases: testCaseSummaries,
+      a11yDefects: options.a11yAudit
+        ? sortDefectsBySeverity(mapA11yViolationsToDefects(options.a11yAudit))
+        : undefined,
+      candidateDefects: options.executionResult
+        ? sortDefectsBySeverity(aggregateNetworkDefects(caseResults, testCases))
+        : undefined,
       generatedAt: new Date().toISOString(),
     };
   }
@@ -200,6 +200,69 @@ describe('Markdown Generator', () => {
       expect(report).toContain('⚠️ 错误');
       expect(report).toContain('⏳ 待执行');
     });
+
+    it('should include accessibility defects in their own section', () => {
+      const data = createReportData({
+        a11yDefects: [
+          {
+            id: 'A11Y-/users-image-alt',
+            severity: 'critical',
+            title: '[image-alt] Images must have alternative text',
+            description: 'Images must have alternative text（1 个元素）',
+            screenshots: [],
+            operationSteps: [],
+            assertionId: 'image-alt',
+            caseId: '',
+            requirementId: '',
+            route: '/users',
+            ruleId: 'image-alt',
+            wcag: ['1.1.1'],
+          },
+        ],
+        summary: {
+          ...createReportData().summary,
+          qualityMetrics: [{ name: 'A11Y', value: 0.8, threshold: 0.95, passed: false }],
+        },
+      });
+      const report = generateMarkdownReport(data);
+
+      expect(report).toContain('## 无障碍缺陷');
+      expect(report).toContain('| `/users` | `image-alt` | 1.1.1 | 严重 |');
+      expect(report).toContain('无障碍通过率 (A11Y)');
+    });
+
+    it('should note a clean accessibility audit and omit the section without one', () => {
+      expect(generateMarkdownReport(createReportData({ a11yDefects: [] }))).toContain('无障碍审计未发现违规');
+      expect(generateMarkdownReport(createReportData())).not.toContain('## 无障碍缺陷');
+    });
+
+    it('should link HAR files and list candidate defects', () => {
+      const base = createReportData();
+      const data = createReportData({
+        defects: [{ ...base.defects[0], harPath: 'evidence/har/TC001.har' }],
+        candidateDefects: [
+          {
+            id: 'NET-TC001-1',
+            severity: 'major',
+            title: '[TC001] 接口返回错误: GET /api/users -> 500',
+            description: '**类型**: 接口返回错误',
+            screenshots: [],
+            operationSteps: [],
+            assertionId: '',
+            caseId: 'TC001',
+            requirementId: 'REQ001',
+            route: '/dashboard',
+            harPath: 'evidence/har/TC001.har',
+          },
+        ],
+      });
+      const report = generateMarkdownReport(data);
+
+      expect(report).toContain('**网络记录**: [TC001.har](../evidence/har/TC001.har)');
+      expect(report).toContain('## 候选缺陷');
+      expect(report).toContain('| `TC001` | 主要 | [TC001] 接口返回错误: GET /api/users -> 500 | [HAR](../evidence/har/TC001.har) |');
+      expect(generateMarkdownReport(createReportData({ candidateDefects: [] }))).not.toContain('## 候选缺陷');
+    });
   });
 
   describe('generateMinimalReport', () => {
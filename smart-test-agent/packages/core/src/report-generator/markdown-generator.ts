@@ -35,6 +35,16 @@ export function generateMarkdownReport(data: ReportData): string {
     sections.push('## 缺陷列表\n\n无缺陷发现。');
   }
 
+  // Accessibility Defects (only when an a11y audit ran)
+  if (data.a11yDefects) {
+    sections.push(generateA11yDefectList(data.a11yDefects));
+  }
+
+  // Candidate Defects (only when network issues were recorded)
+  if (data.candidateDefects && data.candidateDefects.length > 0) {
+    sections.push(generateCandidateDefectList(data.candidateDefects));
+  }
+
   // Test Case Summary
   sections.push(generateTestCaseSummary(data.testCases));
 
@@ -145,6 +155,11 @@ function generateDefectSection(defect: DefectReport, index: number): string {
     parts.push(`**截图**:\n\n${screenshotLinks}`);
   }
 
+  // Network traffic (the report lives in outputs/, HAR files in evidence/har/)
+  if (defect.harPath) {
+    parts.push(`**网络记录**: [${defect.harPath.split('/').pop()}](../${defect.harPath})`);
+  }
+
   // Metadata
   parts.push(`**关联信息**:
 - 断言ID: \`${defect.assertionId}\`
@@ -155,6 +170,54 @@ function generateDefectSection(defect: DefectReport, index: number): string {
   return parts.join('\n\n');
 }
 
+/**
+ * Generate accessibility defect section, grouped by route
+ * @see Requirements 10.1, 10.3
+ */
+function generateA11yDefectList(defects: DefectReport[]): string {
+  if (defects.length === 0) {
+    return '## 无障碍缺陷\n\n无障碍审计未发现违规。';
+  }
+
+  const rows = defects.map((d) => {
+    const wcag = d.wcag && d.wcag.length > 0 ? d.wcag.join(', ') : '-';
+    return `| \`${d.route}\` | \`${d.ruleId ?? d.assertionId}\` | ${wcag} | ${getSeverityLabel(d.severity)} | ${d.title} |`;
+  });
+
+  const details = defects.map((d) => `### ${d.title} - \`${d.route}\`\n\n${d.description}`);
+
+  return `## 无障碍缺陷
+
+共 ${defects.length} 项违规
+
+| 路由 | 规则 | WCAG | 严重程度 | 说明 |
+|------|------|------|----------|------|
+${rows.join('\n')}
+
+${details.join('\n\n')}`;
+}
+
+/**
+ * Generate candidate defect section
+ * Error responses and console errors are not verified by an assertion, so they are
+ * listed separately and left for a human to confirm
+ * @see Requirements 10.1, 10.3
+ */
+function generateCandidateDefectList(defects: DefectReport[]): string {
+  const rows = defects.map((d) => {
+    const har = d.harPath ? `[HAR](../${d.harPath})` : '-';
+    return `| \`${d.caseId}\` | ${getSeverityLabel(d.severity)} | ${d.title.replace(/\|/g, '\\|')} | ${har} |`;
+  });
+
+  return `## 候选缺陷
+
+执行过程中记录到 ${defects.length} 个非预期的接口错误或控制台错误，需人工确认
+
+| 用例 | 严重程度 | 说明 | 网络记录 |
+|------|----------|------|----------|
+${rows.join('\n')}`;
+}
+
 /**
  * Generate test case summary table
  * @see Requirements 10.5
@@ -210,6 +273,7 @@ function getMetricLabel(name: string): string {
     RC: '需求覆盖率 (RC)',
     APR: '断言通过率 (APR)',
     FR: '不稳定率 (FR)',
+    A11Y: '无障碍通过率 (A11Y)',
   };
   return labels[name] || name;
 }
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for Network Defect Mapper
+ * @see Requirements 10.1, 10.3
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateNetworkDefects, mapNetworkIssueToSeverity } from './network-defects.js';
+import type { TestCase, TestCaseResult } from '@smart-test-agent/shared';
+
+describe('Network Defect Mapper', () => {
+  describe('mapNetworkIssueToSeverity', () => {
+    it('should treat server errors as major and everything else as minor', () => {
+      expect(mapNetworkIssueToSeverity({ kind: 'http_error', status: 502, message: '502' })).toBe('major');
+      expect(mapNetworkIssueToSeverity({ kind: 'http_error', status: 404, message: '404' })).toBe('minor');
+      expect(mapNetworkIssueToSeverity({ kind: 'request_failed', message: 'net::ERR_FAILED' })).toBe('minor');
+      expect(mapNetworkIssueToSeverity({ kind: 'console_error', message: 'Boom' })).toBe('minor');
+    });
+  });
+
+  describe('aggregateNetworkDefects', () => {
+    const testCase: TestCase = {
+      id: 'run-1-TC001',
+      caseId: 'TC001',
+      runId: 'run-1',
+      requirementId: 'REQ-001',
+      route: '/users',
+      title: '用户列表',
+      precondition: '',
+      steps: [{ stepNumber: 1, action: '点击查询按钮' }],
+      assertions: [],
+    };
+
+    const caseResult: TestCaseResult = {
+      caseId: 'TC001',
+      status: 'passed',
+      steps: [],
+      assertions: [],
+      durationMs: 100,
+      harPath: 'evidence/har/TC001.har',
+      networkIssues: [
+        { kind: 'http_error', method: 'GET', url: 'https://example.com/api/users?page=1', status: 500, message: '500 Internal Server Error' },
+        { kind: 'http_error', method: 'GET', url: 'https://example.com/api/users?page=1', status: 500, message: '500 Internal Server Error' },
+        { kind: 'console_error', message: 'Uncaught TypeError: cannot read properties of undefined', url: 'https://example.com/users' },
+      ],
+    };
+
+    it('should create one candidate defect per distinct issue linked to the HAR', () => {
+      const defects = aggregateNetworkDefects([caseResult], [testCase]);
+
+      expect(defects.map((d) => [d.id, d.severity])).toEqual([
+        ['NET-TC001-1', 'major'],
+        ['NET-TC001-2', 'minor'],
+      ]);
+      expect(defects[0].title).toBe('[TC001] 接口返回错误: GET /api/users -> 500');
+      expect(defects[0].harPath).toBe('evidence/har/TC001.har');
+      expect(defects[0].route).toBe('/users');
+      expect(defects[0].requirementId).toBe('REQ-001');
+      expect(defects[0].operationSteps).toEqual(['1. 点击查询按钮']);
+      expect(defects[1].description).toContain('**类型**: 控制台错误');
+    });
+
+    it('should ignore cases without network issues', () => {
+      const { networkIssues: _, ...clean } = caseResult;
+
+      expect(aggregateNetworkDefects([clean], [testCase])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Network Defect Mapper
+ * Turns unexpected error responses and console errors recorded during execution
+ * into candidate defects, which need a human to confirm them
+ * @see Requirements 10.1, 10.3
+ */
+
+import type {
+  DefectReport,
+  DefectSeverity,
+  NetworkIssue,
+  TestCase,
+  TestCaseResult,
+} from '@smart-test-agent/shared';
+import { extractOperationSteps } from './defect-aggregator.js';
+
+/**
+ * Map a network issue to a defect severity
+ * Server errors are major; client errors, failed requests and page errors are minor
+ * @see Requirements 10.3
+ */
+export function mapNetworkIssueToSeverity(issue: NetworkIssue): DefectSeverity {
+  if (issue.kind === 'http_error' && issue.status !== undefined && issue.status >= 500) {
+    return 'major';
+  }
+  return 'minor';
+}
+
+/**
+ * Create candidate defects from the network issues of every case result
+ * Issues repeated within a case are reported once.
+ * @see Requirements 10.1
+ */
+export function aggregateNetworkDefects(
+  caseResults: TestCaseResult[],
+  testCases: TestCase[]
+): DefectReport[] {
+  const testCaseMap = new Map(testCases.map((tc) => [tc.caseId, tc]));
+  const defects: DefectReport[] = [];
+
+  for (const result of caseResults) {
+    const testCase = testCaseMap.get(result.caseId);
+    const seen = new Set<string>();
+    for (const issue of result.networkIssues ?? []) {
+      const key = [issue.kind, issue.method, issue.url, issue.status, issue.message].join('|');
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      defects.push(createNetworkDefect(issue, result, seen.size, testCase));
+    }
+  }
+
+  return defects;
+}
+
+/**
+ * Create a candidate defect from a network issue
+ */
+function createNetworkDefect(
+  issue: NetworkIssue,
+  result: TestCaseResult,
+  index: number,
+  testCase?: TestCase
+): DefectReport {
+  const labels: Record<NetworkIssue['kind'], string> = {
+    http_error: '接口返回错误',
+    request_failed: '请求失败',
+    console_error: '控制台错误',
+    page_error: '页面异常',
+  };
+  const target = issue.method && issue.url ? `${issue.method} ${issue.url}` : issue.url;
+
+  const parts = [`**类型**: ${labels[issue.kind]}`, `**错误信息**: ${issue.message}`];
+  if (target) {
+    parts.push(`**请求/页面**: ${target}`);
+  }
+  if (testCase) {
+    parts.push(`**测试用例**: ${testCase.title}`);
+  }
+
+  const defect: DefectReport = {
+    id: `NET-${result.caseId}-${index}`,
+    severity: mapNetworkIssueToSeverity(issue),
+    title: `[${result.caseId}] ${labels[issue.kind]}: ${summarizeIssue(issue)}`,
+    description: parts.join('\n\n'),
+    screenshots: [],
+    operationSteps: extractOperationSteps(testCase),
+    assertionId: '',
+    caseId: result.caseId,
+    requirementId: testCase?.requirementId || '',
+    route: testCase?.route || '',
+  };
+  if (result.harPath) {
+    defect.harPath = result.harPath;
+  }
+  return defect;
+}
+
+/**
+ * One-line summary of an issue: `GET /api/users -> 500` or the (truncated) message
+ */
+function summarizeIssue(issue: NetworkIssue): string {
+  if (issue.method && issue.url) {
+    let requestPath = issue.url;
+    try {
+      requestPath = new URL(issue.url).pathname;
+    } catch {
+      // Keep the raw URL
+    }
+    return `${issue.method} ${requestPath} -> ${issue.status ?? issue.message}`;
+  }
+  return issue.message.length > 80 ? `${issue.message.slice(0, 80)}...` : issue.message;
+}
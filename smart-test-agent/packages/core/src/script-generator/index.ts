@@ -38,7 +38,7 @@ export interface TestStep {
  */
 export interface TestAssertion {
   assertion_id: string;
-  type: 'element_visible' | 'text_content' | 'element_count' | 'navigation' | 'soft' | 'attribute';
+  type: 'element_visible' | 'text_content' | 'element_count' | 'navigation' | 'permission_denied' | 'soft' | 'attribute';
   target: string;
   expected: string;
   description?: string;
@@ -447,6 +447,17 @@ async function evaluateAssertion(page, assertion) {
         result.machine_verdict = url.includes(assertion.expected) ? 'pass' : 'fail';
         break;
         
+      case 'permission_denied':
+        // The element must be absent, hidden or disabled for the current role
+        const guarded = page.locator(assertion.target);
+        const guardedCount = await guarded.count();
+        const exposed = guardedCount > 0
+          && await guarded.first().isVisible()
+          && await guarded.first().isEnabled();
+        result.actual = guardedCount === 0 ? 'absent' : exposed ? 'visible and enabled' : 'hidden or disabled';
+        result.machine_verdict = exposed ? 'fail' : 'pass';
+        break;
+        
       case 'attribute':
         const [selector, attrName] = assertion.target.split('@');
         const attrValue = await page.locator(selector).getAttribute(attrName);
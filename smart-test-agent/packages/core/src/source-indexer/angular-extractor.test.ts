@@ -0,0 +1,138 @@
+/**
+ * Angular Extractor Unit Tests
+ * @see Requirements 2.2, 2.4
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractAngularComponentFromContent, extractAngularEventHandlers } from './angular-extractor.js';
+
+describe('Angular Extractor', () => {
+  describe('extractAngularComponentFromContent', () => {
+    it('should extract inline template and event handlers', () => {
+      const content = `
+import { Component } from '@angular/core';
+import { UserService } from '../services/user.service';
+import { ordersApi } from '@/api/orders';
+
+@Component({
+  selector: 'app-user-list',
+  template: \`
+    <form (ngSubmit)="search(query)">
+      <input [(ngModel)]="query" name="query" />
+      <button type="submit">搜索</button>
+    </form>
+    <button (click)="refresh()">刷新</button>
+  \`,
+})
+export class UserListComponent {
+  query = '';
+
+  constructor(private userService: UserService) {}
+
+  search(query: string) {
+    this.userService.search(query);
+  }
+}
+`;
+      const result = extractAngularComponentFromContent(content, 'user-list.component.ts');
+
+      expect(result.framework).toBe('angular');
+      expect(result.template).toContain('<button (click)="refresh()">刷新</button>');
+      expect(result.eventHandlers).toEqual(['(ngSubmit)="search(query)"', '(click)="refresh()"']);
+      expect(result.scriptExports).toContain('export class UserListComponent');
+      expect(result.apiImports).toEqual(['../services/user.service', '@/api/orders']);
+      expect(result.truncated).toBe(false);
+      expect(result.confidence).toBe('high');
+    });
+
+    it('should read the template from the @Component decorator only', () => {
+      const content = `
+import type { Order } from '../api/types';
+import { OrderApi } from '../api/order-api';
+
+const help = { template: '<p>帮助</p>' };
+
+@Component({
+  selector: 'app-orders',
+  template: \`<button (click)="reload()">刷新 \${'订单'}</button>\`,
+})
+export class OrdersComponent {
+  orders: Order[] = [];
+}
+`;
+      const result = extractAngularComponentFromContent(content, 'orders.component.ts');
+
+      expect(result.template).toBe("<button (click)=\"reload()\">刷新 \${'订单'}</button>");
+      expect(result.eventHandlers).toEqual(['(click)="reload()"']);
+      expect(result.apiImports).toEqual(['../api/order-api']);
+    });
+
+    it('should lower confidence without a @Component class or with syntax errors', () => {
+      const service = extractAngularComponentFromContent("export class UserService {\n  template = '<p></p>';\n}\n");
+      expect(service.template).toBeUndefined();
+      expect(service.confidence).toBe('low');
+
+      const broken = extractAngularComponentFromContent(
+        "@Component({ selector: 'app-x', template: '<p></p>' })\nexport class XComponent {\n  save( {\n}\n"
+      );
+      expect(broken.template).toBe('<p></p>');
+      expect(broken.confidence).toBe('medium');
+    });
+
+    it('should prefer the templateUrl content over the inline template', () => {
+      const content = `
+@Component({ selector: 'app-orders', templateUrl: './orders.component.html' })
+export class OrdersComponent {}
+`;
+      const result = extractAngularComponentFromContent(
+        content,
+        'orders.component.ts',
+        '<button (click)="export()">导出</button>\n'
+      );
+
+      expect(result.template).toBe('<button (click)="export()">导出</button>');
+      expect(result.eventHandlers).toEqual(['(click)="export()"']);
+    });
+
+    it('should keep only class essentials for files over 500 lines', () => {
+      const methods = Array.from({ length: 130 }, (_, i) => `  method${i}() {\n    this.value = ${i};\n    return ${i};\n  }`);
+      const content = `
+import { Component, Input, inject } from '@angular/core';
+import { ReportService } from './report.service';
+
+@Component({ selector: 'app-report', template: '<div></div>' })
+export class ReportComponent {
+  @Input() reportId!: string;
+  private readonly reports = inject(ReportService);
+
+${methods.join('\n')}
+}
+`;
+      const result = extractAngularComponentFromContent(content);
+
+      expect(result.truncated).toBe(true);
+      expect(result.scriptExports).toContain("@Component({ selector: 'app-report' })");
+      expect(result.scriptExports).toContain('export class ReportComponent');
+      expect(result.scriptExports).toContain('@Input() reportId!: string;');
+      expect(result.scriptExports).toContain('private readonly reports = inject(ReportService);');
+      expect(result.scriptExports).toContain('method0() { ... }');
+      expect(result.scriptExports).not.toContain('this.value = 0');
+    });
+  });
+
+  describe('extractAngularEventHandlers', () => {
+    it('should extract parenthesized and on- bindings once', () => {
+      const template = `
+<button (click)="save()">保存</button>
+<button on-click='cancel()'>取消</button>
+<input (keyup.enter)="save()" />
+<button (click)="save()">再次保存</button>
+`;
+      expect(extractAngularEventHandlers(template)).toEqual([
+        '(click)="save()"',
+        '(click)="cancel()"',
+        '(keyup.enter)="save()"',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Angular Component Extractor
+ * Extracts the template, bound event handlers and component class from Angular components.
+ * The component file is parsed into a syntax tree and the @Component decorated class
+ * provides the template, templateUrl and selector.
+ * @see Requirements 2.2, 2.4
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+import type { ExtractedComponent, ExtractionConfidence } from '@smart-test-agent/shared';
+import {
+  collectImports,
+  getCalleeName,
+  getNameText,
+  hasParseErrors,
+  isApiModule,
+  parseSource,
+  summarizeFunction,
+  unwrapExpression,
+} from './ast-parser.js';
+
+/** Maximum lines before truncation */
+const MAX_LINES = 500;
+
+/** Decorators of class members kept in truncated classes */
+const ESSENTIAL_DECORATORS = /^(?:Input|Output|ViewChild|ViewChildren|ContentChild|ContentChildren|HostBinding)$/;
+
+/** Calls initializing class members kept in truncated classes (dependency injection and signals) */
+const ESSENTIAL_CALLS = /^(?:inject|input|output|model|signal|computed|viewChild|viewChildren|contentChild|contentChildren)$/;
+
+/**
+ * A class decorated with @Component
+ */
+interface ComponentClass {
+  declaration: ts.ClassDeclaration;
+  /** The object literal passed to @Component */
+  options?: ts.ObjectLiteralExpression;
+}
+
+/**
+ * Finds the first class decorated with @Component
+ */
+function findComponentClass(sourceFile: ts.SourceFile): ComponentClass | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isClassDeclaration(statement)) continue;
+
+    for (const decorator of ts.getDecorators(statement) ?? []) {
+      const call = unwrapExpression(decorator.expression);
+      if (ts.isCallExpression(call) && getCalleeName(call) === 'Component') {
+        const options = call.arguments[0] && unwrapExpression(call.arguments[0]);
+        return {
+          declaration: statement,
+          options: options && ts.isObjectLiteralExpression(options) ? options : undefined,
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads a string option of @Component, e.g. template, templateUrl or selector
+ * Template literals with interpolations are returned as written.
+ */
+function getStringOption(component: ComponentClass | undefined, name: string): string | undefined {
+  const property = component?.options?.properties.find(
+    (candidate): candidate is ts.PropertyAssignment =>
+      ts.isPropertyAssignment(candidate) && getNameText(candidate.name) === name
+  );
+  const value = property && unwrapExpression(property.initializer);
+  if (!value) {
+    return undefined;
+  }
+  if (ts.isStringLiteralLike(value)) {
+    return value.text;
+  }
+  if (ts.isTemplateExpression(value)) {
+    return value.getText().slice(1, -1);
+  }
+  return undefined;
+}
+
+/**
+ * Extracts event bindings from an Angular template
+ * Pattern: (click)="save()", (ngSubmit)="onSubmit(form)", on-click="save()"
+ */
+export function extractAngularEventHandlers(template: string): string[] {
+  const handlers: string[] = [];
+  const bindingRegex = /(?:\(([\w.-]+)\)|\bon-([\w-]+))\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let match;
+  while ((match = bindingRegex.exec(template)) !== null) {
+    const event = match[1] ?? match[2];
+    const handler = (match[3] ?? match[4]).trim();
+    handlers.push(`(${event})="${handler}"`);
+  }
+
+  return [...new Set(handlers)];
+}
+
+/**
+ * Whether a class member is kept in truncated classes:
+ * inputs, outputs, view queries and members initialized by inject() or signal functions
+ */
+function isEssentialMember(member: ts.ClassElement): boolean {
+  if (!ts.isPropertyDeclaration(member)) {
+    return false;
+  }
+  const decorated = (ts.getDecorators(member) ?? []).some((decorator) => {
+    const expression = unwrapExpression(decorator.expression);
+    return ts.isCallExpression(expression) && ESSENTIAL_DECORATORS.test(getCalleeName(expression) ?? '');
+  });
+  const initializer = member.initializer && unwrapExpression(member.initializer);
+  return decorated || (initializer !== undefined && ts.isCallExpression(initializer) && ESSENTIAL_CALLS.test(getCalleeName(initializer) ?? ''));
+}
+
+/**
+ * Extracts essential parts of the component class:
+ * imports, selector, class header, inputs/outputs/injections, constructor and method headers
+ * Used for truncation when file exceeds MAX_LINES
+ */
+function extractClassEssentials(sourceFile: ts.SourceFile, component: ComponentClass | undefined): string {
+  const essentials = sourceFile.statements.filter(ts.isImportDeclaration).map((statement) => statement.getText());
+  if (!component) {
+    return essentials.join('\n');
+  }
+
+  const selector = getStringOption(component, 'selector');
+  if (selector) {
+    essentials.push(`@Component({ selector: '${selector}' })`);
+  }
+
+  // Class header without decorators: export class X implements OnInit
+  const { declaration } = component;
+  const headerStart = (
+    ts.getModifiers(declaration)?.[0] ??
+    declaration.getChildren().find((child) => child.kind === ts.SyntaxKind.ClassKeyword) ??
+    declaration
+  ).getStart();
+  essentials.push(sourceFile.text.slice(headerStart, declaration.members.pos).replace(/\{$/, '').trim());
+
+  for (const member of declaration.members) {
+    if (isEssentialMember(member)) {
+      essentials.push(member.getText());
+    } else if (
+      (ts.isConstructorDeclaration(member) || ts.isMethodDeclaration(member) || ts.isAccessor(member)) &&
+      member.body
+    ) {
+      essentials.push(summarizeFunction(member, member.body));
+    }
+  }
+
+  return essentials.join('\n');
+}
+
+/**
+ * Extracts API and service imports from the component file
+ * @see Requirements 2.2
+ */
+function extractApiImports(sourceFile: ts.SourceFile): string[] {
+  const apiImports = collectImports(sourceFile)
+    .filter((imported) => !imported.typeOnly && isApiModule(imported.specifier))
+    .map((imported) => imported.specifier);
+  return [...new Set(apiImports)];
+}
+
+/**
+ * Counts the number of lines in content
+ */
+function countLines(content: string): number {
+  return content.split('\n').length;
+}
+
+/**
+ * Extracts component information from an Angular component file
+ * A templateUrl is read relative to the component file.
+ * @param filePath Path to the .component.ts file
+ * @returns Extracted component information
+ * @see Requirements 2.2, 2.4
+ */
+export async function extractAngularComponent(
+  filePath: string
+): Promise<ExtractedComponent> {
+  const content = await fs.readFile(filePath, 'utf-8');
+
+  let externalTemplate: string | undefined;
+  const templateUrl = getStringOption(findComponentClass(parseSource(content, filePath, 'ts')), 'templateUrl');
+  if (templateUrl) {
+    try {
+      externalTemplate = await fs.readFile(path.resolve(path.dirname(filePath), templateUrl), 'utf-8');
+    } catch {
+      console.warn(`Could not read template: ${templateUrl}`);
+    }
+  }
+
+  return extractAngularComponentFromContent(content, filePath, externalTemplate);
+}
+
+/**
+ * Extracts component from Angular content string (for testing)
+ * Confidence is low when no @Component class is found, medium when the file has syntax errors.
+ * @param content Component class file content
+ * @param filePath Virtual file path
+ * @param externalTemplate Content of the templateUrl file, if any
+ * @returns Extracted component information
+ * @see Requirements 2.2, 2.4
+ */
+export function extractAngularComponentFromContent(
+  content: string,
+  filePath: string = 'component.ts',
+  externalTemplate?: string
+): ExtractedComponent {
+  const sourceFile = parseSource(content, filePath, 'ts');
+  const component = findComponentClass(sourceFile);
+
+  const template = externalTemplate?.trim() || getStringOption(component, 'template')?.trim();
+  const lineCount = countLines(content) + (externalTemplate ? countLines(externalTemplate) : 0);
+  const truncated = lineCount > MAX_LINES;
+
+  // For large files, only extract the class essentials
+  const scriptExports = truncated ? extractClassEssentials(sourceFile, component) : content.trim();
+  const eventHandlers = template ? extractAngularEventHandlers(template) : [];
+
+  let confidence: ExtractionConfidence = hasParseErrors(sourceFile) ? 'medium' : 'high';
+  if (!component) confidence = 'low';
+
+  return {
+    filePath,
+    framework: 'angular',
+    template: template || undefined,
+    scriptExports: scriptExports || undefined,
+    eventHandlers,
+    apiImports: extractApiImports(sourceFile),
+    truncated,
+    confidence,
+  };
+}
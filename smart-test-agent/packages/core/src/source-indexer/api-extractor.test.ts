@@ -0,0 +1,192 @@
+/**
+ * API Extractor Unit Tests
+ * @see Requirements 2.2
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { extractApiEndpoints, extractApiEndpointsFromContent } from './api-extractor.js';
+
+describe('API Extractor', () => {
+  describe('extractApiEndpointsFromContent', () => {
+    it('should extract calls on axios with generics and template literals', () => {
+      const content = `
+import axios from 'axios';
+import type { User } from '@/types';
+
+export const getUsers = () => axios.get<User[]>('/api/users');
+
+export function getUser(id: string) {
+  return axios.get<User>(\`/api/users/\${id}\`);
+}
+
+export async function updateUser(user: User) {
+  const { data } = await axios.put(\`/api/users/\${user.id}?notify=1\`, user);
+  return data;
+}
+`;
+      const endpoints = extractApiEndpointsFromContent(content);
+
+      expect(endpoints).toEqual([
+        { name: 'getUsers', method: 'GET', path: '/api/users', confidence: 'high' },
+        { name: 'getUser', method: 'GET', path: '/api/users/:id', confidence: 'medium' },
+        { name: 'updateUser', method: 'PUT', path: '/api/users/:id', confidence: 'medium' },
+      ]);
+    });
+
+    it('should extract calls on axios instances and config objects', () => {
+      const content = `
+import axios from 'axios';
+
+const BASE = '/api/v2';
+const service = axios.create({ baseURL: import.meta.env.VITE_API });
+
+export default {
+  listOrders(params) {
+    return service({ url: BASE + '/orders', method: 'get', params });
+  },
+  createOrder: (order) => service.request({ url: \`\${BASE}/orders\`, method: 'POST', data: order }),
+  cancelOrder(id) {
+    return service.post(\`\${import.meta.env.VITE_GATEWAY}/orders/\${id}/cancel\`);
+  },
+};
+`;
+      const endpoints = extractApiEndpointsFromContent(content);
+
+      expect(endpoints).toEqual([
+        { name: 'listOrders', method: 'GET', path: '/api/v2/orders', confidence: 'high' },
+        { name: 'createOrder', method: 'POST', path: '/api/v2/orders', confidence: 'high' },
+        { name: 'cancelOrder', method: 'POST', path: '/orders/:id/cancel', confidence: 'medium' },
+      ]);
+    });
+
+    it('should follow request wrappers across files', () => {
+      const content = `
+import request, { get } from '@/utils/request';
+import * as http from '../utils/http';
+
+export const getDashboard = () => get('/dashboard');
+export const saveSettings = (settings) => request({ url: '/settings', method: 'put', data: settings });
+export const deleteReport = (id) => http.remove(\`/reports/\${id}\`);
+`;
+      const modules = {
+        '/project/src/utils/request.ts': `
+import axios from 'axios';
+
+const instance = axios.create({ timeout: 10000 });
+
+export function get<T>(url: string, params?: object) {
+  return instance.get<T>(url, { params }).then((res) => res.data);
+}
+
+export default function request(config) {
+  return instance(config);
+}
+`,
+        '/project/src/utils/http.ts': `
+import request from './request';
+
+export const remove = (path: string) => request({ url: path, method: 'delete' });
+`,
+      };
+
+      const endpoints = extractApiEndpointsFromContent(content, '/project/src/api/dashboard.ts', modules, {
+        frontendRoot: '/project',
+        aliasMap: { '@': 'src' },
+      });
+
+      expect(endpoints).toEqual([
+        { name: 'getDashboard', method: 'GET', path: '/dashboard', confidence: 'high' },
+        { name: 'saveSettings', method: 'PUT', path: '/settings', confidence: 'high' },
+        { name: 'deleteReport', method: 'DELETE', path: '/reports/:id', confidence: 'medium' },
+      ]);
+    });
+
+    it('should guess clients by name when their module is not available', () => {
+      const content = `
+import request from '@/utils/request';
+
+export function getMenus() {
+  return request.get('/menus');
+}
+
+export function fetchItems(type) {
+  return fetch('/items?type=' + type, { method: 'GET' });
+}
+
+export function call(url, method) {
+  return request({ url, method });
+}
+`;
+      const endpoints = extractApiEndpointsFromContent(content);
+
+      expect(endpoints).toEqual([
+        { name: 'getMenus', method: 'GET', path: '/menus', confidence: 'medium' },
+        { name: 'fetchItems', method: 'GET', path: '/items', confidence: 'high' },
+      ]);
+    });
+
+    it('should extract declarative endpoint maps', () => {
+      const content = `
+export const API = {
+  getProfile: { method: 'GET', url: '/profile' },
+  updateProfile: { method: 'PATCH', url: '/profile' },
+  home: { path: '/home', type: 'menu' },
+};
+`;
+      const endpoints = extractApiEndpointsFromContent(content);
+
+      expect(endpoints).toEqual([
+        { name: 'getProfile', method: 'GET', path: '/profile', confidence: 'medium' },
+        { name: 'updateProfile', method: 'PATCH', path: '/profile', confidence: 'medium' },
+      ]);
+    });
+
+    it('should report unresolved methods with low confidence', () => {
+      const content = `
+import axios from 'axios';
+
+export function send(method, data) {
+  return axios({ url: '/messages', method, data });
+}
+`;
+      const endpoints = extractApiEndpointsFromContent(content);
+
+      expect(endpoints).toEqual([{ name: 'send', method: 'GET', path: '/messages', confidence: 'low' }]);
+    });
+  });
+
+  describe('extractApiEndpoints', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'api-extractor-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should load aliased modules to follow wrappers', async () => {
+      await fs.mkdir(path.join(tempDir, 'src', 'api'), { recursive: true });
+      await fs.mkdir(path.join(tempDir, 'src', 'utils', 'request'), { recursive: true });
+      await fs.writeFile(
+        path.join(tempDir, 'src', 'utils', 'request', 'index.ts'),
+        "import { extend } from 'umi-request';\nconst client = extend({ prefix: '/api' });\nexport const post = (url: string, data?: object) => client.post(url, { data });\n"
+      );
+      await fs.writeFile(
+        path.join(tempDir, 'src', 'api', 'auth.ts'),
+        "import { post } from '@/utils/request';\nexport const login = (form) => post('/auth/login', form);\n"
+      );
+
+      const endpoints = await extractApiEndpoints(path.join(tempDir, 'src', 'api', 'auth.ts'), {
+        frontendRoot: tempDir,
+        aliasMap: { '@': 'src' },
+      });
+
+      expect(endpoints).toEqual([{ name: 'login', method: 'POST', path: '/auth/login', confidence: 'high' }]);
+    });
+  });
+});
@@ -0,0 +1,917 @@
+/**
+ * API Extractor
+ * Finds the HTTP endpoints an API module calls by walking its syntax tree.
+ * Calls are recognized on axios and its instances (axios.create), umi-request, ky and fetch,
+ * and on HTTP clients imported from other modules. Wrapper functions such as
+ * `get(url, params)` in utils/request are followed to the HTTP method and URL,
+ * across files resolved through the alias map.
+ * @see Requirements 2.2
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+import type { ApiEndpoint, ExtractionConfidence } from '@smart-test-agent/shared';
+import { resolveAliasPath } from './router-parser.js';
+import {
+  collectImports,
+  getNameText,
+  isFunctionNode,
+  parseSource,
+  unwrapExpression,
+  type FunctionNode,
+} from './ast-parser.js';
+
+/**
+ * Options for resolving imports of API modules
+ */
+export interface ApiExtractionOptions {
+  /** Root directory of the frontend source, needed to resolve aliased imports */
+  frontendRoot?: string;
+  /** Import aliases, e.g. { '@': 'src' } */
+  aliasMap?: Record<string, string>;
+}
+
+/** HTTP methods of ApiEndpoint */
+const HTTP_METHODS = new Set<string>(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']);
+
+/** Packages exporting HTTP clients, with the exports that are clients ('*' for all) */
+const CLIENT_PACKAGES: Record<string, string[] | '*'> = {
+  axios: '*',
+  'umi-request': '*',
+  ky: '*',
+  redaxios: '*',
+  umi: ['request'],
+  '@umijs/max': ['request'],
+};
+
+/** Methods creating a client instance: axios.create, request.extend, ky.extend */
+const CLIENT_FACTORIES = new Set(['create', 'extend']);
+
+/** Names suggesting an HTTP client whose definition cannot be followed */
+const CLIENT_NAME = /^\$?(?:axios|request|http|service|api|instance|client|fetcher)$/i;
+
+/** Parameter names holding a URL rather than a request config */
+const URL_PARAM_NAME = /^(?:url|path|uri|api|endpoint)/i;
+
+/** Import hops followed from the API module */
+const MAX_IMPORT_DEPTH = 3;
+
+/** Maximum number of modules loaded for one API module */
+const MAX_MODULES = 50;
+
+/** Guard against reference cycles when resolving values */
+const MAX_RESOLVE_DEPTH = 20;
+
+/** Extensions tried when resolving an import without one */
+const MODULE_EXTENSIONS = ['.ts', '.js', '.tsx', '.jsx', '.mjs'];
+
+/**
+ * A piece of a string only fully known at runtime
+ * param: a parameter of the function being analyzed, substituted by the argument at call sites
+ */
+type StringPart =
+  | { kind: 'text'; value: string }
+  | { kind: 'param'; index: number; name: string; property?: string }
+  | { kind: 'dynamic'; name: string };
+
+type StringValue = StringPart[];
+
+/**
+ * An HTTP request made by a call
+ */
+interface HttpCall {
+  method: StringValue;
+  url: StringValue;
+  /** Whether the client was recognized by its name only */
+  guessed: boolean;
+}
+
+/**
+ * Where a parameter of an enclosing function comes from
+ */
+type ParamEnv = Map<string, { index: number; name: string; property?: string }>;
+
+/**
+ * A module binding after following imports and aliases
+ */
+type Resolved =
+  | { kind: 'node'; node: ts.Node; module: ModuleInfo }
+  | { kind: 'namespace'; module: ModuleInfo }
+  | { kind: 'package'; specifier: string; name: string }
+  | { kind: 'unknown'; name: string };
+
+/**
+ * Export of a module
+ */
+type ExportBinding =
+  | { local: string }
+  | { expression: ts.Node }
+  | { from: string; name: string };
+
+/**
+ * A parsed module of the graph
+ */
+interface ModuleInfo {
+  filePath: string;
+  sourceFile: ts.SourceFile;
+  /** Local name → module and imported name */
+  imports: Map<string, { specifier: string; name: string }>;
+  /** Top-level declarations by name */
+  declarations: Map<string, ts.Node>;
+  /** Exported name → binding */
+  exports: Map<string, ExportBinding>;
+  /** Modules re-exported with export * from */
+  starExports: string[];
+}
+
+/**
+ * Whether an import refers to a project module: a relative path or an alias
+ */
+function isProjectModule(specifier: string, options: ApiExtractionOptions): boolean {
+  const aliasMap = options.aliasMap ?? { '@': 'src' };
+  return (
+    specifier.startsWith('.') ||
+    Object.keys(aliasMap).some(
+      (alias) => specifier === alias || specifier.startsWith(alias.endsWith('/') ? alias : `${alias}/`)
+    )
+  );
+}
+
+/**
+ * Lists the files an import may resolve to
+ * Aliased imports can only be resolved with the frontend root.
+ */
+function getModuleCandidates(specifier: string, fromFile: string, options: ApiExtractionOptions): string[] {
+  let base: string;
+  if (specifier.startsWith('.')) {
+    base = path.resolve(path.dirname(fromFile), specifier);
+  } else if (isProjectModule(specifier, options) && options.frontendRoot) {
+    base = path.resolve(resolveAliasPath(specifier, options.frontendRoot, options.aliasMap ?? { '@': 'src' }));
+  } else {
+    return [];
+  }
+
+  return [
+    base,
+    ...MODULE_EXTENSIONS.map((ext) => base + ext),
+    ...MODULE_EXTENSIONS.map((ext) => path.join(base, `index${ext}`)),
+  ];
+}
+
+/**
+ * Whether a statement has a modifier such as export or default
+ */
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === kind);
+}
+
+/**
+ * Builds the module info of a parsed file
+ */
+function createModuleInfo(filePath: string, content: string): ModuleInfo {
+  const sourceFile = parseSource(content, filePath);
+  const module: ModuleInfo = {
+    filePath,
+    sourceFile,
+    imports: new Map(),
+    declarations: new Map(),
+    exports: new Map(),
+    starExports: [],
+  };
+
+  for (const imported of collectImports(sourceFile)) {
+    for (const [local, name] of imported.bindings) {
+      module.imports.set(local, { specifier: imported.specifier, name });
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    const isExported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          module.declarations.set(declaration.name.text, declaration);
+          if (isExported) module.exports.set(declaration.name.text, { local: declaration.name.text });
+        }
+      }
+    } else if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+      if (statement.name) {
+        module.declarations.set(statement.name.text, statement);
+      }
+      if (isDefault) {
+        module.exports.set('default', { expression: statement });
+      } else if (isExported && statement.name) {
+        module.exports.set(statement.name.text, { local: statement.name.text });
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      module.exports.set('default', { expression: statement.expression });
+    } else if (ts.isExportDeclaration(statement)) {
+      const from =
+        statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : undefined;
+      if (!statement.exportClause && from) {
+        module.starExports.push(from);
+      } else if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        for (const element of statement.exportClause.elements) {
+          const name = (element.propertyName ?? element.name).text;
+          module.exports.set(element.name.text, from ? { from, name } : { local: name });
+        }
+      }
+    }
+  }
+
+  return module;
+}
+
+/**
+ * Renders a string value as a path, runtime parts become :name segments
+ * A leading unresolved part, such as a base URL from the environment, is dropped.
+ * @returns The path and whether it has runtime parts, or null when nothing of it is static
+ */
+function renderPath(url: StringValue): { path: string; dynamic: boolean } | null {
+  const parts = [...url];
+  let dynamic = false;
+  while (parts.length > 1 && parts[0].kind !== 'text' && parts[1].kind === 'text' && parts[1].value.startsWith('/')) {
+    parts.shift();
+    dynamic = true;
+  }
+  if (!parts.some((part) => part.kind === 'text' && part.value.replace(/[/?&=#]/g, '').length > 0)) {
+    return null;
+  }
+
+  // The query string is not part of the path
+  let rendered = '';
+  for (const part of parts) {
+    if (part.kind !== 'text') {
+      rendered += `:${part.name}`;
+      dynamic = true;
+    } else if (part.value.includes('?')) {
+      rendered += part.value.slice(0, part.value.indexOf('?'));
+      break;
+    } else {
+      rendered += part.value;
+    }
+  }
+  return rendered ? { path: rendered, dynamic } : null;
+}
+
+/**
+ * Gets a name for a runtime value: the identifier or property it is read from
+ */
+function getValueName(expression: ts.Expression): string {
+  const unwrapped = unwrapExpression(expression);
+  if (ts.isIdentifier(unwrapped)) return unwrapped.text;
+  if (ts.isPropertyAccessExpression(unwrapped)) return unwrapped.name.text;
+  if (ts.isCallExpression(unwrapped) && unwrapped.arguments.length > 0) {
+    return getValueName(unwrapped.arguments[0]);
+  }
+  return 'param';
+}
+
+/**
+ * Gets the name an endpoint is exported or defined under
+ */
+function getEnclosingName(node: ts.Node): string | undefined {
+  for (let current: ts.Node | undefined = node.parent; current && !ts.isSourceFile(current); current = current.parent) {
+    if (
+      ts.isFunctionDeclaration(current) ||
+      ts.isVariableDeclaration(current) ||
+      ts.isPropertyAssignment(current) ||
+      ts.isMethodDeclaration(current) ||
+      ts.isPropertyDeclaration(current)
+    ) {
+      const name = getNameText(current.name);
+      if (name) return name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds a property of an object literal
+ */
+function getObjectProperty(object: ts.ObjectLiteralExpression, name: string): ts.Node | undefined {
+  for (const property of object.properties) {
+    if (getNameText(property.name) === name) {
+      return property;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the declaration of a local variable visible from a node inside a function
+ */
+function findLocalDeclaration(identifier: ts.Identifier): ts.VariableDeclaration | undefined {
+  for (let current: ts.Node | undefined = identifier.parent; current; current = current.parent) {
+    if (ts.isSourceFile(current)) {
+      return undefined;
+    }
+    if (ts.isBlock(current)) {
+      for (const statement of current.statements) {
+        if (statement.pos >= identifier.pos) break;
+        if (!ts.isVariableStatement(statement)) continue;
+        const declaration = statement.declarationList.declarations.find(
+          (d) => ts.isIdentifier(d.name) && d.name.text === identifier.text
+        );
+        if (declaration) return declaration;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collects the parameters of a function into an environment
+ * Destructured parameters, e.g. ({ url, method }), are read from a property of the argument.
+ */
+function getParamEnv(fn: FunctionNode, inherited?: ParamEnv): ParamEnv {
+  const env: ParamEnv = new Map(inherited);
+  fn.parameters.forEach((parameter, index) => {
+    if (ts.isIdentifier(parameter.name)) {
+      env.set(parameter.name.text, { index, name: parameter.name.text });
+    } else if (ts.isObjectBindingPattern(parameter.name)) {
+      for (const element of parameter.name.elements) {
+        if (ts.isIdentifier(element.name)) {
+          const property = getNameText(element.propertyName) ?? element.name.text;
+          env.set(element.name.text, { index, name: element.name.text, property });
+        }
+      }
+    }
+  });
+  return env;
+}
+
+/**
+ * Walks the module graph of one API module
+ */
+class ApiAnalyzer {
+  private readonly functionCalls = new Map<ts.Node, HttpCall[]>();
+  private readonly inProgress = new Set<ts.Node>();
+  private readonly consumedConfigs = new Set<ts.Node>();
+
+  constructor(
+    private readonly modules: Map<string, ModuleInfo>,
+    private readonly options: ApiExtractionOptions
+  ) {}
+
+  /**
+   * Extracts the endpoints called by a module
+   */
+  extractEndpoints(module: ModuleInfo): ApiEndpoint[] {
+    const endpoints: ApiEndpoint[] = [];
+    const seen = new Set<string>();
+
+    const addEndpoint = (
+      node: ts.Node,
+      call: HttpCall,
+      declarative = false
+    ): void => {
+      const url = renderPath(call.url);
+      if (!url) return;
+
+      const methodText = call.method.length === 1 && call.method[0].kind === 'text'
+        ? call.method[0].value.toUpperCase()
+        : undefined;
+      if (methodText && !HTTP_METHODS.has(methodText)) return;
+
+      let confidence: ExtractionConfidence = 'high';
+      if (!methodText) {
+        confidence = 'low';
+      } else if (url.dynamic || call.guessed || declarative) {
+        confidence = 'medium';
+      }
+
+      const method = (methodText ?? 'GET') as ApiEndpoint['method'];
+      const key = `${method} ${url.path}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      endpoints.push({
+        name: getEnclosingName(node) ?? `endpoint_${endpoints.length}`,
+        method,
+        path: url.path,
+        confidence,
+      });
+    };
+
+    const visit = (node: ts.Node, env: ParamEnv): void => {
+      if (isFunctionNode(node)) {
+        const fnEnv = getParamEnv(node, env);
+        ts.forEachChild(node, (child) => visit(child, fnEnv));
+        return;
+      }
+
+      if (ts.isCallExpression(node)) {
+        for (const call of this.analyzeCall(node, module, env, 0)) {
+          addEndpoint(node, call);
+        }
+      } else if (ts.isObjectLiteralExpression(node) && !this.consumedConfigs.has(node)) {
+        // Declarative endpoint maps: { method: 'GET', url: '/api/users' }
+        const call = this.readDeclaredEndpoint(node, module, env);
+        if (call) addEndpoint(node, call, true);
+      }
+
+      ts.forEachChild(node, (child) => visit(child, env));
+    };
+    visit(module.sourceFile, new Map());
+
+    return endpoints;
+  }
+
+  /**
+   * Resolves the HTTP requests a call makes
+   */
+  private analyzeCall(call: ts.CallExpression, module: ModuleInfo, env: ParamEnv, depth: number): HttpCall[] {
+    if (depth > MAX_RESOLVE_DEPTH) return [];
+    const callee = unwrapExpression(call.expression);
+    const args = call.arguments;
+
+    // client.get('/users'), client.request({ ... })
+    if (ts.isPropertyAccessExpression(callee)) {
+      const methodName = callee.name.text;
+      const client = HTTP_METHODS.has(methodName.toUpperCase()) || methodName === 'request'
+        ? this.getClient(callee.expression, module, depth)
+        : undefined;
+      if (client && methodName === 'request') {
+        return this.readConfigCall(args, module, env, client.guessed, depth);
+      }
+      if (client) {
+        return [{
+          method: [{ kind: 'text', value: methodName }],
+          url: args[0] ? this.evaluate(args[0], module, env, depth) : [],
+          guessed: client.guessed,
+        }];
+      }
+    }
+
+    // fetch('/users', { method: 'POST' })
+    if (ts.isIdentifier(callee) && callee.text === 'fetch' && this.resolveExpression(callee, module, depth).kind === 'unknown') {
+      const init = args[1] ? this.getObjectLiteral(args[1], module, depth) : undefined;
+      const method = init ? getObjectProperty(init, 'method') : undefined;
+      return [{
+        method: method ? this.evaluateProperty(method, module, env, depth) : [{ kind: 'text', value: 'GET' }],
+        url: args[0] ? this.evaluate(args[0], module, env, depth) : [],
+        guessed: false,
+      }];
+    }
+
+    // client({ url, method }), client('/users', { method })
+    const client = this.getClient(callee, module, depth);
+    if (client) {
+      return this.readConfigCall(args, module, env, client.guessed, depth);
+    }
+
+    // Wrapper functions: get('/users'), http.post('/users', data)
+    const resolved = this.resolveExpression(callee, module, depth);
+    const fn = resolved.kind === 'node' ? this.asFunction(resolved.node) : undefined;
+    if (!fn || resolved.kind !== 'node') return [];
+
+    return this.getFunctionCalls(fn, resolved.module, depth + 1).map((inner) => ({
+      method: this.substitute(inner.method, args, module, env, depth),
+      url: this.substitute(inner.url, args, module, env, depth),
+      guessed: inner.guessed,
+    }));
+  }
+
+  /**
+   * Reads a config style request: client(config), client(url, config), client.request(config)
+   */
+  private readConfigCall(
+    args: ts.NodeArray<ts.Expression>,
+    module: ModuleInfo,
+    env: ParamEnv,
+    guessed: boolean,
+    depth: number
+  ): HttpCall[] {
+    if (args.length === 0) return [];
+
+    // A wrapper passing its config parameter through: service(config)
+    const first = this.getObjectLiteral(args[0], module, depth);
+    const param = ts.isIdentifier(args[0]) ? env.get(args[0].text) : undefined;
+    if (!first && param && !param.property && !URL_PARAM_NAME.test(param.name)) {
+      return [{
+        method: [{ kind: 'param', index: param.index, name: 'method', property: 'method' }],
+        url: [{ kind: 'param', index: param.index, name: 'url', property: 'url' }],
+        guessed,
+      }];
+    }
+
+    const config = first ?? (args[1] ? this.getObjectLiteral(args[1], module, depth) : undefined);
+    if (config) this.consumedConfigs.add(config);
+
+    const urlNode = first ? getObjectProperty(first, 'url') : args[0];
+    const methodNode = config ? getObjectProperty(config, 'method') : undefined;
+    if (!urlNode) return [];
+
+    return [{
+      method: methodNode ? this.evaluateProperty(methodNode, module, env, depth) : [{ kind: 'text', value: 'GET' }],
+      url: first ? this.evaluateProperty(urlNode, module, env, depth) : this.evaluate(urlNode as ts.Expression, module, env, depth),
+      guessed,
+    }];
+  }
+
+  /**
+   * Reads an endpoint declared as an object with method / type and url / path properties
+   */
+  private readDeclaredEndpoint(
+    object: ts.ObjectLiteralExpression,
+    module: ModuleInfo,
+    env: ParamEnv
+  ): HttpCall | undefined {
+    const methodNode = getObjectProperty(object, 'method') ?? getObjectProperty(object, 'type');
+    const urlNode = getObjectProperty(object, 'url') ?? getObjectProperty(object, 'path');
+    if (!methodNode || !urlNode) return undefined;
+
+    const method = this.evaluateProperty(methodNode, module, env, 0);
+    if (method.length !== 1 || method[0].kind !== 'text' || !HTTP_METHODS.has(method[0].value.toUpperCase())) {
+      return undefined;
+    }
+    return { method, url: this.evaluateProperty(urlNode, module, env, 0), guessed: false };
+  }
+
+  /**
+   * Resolves the requests made inside a function, in terms of its parameters
+   */
+  private getFunctionCalls(fn: FunctionNode, module: ModuleInfo, depth: number): HttpCall[] {
+    const cached = this.functionCalls.get(fn);
+    if (cached) return cached;
+    if (this.inProgress.has(fn) || !fn.body) return [];
+    this.inProgress.add(fn);
+
+    const calls: HttpCall[] = [];
+    const visit = (node: ts.Node, env: ParamEnv): void => {
+      if (isFunctionNode(node)) {
+        // Parameters of nested callbacks shadow the wrapper's parameters
+        const nestedEnv = new Map(env);
+        for (const name of getParamEnv(node).keys()) nestedEnv.delete(name);
+        ts.forEachChild(node, (child) => visit(child, nestedEnv));
+        return;
+      }
+      if (ts.isCallExpression(node)) {
+        calls.push(...this.analyzeCall(node, module, env, depth));
+      }
+      ts.forEachChild(node, (child) => visit(child, env));
+    };
+    visit(fn.body, getParamEnv(fn));
+
+    this.inProgress.delete(fn);
+    this.functionCalls.set(fn, calls);
+    return calls;
+  }
+
+  /**
+   * Replaces the parameters of a wrapper with the arguments of a call to it
+   */
+  private substitute(
+    value: StringValue,
+    args: ts.NodeArray<ts.Expression>,
+    module: ModuleInfo,
+    env: ParamEnv,
+    depth: number
+  ): StringValue {
+    return value.flatMap((part): StringValue => {
+      if (part.kind !== 'param') return [part];
+
+      const arg = args[part.index];
+      if (arg && part.property) {
+        const object = this.getObjectLiteral(arg, module, depth);
+        const property = object ? getObjectProperty(object, part.property) : undefined;
+        if (property) {
+          return this.evaluateProperty(property, module, env, depth);
+        }
+        // Requests without a method are GET requests
+        return object && part.property === 'method'
+          ? [{ kind: 'text', value: 'GET' }]
+          : [{ kind: 'dynamic', name: part.name }];
+      }
+      return arg ? this.evaluate(arg, module, env, depth) : [{ kind: 'dynamic', name: part.name }];
+    });
+  }
+
+  /**
+   * Evaluates the value of an object property, including shorthand properties
+   */
+  private evaluateProperty(property: ts.Node, module: ModuleInfo, env: ParamEnv, depth: number): StringValue {
+    if (ts.isPropertyAssignment(property)) {
+      return this.evaluate(property.initializer, module, env, depth);
+    }
+    if (ts.isShorthandPropertyAssignment(property)) {
+      return this.evaluate(property.name, module, env, depth);
+    }
+    return [{ kind: 'dynamic', name: getNameText((property as ts.NamedDeclaration).name) ?? 'param' }];
+  }
+
+  /**
+   * Evaluates a string expression as far as it is known statically
+   */
+  private evaluate(expression: ts.Expression, module: ModuleInfo, env: ParamEnv, depth: number): StringValue {
+    const node = unwrapExpression(expression);
+    if (depth > MAX_RESOLVE_DEPTH) {
+      return [{ kind: 'dynamic', name: getValueName(node) }];
+    }
+
+    if (ts.isStringLiteralLike(node)) {
+      return [{ kind: 'text', value: node.text }];
+    }
+    if (ts.isTemplateExpression(node)) {
+      const parts: StringValue = [{ kind: 'text', value: node.head.text }];
+      for (const span of node.templateSpans) {
+        parts.push(...this.evaluate(span.expression, module, env, depth + 1));
+        parts.push({ kind: 'text', value: span.literal.text });
+      }
+      return parts.filter((part) => part.kind !== 'text' || part.value !== '');
+    }
+    if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+      return [
+        ...this.evaluate(node.left, module, env, depth + 1),
+        ...this.evaluate(node.right, module, env, depth + 1),
+      ];
+    }
+    if (ts.isIdentifier(node)) {
+      const param = env.get(node.text);
+      if (param) {
+        return [{ kind: 'param', ...param }];
+      }
+      const local = findLocalDeclaration(node);
+      if (local) {
+        return local.initializer && ts.getCombinedNodeFlags(local) & ts.NodeFlags.Const
+          ? this.evaluate(local.initializer, module, env, depth + 1)
+          : [{ kind: 'dynamic', name: node.text }];
+      }
+    }
+    if (ts.isIdentifier(node) || ts.isPropertyAccessExpression(node)) {
+      const resolved = this.resolveExpression(node, module, depth + 1);
+      if (resolved.kind === 'node' && resolved.node !== node && ts.isExpression(resolved.node)) {
+        return this.evaluate(resolved.node, resolved.module, new Map(), depth + 1);
+      }
+    }
+
+    return [{ kind: 'dynamic', name: getValueName(node) }];
+  }
+
+  /**
+   * Tells whether an expression is an HTTP client
+   * @returns The client, guessed when only its name suggests it, or undefined
+   */
+  private getClient(expression: ts.Expression, module: ModuleInfo, depth: number): { guessed: boolean } | undefined {
+    if (depth > MAX_RESOLVE_DEPTH) return undefined;
+    const resolved = this.resolveExpression(expression, module, depth + 1);
+
+    switch (resolved.kind) {
+      case 'package': {
+        const exports = CLIENT_PACKAGES[resolved.specifier];
+        return exports === '*' || exports?.includes(resolved.name) ? { guessed: false } : undefined;
+      }
+      case 'unknown':
+        return CLIENT_NAME.test(resolved.name) ? { guessed: true } : undefined;
+      case 'namespace':
+        return undefined;
+      case 'node': {
+        // axios.create(), extend() from umi-request
+        const node = resolved.node;
+        if (ts.isCallExpression(node)) {
+          const callee = unwrapExpression(node.expression);
+          if (ts.isPropertyAccessExpression(callee) && CLIENT_FACTORIES.has(callee.name.text)) {
+            return this.getClient(callee.expression, resolved.module, depth + 1);
+          }
+          if (ts.isIdentifier(callee) && CLIENT_FACTORIES.has(callee.text)) {
+            return this.getClient(callee, resolved.module, depth + 1);
+          }
+        }
+        // Functions are request wrappers and objects group wrappers, anything else is judged by its name
+        if (this.asFunction(node) || ts.isObjectLiteralExpression(node) || ts.isClassDeclaration(node)) {
+          return undefined;
+        }
+        return CLIENT_NAME.test(getValueName(expression)) ? { guessed: true } : undefined;
+      }
+    }
+  }
+
+  /**
+   * Gets the function a resolved node is, following variable initializers
+   */
+  private asFunction(node: ts.Node): FunctionNode | undefined {
+    if (isFunctionNode(node)) return node;
+    if (ts.isPropertyAssignment(node) && isFunctionNode(unwrapExpression(node.initializer))) {
+      return unwrapExpression(node.initializer) as FunctionNode;
+    }
+    return undefined;
+  }
+
+  /**
+   * Gets the object literal an expression is, following constants
+   */
+  private getObjectLiteral(expression: ts.Expression, module: ModuleInfo, depth: number): ts.ObjectLiteralExpression | undefined {
+    const node = unwrapExpression(expression);
+    if (ts.isObjectLiteralExpression(node)) return node;
+    if (ts.isIdentifier(node)) {
+      const local = findLocalDeclaration(node);
+      if (local?.initializer) return this.getObjectLiteral(local.initializer, module, depth + 1);
+      const resolved = this.resolveExpression(node, module, depth + 1);
+      if (resolved.kind === 'node' && ts.isObjectLiteralExpression(resolved.node)) return resolved.node;
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolves an expression to its definition, following imports, constants and object properties
+   */
+  private resolveExpression(expression: ts.Expression, module: ModuleInfo, depth: number): Resolved {
+    const node = unwrapExpression(expression);
+    if (depth > MAX_RESOLVE_DEPTH) return { kind: 'unknown', name: getValueName(node) };
+
+    if (ts.isIdentifier(node)) {
+      return this.resolveBinding(node.text, module, depth + 1);
+    }
+
+    if (ts.isPropertyAccessExpression(node)) {
+      const name = node.name.text;
+      if (node.expression.kind === ts.SyntaxKind.ThisKeyword) {
+        return { kind: 'unknown', name };
+      }
+      const object = this.resolveExpression(node.expression, module, depth + 1);
+      if (object.kind === 'namespace') {
+        return this.resolveExport(object.module, name, depth + 1);
+      }
+      if (object.kind === 'node' && ts.isObjectLiteralExpression(object.node)) {
+        const property = getObjectProperty(object.node, name);
+        if (property && ts.isPropertyAssignment(property)) {
+          return this.resolveNode(property.initializer, object.module, depth + 1);
+        }
+        if (property) {
+          return { kind: 'node', node: property, module: object.module };
+        }
+      }
+      if (object.kind === 'package') {
+        return { kind: 'node', node, module };
+      }
+      return { kind: 'unknown', name };
+    }
+
+    return { kind: 'node', node, module };
+  }
+
+  /**
+   * Resolves a node found at a definition, following it further when it only refers to something else
+   */
+  private resolveNode(node: ts.Node, module: ModuleInfo, depth: number): Resolved {
+    if (ts.isVariableDeclaration(node)) {
+      return node.initializer
+        ? this.resolveNode(node.initializer, module, depth + 1)
+        : { kind: 'unknown', name: getNameText(node.name) ?? 'param' };
+    }
+    if (ts.isExpression(node)) {
+      const unwrapped = unwrapExpression(node);
+      if (ts.isIdentifier(unwrapped) || ts.isPropertyAccessExpression(unwrapped)) {
+        return this.resolveExpression(unwrapped, module, depth + 1);
+      }
+      return { kind: 'node', node: unwrapped, module };
+    }
+    return { kind: 'node', node, module };
+  }
+
+  /**
+   * Resolves a name in the scope of a module
+   */
+  private resolveBinding(name: string, module: ModuleInfo, depth: number): Resolved {
+    const declaration = module.declarations.get(name);
+    if (declaration) {
+      return this.resolveNode(declaration, module, depth + 1);
+    }
+
+    const imported = module.imports.get(name);
+    if (!imported) {
+      return { kind: 'unknown', name };
+    }
+
+    const target = this.findModule(imported.specifier, module.filePath);
+    if (target) {
+      return imported.name === '*'
+        ? { kind: 'namespace', module: target }
+        : this.resolveExport(target, imported.name, depth + 1);
+    }
+    return isProjectModule(imported.specifier, this.options)
+      ? { kind: 'unknown', name }
+      : { kind: 'package', specifier: imported.specifier, name: imported.name };
+  }
+
+  /**
+   * Resolves an export of a module
+   */
+  private resolveExport(module: ModuleInfo, name: string, depth: number): Resolved {
+    if (depth > MAX_RESOLVE_DEPTH) return { kind: 'unknown', name };
+
+    const binding = module.exports.get(name);
+    if (binding && 'local' in binding) {
+      return this.resolveBinding(binding.local, module, depth + 1);
+    }
+    if (binding && 'expression' in binding) {
+      return this.resolveNode(binding.expression, module, depth + 1);
+    }
+    if (binding && 'from' in binding) {
+      const target = this.findModule(binding.from, module.filePath);
+      return target ? this.resolveExport(target, binding.name, depth + 1) : { kind: 'unknown', name };
+    }
+
+    for (const specifier of module.starExports) {
+      const target = this.findModule(specifier, module.filePath);
+      if (target?.exports.has(name)) {
+        return this.resolveExport(target, name, depth + 1);
+      }
+    }
+    return { kind: 'unknown', name };
+  }
+
+  /**
+   * Finds a loaded module by an import specifier
+   */
+  private findModule(specifier: string, fromFile: string): ModuleInfo | undefined {
+    for (const candidate of getModuleCandidates(specifier, fromFile, this.options)) {
+      const module = this.modules.get(candidate);
+      if (module) return module;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Lists the modules imported by a module that can be loaded from the project
+ */
+function getImportedModuleCandidates(module: ModuleInfo, options: ApiExtractionOptions): string[][] {
+  return collectImports(module.sourceFile)
+    .filter((imported) => !imported.typeOnly)
+    .map((imported) => getModuleCandidates(imported.specifier, module.filePath, options))
+    .filter((candidates) => candidates.length > 0);
+}
+
+/**
+ * Extracts the endpoints of an API file
+ * Imported modules are loaded up to MAX_IMPORT_DEPTH hops to follow clients and wrapper functions.
+ * @param filePath Path to the API file
+ * @param options Import resolution options
+ * @returns Extracted endpoints
+ * @see Requirements 2.2
+ */
+export async function extractApiEndpoints(
+  filePath: string,
+  options: ApiExtractionOptions = {}
+): Promise<ApiEndpoint[]> {
+  const entryPath = path.resolve(filePath);
+  const modules = new Map<string, ModuleInfo>();
+  modules.set(entryPath, createModuleInfo(entryPath, await fs.readFile(entryPath, 'utf-8')));
+
+  let frontier = [modules.get(entryPath)!];
+  for (let depth = 0; depth < MAX_IMPORT_DEPTH && frontier.length > 0; depth++) {
+    const next: ModuleInfo[] = [];
+    for (const module of frontier) {
+      for (const candidates of getImportedModuleCandidates(module, options)) {
+        if (modules.size >= MAX_MODULES || candidates.some((candidate) => modules.has(candidate))) {
+          continue;
+        }
+        for (const candidate of candidates) {
+          try {
+            const loaded = createModuleInfo(candidate, await fs.readFile(candidate, 'utf-8'));
+            modules.set(candidate, loaded);
+            next.push(loaded);
+            break;
+          } catch {
+            // Not this candidate, or a directory
+          }
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return new ApiAnalyzer(modules, options).extractEndpoints(modules.get(entryPath)!);
+}
+
+/**
+ * Extracts the endpoints of API content (for testing)
+ * @param content API file content
+ * @param filePath Virtual file path
+ * @param modules Other modules of the project by file path, e.g. the request wrapper
+ * @param options Import resolution options
+ * @returns Extracted endpoints
+ * @see Requirements 2.2
+ */
+export function extractApiEndpointsFromContent(
+  content: string,
+  filePath: string = 'api.ts',
+  modules: Record<string, string> = {},
+  options: ApiExtractionOptions = {}
+): ApiEndpoint[] {
+  const moduleMap = new Map<string, ModuleInfo>();
+  for (const [modulePath, moduleContent] of Object.entries(modules)) {
+    moduleMap.set(path.resolve(modulePath), createModuleInfo(path.resolve(modulePath), moduleContent));
+  }
+  const entry = createModuleInfo(path.resolve(filePath), content);
+  moduleMap.set(entry.filePath, entry);
+
+  return new ApiAnalyzer(moduleMap, options).extractEndpoints(entry);
+}
@@ -0,0 +1,187 @@
+/**
+ * AST Parser
+ * Parses TypeScript / JavaScript / JSX sources with the TypeScript compiler API
+ * and provides the syntax tree helpers shared by the extractors.
+ * @see Requirements 2.2, 2.4
+ */
+
+import * as path from 'path';
+import ts from 'typescript';
+
+/** Function nodes that have a body */
+export type FunctionNode =
+  | ts.FunctionDeclaration
+  | ts.FunctionExpression
+  | ts.ArrowFunction
+  | ts.MethodDeclaration;
+
+/**
+ * A module imported by a source file
+ */
+export interface ModuleImport {
+  /** Module specifier, e.g. @/api/user */
+  specifier: string;
+  /** Local name → imported name ('default', '*' or the export name) */
+  bindings: Map<string, string>;
+  /** Whether only types are imported */
+  typeOnly: boolean;
+}
+
+/**
+ * Picks the script kind from a lang attribute or the file extension
+ * .js files are parsed as JSX since many React projects keep components in them.
+ */
+function getScriptKind(filePath: string, lang?: string): ts.ScriptKind {
+  switch (lang ?? path.extname(filePath).slice(1).toLowerCase()) {
+    case 'ts':
+    case 'mts':
+    case 'cts':
+      return ts.ScriptKind.TS;
+    case 'tsx':
+      return ts.ScriptKind.TSX;
+    default:
+      return ts.ScriptKind.JSX;
+  }
+}
+
+/**
+ * Parses source content into a syntax tree
+ * Parsing never throws: syntax errors are recovered from and can be checked with hasParseErrors.
+ * @param content Source content
+ * @param filePath File path, its extension selects the language
+ * @param lang Language overriding the extension, e.g. from <script lang="ts">
+ */
+export function parseSource(content: string, filePath: string, lang?: string): ts.SourceFile {
+  return ts.createSourceFile(
+    filePath,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(filePath, lang)
+  );
+}
+
+/**
+ * Whether the parser had to recover from syntax errors
+ */
+export function hasParseErrors(sourceFile: ts.SourceFile): boolean {
+  const visit = (node: ts.Node): boolean =>
+    (node.flags & ts.NodeFlags.ThisNodeHasError) !== 0 || ts.forEachChild(node, visit) === true;
+  return visit(sourceFile);
+}
+
+/**
+ * Collects the modules a source file imports:
+ * import declarations, re-exports, require() calls and dynamic import()
+ */
+export function collectImports(sourceFile: ts.SourceFile): ModuleImport[] {
+  const imports: ModuleImport[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const bindings = new Map<string, string>();
+      const clause = node.importClause;
+      if (clause?.name) {
+        bindings.set(clause.name.text, 'default');
+      }
+      if (clause?.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+        bindings.set(clause.namedBindings.name.text, '*');
+      } else if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        for (const element of clause.namedBindings.elements) {
+          bindings.set(element.name.text, (element.propertyName ?? element.name).text);
+        }
+      }
+      imports.push({ specifier: node.moduleSpecifier.text, bindings, typeOnly: clause?.isTypeOnly === true });
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      imports.push({ specifier: node.moduleSpecifier.text, bindings: new Map(), typeOnly: node.isTypeOnly });
+    } else if (
+      ts.isCallExpression(node) &&
+      (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) && node.expression.text === 'require')) &&
+      node.arguments.length > 0 &&
+      ts.isStringLiteralLike(node.arguments[0])
+    ) {
+      const bindings = new Map<string, string>();
+      if (ts.isVariableDeclaration(node.parent) && ts.isIdentifier(node.parent.name)) {
+        bindings.set(node.parent.name.text, 'default');
+      }
+      imports.push({ specifier: node.arguments[0].text, bindings, typeOnly: false });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return imports;
+}
+
+/**
+ * Whether an import looks like an API module, e.g. @/api/user or ../services/order
+ * @see Requirements 2.2
+ */
+export function isApiModule(specifier: string): boolean {
+  return /api|service|request/i.test(specifier);
+}
+
+/**
+ * Strips parentheses, type assertions and non-null assertions around an expression
+ */
+export function unwrapExpression(expression: ts.Expression): ts.Expression {
+  let current = expression;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isSatisfiesExpression(current) ||
+    ts.isNonNullExpression(current) ||
+    ts.isTypeAssertionExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+/**
+ * Whether a node is a function with a body
+ */
+export function isFunctionNode(node: ts.Node): node is FunctionNode {
+  return (
+    ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node)
+  );
+}
+
+/**
+ * Gets the text of an identifier or string literal name, e.g. a property name
+ */
+export function getNameText(name: ts.Node | undefined): string | undefined {
+  if (name && (ts.isIdentifier(name) || ts.isStringLiteralLike(name) || ts.isPrivateIdentifier(name))) {
+    return name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Gets the name a call is made by: useState for both useState() and React.useState()
+ */
+export function getCalleeName(call: ts.CallExpression): string | undefined {
+  const callee = unwrapExpression(call.expression);
+  if (ts.isIdentifier(callee)) {
+    return callee.text;
+  }
+  if (ts.isPropertyAccessExpression(callee)) {
+    return callee.name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Summarizes a function as its header followed by { ... }
+ * @param node Function node, or the statement declaring it
+ * @param body Body of the function
+ */
+export function summarizeFunction(node: ts.Node, body: ts.Node): string {
+  const sourceFile = node.getSourceFile();
+  const header = sourceFile.text.slice(node.getStart(sourceFile), body.getStart(sourceFile)).trim();
+  return `${header} { ... }`;
+}
@@ -0,0 +1,119 @@
+/**
+ * Element Inventory Unit Tests
+ * @see Requirements 2.2, 4.2
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractElementInventory } from './element-inventory.js';
+import { extractVueComponentFromContent } from './vue-extractor.js';
+import { extractReactComponentFromContent } from './react-extractor.js';
+
+describe('Element Inventory', () => {
+  describe('Vue templates', () => {
+    it('should list buttons, form fields, table columns, modals and test ids', () => {
+      const component = extractVueComponentFromContent(`
+<template>
+  <div class="user-page">
+    <a-form layout="inline">
+      <a-form-item label="用户名" name="username">
+        <a-input v-model:value="query.username" placeholder="请输入用户名" />
+      </a-form-item>
+      <a-form-item label="状态">
+        <a-select v-model:value="query.status" data-testid="status-select" />
+      </a-form-item>
+      <a-button type="primary" @click="search">查 询</a-button>
+      <el-button v-if="canExport" :loading="exporting">{{ $t('export') }}</el-button>
+    </a-form>
+    <el-table :data="users" data-testid="user-table">
+      <el-table-column prop="name" label="姓名" />
+      <el-table-column prop="createdAt" :label="t('created')"></el-table-column>
+    </el-table>
+    <a-modal v-model:open="visible" title="编辑用户">
+      <input type="text" name="email" placeholder="邮箱">
+      <template #footer>
+        <button data-testid="save-btn" @click="save">保存</button>
+      </template>
+    </a-modal>
+  </div>
+</template>
+
+<script setup lang="ts">
+const columns = [{ title: '角色', dataIndex: 'role' }];
+</script>
+`);
+
+      expect(extractElementInventory(component)).toEqual([
+        { kind: 'field', component: 'a-form-item', label: '用户名', name: 'username', placeholder: '请输入用户名' },
+        { kind: 'field', component: 'a-form-item', label: '状态', name: 'status', testId: 'status-select' },
+        { kind: 'button', component: 'a-button', text: '查 询' },
+        { kind: 'button', component: 'el-button' },
+        { kind: 'element', component: 'el-table', testId: 'user-table' },
+        { kind: 'table_column', component: 'el-table-column', text: '姓名', name: 'name' },
+        { kind: 'table_column', component: 'el-table-column', name: 'createdAt' },
+        { kind: 'modal', component: 'a-modal', text: '编辑用户' },
+        { kind: 'field', component: 'input', name: 'email', placeholder: '邮箱' },
+        { kind: 'button', component: 'button', text: '保存', testId: 'save-btn' },
+        { kind: 'table_column', component: 'columns', text: '角色', name: 'role' },
+      ]);
+    });
+
+    it('should return an empty inventory for components without markup', () => {
+      const component = extractVueComponentFromContent('<script>\nexport default {}\n</script>');
+      expect(extractElementInventory(component)).toEqual([]);
+    });
+  });
+
+  describe('JSX', () => {
+    const content = `
+import { Button, Form, Input, Modal, Table } from 'antd';
+
+export default function UserList() {
+  const columns = [
+    { title: '姓名', dataIndex: 'name' },
+    { title: '城市', dataIndex: ['address', 'city'] },
+  ];
+  return (
+    <div>
+      <Form>
+        <Form.Item label="用户名" name="username">
+          <Input placeholder="请输入用户名" />
+        </Form.Item>
+        <Form.Item label={t('email')} name="email">
+          <Input.Password placeholder={'请输入密码'} />
+        </Form.Item>
+      </Form>
+      <Button type="primary" data-testid="create-user">新增用户</Button>
+      {canDelete && <Button danger>{'删除'}</Button>}
+      <Table columns={columns} rowKey="id" />
+      <Modal title="新增用户" open={open} footer={<Button onClick={close}>取消</Button>}>
+        <label htmlFor="remark">备注</label>
+      </Modal>
+    </div>
+  );
+}
+`;
+
+    it('should list elements from the returned JSX and column definitions in the source', () => {
+      const component = extractReactComponentFromContent(content, 'UserList.tsx');
+
+      expect(extractElementInventory(component, content)).toEqual([
+        { kind: 'field', component: 'Form.Item', label: '用户名', name: 'username', placeholder: '请输入用户名' },
+        { kind: 'field', component: 'Form.Item', name: 'email', placeholder: '请输入密码' },
+        { kind: 'button', component: 'Button', text: '新增用户', testId: 'create-user' },
+        { kind: 'button', component: 'Button', text: '删除' },
+        { kind: 'modal', component: 'Modal', text: '新增用户' },
+        { kind: 'button', component: 'Button', text: '取消' },
+        { kind: 'field', component: 'label', label: '备注' },
+        { kind: 'table_column', component: 'columns', text: '姓名', name: 'name' },
+        { kind: 'table_column', component: 'columns', text: '城市', name: 'address.city' },
+      ]);
+    });
+
+    it('should only see columns inside the JSX without the full source', () => {
+      const component = extractReactComponentFromContent(content, 'UserList.tsx');
+
+      const columns = extractElementInventory(component).filter((element) => element.kind === 'table_column');
+      expect(columns).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Element Inventory
+ * Lists the UI elements a page component renders (buttons, form fields, table columns,
+ * modals and data-testid hooks) from its template or JSX, so selectors in test steps
+ * can be checked against elements that exist in the source.
+ * @see Requirements 2.2, 4.2
+ */
+
+import ts from 'typescript';
+import type { ExtractedComponent, InventoryElement } from '@smart-test-agent/shared';
+import { getNameText, parseSource, unwrapExpression } from './ast-parser.js';
+
+/** Element inventory of the tested routes, written under inputs/ of the run workspace */
+export const ELEMENT_INVENTORY_FILENAME = 'element-inventory.json';
+
+/** Longest text kept for an element, longer text is container content rather than a name */
+const MAX_TEXT_LENGTH = 80;
+
+/** Attributes holding a test id, in order of preference */
+const TEST_ID_ATTRS = ['data-testid', 'data-test-id', 'data-test', 'data-cy'];
+
+/** Component library prefixes stripped before classifying a tag */
+const LIBRARY_PREFIX = /^(?:a|el|n|t|q|v|van|ant|ion)-/;
+
+/** HTML elements without a closing tag */
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const BUTTON_TAGS = new Set(['button', 'btn']);
+const FORM_ITEM_TAGS = new Set(['form-item']);
+const TABLE_COLUMN_TAGS = new Set(['table-column', 'column']);
+const MODAL_TAGS = new Set(['modal', 'dialog', 'drawer']);
+const FIELD_TAGS = new Set([
+  'textarea', 'select', 'date-picker', 'range-picker', 'time-picker', 'cascader', 'tree-select',
+  'auto-complete', 'autocomplete', 'switch', 'checkbox-group', 'radio-group', 'slider', 'rate',
+  'upload', 'mentions', 'text-field', 'color-picker',
+]);
+
+/**
+ * Element of a template or JSX tree
+ */
+interface MarkupNode {
+  /** Tag name as written, e.g. el-form-item or Form.Item */
+  tag: string;
+  /** Static attributes, valueless ones as true; bound or computed attributes are not kept */
+  attrs: Record<string, string | true>;
+  /** Child elements and static text */
+  children: Array<MarkupNode | string>;
+}
+
+/**
+ * Normalizes a tag for classification: Form.Item, AFormItem and a-form-item all become form-item
+ */
+function normalizeTag(tag: string): string {
+  return tag
+    .replace(/\./g, '-')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(LIBRARY_PREFIX, '');
+}
+
+/**
+ * Gets a static attribute value
+ */
+function getAttr(node: MarkupNode, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = node.attrs[name];
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collects the static text of a node, interpolations ({{ }} or { }) are left out
+ */
+function getText(node: MarkupNode): string | undefined {
+  const parts: string[] = [];
+  const visit = (child: MarkupNode | string): void => {
+    if (typeof child === 'string') {
+      parts.push(child.replace(/\{\{[\s\S]*?\}\}/g, ' ').replace(/\{[^{}]*\}/g, ' '));
+    } else {
+      child.children.forEach(visit);
+    }
+  };
+  node.children.forEach(visit);
+
+  const text = parts.join(' ').replace(/\s+/g, ' ').trim();
+  return text && text.length <= MAX_TEXT_LENGTH ? text : undefined;
+}
+
+/**
+ * Field name from name / prop attributes or the last segment of a v-model binding
+ */
+function getFieldName(node: MarkupNode): string | undefined {
+  const name = getAttr(node, 'prop', 'name', 'field', 'formControlName');
+  if (name) {
+    return name;
+  }
+  const model = getAttr(node, 'v-model', 'v-model:value');
+  return model?.split('.').pop();
+}
+
+/**
+ * Parses attributes of an opening tag
+ */
+function parseAttrs(attrText: string): Record<string, string | true> {
+  const attrs: Record<string, string | true> = {};
+  const attrRegex = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+  let match;
+  while ((match = attrRegex.exec(attrText)) !== null) {
+    attrs[match[1]] = match[2] ?? match[3] ?? match[4] ?? true;
+  }
+
+  return attrs;
+}
+
+/**
+ * Parses an HTML-like template (Vue, Angular, Svelte) into a tree
+ * Unclosed tags are closed by their parent's closing tag; stray closing tags are ignored.
+ */
+function parseTemplate(template: string): MarkupNode {
+  const root: MarkupNode = { tag: '#root', attrs: {}, children: [] };
+  const stack: MarkupNode[] = [root];
+  const tagRegex =
+    /<!--[\s\S]*?-->|<\/([a-zA-Z][\w.:-]*)\s*>|<([a-zA-Z][\w.:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+
+  let lastIndex = 0;
+  let match;
+  while ((match = tagRegex.exec(template)) !== null) {
+    const text = template.slice(lastIndex, match.index);
+    if (text.trim()) {
+      stack[stack.length - 1].children.push(text);
+    }
+    lastIndex = tagRegex.lastIndex;
+
+    const [, closingTag, openingTag, attrText = '', selfClosing] = match;
+    if (closingTag) {
+      const index = stack.map((node) => node.tag.toLowerCase()).lastIndexOf(closingTag.toLowerCase());
+      if (index > 0) {
+        stack.length = index;
+      }
+    } else if (openingTag) {
+      const node: MarkupNode = { tag: openingTag, attrs: parseAttrs(attrText), children: [] };
+      stack[stack.length - 1].children.push(node);
+      if (!selfClosing && !VOID_ELEMENTS.has(openingTag.toLowerCase())) {
+        stack.push(node);
+      }
+    }
+  }
+
+  const rest = template.slice(lastIndex);
+  if (rest.trim()) {
+    stack[stack.length - 1].children.push(rest);
+  }
+  return root;
+}
+
+/**
+ * Converts JSX attributes to static attributes, string literals only
+ */
+function getJsxAttrs(attributes: ts.JsxAttributes): Record<string, string | true> {
+  const attrs: Record<string, string | true> = {};
+  for (const attribute of attributes.properties) {
+    if (!ts.isJsxAttribute(attribute)) continue;
+    const name = attribute.name.getText();
+    const initializer = attribute.initializer;
+    if (!initializer) {
+      attrs[name] = true;
+    } else if (ts.isStringLiteral(initializer)) {
+      attrs[name] = initializer.text;
+    } else if (ts.isJsxExpression(initializer) && initializer.expression) {
+      const value = unwrapExpression(initializer.expression);
+      if (ts.isStringLiteralLike(value)) {
+        attrs[name] = value.text;
+      }
+    }
+  }
+  return attrs;
+}
+
+/**
+ * Parses JSX content into a tree
+ * JSX nested in expressions (conditions, map callbacks, props such as footer) is kept
+ * under the closest enclosing element.
+ */
+function parseJsx(jsx: string): { root: MarkupNode; sourceFile: ts.SourceFile } {
+  const root: MarkupNode = { tag: '#root', attrs: {}, children: [] };
+  const sourceFile = parseSource(`(${jsx});`, 'inventory.tsx');
+
+  const toNode = (tagName: ts.JsxTagNameExpression, attributes: ts.JsxAttributes, parent: MarkupNode): MarkupNode => {
+    const node: MarkupNode = { tag: tagName.getText(), attrs: getJsxAttrs(attributes), children: [] };
+    parent.children.push(node);
+    for (const attribute of attributes.properties) {
+      const initializer = ts.isJsxAttribute(attribute) ? attribute.initializer : undefined;
+      if (initializer && ts.isJsxExpression(initializer) && initializer.expression) {
+        ts.forEachChild(initializer, (child) => visit(child, node));
+      }
+    }
+    return node;
+  };
+
+  const visit = (node: ts.Node, parent: MarkupNode): void => {
+    if (ts.isJsxElement(node)) {
+      const element = toNode(node.openingElement.tagName, node.openingElement.attributes, parent);
+      node.children.forEach((child) => visit(child, element));
+    } else if (ts.isJsxSelfClosingElement(node)) {
+      toNode(node.tagName, node.attributes, parent);
+    } else if (ts.isJsxText(node)) {
+      if (!node.containsOnlyTriviaWhiteSpaces) {
+        parent.children.push(node.text);
+      }
+    } else if (ts.isJsxExpression(node) && node.expression && ts.isStringLiteralLike(unwrapExpression(node.expression))) {
+      parent.children.push((unwrapExpression(node.expression) as ts.StringLiteralLike).text);
+    } else {
+      ts.forEachChild(node, (child) => visit(child, parent));
+    }
+  };
+  visit(sourceFile, root);
+
+  return { root, sourceFile };
+}
+
+/**
+ * Collects elements from a template or JSX tree
+ * @param formItem Enclosing form item: controls inside fill in its placeholder and name
+ */
+function collectElements(node: MarkupNode, elements: InventoryElement[], formItem?: InventoryElement): void {
+  for (const child of node.children) {
+    if (typeof child === 'string') continue;
+
+    const kind = normalizeTag(child.tag);
+    const testId = getAttr(child, ...TEST_ID_ATTRS);
+    const inputType = kind === 'input' ? getAttr(child, 'type')?.toLowerCase() : undefined;
+    let itemContext = formItem;
+
+    if (BUTTON_TAGS.has(kind) || getAttr(child, 'role') === 'button' || inputType === 'submit' || inputType === 'button') {
+      elements.push({
+        kind: 'button',
+        component: child.tag,
+        text: inputType ? getAttr(child, 'value') : getText(child),
+        testId,
+      });
+      continue;
+    }
+
+    if (FORM_ITEM_TAGS.has(kind)) {
+      itemContext = {
+        kind: 'field',
+        component: child.tag,
+        label: getAttr(child, 'label'),
+        name: getFieldName(child),
+        testId,
+      };
+      elements.push(itemContext);
+    } else if ((kind.startsWith('input') || FIELD_TAGS.has(kind)) && inputType !== 'hidden') {
+      const placeholder = getAttr(child, 'placeholder');
+      if (formItem) {
+        formItem.placeholder ??= placeholder;
+        formItem.name ??= getFieldName(child);
+        formItem.testId ??= testId;
+      } else {
+        elements.push({
+          kind: 'field',
+          component: child.tag,
+          label: getAttr(child, 'label', 'aria-label'),
+          name: getFieldName(child),
+          placeholder,
+          testId,
+        });
+      }
+    } else if (kind === 'label' && !formItem) {
+      elements.push({ kind: 'field', component: child.tag, label: getText(child), testId });
+      continue;
+    } else if (TABLE_COLUMN_TAGS.has(kind)) {
+      elements.push({
+        kind: 'table_column',
+        component: child.tag,
+        text: getAttr(child, 'label', 'title'),
+        name: getAttr(child, 'prop', 'dataIndex', 'field'),
+        testId,
+      });
+    } else if (MODAL_TAGS.has(kind)) {
+      elements.push({ kind: 'modal', component: child.tag, text: getAttr(child, 'title', 'header'), testId });
+    } else if (testId) {
+      elements.push({ kind: 'element', component: child.tag, text: getText(child), testId });
+    }
+
+    collectElements(child, elements, itemContext);
+  }
+}
+
+/**
+ * Collects column definitions from code: object literals such as
+ * { title: '姓名', dataIndex: 'name' } or { label: '状态', prop: 'status' }
+ */
+function collectColumnDefinitions(sourceFile: ts.SourceFile, elements: InventoryElement[]): void {
+  const visit = (node: ts.Node): void => {
+    if (ts.isObjectLiteralExpression(node)) {
+      const values = new Map<string, string>();
+      for (const property of node.properties) {
+        if (!ts.isPropertyAssignment(property)) continue;
+        const key = getNameText(property.name);
+        const value = unwrapExpression(property.initializer);
+        if (key && ts.isStringLiteralLike(value)) {
+          values.set(key, value.text);
+        } else if (key === 'dataIndex' && ts.isArrayLiteralExpression(value)) {
+          values.set(key, value.elements.filter(ts.isStringLiteralLike).map((element) => element.text).join('.'));
+        }
+      }
+      const text = values.get('title') ?? values.get('label');
+      const name = values.get('dataIndex') ?? values.get('prop') ?? values.get('field');
+      if (text && name) {
+        elements.push({ kind: 'table_column', component: 'columns', text, name });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+}
+
+/**
+ * Drops unset fields and duplicate elements
+ */
+function dedupeElements(elements: InventoryElement[]): InventoryElement[] {
+  const seen = new Set<string>();
+  const result: InventoryElement[] = [];
+  for (const element of elements) {
+    const compact = Object.fromEntries(
+      Object.entries(element).filter(([, value]) => value !== undefined)
+    ) as unknown as InventoryElement;
+    const key = JSON.stringify(compact);
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.push(compact);
+    }
+  }
+  return result;
+}
+
+/**
+ * Extracts the UI element inventory of a page component
+ * Elements come from the template (Vue, Angular, Svelte) or JSX (React); table columns are
+ * also taken from column definitions in the script.
+ * @param component Extracted page component
+ * @param source Full component source (React), column definitions usually live outside the returned JSX
+ * @returns Elements found in the component
+ * @see Requirements 2.2, 4.2
+ */
+export function extractElementInventory(component: ExtractedComponent, source?: string): InventoryElement[] {
+  const elements: InventoryElement[] = [];
+
+  if (component.template) {
+    collectElements(parseTemplate(component.template), elements);
+    if (component.scriptExports) {
+      collectColumnDefinitions(parseSource(component.scriptExports, component.filePath, 'ts'), elements);
+    }
+  } else if (component.jsxContent) {
+    const { root, sourceFile } = parseJsx(component.jsxContent);
+    collectElements(root, elements);
+    collectColumnDefinitions(source ? parseSource(source, component.filePath) : sourceFile, elements);
+  }
+
+  return dedupeElements(elements);
+}
@@ -0,0 +1,162 @@
+/**
+ * File-System Router Unit Tests
+ * @see Requirements 2.1, 2.9
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { discoverFileSystemRoutes, detectRoutingConvention, toRouteSegment } from './file-system-router.js';
+
+/**
+ * Creates empty files under a root directory
+ */
+async function createFiles(root: string, files: string[]): Promise<void> {
+  for (const file of files) {
+    await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), '');
+  }
+}
+
+describe('File-System Router', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fs-routes-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('toRouteSegment', () => {
+    it('should convert dynamic segments of each convention', () => {
+      expect(toRouteSegment('[id]', 'next-app')).toBe(':id');
+      expect(toRouteSegment('[...slug]', 'next-pages')).toBe('*');
+      expect(toRouteSegment('[[...slug]]', 'next-app')).toBe('*');
+      expect(toRouteSegment('[[lang]]', 'nuxt')).toBe(':lang?');
+      expect(toRouteSegment('_id', 'nuxt')).toBe(':id');
+      expect(toRouteSegment('[id$]', 'umi')).toBe(':id?');
+      expect(toRouteSegment('$id', 'umi')).toBe(':id');
+      expect(toRouteSegment('$id$', 'umi')).toBe(':id?');
+      expect(toRouteSegment('(marketing)', 'next-app')).toBeNull();
+      expect(toRouteSegment('settings', 'umi')).toBe('settings');
+    });
+  });
+
+  describe('discoverFileSystemRoutes', () => {
+    it('should discover Next.js app router pages with layouts and route groups', async () => {
+      await createFiles(tempDir, [
+        'app/layout.tsx',
+        'app/page.tsx',
+        'app/(shop)/layout.tsx',
+        'app/(shop)/products/page.tsx',
+        'app/(shop)/products/[id]/page.tsx',
+        'app/(shop)/products/[id]/ProductCard.tsx',
+        'app/_components/Header.tsx',
+        'app/@modal/login/page.tsx',
+        'app/docs/[[...slug]]/page.mdx',
+        'app/api/health/route.ts',
+      ]);
+      const appDir = path.join(tempDir, 'app');
+
+      const result = await discoverFileSystemRoutes(appDir, 'next-app');
+
+      expect(result.framework).toBe('react');
+      expect(result.routes.map((r) => r.path)).toEqual(['/', '/products', '/products/:id', '/docs/*']);
+      expect(result.routes[2]).toEqual({
+        path: '/products/:id',
+        componentPath: path.join(appDir, '(shop)/products/[id]/page.tsx'),
+        layouts: [path.join(appDir, 'layout.tsx'), path.join(appDir, '(shop)/layout.tsx')],
+      });
+    });
+
+    it('should discover Next.js pages router pages and skip API routes', async () => {
+      await createFiles(tempDir, [
+        'pages/_app.tsx',
+        'pages/_document.tsx',
+        'pages/index.tsx',
+        'pages/about.tsx',
+        'pages/blog/[slug].tsx',
+        'pages/blog/index.test.tsx',
+        'pages/api/users.ts',
+      ]);
+      const pagesDir = path.join(tempDir, 'pages');
+
+      const result = await discoverFileSystemRoutes(pagesDir, 'next-pages');
+
+      expect(result.routes.map((r) => r.path)).toEqual(['/about', '/', '/blog/:slug']);
+      expect(result.routes[0].layouts).toEqual([path.join(pagesDir, '_app.tsx')]);
+    });
+
+    it('should discover Nuxt pages with parent pages as layouts', async () => {
+      await createFiles(tempDir, [
+        'layouts/default.vue',
+        'pages/index.vue',
+        'pages/users.vue',
+        'pages/users/index.vue',
+        'pages/users/[id].vue',
+        'pages/settings.vue',
+        'pages/settings/profile.vue',
+      ]);
+      const pagesDir = path.join(tempDir, 'pages');
+
+      const result = await discoverFileSystemRoutes(pagesDir, 'nuxt');
+
+      expect(result.framework).toBe('vue');
+      expect(result.routes.map((r) => [r.path, path.relative(pagesDir, r.componentPath)])).toEqual([
+        ['/', 'index.vue'],
+        ['/settings', 'settings.vue'],
+        ['/settings/profile', 'settings/profile.vue'],
+        ['/users/:id', 'users/[id].vue'],
+        ['/users', 'users/index.vue'],
+      ]);
+      expect(result.routes[3].layouts).toEqual([
+        path.join(tempDir, 'layouts/default.vue'),
+        path.join(pagesDir, 'users.vue'),
+      ]);
+    });
+
+    it('should discover umi pages with _layout files and skip non-page directories', async () => {
+      await createFiles(tempDir, [
+        'src/layouts/index.tsx',
+        'src/pages/index.tsx',
+        'src/pages/users/_layout.tsx',
+        'src/pages/users/index.tsx',
+        'src/pages/users/$id.tsx',
+        'src/pages/users/components/UserForm.tsx',
+        'src/pages/services/user.ts',
+        'src/pages/typings.d.ts',
+      ]);
+      const pagesDir = path.join(tempDir, 'src/pages');
+
+      const result = await discoverFileSystemRoutes(pagesDir, 'umi');
+
+      expect(result.routes.map((r) => r.path)).toEqual(['/', '/users/:id', '/users']);
+      expect(result.routes[1].layouts).toEqual([
+        path.join(tempDir, 'src/layouts/index.tsx'),
+        path.join(pagesDir, 'users/_layout.tsx'),
+      ]);
+    });
+  });
+
+  describe('detectRoutingConvention', () => {
+    it('should detect the convention from package.json dependencies', async () => {
+      await fs.writeFile(path.join(tempDir, 'package.json'), JSON.stringify({ dependencies: { next: '14.0.0' } }));
+      expect(await detectRoutingConvention(tempDir)).toBe('next-pages');
+
+      await fs.mkdir(path.join(tempDir, 'src', 'app'), { recursive: true });
+      expect(await detectRoutingConvention(tempDir)).toBe('next-app');
+
+      await fs.writeFile(path.join(tempDir, 'package.json'), JSON.stringify({ devDependencies: { '@umijs/max': '4.0.0' } }));
+      expect(await detectRoutingConvention(tempDir)).toBe('umi');
+    });
+
+    it('should return null for projects with a router file', async () => {
+      await fs.writeFile(path.join(tempDir, 'package.json'), JSON.stringify({ dependencies: { 'vue-router': '4.0.0' } }));
+      expect(await detectRoutingConvention(tempDir)).toBeNull();
+      expect(await detectRoutingConvention(path.join(tempDir, 'missing'))).toBeNull();
+    });
+  });
+});
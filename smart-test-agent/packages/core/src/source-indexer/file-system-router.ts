@@ -0,0 +1,297 @@
+/**
+ * File-System Router
+ * Discovers routes of frameworks without a router file by walking the page directory:
+ * Next.js (app and pages routers), Nuxt and umi conventional routing.
+ * Dynamic segments become :param, catch-all segments become *, route groups are dropped
+ * and the layouts wrapping each page are listed on its route.
+ * @see Requirements 2.1, 2.9
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { RouteMapping, RoutingConvention } from '@smart-test-agent/shared';
+import type { RouterParseResult } from './router-parser.js';
+
+/**
+ * Framework of the pages discovered under each convention
+ */
+export const ROUTING_CONVENTION_FRAMEWORKS = {
+  'next-app': 'react',
+  'next-pages': 'react',
+  nuxt: 'vue',
+  umi: 'react',
+} as const satisfies Record<RoutingConvention, RouterParseResult['framework']>;
+
+/** Page file extensions of React based conventions */
+const REACT_PAGE_EXTENSIONS = ['.tsx', '.jsx', '.ts', '.js'];
+
+/** Directories umi never treats as pages */
+const UMI_IGNORED_DIRS = new Set(['components', 'models', 'services', 'utils']);
+
+/** Files next to pages that are never routes: type declarations, tests, stories */
+const NON_PAGE_FILE = /\.(?:d|test|spec|e2e|stories)\.[jt]sx?$/;
+
+interface DirectoryEntries {
+  files: string[];
+  dirs: string[];
+}
+
+/**
+ * Lists the files and directories of a directory, sorted by name
+ * Hidden entries and node_modules are skipped.
+ */
+async function readDirectory(dir: string): Promise<DirectoryEntries> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  const visible = entries.filter((entry) => !entry.name.startsWith('.') && entry.name !== 'node_modules');
+  return {
+    files: visible.filter((entry) => entry.isFile()).map((entry) => entry.name),
+    dirs: visible.filter((entry) => entry.isDirectory()).map((entry) => entry.name),
+  };
+}
+
+/**
+ * Finds a file named `<name><ext>` among the files of a directory
+ */
+function findFile(files: string[], name: string, extensions: string[]): string | undefined {
+  return extensions.map((ext) => name + ext).find((fileName) => files.includes(fileName));
+}
+
+/**
+ * Converts a file or directory name to a route path segment
+ * - (group) → null, route groups do not appear in the URL
+ * - [id] → :id, [[id]] / [id$] (umi) → :id?
+ * - [...slug] / [[...slug]] → *
+ * - _id (Nuxt 2) → :id, $id / $id$ (umi 3) → :id / :id?
+ */
+export function toRouteSegment(name: string, convention: RoutingConvention): string | null {
+  if (/^\(.*\)$/.test(name)) {
+    return null;
+  }
+
+  const segment = name
+    .replace(/\[\[?\.\.\.\w+\]\]?/g, '*')
+    .replace(/\[\[(\w+)\]\]/g, ':$1?')
+    .replace(/\[(\w+)\$\]/g, ':$1?')
+    .replace(/\[(\w+)\]/g, ':$1');
+
+  if (convention === 'nuxt' && /^_\w+$/.test(segment)) {
+    return `:${segment.slice(1)}`;
+  }
+  if (convention === 'umi' && /^\$\w+\$?$/.test(segment)) {
+    return segment.endsWith('$') ? `:${segment.slice(1, -1)}?` : `:${segment.slice(1)}`;
+  }
+  return segment;
+}
+
+/**
+ * Builds a route path from its segments
+ */
+function toRoutePath(segments: string[]): string {
+  return '/' + segments.filter(Boolean).join('/');
+}
+
+/**
+ * Discovers Next.js app router routes
+ * Every directory holding a page file is a route, wrapped by the layout files of its ancestors.
+ * Private folders (_name), parallel route slots (@name) and intercepting routes ((.)name) are skipped.
+ */
+async function discoverNextAppRoutes(
+  dir: string,
+  segments: string[],
+  layouts: string[],
+  routes: RouteMapping[]
+): Promise<void> {
+  const { files, dirs } = await readDirectory(dir);
+
+  const layoutFile = findFile(files, 'layout', REACT_PAGE_EXTENSIONS);
+  const currentLayouts = layoutFile ? [...layouts, path.join(dir, layoutFile)] : layouts;
+
+  const pageFile = findFile(files, 'page', [...REACT_PAGE_EXTENSIONS, '.mdx']);
+  if (pageFile) {
+    routes.push({ path: toRoutePath(segments), componentPath: path.join(dir, pageFile), layouts: currentLayouts });
+  }
+
+  for (const name of dirs) {
+    if (name.startsWith('_') || name.startsWith('@') || /^\(\.+\)/.test(name)) {
+      continue;
+    }
+    const segment = toRouteSegment(name, 'next-app');
+    await discoverNextAppRoutes(
+      path.join(dir, name),
+      segment === null ? segments : [...segments, segment],
+      currentLayouts,
+      routes
+    );
+  }
+}
+
+/**
+ * Discovers routes of conventions where every page file is a route:
+ * Next.js pages router, Nuxt and umi
+ * - index files map to their directory
+ * - umi: _layout files wrap the routes of their directory
+ * - Nuxt: parent.vue next to a parent/ directory wraps the routes in it
+ */
+async function discoverPageFileRoutes(
+  dir: string,
+  convention: Exclude<RoutingConvention, 'next-app'>,
+  segments: string[],
+  layouts: string[],
+  routes: RouteMapping[]
+): Promise<void> {
+  const { files, dirs } = await readDirectory(dir);
+  const extensions = convention === 'nuxt' ? ['.vue'] : REACT_PAGE_EXTENSIONS;
+
+  let currentLayouts = layouts;
+  if (convention === 'umi') {
+    const layoutFile = findFile(files, '_layout', extensions);
+    if (layoutFile) {
+      currentLayouts = [...layouts, path.join(dir, layoutFile)];
+    }
+  }
+
+  const pageFiles = files.filter(
+    (fileName) =>
+      extensions.includes(path.extname(fileName)) &&
+      !NON_PAGE_FILE.test(fileName) &&
+      // _app, _document, _layout... are framework files, except Nuxt 2 dynamic pages like _id.vue
+      (!fileName.startsWith('_') || convention === 'nuxt')
+  );
+
+  for (const fileName of pageFiles) {
+    const name = path.basename(fileName, path.extname(fileName));
+    // Nuxt parent pages become the layout of their directory, they are only a route without an index page
+    if (convention === 'nuxt' && dirs.includes(name) && (await hasIndexPage(path.join(dir, name), extensions))) {
+      continue;
+    }
+    const segment = name === 'index' ? null : toRouteSegment(name, convention);
+    routes.push({
+      path: toRoutePath(segment === null ? segments : [...segments, segment]),
+      componentPath: path.join(dir, fileName),
+      layouts: currentLayouts,
+    });
+  }
+
+  for (const name of dirs) {
+    if (
+      (convention === 'next-pages' && segments.length === 0 && name === 'api') ||
+      (convention === 'umi' && UMI_IGNORED_DIRS.has(name))
+    ) {
+      continue;
+    }
+
+    const parentPage = convention === 'nuxt' ? findFile(files, name, extensions) : undefined;
+    const segment = toRouteSegment(name, convention);
+    await discoverPageFileRoutes(
+      path.join(dir, name),
+      convention,
+      segment === null ? segments : [...segments, segment],
+      parentPage ? [...currentLayouts, path.join(dir, parentPage)] : currentLayouts,
+      routes
+    );
+  }
+}
+
+/**
+ * Whether a directory has an index page
+ */
+async function hasIndexPage(dir: string, extensions: string[]): Promise<boolean> {
+  const { files } = await readDirectory(dir);
+  return findFile(files, 'index', extensions) !== undefined;
+}
+
+/**
+ * Finds the layouts that wrap every page of a convention
+ * - next-pages: pages/_app
+ * - nuxt: layouts/default.vue next to pages/
+ * - umi: src/layouts/index next to src/pages/
+ */
+async function findRootLayouts(pageDir: string, convention: RoutingConvention): Promise<string[]> {
+  const candidates: Record<RoutingConvention, string[]> = {
+    'next-app': [],
+    'next-pages': REACT_PAGE_EXTENSIONS.map((ext) => path.join(pageDir, `_app${ext}`)),
+    nuxt: [path.join(pageDir, '..', 'layouts', 'default.vue')],
+    umi: REACT_PAGE_EXTENSIONS.map((ext) => path.join(pageDir, '..', 'layouts', `index${ext}`)),
+  };
+
+  for (const candidate of candidates[convention]) {
+    try {
+      await fs.access(candidate);
+      return [path.resolve(candidate)];
+    } catch {
+      continue;
+    }
+  }
+  return [];
+}
+
+/**
+ * Discovers the routes of a page directory following a file-system routing convention
+ * @param pageDir The app/ or pages/ directory
+ * @param convention Routing convention of the project
+ * @returns Discovered routes, already flat, and the framework of the pages
+ * @see Requirements 2.1
+ */
+export async function discoverFileSystemRoutes(
+  pageDir: string,
+  convention: RoutingConvention
+): Promise<RouterParseResult> {
+  const routes: RouteMapping[] = [];
+  const rootDir = path.resolve(pageDir);
+  const rootLayouts = await findRootLayouts(rootDir, convention);
+
+  if (convention === 'next-app') {
+    await discoverNextAppRoutes(rootDir, [], rootLayouts, routes);
+  } else {
+    await discoverPageFileRoutes(rootDir, convention, [], rootLayouts, routes);
+  }
+
+  // Keep the first page of each path, e.g. pages/about.tsx over pages/about/index.tsx
+  const uniqueRoutes = new Map<string, RouteMapping>();
+  for (const route of routes) {
+    if (!uniqueRoutes.has(route.path)) {
+      uniqueRoutes.set(route.path, route);
+    }
+  }
+
+  return {
+    framework: ROUTING_CONVENTION_FRAMEWORKS[convention],
+    routes: Array.from(uniqueRoutes.values()),
+  };
+}
+
+/**
+ * Detects the file-system routing convention of a frontend project from its package.json
+ * @param frontendRoot Root directory of the frontend project
+ * @returns The convention, or null if the project uses a router file
+ */
+export async function detectRoutingConvention(frontendRoot: string): Promise<RoutingConvention | null> {
+  let dependencies: Record<string, string>;
+  try {
+    const packageJson = JSON.parse(await fs.readFile(path.join(frontendRoot, 'package.json'), 'utf-8'));
+    dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+  } catch {
+    return null;
+  }
+
+  if (dependencies.next) {
+    for (const appDir of ['app', path.join('src', 'app')]) {
+      try {
+        const stats = await fs.stat(path.join(frontendRoot, appDir));
+        if (stats.isDirectory()) return 'next-app';
+      } catch {
+        continue;
+      }
+    }
+    return 'next-pages';
+  }
+  if (dependencies.nuxt) {
+    return 'nuxt';
+  }
+  if (dependencies.umi || dependencies['@umijs/max']) {
+    return 'umi';
+  }
+  return null;
+}
@@ -13,13 +13,21 @@ import type {
   SourceContext,
   FrameworkType,
   TargetProfile,
-  ApiEndpoint,
+  RoutingConvention,
+  SourceCodeConfig,
+  ElementInventory,
 } from '@smart-test-agent/shared';
 
 // Re-export sub-modules
 export * from './router-parser.js';
 export * from './vue-extractor.js';
 export * from './react-extractor.js';
+export * from './angular-extractor.js';
+export * from './svelte-extractor.js';
+export * from './file-system-router.js';
+export * from './api-extractor.js';
+export * from './element-inventory.js';
+export * from './openapi-parser.js';
 
 import {
   parseRouterFile,
@@ -30,6 +38,12 @@ import {
 } from './router-parser.js';
 import { extractVueComponent } from './vue-extractor.js';
 import { extractReactComponent } from './react-extractor.js';
+import { extractAngularComponent } from './angular-extractor.js';
+import { extractSvelteComponent } from './svelte-extractor.js';
+import { discoverFileSystemRoutes } from './file-system-router.js';
+import { extractApiEndpoints } from './api-extractor.js';
+import { extractElementInventory } from './element-inventory.js';
+import { parseOpenApiFile, mergeOpenApiEndpoints } from './openapi-parser.js';
 
 /**
  * Source Indexer class
@@ -53,19 +67,37 @@ export class SourceIndexer {
     return flattenRoutes(result.routes);
   }
 
+  /**
+   * Discovers routes from a page directory for projects without a router file
+   * @param pageDir The app/ or pages/ directory
+   * @param convention File-system routing convention of the project
+   * @returns Array of route mappings
+   * @see Requirements 2.1
+   */
+  async discoverRoutes(pageDir: string, convention: RoutingConvention): Promise<RouteMapping[]> {
+    const result = await discoverFileSystemRoutes(pageDir, convention);
+    return result.routes;
+  }
+
   /**
    * Extracts component information from a page component file
    * @param componentPath Path to the component file
+   * @param framework Framework of the project, tells Angular components from React ones in .ts files
    * @returns Extracted component information
    * @see Requirements 2.2, 2.4, 2.5, 2.6, 2.7, 2.8
    */
   async extractPageComponent(
-    componentPath: string
+    componentPath: string,
+    framework?: FrameworkType
   ): Promise<ExtractedComponent> {
     const ext = path.extname(componentPath).toLowerCase();
 
     if (ext === '.vue') {
       return extractVueComponent(componentPath);
+    } else if (ext === '.svelte') {
+      return extractSvelteComponent(componentPath);
+    } else if (ext === '.ts' && (framework === 'angular' || componentPath.endsWith('.component.ts'))) {
+      return extractAngularComponent(componentPath);
     } else if (ext === '.tsx' || ext === '.jsx' || ext === '.js' || ext === '.ts') {
       return extractReactComponent(componentPath);
     }
@@ -75,13 +107,14 @@ export class SourceIndexer {
 
   /**
    * Extracts API definitions from an API file
+   * Request wrappers and HTTP clients imported by the file are followed through the alias map.
    * @param apiPath Path to the API definition file
+   * @param frontendRoot Root directory of frontend source, needed to resolve aliased imports
    * @returns Extracted API information
    * @see Requirements 2.2
    */
-  async extractApiDefinition(apiPath: string): Promise<ExtractedApi> {
-    const content = await fs.readFile(apiPath, 'utf-8');
-    const endpoints = this.parseApiEndpoints(content);
+  async extractApiDefinition(apiPath: string, frontendRoot?: string): Promise<ExtractedApi> {
+    const endpoints = await extractApiEndpoints(apiPath, { frontendRoot, aliasMap: this.aliasMap });
 
     return {
       filePath: apiPath,
@@ -89,53 +122,25 @@ export class SourceIndexer {
     };
   }
 
-  /**
-   * Parses API endpoints from file content
-   */
-  private parseApiEndpoints(content: string): ApiEndpoint[] {
-    const endpoints: ApiEndpoint[] = [];
-
-    // Pattern 1: export const apiName = (params) => request.get/post/put/delete('path')
-    const exportConstRegex =
-      /export\s+(?:const|function)\s+(\w+)\s*=?\s*(?:\([^)]*\)\s*(?:=>|:))?\s*[^{]*(?:request|axios|http|api)\s*\.\s*(get|post|put|delete|patch)\s*(?:<[^>]+>)?\s*\(\s*['"`]([^'"`]+)['"`]/gi;
-
-    let match;
-    while ((match = exportConstRegex.exec(content)) !== null) {
-      endpoints.push({
-        name: match[1],
-        method: match[2].toUpperCase() as ApiEndpoint['method'],
-        path: match[3],
-      });
-    }
-
-    // Pattern 2: { method: 'GET', url: '/api/...' }
-    const objectPatternRegex =
-      /(?:method|type)\s*:\s*['"](\w+)['"]\s*,\s*(?:url|path)\s*:\s*['"]([^'"]+)['"]/gi;
-
-    while ((match = objectPatternRegex.exec(content)) !== null) {
-      endpoints.push({
-        name: `endpoint_${endpoints.length}`,
-        method: match[1].toUpperCase() as ApiEndpoint['method'],
-        path: match[2],
-      });
-    }
-
-    return endpoints;
-  }
-
   /**
    * Detects the frontend framework type from router file
-   * @param routerPath Path to the router configuration file
+   * @param routerPath Path to the router configuration file or SvelteKit routes directory
    * @returns Detected framework type
    * @see Requirements 2.9
    */
   async detectFrameworkType(routerPath: string): Promise<FrameworkType> {
+    const stats = await fs.stat(routerPath);
+    if (stats.isDirectory()) {
+      // SvelteKit file-based routes
+      return 'svelte';
+    }
     const content = await fs.readFile(routerPath, 'utf-8');
     return detectFrameworkType(content);
   }
 
   /**
    * Generates complete source context for a route
+   * With sourceCode.openApiFile set, the APIs are enriched with the documented schemas.
    * @param route Route path to generate context for
    * @param profile Target profile with source code configuration
    * @returns Complete source context
@@ -146,45 +151,28 @@ export class SourceIndexer {
     profile: TargetProfile
   ): Promise<SourceContext> {
     const { sourceCode } = profile;
-    const routerPath = path.join(
-      sourceCode.frontendRoot,
-      sourceCode.routerFile
-    );
 
-    // Parse router and detect framework
-    const parseResult = await parseRouterFile(routerPath);
-    const routes = flattenRoutes(parseResult.routes);
-    const framework = parseResult.framework;
+    // Parse router (or discover file-system routes) and detect framework
+    const { routes, framework } = await this.loadRoutes(sourceCode);
 
-    // Find component for route
-    const componentRelPath = findComponentForRoute(routes, route);
-    if (!componentRelPath) {
-      throw new Error(`No component found for route: ${route}`);
-    }
-
-    // Resolve component path
-    const componentPath = resolveAliasPath(
-      componentRelPath,
-      sourceCode.frontendRoot,
-      this.aliasMap
-    );
+    // Find and resolve component for route
+    const componentPath = this.resolveRouteComponent(routes, route, sourceCode);
 
     // Extract component
-    const component = await this.extractPageComponent(componentPath);
+    const component = await this.extractPageComponent(componentPath, framework);
 
     // Extract API definitions
     const apis: ExtractedApi[] = [];
     for (const apiImport of component.apiImports) {
       try {
-        const apiPath = resolveAliasPath(
-          apiImport,
-          sourceCode.frontendRoot,
-          this.aliasMap
-        );
+        // Relative imports are relative to the component file
+        const apiPath = apiImport.startsWith('.')
+          ? path.resolve(path.dirname(componentPath), apiImport)
+          : resolveAliasPath(apiImport, sourceCode.frontendRoot, this.aliasMap);
         // Add extension if missing
         const apiPathWithExt = await this.resolveFileWithExtension(apiPath);
         if (apiPathWithExt) {
-          const api = await this.extractApiDefinition(apiPathWithExt);
+          const api = await this.extractApiDefinition(apiPathWithExt, sourceCode.frontendRoot);
           apis.push(api);
         }
       } catch {
@@ -193,6 +181,22 @@ export class SourceIndexer {
       }
     }
 
+    // Enrich with the schemas of the backend's OpenAPI document
+    if (sourceCode.openApiFile) {
+      const specPath = path.resolve(sourceCode.frontendRoot, sourceCode.openApiFile);
+      try {
+        const spec = await parseOpenApiFile(specPath);
+        return {
+          route,
+          component,
+          apis: mergeOpenApiEndpoints(apis, spec),
+          framework,
+        };
+      } catch (err) {
+        console.warn(`Could not read OpenAPI document: ${specPath}`, err);
+      }
+    }
+
     return {
       route,
       component,
@@ -201,6 +205,72 @@ export class SourceIndexer {
     };
   }
 
+  /**
+   * Builds the UI element inventory of the page components rendering the given routes
+   * Routes whose component cannot be found or parsed are skipped with a warning.
+   * @param routes Route paths under test
+   * @param profile Target profile with source code configuration
+   * @returns Element inventory per route
+   * @see Requirements 2.2, 4.2
+   */
+  async buildElementInventory(
+    routes: string[],
+    profile: TargetProfile
+  ): Promise<ElementInventory[]> {
+    const { sourceCode } = profile;
+    const { routes: routeMappings, framework } = await this.loadRoutes(sourceCode);
+
+    const inventories: ElementInventory[] = [];
+    for (const route of routes) {
+      try {
+        const componentPath = this.resolveRouteComponent(routeMappings, route, sourceCode);
+        const component = await this.extractPageComponent(componentPath, framework);
+        const source = component.framework === 'react' ? await fs.readFile(componentPath, 'utf-8') : undefined;
+        inventories.push({
+          route,
+          componentPath,
+          elements: extractElementInventory(component, source),
+        });
+      } catch (err) {
+        console.warn(`Could not build element inventory for route: ${route}`, err);
+      }
+    }
+
+    return inventories;
+  }
+
+  /**
+   * Parses the router file, or discovers file-system routes from the page directory
+   * The page directory is resolved against frontendRoot when one is set.
+   */
+  private async loadRoutes(
+    sourceCode: SourceCodeConfig
+  ): Promise<{ routes: RouteMapping[]; framework: FrameworkType }> {
+    const parseResult = sourceCode.routingConvention
+      ? await discoverFileSystemRoutes(
+          path.resolve(sourceCode.frontendRoot ?? '', sourceCode.pageDir),
+          sourceCode.routingConvention
+        )
+      : await parseRouterFile(path.join(sourceCode.frontendRoot, sourceCode.routerFile));
+    return { routes: flattenRoutes(parseResult.routes), framework: parseResult.framework };
+  }
+
+  /**
+   * Finds the component file rendering a route
+   * @throws Error if no component is mapped to the route
+   */
+  private resolveRouteComponent(
+    routes: RouteMapping[],
+    route: string,
+    sourceCode: SourceCodeConfig
+  ): string {
+    const componentRelPath = findComponentForRoute(routes, route);
+    if (!componentRelPath) {
+      throw new Error(`No component found for route: ${route}`);
+    }
+    return resolveAliasPath(componentRelPath, sourceCode.frontendRoot, this.aliasMap);
+  }
+
   /**
    * Resolves a file path by trying common extensions
    */
@@ -0,0 +1,191 @@
+/**
+ * OpenAPI Parser Unit Tests
+ * @see Requirements 2.2, 19.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseOpenApiSpec, mergeOpenApiEndpoints, getResourceName } from './openapi-parser.js';
+import type { ExtractedApi } from '@smart-test-agent/shared';
+
+describe('OpenAPI Parser', () => {
+  const openApi = {
+    openapi: '3.0.3',
+    servers: [{ url: 'https://example.com/api/' }],
+    paths: {
+      '/users': {
+        get: {
+          operationId: 'listUsers',
+          parameters: [{ name: 'page', in: 'query', schema: { type: 'integer' } }],
+          responses: { '200': { description: 'ok' } },
+        },
+        post: {
+          operationId: 'createUser',
+          requestBody: {
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/UserInput' } } },
+          },
+          responses: {
+            '201': {
+              content: {
+                'application/json': {
+                  schema: {
+                    allOf: [
+                      { $ref: '#/components/schemas/Envelope' },
+                      { properties: { data: { $ref: '#/components/schemas/User' } } },
+                    ],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/users/{userId}': {
+        parameters: [{ name: 'userId', in: 'path', required: true, schema: { type: 'string' } }],
+        delete: { responses: { '204': { description: 'deleted' } } },
+      },
+      '/roles': {
+        get: { operationId: 'listRoles', responses: {} },
+      },
+    },
+    components: {
+      schemas: {
+        Envelope: { type: 'object', properties: { code: { type: 'integer' } }, required: ['code'] },
+        User: { type: 'object', properties: { userId: { type: 'string', format: 'uuid' } } },
+        UserInput: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            role: { type: 'string', enum: ['admin', 'member'] },
+            nickname: { type: ['string', 'null'], example: 'tom' },
+          },
+          required: ['name', 'role'],
+        },
+      },
+    },
+  };
+
+  describe('parseOpenApiSpec', () => {
+    it('should parse OpenAPI 3 endpoints with resolved request and response schemas', () => {
+      const api = parseOpenApiSpec(openApi, 'openapi.json');
+
+      expect(api.filePath).toBe('openapi.json');
+      expect(api.endpoints.map((endpoint) => `${endpoint.method} ${endpoint.path}`)).toEqual([
+        'GET /api/users',
+        'POST /api/users',
+        'DELETE /api/users/:userId',
+        'GET /api/roles',
+      ]);
+
+      const [list, create, remove] = api.endpoints;
+      expect(list.params).toEqual({ page: 'integer' });
+      expect(create).toMatchObject({
+        name: 'createUser',
+        confidence: 'high',
+        requestBody: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            role: { type: 'string', enum: ['admin', 'member'] },
+            nickname: { type: 'string', example: 'tom' },
+          },
+          required: ['name', 'role'],
+        },
+        response: {
+          type: 'object',
+          properties: {
+            code: { type: 'integer' },
+            data: { type: 'object', properties: { userId: { type: 'string', format: 'uuid' } } },
+          },
+          required: ['code'],
+        },
+      });
+      expect(remove).toMatchObject({ name: 'DELETE /api/users/:userId', params: { userId: 'string' } });
+      expect(remove.response).toBeUndefined();
+    });
+
+    it('should parse Swagger 2 body and formData parameters', () => {
+      const api = parseOpenApiSpec({
+        swagger: '2.0',
+        basePath: '/v1',
+        paths: {
+          '/orders': {
+            post: {
+              parameters: [
+                {
+                  name: 'body',
+                  in: 'body',
+                  schema: { type: 'object', properties: { sku: { type: 'string' } }, required: ['sku'] },
+                },
+              ],
+              responses: { '200': { schema: { type: 'object', properties: { id: { type: 'integer' } } } } },
+            },
+          },
+          '/files': {
+            post: {
+              parameters: [{ name: 'file', in: 'formData', type: 'file', required: true }],
+              responses: {},
+            },
+          },
+        },
+      });
+
+      expect(api.endpoints[0]).toMatchObject({
+        method: 'POST',
+        path: '/v1/orders',
+        requestBody: { properties: { sku: { type: 'string' } }, required: ['sku'] },
+        response: { properties: { id: { type: 'integer' } } },
+      });
+      expect(api.endpoints[1].requestBody).toEqual({ type: 'object', properties: { file: {} }, required: ['file'] });
+    });
+
+    it('should reject documents that are not OpenAPI', () => {
+      expect(() => parseOpenApiSpec({ paths: {} }, 'api.json')).toThrow('Not an OpenAPI or Swagger document: api.json');
+    });
+  });
+
+  describe('getResourceName', () => {
+    it('should return the last static segment before the first path parameter', () => {
+      expect(getResourceName('/api/users')).toBe('users');
+      expect(getResourceName('/api/users/:id/roles')).toBe('users');
+      expect(getResourceName('/')).toBeUndefined();
+    });
+  });
+
+  describe('mergeOpenApiEndpoints', () => {
+    it('should enrich called endpoints and add the undocumented calls of the same resources', () => {
+      const apis: ExtractedApi[] = [
+        {
+          filePath: '/app/src/api/user.ts',
+          endpoints: [
+            { name: 'getUsers', method: 'GET', path: '/users', confidence: 'medium' },
+            { name: 'addUser', method: 'POST', path: '/users' },
+          ],
+        },
+      ];
+
+      const merged = mergeOpenApiEndpoints(apis, parseOpenApiSpec(openApi, 'openapi.json'));
+
+      expect(merged).toHaveLength(2);
+      expect(merged[0].endpoints[0]).toMatchObject({
+        name: 'getUsers',
+        path: '/users',
+        confidence: 'medium',
+        params: { page: 'integer' },
+      });
+      expect(merged[0].endpoints[1].name).toBe('addUser');
+      expect(merged[0].endpoints[1].requestBody?.required).toEqual(['name', 'role']);
+      expect(merged[1]).toEqual({
+        filePath: 'openapi.json',
+        endpoints: [expect.objectContaining({ method: 'DELETE', path: '/api/users/:userId' })],
+      });
+    });
+
+    it('should leave the APIs unchanged when nothing is documented', () => {
+      const apis: ExtractedApi[] = [
+        { filePath: 'a.ts', endpoints: [{ name: 'getLogs', method: 'GET', path: '/logs' }] },
+      ];
+
+      expect(mergeOpenApiEndpoints(apis, parseOpenApiSpec(openApi))).toEqual(apis);
+    });
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * OpenAPI Parser
+ * Reads the endpoints of an OpenAPI 3 / Swagger 2 JSON document, with their parameters,
+ * request body and response schemas, and merges them into the APIs extracted from
+ * frontend call sites.
+ * @see Requirements 2.2, 19.1
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ApiEndpoint, ApiSchema, ExtractedApi } from '@smart-test-agent/shared';
+
+/** Endpoints parsed from the OpenAPI document, written under inputs/ of the run workspace */
+export const OPENAPI_ENDPOINTS_FILENAME = 'openapi-endpoints.json';
+
+/** Deepest nesting kept in converted schemas */
+const MAX_SCHEMA_DEPTH = 4;
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch'] as const;
+
+const SCHEMA_TYPES = new Set(['object', 'array', 'string', 'number', 'integer', 'boolean']);
+
+type JsonObject = Record<string, any>;
+
+/**
+ * Resolves a local $ref such as #/components/schemas/User
+ */
+function resolveRef(spec: JsonObject, node: unknown): JsonObject | undefined {
+  let current = node as JsonObject | undefined;
+  const seen = new Set<string>();
+  while (current && typeof current.$ref === 'string') {
+    const ref: string = current.$ref;
+    if (!ref.startsWith('#/') || seen.has(ref)) {
+      return undefined;
+    }
+    seen.add(ref);
+    current = ref
+      .slice(2)
+      .split('/')
+      .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<JsonObject | undefined>((value, part) => value?.[part], spec);
+  }
+  return current && typeof current === 'object' ? current : undefined;
+}
+
+/**
+ * Converts a JSON schema to an ApiSchema
+ * allOf members are merged; the first oneOf / anyOf member stands for the union.
+ */
+function toApiSchema(spec: JsonObject, node: unknown, depth = 0): ApiSchema | undefined {
+  const schema = resolveRef(spec, node);
+  if (!schema || depth > MAX_SCHEMA_DEPTH) {
+    return undefined;
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf
+      .map((part: unknown) => toApiSchema(spec, part, depth))
+      .filter((part: ApiSchema | undefined): part is ApiSchema => part !== undefined);
+    const merged: ApiSchema = { type: 'object', properties: {}, required: [] };
+    for (const part of parts) {
+      Object.assign(merged.properties!, part.properties);
+      merged.required!.push(...(part.required ?? []));
+    }
+    const own = toApiSchema(spec, { ...schema, allOf: undefined }, depth);
+    Object.assign(merged.properties!, own?.properties);
+    merged.required!.push(...(own?.required ?? []));
+    if (merged.required!.length === 0) delete merged.required;
+    return merged;
+  }
+
+  const union = schema.oneOf ?? schema.anyOf;
+  if (Array.isArray(union) && union.length > 0) {
+    return toApiSchema(spec, union.find((member: JsonObject) => member?.type !== 'null') ?? union[0], depth);
+  }
+
+  const result: ApiSchema = {};
+  // OpenAPI 3.1 allows a type list such as ['string', 'null']
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+  if (SCHEMA_TYPES.has(type)) {
+    result.type = type;
+  } else if (schema.properties) {
+    result.type = 'object';
+  }
+
+  if (schema.properties && typeof schema.properties === 'object') {
+    result.properties = {};
+    for (const [name, property] of Object.entries(schema.properties)) {
+      result.properties[name] = toApiSchema(spec, property, depth + 1) ?? {};
+    }
+  }
+  if (Array.isArray(schema.required) && schema.required.length > 0) {
+    result.required = schema.required.filter((name: unknown) => typeof name === 'string');
+  }
+  if (schema.items) {
+    result.items = toApiSchema(spec, schema.items, depth + 1);
+  }
+  if (Array.isArray(schema.enum)) {
+    result.enum = schema.enum.filter(
+      (value: unknown): value is string | number | boolean => ['string', 'number', 'boolean'].includes(typeof value)
+    );
+  }
+  if (typeof schema.format === 'string') {
+    result.format = schema.format;
+  }
+  const example = schema.example ?? schema.default;
+  if (example !== undefined) {
+    result.example = example;
+  }
+
+  return result;
+}
+
+/**
+ * Picks the JSON schema of a request body or response content map
+ */
+function getJsonContentSchema(content: unknown): unknown {
+  if (!content || typeof content !== 'object') {
+    return undefined;
+  }
+  const entries = Object.entries(content as JsonObject);
+  const json = entries.find(([type]) => /json/i.test(type)) ?? entries[0];
+  return json?.[1]?.schema;
+}
+
+/**
+ * Gets the path prefix of the API: servers[0].url (OpenAPI 3) or basePath (Swagger 2)
+ */
+function getBasePath(spec: JsonObject): string {
+  const base: string = spec.swagger ? (spec.basePath ?? '') : (spec.servers?.[0]?.url ?? '');
+  const pathname = base.replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, '').replace(/^\/+|\/+$/g, '');
+  return pathname ? `/${pathname}` : '';
+}
+
+/**
+ * Converts the parameters of an operation
+ * Path and query parameters go to params; Swagger 2 body / formData parameters form the request body.
+ */
+function convertParameters(
+  spec: JsonObject,
+  parameters: unknown[]
+): { params?: Record<string, string>; requestBody?: ApiSchema } {
+  const params: Record<string, string> = {};
+  let requestBody: ApiSchema | undefined;
+
+  for (const parameter of parameters.map((p) => resolveRef(spec, p)).filter(Boolean) as JsonObject[]) {
+    if (parameter.in === 'path' || parameter.in === 'query') {
+      const schema = toApiSchema(spec, parameter.schema ?? parameter);
+      params[parameter.name] = schema?.type ?? 'string';
+    } else if (parameter.in === 'body') {
+      requestBody = toApiSchema(spec, parameter.schema);
+    } else if (parameter.in === 'formData') {
+      requestBody ??= { type: 'object', properties: {} };
+      requestBody.properties![parameter.name] = toApiSchema(spec, parameter) ?? {};
+      if (parameter.required) {
+        requestBody.required = [...(requestBody.required ?? []), parameter.name];
+      }
+    }
+  }
+
+  return { params: Object.keys(params).length > 0 ? params : undefined, requestBody };
+}
+
+/**
+ * Gets the schema of the first success response
+ */
+function getSuccessResponse(spec: JsonObject, responses: unknown, swagger: boolean): ApiSchema | undefined {
+  if (!responses || typeof responses !== 'object') {
+    return undefined;
+  }
+  const status = Object.keys(responses).sort().find((code) => /^2(\d\d|XX)$/i.test(code));
+  const response = status ? resolveRef(spec, (responses as JsonObject)[status]) : undefined;
+  if (!response) {
+    return undefined;
+  }
+  return toApiSchema(spec, swagger ? response.schema : getJsonContentSchema(response.content));
+}
+
+/**
+ * Parses the endpoints of an OpenAPI 3 / Swagger 2 document
+ * Paths are prefixed with the server base path and use :name for path parameters.
+ * @param spec Parsed JSON document
+ * @param filePath Path of the document
+ * @returns Endpoints declared in the document
+ * @throws Error if the document is not an OpenAPI or Swagger document
+ * @see Requirements 2.2, 19.1
+ */
+export function parseOpenApiSpec(spec: unknown, filePath: string = 'openapi.json'): ExtractedApi {
+  const document = spec as JsonObject | null;
+  if (!document || typeof document !== 'object' || (!document.openapi && !document.swagger)) {
+    throw new Error(`Not an OpenAPI or Swagger document: ${filePath}`);
+  }
+
+  const swagger = Boolean(document.swagger);
+  const basePath = getBasePath(document);
+  const endpoints: ApiEndpoint[] = [];
+
+  for (const [specPath, pathItem] of Object.entries<JsonObject>(document.paths ?? {})) {
+    const item = resolveRef(document, pathItem);
+    if (!item) continue;
+
+    for (const method of HTTP_METHODS) {
+      const operation = item[method] as JsonObject | undefined;
+      if (!operation) continue;
+
+      const path = `${basePath}${specPath}`.replace(/\{([^}]+)\}/g, ':$1');
+      const { params, requestBody: bodyParameter } = convertParameters(document, [
+        ...(item.parameters ?? []),
+        ...(operation.parameters ?? []),
+      ]);
+      const requestBody = swagger
+        ? bodyParameter
+        : toApiSchema(document, getJsonContentSchema(resolveRef(document, operation.requestBody)?.content));
+      const response = getSuccessResponse(document, operation.responses, swagger);
+
+      endpoints.push({
+        name: operation.operationId ?? `${method.toUpperCase()} ${path}`,
+        method: method.toUpperCase() as ApiEndpoint['method'],
+        path,
+        ...(params && { params }),
+        confidence: 'high',
+        ...(requestBody && { requestBody }),
+        ...(response && { response }),
+      });
+    }
+  }
+
+  return { filePath, endpoints };
+}
+
+/**
+ * Reads and parses an OpenAPI 3 / Swagger 2 JSON file
+ * @param filePath Path of the document
+ * @throws Error if the file is not JSON or not an OpenAPI document
+ * @see Requirements 2.2, 19.1
+ */
+export async function parseOpenApiFile(filePath: string): Promise<ExtractedApi> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  let spec: unknown;
+  try {
+    spec = JSON.parse(content);
+  } catch {
+    throw new Error(`OpenAPI document must be JSON: ${filePath}`);
+  }
+  return parseOpenApiSpec(spec, filePath);
+}
+
+/**
+ * Load the OpenAPI endpoints written to inputs/ at initialization
+ * @returns No endpoints if the run has none (no OpenAPI document configured)
+ */
+export async function loadOpenApiEndpoints(inputsDir: string): Promise<ApiEndpoint[]> {
+  try {
+    const content = await fs.readFile(path.join(inputsDir, OPENAPI_ENDPOINTS_FILENAME), 'utf-8');
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Splits a path into segments, path parameters become '*'
+ */
+function toSegments(path: string): string[] {
+  return path
+    .split('?')[0]
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => (segment.startsWith(':') || segment.startsWith('{') ? '*' : segment));
+}
+
+/**
+ * Whether two endpoint paths address the same route
+ * Frontend calls often omit the base path their client adds, so the shorter path only
+ * has to match the end of the longer one.
+ */
+function pathsMatch(a: string, b: string): boolean {
+  const [shorter, longer] = [toSegments(a), toSegments(b)].sort((x, y) => x.length - y.length);
+  if (shorter.length === 0) {
+    return longer.length === 0;
+  }
+  const tail = longer.slice(longer.length - shorter.length);
+  return shorter.every((segment, index) => segment === '*' || tail[index] === '*' || segment === tail[index]);
+}
+
+/**
+ * Resource an endpoint belongs to: the last static segment before the first path parameter
+ * e.g. users for /api/users, /api/users/:id and /api/users/:id/roles
+ */
+export function getResourceName(path: string): string | undefined {
+  const segments = toSegments(path);
+  const firstParam = segments.indexOf('*');
+  return (firstParam === -1 ? segments : segments.slice(0, firstParam)).pop();
+}
+
+/**
+ * Merges OpenAPI endpoints into the APIs extracted from frontend call sites
+ * Frontend endpoints matching a documented one (same method and path) take its parameters,
+ * request body and response schemas. Documented endpoints of the same resources that the
+ * frontend does not call (e.g. the create and delete endpoints used for data preparation)
+ * are added as a separate API entry for the document.
+ * @param apis APIs extracted from frontend call sites
+ * @param spec Endpoints parsed from the OpenAPI document
+ * @returns The enriched APIs
+ * @see Requirements 2.2, 19.1
+ */
+export function mergeOpenApiEndpoints(apis: ExtractedApi[], spec: ExtractedApi): ExtractedApi[] {
+  const matched = new Set<ApiEndpoint>();
+  const resources = new Set<string>();
+
+  const merged = apis.map((api) => ({
+    ...api,
+    endpoints: api.endpoints.map((endpoint) => {
+      const resource = getResourceName(endpoint.path);
+      if (resource) resources.add(resource);
+
+      const documented = spec.endpoints.find(
+        (candidate) => candidate.method === endpoint.method && pathsMatch(candidate.path, endpoint.path)
+      );
+      if (!documented) {
+        return endpoint;
+      }
+      matched.add(documented);
+      return {
+        ...endpoint,
+        params: endpoint.params ?? documented.params,
+        ...(documented.requestBody && { requestBody: documented.requestBody }),
+        ...(documented.response && { response: documented.response }),
+      };
+    }),
+  }));
+
+  const related = spec.endpoints.filter(
+    (endpoint) => !matched.has(endpoint) && resources.has(getResourceName(endpoint.path) ?? '')
+  );
+  if (related.length > 0) {
+    merged.push({ filePath: spec.filePath, endpoints: related });
+  }
+
+  return merged;
+}
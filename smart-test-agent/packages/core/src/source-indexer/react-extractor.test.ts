@@ -262,5 +262,105 @@ function SimpleComponent() {
 
       expect(result.jsxContent).toContain('<span>Simple</span>');
     });
+
+    it('should extract the final render of the default exported component', () => {
+      const content = `
+import React, { memo } from 'react';
+import type { Order } from '@/api/types';
+import { listOrders } from '@/api/orders';
+
+const OrderRow = ({ order }: { order: Order }) => <tr><td>{order.id}</td></tr>;
+
+const OrderTable = memo(({ orders, loading }: Props) => {
+  if (loading) {
+    return <Spin />;
+  }
+
+  const renderEmpty = () => {
+    return <Empty description="暂无订单" />;
+  };
+
+  return (
+    <Table<Order> dataSource={orders} locale={{ emptyText: renderEmpty() }}>
+      {orders.map((order) => <OrderRow key={order.id} order={order} />)}
+    </Table>
+  );
+});
+
+export default OrderTable;
+`;
+      const result = extractReactComponentFromContent(content);
+
+      expect(result.jsxContent).toMatch(/^<Table<Order> dataSource=\{orders\}/);
+      expect(result.apiImports).toEqual(['@/api/orders']);
+      expect(result.confidence).toBe('high');
+    });
+
+    it('should extract the render method of class components', () => {
+      const lines = Array(600).fill('        <li>Line</li>').join('\n');
+      const content = `
+import React from 'react';
+
+export default class Settings extends React.Component<Props, State> {
+  state = { saving: false };
+
+  render() {
+    return (
+      <ul>
+${lines}
+      </ul>
+    );
+  }
+}
+`;
+      const result = extractReactComponentFromContent(content);
+
+      expect(result.truncated).toBe(true);
+      expect(result.jsxContent).toMatch(/^<ul>/);
+      expect(result.hooksContent).toBe('class Settings extends React.Component<Props, State>\n');
+    });
+
+    it('should summarize multi-line hook calls', () => {
+      const content = `
+import { useRequest } from 'ahooks';
+import { getUser } from '@/services/user';
+
+export default function Profile({ id }) {
+  const { data, loading } = useRequest(() => getUser(id), {
+    refreshDeps: [id],
+  });
+  React.useLayoutEffect(() => {
+    document.title = data?.name;
+  });
+
+  return <div>{data?.name}</div>;
+}
+`;
+      const result = extractReactComponentFromContent(content);
+
+      expect(result.hooksContent).toBe(
+        'const { data, loading } = useRequest(...)\nReact.useLayoutEffect(() => { ... })'
+      );
+      expect(result.apiImports).toEqual(['@/services/user']);
+    });
+
+    it('should lower confidence for source with syntax errors', () => {
+      const content = `
+function Broken() {
+  return (
+    <div>{</div>
+  );
+}
+`;
+      const result = extractReactComponentFromContent(content);
+
+      expect(result.jsxContent).toBe('<div>{</div>');
+      expect(result.confidence).toBe('medium');
+
+      // JSX in a .ts file cannot be parsed, text patterns are used instead
+      const fallback = extractReactComponentFromContent(content, 'Broken.ts');
+      expect(fallback.jsxContent).toBe('<div>{</div>');
+      expect(fallback.confidence).toBe('low');
+    });
   });
 });
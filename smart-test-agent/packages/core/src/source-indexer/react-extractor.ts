@@ -1,19 +1,197 @@
 /**
  * React Component Extractor
- * Extracts JSX and hooks from React component files
+ * Extracts JSX and hooks from React component files.
+ * Components are located in the syntax tree: function and arrow components,
+ * memo() / forwardRef() wrapped components and class components.
  * @see Requirements 2.2, 2.4, 2.6, 2.8
  */
 
 import * as fs from 'fs/promises';
-import type { ExtractedComponent } from '@smart-test-agent/shared';
+import ts from 'typescript';
+import type { ExtractedComponent, ExtractionConfidence } from '@smart-test-agent/shared';
+import {
+  collectImports,
+  getCalleeName,
+  hasParseErrors,
+  isApiModule,
+  isFunctionNode,
+  parseSource,
+  unwrapExpression,
+  type FunctionNode,
+} from './ast-parser.js';
 
 /** Maximum lines before truncation */
 const MAX_LINES = 500;
 
+/** Longest hook call kept verbatim */
+const MAX_HOOK_LENGTH = 120;
+
+/** Effect hooks, summarized as their dependency arrays */
+const EFFECT_HOOKS = new Set(['useEffect', 'useLayoutEffect', 'useInsertionEffect']);
+
+/** Hooks whose callbacks are left out */
+const MEMO_HOOKS = new Set(['useMemo', 'useCallback']);
+
+/** Functions wrapping components: memo(Component), forwardRef((props, ref) => ...) */
+const COMPONENT_WRAPPERS = new Set(['memo', 'forwardRef', 'observer']);
+
+/**
+ * A component located in the file
+ */
+interface ComponentInfo {
+  /** Component name, undefined for anonymous default exports */
+  name?: string;
+  /** Component function, or the render() method of a class component */
+  fn: FunctionNode;
+  /** Class declaration of a class component */
+  classNode?: ts.ClassDeclaration;
+  /** Whether it is the default export */
+  isDefault: boolean;
+}
+
+/**
+ * Whether an expression renders JSX
+ */
+function containsJsx(node: ts.Node): boolean {
+  if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+    return true;
+  }
+  return ts.forEachChild(node, containsJsx) === true;
+}
+
+/**
+ * Gets the component function of an initializer, unwrapping memo() / forwardRef()
+ */
+function getComponentFunction(expression: ts.Expression | undefined): FunctionNode | undefined {
+  if (!expression) return undefined;
+  const node = unwrapExpression(expression);
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+    return node;
+  }
+  if (ts.isCallExpression(node) && COMPONENT_WRAPPERS.has(getCalleeName(node) ?? '')) {
+    return getComponentFunction(node.arguments[0]);
+  }
+  return undefined;
+}
+
+/**
+ * Whether a statement is exported as default
+ */
+function isDefaultExport(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword)
+  );
+}
+
+/**
+ * Finds the components declared at the top level of a file
+ */
+function findComponents(sourceFile: ts.SourceFile): ComponentInfo[] {
+  const components: ComponentInfo[] = [];
+  let defaultName: string | undefined;
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.body) {
+      const name = statement.name?.text;
+      if (isDefaultExport(statement) || /^[A-Z]/.test(name ?? '')) {
+        components.push({ name, fn: statement, isDefault: isDefaultExport(statement) });
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const fn = getComponentFunction(declaration.initializer);
+        if (fn && ts.isIdentifier(declaration.name) && /^[A-Z]/.test(declaration.name.text)) {
+          components.push({ name: declaration.name.text, fn, isDefault: false });
+        }
+      }
+    } else if (ts.isClassDeclaration(statement)) {
+      const render = statement.members.find(
+        (member): member is ts.MethodDeclaration =>
+          ts.isMethodDeclaration(member) && ts.isIdentifier(member.name) && member.name.text === 'render'
+      );
+      if (render) {
+        components.push({
+          name: statement.name?.text,
+          fn: render,
+          classNode: statement,
+          isDefault: isDefaultExport(statement),
+        });
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      const expression = unwrapExpression(statement.expression);
+      const fn = getComponentFunction(expression);
+      if (fn) {
+        components.push({ fn, isDefault: true });
+      } else if (ts.isIdentifier(expression)) {
+        defaultName = expression.text;
+      } else if (ts.isCallExpression(expression) && expression.arguments[0] && ts.isIdentifier(expression.arguments[0])) {
+        // export default memo(Component)
+        defaultName = expression.arguments[0].text;
+      }
+    }
+  }
+
+  for (const component of components) {
+    if (defaultName && component.name === defaultName) {
+      component.isDefault = true;
+    }
+  }
+  return components;
+}
+
+/**
+ * Finds the JSX a component function renders
+ * The last top-level return wins over early returns such as loading states.
+ */
+function findJsxReturn(fn: FunctionNode): ts.Expression | undefined {
+  if (!fn.body) return undefined;
+  if (!ts.isBlock(fn.body)) {
+    return containsJsx(fn.body) ? fn.body : undefined;
+  }
+
+  const returns: ts.ReturnStatement[] = [];
+  const visit = (node: ts.Node): void => {
+    if (isFunctionNode(node)) return;
+    if (ts.isReturnStatement(node) && node.expression && containsJsx(node.expression)) {
+      returns.push(node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  fn.body.statements.forEach(visit);
+
+  const topLevel = returns.filter((statement) => statement.parent === fn.body);
+  return (topLevel[topLevel.length - 1] ?? returns[returns.length - 1])?.expression;
+}
+
+/**
+ * Finds the first return of JSX anywhere in the file, for files without a recognizable component
+ */
+function findAnyJsxReturn(sourceFile: ts.SourceFile): ts.Expression | undefined {
+  const visit = (node: ts.Node): ts.Expression | undefined => {
+    if (ts.isReturnStatement(node) && node.expression && containsJsx(node.expression)) {
+      return node.expression;
+    }
+    return ts.forEachChild(node, visit);
+  };
+  return visit(sourceFile);
+}
+
 /**
- * Extracts the JSX return statement from component content
+ * Gets the text of JSX without surrounding parentheses
  */
-function extractJsxReturn(content: string): string | null {
+function getJsxText(expression: ts.Expression): string {
+  let node = expression;
+  while (ts.isParenthesizedExpression(node)) {
+    node = node.expression;
+  }
+  return node.getText().trim();
+}
+
+/**
+ * Extracts the JSX return statement with text patterns
+ * Fallback for source the parser cannot make a component of.
+ */
+function extractJsxReturnByPattern(content: string): string | null {
   // Pattern 1: return ( ... ) with JSX
   const returnParenMatch = content.match(
     /return\s*\(\s*([\s\S]*?)\s*\)\s*;?\s*(?=\n\s*\}|$)/
@@ -34,163 +212,92 @@ function extractJsxReturn(content: string): string | null {
 }
 
 /**
- * Extracts useState hooks from component content
+ * Keeps a hook call verbatim when short, otherwise abbreviates its arguments
  */
-function extractUseStateHooks(content: string): string[] {
-  const hooks: string[] = [];
-
-  // Match useState declarations
-  // Pattern: const [state, setState] = useState(initialValue)
-  const useStateRegex =
-    /const\s+\[(\w+),\s*(\w+)\]\s*=\s*useState(?:<[^>]+>)?\s*\([^)]*\)/g;
-
-  let match;
-  while ((match = useStateRegex.exec(content)) !== null) {
-    hooks.push(match[0]);
+function summarizeHookCall(call: ts.CallExpression): string {
+  const text = call.getText();
+  if (!text.includes('\n') && text.length <= MAX_HOOK_LENGTH) {
+    return text;
   }
-
-  return hooks;
+  const sourceText = call.getSourceFile().text;
+  return `${sourceText.slice(call.getStart(), call.arguments.pos).replace(/\($/, '').trimEnd()}(...)`;
 }
 
 /**
- * Extracts useEffect hooks from component content
+ * Formats a hook call:
+ * - const [count, setCount] = useState(0)
+ * - const total = useMemo(...)
+ * - useEffect(() => { ... }, [deps])
  */
-function extractUseEffectHooks(content: string): string[] {
-  const hooks: string[] = [];
-
-  // Match useEffect declarations (first line + deps array)
-  const useEffectRegex = /useEffect\s*\(\s*(?:async\s*)?\(\)\s*=>\s*\{/g;
-
-  let match;
-  while ((match = useEffectRegex.exec(content)) !== null) {
-    // Find the corresponding closing and deps array
-    const startIndex = match.index;
-    let braceCount = 1;
-    let i = startIndex + match[0].length;
-
-    while (i < content.length && braceCount > 0) {
-      if (content[i] === '{') braceCount++;
-      if (content[i] === '}') braceCount--;
-      i++;
-    }
-
-    // Find deps array
-    const afterEffect = content.slice(i);
-    const depsMatch = afterEffect.match(/^\s*,\s*\[([^\]]*)\]\s*\)/);
-
-    if (depsMatch) {
-      hooks.push(`useEffect(() => { ... }, [${depsMatch[1]}])`);
-    } else {
-      hooks.push('useEffect(() => { ... })');
+function formatHook(call: ts.CallExpression, declaration?: ts.VariableDeclaration): string {
+  const hookName = getCalleeName(call) ?? '';
+  const calleeText = call.expression.getText();
+
+  if (!declaration) {
+    if (EFFECT_HOOKS.has(hookName)) {
+      const deps = call.arguments[1];
+      return deps && ts.isArrayLiteralExpression(deps)
+        ? `${calleeText}(() => { ... }, [${deps.elements.map((e) => e.getText()).join(', ')}])`
+        : `${calleeText}(() => { ... })`;
     }
+    return summarizeHookCall(call);
   }
 
-  return hooks;
+  const kind = ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const ? 'const' : 'let';
+  const binding = `${kind} ${declaration.name.getText()} =`;
+  return MEMO_HOOKS.has(hookName)
+    ? `${binding} ${calleeText}(...)`
+    : `${binding} ${summarizeHookCall(call)}`;
 }
 
 /**
- * Extracts other common hooks (useMemo, useCallback, useRef, etc.)
+ * Extracts hook calls of the file in source order
  */
-function extractOtherHooks(content: string): string[] {
+function extractHooks(sourceFile: ts.SourceFile): string[] {
   const hooks: string[] = [];
-
-  // useMemo
-  const useMemoRegex = /const\s+(\w+)\s*=\s*useMemo\s*\(/g;
-  let match;
-  while ((match = useMemoRegex.exec(content)) !== null) {
-    hooks.push(`const ${match[1]} = useMemo(...)`);
-  }
-
-  // useCallback
-  const useCallbackRegex = /const\s+(\w+)\s*=\s*useCallback\s*\(/g;
-  while ((match = useCallbackRegex.exec(content)) !== null) {
-    hooks.push(`const ${match[1]} = useCallback(...)`);
-  }
-
-  // useRef
-  const useRefRegex = /const\s+(\w+)\s*=\s*useRef(?:<[^>]+>)?\s*\([^)]*\)/g;
-  while ((match = useRefRegex.exec(content)) !== null) {
-    hooks.push(match[0]);
-  }
-
-  // useContext
-  const useContextRegex = /const\s+(\w+)\s*=\s*useContext\s*\([^)]+\)/g;
-  while ((match = useContextRegex.exec(content)) !== null) {
-    hooks.push(match[0]);
-  }
-
-  // Custom hooks (use* pattern)
-  const customHookRegex =
-    /const\s+(?:\{[^}]+\}|\w+)\s*=\s*use[A-Z]\w*\s*\([^)]*\)/g;
-  while ((match = customHookRegex.exec(content)) !== null) {
-    // Avoid duplicates with built-in hooks
-    if (
-      !match[0].includes('useState') &&
-      !match[0].includes('useEffect') &&
-      !match[0].includes('useMemo') &&
-      !match[0].includes('useCallback') &&
-      !match[0].includes('useRef') &&
-      !match[0].includes('useContext')
-    ) {
-      hooks.push(match[0]);
+  const isHookCall = (node: ts.Node | undefined): node is ts.CallExpression =>
+    !!node && ts.isCallExpression(node) && /^use[A-Z]/.test(getCalleeName(node) ?? '');
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      const initializer = unwrapExpression(node.initializer);
+      if (isHookCall(initializer)) {
+        hooks.push(formatHook(initializer, node));
+      }
+    } else if (ts.isExpressionStatement(node) && isHookCall(node.expression)) {
+      hooks.push(formatHook(node.expression));
     }
-  }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
 
   return hooks;
 }
 
 /**
- * Extracts component function signature
+ * Extracts the component signature: function Name(props), const Name = (props) =>, class Name extends ...
  */
-function extractComponentSignature(content: string): string | null {
-  // Pattern 1: function ComponentName(props) { or function ComponentName({ prop1, prop2 }) {
-  const functionMatch = content.match(
-    /(?:export\s+(?:default\s+)?)?function\s+(\w+)\s*\(([^)]*)\)\s*(?::\s*[^{]+)?\s*\{/
-  );
-  if (functionMatch) {
-    const name = functionMatch[1];
-    const params = functionMatch[2].trim();
-    return `function ${name}(${params})`;
+function getComponentSignature(component: ComponentInfo): string {
+  if (component.classNode) {
+    const heritage = component.classNode.heritageClauses?.map((clause) => clause.getText()).join(' ');
+    return `class ${component.name ?? ''}${heritage ? ` ${heritage}` : ''}`;
   }
 
-  // Pattern 2: const ComponentName = (props) => { or const ComponentName: FC = (props) => {
-  const arrowMatch = content.match(
-    /(?:export\s+(?:default\s+)?)?const\s+(\w+)(?:\s*:\s*[^=]+)?\s*=\s*(?:memo\s*\()?\s*\(([^)]*)\)\s*(?::\s*[^=]+)?\s*=>/
-  );
-  if (arrowMatch) {
-    const name = arrowMatch[1];
-    const params = arrowMatch[2].trim();
-    return `const ${name} = (${params}) =>`;
-  }
-
-  // Pattern 3: export default function(props) { (anonymous)
-  const anonFunctionMatch = content.match(
-    /export\s+default\s+function\s*\(([^)]*)\)\s*(?::\s*[^{]+)?\s*\{/
-  );
-  if (anonFunctionMatch) {
-    const params = anonFunctionMatch[1].trim();
-    return `export default function(${params})`;
+  const params = component.fn.parameters.map((parameter) => parameter.getText()).join(', ');
+  if (ts.isFunctionDeclaration(component.fn)) {
+    return component.name ? `function ${component.name}(${params})` : `export default function(${params})`;
   }
-
-  return null;
+  return component.name ? `const ${component.name} = (${params}) =>` : `export default (${params}) =>`;
 }
 
 /**
- * Extracts API imports from component content
+ * Extracts API imports from a file
  * @see Requirements 2.2
  */
-function extractApiImports(content: string): string[] {
-  const apiImports: string[] = [];
-
-  // Match import statements that look like API imports
-  const importRegex =
-    /import\s+(?:\{[^}]+\}|\*\s+as\s+\w+|\w+)\s+from\s+['"]([^'"]*(?:api|service|request)[^'"]*)['"]/gi;
-
-  let match;
-  while ((match = importRegex.exec(content)) !== null) {
-    apiImports.push(match[1]);
-  }
-
+function extractApiImports(sourceFile: ts.SourceFile): string[] {
+  const apiImports = collectImports(sourceFile)
+    .filter((imported) => !imported.typeOnly && isApiModule(imported.specifier))
+    .map((imported) => imported.specifier);
   return [...new Set(apiImports)];
 }
 
@@ -227,41 +334,31 @@ export function extractReactComponentFromContent(
 ): ExtractedComponent {
   const lineCount = countLines(content);
   const truncated = lineCount > MAX_LINES;
-  const apiImports = extractApiImports(content);
-
-  let jsxContent: string | undefined;
-  let hooksContent: string | undefined;
 
-  if (truncated) {
-    // For large files, extract only essential parts
-    // @see Requirements 2.8
-    const signature = extractComponentSignature(content);
-    const useStateHooks = extractUseStateHooks(content);
-    const useEffectHooks = extractUseEffectHooks(content);
-    const otherHooks = extractOtherHooks(content);
-    const jsx = extractJsxReturn(content);
-
-    const allHooks = [...useStateHooks, ...useEffectHooks, ...otherHooks];
-    hooksContent = allHooks.length > 0 ? allHooks.join('\n') : undefined;
-
-    // Include signature with hooks
-    if (signature) {
-      hooksContent = signature + '\n' + (hooksContent || '');
-    }
-
-    jsxContent = jsx || undefined;
-  } else {
-    // For small files, include full content
-    jsxContent = extractJsxReturn(content) || undefined;
+  const sourceFile = parseSource(content, filePath);
+  const apiImports = extractApiImports(sourceFile);
+
+  // The default export, or the first component rendering JSX
+  const components = findComponents(sourceFile);
+  const rendering = components.filter((component) => findJsxReturn(component.fn));
+  const component =
+    rendering.find((c) => c.isDefault) ?? rendering[0] ?? components.find((c) => c.isDefault) ?? components[0];
+
+  let confidence: ExtractionConfidence = hasParseErrors(sourceFile) ? 'medium' : 'high';
+  const jsx = (component && findJsxReturn(component.fn)) ?? findAnyJsxReturn(sourceFile);
+  let jsxContent = jsx ? getJsxText(jsx) : undefined;
+  if (!jsxContent) {
+    jsxContent = extractJsxReturnByPattern(content) || undefined;
+    if (jsxContent) confidence = 'low';
+  }
 
-    const useStateHooks = extractUseStateHooks(content);
-    const useEffectHooks = extractUseEffectHooks(content);
-    const otherHooks = extractOtherHooks(content);
-    const allHooks = [...useStateHooks, ...useEffectHooks, ...otherHooks];
+  const hooks = extractHooks(sourceFile);
+  let hooksContent = hooks.length > 0 ? hooks.join('\n') : undefined;
 
-    if (allHooks.length > 0) {
-      hooksContent = allHooks.join('\n');
-    }
+  if (truncated && component) {
+    // For large files, keep the component signature with its hooks
+    // @see Requirements 2.8
+    hooksContent = getComponentSignature(component) + '\n' + (hooksContent || '');
   }
 
   return {
@@ -271,5 +368,6 @@ export function extractReactComponentFromContent(
     hooksContent,
     apiImports,
     truncated,
+    confidence,
   };
 }
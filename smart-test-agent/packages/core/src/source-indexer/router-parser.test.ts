@@ -3,12 +3,18 @@
  * @see Requirements 2.1, 2.9
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
 import {
   detectFrameworkType,
   resolveAliasPath,
   findComponentForRoute,
   flattenRoutes,
+  parseAngularRoutes,
+  parseSvelteKitRoutes,
+  parseRouterFile,
 } from './router-parser.js';
 import type { RouteMapping } from '@smart-test-agent/shared';
 
@@ -100,6 +106,143 @@ describe('Router Parser', () => {
       `;
       expect(detectFrameworkType(content)).toBe('vue');
     });
+
+    it('should detect Angular Router from Routes arrays', () => {
+      const content = `
+        import { Routes } from '@angular/router';
+        import { HomeComponent } from './home/home.component';
+
+        export const routes: Routes = [
+          { path: '', component: HomeComponent },
+          { path: 'admin', loadChildren: () => import('./admin/admin.routes').then(m => m.ADMIN_ROUTES) },
+        ];
+      `;
+      expect(detectFrameworkType(content)).toBe('angular');
+    });
+
+    it('should detect SvelteKit from kit imports', () => {
+      const content = `
+        import type { Handle } from '@sveltejs/kit';
+        import { dev } from '$app/environment';
+      `;
+      expect(detectFrameworkType(content)).toBe('svelte');
+    });
+  });
+
+  describe('parseAngularRoutes', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'angular-routes-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should resolve components through imports and nest children', async () => {
+      const content = `
+        import { Routes } from '@angular/router';
+        import { UsersComponent } from './users/users.component';
+        import { UserDetailComponent as DetailComponent } from './users/user-detail.component';
+
+        export const routes: Routes = [
+          { path: '', redirectTo: 'users', pathMatch: 'full' },
+          {
+            path: 'users',
+            component: UsersComponent,
+            data: { title: 'Users' },
+            children: [{ path: ':id', component: DetailComponent }],
+          },
+          { path: 'reports', loadComponent: () => import('./reports/reports.component').then(m => m.ReportsComponent) },
+          { path: '**', component: NotFoundComponent },
+        ];
+      `;
+
+      const routes = await parseAngularRoutes(content, path.join(tempDir, 'app.routes.ts'));
+
+      expect(routes).toEqual([
+        { path: '/users', componentPath: path.join(tempDir, 'users/users.component.ts') },
+        { path: '/users/:id', componentPath: path.join(tempDir, 'users/user-detail.component.ts') },
+        { path: '/reports', componentPath: path.join(tempDir, 'reports/reports.component.ts') },
+        { path: '/**', componentPath: '$ref:NotFoundComponent' },
+      ]);
+    });
+
+    it('should follow loadChildren into lazy route files', async () => {
+      await fs.mkdir(path.join(tempDir, 'admin'));
+      await fs.writeFile(
+        path.join(tempDir, 'admin', 'admin.routes.ts'),
+        `
+          import { Routes } from '@angular/router';
+          import { AuditLogComponent } from './audit-log.component';
+
+          export const ADMIN_ROUTES: Routes = [{ path: 'audit', component: AuditLogComponent }];
+        `
+      );
+      const content = `
+        import { NgModule } from '@angular/core';
+        import { RouterModule } from '@angular/router';
+
+        @NgModule({
+          imports: [
+            RouterModule.forRoot([
+              { path: 'admin', loadChildren: () => import('./admin/admin.routes').then(m => m.ADMIN_ROUTES) },
+              { path: 'legacy', loadChildren: './missing/legacy.module#LegacyModule' },
+            ]),
+          ],
+        })
+        export class AppRoutingModule {}
+      `;
+
+      const routes = await parseAngularRoutes(content, path.join(tempDir, 'app-routing.module.ts'));
+
+      expect(routes).toEqual([
+        { path: '/admin/audit', componentPath: path.join(tempDir, 'admin/audit-log.component.ts') },
+      ]);
+    });
+  });
+
+  describe('parseSvelteKitRoutes', () => {
+    let routesDir: string;
+
+    beforeEach(async () => {
+      routesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sveltekit-routes-'));
+      const pages = ['', '(app)/orders', '(app)/orders/[id]', 'docs/[...slug]', '[[lang]]/about'];
+      for (const page of pages) {
+        await fs.mkdir(path.join(routesDir, page), { recursive: true });
+        await fs.writeFile(path.join(routesDir, page, '+page.svelte'), '<h1>Page</h1>');
+      }
+      await fs.writeFile(path.join(routesDir, '+layout.svelte'), '<slot />');
+      await fs.mkdir(path.join(routesDir, 'api', 'health'), { recursive: true });
+      await fs.writeFile(path.join(routesDir, 'api', 'health', '+server.ts'), 'export const GET = () => new Response();');
+    });
+
+    afterEach(async () => {
+      await fs.rm(routesDir, { recursive: true, force: true });
+    });
+
+    it('should map page directories to route paths', async () => {
+      const routes = await parseSvelteKitRoutes(routesDir);
+
+      expect(routes.map((r) => r.path).sort()).toEqual([
+        '/',
+        '/:lang?/about',
+        '/docs/*',
+        '/orders',
+        '/orders/:id',
+      ]);
+      expect(findComponentForRoute(routes, '/orders/42')).toBe(
+        path.join(routesDir, '(app)/orders/[id]/+page.svelte')
+      );
+    });
+
+    it('should parse a routes directory passed as the router file', async () => {
+      const result = await parseRouterFile(routesDir);
+
+      expect(result.framework).toBe('svelte');
+      expect(result.routes).toHaveLength(5);
+    });
   });
 
   describe('resolveAliasPath', () => {
@@ -1,6 +1,7 @@
 /**
  * Router File Parser
- * Parses vue-router and react-router configuration files to extract route mappings
+ * Parses vue-router, react-router and Angular Router configuration files, and SvelteKit
+ * file-based routes, to extract route mappings
  * @see Requirements 2.1, 2.9
  */
 
@@ -42,10 +43,31 @@ export function detectFrameworkType(content: string): FrameworkType {
     /useRoutes\s*\(/,
   ];
 
-  const vueScore = vueRouterPatterns.filter((p) => p.test(content)).length;
-  const reactScore = reactRouterPatterns.filter((p) => p.test(content)).length;
+  // Angular Router patterns
+  const angularRouterPatterns = [
+    /import\s+.*\s+from\s+['"]@angular\/router['"]/,
+    /:\s*Routes\s*=\s*\[/,
+    /RouterModule\.for(?:Root|Child)\s*\(/,
+    /provideRouter\s*\(/,
+    /load(?:Children|Component)\s*:/,
+  ];
+
+  // SvelteKit patterns (hooks, layouts or svelte.config.js next to file-based routes)
+  const svelteKitPatterns = [
+    /from\s+['"]@sveltejs\/kit/,
+    /from\s+['"]\$app\//,
+    /\.svelte['"]/,
+  ];
 
-  return vueScore >= reactScore ? 'vue' : 'react';
+  const scores: Array<[FrameworkType, number]> = [
+    ['vue', vueRouterPatterns.filter((p) => p.test(content)).length],
+    ['react', reactRouterPatterns.filter((p) => p.test(content)).length],
+    ['angular', angularRouterPatterns.filter((p) => p.test(content)).length],
+    ['svelte', svelteKitPatterns.filter((p) => p.test(content)).length],
+  ];
+
+  // Ties go to the framework listed first, so content without any pattern is Vue
+  return scores.reduce((best, current) => (current[1] > best[1] ? current : best))[0];
 }
 
 /**
@@ -182,6 +204,275 @@ function extractComponentPathFromJsx(elementStr: string): string | null {
   return null;
 }
 
+/** How deep Angular loadChildren route files are followed */
+const MAX_LAZY_ROUTE_DEPTH = 5;
+
+/** SvelteKit page files: +page.svelte, or +page@layout.svelte for layout resets */
+const SVELTEKIT_PAGE_FILE = /^\+page(?:@[^.]*)?\.svelte$/;
+
+/**
+ * Finds the index of the bracket closing the one at openIndex, skipping string literals
+ * @returns The closing index, or -1 if the bracket is never closed
+ */
+function findClosingBracket(content: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < content.length; i++) {
+    const char = content[i];
+    if (char === "'" || char === '"' || char === '`') {
+      // Skip to the end of the string literal
+      i++;
+      while (i < content.length && content[i] !== char) {
+        if (content[i] === '\\') i++;
+        i++;
+      }
+    } else if (char === '{' || char === '[' || char === '(') {
+      depth++;
+    } else if (char === '}' || char === ']' || char === ')') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Splits the top-level object literals out of an array literal
+ */
+function splitTopLevelObjects(arrayContent: string): string[] {
+  const objects: string[] = [];
+  for (let i = 1; i < arrayContent.length - 1; i++) {
+    if (arrayContent[i] === '{') {
+      const end = findClosingBracket(arrayContent, i);
+      if (end === -1) break;
+      objects.push(arrayContent.slice(i, end + 1));
+      i = end;
+    }
+  }
+  return objects;
+}
+
+/**
+ * Blanks out nested objects and arrays of an object literal, keeping its own properties
+ * Offsets are preserved, so matches map back to the original object.
+ */
+function blankNestedLiterals(objectContent: string): string {
+  const chars = objectContent.split('');
+  for (let i = 1; i < chars.length - 1; i++) {
+    if (chars[i] === '{' || chars[i] === '[') {
+      const end = findClosingBracket(objectContent, i);
+      if (end === -1) break;
+      for (let j = i + 1; j < end; j++) {
+        chars[j] = ' ';
+      }
+      i = end;
+    }
+  }
+  return chars.join('');
+}
+
+/**
+ * Maps the names imported by a file to their module paths
+ */
+function parseNamedImports(content: string): Map<string, string> {
+  const imports = new Map<string, string>();
+  const importRegex = /import\s*\{([^}]+)\}\s*from\s*['"]([^'"]+)['"]/g;
+
+  let match;
+  while ((match = importRegex.exec(content)) !== null) {
+    for (const specifier of match[1].split(',')) {
+      // import { A as B } binds B
+      const name = specifier.trim().split(/\s+as\s+/).pop();
+      if (name) {
+        imports.set(name, match[2]);
+      }
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Joins an Angular route path onto its parent path
+ */
+function joinRoutePath(parentPath: string, routePath: string): string {
+  const joined = `/${parentPath}/${routePath}`.replace(/\/+/g, '/');
+  return joined.length > 1 ? joined.replace(/\/$/, '') : joined;
+}
+
+/**
+ * Resolves a module path imported by an Angular file
+ * Relative paths become absolute and the omitted .ts extension is added.
+ */
+function resolveAngularModulePath(modulePath: string, baseDir: string): string {
+  const withExtension = /\.[jt]s$/.test(modulePath) ? modulePath : `${modulePath}.ts`;
+  return withExtension.startsWith('.') ? path.resolve(baseDir, withExtension) : withExtension;
+}
+
+/**
+ * Parses Angular Router configuration
+ * Handles Routes arrays, RouterModule.forRoot/forChild and provideRouter with nested children.
+ * Components referenced by class name are resolved through the file's imports, loadComponent
+ * imports point at the component file, and loadChildren route files are parsed as children.
+ * Returns a flat list with absolute route paths.
+ * @param content Router file content
+ * @param routerPath Path of the router file, used to resolve relative imports
+ * @see Requirements 2.1
+ */
+export async function parseAngularRoutes(
+  content: string,
+  routerPath: string,
+  parentPath: string = '',
+  depth: number = 0
+): Promise<RouteMapping[]> {
+  const arrayMatch = content.match(
+    /(?::\s*Routes\s*=|RouterModule\.for(?:Root|Child)\s*\(|provideRouter\s*\(|export\s+default)\s*\[/
+  );
+  if (!arrayMatch || arrayMatch.index === undefined) {
+    return [];
+  }
+
+  const arrayStart = arrayMatch.index + arrayMatch[0].length - 1;
+  const arrayEnd = findClosingBracket(content, arrayStart);
+  if (arrayEnd === -1) {
+    return [];
+  }
+
+  const context = {
+    imports: parseNamedImports(content),
+    baseDir: path.dirname(routerPath),
+    depth,
+  };
+  return parseAngularRouteArray(content.slice(arrayStart, arrayEnd + 1), parentPath, context);
+}
+
+/**
+ * Parses the route objects of an Angular Routes array literal
+ */
+async function parseAngularRouteArray(
+  arrayContent: string,
+  parentPath: string,
+  context: { imports: Map<string, string>; baseDir: string; depth: number }
+): Promise<RouteMapping[]> {
+  const routes: RouteMapping[] = [];
+
+  for (const routeObject of splitTopLevelObjects(arrayContent)) {
+    const ownProperties = blankNestedLiterals(routeObject);
+    const pathMatch = ownProperties.match(/\bpath\s*:\s*['"`]([^'"`]*)['"`]/);
+    if (!pathMatch) continue;
+    const fullPath = joinRoutePath(parentPath, pathMatch[1]);
+
+    const loadComponentMatch = ownProperties.match(
+      /loadComponent\s*:\s*\(\s*\)\s*=>\s*import\s*\(\s*['"]([^'"]+)['"]/
+    );
+    const componentMatch = ownProperties.match(/\bcomponent\s*:\s*(\w+)/);
+    if (loadComponentMatch) {
+      routes.push({ path: fullPath, componentPath: resolveAngularModulePath(loadComponentMatch[1], context.baseDir) });
+    } else if (componentMatch) {
+      const modulePath = context.imports.get(componentMatch[1]);
+      routes.push({
+        path: fullPath,
+        componentPath: modulePath
+          ? resolveAngularModulePath(modulePath, context.baseDir)
+          : `$ref:${componentMatch[1]}`,
+      });
+    }
+
+    // children: [...]
+    const childrenMatch = ownProperties.match(/\bchildren\s*:\s*\[/);
+    if (childrenMatch && childrenMatch.index !== undefined) {
+      const childrenStart = childrenMatch.index + childrenMatch[0].length - 1;
+      const childrenEnd = findClosingBracket(routeObject, childrenStart);
+      if (childrenEnd !== -1) {
+        routes.push(
+          ...(await parseAngularRouteArray(routeObject.slice(childrenStart, childrenEnd + 1), fullPath, context))
+        );
+      }
+    }
+
+    // loadChildren: () => import('./admin/admin.routes').then(...) or the legacy './admin/admin.module#AdminModule'
+    const loadChildrenMatch =
+      ownProperties.match(/loadChildren\s*:\s*\(\s*\)\s*=>\s*import\s*\(\s*['"]([^'"]+)['"]/) ??
+      ownProperties.match(/loadChildren\s*:\s*['"]([^'"#]+)/);
+    if (loadChildrenMatch && context.depth < MAX_LAZY_ROUTE_DEPTH) {
+      const lazyRouterPath = resolveAngularModulePath(loadChildrenMatch[1], context.baseDir);
+      try {
+        const lazyContent = await fs.readFile(lazyRouterPath, 'utf-8');
+        routes.push(...(await parseAngularRoutes(lazyContent, lazyRouterPath, fullPath, context.depth + 1)));
+      } catch {
+        console.warn(`Could not read lazy routes: ${lazyRouterPath}`);
+      }
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Converts a SvelteKit route directory name to a route path segment
+ * - (group) → null, groups do not appear in the URL
+ * - [id] / [id=matcher] → :id
+ * - [[lang]] → :lang?
+ * - [...rest] → *
+ */
+function svelteKitSegmentToPath(segment: string): string | null {
+  if (/^\(.*\)$/.test(segment)) {
+    return null;
+  }
+  return segment
+    .replace(/\[\[(\w+)(?:=\w+)?\]\]/g, ':$1?')
+    .replace(/\[\.\.\.\w+(?:=\w+)?\]/g, '*')
+    .replace(/\[(\w+)(?:=\w+)?\]/g, ':$1');
+}
+
+/**
+ * Parses SvelteKit file-based routes
+ * Every directory holding a +page.svelte is a route, its path built from the directory names.
+ * @param routesDir The SvelteKit routes directory (usually src/routes)
+ * @see Requirements 2.1
+ */
+export async function parseSvelteKitRoutes(routesDir: string): Promise<RouteMapping[]> {
+  const routes: RouteMapping[] = [];
+
+  async function walk(dir: string, segments: string[]): Promise<void> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    const pageFile = entries.find((entry) => entry.isFile() && SVELTEKIT_PAGE_FILE.test(entry.name));
+    if (pageFile) {
+      routes.push({
+        path: '/' + segments.join('/'),
+        componentPath: path.resolve(dir, pageFile.name),
+      });
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.') || entry.name === 'node_modules') {
+        continue;
+      }
+      const segment = svelteKitSegmentToPath(entry.name);
+      await walk(path.join(dir, entry.name), segment === null ? segments : [...segments, segment]);
+    }
+  }
+
+  await walk(routesDir, []);
+  return routes;
+}
+
+/**
+ * Finds the SvelteKit routes directory from a file detected as SvelteKit
+ * Route files (+layout.svelte, +page.ts) sit in the routes tree; other files such as
+ * svelte.config.js or hooks.server.ts sit next to src/routes.
+ */
+function resolveSvelteKitRoutesDir(routerPath: string): string {
+  const dir = path.dirname(routerPath);
+  if (path.basename(routerPath).startsWith('+')) {
+    return dir;
+  }
+  return path.basename(dir) === 'src' ? path.join(dir, 'routes') : path.join(dir, 'src', 'routes');
+}
+
 /**
  * Parses route objects from content string
  */
@@ -253,19 +544,29 @@ export function resolveAliasPath(
 
 /**
  * Parses a router file and extracts route mappings
- * @param routerPath Path to the router configuration file
+ * A directory is taken as a SvelteKit routes directory.
+ * @param routerPath Path to the router configuration file or SvelteKit routes directory
  * @returns Parsed routes and detected framework type
  * @see Requirements 2.1, 2.9
  */
 export async function parseRouterFile(
   routerPath: string
 ): Promise<RouterParseResult> {
+  const stats = await fs.stat(routerPath);
+  if (stats.isDirectory()) {
+    return { framework: 'svelte', routes: await parseSvelteKitRoutes(routerPath) };
+  }
+
   const content = await fs.readFile(routerPath, 'utf-8');
   const framework = detectFrameworkType(content);
 
   let routes: RouteMapping[];
   if (framework === 'vue') {
     routes = parseVueRouterRoutes(content);
+  } else if (framework === 'angular') {
+    routes = await parseAngularRoutes(content, routerPath);
+  } else if (framework === 'svelte') {
+    routes = await parseSvelteKitRoutes(resolveSvelteKitRoutesDir(routerPath));
   } else {
     routes = parseReactRouterRoutes(content);
   }
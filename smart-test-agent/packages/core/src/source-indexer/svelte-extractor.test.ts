@@ -0,0 +1,121 @@
+/**
+ * Svelte Extractor Unit Tests
+ * @see Requirements 2.2, 2.4
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractSvelteComponentFromContent, extractSvelteEventHandlers } from './svelte-extractor.js';
+
+describe('Svelte Extractor', () => {
+  describe('extractSvelteComponentFromContent', () => {
+    it('should extract markup, script and event handlers', () => {
+      const content = `
+<script lang="ts">
+  import { createOrder } from '$lib/api/orders';
+  export let customerId: string;
+  let amount = 0;
+
+  async function submit() {
+    await createOrder(customerId, amount);
+  }
+</script>
+
+<form on:submit|preventDefault={submit}>
+  <input bind:value={amount} type="number" />
+  <button type="submit">下单</button>
+  <button type="button" onclick={() => (amount = 0)}>清空</button>
+</form>
+
+<style>
+  form { display: flex; }
+</style>
+`;
+      const result = extractSvelteComponentFromContent(content, 'OrderForm.svelte');
+
+      expect(result.framework).toBe('svelte');
+      expect(result.template).toContain('<button type="submit">下单</button>');
+      expect(result.template).not.toContain('<script');
+      expect(result.template).not.toContain('display: flex');
+      expect(result.scriptExports).toContain('export let customerId: string;');
+      expect(result.eventHandlers).toEqual([
+        'on:submit|preventDefault={submit}',
+        'onclick={() => (amount = 0)}',
+      ]);
+      expect(result.apiImports).toEqual(['$lib/api/orders']);
+      expect(result.truncated).toBe(false);
+      expect(result.confidence).toBe('high');
+    });
+
+    it('should skip type-only imports and lower confidence for scripts with syntax errors', () => {
+      const content = `
+<script lang="ts">
+  import type { Order } from '$lib/api/types';
+  import { listOrders } from '$lib/api/orders';
+  // import { legacy } from '$lib/api/legacy';
+  let orders: Order[] = listOrders(;
+</script>
+
+<p>{orders.length}</p>
+`;
+      const result = extractSvelteComponentFromContent(content, 'Orders.svelte');
+
+      expect(result.apiImports).toEqual(['$lib/api/orders']);
+      expect(result.confidence).toBe('medium');
+    });
+
+    it('should include SvelteKit load modules and their API imports', () => {
+      const content = `
+<script>
+  export let data;
+</script>
+
+<h1>{data.order.id}</h1>
+`;
+      const result = extractSvelteComponentFromContent(content, '+page.svelte', [
+        {
+          fileName: '+page.server.ts',
+          content: "import { getOrder } from '$lib/server/order-service';\nexport const load = ({ params }) => ({ order: getOrder(params.id) });\n",
+        },
+      ]);
+
+      expect(result.scriptExports).toContain('// +page.server.ts');
+      expect(result.scriptExports).toContain('export const load');
+      expect(result.apiImports).toEqual(['$lib/server/order-service']);
+    });
+
+    it('should keep only script essentials for files over 500 lines', () => {
+      const rows = Array.from({ length: 520 }, (_, i) => `<p>Row ${i}</p>`);
+      const content = `
+<script>
+  import { fetchRows } from '$lib/api/rows';
+  let { pageSize = 20 } = $props();
+  let rows = $state([]);
+  $: total = rows.length;
+
+  async function load() {
+    rows = await fetchRows(pageSize);
+  }
+</script>
+
+<button on:click={load}>加载</button>
+${rows.join('\n')}
+`;
+      const result = extractSvelteComponentFromContent(content);
+
+      expect(result.truncated).toBe(true);
+      expect(result.scriptExports).toContain("import { fetchRows } from '$lib/api/rows';");
+      expect(result.scriptExports).toContain('let { pageSize = 20 } = $props()');
+      expect(result.scriptExports).toContain('let rows = $state([])');
+      expect(result.scriptExports).toContain('async function load() { ... }');
+      expect(result.scriptExports).not.toContain('rows = await fetchRows');
+      expect(result.scriptExports).toContain('$: total = rows.length;');
+      expect(result.eventHandlers).toEqual(['on:click={load}']);
+    });
+  });
+
+  describe('extractSvelteEventHandlers', () => {
+    it('should ignore non-event bindings', () => {
+      expect(extractSvelteEventHandlers('<input bind:value={name} class:active={on} />')).toEqual([]);
+    });
+  });
+});
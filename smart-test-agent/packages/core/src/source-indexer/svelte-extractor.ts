@@ -0,0 +1,228 @@
+/**
+ * Svelte Component Extractor
+ * Extracts markup, bound event handlers and script from Svelte components.
+ * For SvelteKit pages the load functions in +page.ts / +page.server.ts are included,
+ * since that is where pages usually call their APIs.
+ * Script blocks and load modules are parsed into syntax trees.
+ * @see Requirements 2.2, 2.4
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+import type { ExtractedComponent, ExtractionConfidence } from '@smart-test-agent/shared';
+import {
+  collectImports,
+  getCalleeName,
+  hasParseErrors,
+  isApiModule,
+  isFunctionNode,
+  parseSource,
+  summarizeFunction,
+  unwrapExpression,
+} from './ast-parser.js';
+
+/** Maximum lines before truncation */
+const MAX_LINES = 500;
+
+/** SvelteKit modules that load data for a +page.svelte */
+const SVELTEKIT_LOAD_MODULES = ['+page.ts', '+page.js', '+page.server.ts', '+page.server.js'];
+
+/** Rune calls whose declarations are kept in truncated scripts */
+const ESSENTIAL_RUNES = /^\$(?:props|state|derived|bindable)$/;
+
+/**
+ * A SvelteKit load module next to a page
+ */
+export interface SvelteLoadModule {
+  /** File name, e.g. +page.server.ts */
+  fileName: string;
+  /** File content */
+  content: string;
+}
+
+/**
+ * A <script> block of a Svelte component
+ */
+interface SvelteScript {
+  /** Script content */
+  content: string;
+  /** Language from the lang attribute, e.g. ts */
+  lang?: string;
+}
+
+/**
+ * Extracts all script blocks, including <script context="module">
+ */
+function extractScripts(content: string): SvelteScript[] {
+  const scripts: SvelteScript[] = [];
+  const scriptRegex = /<script([^>]*)>([\s\S]*?)<\/script>/gi;
+
+  let match;
+  while ((match = scriptRegex.exec(content)) !== null) {
+    const lang = /\blang\s*=\s*["']?(\w+)/.exec(match[1])?.[1];
+    scripts.push({ content: match[2].trim(), lang });
+  }
+
+  return scripts;
+}
+
+/**
+ * Extracts the markup: everything outside <script> and <style>
+ */
+function extractMarkup(content: string): string {
+  return content
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+    .trim();
+}
+
+/**
+ * Extracts event bindings from Svelte markup
+ * Pattern: on:click={save}, on:submit|preventDefault={submit}, onclick={save} (Svelte 5)
+ */
+export function extractSvelteEventHandlers(markup: string): string[] {
+  const handlers: string[] = [];
+  const bindingRegex = /\b(on:[\w|]+|on[a-z]+)\s*=\s*\{([^}]*)\}/g;
+
+  let match;
+  while ((match = bindingRegex.exec(markup)) !== null) {
+    handlers.push(`${match[1]}={${match[2].trim()}}`);
+  }
+
+  return [...new Set(handlers)];
+}
+
+/**
+ * Whether a variable statement is exported: export let x (Svelte 4 props)
+ */
+function isExported(statement: ts.VariableStatement): boolean {
+  return (ts.getModifiers(statement) ?? []).some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+/**
+ * Extracts essential parts from a script:
+ * imports, props, runes state, $: reactive statements and function headers
+ * Used for truncation when file exceeds MAX_LINES
+ */
+function extractScriptEssentials(sourceFile: ts.SourceFile): string {
+  const essentials: string[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement)) {
+      essentials.push(statement.getText());
+    } else if (ts.isFunctionDeclaration(statement) && statement.body) {
+      essentials.push(summarizeFunction(statement, statement.body));
+    } else if (ts.isVariableStatement(statement)) {
+      const initializer = statement.declarationList.declarations[0]?.initializer;
+      const value = initializer && unwrapExpression(initializer);
+      if (value && isFunctionNode(value) && value.body) {
+        essentials.push(summarizeFunction(statement, value.body));
+      } else if (
+        isExported(statement) ||
+        (value && ts.isCallExpression(value) && ESSENTIAL_RUNES.test(getCalleeName(value) ?? ''))
+      ) {
+        essentials.push(statement.getText());
+      }
+    } else if (ts.isLabeledStatement(statement) && statement.label.text === '$') {
+      essentials.push(statement.getText());
+    }
+  }
+
+  return essentials.join('\n');
+}
+
+/**
+ * Extracts API imports from a script
+ * @see Requirements 2.2
+ */
+function extractApiImports(sourceFile: ts.SourceFile): string[] {
+  return collectImports(sourceFile)
+    .filter((imported) => !imported.typeOnly && isApiModule(imported.specifier))
+    .map((imported) => imported.specifier);
+}
+
+/**
+ * Counts the number of lines in content
+ */
+function countLines(content: string): number {
+  return content.split('\n').length;
+}
+
+/**
+ * Extracts component information from a Svelte file
+ * For a SvelteKit +page.svelte, the load modules next to it are read as well.
+ * @param filePath Path to the .svelte file
+ * @returns Extracted component information
+ * @see Requirements 2.2, 2.4
+ */
+export async function extractSvelteComponent(
+  filePath: string
+): Promise<ExtractedComponent> {
+  const content = await fs.readFile(filePath, 'utf-8');
+
+  const loadModules: SvelteLoadModule[] = [];
+  if (path.basename(filePath).startsWith('+page')) {
+    for (const fileName of SVELTEKIT_LOAD_MODULES) {
+      try {
+        const moduleContent = await fs.readFile(path.join(path.dirname(filePath), fileName), 'utf-8');
+        loadModules.push({ fileName, content: moduleContent });
+      } catch {
+        // The page has no such load module
+      }
+    }
+  }
+
+  return extractSvelteComponentFromContent(content, filePath, loadModules);
+}
+
+/**
+ * Extracts component from Svelte content string (for testing)
+ * Confidence is medium when a script or load module has syntax errors.
+ * @param content Svelte component content
+ * @param filePath Virtual file path
+ * @param loadModules SvelteKit load modules of the page
+ * @returns Extracted component information
+ * @see Requirements 2.2, 2.4
+ */
+export function extractSvelteComponentFromContent(
+  content: string,
+  filePath: string = 'Component.svelte',
+  loadModules: SvelteLoadModule[] = []
+): ExtractedComponent {
+  const lineCount = countLines(content);
+  const truncated = lineCount > MAX_LINES;
+
+  const markup = extractMarkup(content);
+  const scripts = extractScripts(content)
+    .filter((script) => script.content)
+    .map((script) => ({ ...script, sourceFile: parseSource(script.content, filePath, script.lang ?? 'js') }));
+  const modules = loadModules.map((loadModule) => ({
+    ...loadModule,
+    sourceFile: parseSource(loadModule.content, loadModule.fileName),
+  }));
+
+  // For large files, only extract the script essentials
+  const scriptParts = scripts.map((script) =>
+    truncated ? extractScriptEssentials(script.sourceFile) : script.content
+  );
+  for (const loadModule of modules) {
+    scriptParts.push(`// ${loadModule.fileName}\n${loadModule.content.trim()}`);
+  }
+  const scriptExports = scriptParts.filter(Boolean).join('\n\n');
+
+  const sourceFiles = [...scripts, ...modules].map((parsed) => parsed.sourceFile);
+  const apiImports = sourceFiles.flatMap(extractApiImports);
+  const confidence: ExtractionConfidence = sourceFiles.some(hasParseErrors) ? 'medium' : 'high';
+
+  return {
+    filePath,
+    framework: 'svelte',
+    template: markup || undefined,
+    scriptExports: scriptExports || undefined,
+    eventHandlers: extractSvelteEventHandlers(markup),
+    apiImports: [...new Set(apiImports)],
+    truncated,
+    confidence,
+  };
+}
@@ -197,5 +197,116 @@ export default {}
       ).length;
       expect(userApiCount).toBe(1);
     });
+
+    it('should keep nested templates inside the root template', () => {
+      const content = `
+<template>
+  <a-table :data-source="rows">
+    <template #action="{ record }">
+      <a-button @click="edit(record)">编辑</a-button>
+    </template>
+  </a-table>
+  <template v-if="showFooter">
+    <footer>Total</footer>
+  </template>
+</template>
+
+<script setup lang="ts">
+import type { Row } from '@/api/types';
+import { listRows } from '@/api/rows';
+</script>
+`;
+      const result = extractVueComponentFromContent(content);
+
+      expect(result.template).toContain('<a-button @click="edit(record)">编辑</a-button>');
+      expect(result.template).toContain('<footer>Total</footer>');
+      // Type-only imports are not API calls
+      expect(result.apiImports).toEqual(['@/api/rows']);
+      expect(result.confidence).toBe('high');
+    });
+
+    it('should combine <script> and <script setup> blocks', () => {
+      const content = `
+<script lang="ts">
+export default { name: 'OrderList', inheritAttrs: false };
+</script>
+
+<script setup lang="ts">
+const orders = ref<Order[]>([]);
+</script>
+
+<template>
+  <div>{{ orders.length }}</div>
+</template>
+`;
+      const result = extractVueComponentFromContent(content);
+
+      expect(result.scriptExports).toContain("name: 'OrderList'");
+      expect(result.scriptExports).toContain('const orders = ref<Order[]>([])');
+      expect(result.template).toBe('<div>{{ orders.length }}</div>');
+    });
+
+    it('should keep <script setup> essentials for files over 500 lines', () => {
+      const rows = Array(600).fill('<div>Line</div>').join('\n');
+      const content = `
+<template>
+${rows}
+</template>
+
+<script setup lang="ts">
+import { ref, computed, onMounted } from 'vue';
+import { fetchOrders } from '@/api/orders';
+
+const props = withDefaults(defineProps<{ status?: string; pageSize?: number }>(), {
+  status: 'all',
+  pageSize: 20,
+});
+const emit = defineEmits<{ (e: 'select', id: string): void }>();
+const orders = ref<Order[]>([]);
+const total = computed(() => orders.value.length);
+
+onMounted(async () => {
+  orders.value = await fetchOrders(props.status);
+});
+
+async function refresh(page: number) {
+  orders.value = await fetchOrders(props.status, page);
+}
+
+const select = (id: string) => emit('select', id);
+</script>
+`;
+      const result = extractVueComponentFromContent(content);
+
+      expect(result.truncated).toBe(true);
+      expect(result.scriptExports).toContain("import { fetchOrders } from '@/api/orders';");
+      expect(result.scriptExports).toContain('const props = withDefaults(...)');
+      expect(result.scriptExports).toContain("const emit = defineEmits<{ (e: 'select', id: string): void }>()");
+      expect(result.scriptExports).toContain('const orders = ref<Order[]>([])');
+      expect(result.scriptExports).toContain('onMounted(...)');
+      expect(result.scriptExports).toContain('async function refresh(page: number) { ... }');
+      expect(result.scriptExports).toContain('const select = (id: string) => { ... }');
+      expect(result.scriptExports).not.toContain('orders.value = await');
+    });
+
+    it('should keep the defineComponent call for large option components', () => {
+      const rows = Array(600).fill('<div>Line</div>').join('\n');
+      const content = `
+<template>
+${rows}
+</template>
+
+<script lang="ts">
+import { defineComponent } from 'vue';
+
+export default defineComponent({
+  name: 'LargeComponent',
+});
+</script>
+`;
+      const result = extractVueComponentFromContent(content);
+
+      expect(result.scriptExports).toBe("defineComponent({\n  name: 'LargeComponent',\n})");
+    });
   });
 });
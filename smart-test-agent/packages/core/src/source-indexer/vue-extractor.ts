@@ -1,129 +1,185 @@
 /**
  * Vue Component Extractor
- * Extracts template and script sections from Vue single-file components
+ * Extracts template and script sections from Vue single-file components.
+ * The SFC is split into its top-level blocks and each <script> / <script setup>
+ * is parsed into a syntax tree.
  * @see Requirements 2.2, 2.4, 2.5, 2.7
  */
 
 import * as fs from 'fs/promises';
-import type { ExtractedComponent } from '@smart-test-agent/shared';
+import ts from 'typescript';
+import type { ExtractedComponent, ExtractionConfidence } from '@smart-test-agent/shared';
+import {
+  collectImports,
+  getCalleeName,
+  hasParseErrors,
+  isApiModule,
+  isFunctionNode,
+  parseSource,
+  summarizeFunction,
+  unwrapExpression,
+} from './ast-parser.js';
 
 /** Maximum lines before truncation */
 const MAX_LINES = 500;
 
-/**
- * Extracts the template section from Vue SFC content
- */
-function extractTemplate(content: string): string | null {
-  // Match <template> ... </template>
-  const templateMatch = content.match(
-    /<template[^>]*>([\s\S]*?)<\/template>/i
-  );
-  return templateMatch ? templateMatch[1].trim() : null;
-}
+/** Longest statement kept verbatim in truncated scripts */
+const MAX_STATEMENT_LENGTH = 120;
+
+/** Calls whose declarations are kept in truncated <script setup> */
+const SETUP_ESSENTIAL_CALLS = /^(?:define[A-Z]\w*|withDefaults|ref|shallowRef|reactive|computed|watch\w*|on[A-Z]\w*|use[A-Z]\w*)$/;
 
 /**
- * Extracts the script section from Vue SFC content
+ * A top-level block of a single-file component
  */
-function extractScript(content: string): string | null {
-  // Match <script> or <script setup> or <script lang="ts">
-  const scriptMatch = content.match(
-    /<script[^>]*>([\s\S]*?)<\/script>/i
-  );
-  return scriptMatch ? scriptMatch[1].trim() : null;
+interface SfcBlock {
+  /** Tag name: template, script, style or a custom block */
+  type: string;
+  /** Attributes of the opening tag, valueless ones as true */
+  attrs: Record<string, string | true>;
+  /** Content between the tags */
+  content: string;
 }
 
 /**
- * Extracts the export default object from script content
- * Used for truncation when file exceeds MAX_LINES
- * @see Requirements 2.7
+ * Parses the attributes of an opening tag
  */
-function extractExportDefault(scriptContent: string): string | null {
-  // Pattern 1: export default { ... }
-  const exportDefaultMatch = scriptContent.match(
-    /export\s+default\s*(\{[\s\S]*\})\s*(?:;?\s*)?$/
-  );
-  if (exportDefaultMatch) {
-    return exportDefaultMatch[1];
-  }
-
-  // Pattern 2: export default defineComponent({ ... })
-  const defineComponentMatch = scriptContent.match(
-    /export\s+default\s+defineComponent\s*\(\s*(\{[\s\S]*\})\s*\)\s*;?\s*$/
-  );
-  if (defineComponentMatch) {
-    return `defineComponent(${defineComponentMatch[1]})`;
-  }
+function parseAttrs(attrText: string): Record<string, string | true> {
+  const attrs: Record<string, string | true> = {};
+  const attrRegex = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
 
-  // Pattern 3: <script setup> - extract the entire content
-  // For script setup, we want to keep reactive declarations and computed
-  if (scriptContent.includes('defineProps') || scriptContent.includes('ref(') || scriptContent.includes('reactive(')) {
-    return extractScriptSetupEssentials(scriptContent);
+  let match;
+  while ((match = attrRegex.exec(attrText)) !== null) {
+    attrs[match[1]] = match[2] ?? match[3] ?? match[4] ?? true;
   }
 
-  return null;
+  return attrs;
 }
 
 /**
- * Extracts essential parts from <script setup> content
+ * Splits Vue SFC content into its top-level blocks
+ * Nested <template> tags (slots, v-if groups) are matched to find the end of the root template.
  */
-function extractScriptSetupEssentials(content: string): string {
-  const essentials: string[] = [];
+function parseSfcBlocks(content: string): SfcBlock[] {
+  const blocks: SfcBlock[] = [];
+  const openTagRegex = /<!--[\s\S]*?-->|<([a-zA-Z][\w-]*)(\s[^>]*?)?(\/?)>/g;
 
-  // Extract imports
-  const importMatches = content.match(/^import\s+.*$/gm);
-  if (importMatches) {
-    essentials.push(...importMatches);
-  }
-
-  // Extract defineProps/defineEmits
-  const definePropsMatch = content.match(/(?:const\s+\w+\s*=\s*)?defineProps[^;]+;?/g);
-  if (definePropsMatch) {
-    essentials.push(...definePropsMatch);
-  }
+  let match;
+  while ((match = openTagRegex.exec(content)) !== null) {
+    const [, type, attrText = '', selfClosing] = match;
+    if (!type || selfClosing) continue;
 
-  const defineEmitsMatch = content.match(/(?:const\s+\w+\s*=\s*)?defineEmits[^;]+;?/g);
-  if (defineEmitsMatch) {
-    essentials.push(...defineEmitsMatch);
-  }
+    const contentStart = openTagRegex.lastIndex;
+    let contentEnd = -1;
 
-  // Extract ref/reactive declarations
-  const refMatches = content.match(/(?:const|let)\s+\w+\s*=\s*(?:ref|reactive|computed)\s*\([^)]*\)/g);
-  if (refMatches) {
-    essentials.push(...refMatches);
-  }
+    if (type.toLowerCase() === 'template') {
+      const tagRegex = /<(\/?)template\b[^>]*?(\/?)>/gi;
+      tagRegex.lastIndex = contentStart;
+      let depth = 1;
+      let tag;
+      while ((tag = tagRegex.exec(content)) !== null) {
+        if (tag[2]) continue;
+        depth += tag[1] ? -1 : 1;
+        if (depth === 0) {
+          contentEnd = tag.index;
+          openTagRegex.lastIndex = tagRegex.lastIndex;
+          break;
+        }
+      }
+    } else {
+      const closeIndex = content.toLowerCase().indexOf(`</${type.toLowerCase()}`, contentStart);
+      if (closeIndex !== -1) {
+        contentEnd = closeIndex;
+        openTagRegex.lastIndex = content.indexOf('>', closeIndex) + 1 || content.length;
+      }
+    }
 
-  // Extract function declarations (first line only for brevity)
-  const functionMatches = content.match(/(?:const\s+\w+\s*=\s*(?:async\s*)?\([^)]*\)\s*=>|function\s+\w+\s*\([^)]*\))/g);
-  if (functionMatches) {
-    essentials.push(...functionMatches.map(f => f + ' { ... }'));
+    if (contentEnd === -1) break;
+    blocks.push({
+      type: type.toLowerCase(),
+      attrs: parseAttrs(attrText),
+      content: content.slice(contentStart, contentEnd),
+    });
   }
 
-  return essentials.join('\n');
+  return blocks;
 }
 
 /**
- * Extracts API imports from script content
- * @see Requirements 2.2
+ * Keeps a statement verbatim when short, otherwise abbreviates its call arguments
  */
-function extractApiImports(scriptContent: string): string[] {
-  const apiImports: string[] = [];
+function summarizeStatement(statement: ts.Statement, call: ts.CallExpression): string {
+  const text = statement.getText().replace(/;$/, '');
+  if (!text.includes('\n') && text.length <= MAX_STATEMENT_LENGTH) {
+    return text;
+  }
+  const sourceText = statement.getSourceFile().text;
+  return `${sourceText.slice(statement.getStart(), call.arguments.pos).replace(/\($/, '').trimEnd()}(...)`;
+}
 
-  // Match import statements that look like API imports
-  // Pattern: import { xxx } from '@/api/...' or '../api/...' or './api/...'
-  const importRegex = /import\s+(?:\{[^}]+\}|\*\s+as\s+\w+|\w+)\s+from\s+['"]([^'"]*api[^'"]*)['"]/gi;
+/**
+ * Extracts essential parts from <script setup> content:
+ * imports, compiler macros, reactive state, composables and function headers
+ * Used for truncation when file exceeds MAX_LINES
+ * @see Requirements 2.7
+ */
+function extractScriptSetupEssentials(sourceFile: ts.SourceFile): string {
+  const essentials: string[] = [];
 
-  let match;
-  while ((match = importRegex.exec(scriptContent)) !== null) {
-    apiImports.push(match[1]);
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement)) {
+      essentials.push(statement.getText());
+    } else if (ts.isFunctionDeclaration(statement) && statement.body) {
+      essentials.push(summarizeFunction(statement, statement.body));
+    } else if (ts.isVariableStatement(statement)) {
+      const initializer = statement.declarationList.declarations[0]?.initializer;
+      const value = initializer && unwrapExpression(initializer);
+      if (value && isFunctionNode(value) && value.body) {
+        essentials.push(summarizeFunction(statement, value.body));
+      } else if (value && ts.isCallExpression(value) && SETUP_ESSENTIAL_CALLS.test(getCalleeName(value) ?? '')) {
+        essentials.push(summarizeStatement(statement, value));
+      }
+    } else if (
+      ts.isExpressionStatement(statement) &&
+      ts.isCallExpression(statement.expression) &&
+      SETUP_ESSENTIAL_CALLS.test(getCalleeName(statement.expression) ?? '')
+    ) {
+      essentials.push(summarizeStatement(statement, statement.expression));
+    }
   }
 
-  // Also match require statements
-  const requireRegex = /require\s*\(\s*['"]([^'"]*api[^'"]*)['"]\s*\)/gi;
-  while ((match = requireRegex.exec(scriptContent)) !== null) {
-    apiImports.push(match[1]);
+  return essentials.join('\n');
+}
+
+/**
+ * Extracts the export default of a script:
+ * the options object, defineComponent({ ... }) or a class component
+ * Used for truncation when file exceeds MAX_LINES
+ * @see Requirements 2.7
+ */
+function extractExportDefault(sourceFile: ts.SourceFile): string | null {
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      return unwrapExpression(statement.expression).getText();
+    }
+    if (
+      ts.isClassDeclaration(statement) &&
+      ts.getModifiers(statement)?.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword)
+    ) {
+      return statement.getText();
+    }
   }
+  return null;
+}
 
-  return [...new Set(apiImports)]; // Deduplicate
+/**
+ * Extracts API imports from a script
+ * @see Requirements 2.2
+ */
+function extractApiImports(sourceFile: ts.SourceFile): string[] {
+  return collectImports(sourceFile)
+    .filter((imported) => !imported.typeOnly && isApiModule(imported.specifier))
+    .map((imported) => imported.specifier);
 }
 
 /**
@@ -143,31 +199,7 @@ export async function extractVueComponent(
   filePath: string
 ): Promise<ExtractedComponent> {
   const content = await fs.readFile(filePath, 'utf-8');
-  const lineCount = countLines(content);
-  const truncated = lineCount > MAX_LINES;
-
-  const template = extractTemplate(content);
-  const script = extractScript(content);
-  const apiImports = script ? extractApiImports(script) : [];
-
-  let scriptExports: string | undefined;
-
-  if (truncated && script) {
-    // For large files, only extract export default object
-    // @see Requirements 2.7
-    scriptExports = extractExportDefault(script) || undefined;
-  } else {
-    scriptExports = script || undefined;
-  }
-
-  return {
-    filePath,
-    framework: 'vue',
-    template: template || undefined,
-    scriptExports,
-    apiImports,
-    truncated,
-  };
+  return extractVueComponentFromContent(content, filePath);
 }
 
 /**
@@ -175,6 +207,7 @@ export async function extractVueComponent(
  * @param content Vue SFC content
  * @param filePath Virtual file path
  * @returns Extracted component information
+ * @see Requirements 2.2, 2.4, 2.5, 2.7
  */
 export function extractVueComponentFromContent(
   content: string,
@@ -183,18 +216,39 @@ export function extractVueComponentFromContent(
   const lineCount = countLines(content);
   const truncated = lineCount > MAX_LINES;
 
-  const template = extractTemplate(content);
-  const script = extractScript(content);
-  const apiImports = script ? extractApiImports(script) : [];
+  const blocks = parseSfcBlocks(content);
+  const template = blocks.find((block) => block.type === 'template')?.content.trim();
+  const scripts = blocks
+    .filter((block) => block.type === 'script' && block.content.trim())
+    .map((block) => ({
+      block,
+      sourceFile: parseSource(
+        block.content,
+        filePath,
+        typeof block.attrs.lang === 'string' ? block.attrs.lang : 'js'
+      ),
+    }));
 
-  let scriptExports: string | undefined;
+  const apiImports = [...new Set(scripts.flatMap(({ sourceFile }) => extractApiImports(sourceFile)))];
 
-  if (truncated && script) {
-    scriptExports = extractExportDefault(script) || undefined;
+  let scriptExports: string | undefined;
+  if (truncated) {
+    // For large files, only extract export default object and <script setup> essentials
+    // @see Requirements 2.7
+    const essentials = scripts.map(({ block, sourceFile }) =>
+      block.attrs.setup
+        ? extractScriptSetupEssentials(sourceFile)
+        : (extractExportDefault(sourceFile) ?? extractScriptSetupEssentials(sourceFile))
+    );
+    scriptExports = essentials.filter(Boolean).join('\n\n') || undefined;
   } else {
-    scriptExports = script || undefined;
+    scriptExports = scripts.map(({ block }) => block.content.trim()).join('\n\n') || undefined;
   }
 
+  const confidence: ExtractionConfidence = scripts.some(({ sourceFile }) => hasParseErrors(sourceFile))
+    ? 'medium'
+    : 'high';
+
   return {
     filePath,
     framework: 'vue',
@@ -202,5 +256,6 @@ export function extractVueComponentFromContent(
     scriptExports,
     apiImports,
     truncated,
+    confidence,
   };
 }
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for Target Environment overrides
+ *
+ * @see Requirements 1.1, 1.4
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyEnvironment, validateEnvironment } from './environment.js';
+import { ValidationErrorCodes } from './validator.js';
+import type { TargetProfile } from '@smart-test-agent/shared';
+
+const baseProfile: TargetProfile = {
+  id: 'profile-1',
+  projectId: 'project-1',
+  baseUrl: 'https://dev.example.com',
+  browser: {
+    ignoreHTTPSErrors: true,
+    viewport: { width: 1920, height: 1080 },
+    locale: 'zh-CN',
+    timeoutMs: 30000,
+  },
+  login: {
+    loginUrl: '/login',
+    usernameSelector: '#username',
+    passwordSelector: '#password',
+    submitSelector: '#submit',
+    credentials: { username: '$DEV_USERNAME', password: '$DEV_PASSWORD' },
+    successIndicator: '.dashboard',
+  },
+  allowedRoutes: ['/dashboard'],
+  allowedOperations: ['query'],
+  sourceCode: { frontendRoot: './src', routerFile: './router.ts', pageDir: './pages', apiDir: './api' },
+  uiFramework: 'antd',
+};
+
+describe('Target Environment', () => {
+  describe('applyEnvironment', () => {
+    it('should return the base profile when no environment is selected', () => {
+      expect(applyEnvironment(baseProfile, null)).toBe(baseProfile);
+      expect(applyEnvironment(baseProfile, undefined)).toBe(baseProfile);
+    });
+
+    it('should override the base URL and merge credentials', () => {
+      const profile = applyEnvironment(baseProfile, {
+        baseUrl: 'https://staging.example.com',
+        login: { credentials: { username: '$STAGING_USERNAME', password: '$STAGING_PASSWORD' } },
+      });
+
+      expect(profile.baseUrl).toBe('https://staging.example.com');
+      expect(profile.login.credentials).toEqual({ username: '$STAGING_USERNAME', password: '$STAGING_PASSWORD' });
+      expect(profile.login.loginUrl).toBe('/login');
+      expect(profile.allowedRoutes).toEqual(['/dashboard']);
+    });
+
+    it('should merge browser overrides field by field', () => {
+      const profile = applyEnvironment(baseProfile, {
+        browser: { timeoutMs: 60000, viewport: { width: 1280 } as any },
+      });
+
+      expect(profile.browser.timeoutMs).toBe(60000);
+      expect(profile.browser.viewport).toEqual({ width: 1280, height: 1080 });
+      expect(profile.browser.locale).toBe('zh-CN');
+      expect(baseProfile.browser.viewport.width).toBe(1920);
+    });
+
+    it('should keep the base URL when the override is empty', () => {
+      expect(applyEnvironment(baseProfile, { baseUrl: '' }).baseUrl).toBe('https://dev.example.com');
+    });
+  });
+
+  describe('validateEnvironment', () => {
+    it('should accept a valid environment', () => {
+      expect(validateEnvironment(baseProfile, { name: 'uat', baseUrl: 'https://uat.example.com' })).toEqual([]);
+    });
+
+    it('should reject invalid names', () => {
+      const errors = validateEnvironment(baseProfile, { name: 'Staging Env' });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe('name');
+      expect(errors[0].code).toBe(ValidationErrorCodes.INVALID_VALUE);
+    });
+
+    it('should validate the effective configuration', () => {
+      const errors = validateEnvironment(baseProfile, {
+        name: 'staging',
+        baseUrl: 'ftp://staging.example.com',
+        login: { strategy: 'bearer_token' },
+      });
+
+      expect(errors.map((e) => e.field)).toEqual(['baseUrl', 'login.bearerToken']);
+    });
+  });
+});
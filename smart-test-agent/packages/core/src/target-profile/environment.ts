@@ -0,0 +1,98 @@
+/**
+ * Target Environment Module
+ * Merges named environment overrides (dev, staging, uat) onto a project's base target profile
+ *
+ * @see Requirements 1.1, 1.4
+ */
+
+import type { TargetEnvironment, TargetProfile } from '@smart-test-agent/shared';
+import {
+  validateBaseUrl,
+  validateLoginConfig,
+  validateBrowserConfig,
+  PROFILE_NAME_PATTERN,
+  ValidationErrorCodes,
+  type ValidationError,
+} from './validator.js';
+
+// ============================================================================
+// Core Functions
+// ============================================================================
+
+/**
+ * Apply environment overrides to a base target profile
+ * Only fields set on the environment replace the base values; nested login credentials
+ * and browser viewport are merged field by field.
+ *
+ * @param profile - The project's base target profile
+ * @param environment - The selected environment, or null/undefined for the base profile
+ * @returns The effective target profile for the environment
+ */
+export function applyEnvironment(
+  profile: TargetProfile,
+  environment?: Pick<TargetEnvironment, 'baseUrl' | 'login' | 'browser'> | null
+): TargetProfile {
+  if (!environment) {
+    return profile;
+  }
+
+  const login = environment.login ?? {};
+  const browser = environment.browser ?? {};
+
+  return {
+    ...profile,
+    baseUrl: environment.baseUrl || profile.baseUrl,
+    login: {
+      ...profile.login,
+      ...login,
+      credentials: {
+        ...profile.login.credentials,
+        ...login.credentials,
+      },
+    },
+    browser: {
+      ...profile.browser,
+      ...browser,
+      viewport: {
+        ...profile.browser.viewport,
+        ...browser.viewport,
+      },
+    },
+  };
+}
+
+/**
+ * Validate an environment against its base profile
+ * Checks the name and the effective (merged) base URL, login and browser configuration.
+ *
+ * @param profile - The project's base target profile
+ * @param environment - The environment to validate
+ * @returns Array of validation errors (empty if valid)
+ */
+export function validateEnvironment(
+  profile: TargetProfile,
+  environment: Pick<TargetEnvironment, 'name' | 'baseUrl' | 'login' | 'browser'>
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!environment.name || environment.name.trim() === '') {
+    errors.push({
+      field: 'name',
+      message: 'Environment name is required',
+      code: ValidationErrorCodes.REQUIRED_FIELD,
+    });
+  } else if (!PROFILE_NAME_PATTERN.test(environment.name)) {
+    errors.push({
+      field: 'name',
+      message: `Environment name must match ${PROFILE_NAME_PATTERN} (got: "${environment.name}")`,
+      code: ValidationErrorCodes.INVALID_VALUE,
+    });
+  }
+
+  const effective = applyEnvironment(profile, environment);
+  errors.push(...validateBaseUrl(effective.baseUrl));
+  errors.push(...validateLoginConfig(effective.login));
+  errors.push(...validateBrowserConfig(effective.browser));
+
+  return errors;
+}
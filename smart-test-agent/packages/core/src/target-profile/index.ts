@@ -21,6 +21,10 @@ import type {
   SourceCodeConfig,
   AntdQuirksConfig,
   OperationType,
+  RoleConfig,
+  PipelineStepSelection,
+  RetryBudgets,
+  ReviewPolicy,
   UIFramework,
 } from '@smart-test-agent/shared';
 
@@ -45,6 +49,10 @@ export interface CreateTargetProfileInput {
   sourceCode: SourceCodeConfig;
   uiFramework: UIFramework;
   antdQuirks?: AntdQuirksConfig;
+  roles?: RoleConfig[];
+  pipelineSteps?: PipelineStepSelection;
+  retryBudgets?: RetryBudgets;
+  reviewPolicy?: ReviewPolicy;
 }
 
 /**
@@ -62,6 +70,10 @@ export interface UpdateTargetProfileInput {
   sourceCode?: SourceCodeConfig;
   uiFramework?: UIFramework;
   antdQuirks?: AntdQuirksConfig | null;
+  roles?: RoleConfig[] | null;
+  pipelineSteps?: PipelineStepSelection | null;
+  retryBudgets?: RetryBudgets | null;
+  reviewPolicy?: ReviewPolicy | null;
 }
 
 // ============================================================================
@@ -132,6 +144,10 @@ export class TargetProfileManager {
         sourceCodeConfig: toJsonString(data.sourceCode),
         uiFramework: data.uiFramework,
         antdQuirks: toJsonStringNullable(data.antdQuirks),
+        roles: toJsonStringNullable(data.roles),
+        pipelineSteps: toJsonStringNullable(data.pipelineSteps),
+        retryBudgets: toJsonStringNullable(data.retryBudgets),
+        reviewPolicy: toJsonStringNullable(data.reviewPolicy),
       },
     });
 
@@ -203,6 +219,18 @@ export class TargetProfileManager {
     if (data.antdQuirks !== undefined) {
       updateData.antdQuirks = toJsonStringNullable(data.antdQuirks);
     }
+    if (data.roles !== undefined) {
+      updateData.roles = toJsonStringNullable(data.roles);
+    }
+    if (data.pipelineSteps !== undefined) {
+      updateData.pipelineSteps = toJsonStringNullable(data.pipelineSteps);
+    }
+    if (data.retryBudgets !== undefined) {
+      updateData.retryBudgets = toJsonStringNullable(data.retryBudgets);
+    }
+    if (data.reviewPolicy !== undefined) {
+      updateData.reviewPolicy = toJsonStringNullable(data.reviewPolicy);
+    }
 
     // Update the profile
     const dbProfile = await prisma.targetProfile.update({
@@ -290,6 +318,10 @@ export class TargetProfileManager {
       sourceCodeConfig: toJsonString(profile.sourceCode),
       uiFramework: profile.uiFramework,
       antdQuirks: toJsonStringNullable(profile.antdQuirks),
+      roles: toJsonStringNullable(profile.roles),
+      pipelineSteps: toJsonStringNullable(profile.pipelineSteps),
+      retryBudgets: toJsonStringNullable(profile.retryBudgets),
+      reviewPolicy: toJsonStringNullable(profile.reviewPolicy),
     };
   }
 
@@ -313,6 +345,10 @@ export class TargetProfileManager {
       sourceCode: fromJsonString<SourceCodeConfig>(dbProfile.sourceCodeConfig),
       uiFramework: dbProfile.uiFramework as UIFramework,
       antdQuirks: fromJsonStringNullable<AntdQuirksConfig>(dbProfile.antdQuirks) ?? undefined,
+      roles: fromJsonStringNullable<RoleConfig[]>(dbProfile.roles) ?? undefined,
+      pipelineSteps: fromJsonStringNullable<PipelineStepSelection>(dbProfile.pipelineSteps) ?? undefined,
+      retryBudgets: fromJsonStringNullable<RetryBudgets>(dbProfile.retryBudgets) ?? undefined,
+      reviewPolicy: fromJsonStringNullable<ReviewPolicy>(dbProfile.reviewPolicy) ?? undefined,
     };
   }
 }
@@ -321,7 +357,7 @@ export class TargetProfileManager {
 export const targetProfileManager = new TargetProfileManager();
 
 // Re-export types for convenience
-export type { TargetProfile, BrowserConfig, LoginConfig, SourceCodeConfig, AntdQuirksConfig, OperationType, UIFramework };
+export type { TargetProfile, BrowserConfig, LoginConfig, SourceCodeConfig, AntdQuirksConfig, OperationType, RoleConfig, UIFramework };
 
 // Re-export environment variable resolver functions
 export {
@@ -333,6 +369,19 @@ export {
   type Credentials,
 } from './env-resolver.js';
 
+// Re-export environment override functions
+export {
+  applyEnvironment,
+  validateEnvironment,
+} from './environment.js';
+
+// Re-export role functions
+export {
+  findRole,
+  applyRole,
+  isOperationAllowed,
+} from './roles.js';
+
 // Re-export validator functions and types
 export {
   validateTargetProfile,
@@ -342,7 +391,11 @@ export {
   validateBrowserConfig,
   validateSourceCodeConfig,
   validateAntdQuirksConfig,
+  validateRoles,
   ValidationErrorCodes,
+  AUTH_STRATEGIES,
+  LOGIN_STEP_ACTIONS,
+  PROFILE_NAME_PATTERN,
   type ValidationError,
   type ValidationResult,
 } from './validator.js';
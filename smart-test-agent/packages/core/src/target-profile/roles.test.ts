@@ -0,0 +1,130 @@
+/**
+ * Unit tests for Target Profile roles
+ *
+ * @see Requirements 1.3, 1.9
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyRole, findRole, isOperationAllowed } from './roles.js';
+import { validateRoles, ValidationErrorCodes } from './validator.js';
+import type { TargetProfile } from '@smart-test-agent/shared';
+
+const baseProfile: TargetProfile = {
+  id: 'profile-1',
+  projectId: 'project-1',
+  baseUrl: 'https://dev.example.com',
+  browser: {
+    ignoreHTTPSErrors: true,
+    viewport: { width: 1920, height: 1080 },
+    locale: 'zh-CN',
+    timeoutMs: 30000,
+  },
+  login: {
+    loginUrl: '/login',
+    usernameSelector: '#username',
+    passwordSelector: '#password',
+    submitSelector: '#submit',
+    credentials: { username: '$TEST_USERNAME', password: '$TEST_PASSWORD' },
+    successIndicator: '.dashboard',
+  },
+  allowedRoutes: ['/dashboard'],
+  allowedOperations: ['query', 'create', 'edit', 'delete'],
+  deniedOperations: [],
+  sourceCode: { frontendRoot: './src', routerFile: './router.ts', pageDir: './pages', apiDir: './api' },
+  uiFramework: 'antd',
+  roles: [
+    {
+      name: 'admin',
+      credentials: { username: '$ADMIN_USERNAME', password: '$ADMIN_PASSWORD' },
+    },
+    {
+      name: 'viewer',
+      description: 'Read-only user',
+      credentials: { username: '$VIEWER_USERNAME', password: '$VIEWER_PASSWORD' },
+      allowedOperations: ['query'],
+      deniedOperations: ['create', 'edit', 'delete'],
+    },
+    {
+      name: 'api',
+      login: { strategy: 'bearer_token', bearerToken: '$API_TOKEN' },
+    },
+  ],
+};
+
+describe('Target Roles', () => {
+  describe('findRole', () => {
+    it('should find roles by name', () => {
+      expect(findRole(baseProfile, 'viewer')?.description).toBe('Read-only user');
+      expect(findRole(baseProfile, 'guest')).toBeUndefined();
+      expect(findRole({}, 'viewer')).toBeUndefined();
+    });
+  });
+
+  describe('applyRole', () => {
+    it('should return the profile when no role is given', () => {
+      expect(applyRole(baseProfile)).toBe(baseProfile);
+    });
+
+    it('should use the role credentials and keep the login form', () => {
+      const profile = applyRole(baseProfile, 'admin');
+
+      expect(profile.login.credentials).toEqual({ username: '$ADMIN_USERNAME', password: '$ADMIN_PASSWORD' });
+      expect(profile.login.usernameSelector).toBe('#username');
+      expect(profile.allowedOperations).toEqual(baseProfile.allowedOperations);
+    });
+
+    it('should apply login overrides and operation lists', () => {
+      expect(applyRole(baseProfile, 'api').login.strategy).toBe('bearer_token');
+      expect(applyRole(baseProfile, 'viewer').allowedOperations).toEqual(['query']);
+    });
+
+    it('should throw for undefined roles', () => {
+      expect(() => applyRole(baseProfile, 'guest')).toThrow('Role "guest" is not defined');
+    });
+  });
+
+  describe('isOperationAllowed', () => {
+    it('should check operations per role', () => {
+      expect(isOperationAllowed(baseProfile, undefined, 'delete')).toBe(true);
+      expect(isOperationAllowed(baseProfile, 'viewer', 'query')).toBe(true);
+      expect(isOperationAllowed(baseProfile, 'viewer', 'delete')).toBe(false);
+      expect(isOperationAllowed(baseProfile, 'admin', 'view_detail')).toBe(false);
+    });
+  });
+
+  describe('validateRoles', () => {
+    it('should accept valid roles', () => {
+      expect(validateRoles(baseProfile.roles, baseProfile.login)).toEqual([]);
+      expect(validateRoles(undefined, baseProfile.login)).toEqual([]);
+    });
+
+    it('should reject invalid and duplicate names', () => {
+      const errors = validateRoles(
+        [{ name: 'Admin User' }, { name: 'viewer' }, { name: 'viewer' }],
+        baseProfile.login
+      );
+
+      expect(errors.map((e) => e.field)).toEqual(['roles[0].name', 'roles[2].name']);
+      expect(errors.every((e) => e.code === ValidationErrorCodes.INVALID_VALUE)).toBe(true);
+    });
+
+    it('should reject operations both allowed and denied', () => {
+      const errors = validateRoles(
+        [{ name: 'editor', allowedOperations: ['query', 'edit'], deniedOperations: ['edit'] }],
+        baseProfile.login
+      );
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].field).toBe('roles[0].deniedOperations');
+    });
+
+    it('should validate the effective login of each role', () => {
+      const errors = validateRoles(
+        [{ name: 'api', login: { strategy: 'bearer_token' } }],
+        baseProfile.login
+      );
+
+      expect(errors.map((e) => e.field)).toEqual(['roles[0].login.bearerToken']);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Target Role Module
+ * Resolves the effective login and permissions of a named user role (admin, viewer, ...)
+ *
+ * @see Requirements 1.3, 1.9
+ */
+
+import type { OperationType, RoleConfig, TargetProfile } from '@smart-test-agent/shared';
+import { resolveRoleLogin } from '@smart-test-agent/playwright-runner';
+
+// ============================================================================
+// Core Functions
+// ============================================================================
+
+/**
+ * Find a role by name
+ *
+ * @param profile - The target profile
+ * @param roleName - The role name
+ * @returns The role configuration or undefined if not defined
+ */
+export function findRole(
+  profile: Pick<TargetProfile, 'roles'>,
+  roleName: string
+): RoleConfig | undefined {
+  return profile.roles?.find((role) => role.name === roleName);
+}
+
+/**
+ * Apply a role to a target profile
+ * The role's credentials and login overrides are merged onto the profile login; its
+ * operation lists replace the profile's when set.
+ *
+ * @param profile - The target profile
+ * @param roleName - The role name, or undefined for the profile's default login
+ * @returns The effective target profile for the role
+ * @throws Error if the role is not defined in the profile
+ */
+export function applyRole(profile: TargetProfile, roleName?: string): TargetProfile {
+  if (!roleName) {
+    return profile;
+  }
+
+  const role = findRole(profile, roleName);
+  if (!role) {
+    throw new Error(`Role "${roleName}" is not defined in the target profile`);
+  }
+
+  return {
+    ...profile,
+    login: resolveRoleLogin(profile.login, role),
+    allowedOperations: role.allowedOperations ?? profile.allowedOperations,
+    deniedOperations: role.deniedOperations ?? profile.deniedOperations,
+  };
+}
+
+/**
+ * Check whether a role may perform an operation
+ * Denied operations take precedence over allowed ones.
+ *
+ * @param profile - The target profile
+ * @param roleName - The role name, or undefined for the profile's default login
+ * @param operation - The operation type
+ * @returns True if the operation is allowed for the role
+ */
+export function isOperationAllowed(
+  profile: TargetProfile,
+  roleName: string | undefined,
+  operation: OperationType
+): boolean {
+  const effective = applyRole(profile, roleName);
+
+  if (effective.deniedOperations?.includes(operation)) {
+    return false;
+  }
+  return effective.allowedOperations.includes(operation);
+}
@@ -287,6 +287,89 @@ describe('validateLoginConfig', () => {
     const errors = validateLoginConfig(config);
     expect(errors.length).toBeGreaterThanOrEqual(3);
   });
+
+  describe('authentication strategies', () => {
+    const createBlankLoginConfig = (overrides: Partial<LoginConfig>): LoginConfig => ({
+      ...createValidLoginConfig(),
+      usernameSelector: '',
+      passwordSelector: '',
+      submitSelector: '',
+      successIndicator: '',
+      ...overrides,
+    });
+
+    it('should not require form fields for storage_state', () => {
+      const config = createBlankLoginConfig({ strategy: 'storage_state', storageStatePath: './auth/state.json' });
+      expect(validateLoginConfig(config)).toHaveLength(0);
+    });
+
+    it('should require storageStatePath for storage_state', () => {
+      const errors = validateLoginConfig(createBlankLoginConfig({ strategy: 'storage_state' }));
+      expect(findErrorByField(errors, 'login.storageStatePath')?.code).toBe(ValidationErrorCodes.REQUIRED_FIELD);
+    });
+
+    it('should require named cookies with values for cookies', () => {
+      expect(findErrorByField(
+        validateLoginConfig(createBlankLoginConfig({ strategy: 'cookies' })),
+        'login.cookies'
+      )?.code).toBe(ValidationErrorCodes.EMPTY_ARRAY);
+
+      const errors = validateLoginConfig(createBlankLoginConfig({
+        strategy: 'cookies',
+        cookies: [{ name: 'SESSION', value: '$SESSION_COOKIE' }, { name: '', value: '' }],
+      }));
+      expect(errors.map((e) => e.field)).toEqual(['login.cookies[1].name', 'login.cookies[1].value']);
+    });
+
+    it('should require bearerToken for bearer_token', () => {
+      expect(validateLoginConfig(createBlankLoginConfig({ strategy: 'bearer_token', bearerToken: '$API_TOKEN' })))
+        .toHaveLength(0);
+      expect(findErrorByField(
+        validateLoginConfig(createBlankLoginConfig({ strategy: 'bearer_token' })),
+        'login.bearerToken'
+      )).toBeDefined();
+    });
+
+    it('should accept a valid scripted login', () => {
+      const config = createBlankLoginConfig({
+        strategy: 'scripted',
+        steps: [
+          { action: 'fill', selector: '#captcha', value: '$CAPTCHA_BYPASS_TOKEN' },
+          { action: 'click', selector: '.tenant-picker' },
+          { action: 'totp', selector: '#otp' },
+        ],
+        totpSecret: '$TOTP_SECRET',
+      });
+      expect(validateLoginConfig(config)).toHaveLength(0);
+    });
+
+    it('should validate scripted login steps', () => {
+      const errors = validateLoginConfig(createBlankLoginConfig({
+        strategy: 'scripted',
+        steps: [
+          { action: 'fill', selector: '#captcha' },
+          { action: 'click' },
+          { action: 'totp', selector: '#otp' },
+          { action: 'press' as never, selector: '#x' },
+        ],
+      }));
+
+      expect(findErrorByField(errors, 'login.steps[0].value')).toBeDefined();
+      expect(findErrorByField(errors, 'login.steps[1].selector')).toBeDefined();
+      expect(findErrorByField(errors, 'login.totpSecret')).toBeDefined();
+      expect(findErrorByField(errors, 'login.steps[3].action')?.code).toBe(ValidationErrorCodes.INVALID_VALUE);
+    });
+
+    it('should require steps for scripted', () => {
+      const errors = validateLoginConfig(createBlankLoginConfig({ strategy: 'scripted' }));
+      expect(findErrorByField(errors, 'login.steps')?.code).toBe(ValidationErrorCodes.EMPTY_ARRAY);
+    });
+
+    it('should reject unknown strategies', () => {
+      const errors = validateLoginConfig(createBlankLoginConfig({ strategy: 'saml' as never }));
+      expect(findErrorByField(errors, 'login.strategy')?.code).toBe(ValidationErrorCodes.INVALID_VALUE);
+    });
+  });
 });
 
 // ============================================================================
@@ -444,6 +527,21 @@ describe('validateSourceCodeConfig', () => {
     const errors = validateSourceCodeConfig(config);
     expect(errors).toHaveLength(4);
   });
+
+  it('should accept a JSON OpenAPI document', () => {
+    const config = createValidSourceCodeConfig();
+    config.openApiFile = '../server/openapi.json';
+    expect(validateSourceCodeConfig(config)).toHaveLength(0);
+  });
+
+  it('should reject a non-JSON OpenAPI document', () => {
+    const config = createValidSourceCodeConfig();
+    config.openApiFile = 'openapi.yaml';
+    const errors = validateSourceCodeConfig(config);
+    const error = findErrorByField(errors, 'sourceCode.openApiFile');
+    expect(error).toBeDefined();
+    expect(error?.code).toBe(ValidationErrorCodes.INVALID_VALUE);
+  });
 });
 
 // ============================================================================
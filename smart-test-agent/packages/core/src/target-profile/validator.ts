@@ -6,12 +6,17 @@
  */
 
 import type {
+  AuthStrategy,
   BrowserConfig,
   LoginConfig,
+  LoginStepAction,
   SourceCodeConfig,
   AntdQuirksConfig,
+  OperationType,
+  RoleConfig,
 } from '@smart-test-agent/shared';
 
+import { resolveRoleLogin } from '@smart-test-agent/playwright-runner';
 import type { CreateTargetProfileInput } from './index.js';
 
 // ============================================================================
@@ -62,8 +67,26 @@ export const ValidationErrorCodes = {
   
   // Array validation errors
   EMPTY_ARRAY: 'EMPTY_ARRAY',
+
+  // Enumerated value errors
+  INVALID_VALUE: 'INVALID_VALUE',
 } as const;
 
+/**
+ * Supported authentication strategies
+ */
+export const AUTH_STRATEGIES: AuthStrategy[] = ['form', 'storage_state', 'cookies', 'bearer_token', 'scripted'];
+
+/**
+ * Supported scripted login step actions
+ */
+export const LOGIN_STEP_ACTIONS: LoginStepAction[] = ['goto', 'fill', 'click', 'select', 'wait', 'totp'];
+
+/**
+ * Allowed environment and role names: lowercase letters, digits, '-' and '_', up to 32 characters
+ */
+export const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
 // ============================================================================
 // URL Validation
 // ============================================================================
@@ -227,13 +250,23 @@ function validateLoginUrl(loginUrl: string): ValidationError | null {
 }
 
 /**
- * Validate login configuration
- * Validates required fields: loginUrl, usernameSelector, passwordSelector, submitSelector, successIndicator
- * 
- * @param config - The login configuration to validate
- * @returns Array of validation errors (empty if valid)
+ * Check whether a string field is missing or blank
  */
-export function validateLoginConfig(config: LoginConfig): ValidationError[] {
+function isBlank(value: string | undefined): boolean {
+  return !value || value.trim() === '';
+}
+
+/**
+ * Create a required field error
+ */
+function requiredError(field: string, message: string): ValidationError {
+  return { field, message, code: ValidationErrorCodes.REQUIRED_FIELD };
+}
+
+/**
+ * Validate username/password form login fields
+ */
+function validateFormLogin(config: LoginConfig): ValidationError[] {
   const errors: ValidationError[] = [];
 
   // Validate loginUrl
@@ -243,44 +276,137 @@ export function validateLoginConfig(config: LoginConfig): ValidationError[] {
   }
 
   // Validate usernameSelector
-  if (!config.usernameSelector || config.usernameSelector.trim() === '') {
-    errors.push({
-      field: 'login.usernameSelector',
-      message: 'Username selector is required',
-      code: ValidationErrorCodes.REQUIRED_FIELD,
-    });
+  if (isBlank(config.usernameSelector)) {
+    errors.push(requiredError('login.usernameSelector', 'Username selector is required'));
   }
 
   // Validate passwordSelector
-  if (!config.passwordSelector || config.passwordSelector.trim() === '') {
-    errors.push({
-      field: 'login.passwordSelector',
-      message: 'Password selector is required',
-      code: ValidationErrorCodes.REQUIRED_FIELD,
-    });
+  if (isBlank(config.passwordSelector)) {
+    errors.push(requiredError('login.passwordSelector', 'Password selector is required'));
   }
 
   // Validate submitSelector
-  if (!config.submitSelector || config.submitSelector.trim() === '') {
-    errors.push({
-      field: 'login.submitSelector',
-      message: 'Submit selector is required',
-      code: ValidationErrorCodes.REQUIRED_FIELD,
-    });
+  if (isBlank(config.submitSelector)) {
+    errors.push(requiredError('login.submitSelector', 'Submit selector is required'));
   }
 
   // Validate successIndicator
-  if (!config.successIndicator || config.successIndicator.trim() === '') {
+  if (isBlank(config.successIndicator)) {
+    errors.push(requiredError('login.successIndicator', 'Success indicator is required'));
+  }
+
+  return errors;
+}
+
+/**
+ * Validate cookies for the cookies strategy
+ */
+function validateAuthCookies(config: LoginConfig): ValidationError[] {
+  if (!config.cookies || config.cookies.length === 0) {
+    return [{
+      field: 'login.cookies',
+      message: 'At least one cookie is required for the cookies strategy',
+      code: ValidationErrorCodes.EMPTY_ARRAY,
+    }];
+  }
+
+  const errors: ValidationError[] = [];
+  config.cookies.forEach((cookie, index) => {
+    if (isBlank(cookie.name)) {
+      errors.push(requiredError(`login.cookies[${index}].name`, 'Cookie name is required'));
+    }
+    if (isBlank(cookie.value)) {
+      errors.push(requiredError(`login.cookies[${index}].value`, 'Cookie value is required'));
+    }
+  });
+  return errors;
+}
+
+/**
+ * Validate steps for the scripted strategy
+ */
+function validateLoginSteps(config: LoginConfig): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  const loginUrlError = validateLoginUrl(config.loginUrl);
+  if (loginUrlError) {
+    errors.push(loginUrlError);
+  }
+
+  if (!config.steps || config.steps.length === 0) {
     errors.push({
-      field: 'login.successIndicator',
-      message: 'Success indicator is required',
-      code: ValidationErrorCodes.REQUIRED_FIELD,
+      field: 'login.steps',
+      message: 'At least one login step is required for the scripted strategy',
+      code: ValidationErrorCodes.EMPTY_ARRAY,
     });
+    return errors;
   }
 
+  config.steps.forEach((step, index) => {
+    const field = `login.steps[${index}]`;
+
+    if (!LOGIN_STEP_ACTIONS.includes(step.action)) {
+      errors.push({
+        field: `${field}.action`,
+        message: `Login step action must be one of ${LOGIN_STEP_ACTIONS.join(', ')} (got: "${step.action}")`,
+        code: ValidationErrorCodes.INVALID_VALUE,
+      });
+      return;
+    }
+
+    if (step.action !== 'goto' && isBlank(step.selector)) {
+      errors.push(requiredError(`${field}.selector`, `Selector is required for ${step.action} steps`));
+    }
+    if (['goto', 'fill', 'select'].includes(step.action) && isBlank(step.value)) {
+      errors.push(requiredError(`${field}.value`, `Value is required for ${step.action} steps`));
+    }
+    if (step.action === 'totp' && isBlank(config.totpSecret)) {
+      errors.push(requiredError('login.totpSecret', 'TOTP secret is required for totp steps'));
+    }
+  });
+
   return errors;
 }
 
+/**
+ * Validate login configuration
+ * Required fields depend on the authentication strategy:
+ * - form: loginUrl, usernameSelector, passwordSelector, submitSelector, successIndicator
+ * - storage_state: storageStatePath
+ * - cookies: cookies with name and value
+ * - bearer_token: bearerToken
+ * - scripted: loginUrl and valid steps (totp steps also need totpSecret)
+ * 
+ * @param config - The login configuration to validate
+ * @returns Array of validation errors (empty if valid)
+ */
+export function validateLoginConfig(config: LoginConfig): ValidationError[] {
+  const strategy = config.strategy ?? 'form';
+
+  switch (strategy) {
+    case 'form':
+      return validateFormLogin(config);
+    case 'storage_state':
+      return isBlank(config.storageStatePath)
+        ? [requiredError('login.storageStatePath', 'Storage state file path is required')]
+        : [];
+    case 'cookies':
+      return validateAuthCookies(config);
+    case 'bearer_token':
+      return isBlank(config.bearerToken)
+        ? [requiredError('login.bearerToken', 'Bearer token is required')]
+        : [];
+    case 'scripted':
+      return validateLoginSteps(config);
+    default:
+      return [{
+        field: 'login.strategy',
+        message: `Authentication strategy must be one of ${AUTH_STRATEGIES.join(', ')} (got: "${strategy}")`,
+        code: ValidationErrorCodes.INVALID_VALUE,
+      }];
+  }
+}
+
 // ============================================================================
 // Browser Config Validation
 // ============================================================================
@@ -350,6 +476,7 @@ export function validateBrowserConfig(config: BrowserConfig): ValidationError[]
 /**
  * Validate source code configuration
  * Validates required fields: frontendRoot, routerFile, pageDir, apiDir
+ * and the optional OpenAPI document, which must be JSON
  * 
  * @param config - The source code configuration to validate
  * @returns Array of validation errors (empty if valid)
@@ -393,6 +520,15 @@ export function validateSourceCodeConfig(config: SourceCodeConfig): ValidationEr
     });
   }
 
+  // Validate openApiFile (optional)
+  if (config.openApiFile !== undefined && !/\.json$/i.test(config.openApiFile.trim())) {
+    errors.push({
+      field: 'sourceCode.openApiFile',
+      message: 'OpenAPI document must be a .json file',
+      code: ValidationErrorCodes.INVALID_VALUE,
+    });
+  }
+
   return errors;
 }
 
@@ -435,6 +571,69 @@ export function validateAntdQuirksConfig(config: AntdQuirksConfig | undefined):
   return errors;
 }
 
+// ============================================================================
+// Role Validation
+// ============================================================================
+
+/**
+ * Validate role definitions (if provided)
+ * Checks names are valid and unique, operation lists don't overlap, and the
+ * effective login of every role (profile login merged with the role's overrides).
+ *
+ * @param roles - The role definitions to validate
+ * @param login - The profile login configuration roles inherit from
+ * @returns Array of validation errors (empty if valid)
+ *
+ * @see Requirements 1.3, 1.9
+ */
+export function validateRoles(roles: RoleConfig[] | undefined, login: LoginConfig): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!roles) {
+    return errors;
+  }
+
+  const seen = new Set<string>();
+  roles.forEach((role, index) => {
+    const field = `roles[${index}]`;
+
+    if (isBlank(role.name)) {
+      errors.push(requiredError(`${field}.name`, 'Role name is required'));
+    } else if (!PROFILE_NAME_PATTERN.test(role.name)) {
+      errors.push({
+        field: `${field}.name`,
+        message: `Role name must match ${PROFILE_NAME_PATTERN} (got: "${role.name}")`,
+        code: ValidationErrorCodes.INVALID_VALUE,
+      });
+    } else if (seen.has(role.name)) {
+      errors.push({
+        field: `${field}.name`,
+        message: `Duplicate role name "${role.name}"`,
+        code: ValidationErrorCodes.INVALID_VALUE,
+      });
+    }
+    seen.add(role.name);
+
+    const overlap = (role.allowedOperations ?? []).filter(
+      (op: OperationType) => role.deniedOperations?.includes(op)
+    );
+    if (overlap.length > 0) {
+      errors.push({
+        field: `${field}.deniedOperations`,
+        message: `Operations cannot be both allowed and denied: ${overlap.join(', ')}`,
+        code: ValidationErrorCodes.INVALID_VALUE,
+      });
+    }
+
+    // Validate the effective login of the role, reported under the role's field path
+    for (const error of validateLoginConfig(resolveRoleLogin(login, role))) {
+      errors.push({ ...error, field: `${field}.${error.field}` });
+    }
+  });
+
+  return errors;
+}
+
 // ============================================================================
 // Complete Profile Validation
 // ============================================================================
@@ -483,6 +682,9 @@ export function validateTargetProfile(profile: CreateTargetProfileInput): Valida
   // Validate antd quirks config (optional)
   errors.push(...validateAntdQuirksConfig(profile.antdQuirks));
 
+  // Validate roles (optional)
+  errors.push(...validateRoles(profile.roles, profile.login));
+
   return {
     valid: errors.length === 0,
     errors,
@@ -0,0 +1,174 @@
+/**
+ * Test Case Editor Tests
+ * @see Requirements 4.1, 4.7, 6.2
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { normalizeTestCase } from '@smart-test-agent/playwright-runner';
+import {
+  loadEditableTestCases,
+  saveEditableTestCases,
+  validateEditableTestCases,
+  nextTestCaseId,
+  summarizeTestCaseEdit,
+  toEditableTestCase,
+  toRawTestCase,
+  type EditableTestCase,
+} from './index.js';
+
+const rawCase = (caseId: string, requirementId: string) => ({
+  case_id: caseId,
+  requirement_id: requirementId,
+  route: '/users',
+  title: `用例 ${caseId}`,
+  precondition: '已登录',
+  tags: ['smoke'],
+  steps: [
+    { step_id: 'S1', action: 'click', target: '#add', description: '打开新增弹窗' },
+    { step_id: 'S2', action: 'fill', target: '#name', value: 'Alice' },
+  ],
+  assertions: [
+    { assertion_id: 'A-001', type: 'element_visible', target: '.ant-modal', expected: 'true', description: '弹窗可见' },
+  ],
+});
+
+/** The example case of prompts/prd-parse.md, as the agent writes it */
+const promptCase = {
+  case_id: 'TC-001',
+  requirement_id: 'REQ-001',
+  route: '/users',
+  title: '验证用户列表显示正确的列',
+  precondition: '用户已登录且有用户管理权限',
+  steps: [
+    { step_id: 'S1', action: 'navigate', target: '/users', description: '导航到用户管理页面' },
+    { step_id: 'S2', action: 'wait', target: '.ant-table', description: '等待表格加载完成' },
+  ],
+  assertions: [
+    { assertion_id: 'AST-001', type: 'element_visible', target: "th:has-text('用户名')", expected: 'visible', description: '验证用户名列存在' },
+    { assertion_id: 'AST-002', type: 'element_visible', target: "th:has-text('邮箱')", expected: 'visible', description: '验证邮箱列存在' },
+  ],
+  tags: ['smoke', 'query'],
+};
+
+describe('Test Case Editor', () => {
+  let outputsDir: string;
+
+  beforeEach(async () => {
+    outputsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'test-case-editor-'));
+    await fs.mkdir(path.join(outputsDir, 'test-cases'));
+    await fs.writeFile(
+      path.join(outputsDir, 'test-cases', 'REQ-001.json'),
+      JSON.stringify({ requirement_id: 'REQ-001', test_cases: [rawCase('TC-001', 'REQ-001'), rawCase('TC-002', 'REQ-001')] })
+    );
+    await fs.writeFile(
+      path.join(outputsDir, 'test-cases', 'REQ-002.json'),
+      JSON.stringify({ requirement_id: 'REQ-002', test_cases: [rawCase('TC-003', 'REQ-002')] })
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(outputsDir, { recursive: true, force: true });
+  });
+
+  it('should load stored test cases in the TestCase shape', async () => {
+    const testCases = await loadEditableTestCases(outputsDir);
+
+    expect(testCases.map((tc) => tc.caseId)).toEqual(['TC-001', 'TC-002', 'TC-003']);
+    expect(testCases[0].steps[1]).toMatchObject({ stepNumber: 2, action: 'fill', selector: '#name', inputValue: 'Alice' });
+    expect(testCases[0].assertions[0]).toEqual({
+      assertionId: 'A-001',
+      type: 'element_visible',
+      description: '弹窗可见',
+      expected: '.ant-modal',
+    });
+    expect(validateEditableTestCases('run-1', testCases).valid).toBe(true);
+  });
+
+  it('should accept cases in the format the PRD parse prompt asks for', () => {
+    const editable = toEditableTestCase(promptCase);
+
+    expect(editable.assertions.map((assertion) => assertion.assertionId)).toEqual(['AST-001', 'AST-002']);
+    expect(validateEditableTestCases('run-1', [editable])).toEqual({ valid: true, errors: [] });
+  });
+
+  it('should round-trip through the raw format without changing the normalized case', () => {
+    const editable = toEditableTestCase(rawCase('TC-001', 'REQ-001'));
+    const raw = toRawTestCase(editable, rawCase('TC-001', 'REQ-001'));
+
+    expect(toEditableTestCase(raw)).toEqual(editable);
+    expect(raw.tags).toEqual(['smoke']);
+    expect(normalizeTestCase(raw, 'run-1').assertions[0].expected).toBe('.ant-modal');
+  });
+
+  it('should keep visual and API assertion options', () => {
+    const editable: EditableTestCase = {
+      ...toEditableTestCase(rawCase('TC-001', 'REQ-001')),
+      assertions: [
+        { assertionId: 'A-001', type: 'visual', description: '列表截图', expected: '.ant-table', visual: { threshold: 0.01, maskSelectors: ['.time'] } },
+        { assertionId: 'A-002', type: 'api_response', description: '列表接口', expected: '/api/users', api: { method: 'GET', status: 200, jsonPath: '$.total', jsonValue: 3 } },
+      ],
+    };
+
+    expect(toEditableTestCase(toRawTestCase(editable)).assertions).toEqual(editable.assertions);
+  });
+
+  it('should reject edits that violate the schema or duplicate case IDs', async () => {
+    const [first, second] = await loadEditableTestCases(outputsDir);
+
+    const noSteps = validateEditableTestCases('run-1', [{ ...first, steps: [] }]);
+    expect(noSteps.valid).toBe(false);
+    expect(noSteps.errors[0].path).toBe('/testCases/0/steps');
+
+    const badRoute = validateEditableTestCases('run-1', [{ ...first, route: 'users' }]);
+    expect(badRoute.valid).toBe(false);
+
+    const duplicate = validateEditableTestCases('run-1', [first, { ...second, caseId: first.caseId }]);
+    expect(duplicate.valid).toBe(false);
+    expect(duplicate.errors[0].keyword).toBe('uniqueCaseId');
+  });
+
+  it('should write edits back to the requirement files and test-cases.json', async () => {
+    const testCases = await loadEditableTestCases(outputsDir);
+    const edited = testCases
+      .filter((tc) => tc.caseId !== 'TC-002')
+      .map((tc) => (tc.caseId === 'TC-001' ? { ...tc, steps: [...tc.steps].reverse(), title: '新增用户' } : tc));
+    // 移到 REQ-002 后，REQ-001 文件保留为空列表
+    edited[0] = { ...edited[0], requirementId: 'REQ-002' };
+
+    await saveEditableTestCases(outputsDir, edited);
+
+    const req1 = JSON.parse(await fs.readFile(path.join(outputsDir, 'test-cases', 'REQ-001.json'), 'utf-8'));
+    const req2 = JSON.parse(await fs.readFile(path.join(outputsDir, 'test-cases', 'REQ-002.json'), 'utf-8'));
+    const merged = JSON.parse(await fs.readFile(path.join(outputsDir, 'test-cases.json'), 'utf-8'));
+
+    expect(req1).toEqual({ requirement_id: 'REQ-001', test_cases: [] });
+    expect(req2.test_cases.map((tc: { case_id: string }) => tc.case_id)).toEqual(['TC-001', 'TC-003']);
+    expect(req2.test_cases[0].title).toBe('新增用户');
+    expect(req2.test_cases[0].steps.map((step: { step_id: string; action: string }) => [step.step_id, step.action]))
+      .toEqual([['S1', 'fill'], ['S2', 'click']]);
+    expect(req2.test_cases[0].tags).toEqual(['smoke']);
+    expect(merged).toHaveLength(2);
+
+    const reloaded = await loadEditableTestCases(outputsDir);
+    expect(reloaded.map((tc) => tc.caseId)).toEqual(['TC-001', 'TC-003']);
+  });
+
+  it('should allocate case IDs and summarize edits', async () => {
+    const testCases = await loadEditableTestCases(outputsDir);
+    expect(nextTestCaseId(testCases)).toBe('TC-004');
+    expect(nextTestCaseId([])).toBe('TC-001');
+
+    const edited = { ...testCases[0], title: '改名', steps: testCases[0].steps.slice(0, 1) };
+    expect(summarizeTestCaseEdit(testCases[0], edited)).toEqual({
+      caseId: 'TC-001',
+      requirementId: 'REQ-001',
+      changedFields: ['title', 'steps'],
+      steps: { before: 2, after: 1 },
+      assertions: { before: 1, after: 1 },
+    });
+    expect(summarizeTestCaseEdit(undefined, edited).steps).toEqual({ before: 0, after: 1 });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Test Case Editor Module
+ * Lets reviewers edit generated test cases at the approval stage.
+ * Edits use the shared TestCase shape and are validated against test-cases.schema.json;
+ * they are written back in the agent's snake_case format (outputs/test-cases/REQ-*.json and
+ * the merged outputs/test-cases.json) so every downstream reader keeps working.
+ * @see Requirements 4.1, 4.7, 6.2
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  validateTestCases,
+  type Assertion,
+  type TestCase,
+  type ValidationResult,
+} from '@smart-test-agent/shared';
+import { extractRawTestCases, normalizeTestCase } from '@smart-test-agent/playwright-runner';
+import type { RawTestCase } from '../prd-diff/index.js';
+
+/**
+ * Assertion fields a reviewer can edit (the AssertionDef of test-cases.schema.json)
+ */
+export type EditableAssertion = Pick<Assertion, 'assertionId' | 'type' | 'description' | 'expected' | 'visual' | 'api'>;
+
+/**
+ * Test case fields a reviewer can edit (the TestCase of test-cases.schema.json)
+ */
+export interface EditableTestCase extends Omit<TestCase, 'id' | 'runId' | 'status' | 'assertions'> {
+  assertions: EditableAssertion[];
+}
+
+/**
+ * Summary of one edit, recorded in the decision log
+ */
+export interface TestCaseEditSummary {
+  caseId: string;
+  requirementId: string;
+  /** Top-level fields that differ between the old and new version */
+  changedFields: string[];
+  steps: { before: number; after: number };
+  assertions: { before: number; after: number };
+}
+
+/** Fields written by toRawTestCase; stale variants are dropped from the stored case */
+const OWNED_RAW_FIELDS = [
+  'case_id', 'caseId', 'requirement_id', 'requirementId', 'route', 'role', 'title', 'precondition',
+  'steps', 'assertions', 'data_preparation', 'dataPreparation', 'data_cleanup', 'dataCleanup',
+];
+
+const EDITABLE_FIELDS: Array<keyof EditableTestCase> = [
+  'requirementId', 'route', 'role', 'title', 'precondition', 'steps', 'assertions', 'dataPreparation', 'dataCleanup',
+];
+
+const REQ_FILE_PATTERN = /^REQ-.*\.json$/;
+
+const getRawField = (raw: RawTestCase, snake: string, camel: string) =>
+  (raw[snake] ?? raw[camel]) as string | undefined;
+
+/**
+ * Convert a stored test case to the editable shape
+ */
+export function toEditableTestCase(raw: RawTestCase, index = 0): EditableTestCase {
+  const { id: _id, runId: _runId, status: _status, assertions, ...testCase } = normalizeTestCase(raw, '', index);
+  return {
+    ...testCase,
+    assertions: assertions.map(({ assertionId, type, description, expected, visual, api }) => ({
+      assertionId,
+      type,
+      description,
+      expected,
+      ...(visual && { visual }),
+      ...(api && { api }),
+    })),
+  };
+}
+
+/**
+ * Convert an edited test case to the agent's snake_case format
+ * Fields of the stored case that the editor does not know about (tags, priority...) are kept.
+ * Assertions are written without `target`, so the normalizer reads `expected` unchanged.
+ */
+export function toRawTestCase(testCase: EditableTestCase, existing: RawTestCase = {}): RawTestCase {
+  const raw: RawTestCase = Object.fromEntries(
+    Object.entries(existing).filter(([key]) => !OWNED_RAW_FIELDS.includes(key))
+  );
+
+  return {
+    case_id: testCase.caseId,
+    requirement_id: testCase.requirementId,
+    route: testCase.route,
+    ...(testCase.role && { role: testCase.role }),
+    title: testCase.title,
+    precondition: testCase.precondition,
+    steps: testCase.steps.map((step, index) => ({
+      step_id: `S${index + 1}`,
+      action: step.action,
+      ...(step.selector && { target: step.selector }),
+      ...(step.inputValue !== undefined && step.inputValue !== '' && { value: step.inputValue }),
+      ...(step.expectedResult && { description: step.expectedResult }),
+      ...(step.screenshot !== undefined && { screenshot: step.screenshot }),
+    })),
+    assertions: testCase.assertions.map((assertion) => ({
+      assertion_id: assertion.assertionId,
+      type: assertion.type,
+      expected: assertion.expected,
+      description: assertion.description,
+      ...(assertion.visual?.threshold !== undefined && { threshold: assertion.visual.threshold }),
+      ...(assertion.visual?.pixelThreshold !== undefined && { pixel_threshold: assertion.visual.pixelThreshold }),
+      ...(assertion.visual?.maskSelectors && { mask_selectors: assertion.visual.maskSelectors }),
+      ...(assertion.api?.method && { method: assertion.api.method }),
+      ...(assertion.api?.status !== undefined && { status: assertion.api.status }),
+      ...(assertion.api?.maxLatencyMs !== undefined && { max_latency_ms: assertion.api.maxLatencyMs }),
+      ...(assertion.api?.jsonPath && { json_path: assertion.api.jsonPath }),
+      ...(assertion.api?.jsonValue !== undefined && { json_value: assertion.api.jsonValue }),
+    })),
+    ...(testCase.dataPreparation?.length ? { data_preparation: testCase.dataPreparation } : {}),
+    ...(testCase.dataCleanup?.length ? { data_cleanup: testCase.dataCleanup } : {}),
+    ...raw,
+  };
+}
+
+/**
+ * Validate edited test cases against test-cases.schema.json
+ * Also rejects duplicate case IDs, which the schema cannot express.
+ */
+export function validateEditableTestCases(runId: string, testCases: EditableTestCase[]): ValidationResult {
+  const result = validateTestCases({ runId, testCases });
+  const seen = new Set<string>();
+  testCases.forEach((testCase, index) => {
+    if (seen.has(testCase.caseId)) {
+      result.valid = false;
+      result.errors.push({
+        path: `/testCases/${index}/caseId`,
+        message: `duplicate case ID ${testCase.caseId}`,
+        keyword: 'uniqueCaseId',
+        params: { caseId: testCase.caseId },
+      });
+    }
+    seen.add(testCase.caseId);
+  });
+  return result;
+}
+
+/**
+ * Next free case ID (TC-NNN above the highest existing number)
+ */
+export function nextTestCaseId(testCases: Array<Pick<EditableTestCase, 'caseId'>>): string {
+  const max = testCases.reduce((highest, testCase) => {
+    const match = /^TC-(\d+)$/.exec(testCase.caseId);
+    return match ? Math.max(highest, Number(match[1])) : highest;
+  }, 0);
+  return `TC-${String(max + 1).padStart(3, '0')}`;
+}
+
+/**
+ * Describe what an edit changed, for the decision log audit trail
+ * @param before - Previous version (undefined when the case was added)
+ * @param after - New version (undefined when the case was removed)
+ */
+export function summarizeTestCaseEdit(before?: EditableTestCase, after?: EditableTestCase): TestCaseEditSummary {
+  const testCase = (after ?? before)!;
+  const changedFields = before && after
+    ? EDITABLE_FIELDS.filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    : [];
+  return {
+    caseId: testCase.caseId,
+    requirementId: testCase.requirementId,
+    changedFields,
+    steps: { before: before?.steps.length ?? 0, after: after?.steps.length ?? 0 },
+    assertions: { before: before?.assertions.length ?? 0, after: after?.assertions.length ?? 0 },
+  };
+}
+
+/**
+ * Read the stored test cases of a run in file order
+ * Per-requirement files are preferred; outputs/test-cases.json is the fallback.
+ * @throws Error (ENOENT) when the run has no test cases
+ */
+export async function readRawTestCases(outputsDir: string): Promise<RawTestCase[]> {
+  const testCasesDir = path.join(outputsDir, 'test-cases');
+  let reqFiles: string[] = [];
+  try {
+    reqFiles = (await fs.readdir(testCasesDir)).filter((file) => REQ_FILE_PATTERN.test(file)).sort();
+  } catch { /* directory doesn't exist */ }
+
+  if (reqFiles.length === 0) {
+    const content = await fs.readFile(path.join(outputsDir, 'test-cases.json'), 'utf-8');
+    return extractRawTestCases(JSON.parse(content)) as RawTestCase[];
+  }
+
+  const testCases: RawTestCase[] = [];
+  for (const file of reqFiles) {
+    const content = await fs.readFile(path.join(testCasesDir, file), 'utf-8');
+    testCases.push(...(extractRawTestCases(JSON.parse(content)) as RawTestCase[]));
+  }
+  return testCases;
+}
+
+/**
+ * Load the test cases of a run in the editable shape
+ */
+export async function loadEditableTestCases(outputsDir: string): Promise<EditableTestCase[]> {
+  const raw = await readRawTestCases(outputsDir);
+  return raw.map((testCase, index) => toEditableTestCase(testCase, index));
+}
+
+/**
+ * Persist edited test cases
+ * Each REQ-*.json file is rewritten with the cases of its requirement (files of requirements
+ * without cases are kept with an empty list), and test-cases.json is regenerated from them.
+ * Callers should validate with validateEditableTestCases first.
+ */
+export async function saveEditableTestCases(outputsDir: string, testCases: EditableTestCase[]): Promise<void> {
+  const testCasesDir = path.join(outputsDir, 'test-cases');
+  let existing: RawTestCase[] = [];
+  try {
+    existing = await readRawTestCases(outputsDir);
+  } catch { /* first write */ }
+
+  const existingById = new Map(existing.map((raw) => [getRawField(raw, 'case_id', 'caseId'), raw]));
+  const rawCases = testCases.map((testCase) => toRawTestCase(testCase, existingById.get(testCase.caseId)));
+
+  const requirementIds = new Set(rawCases.map((raw) => String(raw.requirement_id)));
+  await fs.mkdir(testCasesDir, { recursive: true });
+  for (const file of (await fs.readdir(testCasesDir)).filter((name) => REQ_FILE_PATTERN.test(name))) {
+    requirementIds.add(path.basename(file, '.json'));
+  }
+
+  for (const requirementId of requirementIds) {
+    const filePath = path.join(testCasesDir, `${requirementId}.json`);
+    let header: Record<string, unknown> = {};
+    try {
+      const parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        const { test_cases: _testCases, testCases: _camel, ...rest } = parsed as Record<string, unknown>;
+        header = rest;
+      }
+    } catch { /* new requirement file */ }
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify(
+        {
+          requirement_id: requirementId,
+          ...header,
+          test_cases: rawCases.filter((raw) => raw.requirement_id === requirementId),
+        },
+        null,
+        2
+      )
+    );
+  }
+
+  await fs.writeFile(path.join(outputsDir, 'test-cases.json'), JSON.stringify(rawCases, null, 2));
+
+  // 索引文件只更新总数，文件列表由 REQ 文件决定
+  const indexPath = path.join(outputsDir, 'test-cases-index.json');
+  try {
+    const index = JSON.parse(await fs.readFile(indexPath, 'utf-8')) as Record<string, unknown>;
+    await fs.writeFile(
+      indexPath,
+      JSON.stringify(
+        {
+          ...index,
+          total_test_cases: rawCases.length,
+          files: [...requirementIds].sort().map((id) => `${id}.json`),
+        },
+        null,
+        2
+      )
+    );
+  } catch { /* no index */ }
+}
@@ -23,6 +23,7 @@ export {
   addDecisionLogEntry,
   updateArtifactChecksums,
   addDegradationDecision,
+  addRetryRecord,
   updateQualityMetrics,
   updateEnvFingerprint,
   validateManifest,
@@ -15,6 +15,7 @@ import {
   addDecisionLogEntry,
   updateArtifactChecksums,
   addDegradationDecision,
+  addRetryRecord,
   updateQualityMetrics,
   updateEnvFingerprint,
   validateManifest,
@@ -251,6 +252,32 @@ describe('Manifest Manager', () => {
     });
   });
 
+  describe('addRetryRecord', () => {
+    it('should append retry records to manifests without retries', () => {
+      const manifest = createManifest(
+        'run-001',
+        'project-001',
+        defaultAgentVersions,
+        defaultPromptVersions
+      );
+      expect(manifest.retries).toBeUndefined();
+
+      const record = {
+        step: 'prd_parsing',
+        attempt: 2,
+        maxAttempts: 3,
+        category: 'ai_agent' as const,
+        error: 'Claude Code exited with code 1',
+        delayMs: 4000,
+      };
+      const updated = addRetryRecord(addRetryRecord(manifest, record), { ...record, attempt: 3 });
+
+      expect(updated.retries?.map((r) => r.attempt)).toEqual([2, 3]);
+      expect(updated.retries?.[0].timestamp).toBeDefined();
+      expect(validateManifest(updated)).toBe(true);
+    });
+  });
+
   describe('updateQualityMetrics', () => {
     it('should update quality metrics', () => {
       const manifest = createManifest(
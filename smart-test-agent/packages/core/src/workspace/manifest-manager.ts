@@ -15,6 +15,7 @@ import type {
   ArtifactChecksums,
   QualityMetrics,
   DegradationDecision,
+  RetryRecord,
 } from '@smart-test-agent/shared';
 
 /**
@@ -44,6 +45,8 @@ export interface Manifest {
   qualityMetrics?: QualityMetrics;
   /** Degradation decisions */
   degradationDecisions: DegradationDecision[];
+  /** Retries of failed pipeline steps (absent in manifests written before retries were recorded) */
+  retries?: RetryRecord[];
   /** Creation timestamp */
   createdAt: string;
   /** Last update timestamp */
@@ -186,6 +189,26 @@ export function addDegradationDecision(
   };
 }
 
+/**
+ * Add retry record
+ * @see Requirements 7.7, 13.2
+ */
+export function addRetryRecord(
+  manifest: Manifest,
+  record: Omit<RetryRecord, 'timestamp'>
+): Manifest {
+  const newRecord: RetryRecord = {
+    ...record,
+    timestamp: new Date().toISOString(),
+  };
+
+  return {
+    ...manifest,
+    retries: [...(manifest.retries ?? []), newRecord],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
 /**
  * Update quality metrics
  */
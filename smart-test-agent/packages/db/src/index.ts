@@ -29,7 +29,11 @@ export { PrismaClient } from '@prisma/client';
 export type {
   Project,
   TargetProfile,
+  Environment,
   TestRun,
+  PipelineJob,
+  CaseApproval,
+  Schedule,
   Requirement,
   TestCase,
   Assertion,
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for Accessibility Audit
+ * @see Requirements 10.1, 10.3, 11.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateA11yRules,
+  buildA11yAuditResult,
+  contrastRatio,
+  type A11yElementSnapshot,
+  type A11yPageSnapshot,
+  type A11yTextSnapshot,
+} from './a11y-audit.js';
+
+function element(overrides: Partial<A11yElementSnapshot>): A11yElementSnapshot {
+  return {
+    selector: overrides.tag ?? 'div',
+    html: `<${overrides.tag ?? 'div'}>`,
+    tag: 'div',
+    role: null,
+    type: null,
+    attributes: {},
+    name: '',
+    hidden: false,
+    ...overrides,
+  };
+}
+
+function text(overrides: Partial<A11yTextSnapshot>): A11yTextSnapshot {
+  return {
+    selector: 'p',
+    html: '<p>Text</p>',
+    text: 'Text',
+    color: [0, 0, 0, 1],
+    background: [255, 255, 255, 1],
+    fontSize: 14,
+    fontWeight: 400,
+    ...overrides,
+  };
+}
+
+function page(overrides: Partial<A11yPageSnapshot> = {}): A11yPageSnapshot {
+  return {
+    route: '/users',
+    url: 'https://example.com/users',
+    title: 'Users',
+    lang: 'zh-CN',
+    elements: [],
+    texts: [],
+    duplicateIds: [],
+    ...overrides,
+  };
+}
+
+describe('Accessibility Audit', () => {
+  describe('evaluateA11yRules', () => {
+    it('should pass a clean page and skip rules without matching elements', () => {
+      const result = evaluateA11yRules(page({
+        elements: [element({ tag: 'button', name: 'Save' })],
+        texts: [text({})],
+      }));
+
+      expect(result.violations).toEqual([]);
+      expect(result.passedRules).toEqual(['button-name', 'html-has-lang', 'document-title', 'duplicate-id', 'color-contrast']);
+    });
+
+    it('should report unnamed images, buttons, links and form fields', () => {
+      const result = evaluateA11yRules(page({
+        elements: [
+          element({ tag: 'img', selector: 'img.logo' }),
+          element({ tag: 'img', attributes: { alt: '' } }),
+          element({ tag: 'button', selector: 'button.icon' }),
+          element({ tag: 'a', selector: 'a.more' }),
+          element({ tag: 'input', type: 'text', selector: '#search' }),
+          element({ tag: 'input', type: 'hidden' }),
+          element({ tag: 'select', name: 'Status' }),
+        ],
+      }));
+
+      expect(result.violations.map((v) => [v.ruleId, v.nodes.map((n) => n.selector)])).toEqual([
+        ['image-alt', ['img.logo']],
+        ['button-name', ['button.icon']],
+        ['link-name', ['a.more']],
+        ['label', ['#search']],
+      ]);
+      expect(result.violations[0].wcag).toEqual(['1.1.1']);
+      expect(result.violations[0].impact).toBe('critical');
+    });
+
+    it('should ignore hidden and presentational elements', () => {
+      const result = evaluateA11yRules(page({
+        elements: [
+          element({ tag: 'img', hidden: true }),
+          element({ tag: 'img', role: 'presentation' }),
+        ],
+      }));
+
+      expect(result.violations).toEqual([]);
+      expect(result.passedRules).not.toContain('image-alt');
+    });
+
+    it('should report page-level violations', () => {
+      const result = evaluateA11yRules(page({ lang: '', title: ' ', duplicateIds: ['main'] }));
+
+      expect(result.violations.map((v) => v.ruleId)).toEqual(['html-has-lang', 'document-title', 'duplicate-id']);
+      expect(result.violations[2].nodes[0].selector).toBe('[id="main"]');
+    });
+
+    it('should report insufficient color contrast with the large text allowance', () => {
+      const grey: [number, number, number, number] = [130, 130, 130, 1];
+      const result = evaluateA11yRules(page({
+        texts: [
+          text({ selector: '.hint', color: grey }),
+          text({ selector: '.title', color: grey, fontSize: 24 }),
+          text({ selector: '.banner', color: grey, background: null }),
+        ],
+      }));
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].ruleId).toBe('color-contrast');
+      expect(result.violations[0].nodes.map((n) => n.selector)).toEqual(['.hint']);
+      expect(result.violations[0].nodes[0].failureSummary).toContain('below 4.5:1');
+    });
+
+    it('should keep the error of pages that could not be audited', () => {
+      const result = evaluateA11yRules(page({ error: 'net::ERR_CONNECTION_REFUSED' }));
+
+      expect(result.error).toBe('net::ERR_CONNECTION_REFUSED');
+      expect(result.passedRules).toEqual([]);
+    });
+  });
+
+  describe('contrastRatio', () => {
+    it('should compute WCAG contrast ratios', () => {
+      expect(contrastRatio([0, 0, 0, 1], [255, 255, 255, 1])).toBeCloseTo(21, 5);
+      expect(contrastRatio([255, 255, 255, 1], [255, 255, 255, 1])).toBeCloseTo(1, 5);
+      // Translucent black over white is blended first
+      expect(contrastRatio([0, 0, 0, 0.5], [255, 255, 255, 1])).toBeLessThan(5);
+    });
+  });
+
+  describe('buildA11yAuditResult', () => {
+    it('should evaluate every snapshot page', () => {
+      const result = buildA11yAuditResult({
+        runId: 'run-1',
+        startTime: '2024-01-01T00:00:00.000Z',
+        endTime: '2024-01-01T00:00:05.000Z',
+        pages: [page(), page({ route: '/orders', lang: '' })],
+      });
+
+      expect(result.runId).toBe('run-1');
+      expect(result.routes.map((r) => [r.route, r.violations.length])).toEqual([['/users', 0], ['/orders', 1]]);
+    });
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * Accessibility Audit
+ * A locally bundled, axe-core style rules engine. The generated audit script collects a
+ * snapshot of each page (elements, accessible names, text colors) in the browser, and the
+ * rules below evaluate the snapshots into WCAG violations.
+ * @see Requirements 10.1, 10.3, 11.1
+ */
+
+import type {
+  A11yAuditResult,
+  A11yImpact,
+  A11yRouteResult,
+  A11yViolation,
+  A11yViolationNode,
+} from '@smart-test-agent/shared';
+
+/** Snapshots written by the audit script to its output directory */
+export const A11Y_SNAPSHOT_FILENAME = 'a11y-snapshots.json';
+
+/** RGBA color, alpha in 0-1 */
+export type Rgba = [number, number, number, number];
+
+/**
+ * Element relevant to the naming rules
+ */
+export interface A11yElementSnapshot {
+  selector: string;
+  html: string;
+  tag: string;
+  role: string | null;
+  /** Input type, null for other elements */
+  type: string | null;
+  attributes: Record<string, string>;
+  /** Computed accessible name (empty when missing) */
+  name: string;
+  /** Hidden from assistive technology (display/visibility/aria-hidden) */
+  hidden: boolean;
+}
+
+/**
+ * Element with its own visible text, for the contrast rule
+ */
+export interface A11yTextSnapshot {
+  selector: string;
+  html: string;
+  text: string;
+  color: Rgba | null;
+  /** Effective background, null when it cannot be determined (background images) */
+  background: Rgba | null;
+  fontSize: number;
+  fontWeight: number;
+}
+
+/**
+ * Snapshot of one audited page
+ */
+export interface A11yPageSnapshot {
+  route: string;
+  url: string;
+  title: string;
+  lang: string;
+  elements: A11yElementSnapshot[];
+  texts: A11yTextSnapshot[];
+  duplicateIds: string[];
+  /** Error if the page could not be loaded */
+  error?: string;
+}
+
+/**
+ * Snapshot file written by the audit script
+ */
+export interface A11ySnapshotFile {
+  runId: string;
+  startTime: string;
+  endTime: string;
+  pages: A11yPageSnapshot[];
+}
+
+/**
+ * Accessibility rule
+ */
+export interface A11yRule {
+  /** Rule ID, following axe-core naming */
+  id: string;
+  wcag: string[];
+  impact: A11yImpact;
+  help: string;
+  /**
+   * Evaluate the rule on a page
+   * @returns Number of checked nodes (0 = rule not applicable) and the failing nodes
+   */
+  evaluate(page: A11yPageSnapshot): { checked: number; failures: A11yViolationNode[] };
+}
+
+/**
+ * Browser-side snapshot collector embedded in audit scripts
+ * Evaluated in the page as an expression; returns everything but the route.
+ */
+export const A11Y_COLLECTOR_SOURCE = `function collectA11ySnapshot() {
+  const MAX_TEXTS = 500;
+  const truncate = (value, max) => (value.length > max ? value.slice(0, max) + '…' : value);
+  const textOf = (el) => (el.textContent || '').replace(/\\s+/g, ' ').trim();
+  const isHidden = (el) => {
+    for (let node = el; node && node.nodeType === 1; node = node.parentElement) {
+      if (node.hidden || node.getAttribute('aria-hidden') === 'true') return true;
+      const style = getComputedStyle(node);
+      if (style.display === 'none' || style.visibility === 'hidden') return true;
+    }
+    return false;
+  };
+  const uniqueId = (el) => el.id && document.querySelectorAll('#' + CSS.escape(el.id)).length === 1;
+  const cssPath = (el) => {
+    const parts = [];
+    for (let node = el; node && node.nodeType === 1; node = node.parentElement) {
+      if (uniqueId(node)) {
+        parts.unshift('#' + CSS.escape(node.id));
+        break;
+      }
+      let part = node.tagName.toLowerCase();
+      const parent = node.parentElement;
+      if (parent) {
+        const siblings = Array.from(parent.children).filter((child) => child.tagName === node.tagName);
+        if (siblings.length > 1) part += ':nth-of-type(' + (siblings.indexOf(node) + 1) + ')';
+      }
+      parts.unshift(part);
+    }
+    return parts.join(' > ');
+  };
+  const accessibleName = (el) => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\\s+/)
+        .map((id) => document.getElementById(id))
+        .filter(Boolean)
+        .map(textOf)
+        .join(' ')
+        .trim();
+      if (text) return text;
+    }
+    const ariaLabel = (el.getAttribute('aria-label') || '').trim();
+    if (ariaLabel) return ariaLabel;
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'img') {
+      const alt = (el.getAttribute('alt') || '').trim();
+      if (alt) return alt;
+    } else if (tag === 'input' || tag === 'select' || tag === 'textarea') {
+      const labels = el.labels ? Array.from(el.labels).map(textOf).join(' ').trim() : '';
+      if (labels) return labels;
+      if (tag === 'input' && (el.type === 'button' || el.type === 'submit' || el.type === 'reset')) {
+        const value = (el.value || '').trim();
+        if (value || el.type !== 'button') return value || el.type;
+      }
+      const placeholder = (el.getAttribute('placeholder') || '').trim();
+      if (placeholder) return placeholder;
+    } else if (tag !== 'iframe' && tag !== 'frame') {
+      const text = textOf(el) || Array.from(el.querySelectorAll('img[alt]'))
+        .map((img) => img.getAttribute('alt').trim())
+        .join(' ')
+        .trim();
+      if (text) return text;
+    }
+    return (el.getAttribute('title') || '').trim();
+  };
+  const parseColor = (value) => {
+    const match = /rgba?\\(([^)]+)\\)/.exec(value || '');
+    if (!match) return null;
+    const parts = match[1].split(/[\\s,\\/]+/).filter(Boolean).map(Number);
+    return [parts[0], parts[1], parts[2], parts.length > 3 ? parts[3] : 1];
+  };
+  const backgroundOf = (el) => {
+    for (let node = el; node && node.nodeType === 1; node = node.parentElement) {
+      const style = getComputedStyle(node);
+      if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+      const color = parseColor(style.backgroundColor);
+      if (color && color[3] > 0) return color;
+    }
+    return [255, 255, 255, 1];
+  };
+  const attributesOf = (el) => {
+    const attributes = {};
+    for (const attr of Array.from(el.attributes)) attributes[attr.name] = truncate(attr.value, 200);
+    return attributes;
+  };
+
+  const elements = Array.from(document.querySelectorAll(
+    'img, [role="img"], button, [role="button"], a[href], input, select, textarea, iframe, frame'
+  )).map((el) => ({
+    selector: cssPath(el),
+    html: truncate(el.outerHTML, 200),
+    tag: el.tagName.toLowerCase(),
+    role: el.getAttribute('role'),
+    type: el.tagName === 'INPUT' ? (el.getAttribute('type') || 'text').toLowerCase() : null,
+    attributes: attributesOf(el),
+    name: accessibleName(el),
+    hidden: isHidden(el),
+  }));
+
+  const texts = [];
+  for (const el of Array.from(document.body ? document.body.querySelectorAll('*') : [])) {
+    if (texts.length >= MAX_TEXTS) break;
+    if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE'].includes(el.tagName)) continue;
+    const ownText = Array.from(el.childNodes)
+      .filter((node) => node.nodeType === 3)
+      .map((node) => node.textContent)
+      .join('')
+      .replace(/\\s+/g, ' ')
+      .trim();
+    if (!ownText || isHidden(el)) continue;
+    const style = getComputedStyle(el);
+    texts.push({
+      selector: cssPath(el),
+      html: truncate(el.outerHTML, 200),
+      text: truncate(ownText, 80),
+      color: parseColor(style.color),
+      background: backgroundOf(el),
+      fontSize: parseFloat(style.fontSize) || 16,
+      fontWeight: Number(style.fontWeight) || 400,
+    });
+  }
+
+  const idCounts = {};
+  for (const el of Array.from(document.querySelectorAll('[id]'))) {
+    idCounts[el.id] = (idCounts[el.id] || 0) + 1;
+  }
+
+  return {
+    url: location.href,
+    title: document.title || '',
+    lang: document.documentElement.getAttribute('lang') || '',
+    elements,
+    texts,
+    duplicateIds: Object.keys(idCounts).filter((id) => idCounts[id] > 1),
+  };
+}`;
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+const PRESENTATIONAL_ROLES = ['presentation', 'none'];
+const NON_LABELLED_INPUT_TYPES = ['hidden', 'button', 'submit', 'reset', 'image'];
+
+function failure(node: { selector: string; html: string }, failureSummary: string): A11yViolationNode {
+  return { selector: node.selector, html: node.html, failureSummary };
+}
+
+/**
+ * Check visible, non-presentational elements that need an accessible name
+ */
+function nameRule(
+  matches: (el: A11yElementSnapshot) => boolean,
+  isNamed: (el: A11yElementSnapshot) => boolean,
+  failureSummary: string
+): A11yRule['evaluate'] {
+  return (page) => {
+    const candidates = page.elements.filter(
+      (el) => !el.hidden && !PRESENTATIONAL_ROLES.includes(el.role ?? '') && matches(el)
+    );
+    return {
+      checked: candidates.length,
+      failures: candidates.filter((el) => !isNamed(el)).map((el) => failure(el, failureSummary)),
+    };
+  };
+}
+
+/**
+ * Relative luminance of a color
+ */
+function luminance([r, g, b]: Rgba): number {
+  const channel = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/**
+ * Contrast ratio of a (possibly translucent) foreground over a background
+ */
+export function contrastRatio(foreground: Rgba, background: Rgba): number {
+  const alpha = foreground[3];
+  const blended: Rgba = [
+    foreground[0] * alpha + background[0] * (1 - alpha),
+    foreground[1] * alpha + background[1] * (1 - alpha),
+    foreground[2] * alpha + background[2] * (1 - alpha),
+    1,
+  ];
+  const l1 = luminance(blended);
+  const l2 = luminance(background);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/**
+ * Large text (24px, or 18.66px bold) only needs a 3:1 contrast ratio
+ */
+function requiredContrast(text: A11yTextSnapshot): number {
+  const large = text.fontSize >= 24 || (text.fontSize >= 18.66 && text.fontWeight >= 700);
+  return large ? 3 : 4.5;
+}
+
+/**
+ * Bundled accessibility rules
+ */
+export const A11Y_RULES: A11yRule[] = [
+  {
+    id: 'image-alt',
+    wcag: ['1.1.1'],
+    impact: 'critical',
+    help: 'Images must have alternate text',
+    evaluate: nameRule(
+      (el) => el.tag === 'img' || el.role === 'img',
+      (el) => el.name !== '' || (el.tag === 'img' && 'alt' in el.attributes),
+      'Element has no alt attribute, aria-label, aria-labelledby or title'
+    ),
+  },
+  {
+    id: 'button-name',
+    wcag: ['4.1.2'],
+    impact: 'critical',
+    help: 'Buttons must have discernible text',
+    evaluate: nameRule(
+      (el) => el.tag === 'button' || el.role === 'button' || (el.tag === 'input' && el.type === 'button'),
+      (el) => el.name !== '',
+      'Element has no text, aria-label, aria-labelledby or title'
+    ),
+  },
+  {
+    id: 'link-name',
+    wcag: ['2.4.4', '4.1.2'],
+    impact: 'serious',
+    help: 'Links must have discernible text',
+    evaluate: nameRule(
+      (el) => el.tag === 'a' && el.role !== 'button',
+      (el) => el.name !== '',
+      'Element has no text, aria-label, aria-labelledby or title'
+    ),
+  },
+  {
+    id: 'label',
+    wcag: ['1.3.1', '4.1.2'],
+    impact: 'critical',
+    help: 'Form elements must have labels',
+    evaluate: nameRule(
+      (el) =>
+        (el.tag === 'input' && !NON_LABELLED_INPUT_TYPES.includes(el.type ?? 'text')) ||
+        el.tag === 'select' ||
+        el.tag === 'textarea',
+      (el) => el.name !== '',
+      'Form element has no label, aria-label, aria-labelledby, title or placeholder'
+    ),
+  },
+  {
+    id: 'frame-title',
+    wcag: ['4.1.2'],
+    impact: 'serious',
+    help: 'Frames must have an accessible name',
+    evaluate: nameRule(
+      (el) => el.tag === 'iframe' || el.tag === 'frame',
+      (el) => el.name !== '',
+      'Frame has no title, aria-label or aria-labelledby'
+    ),
+  },
+  {
+    id: 'html-has-lang',
+    wcag: ['3.1.1'],
+    impact: 'serious',
+    help: '<html> element must have a lang attribute',
+    evaluate: (page) => ({
+      checked: 1,
+      failures: page.lang.trim() ? [] : [failure({ selector: 'html', html: '<html>' }, 'The <html> element has no lang attribute')],
+    }),
+  },
+  {
+    id: 'document-title',
+    wcag: ['2.4.2'],
+    impact: 'serious',
+    help: 'Documents must have a <title> element',
+    evaluate: (page) => ({
+      checked: 1,
+      failures: page.title.trim() ? [] : [failure({ selector: 'title', html: '<title></title>' }, 'Document has no non-empty <title>')],
+    }),
+  },
+  {
+    id: 'duplicate-id',
+    wcag: ['4.1.1'],
+    impact: 'minor',
+    help: 'id attribute values must be unique',
+    evaluate: (page) => ({
+      checked: 1,
+      failures: page.duplicateIds.map((id) =>
+        failure({ selector: `[id="${id}"]`, html: `id="${id}"` }, `Document has multiple elements with id "${id}"`)
+      ),
+    }),
+  },
+  {
+    id: 'color-contrast',
+    wcag: ['1.4.3'],
+    impact: 'serious',
+    help: 'Text must have sufficient color contrast against its background',
+    evaluate: (page) => {
+      const candidates = page.texts.filter((text) => text.color && text.background && text.color[3] > 0);
+      const failures: A11yViolationNode[] = [];
+      for (const text of candidates) {
+        const ratio = contrastRatio(text.color!, text.background!);
+        const required = requiredContrast(text);
+        if (ratio < required) {
+          failures.push(failure(text, `Contrast ratio ${ratio.toFixed(2)}:1 is below ${required}:1 for "${text.text}"`));
+        }
+      }
+      return { checked: candidates.length, failures };
+    },
+  },
+];
+
+/**
+ * Evaluate the bundled rules on a page snapshot
+ */
+export function evaluateA11yRules(page: A11yPageSnapshot, rules: A11yRule[] = A11Y_RULES): A11yRouteResult {
+  if (page.error) {
+    return { route: page.route, url: page.url, passedRules: [], violations: [], error: page.error };
+  }
+
+  const passedRules: string[] = [];
+  const violations: A11yViolation[] = [];
+
+  for (const rule of rules) {
+    const { checked, failures } = rule.evaluate(page);
+    if (checked === 0) {
+      continue;
+    }
+    if (failures.length === 0) {
+      passedRules.push(rule.id);
+    } else {
+      violations.push({
+        ruleId: rule.id,
+        wcag: rule.wcag,
+        impact: rule.impact,
+        help: rule.help,
+        route: page.route,
+        nodes: failures,
+      });
+    }
+  }
+
+  return { route: page.route, url: page.url, passedRules, violations };
+}
+
+/**
+ * Build the audit result from the snapshots written by the audit script
+ */
+export function buildA11yAuditResult(snapshots: A11ySnapshotFile): A11yAuditResult {
+  return {
+    runId: snapshots.runId,
+    startTime: snapshots.startTime,
+    endTime: snapshots.endTime,
+    routes: snapshots.pages.map((page) => evaluateA11yRules(page)),
+  };
+}
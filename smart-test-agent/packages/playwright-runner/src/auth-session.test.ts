@@ -0,0 +1,132 @@
+/**
+ * Unit tests for Authentication Session Code Generator
+ * @see Requirements 1.1, 1.3
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as crypto from 'crypto';
+import {
+  TOTP_HELPER_SOURCE,
+  generateAuthCode,
+  getAuthFingerprint,
+  getAuthStrategy,
+  isSessionCacheable,
+  resolveRoleLogin,
+} from './auth-session.js';
+import type { LoginConfig } from '@smart-test-agent/shared';
+
+const formLogin: LoginConfig = {
+  loginUrl: '/login',
+  usernameSelector: '#username',
+  passwordSelector: '#password',
+  submitSelector: '#submit',
+  credentials: { username: '$TEST_USERNAME', password: '$TEST_PASSWORD' },
+  successIndicator: '.dashboard',
+};
+
+function loadTotp(): (secret: string, timestamp?: number) => string {
+  return new Function('crypto', 'Buffer', `${TOTP_HELPER_SOURCE}\nreturn generateTotp;`)(crypto, Buffer);
+}
+
+describe('Auth Session', () => {
+  describe('generateTotp', () => {
+    // RFC 6238 appendix B test vectors (SHA-1, secret "12345678901234567890")
+    const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+    it('should match the RFC 6238 test vectors', () => {
+      const generateTotp = loadTotp();
+
+      expect(generateTotp(secret, 59000)).toBe('287082');
+      expect(generateTotp(secret, 1111111109000)).toBe('081804');
+      expect(generateTotp(secret, 1234567890000)).toBe('005924');
+    });
+
+    it('should ignore spacing and case in the secret', () => {
+      const generateTotp = loadTotp();
+
+      expect(generateTotp('gezd gnbv gy3t qojq gezd gnbv gy3t qojq', 59000)).toBe('287082');
+    });
+
+    it('should reject invalid base32 secrets', () => {
+      expect(() => loadTotp()('not-base32!', 59000)).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('strategy helpers', () => {
+    it('should default to the form strategy', () => {
+      expect(getAuthStrategy(formLogin)).toBe('form');
+      expect(getAuthStrategy({ ...formLogin, strategy: 'scripted' })).toBe('scripted');
+    });
+
+    it('should only cache sessions that require logging in', () => {
+      expect(isSessionCacheable(formLogin)).toBe(true);
+      expect(isSessionCacheable({ ...formLogin, strategy: 'cookies' })).toBe(true);
+      expect(isSessionCacheable({ ...formLogin, strategy: 'storage_state' })).toBe(false);
+      expect(isSessionCacheable({ ...formLogin, strategy: 'bearer_token' })).toBe(false);
+    });
+
+    it('should change the fingerprint when the login configuration changes', () => {
+      const fingerprint = getAuthFingerprint(formLogin);
+
+      expect(fingerprint).toMatch(/^[0-9a-f]{16}$/);
+      expect(getAuthFingerprint({ ...formLogin })).toBe(fingerprint);
+      expect(getAuthFingerprint({ ...formLogin, loginUrl: '/signin' })).not.toBe(fingerprint);
+    });
+  });
+
+  describe('resolveRoleLogin', () => {
+    it('should merge role credentials and login overrides', () => {
+      const login = resolveRoleLogin(formLogin, {
+        name: 'viewer',
+        credentials: { username: '$VIEWER_USERNAME', password: '$VIEWER_PASSWORD' },
+        login: { successIndicator: '.readonly-banner' },
+      });
+
+      expect(login.credentials).toEqual({ username: '$VIEWER_USERNAME', password: '$VIEWER_PASSWORD' });
+      expect(login.successIndicator).toBe('.readonly-banner');
+      expect(login.loginUrl).toBe(formLogin.loginUrl);
+    });
+  });
+
+  describe('generateAuthCode', () => {
+    it('should embed the auth configuration without resolving secrets', () => {
+      const code = generateAuthCode({
+        ...formLogin,
+        strategy: 'bearer_token',
+        bearerToken: '$TEST_API_TOKEN',
+      });
+
+      expect(code).toContain('"strategy": "bearer_token"');
+      expect(code).toContain('"bearerToken": "$TEST_API_TOKEN"');
+      expect(code).toContain('"tokenHeader": "Authorization"');
+      expect(code).toContain('"cacheable": false');
+      expect(code).toContain('async function loadSession(browser, role)');
+    });
+
+    it('should embed per-role settings with their own credentials', () => {
+      const code = generateAuthCode(formLogin, [
+        { name: 'admin', credentials: { username: '$ADMIN_USERNAME', password: '$ADMIN_PASSWORD' } },
+        { name: 'api', login: { strategy: 'bearer_token', bearerToken: '$API_TOKEN' } },
+      ]);
+      const roleConfigs = JSON.parse(code.match(/const ROLE_AUTH_CONFIGS = ([\s\S]*?\n\});/)![1]);
+
+      expect(Object.keys(roleConfigs)).toEqual(['admin', 'api']);
+      expect(roleConfigs.admin.login.username).toBe('$ADMIN_USERNAME');
+      expect(roleConfigs.admin.login.usernameSelector).toBe('#username');
+      expect(roleConfigs.admin.fingerprint).not.toBe(getAuthFingerprint(formLogin));
+      expect(roleConfigs.api.strategy).toBe('bearer_token');
+      expect(roleConfigs.api.cacheable).toBe(false);
+    });
+
+    it('should produce valid JavaScript', () => {
+      const code = generateAuthCode({
+        ...formLogin,
+        strategy: 'scripted',
+        steps: [{ action: 'totp', selector: '#otp' }],
+        totpSecret: '$TEST_TOTP_SECRET',
+      });
+
+      expect(() => new Function(code)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Authentication Session Code Generator
+ * Generates the script code that establishes a login session once per run for the
+ * configured strategy (form, storage_state, cookies, bearer_token, scripted), caches it
+ * in the workspace and hands it to every worker context. Each named role gets its own
+ * session, so cases tagged with a role run logged in as that role.
+ * @see Requirements 1.1, 1.3, 1.9
+ */
+
+import { createHash } from 'crypto';
+import type { AuthStrategy, LoginConfig, RoleConfig } from '@smart-test-agent/shared';
+
+/** Cached sessions older than this are discarded and the runner logs in again */
+export const DEFAULT_SESSION_MAX_AGE_MS = 30 * 60 * 1000;
+
+/**
+ * RFC 6238 TOTP helper embedded in generated scripts (SHA-1, 30s period, 6 digits)
+ * Requires `crypto` in scope.
+ */
+export const TOTP_HELPER_SOURCE = `// RFC 6238 one-time code from a base32 secret (SHA-1, 30s period, 6 digits)
+function generateTotp(secret, timestamp = Date.now()) {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  let bits = '';
+  for (const char of secret.replace(/[\\s=-]/g, '').toUpperCase()) {
+    const value = alphabet.indexOf(char);
+    if (value === -1) {
+      throw new Error('Invalid base32 character in TOTP secret');
+    }
+    bits += value.toString(2).padStart(5, '0');
+  }
+  const key = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    key.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(timestamp / 30000)));
+  const hmac = crypto.createHmac('sha1', Buffer.from(key)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000;
+  return code.toString().padStart(6, '0');
+}`;
+
+/**
+ * Get the effective authentication strategy
+ */
+export function getAuthStrategy(login: LoginConfig): AuthStrategy {
+  return login.strategy ?? 'form';
+}
+
+/**
+ * Whether the established session can be cached in the workspace
+ * storage_state already reads a saved session, bearer_token has no browser session.
+ */
+export function isSessionCacheable(login: LoginConfig): boolean {
+  const strategy = getAuthStrategy(login);
+  return strategy !== 'storage_state' && strategy !== 'bearer_token';
+}
+
+/**
+ * Fingerprint of the login configuration
+ * A cached session is only reused when the fingerprint matches.
+ */
+export function getAuthFingerprint(login: LoginConfig): string {
+  return createHash('sha256').update(JSON.stringify(login)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Merge a role's credentials and login overrides onto the profile login
+ */
+export function resolveRoleLogin(login: LoginConfig, role: RoleConfig): LoginConfig {
+  const overrides = role.login ?? {};
+  return {
+    ...login,
+    ...overrides,
+    credentials: {
+      ...login.credentials,
+      ...overrides.credentials,
+      ...role.credentials,
+    },
+  };
+}
+
+/**
+ * Build the serializable auth settings embedded in the script
+ * Secrets stay as environment variable references and are resolved at runtime.
+ */
+function buildAuthConfig(login: LoginConfig): Record<string, unknown> {
+  return {
+    strategy: getAuthStrategy(login),
+    fingerprint: getAuthFingerprint(login),
+    cacheable: isSessionCacheable(login),
+    storageStatePath: login.storageStatePath ?? null,
+    cookies: login.cookies ?? [],
+    bearerToken: login.bearerToken ?? null,
+    tokenHeader: login.tokenHeader || 'Authorization',
+    steps: login.steps ?? [],
+    totpSecret: login.totpSecret ?? null,
+  };
+}
+
+/**
+ * Build the auth settings of a role
+ * Roles carry their own login form fields; credentials stay references resolved at runtime.
+ */
+function buildRoleAuthConfig(login: LoginConfig, role: RoleConfig): Record<string, unknown> {
+  const roleLogin = resolveRoleLogin(login, role);
+  return {
+    ...buildAuthConfig(roleLogin),
+    login: {
+      loginUrl: roleLogin.loginUrl,
+      usernameSelector: roleLogin.usernameSelector,
+      passwordSelector: roleLogin.passwordSelector,
+      submitSelector: roleLogin.submitSelector,
+      successIndicator: roleLogin.successIndicator,
+      username: roleLogin.credentials.username,
+      password: roleLogin.credentials.password,
+    },
+  };
+}
+
+/**
+ * Generate the authentication section of a test script
+ * Expects CONFIG, CONTEXT_OPTIONS, LOGIN_CONFIG and performLogin(page, auth) to be defined.
+ * Defines loadSession(browser, role), which resolves to { storageState, extraHTTPHeaders }
+ * for the role (or the default login when role is null), and isRoleDefined(role).
+ */
+export function generateAuthCode(login: LoginConfig, roles: RoleConfig[] = []): string {
+  const roleConfigs = Object.fromEntries(
+    roles.map((role) => [role.name, buildRoleAuthConfig(login, role)])
+  );
+
+  return `// Authentication
+const AUTH_CONFIG = ${JSON.stringify(buildAuthConfig(login), null, 2)};
+
+// Per-role auth settings; cases without a role use AUTH_CONFIG and LOGIN_CONFIG
+const ROLE_AUTH_CONFIGS = ${JSON.stringify(roleConfigs, null, 2)};
+
+function isRoleDefined(role) {
+  return !role || Boolean(ROLE_AUTH_CONFIGS[role]);
+}
+
+function getAuthConfig(role) {
+  if (!role) {
+    return AUTH_CONFIG;
+  }
+  if (!isRoleDefined(role)) {
+    throw new Error('Role ' + role + ' is not defined in the target profile');
+  }
+  return ROLE_AUTH_CONFIGS[role];
+}
+
+// Each role caches its session next to the default one (session.json -> session-admin.json)
+function getSessionPath(role) {
+  if (!CONFIG.sessionPath || !role) {
+    return CONFIG.sessionPath;
+  }
+  const ext = path.extname(CONFIG.sessionPath);
+  return CONFIG.sessionPath.slice(0, CONFIG.sessionPath.length - ext.length) + '-' + role + ext;
+}
+
+// Resolve $ENV_VAR references at runtime
+function resolveValue(value) {
+  const match = typeof value === 'string' ? value.match(/^\\$([A-Z_][A-Z0-9_]*)$/) : null;
+  if (!match) {
+    return value;
+  }
+  if (process.env[match[1]] === undefined) {
+    throw new Error('Environment variable ' + match[1] + ' is not set');
+  }
+  return process.env[match[1]];
+}
+
+function resolveUrl(target) {
+  return /^https?:\\/\\//.test(target) ? target : CONFIG.baseUrl + target;
+}
+
+${TOTP_HELPER_SOURCE}
+
+// Headers sent on every request (bearer_token strategy)
+function buildAuthHeaders(auth) {
+  if (auth.strategy !== 'bearer_token') {
+    return undefined;
+  }
+  const token = resolveValue(auth.bearerToken);
+  const header = auth.tokenHeader;
+  return { [header]: header.toLowerCase() === 'authorization' ? 'Bearer ' + token : token };
+}
+
+// Multi-step login: captcha bypass tokens, tenant pickers, TOTP codes
+async function performScriptedLogin(page, auth) {
+  const login = auth.login || LOGIN_CONFIG;
+  await page.goto(resolveUrl(login.loginUrl));
+  await page.waitForLoadState('networkidle');
+
+  for (const step of auth.steps) {
+    switch (step.action) {
+      case 'goto':
+        await page.goto(resolveUrl(resolveValue(step.value)));
+        await page.waitForLoadState('networkidle');
+        break;
+      case 'fill':
+        await page.locator(step.selector).fill(resolveValue(step.value));
+        break;
+      case 'click':
+        await page.locator(step.selector).click();
+        break;
+      case 'select':
+        await page.locator(step.selector).selectOption(resolveValue(step.value));
+        break;
+      case 'wait':
+        await page.locator(step.selector).first().waitFor({ state: 'visible' });
+        break;
+      case 'totp':
+        await page.locator(step.selector).fill(generateTotp(resolveValue(auth.totpSecret)));
+        break;
+      default:
+        throw new Error('Unknown login step action: ' + step.action);
+    }
+  }
+
+  if (login.successIndicator) {
+    await page.waitForSelector(login.successIndicator, { timeout: CONFIG.timeout });
+  }
+}
+
+// Log in with the configured strategy and return the storage state
+async function createSession(browser, auth, extraHTTPHeaders) {
+  if (auth.strategy === 'storage_state') {
+    return JSON.parse(fs.readFileSync(auth.storageStatePath, 'utf-8'));
+  }
+  if (auth.strategy === 'bearer_token') {
+    return undefined;
+  }
+
+  const context = await browser.newContext({ ...CONTEXT_OPTIONS, extraHTTPHeaders });
+  try {
+    if (auth.strategy === 'cookies') {
+      await context.addCookies(auth.cookies.map((cookie) => ({
+        name: cookie.name,
+        value: resolveValue(cookie.value),
+        ...(cookie.domain ? { domain: cookie.domain, path: cookie.path || '/' } : { url: CONFIG.baseUrl }),
+        httpOnly: !!cookie.httpOnly,
+        secure: !!cookie.secure,
+      })));
+    } else {
+      const page = await context.newPage();
+      page.setDefaultTimeout(CONFIG.timeout);
+      if (auth.strategy === 'scripted') {
+        await performScriptedLogin(page, auth);
+      } else {
+        await performLogin(page, auth);
+      }
+    }
+    return await context.storageState();
+  } finally {
+    await context.close();
+  }
+}
+
+// Log in once per run and role, reusing the session cached in the workspace while it is fresh
+async function loadSession(browser, role) {
+  const auth = getAuthConfig(role);
+  const extraHTTPHeaders = buildAuthHeaders(auth);
+  const sessionPath = getSessionPath(role);
+  const useCache = Boolean(sessionPath) && auth.cacheable;
+
+  if (useCache && fs.existsSync(sessionPath)) {
+    try {
+      const cached = JSON.parse(fs.readFileSync(sessionPath, 'utf-8'));
+      const ageMs = Date.now() - new Date(cached.createdAt).getTime();
+      if (cached.fingerprint === auth.fingerprint && ageMs >= 0 && ageMs < CONFIG.sessionMaxAgeMs) {
+        console.log('Reusing cached login session:', sessionPath);
+        return { storageState: cached.storageState, extraHTTPHeaders };
+      }
+    } catch (e) {
+      // Unreadable cache, log in again
+    }
+  }
+
+  const storageState = await createSession(browser, auth, extraHTTPHeaders);
+  if (useCache) {
+    fs.mkdirSync(path.dirname(sessionPath), { recursive: true });
+    fs.writeFileSync(sessionPath, JSON.stringify({
+      fingerprint: auth.fingerprint,
+      createdAt: new Date().toISOString(),
+      storageState,
+    }, null, 2));
+  }
+  return { storageState, extraHTTPHeaders };
+}`;
+}
@@ -1,4 +1,14 @@
 // Playwright Runner package entry point
-// Implementation will be added in task 8
 
-export {};
+export * from './selector-generator.js';
+export * from './script-generator.js';
+export * from './script-executor.js';
+export * from './test-data-manager.js';
+export * from './test-sharder.js';
+export * from './auth-session.js';
+export * from './test-case-normalizer.js';
+export * from './result-builder.js';
+export * from './visual-baseline.js';
+export * from './a11y-audit.js';
+export * from './network-capture.js';
+export * from './process-group.js';
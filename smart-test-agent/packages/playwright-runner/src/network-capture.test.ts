@@ -0,0 +1,144 @@
+/**
+ * Unit tests for Network Capture
+ * @see Requirements 7.4, 10.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { API_CHECK_SOURCE, BODY_REDACTION_SOURCE, generateNetworkCode } from './network-capture.js';
+
+interface ApiEntry {
+  method: string;
+  url: string;
+  status: number | null;
+  latencyMs: number;
+  failure?: string | null;
+  body?: unknown;
+}
+
+interface ApiCheck {
+  matchesApiPath(url: string, pattern: string): boolean;
+  readJsonPath(value: unknown, jsonPath: string): { found: boolean; value: unknown };
+  evaluateApiEntry(entry: ApiEntry, options: Record<string, unknown>): { actual: string; verdict: string };
+}
+
+const { matchesApiPath, readJsonPath, evaluateApiEntry } = new Function(
+  `${API_CHECK_SOURCE}\nreturn { matchesApiPath, readJsonPath, evaluateApiEntry };`
+)() as ApiCheck;
+
+const { redactBody } = new Function(
+  `${API_CHECK_SOURCE}\n${BODY_REDACTION_SOURCE}\nreturn { redactBody };`
+)() as { redactBody(text: string | null, mimeType: string, url: string, loginUrls: string[]): string | null };
+
+function entry(overrides: Partial<ApiEntry> = {}): ApiEntry {
+  return {
+    method: 'GET',
+    url: 'https://example.com/api/users/42?expand=roles',
+    status: 200,
+    latencyMs: 120,
+    body: { data: { items: [{ name: 'Alice' }], total: 1 } },
+    ...overrides,
+  };
+}
+
+describe('Network Capture', () => {
+  describe('matchesApiPath', () => {
+    it('should match path parameters and wildcards', () => {
+      expect(matchesApiPath('https://example.com/api/users/42', '/api/users/:id')).toBe(true);
+      expect(matchesApiPath('https://example.com/api/users/42', '/api/users/{id}')).toBe(true);
+      expect(matchesApiPath('https://example.com/api/users/42/roles', '/api/users/*')).toBe(true);
+      expect(matchesApiPath('https://example.com/api/users/42/roles', '/api/users/:id')).toBe(false);
+    });
+
+    it('should ignore the query string and match path suffixes', () => {
+      expect(matchesApiPath('https://example.com/api/users?page=2', '/users')).toBe(true);
+      expect(matchesApiPath('https://example.com/api/users/', 'https://other.example.com/api/users')).toBe(true);
+      expect(matchesApiPath('https://example.com/api/myusers', '/users')).toBe(false);
+    });
+
+    it('should treat regex characters in the pattern literally', () => {
+      expect(matchesApiPath('https://example.com/api/v1.0/users', '/api/v1.0/users')).toBe(true);
+      expect(matchesApiPath('https://example.com/api/v1x0/users', '/api/v1.0/users')).toBe(false);
+    });
+  });
+
+  describe('readJsonPath', () => {
+    it('should read nested keys and array indexes', () => {
+      const body = { data: { items: [{ name: 'Alice' }, { name: null }] } };
+
+      expect(readJsonPath(body, '$.data.items[0].name')).toEqual({ found: true, value: 'Alice' });
+      expect(readJsonPath(body, 'data.items[1].name')).toEqual({ found: true, value: null });
+      expect(readJsonPath(body, '$.data.items[2].name')).toEqual({ found: false, value: undefined });
+      expect(readJsonPath(body, '$')).toEqual({ found: true, value: body });
+    });
+  });
+
+  describe('evaluateApiEntry', () => {
+    it('should pass a 2xx response by default', () => {
+      const result = evaluateApiEntry(entry(), {});
+
+      expect(result.verdict).toBe('pass');
+      expect(result.actual).toBe('GET /api/users/42 -> 200 in 120ms');
+    });
+
+    it('should check the expected status and latency', () => {
+      expect(evaluateApiEntry(entry({ status: 404 }), {}).actual).toContain('expected status 2xx');
+      expect(evaluateApiEntry(entry({ status: 404 }), { status: 404 }).verdict).toBe('pass');
+
+      const slow = evaluateApiEntry(entry({ latencyMs: 900 }), { maxLatencyMs: 500 });
+      expect(slow.verdict).toBe('fail');
+      expect(slow.actual).toContain('slower than 500ms');
+    });
+
+    it('should compare the value at the JSON path', () => {
+      const match = evaluateApiEntry(entry(), { jsonPath: '$.data.total', jsonValue: 1 });
+      expect(match.verdict).toBe('pass');
+      expect(match.actual).toContain('$.data.total = 1');
+
+      const mismatch = evaluateApiEntry(entry(), { jsonPath: '$.data.items[0].name', jsonValue: 'Bob' });
+      expect(mismatch.verdict).toBe('fail');
+      expect(mismatch.actual).toContain('expected $.data.items[0].name = "Bob"');
+
+      expect(evaluateApiEntry(entry(), { jsonPath: '$.data.missing' }).actual).toContain('not found');
+      expect(evaluateApiEntry(entry({ body: undefined }), { jsonPath: '$.data' }).actual).toContain('not JSON');
+    });
+
+    it('should fail requests without a response', () => {
+      const result = evaluateApiEntry(entry({ status: null, failure: 'net::ERR_CONNECTION_REFUSED' }), {});
+
+      expect(result.verdict).toBe('fail');
+      expect(result.actual).toContain('-> net::ERR_CONNECTION_REFUSED');
+    });
+  });
+
+  describe('redactBody', () => {
+    it('should redact credential fields of JSON and form bodies', () => {
+      const json = JSON.stringify({ user: { name: 'alice', password: 'p@ss' }, accessToken: 't', items: [{ apiKey: 'k' }] });
+      expect(JSON.parse(redactBody(json, 'application/json', 'https://example.com/api/users', [])!)).toEqual({
+        user: { name: 'alice', password: '[redacted]' },
+        accessToken: '[redacted]',
+        items: [{ apiKey: '[redacted]' }],
+      });
+
+      const form = redactBody('username=alice&client_secret=s&page=1', 'application/x-www-form-urlencoded', 'https://example.com/oauth', []);
+      expect(form).toBe('username=alice&client_secret=%5Bredacted%5D&page=1');
+    });
+
+    it('should redact the whole body of requests to the login URL', () => {
+      expect(redactBody('{"user":"alice","pwd":"p@ss"}', 'application/json', 'https://example.com/api/login', ['/login']))
+        .toBe('[redacted]');
+      expect(redactBody('plain text', 'text/plain', 'https://example.com/api/users', ['/login'])).toBe('plain text');
+      expect(redactBody(null, 'application/json', 'https://example.com/login', ['/login'])).toBeNull();
+    });
+  });
+
+  describe('generateNetworkCode', () => {
+    it('should produce valid script code', () => {
+      const code = generateNetworkCode();
+
+      expect(code).toContain('function startNetworkCapture(page, caseId)');
+      expect(code).toContain('async function checkApiResponse(capture, pattern, options)');
+      expect(() => new Function('CONFIG', 'fs', 'path', code)).not.toThrow();
+      expect(generateNetworkCode(['/login', '/login', '/sso'])).toContain('const LOGIN_URLS = ["/login","/sso"];');
+    });
+  });
+});
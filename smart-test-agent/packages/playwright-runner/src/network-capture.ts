@@ -0,0 +1,352 @@
+/**
+ * Network Traffic Capture
+ * Script code that records the traffic of every test case as a HAR file, with credentials
+ * redacted from headers and bodies, checks api_response assertions against the recorded
+ * requests and collects unexpected error responses and console errors as candidate defects.
+ * @see Requirements 7.4, 10.1
+ */
+
+/** Directory of HAR files under the run's evidence directory */
+export const HAR_DIRNAME = 'har';
+
+/** HAR directory relative to the workspace root */
+export const HAR_EVIDENCE_DIR = `evidence/${HAR_DIRNAME}`;
+
+/** How long an api_response assertion waits for a matching request to finish */
+export const DEFAULT_API_WAIT_MS = 5000;
+
+/** JSON response bodies larger than this are neither kept in the HAR nor parsed */
+export const MAX_CAPTURED_BODY_BYTES = 256 * 1024;
+
+/** Header values that are redacted in HAR files */
+const REDACTED_HEADERS = ['authorization', 'cookie', 'set-cookie'];
+
+/** JSON and form fields whose values are redacted in HAR bodies */
+export const REDACTED_BODY_FIELD = /passw(?:or)?d|secret|token|credential|api[-_]?key|otp/i;
+
+/**
+ * Request matching and response checks embedded in generated scripts
+ * - matchesApiPath: `:param` and `{param}` match one segment, `*` matches anything; the
+ *   pattern may be a suffix of the request path, so `/users` also matches `/api/users`
+ * - readJsonPath: reads `$.data.items[0].name`, returning { found, value }
+ * - evaluateApiEntry: checks status (any 2xx by default), latency and the JSON path value
+ */
+export const API_CHECK_SOURCE = `function matchesApiPath(url, pattern) {
+  const toPath = (value) => {
+    try {
+      return new URL(value).pathname;
+    } catch (e) {
+      return String(value).split(/[?#]/)[0];
+    }
+  };
+  const source = toPath(pattern).replace(/\\/+$/, '');
+  const regex = source
+    .split(/(\\*|:[A-Za-z_][A-Za-z0-9_]*|\\{[^}/]+\\})/)
+    .map((part) => {
+      if (part === '*') return '.*';
+      if (/^:|^\\{/.test(part)) return '[^/]+';
+      return part.replace(/[.+?^$()|[\\]\\\\]/g, '\\\\$&');
+    })
+    .join('');
+  return new RegExp('^(?:/.*)?' + regex + '/?$').test(toPath(url));
+}
+
+function readJsonPath(value, jsonPath) {
+  const tokens = String(jsonPath).replace(/^\\$/, '').match(/[^.[\\]'"]+/g) || [];
+  let current = value;
+  for (const token of tokens) {
+    if (current === null || typeof current !== 'object' || !(token in current)) {
+      return { found: false, value: undefined };
+    }
+    current = current[token];
+  }
+  return { found: true, value: current };
+}
+
+function evaluateApiEntry(entry, options) {
+  const failures = [];
+  let path = entry.url;
+  try {
+    path = new URL(entry.url).pathname;
+  } catch (e) {
+    // Keep the raw URL
+  }
+  let actual = entry.method + ' ' + path + ' -> ' + (entry.failure ? entry.failure : entry.status) + ' in ' + entry.latencyMs + 'ms';
+
+  if (entry.failure) {
+    failures.push('request failed');
+  } else if (options.status != null ? entry.status !== options.status : entry.status < 200 || entry.status >= 300) {
+    failures.push('expected status ' + (options.status != null ? options.status : '2xx'));
+  }
+  if (options.maxLatencyMs != null && entry.latencyMs > options.maxLatencyMs) {
+    failures.push('slower than ' + options.maxLatencyMs + 'ms');
+  }
+  if (options.jsonPath) {
+    if (entry.body === undefined) {
+      failures.push('response is not JSON');
+    } else {
+      const result = readJsonPath(entry.body, options.jsonPath);
+      actual += ', ' + options.jsonPath + ' = ' + (result.found ? JSON.stringify(result.value) : 'missing');
+      if (!result.found) {
+        failures.push(options.jsonPath + ' not found');
+      } else if (options.jsonValue !== undefined && JSON.stringify(result.value) !== JSON.stringify(options.jsonValue)) {
+        failures.push('expected ' + options.jsonPath + ' = ' + JSON.stringify(options.jsonValue));
+      }
+    }
+  }
+
+  return {
+    actual: failures.length > 0 ? actual + ' (' + failures.join('; ') + ')' : actual,
+    verdict: failures.length > 0 ? 'fail' : 'pass',
+  };
+}`;
+
+/**
+ * Body redaction embedded in generated scripts, after API_CHECK_SOURCE
+ * - redactBody: the request and response bodies of a login URL are replaced as a whole;
+ *   other JSON and form bodies keep everything but the values of fields named like credentials
+ */
+export const BODY_REDACTION_SOURCE = `const REDACTED_BODY_FIELD = ${REDACTED_BODY_FIELD.toString()};
+
+function redactFields(value) {
+  if (Array.isArray(value)) {
+    return value.map(redactFields);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+    [key, REDACTED_BODY_FIELD.test(key) ? '[redacted]' : redactFields(item)]));
+}
+
+function redactBody(text, mimeType, url, loginUrls) {
+  if (text == null) {
+    return text;
+  }
+  if (loginUrls.some((loginUrl) => matchesApiPath(url, loginUrl))) {
+    return '[redacted]';
+  }
+  if (/json/i.test(mimeType)) {
+    try {
+      return JSON.stringify(redactFields(JSON.parse(text)));
+    } catch (e) {
+      return text;
+    }
+  }
+  if (/x-www-form-urlencoded/i.test(mimeType)) {
+    const params = new URLSearchParams(text);
+    for (const key of new Set(params.keys())) {
+      if (REDACTED_BODY_FIELD.test(key)) {
+        params.set(key, '[redacted]');
+      }
+    }
+    return params.toString();
+  }
+  return text;
+}`;
+
+/**
+ * Generate the network capture section of a test script
+ * Expects CONFIG (harDir, apiWaitMs), fs and path to be defined. Defines
+ * startNetworkCapture(page, caseId), whose stop() writes the HAR and resolves to
+ * { harPath, networkIssues }, and checkApiResponse(capture, pattern, options), which
+ * resolves to { actual, verdict }.
+ * @param loginUrls Login pages of the default login and the roles, whose request and response bodies are not kept
+ */
+export function generateNetworkCode(loginUrls: string[] = []): string {
+  return `// Network capture
+${API_CHECK_SOURCE}
+
+${BODY_REDACTION_SOURCE}
+
+const REDACTED_HEADERS = ${JSON.stringify(REDACTED_HEADERS)};
+const LOGIN_URLS = ${JSON.stringify([...new Set(loginUrls)])};
+
+function toHarHeaders(headers) {
+  return Object.entries(headers || {}).map(([name, value]) => ({
+    name,
+    value: REDACTED_HEADERS.includes(name.toLowerCase()) ? '[redacted]' : String(value),
+  }));
+}
+
+function toHarEntry(entry) {
+  let queryString = [];
+  try {
+    queryString = [...new URL(entry.url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch (e) {
+    // Not an absolute URL
+  }
+  const requestType = (entry.requestHeaders || {})['content-type'] || '';
+  const responseType = (entry.responseHeaders || {})['content-type'] || '';
+  const postData = redactBody(entry.postData, requestType, entry.url, LOGIN_URLS);
+  const bodyText = redactBody(entry.bodyText, responseType, entry.url, LOGIN_URLS);
+  return {
+    startedDateTime: new Date(entry.startedAt).toISOString(),
+    time: entry.latencyMs || 0,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(entry.requestHeaders),
+      queryString,
+      postData: postData ? { mimeType: requestType, text: postData } : undefined,
+      headersSize: -1,
+      bodySize: entry.postData ? entry.postData.length : 0,
+    },
+    response: {
+      status: entry.status || 0,
+      statusText: entry.statusText || '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(entry.responseHeaders),
+      content: bodyText != null
+        ? { size: entry.bodyText.length, mimeType: responseType, text: bodyText }
+        : { size: -1, mimeType: responseType },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1,
+      _error: entry.failure || undefined,
+    },
+    cache: {},
+    timings: { send: 0, wait: entry.latencyMs || 0, receive: 0 },
+  };
+}
+
+// Record requests, responses and console errors of a page until stop() is called
+function startNetworkCapture(page, caseId) {
+  const entries = [];
+  const byRequest = new Map();
+  const reads = [];
+  const pageIssues = [];
+  const capture = { entries, expected: [] };
+
+  const listeners = {
+    request: (request) => {
+      const entry = {
+        method: request.method(),
+        url: request.url(),
+        resourceType: request.resourceType(),
+        requestHeaders: request.headers(),
+        postData: request.postData(),
+        startedAt: Date.now(),
+        status: null,
+        latencyMs: null,
+        failure: null,
+        done: false,
+      };
+      byRequest.set(request, entry);
+      entries.push(entry);
+    },
+    requestfinished: (request) => {
+      const entry = byRequest.get(request);
+      if (!entry) return;
+      entry.latencyMs = Date.now() - entry.startedAt;
+      reads.push((async () => {
+        try {
+          const response = await request.response();
+          if (response) {
+            entry.status = response.status();
+            entry.statusText = response.statusText();
+            entry.responseHeaders = response.headers();
+            const isApi = entry.resourceType === 'xhr' || entry.resourceType === 'fetch';
+            if (isApi && /json/i.test(entry.responseHeaders['content-type'] || '')) {
+              const text = await response.text();
+              if (text.length <= ${MAX_CAPTURED_BODY_BYTES}) {
+                entry.bodyText = text;
+                entry.body = JSON.parse(text);
+              }
+            }
+          }
+        } catch (e) {
+          // Body unavailable (e.g. page navigated away) or not valid JSON
+        }
+        entry.done = true;
+      })());
+    },
+    requestfailed: (request) => {
+      const entry = byRequest.get(request);
+      if (!entry) return;
+      const failure = request.failure();
+      entry.latencyMs = Date.now() - entry.startedAt;
+      entry.failure = failure ? failure.errorText : 'request failed';
+      entry.done = true;
+    },
+    console: (message) => {
+      if (message.type() === 'error') {
+        pageIssues.push({ kind: 'console_error', message: message.text(), url: page.url() });
+      }
+    },
+    pageerror: (error) => {
+      pageIssues.push({ kind: 'page_error', message: error.message, url: page.url() });
+    },
+  };
+  for (const [event, listener] of Object.entries(listeners)) {
+    page.on(event, listener);
+  }
+
+  capture.stop = async () => {
+    for (const [event, listener] of Object.entries(listeners)) {
+      page.off(event, listener);
+    }
+    await Promise.all(reads);
+
+    // Error responses asserted by an api_response assertion are expected, not defects
+    const isExpected = (entry) => capture.expected.some((e) =>
+      e.status === entry.status && (!e.method || e.method === entry.method) && matchesApiPath(entry.url, e.pattern));
+    const issues = [];
+    for (const entry of entries) {
+      if (entry.failure && entry.failure !== 'net::ERR_ABORTED') {
+        issues.push({ kind: 'request_failed', method: entry.method, url: entry.url, message: entry.failure });
+      } else if (entry.status >= 400 && !isExpected(entry)) {
+        issues.push({ kind: 'http_error', method: entry.method, url: entry.url, status: entry.status, message: entry.status + ' ' + (entry.statusText || '') });
+      }
+    }
+    issues.push(...pageIssues);
+    const seen = new Set();
+    const networkIssues = issues.filter((issue) => {
+      const key = [issue.kind, issue.method, issue.url, issue.status, issue.message].join('|');
+      return seen.has(key) ? false : seen.add(key);
+    });
+
+    const file = caseId + '.har';
+    try {
+      fs.mkdirSync(CONFIG.harDir, { recursive: true });
+      const har = {
+        log: {
+          version: '1.2',
+          creator: { name: 'smart-test-agent', version: '1.0' },
+          pages: [],
+          entries: entries.map(toHarEntry),
+        },
+      };
+      fs.writeFileSync(path.join(CONFIG.harDir, file), JSON.stringify(har, null, 2));
+    } catch (e) {
+      console.error('Failed to write HAR for ' + caseId + ':', e.message);
+      return { harPath: null, networkIssues };
+    }
+    return { harPath: '${HAR_EVIDENCE_DIR}/' + file, networkIssues };
+  };
+
+  return capture;
+}
+
+// Check the most recent finished request matching the pattern, waiting for it if needed
+async function checkApiResponse(capture, pattern, options) {
+  if (options.status >= 400) {
+    capture.expected.push({ method: options.method, pattern, status: options.status });
+  }
+  const deadline = Date.now() + CONFIG.apiWaitMs;
+  for (;;) {
+    const matches = capture.entries.filter((entry) =>
+      entry.done && (!options.method || entry.method === options.method) && matchesApiPath(entry.url, pattern));
+    if (matches.length > 0) {
+      return evaluateApiEntry(matches[matches.length - 1], options);
+    }
+    if (Date.now() >= deadline) {
+      return { actual: 'no ' + (options.method ? options.method + ' ' : '') + 'request matching ' + pattern, verdict: 'fail' };
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}`;
+}
@@ -0,0 +1,68 @@
+/**
+ * Process Group Control
+ * Child processes that start their own children (a shell running an agent CLI, a test
+ * script launching a browser) are spawned as process group leaders, so cancelling them
+ * terminates the whole tree instead of only the direct child.
+ * @see Requirements 7.3, 13.2
+ */
+
+import type { ChildProcess } from 'child_process';
+
+/** Whether children can be spawned as process group leaders (not supported on Windows) */
+export const SUPPORTS_PROCESS_GROUPS = process.platform !== 'win32';
+
+/** How long a terminated process group may take to exit before it is killed */
+export const DEFAULT_KILL_GRACE_MS = 5000;
+
+/**
+ * Send a signal to the process group led by a child, or to the child alone when
+ * it is not a group leader
+ */
+export function killProcessGroup(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+  if (child.pid === undefined) {
+    return;
+  }
+  try {
+    if (SUPPORTS_PROCESS_GROUPS) {
+      process.kill(-child.pid, signal);
+    } else {
+      child.kill(signal);
+    }
+  } catch {
+    // Group already exited, or the child was not spawned detached
+    try {
+      child.kill(signal);
+    } catch {
+      // Already exited
+    }
+  }
+}
+
+/**
+ * Terminate a process group: SIGTERM first, SIGKILL if its output is still open
+ * after the grace period
+ * The child's 'close' event fires once every process holding its stdio has exited.
+ */
+export function terminateProcessGroup(child: ChildProcess, graceMs = DEFAULT_KILL_GRACE_MS): void {
+  killProcessGroup(child, 'SIGTERM');
+
+  const timer = setTimeout(() => killProcessGroup(child, 'SIGKILL'), graceMs);
+  timer.unref?.();
+  child.once('close', () => clearTimeout(timer));
+}
+
+/**
+ * Run a listener when a signal aborts, immediately if it already has
+ * @returns Function that removes the listener
+ */
+export function onAbort(signal: AbortSignal | undefined, listener: () => void): () => void {
+  if (!signal) {
+    return () => {};
+  }
+  if (signal.aborted) {
+    listener();
+    return () => {};
+  }
+  signal.addEventListener('abort', listener, { once: true });
+  return () => signal.removeEventListener('abort', listener);
+}
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for Execution Result Builder
+ * @see Requirements 7.3, 7.4, 7.5
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateExecutionResults, type TestCase } from '@smart-test-agent/shared';
+import {
+  buildExecutionResult,
+  mergeExecutionResults,
+  getFailedCaseIds,
+} from './result-builder.js';
+
+describe('Result Builder', () => {
+  const makeTestCase = (caseId: string): TestCase => ({
+    id: `run-1-${caseId}`,
+    caseId,
+    runId: 'run-1',
+    requirementId: 'REQ-001',
+    route: '/users',
+    title: caseId,
+    precondition: '',
+    steps: [{ stepNumber: 1, action: 'click', selector: '#btn' }],
+    assertions: [
+      {
+        id: `run-1-${caseId}-A1`,
+        assertionId: 'A1',
+        runId: 'run-1',
+        caseId,
+        type: 'element_visible',
+        description: 'Button is visible',
+        expected: '#btn',
+      },
+    ],
+  });
+
+  const rawOutput = {
+    runId: 'run-1',
+    startTime: '2024-01-01T00:00:00.000Z',
+    endTime: '2024-01-01T00:00:10.000Z',
+    totalDurationMs: 10000,
+    testCases: [
+      {
+        caseId: 'TC-001',
+        status: 'passed',
+        steps: [{ stepNumber: 1, success: true, error: null, screenshotPath: null, durationMs: 120 }],
+        assertions: [
+          {
+            assertionId: 'A1',
+            type: 'element_visible',
+            expected: '#btn',
+            actual: 'visible',
+            machineVerdict: 'pass',
+            agentVerdict: null,
+            agentReasoning: null,
+          },
+        ],
+        error: null,
+        durationMs: 500,
+      },
+    ],
+    screenshots: [
+      { caseId: 'TC-001', stepNumber: 1, path: '/tmp/a.png', timestamp: '2024-01-01T00:00:01.000Z' },
+    ],
+    success: true,
+    error: null,
+  };
+
+  describe('buildExecutionResult', () => {
+    it('should produce a schema-valid result from raw script output', () => {
+      const result = buildExecutionResult(rawOutput, [makeTestCase('TC-001')], { runId: 'run-1' });
+
+      expect(validateExecutionResults(result).valid).toBe(true);
+      expect(result.testCases[0].assertions[0].description).toBe('Button is visible');
+      expect(result.testCases[0].assertions[0]).not.toHaveProperty('agentVerdict');
+      expect(result.screenshots[0].id).toBeTruthy();
+    });
+
+    it('should keep the HAR path and valid network issues', () => {
+      const raw = {
+        ...rawOutput,
+        testCases: [
+          {
+            ...rawOutput.testCases[0],
+            harPath: 'evidence/har/TC-001.har',
+            networkIssues: [
+              { kind: 'http_error', method: 'GET', url: 'https://example.com/api/users', status: 500, message: '500 Internal Server Error' },
+              { kind: 'console_error', message: 'Boom', url: null },
+              { kind: 'unknown', message: 'ignored' },
+            ],
+          },
+        ],
+      };
+
+      const result = buildExecutionResult(raw, [makeTestCase('TC-001')], { runId: 'run-1' });
+
+      expect(validateExecutionResults(result).valid).toBe(true);
+      expect(result.testCases[0].harPath).toBe('evidence/har/TC-001.har');
+      expect(result.testCases[0].networkIssues).toEqual([
+        { kind: 'http_error', method: 'GET', url: 'https://example.com/api/users', status: 500, message: '500 Internal Server Error' },
+        { kind: 'console_error', message: 'Boom' },
+      ]);
+    });
+
+    it('should mark planned cases missing from the output as error', () => {
+      const result = buildExecutionResult(
+        rawOutput,
+        [makeTestCase('TC-001'), makeTestCase('TC-002')],
+        { runId: 'run-1' }
+      );
+
+      expect(result.testCases[1]).toMatchObject({ caseId: 'TC-002', status: 'error' });
+      expect(validateExecutionResults(result).valid).toBe(true);
+    });
+
+    it('should build an error result when the script wrote nothing', () => {
+      const result = buildExecutionResult(undefined, [makeTestCase('TC-001')], {
+        runId: 'run-1',
+        error: 'Script exited with code 1',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.reasonCode).toBe('playwright_error');
+      expect(result.testCases[0].error).toBe('Script exited with code 1');
+      expect(validateExecutionResults(result).valid).toBe(true);
+    });
+  });
+
+  describe('mergeExecutionResults', () => {
+    it('should replace repaired cases and keep the rest', () => {
+      const base = buildExecutionResult(
+        rawOutput,
+        [makeTestCase('TC-001'), makeTestCase('TC-002')],
+        { runId: 'run-1' }
+      );
+      const repaired = buildExecutionResult(
+        {
+          ...rawOutput,
+          testCases: [{ ...rawOutput.testCases[0], caseId: 'TC-002' }],
+          screenshots: [],
+        },
+        [makeTestCase('TC-002')],
+        { runId: 'run-1' }
+      );
+
+      const merged = mergeExecutionResults(base, repaired);
+
+      expect(merged.testCases.map((tc) => tc.status)).toEqual(['passed', 'passed']);
+      expect(merged.screenshots).toHaveLength(1);
+      expect(merged.totalDurationMs).toBe(20000);
+      expect(getFailedCaseIds(merged)).toEqual([]);
+    });
+  });
+
+  describe('getFailedCaseIds', () => {
+    it('should return failed and errored case IDs', () => {
+      const result = buildExecutionResult(
+        {
+          ...rawOutput,
+          testCases: [
+            { ...rawOutput.testCases[0], caseId: 'TC-001', status: 'failed' },
+            { ...rawOutput.testCases[0], caseId: 'TC-002', status: 'passed' },
+          ],
+        },
+        [makeTestCase('TC-001'), makeTestCase('TC-002'), makeTestCase('TC-003')],
+        { runId: 'run-1' }
+      );
+
+      expect(getFailedCaseIds(result)).toEqual(['TC-001', 'TC-003']);
+    });
+  });
+});
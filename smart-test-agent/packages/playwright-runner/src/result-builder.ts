@@ -0,0 +1,308 @@
+/**
+ * Execution Result Builder
+ * Turns the raw output of a generated script into a schema-valid ExecutionResult
+ * @see Requirements 7.3, 7.4, 7.5, 7.6, 7.7
+ */
+
+import type {
+  Assertion,
+  AssertionType,
+  ExecutionResult,
+  NetworkIssue,
+  ReasonCode,
+  Screenshot,
+  StepResult,
+  TestCase,
+  TestCaseResult,
+  TestCaseStatus,
+  Verdict,
+} from '@smart-test-agent/shared';
+
+/**
+ * Result build options
+ */
+export interface ResultBuildOptions {
+  runId: string;
+  /** Used when the script did not produce a start time */
+  startTime?: string;
+  /** Execution level error (e.g. script crashed before writing results) */
+  error?: string;
+  reasonCode?: ReasonCode;
+}
+
+const CASE_STATUSES: TestCaseStatus[] = ['pending', 'running', 'passed', 'failed', 'error'];
+const VERDICTS: Verdict[] = ['pass', 'fail', 'error'];
+const ASSERTION_TYPES: AssertionType[] = [
+  'element_visible',
+  'text_content',
+  'element_count',
+  'navigation',
+  'permission_denied',
+  'visual',
+  'api_response',
+  'soft',
+];
+const NETWORK_ISSUE_KINDS: NetworkIssue['kind'][] = ['http_error', 'request_failed', 'console_error', 'page_error'];
+const REASON_CODES: ReasonCode[] = [
+  'retry_exhausted',
+  'agent_timeout',
+  'approval_timeout',
+  'confirm_timeout',
+  'verdict_conflict',
+  'playwright_error',
+  'internal_error',
+];
+
+/**
+ * Build an ExecutionResult from raw script output
+ * Every planned test case gets a result; cases missing from the raw output are marked as error.
+ * @param raw - Parsed execution-results.json written by the script (may be undefined)
+ * @param testCases - Test cases that were planned for execution
+ * @param options - Build options
+ */
+export function buildExecutionResult(
+  raw: unknown,
+  testCases: TestCase[],
+  options: ResultBuildOptions
+): ExecutionResult {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const now = new Date().toISOString();
+  const rawCases = Array.isArray(source.testCases) ? source.testCases : [];
+  const fatalError = options.error ?? asString(source.error);
+
+  const rawById = new Map<string, Record<string, unknown>>();
+  for (const item of rawCases) {
+    if (item && typeof item === 'object' && typeof (item as { caseId?: unknown }).caseId === 'string') {
+      rawById.set((item as { caseId: string }).caseId, item as Record<string, unknown>);
+    }
+  }
+
+  const caseResults = testCases.map((testCase) => {
+    const rawCase = rawById.get(testCase.caseId);
+    if (!rawCase) {
+      return {
+        caseId: testCase.caseId,
+        status: 'error' as TestCaseStatus,
+        steps: [],
+        assertions: [],
+        durationMs: 0,
+        error: fatalError ?? 'Test case was not executed',
+      };
+    }
+    return buildCaseResult(rawCase, testCase, options.runId);
+  });
+
+  const screenshots = (Array.isArray(source.screenshots) ? source.screenshots : [])
+    .map((item, index) => buildScreenshot(item, options.runId, index))
+    .filter((item): item is Screenshot => item !== null);
+
+  const success = source.success === true && !options.error;
+  const result: ExecutionResult = {
+    runId: options.runId,
+    startTime: asString(source.startTime) ?? options.startTime ?? now,
+    endTime: asString(source.endTime) ?? now,
+    totalDurationMs: asDuration(source.totalDurationMs),
+    testCases: caseResults,
+    screenshots,
+    success,
+  };
+
+  if (!success) {
+    result.error = fatalError ?? 'Test script did not complete successfully';
+    result.reasonCode = options.reasonCode ?? asReasonCode(source.reasonCode) ?? 'playwright_error';
+  }
+
+  return result;
+}
+
+/**
+ * Build a single test case result
+ */
+function buildCaseResult(
+  rawCase: Record<string, unknown>,
+  testCase: TestCase,
+  runId: string
+): TestCaseResult {
+  const steps: StepResult[] = (Array.isArray(rawCase.steps) ? rawCase.steps : [])
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map((item, index) => {
+      const step: StepResult = {
+        stepNumber: asStepNumber(item.stepNumber, index),
+        success: item.success === true,
+        durationMs: asDuration(item.durationMs),
+      };
+      const error = asString(item.error);
+      const screenshotPath = asString(item.screenshotPath);
+      if (error) step.error = error;
+      if (screenshotPath) step.screenshotPath = screenshotPath;
+      return step;
+    });
+
+  const plannedAssertions = new Map(testCase.assertions.map((a) => [a.assertionId, a]));
+  const assertions: Assertion[] = (Array.isArray(rawCase.assertions) ? rawCase.assertions : [])
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map((item, index) => {
+      const assertionId = asString(item.assertionId) ?? `${testCase.caseId}-A${index + 1}`;
+      const planned = plannedAssertions.get(assertionId);
+      const assertion: Assertion = {
+        id: planned?.id ?? `${runId}-${testCase.caseId}-${assertionId}`,
+        assertionId,
+        runId,
+        caseId: testCase.caseId,
+        type: ASSERTION_TYPES.includes(item.type as AssertionType)
+          ? (item.type as AssertionType)
+          : planned?.type ?? 'soft',
+        description: asString(item.description) ?? planned?.description ?? '',
+        expected: asString(item.expected) ?? planned?.expected ?? '',
+      };
+      const actual = asString(item.actual);
+      const machineVerdict = asVerdict(item.machineVerdict);
+      const agentVerdict = asVerdict(item.agentVerdict);
+      const agentReasoning = asString(item.agentReasoning);
+      const evidencePath = asString(item.evidencePath);
+      if (actual !== undefined) assertion.actual = actual;
+      if (machineVerdict) assertion.machineVerdict = machineVerdict;
+      if (agentVerdict) assertion.agentVerdict = agentVerdict;
+      if (agentReasoning) assertion.agentReasoning = agentReasoning;
+      if (evidencePath) assertion.evidencePath = evidencePath;
+      return assertion;
+    });
+
+  const status = CASE_STATUSES.includes(rawCase.status as TestCaseStatus)
+    ? (rawCase.status as TestCaseStatus)
+    : 'error';
+  const result: TestCaseResult = {
+    caseId: testCase.caseId,
+    status,
+    steps,
+    assertions,
+    durationMs: asDuration(rawCase.durationMs),
+  };
+  const error = asString(rawCase.error);
+  const harPath = asString(rawCase.harPath);
+  const networkIssues = (Array.isArray(rawCase.networkIssues) ? rawCase.networkIssues : [])
+    .map(buildNetworkIssue)
+    .filter((issue): issue is NetworkIssue => issue !== null);
+  if (error) result.error = error;
+  if (harPath) result.harPath = harPath;
+  if (networkIssues.length > 0) result.networkIssues = networkIssues;
+  return result;
+}
+
+/**
+ * Build a network issue, dropping entries of unknown kind
+ */
+function buildNetworkIssue(item: unknown): NetworkIssue | null {
+  if (!item || typeof item !== 'object') {
+    return null;
+  }
+  const raw = item as Record<string, unknown>;
+  if (!NETWORK_ISSUE_KINDS.includes(raw.kind as NetworkIssue['kind'])) {
+    return null;
+  }
+  const issue: NetworkIssue = {
+    kind: raw.kind as NetworkIssue['kind'],
+    message: asString(raw.message) ?? '',
+  };
+  const method = asString(raw.method);
+  const url = asString(raw.url);
+  if (method) issue.method = method;
+  if (url) issue.url = url;
+  if (typeof raw.status === 'number' && Number.isInteger(raw.status)) issue.status = raw.status;
+  return issue;
+}
+
+/**
+ * Build a screenshot entry, assigning an ID when the script did not
+ */
+function buildScreenshot(item: unknown, runId: string, index: number): Screenshot | null {
+  if (!item || typeof item !== 'object') {
+    return null;
+  }
+  const raw = item as Record<string, unknown>;
+  const caseId = asString(raw.caseId);
+  const screenshotPath = asString(raw.path);
+  if (!caseId || !screenshotPath) {
+    return null;
+  }
+  const stepNumber = asStepNumber(raw.stepNumber, 0);
+  return {
+    id: asString(raw.id) ?? `${runId}-${caseId}-${stepNumber}-${index}`,
+    caseId,
+    stepNumber,
+    path: screenshotPath,
+    timestamp: asString(raw.timestamp) ?? new Date().toISOString(),
+  };
+}
+
+/**
+ * Merge repaired case results into a base result
+ * Cases present in `repaired` replace those in `base`; screenshots follow their cases.
+ */
+export function mergeExecutionResults(
+  base: ExecutionResult,
+  repaired: ExecutionResult
+): ExecutionResult {
+  const repairedIds = new Set(repaired.testCases.map((tc) => tc.caseId));
+  const repairedById = new Map(repaired.testCases.map((tc) => [tc.caseId, tc]));
+
+  const testCases = base.testCases.map((tc) => repairedById.get(tc.caseId) ?? tc);
+  for (const tc of repaired.testCases) {
+    if (!base.testCases.some((existing) => existing.caseId === tc.caseId)) {
+      testCases.push(tc);
+    }
+  }
+
+  const screenshots = [
+    ...base.screenshots.filter((s) => !repairedIds.has(s.caseId)),
+    ...repaired.screenshots,
+  ];
+
+  const success = base.success || repaired.success;
+  const merged: ExecutionResult = {
+    runId: base.runId,
+    startTime: base.startTime,
+    endTime: repaired.endTime,
+    totalDurationMs: base.totalDurationMs + repaired.totalDurationMs,
+    testCases,
+    screenshots,
+    success,
+  };
+  if (!success) {
+    merged.error = repaired.error ?? base.error;
+    merged.reasonCode = repaired.reasonCode ?? base.reasonCode;
+  }
+  return merged;
+}
+
+/**
+ * Get IDs of test cases that failed or errored
+ */
+export function getFailedCaseIds(result: ExecutionResult): string[] {
+  return result.testCases
+    .filter((tc) => tc.status === 'failed' || tc.status === 'error')
+    .map((tc) => tc.caseId);
+}
+
+function asString(value: unknown): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  return typeof value === 'string' ? value : String(value);
+}
+
+function asDuration(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+}
+
+function asStepNumber(value: unknown, index: number): number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 ? value : index + 1;
+}
+
+function asVerdict(value: unknown): Verdict | undefined {
+  return VERDICTS.includes(value as Verdict) ? (value as Verdict) : undefined;
+}
+
+function asReasonCode(value: unknown): ReasonCode | undefined {
+  return REASON_CODES.includes(value as ReasonCode) ? (value as ReasonCode) : undefined;
+}
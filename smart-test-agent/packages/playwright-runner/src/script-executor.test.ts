@@ -3,7 +3,7 @@
  * @see Requirements 7.3, 7.4, 7.5, 7.7
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -11,6 +11,7 @@ import {
   collectScreenshots,
   parsePlaywrightError,
   ensureWorkspaceDirectories,
+  executeScript,
 } from './script-executor.js';
 
 describe('Script Executor', () => {
@@ -188,4 +189,47 @@ describe('Script Executor', () => {
       expect(() => ensureWorkspaceDirectories(workspacePath)).not.toThrow();
     });
   });
+
+  describe('executeScript', () => {
+    it('should not start a script when already cancelled', async () => {
+      const scriptPath = path.join(tempDir, 'never.cjs');
+      fs.writeFileSync(scriptPath, "require('fs').writeFileSync('ran', '1');");
+      const controller = new AbortController();
+      controller.abort();
+
+      const response = await executeScript(scriptPath, { workingDir: tempDir, signal: controller.signal });
+
+      expect(response).toMatchObject({ success: false, cancelled: true, exitCode: null });
+      expect(fs.existsSync(path.join(tempDir, 'ran'))).toBe(false);
+    });
+
+    it('should terminate the script and the processes it started when cancelled', async () => {
+      // The script starts a grandchild that appends a heartbeat until it is killed
+      const heartbeatPath = path.join(tempDir, 'heartbeat');
+      const scriptPath = path.join(tempDir, 'long-running.cjs');
+      fs.writeFileSync(
+        scriptPath,
+        [
+          "const { spawn } = require('child_process');",
+          `const beat = ${JSON.stringify(`setInterval(() => require('fs').appendFileSync(${JSON.stringify(heartbeatPath)}, '.'), 20)`)};`,
+          "spawn(process.execPath, ['-e', beat], { stdio: 'inherit' });",
+          'setInterval(() => {}, 1000);',
+        ].join('\n')
+      );
+      const controller = new AbortController();
+
+      const execution = executeScript(scriptPath, { workingDir: tempDir, signal: controller.signal });
+      await vi.waitFor(() => expect(fs.existsSync(heartbeatPath)).toBe(true), { timeout: 5000 });
+      controller.abort();
+      const response = await execution;
+
+      expect(response.success).toBe(false);
+      expect(response.cancelled).toBe(true);
+      expect(response.error).toBe('Script execution cancelled');
+
+      const size = fs.statSync(heartbeatPath).size;
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(fs.statSync(heartbeatPath).size).toBe(size);
+    });
+  });
 });
@@ -5,9 +5,11 @@
  */
 
 import { spawn } from 'child_process';
+import { createRequire } from 'module';
 import * as fs from 'fs';
 import * as path from 'path';
 import type { ExecutionResult, Screenshot, ReasonCode } from '@smart-test-agent/shared';
+import { SUPPORTS_PROCESS_GROUPS, onAbort, terminateProcessGroup } from './process-group.js';
 
 /**
  * Execution options
@@ -19,6 +21,8 @@ export interface ExecutionOptions {
   timeout?: number;
   /** Environment variables */
   env?: Record<string, string>;
+  /** Cancels the execution, terminating the script and the browsers it launched */
+  signal?: AbortSignal;
 }
 
 /**
@@ -32,6 +36,8 @@ export interface ExecutionResponse {
   stdout: string;
   stderr: string;
   exitCode: number | null;
+  /** Whether the execution was cancelled through the abort signal */
+  cancelled?: boolean;
 }
 
 /**
@@ -42,7 +48,7 @@ export async function executeScript(
   scriptPath: string,
   options: ExecutionOptions
 ): Promise<ExecutionResponse> {
-  const { workingDir, timeout = 300000, env = {} } = options;
+  const { workingDir, timeout = 300000, env = {}, signal } = options;
 
   // Validate script exists
   if (!fs.existsSync(scriptPath)) {
@@ -56,25 +62,50 @@ export async function executeScript(
     };
   }
 
+  if (signal?.aborted) {
+    return {
+      success: false,
+      error: 'Script execution cancelled',
+      reasonCode: 'internal_error',
+      stdout: '',
+      stderr: '',
+      exitCode: null,
+      cancelled: true,
+    };
+  }
+
   return new Promise((resolve) => {
     const startTime = Date.now();
     let stdout = '';
     let stderr = '';
     let timedOut = false;
+    let cancelled = false;
 
     // Spawn node process to execute the script
+    // NODE_PATH lets scripts written into a workspace resolve playwright from this package
+    const playwrightNodePath = resolvePlaywrightNodePath();
+    const nodePath = [playwrightNodePath, process.env.NODE_PATH, env.NODE_PATH]
+      .filter(Boolean)
+      .join(path.delimiter);
+    // The script leads its own process group so that browsers it launched are terminated with it
     const child = spawn('node', [scriptPath], {
       cwd: workingDir,
-      env: { ...process.env, ...env },
+      env: { ...process.env, ...env, ...(nodePath ? { NODE_PATH: nodePath } : {}) },
       stdio: ['pipe', 'pipe', 'pipe'],
+      detached: SUPPORTS_PROCESS_GROUPS,
     });
 
     // Set timeout
     const timeoutId = setTimeout(() => {
       timedOut = true;
-      child.kill('SIGTERM');
+      terminateProcessGroup(child);
     }, timeout);
 
+    const removeAbortListener = onAbort(signal, () => {
+      cancelled = true;
+      terminateProcessGroup(child);
+    });
+
     // Collect stdout
     child.stdout.on('data', (data) => {
       stdout += data.toString();
@@ -88,6 +119,20 @@ export async function executeScript(
     // Handle process exit
     child.on('close', (code) => {
       clearTimeout(timeoutId);
+      removeAbortListener();
+
+      if (cancelled) {
+        resolve({
+          success: false,
+          error: 'Script execution cancelled',
+          reasonCode: 'internal_error',
+          stdout,
+          stderr,
+          exitCode: code,
+          cancelled: true,
+        });
+        return;
+      }
 
       if (timedOut) {
         resolve({
@@ -131,6 +176,7 @@ export async function executeScript(
     // Handle spawn errors
     child.on('error', (error) => {
       clearTimeout(timeoutId);
+      removeAbortListener();
       resolve({
         success: false,
         error: `Failed to spawn script process: ${error.message}`,
@@ -143,6 +189,20 @@ export async function executeScript(
   });
 }
 
+/**
+ * Resolve the node_modules directory that provides playwright
+ * Returns undefined when playwright is not installed
+ */
+export function resolvePlaywrightNodePath(): string | undefined {
+  try {
+    const require = createRequire(import.meta.url);
+    const packageJsonPath = require.resolve('playwright/package.json');
+    return path.dirname(path.dirname(packageJsonPath));
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Collect screenshots from a directory
  * @see Requirements 7.4
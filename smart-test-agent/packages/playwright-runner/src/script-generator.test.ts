@@ -3,8 +3,12 @@
  * @see Requirements 7.1, 7.2
  */
 
-import { describe, it, expect } from 'vitest';
-import { generateTestScript, validateScriptStructure } from './script-generator.js';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateTestScript, generateA11yAuditScript, validateScriptStructure } from './script-generator.js';
 import type { TestCase, TargetProfile, Assertion, TestStep } from '@smart-test-agent/shared';
 
 describe('Script Generator', () => {
@@ -205,6 +209,75 @@ describe('Script Generator', () => {
       expect(result.content).toContain('finally');
     });
 
+    it('should build data requests from the OpenAPI endpoints and delete created entities', () => {
+      const testCaseWithData: TestCase = {
+        ...mockTestCase,
+        dataPreparation: [{ action: 'create', target: 'users', data: { name: 'Test User' } }],
+      };
+
+      const result = generateTestScript([testCaseWithData], mockProfile, {
+        runId: 'run-123',
+        outputDir: '/output',
+        screenshotDir: '/output/screenshots',
+        apiBaseUrl: 'https://example.com/api',
+        apis: [
+          {
+            name: 'createUser',
+            method: 'POST',
+            path: '/api/users',
+            requestBody: { type: 'object', properties: { email: { type: 'string', format: 'email' } }, required: ['email'] },
+            response: { type: 'object', properties: { data: { type: 'object', properties: { userId: { type: 'string' } } } } },
+          },
+          { name: 'deleteUser', method: 'DELETE', path: '/api/users/:userId' },
+        ],
+      });
+
+      expect(result.content).toContain('const createdEntities_TC001 = [];');
+      expect(result.content).toContain('"email":"e2e-test@example.com"');
+      expect(result.content).toContain('const id = created.data?.userId;');
+      expect(result.content).toContain('url: `https://example.com/api/users/${id}`');
+      expect(result.content).toContain('entity.url ??');
+
+      const scriptPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'script-generator-')), 'test.cjs');
+      fs.writeFileSync(scriptPath, result.content);
+      execFileSync(process.execPath, ['--check', scriptPath]);
+      fs.rmSync(path.dirname(scriptPath), { recursive: true, force: true });
+    });
+
+    it('should choose step selectors from the element inventory of the case route', () => {
+      const testCase: TestCase = {
+        ...mockTestCase,
+        steps: [
+          { stepNumber: 1, action: 'fill', selector: '#username', inputValue: 'alice' },
+          { stepNumber: 2, action: 'click', selector: '新增用户' },
+          { stepNumber: 3, action: "click '保存' button", selector: '.ant-btn-primary' },
+          { stepNumber: 4, action: 'click', selector: '.ant-pagination-next' },
+        ],
+      };
+      const inventory = [
+        {
+          route: '/dashboard',
+          componentPath: 'src/pages/dashboard.tsx',
+          elements: [
+            { kind: 'field' as const, component: 'Form.Item', label: '用户名', name: 'username' },
+            { kind: 'button' as const, component: 'Button', text: '新增用户' },
+          ],
+        },
+      ];
+
+      const options = { runId: 'run-123', outputDir: '/output', screenshotDir: '/output/screenshots' };
+      const result = generateTestScript([testCase], mockProfile, { ...options, inventory });
+
+      expect(result.content).toContain(`await page.getByLabel('用户名').fill('alice');`);
+      expect(result.content).toContain(`await page.getByRole('button', { name: '新增用户' }).click();`);
+      // 清单中没有的按钮和 CSS 选择器保持原样
+      expect(result.content).toContain(`await page.getByRole('button', { name: /保.*存/ }).click();`);
+      expect(result.content).toContain(`await page.locator('.ant-pagination-next').click();`);
+
+      const otherRoute = generateTestScript([{ ...testCase, route: '/users' }], mockProfile, { ...options, inventory });
+      expect(otherRoute.content).toContain(`await page.locator('#username').fill('alice');`);
+    });
+
     it('should include entry point', () => {
       const result = generateTestScript([mockTestCase], mockProfile, {
         runId: 'run-123',
@@ -393,5 +466,461 @@ describe('Script Generator', () => {
       expect(result.content).toContain('Soft assertion');
       expect(result.content).toContain('pending_review');
     });
+
+    it('should generate permission_denied assertion code for elements and routes', () => {
+      const testCase: TestCase = {
+        ...mockTestCase,
+        role: 'viewer',
+        assertions: [
+          { ...mockAssertion, type: 'permission_denied', expected: '.delete-button' },
+          { ...mockAssertion, assertionId: 'A002', type: 'permission_denied', expected: '/admin/users' },
+        ],
+      };
+
+      const result = generateTestScript([testCase], mockProfile, {
+        runId: 'run-123',
+        outputDir: '/output',
+        screenshotDir: '/output/screenshots',
+      });
+
+      expect(result.content).toContain("const guarded = page.locator('.delete-button')");
+      expect(result.content).toContain('isEnabled()');
+      expect(result.content).toContain("page.goto(resolveUrl('/admin/users'))");
+      expect(result.content).toContain('status === 401 || status === 403');
+      expect(result.content).toContain('const CASE_ROLES = ["viewer"]');
+    });
+
+    it('should generate visual assertion code for pages and elements', () => {
+      const testCase: TestCase = {
+        ...mockTestCase,
+        route: '/users/list',
+        assertions: [
+          { ...mockAssertion, type: 'visual', expected: 'page', visual: { maskSelectors: ['.clock'] } },
+          { ...mockAssertion, assertionId: 'A002', type: 'visual', expected: '.chart', visual: { threshold: 0.05 } },
+        ],
+      };
+
+      const result = generateTestScript([testCase], mockProfile, {
+        runId: 'run-123',
+        outputDir: '/output',
+        screenshotDir: '/output/screenshots',
+        baselineDir: '/workspaces/baselines/project-1/_base',
+      });
+
+      expect(result.content).toContain("baselineDir: '/workspaces/baselines/project-1/_base'");
+      expect(result.content).toContain('async function checkVisual(');
+      expect(result.content).toContain("const mask = [page.locator('.clock')]");
+      expect(result.content).toContain("page.screenshot({ fullPage: true, mask, animations: 'disabled' })");
+      expect(result.content).toContain("page.locator('.chart').first().screenshot(");
+      expect(result.content).toContain(`checkVisual(page, 'users_list/${mockTestCase.caseId}-A001.png', screenshot, 0.001, 0.1)`);
+      expect(result.content).toContain(`checkVisual(page, 'users_list/${mockTestCase.caseId}-A002.png', screenshot, 0.05, 0.1)`);
+    });
+
+    it('should omit the visual helpers when no case compares screenshots', () => {
+      const result = generateTestScript([mockTestCase], mockProfile, {
+        runId: 'run-123',
+        outputDir: '/output',
+        screenshotDir: '/output/screenshots',
+      });
+
+      expect(result.content).not.toContain('checkVisual');
+      expect(result.content).toContain('baselineDir: null');
+    });
+  });
+
+  describe('Step actions', () => {
+    const generateForSteps = (steps: TestStep[]) =>
+      generateTestScript([{ ...mockTestCase, steps }], mockProfile, {
+        runId: 'run-123',
+        outputDir: '/output',
+        screenshotDir: '/output/screenshots',
+      });
+
+    it('should navigate relative routes against the base URL', () => {
+      const result = generateForSteps([{ stepNumber: 1, action: 'navigate', selector: '/users' }]);
+
+      expect(result.content).toContain("page.goto(CONFIG.baseUrl + '/users')");
+    });
+
+    it('should navigate absolute URLs directly', () => {
+      const result = generateForSteps([
+        { stepNumber: 1, action: 'navigate', selector: 'https://other.example.com/a' },
+      ]);
+
+      expect(result.content).toContain("page.goto('https://other.example.com/a')");
+    });
+
+    it('should wait for the target element instead of clicking it', () => {
+      const result = generateForSteps([{ stepNumber: 1, action: 'wait', selector: '.ant-table' }]);
+
+      expect(result.content).toContain("page.locator('.ant-table').first().waitFor");
+      expect(result.content).not.toContain("page.locator('.ant-table').click()");
+    });
+
+    it('should hover the target element', () => {
+      const result = generateForSteps([{ stepNumber: 1, action: 'hover', selector: '.menu' }]);
+
+      expect(result.content).toContain("page.locator('.menu').hover()");
+    });
+
+    it('should record step and case durations', () => {
+      const result = generateForSteps([mockStep]);
+
+      expect(result.content).toContain('Date.now() - stepStart');
+      expect(result.content).toContain('Date.now() - caseStartTime');
+    });
+  });
+
+  describe('Parallel execution', () => {
+    /** Minimal stand-in for the playwright module that logs context usage */
+    const FAKE_PLAYWRIGHT = `
+const fs = require('fs');
+const log = (entry) => fs.appendFileSync(process.env.FAKE_LOG, JSON.stringify(entry) + '\\n');
+const locator = (selector) => ({
+  fill: async (value) => log({ event: 'fill', selector, value }), click: async () => {}, hover: async () => {},
+  isVisible: async () => true, isEnabled: async () => false, count: async () => 1, textContent: async () => '',
+  scrollIntoViewIfNeeded: async () => {}, first() { return this; }, waitFor: async () => {},
+  screenshot: async (options = {}) => {
+    log({ event: 'screenshot', selector, masks: (options.mask || []).length });
+    return Buffer.from('fake-png');
+  },
+});
+// Every page load fetches /api/items (200) and /api/broken (500) and logs a console error
+const fakeRequest = (url, status, body) => {
+  const response = {
+    status: () => status, statusText: () => (status === 200 ? 'OK' : 'Internal Server Error'),
+    headers: () => ({ 'content-type': 'application/json' }), text: async () => JSON.stringify(body),
+  };
+  return {
+    method: () => 'GET', url: () => url, resourceType: () => 'fetch', postData: () => null,
+    headers: () => ({ authorization: 'Bearer secret' }), response: async () => response, failure: () => null,
+  };
+};
+let contexts = 0;
+const browser = {
+  newContext: async (options = {}) => {
+    const id = contexts++;
+    log({ event: 'context', id, storageState: options.storageState || null, headers: options.extraHTTPHeaders || null });
+    const context = {
+      browser: () => browser,
+      newPage: async () => {
+        const listeners = {};
+        const emit = (event, arg) => (listeners[event] || []).forEach((listener) => listener(arg));
+        return {
+        on: (event, listener) => { listeners[event] = [...(listeners[event] || []), listener]; },
+        off: (event, listener) => { listeners[event] = (listeners[event] || []).filter((l) => l !== listener); },
+        setDefaultTimeout() {}, goto: async (url) => {
+          log({ event: 'goto', id, url });
+          await new Promise((r) => setTimeout(r, 50));
+          for (const [api, status] of [['/api/items', 200], ['/api/broken', 500]]) {
+            const request = fakeRequest('https://example.com' + api + '?page=1', status, { data: { total: 3 } });
+            emit('request', request);
+            emit('requestfinished', request);
+          }
+          emit('console', { type: () => 'error', text: () => 'Boom' });
+        },
+        waitForLoadState: async () => {}, waitForSelector: async () => {},
+        waitForTimeout: async () => {}, locator, url: () => 'https://example.com',
+        context: () => context,
+        screenshot: async (options = {}) => {
+          log({ event: 'screenshot', id, fullPage: options.fullPage, masks: (options.mask || []).length });
+          return Buffer.from('fake-png');
+        },
+        // Expressions collect a11y snapshots; functions compare visual screenshots (5 of 1000 pixels differ)
+        evaluate: async (fn) => typeof fn === 'string'
+          ? { url: 'https://example.com', title: 'Fake', lang: '', elements: [], texts: [], duplicateIds: [] }
+          : { diffPixels: 5, totalPixels: 1000, diffImage: Buffer.from('fake-diff').toString('base64') },
+        };
+      },
+      storageState: async () => ({ cookies: [{ name: 'session', value: 'abc' }], origins: [] }),
+      close: async () => {},
+    };
+    return context;
+  },
+  close: async () => {},
+};
+exports.chromium = { launch: async () => browser };
+`;
+
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parallel-script-'));
+      const fakeModuleDir = path.join(tempDir, 'node_modules', 'playwright');
+      fs.mkdirSync(fakeModuleDir, { recursive: true });
+      fs.writeFileSync(path.join(fakeModuleDir, 'index.js'), FAKE_PLAYWRIGHT);
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function createCases(count: number): TestCase[] {
+      return Array.from({ length: count }, (_, i) => ({
+        ...mockTestCase,
+        id: `tc-${i + 1}`,
+        caseId: `TC00${i + 1}`,
+        route: `/page-${i + 1}`,
+        steps: [{ stepNumber: 1, action: 'hover', selector: '.menu' }],
+        assertions: [],
+      }));
+    }
+
+    function runScript(
+      testCases: TestCase[],
+      workers: number,
+      overrides: {
+        login?: Partial<TargetProfile['login']>;
+        roles?: TargetProfile['roles'];
+        sessionPath?: string;
+        baselineDir?: string;
+      } = {}
+    ) {
+      const profile = {
+        ...mockProfile,
+        browser: { ...mockProfile.browser, workers },
+        login: { ...mockProfile.login, ...overrides.login },
+        roles: overrides.roles,
+      };
+      const script = generateTestScript(testCases, profile, {
+        runId: 'run-1',
+        outputDir: tempDir,
+        screenshotDir: path.join(tempDir, 'screenshots'),
+        sessionPath: overrides.sessionPath,
+        baselineDir: overrides.baselineDir,
+      });
+      const scriptPath = path.join(tempDir, 'test.cjs');
+      const logPath = path.join(tempDir, 'fake.log');
+      fs.writeFileSync(scriptPath, script.content);
+      execFileSync(process.execPath, [scriptPath], {
+        cwd: tempDir,
+        env: { ...process.env, FAKE_LOG: logPath },
+        timeout: 20000,
+      });
+
+      return {
+        script,
+        results: JSON.parse(fs.readFileSync(path.join(tempDir, 'execution-results.json'), 'utf-8')),
+        log: fs.readFileSync(logPath, 'utf-8').trim().split('\n').map((line) => JSON.parse(line)),
+      };
+    }
+
+    it('should run shards in separate contexts that reuse the login session', () => {
+      const { script, results, log } = runScript(createCases(4), 2);
+
+      expect(script.shards).toHaveLength(2);
+      const contexts = log.filter((entry) => entry.event === 'context');
+      // One login context plus one per worker
+      expect(contexts).toHaveLength(3);
+      expect(contexts[0].storageState).toBeNull();
+      expect(contexts.slice(1).every((c) => c.storageState.cookies[0].value === 'abc')).toBe(true);
+
+      const casesPerContext = new Map<number, number>();
+      for (const entry of log.filter((e) => e.event === 'goto' && e.url.includes('/page-'))) {
+        casesPerContext.set(entry.id, (casesPerContext.get(entry.id) ?? 0) + 1);
+      }
+      expect([...casesPerContext.values()]).toEqual([2, 2]);
+    });
+
+    it('should merge results in planned order with wall-clock duration', () => {
+      const { results } = runScript(createCases(4), 4);
+
+      expect(results.success).toBe(true);
+      expect(results.testCases.map((tc: { caseId: string }) => tc.caseId))
+        .toEqual(['TC001', 'TC002', 'TC003', 'TC004']);
+      const summedCaseDuration = results.testCases
+        .reduce((sum: number, tc: { durationMs: number }) => sum + tc.durationMs, 0);
+      expect(results.testCases.every((tc: { durationMs: number }) => tc.durationMs >= 40)).toBe(true);
+      expect(results.totalDurationMs).toBeLessThan(summedCaseDuration);
+    });
+
+    it('should reuse a cached login session across runs', () => {
+      const sessionPath = path.join(tempDir, 'auth', 'session.json');
+
+      runScript(createCases(2), 2, { sessionPath });
+      fs.rmSync(path.join(tempDir, 'fake.log'));
+      const { log } = runScript(createCases(2), 2, { sessionPath });
+
+      const cached = JSON.parse(fs.readFileSync(sessionPath, 'utf-8'));
+      expect(cached.storageState.cookies[0].value).toBe('abc');
+      // No login context on the second run
+      const contexts = log.filter((entry) => entry.event === 'context');
+      expect(contexts).toHaveLength(2);
+      expect(contexts.every((c) => c.storageState.cookies[0].value === 'abc')).toBe(true);
+    });
+
+    it('should send the bearer token header without logging in', () => {
+      const { log } = runScript(createCases(2), 1, {
+        login: { strategy: 'bearer_token', bearerToken: 'secret-token' },
+        sessionPath: path.join(tempDir, 'auth', 'session.json'),
+      });
+
+      const contexts = log.filter((entry) => entry.event === 'context');
+      expect(contexts).toHaveLength(1);
+      expect(contexts[0].headers).toEqual({ Authorization: 'Bearer secret-token' });
+      expect(log.some((entry) => entry.event === 'goto' && entry.url.includes('/login'))).toBe(false);
+      expect(fs.existsSync(path.join(tempDir, 'auth', 'session.json'))).toBe(false);
+    });
+
+    it('should run role cases in a separate session logged in as the role', () => {
+      const sessionPath = path.join(tempDir, 'auth', 'session.json');
+      const testCases = createCases(3);
+      testCases[1] = {
+        ...testCases[1],
+        role: 'viewer',
+        assertions: [
+          { ...mockAssertion, type: 'permission_denied', expected: '.delete-button' },
+          { ...mockAssertion, assertionId: 'A002', type: 'permission_denied', expected: '/admin' },
+        ],
+      };
+
+      const { results, log } = runScript(testCases, 1, {
+        roles: [{ name: 'viewer', credentials: { username: 'viewer-user', password: 'viewer-pass' } }],
+        sessionPath,
+      });
+
+      // One login context per role plus one worker context per role
+      const contexts = log.filter((entry) => entry.event === 'context');
+      expect(contexts).toHaveLength(4);
+      expect(log.some((entry) => entry.event === 'fill' && entry.value === 'viewer-user')).toBe(true);
+      expect(fs.existsSync(path.join(tempDir, 'auth', 'session-viewer.json'))).toBe(true);
+
+      // The viewer case runs in its own context, the other cases share the default one
+      const contextByCase = new Map<string, number>();
+      for (const entry of log.filter((e) => e.event === 'goto' && e.url.includes('/page-'))) {
+        contextByCase.set(entry.url.slice(entry.url.indexOf('/page-')), entry.id);
+      }
+      expect(contextByCase.get('/page-1')).toBe(contextByCase.get('/page-3'));
+      expect(contextByCase.get('/page-2')).not.toBe(contextByCase.get('/page-1'));
+
+      const viewerCase = results.testCases.find((tc: { caseId: string }) => tc.caseId === 'TC002');
+      expect(viewerCase.assertions.map((a: { actual: string }) => a.actual))
+        .toEqual(['hidden or disabled', 'redirected to https://example.com']);
+      expect(viewerCase.assertions.every((a: { machineVerdict: string }) => a.machineVerdict === 'pass')).toBe(true);
+    });
+
+    it('should fail only the cases of a role the target profile does not define', () => {
+      const testCases = createCases(3);
+      testCases[1] = { ...testCases[1], role: 'auditor' };
+
+      const { results, log } = runScript(testCases, 2, {
+        roles: [{ name: 'viewer', credentials: { username: 'viewer-user', password: 'viewer-pass' } }],
+      });
+
+      expect(results.success).toBe(true);
+      expect(results.testCases.map((tc: { caseId: string; status: string }) => [tc.caseId, tc.status])).toEqual([
+        ['TC001', 'passed'],
+        ['TC002', 'error'],
+        ['TC003', 'passed'],
+      ]);
+      expect(results.testCases[1].error).toBe('Role auditor is not defined in the target profile');
+      expect(log.some((entry) => entry.event === 'goto' && entry.url.includes('/page-2'))).toBe(false);
+    });
+
+    it('should compare visual screenshots against promoted baselines', () => {
+      const baselineDir = path.join(tempDir, 'baselines', 'project-1', '_base');
+      const [testCase] = createCases(1);
+      testCase.assertions = [
+        { ...mockAssertion, type: 'visual', expected: 'page', visual: { threshold: 0.01, maskSelectors: ['.clock'] } },
+        { ...mockAssertion, assertionId: 'A002', type: 'visual', expected: '.chart' },
+      ];
+
+      // First run: no baselines yet
+      const first = runScript([testCase], 1, { baselineDir }).results.testCases[0];
+      expect(first.status).toBe('failed');
+      expect(first.assertions[0].actual).toContain('no baseline');
+      expect(first.assertions[0].evidencePath).toBe('visual/page-1/TC001-A001.png');
+      const visualDir = path.join(tempDir, 'screenshots', 'visual');
+      expect(fs.readFileSync(path.join(visualDir, 'page-1', 'TC001-A001.png'), 'utf-8')).toBe('fake-png');
+
+      // Promote the run's screenshots, then compare: 0.5% of pixels differ
+      fs.cpSync(visualDir, baselineDir, { recursive: true });
+      fs.rmSync(path.join(tempDir, 'fake.log'));
+      const { results, log } = runScript([testCase], 1, { baselineDir });
+      const [pagePass, elementFail] = results.testCases[0].assertions;
+
+      expect(pagePass.machineVerdict).toBe('pass');
+      expect(pagePass.evidencePath).toBe('visual/page-1/TC001-A001-diff.png');
+      expect(fs.readFileSync(path.join(visualDir, 'page-1', 'TC001-A001-diff.png'), 'utf-8')).toBe('fake-diff');
+      expect(elementFail.machineVerdict).toBe('fail');
+      expect(elementFail.actual).toBe('0.500% pixels differ (5/1000)');
+      expect(log.filter((e) => e.event === 'screenshot').map((e) => [e.fullPage, e.masks]))
+        .toEqual([[true, 1], [undefined, 0]]);
+    });
+
+    it('should record a HAR per case and check api_response assertions', () => {
+      const [testCase] = createCases(1);
+      testCase.assertions = [
+        { ...mockAssertion, type: 'api_response', expected: '/api/items', api: { method: 'GET', jsonPath: '$.data.total', jsonValue: 3 } },
+        { ...mockAssertion, assertionId: 'A002', type: 'api_response', expected: '/items', api: { status: 201 } },
+      ];
+
+      const { results } = runScript([testCase], 1);
+      const [caseResult] = results.testCases;
+
+      expect(caseResult.assertions.map((a: { machineVerdict: string }) => a.machineVerdict)).toEqual(['pass', 'fail']);
+      expect(caseResult.assertions[0].actual).toMatch(/^GET \/api\/items -> 200 in \d+ms, \$\.data\.total = 3$/);
+      expect(caseResult.harPath).toBe('evidence/har/TC001.har');
+      expect(caseResult.networkIssues).toEqual([
+        { kind: 'http_error', method: 'GET', url: 'https://example.com/api/broken?page=1', status: 500, message: '500 Internal Server Error' },
+        { kind: 'console_error', message: 'Boom', url: 'https://example.com' },
+      ]);
+
+      const har = JSON.parse(fs.readFileSync(path.join(tempDir, 'har', 'TC001.har'), 'utf-8'));
+      expect(har.log.entries).toHaveLength(2);
+      expect(har.log.entries[0].request.queryString).toEqual([{ name: 'page', value: '1' }]);
+      expect(har.log.entries[0].request.headers).toEqual([{ name: 'authorization', value: '[redacted]' }]);
+      expect(JSON.parse(har.log.entries[0].response.content.text)).toEqual({ data: { total: 3 } });
+    });
+
+    it('should not report error responses that an assertion expects', () => {
+      const [testCase] = createCases(1);
+      testCase.assertions = [{ ...mockAssertion, type: 'api_response', expected: '/api/broken', api: { status: 500 } }];
+
+      const { results } = runScript([testCase], 1);
+
+      expect(results.testCases[0].assertions[0].machineVerdict).toBe('pass');
+      expect(results.testCases[0].networkIssues.map((i: { kind: string }) => i.kind)).toEqual(['console_error']);
+    });
+
+    it('should audit each route with the session of its role', () => {
+      const sessionPath = path.join(tempDir, 'auth', 'session.json');
+      const profile = {
+        ...mockProfile,
+        roles: [{ name: 'viewer', credentials: { username: 'viewer-user', password: 'viewer-pass' } }],
+      };
+      const script = generateA11yAuditScript(
+        [{ route: '/page-1' }, { route: '/page-2', role: 'viewer' }, { route: '/page-3' }],
+        profile,
+        { runId: 'run-1', outputDir: path.join(tempDir, 'outputs'), screenshotDir: tempDir, sessionPath }
+      );
+      const scriptPath = path.join(tempDir, 'audit.cjs');
+      fs.writeFileSync(scriptPath, script.content);
+      execFileSync(process.execPath, [scriptPath], {
+        cwd: tempDir,
+        env: { ...process.env, FAKE_LOG: path.join(tempDir, 'fake.log') },
+        timeout: 20000,
+      });
+
+      const audit = JSON.parse(fs.readFileSync(path.join(tempDir, 'outputs', 'a11y-snapshots.json'), 'utf-8'));
+      expect(audit.runId).toBe('run-1');
+      expect(audit.pages.map((p: { route: string; title: string }) => [p.route, p.title])).toEqual([
+        ['/page-1', 'Fake'],
+        ['/page-2', 'Fake'],
+        ['/page-3', 'Fake'],
+      ]);
+      expect(fs.existsSync(path.join(tempDir, 'auth', 'session-viewer.json'))).toBe(true);
+    });
+
+    it('should run everything in one worker by default', () => {
+      const result = generateTestScript(createCases(3), mockProfile, {
+        runId: 'run-1',
+        outputDir: '/tmp/output',
+        screenshotDir: '/tmp/screenshots',
+      });
+
+      expect(result.shards).toHaveLength(1);
+      expect(result.content).toContain('const SHARDS = [[0,1,2]]');
+    });
   });
 });
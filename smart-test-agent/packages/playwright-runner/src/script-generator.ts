@@ -4,23 +4,38 @@
  * @see Requirements 7.1, 7.2
  */
 
+import * as path from 'path';
 import type {
   TestCase,
   TestStep,
   Assertion,
-  DataStep,
   TargetProfile,
   AssertionType,
+  ApiEndpoint,
+  ElementInventory,
+  InventoryElement,
 } from '@smart-test-agent/shared';
 import {
-  generateButtonSelector,
+  generateSelectorByPriority,
   generateSelectSelector,
   generateModalCloseSelector,
   generateScrollIntoView,
   escapeString,
   isTwoChineseChars,
+  type ElementDescription,
   type SelectorOptions,
 } from './selector-generator.js';
+import { shardTestCases, type TestShard } from './test-sharder.js';
+import { generateDataStepCode, generateDataCleanupCode, getCreatedEntitiesName } from './test-data-manager.js';
+import { A11Y_COLLECTOR_SOURCE, A11Y_SNAPSHOT_FILENAME } from './a11y-audit.js';
+import { generateAuthCode, DEFAULT_SESSION_MAX_AGE_MS } from './auth-session.js';
+import { generateNetworkCode, DEFAULT_API_WAIT_MS, HAR_DIRNAME } from './network-capture.js';
+import {
+  generateVisualCode,
+  getVisualKey,
+  DEFAULT_VISUAL_THRESHOLD,
+  DEFAULT_PIXEL_THRESHOLD,
+} from './visual-baseline.js';
 
 /**
  * Script generation options
@@ -29,6 +44,26 @@ export interface ScriptGenerationOptions {
   runId: string;
   outputDir: string;
   screenshotDir: string;
+  /** Where the login session is cached between runs; caching is disabled when omitted */
+  sessionPath?: string;
+  /** Baselines for visual assertions of this project environment */
+  baselineDir?: string;
+  /** Where per-case HAR files are written (defaults to a har directory next to screenshotDir) */
+  harDir?: string;
+  /** Base URL of the backend API used by data steps (defaults to the profile's baseUrl) */
+  apiBaseUrl?: string;
+  /** Backend endpoints with OpenAPI schemas, used to build data preparation and cleanup requests */
+  apis?: ApiEndpoint[];
+  /** UI elements per route; selectors of a case are chosen against the inventory of its route */
+  inventory?: ElementInventory[];
+}
+
+/**
+ * API settings for data preparation and cleanup code
+ */
+interface DataStepOptions {
+  apiBaseUrl: string;
+  apis: ApiEndpoint[];
 }
 
 /**
@@ -38,6 +73,8 @@ export interface GeneratedScript {
   filename: string;
   content: string;
   testCaseIds: string[];
+  /** Test cases per parallel worker */
+  shards: TestShard[];
 }
 
 /**
@@ -54,7 +91,12 @@ export function generateTestScript(
     uiFramework: profile.uiFramework,
     antdQuirks: profile.antdQuirks,
   };
+  const dataOptions: DataStepOptions = {
+    apiBaseUrl: options.apiBaseUrl ?? profile.baseUrl,
+    apis: options.apis ?? [],
+  };
 
+  const shards = shardTestCases(testCases, profile.browser.workers);
   const scriptParts: string[] = [];
 
   // 1. Script header with imports and configuration
@@ -63,16 +105,150 @@ export function generateTestScript(
   // 2. Helper functions
   scriptParts.push(generateHelperFunctions());
 
-  // 3. Main execution function
-  scriptParts.push(generateMainFunction(testCases, profile, selectorOptions, options));
+  // 3. Authentication
+  scriptParts.push(generateAuthCode(profile.login, profile.roles));
+
+  // 4. Visual regression helpers (only when a case compares screenshots)
+  const hasVisualAssertions = testCases.some((tc) => tc.assertions.some((a) => a.type === 'visual'));
+  if (hasVisualAssertions) {
+    scriptParts.push(generateVisualCode());
+  }
+
+  // 5. Network capture (HAR recording and api_response checks)
+  scriptParts.push(generateNetworkCode([
+    profile.login.loginUrl,
+    ...(profile.roles ?? []).map((role) => role.login?.loginUrl ?? profile.login.loginUrl),
+  ]));
 
-  // 4. Script entry point
+  // 6. Test case functions
+  scriptParts.push(generateTestCaseFunctions(testCases, selectorOptions, dataOptions, options.inventory ?? []));
+
+  // 7. Main execution function
+  scriptParts.push(generateMainFunction(testCases, shards, options));
+  scriptParts.push(generateLoginFunction());
+
+  // 8. Script entry point
   scriptParts.push(generateEntryPoint());
 
   return {
     filename: `test-${runId}.js`,
     content: scriptParts.join('\n\n'),
     testCaseIds: testCases.map((tc) => tc.caseId),
+    shards,
+  };
+}
+
+/**
+ * Page audited by the accessibility audit script
+ */
+export interface A11yAuditTarget {
+  route: string;
+  /** Role whose session opens the page (default login when omitted) */
+  role?: string;
+}
+
+/**
+ * Generate the accessibility audit script
+ * Opens every target route with the login session of its role (reusing the cached
+ * sessions of the test run) and writes a snapshot per page to a11y-snapshots.json in the
+ * output directory. The snapshots are evaluated with evaluateA11yRules.
+ * @see Requirements 10.1, 11.1
+ */
+export function generateA11yAuditScript(
+  targets: A11yAuditTarget[],
+  profile: TargetProfile,
+  options: ScriptGenerationOptions
+): { filename: string; content: string } {
+  const auditTargets = JSON.stringify(targets.map((t) => ({ route: t.route, role: t.role ?? null })));
+
+  const main = `// Pages to audit and the role each is opened as
+const AUDIT_TARGETS = ${auditTargets};
+
+// Snapshot collector, evaluated in each page
+const A11Y_COLLECTOR_SOURCE = ${JSON.stringify(A11Y_COLLECTOR_SOURCE)};
+
+// Main audit function
+async function runAudit() {
+  const audit = {
+    runId: '${escapeString(options.runId)}',
+    startTime: new Date().toISOString(),
+    endTime: null,
+    pages: [],
+  };
+
+  let browser = null;
+  const contexts = [];
+  try {
+    browser = await chromium.launch({ headless: true });
+    const pages = new Map();
+    for (const target of AUDIT_TARGETS) {
+      try {
+        if (!pages.has(target.role)) {
+          const session = await loadSession(browser, target.role);
+          const context = await browser.newContext({
+            ...CONTEXT_OPTIONS,
+            storageState: session.storageState,
+            extraHTTPHeaders: session.extraHTTPHeaders,
+          });
+          contexts.push(context);
+          const page = await context.newPage();
+          page.setDefaultTimeout(CONFIG.timeout);
+          pages.set(target.role, page);
+        }
+        const page = pages.get(target.role);
+        await page.goto(resolveUrl(target.route));
+        await page.waitForLoadState('networkidle');
+        const snapshot = await page.evaluate('(' + A11Y_COLLECTOR_SOURCE + ')()');
+        audit.pages.push({ route: target.route, ...snapshot });
+      } catch (error) {
+        audit.pages.push({
+          route: target.route,
+          url: '',
+          title: '',
+          lang: '',
+          elements: [],
+          texts: [],
+          duplicateIds: [],
+          error: error.message,
+        });
+      }
+    }
+  } finally {
+    for (const context of contexts) {
+      await context.close();
+    }
+    if (browser) {
+      await browser.close();
+    }
+  }
+
+  audit.endTime = new Date().toISOString();
+  return audit;
+}
+
+// Entry point
+runAudit()
+  .then((audit) => {
+    const outputPath = path.join(CONFIG.outputDir, '${A11Y_SNAPSHOT_FILENAME}');
+    fs.mkdirSync(CONFIG.outputDir, { recursive: true });
+    fs.writeFileSync(outputPath, JSON.stringify(audit, null, 2));
+    console.log('Accessibility audit completed. Snapshots written to:', outputPath);
+    console.log('Pages audited:', audit.pages.length);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });`;
+
+  return {
+    filename: `a11y-audit-${options.runId}.js`,
+    content: [
+      generateScriptHeader(profile, options),
+      generateAuthCode(profile.login, profile.roles),
+      generateLoginFunction(),
+      main,
+    ].join('\n\n'),
   };
 }
 
@@ -90,6 +266,7 @@ function generateScriptHeader(
  */
 
 const { chromium } = require('playwright');
+const crypto = require('crypto');
 const fs = require('fs');
 const path = require('path');
 
@@ -102,6 +279,18 @@ const CONFIG = {
   ignoreHTTPSErrors: ${profile.browser.ignoreHTTPSErrors},
   screenshotDir: '${escapeString(options.screenshotDir)}',
   outputDir: '${escapeString(options.outputDir)}',
+  sessionPath: ${options.sessionPath ? `'${escapeString(options.sessionPath)}'` : 'null'},
+  sessionMaxAgeMs: ${DEFAULT_SESSION_MAX_AGE_MS},
+  baselineDir: ${options.baselineDir ? `'${escapeString(options.baselineDir)}'` : 'null'},
+  harDir: '${escapeString(options.harDir ?? path.join(path.dirname(options.screenshotDir), HAR_DIRNAME))}',
+  apiWaitMs: ${DEFAULT_API_WAIT_MS},
+};
+
+// Browser context options shared by all workers
+const CONTEXT_OPTIONS = {
+  viewport: CONFIG.viewport,
+  locale: CONFIG.locale,
+  ignoreHTTPSErrors: CONFIG.ignoreHTTPSErrors,
 };
 
 // Login configuration
@@ -136,57 +325,96 @@ async function scrollIntoViewIfNeeded(locator) {
   }
 }
 
-function createResult(caseId, status, steps, assertions, error = null) {
+function createResult(caseId, status, steps, assertions, error = null, durationMs = 0, network = null) {
   return {
     caseId,
     status,
     steps,
     assertions,
     error,
-    durationMs: 0,
+    durationMs,
+    harPath: network ? network.harPath : null,
+    networkIssues: network ? network.networkIssues : [],
   };
 }
 
-function createStepResult(stepNumber, success, error = null, screenshotPath = null) {
+function createStepResult(stepNumber, success, error = null, screenshotPath = null, durationMs = 0) {
   return {
     stepNumber,
     success,
     error,
     screenshotPath,
-    durationMs: 0,
+    durationMs,
   };
 }
 
-function createAssertionResult(assertionId, type, expected, actual, verdict, reasoning = null) {
+function createAssertionResult(assertionId, type, description, expected, actual, verdict, reasoning = null, evidencePath = null) {
   return {
     assertionId,
     type,
+    description,
     expected,
     actual,
     machineVerdict: type !== 'soft' ? verdict : null,
     agentVerdict: type === 'soft' ? verdict : null,
     agentReasoning: reasoning,
+    evidencePath,
   };
 }`;
 }
 
+/**
+ * Generate one async function per test case, plus the list workers index into
+ */
+function generateTestCaseFunctions(
+  testCases: TestCase[],
+  selectorOptions: SelectorOptions,
+  dataOptions: DataStepOptions,
+  inventories: ElementInventory[]
+): string {
+  const inventoryByRoute = new Map(inventories.map((inventory) => [inventory.route, inventory.elements]));
+  const functions = testCases.map((tc, index) =>
+    generateTestCaseCode(
+      tc,
+      `runCase${index + 1}`,
+      { ...selectorOptions, inventory: inventoryByRoute.get(tc.route) },
+      dataOptions
+    )
+  );
+  const runners = testCases.map((_, index) => `  runCase${index + 1},`).join('\n');
+
+  return `// Test case functions
+${functions.join('\n\n')}
+
+const CASE_RUNNERS = [
+${runners}
+];`;
+}
+
 /**
  * Generate main execution function
+ * Establishes the login session once per role in use, then runs each shard in its own
+ * browser contexts (one per role) that reuse them. Case results are merged back into
+ * planned order.
  */
 function generateMainFunction(
   testCases: TestCase[],
-  profile: TargetProfile,
-  selectorOptions: SelectorOptions,
+  shards: TestShard[],
   options: ScriptGenerationOptions
 ): string {
-  const testCaseCode = testCases
-    .map((tc) => generateTestCaseCode(tc, selectorOptions))
-    .join('\n\n');
+  const caseOrder = JSON.stringify(testCases.map((tc) => tc.caseId));
+  const caseRoles = JSON.stringify(testCases.map((tc) => tc.role ?? null));
+  const shardCaseIndexes = JSON.stringify(shards.map((shard) => shard.caseIndexes));
 
-  return `// Main execution function
+  return `// Planned case order, the role each case runs as and per-worker shards (indexes into CASE_RUNNERS)
+const CASE_ORDER = ${caseOrder};
+const CASE_ROLES = ${caseRoles};
+const SHARDS = ${shardCaseIndexes};
+
+// Main execution function
 async function runTests() {
   const results = {
-    runId: '${options.runId}',
+    runId: '${escapeString(options.runId)}',
     startTime: new Date().toISOString(),
     endTime: null,
     totalDurationMs: 0,
@@ -198,8 +426,6 @@ async function runTests() {
 
   const startTime = Date.now();
   let browser = null;
-  let context = null;
-  let page = null;
 
   try {
     // Ensure screenshot directory exists
@@ -209,19 +435,28 @@ async function runTests() {
 
     // Launch browser
     browser = await chromium.launch({ headless: true });
-    context = await browser.newContext({
-      viewport: CONFIG.viewport,
-      locale: CONFIG.locale,
-      ignoreHTTPSErrors: CONFIG.ignoreHTTPSErrors,
-    });
-    page = await context.newPage();
-    page.setDefaultTimeout(CONFIG.timeout);
 
-    // Perform login
-    await performLogin(page);
-
-${testCaseCode}
+    // Log in once per role (or reuse the cached sessions) and share them with every worker
+    // Roles the target profile does not define get no session, only their cases fail
+    const sessions = new Map();
+    for (const role of new Set(CASE_ROLES)) {
+      if (isRoleDefined(role)) {
+        sessions.set(role, await loadSession(browser, role));
+      }
+    }
 
+    // Run shards in parallel
+    const outcomes = await Promise.allSettled(
+      SHARDS.map((caseIndexes) => runWorker(browser, caseIndexes, sessions, results))
+    );
+    const workerErrors = outcomes
+      .filter((outcome) => outcome.status === 'rejected')
+      .map((outcome) => outcome.reason && outcome.reason.message ? outcome.reason.message : String(outcome.reason));
+    if (workerErrors.length > 0) {
+      results.success = false;
+      results.error = workerErrors.join('; ');
+      results.reasonCode = 'playwright_error';
+    }
   } catch (error) {
     results.success = false;
     results.error = error.message;
@@ -232,41 +467,96 @@ ${testCaseCode}
     }
   }
 
+  results.testCases.sort((a, b) => CASE_ORDER.indexOf(a.caseId) - CASE_ORDER.indexOf(b.caseId));
   results.endTime = new Date().toISOString();
   results.totalDurationMs = Date.now() - startTime;
 
   return results;
 }
 
-// Login function
-async function performLogin(page) {
-  await page.goto(LOGIN_CONFIG.loginUrl);
+// Worker: runs its cases serially, in a dedicated browser context per role
+async function runWorker(browser, caseIndexes, sessions, results) {
+  const pages = new Map();
+  const contexts = [];
+  try {
+    for (const caseIndex of caseIndexes) {
+      const role = CASE_ROLES[caseIndex];
+      if (!sessions.has(role)) {
+        results.testCases.push(createResult(
+          CASE_ORDER[caseIndex],
+          'error',
+          [],
+          [],
+          'Role ' + role + ' is not defined in the target profile'
+        ));
+        continue;
+      }
+      if (!pages.has(role)) {
+        const session = sessions.get(role);
+        const context = await browser.newContext({
+          ...CONTEXT_OPTIONS,
+          storageState: session.storageState,
+          extraHTTPHeaders: session.extraHTTPHeaders,
+        });
+        contexts.push(context);
+        const page = await context.newPage();
+        page.setDefaultTimeout(CONFIG.timeout);
+        pages.set(role, page);
+      }
+      await CASE_RUNNERS[caseIndex](pages.get(role), results);
+    }
+  } finally {
+    for (const context of contexts) {
+      await context.close();
+    }
+  }
+}`;
+}
+
+/**
+ * Generate the form login function
+ */
+function generateLoginFunction(): string {
+  return `// Login function (roles carry their own form fields, the default login uses LOGIN_CONFIG)
+async function performLogin(page, auth) {
+  const login = (auth && auth.login) || LOGIN_CONFIG;
+  await page.goto(resolveUrl(login.loginUrl));
   await page.waitForLoadState('networkidle');
   
-  await page.locator(LOGIN_CONFIG.usernameSelector).fill(LOGIN_CONFIG.username);
-  await page.locator(LOGIN_CONFIG.passwordSelector).fill(LOGIN_CONFIG.password);
-  await page.locator(LOGIN_CONFIG.submitSelector).click();
+  await page.locator(login.usernameSelector).fill(resolveValue(login.username));
+  await page.locator(login.passwordSelector).fill(resolveValue(login.password));
+  await page.locator(login.submitSelector).click();
   
   // Wait for successful login
-  await page.waitForSelector(LOGIN_CONFIG.successIndicator, { timeout: CONFIG.timeout });
+  await page.waitForSelector(login.successIndicator, { timeout: CONFIG.timeout });
 }`;
 }
 
 /**
  * Generate code for a single test case
  */
-function generateTestCaseCode(testCase: TestCase, selectorOptions: SelectorOptions): string {
+function generateTestCaseCode(
+  testCase: TestCase,
+  functionName: string,
+  selectorOptions: SelectorOptions,
+  dataOptions: DataStepOptions
+): string {
   const { caseId, title, route, steps, assertions, dataPreparation, dataCleanup } = testCase;
+  const { apiBaseUrl, apis } = dataOptions;
+  const hasDataSteps = Boolean(dataPreparation?.length || dataCleanup?.length);
 
   const parts: string[] = [];
 
-  parts.push(`    // Test Case: ${caseId} - ${escapeString(title)}`);
-  parts.push(`    {`);
   parts.push(`      const caseStartTime = Date.now();`);
   parts.push(`      const stepResults = [];`);
   parts.push(`      const assertionResults = [];`);
   parts.push(`      let caseError = null;`);
   parts.push(`      let caseStatus = 'passed';`);
+  parts.push(`      const networkCapture = startNetworkCapture(page, '${caseId}');`);
+  if (hasDataSteps) {
+    // Entities created by data preparation, deleted by cleanup in finally
+    parts.push(`      const ${getCreatedEntitiesName(caseId)} = [];`);
+  }
   parts.push(``);
   parts.push(`      try {`);
 
@@ -274,7 +564,7 @@ function generateTestCaseCode(testCase: TestCase, selectorOptions: SelectorOptio
   if (dataPreparation && dataPreparation.length > 0) {
     parts.push(`        // Data preparation`);
     dataPreparation.forEach((step, idx) => {
-      parts.push(generateDataStepCode(step, idx, 'preparation'));
+      parts.push(indent(generateDataStepCode(step, idx, caseId, apiBaseUrl, 'preparation', apis), 8));
     });
     parts.push(``);
   }
@@ -295,38 +585,68 @@ function generateTestCaseCode(testCase: TestCase, selectorOptions: SelectorOptio
   parts.push(``);
   parts.push(`        // Execute assertions`);
   assertions.forEach((assertion) => {
-    parts.push(generateAssertionCode(assertion, selectorOptions));
+    parts.push(generateAssertionCode(assertion, selectorOptions, getVisualKey(route, caseId, assertion.assertionId)));
   });
 
+  // Any failed step or non-passing assertion fails the case
+  parts.push(``);
+  parts.push(`        const stepFailed = stepResults.some((s) => !s.success);`);
+  parts.push(`        const assertionFailed = assertionResults.some((a) => (a.machineVerdict || a.agentVerdict) !== 'pass');`);
+  parts.push(`        if (stepFailed || assertionFailed) {`);
+  parts.push(`          caseStatus = 'failed';`);
+  parts.push(`        }`);
   parts.push(`      } catch (error) {`);
   parts.push(`        caseError = error.message;`);
   parts.push(`        caseStatus = 'error';`);
   parts.push(`      } finally {`);
 
-  // Data cleanup (always executed)
-  if (dataCleanup && dataCleanup.length > 0) {
+  // Data cleanup (always executed): explicit cleanup steps, then any entity still created
+  if (hasDataSteps) {
     parts.push(`        // Data cleanup (always executed)`);
-    parts.push(`        try {`);
-    dataCleanup.forEach((step, idx) => {
-      parts.push(`          ${generateDataStepCode(step, idx, 'cleanup')}`);
-    });
-    parts.push(`        } catch (cleanupError) {`);
-    parts.push(`          console.error('Cleanup error:', cleanupError.message);`);
-    parts.push(`        }`);
+    parts.push(indent(generateDataCleanupCode(testCase, apiBaseUrl, apis), 8));
   }
 
   parts.push(`      }`);
   parts.push(``);
+  parts.push(`      const network = await networkCapture.stop();`);
   parts.push(`      results.testCases.push(createResult(`);
   parts.push(`        '${caseId}',`);
   parts.push(`        caseStatus,`);
   parts.push(`        stepResults,`);
   parts.push(`        assertionResults,`);
-  parts.push(`        caseError`);
+  parts.push(`        caseError,`);
+  parts.push(`        Date.now() - caseStartTime,`);
+  parts.push(`        network`);
   parts.push(`      ));`);
-  parts.push(`    }`);
 
-  return parts.join('\n');
+  return [
+    `// Test Case: ${caseId} - ${escapeString(title)}`,
+    `async function ${functionName}(page, results) {`,
+    outdent(parts.join('\n'), 4),
+    `}`,
+  ].join('\n');
+}
+
+/**
+ * Indent every non-empty line by the given number of spaces
+ */
+function indent(code: string, spaces: number): string {
+  const padding = ' '.repeat(spaces);
+  return code
+    .split('\n')
+    .map((line) => (line ? padding + line : line))
+    .join('\n');
+}
+
+/**
+ * Remove up to the given number of leading spaces from every line
+ */
+function outdent(code: string, spaces: number): string {
+  const pattern = new RegExp(`^ {0,${spaces}}`);
+  return code
+    .split('\n')
+    .map((line) => line.replace(pattern, ''))
+    .join('\n');
 }
 
 /**
@@ -347,7 +667,10 @@ function generateStepCode(
   parts.push(`          let screenshotPath = null;`);
   parts.push(`          try {`);
 
-  if (selector) {
+  const navigationCode = generateNavigationCode(action, selector, inputValue);
+  if (navigationCode) {
+    parts.push(`            ${navigationCode}`);
+  } else if (selector) {
     // Generate appropriate selector code based on action
     const selectorCode = generateSelectorCode(selector, action, inputValue, selectorOptions);
     parts.push(`            ${selectorCode}`);
@@ -355,18 +678,56 @@ function generateStepCode(
 
   if (screenshot) {
     parts.push(`            screenshotPath = await takeScreenshot(page, '${caseId}', ${stepNumber});`);
-    parts.push(`            results.screenshots.push({ caseId: '${caseId}', stepNumber: ${stepNumber}, path: screenshotPath, timestamp: new Date().toISOString() });`);
+    parts.push(`            results.screenshots.push({ id: '${caseId}-' + ${stepNumber} + '-' + Date.now(), caseId: '${caseId}', stepNumber: ${stepNumber}, path: screenshotPath, timestamp: new Date().toISOString() });`);
   }
 
   parts.push(`          } catch (error) {`);
   parts.push(`            stepError = error.message;`);
   parts.push(`          }`);
-  parts.push(`          stepResults.push(createStepResult(${stepNumber}, !stepError, stepError, screenshotPath));`);
+  parts.push(`          stepResults.push(createStepResult(${stepNumber}, !stepError, stepError, screenshotPath, Date.now() - stepStart));`);
   parts.push(`        }`);
 
   return parts.join('\n');
 }
 
+/**
+ * Generate code for actions that do not interact with an element:
+ * navigate (target is a route or URL), wait and hover
+ * Returns null when the action should go through selector handling.
+ */
+function generateNavigationCode(
+  action: string,
+  selector: string | undefined,
+  inputValue: string | undefined
+): string | null {
+  const actionLower = action.toLowerCase().trim();
+
+  if (actionLower === 'navigate' || actionLower === 'goto') {
+    const target = selector || inputValue;
+    if (!target) {
+      return null;
+    }
+    const url = /^https?:\/\//.test(target)
+      ? `'${escapeString(target)}'`
+      : `CONFIG.baseUrl + '${escapeString(target)}'`;
+    return `await page.goto(${url});\n            await page.waitForLoadState('networkidle');`;
+  }
+
+  if (actionLower === 'wait') {
+    if (selector) {
+      return `await page.locator('${escapeString(selector)}').first().waitFor({ state: 'visible' });`;
+    }
+    const ms = parseInt(inputValue || '', 10);
+    return `await page.waitForTimeout(${Number.isNaN(ms) ? 1000 : ms});`;
+  }
+
+  if (actionLower === 'hover' && selector) {
+    return `await page.locator('${escapeString(selector)}').hover();`;
+  }
+
+  return null;
+}
+
 /**
  * Generate selector code based on action type
  */
@@ -382,11 +743,14 @@ function generateSelectorCode(
   if (actionLower.includes('click') && actionLower.includes('button')) {
     const buttonText = extractButtonText(action);
     if (buttonText) {
-      const buttonSelector = generateButtonSelector(buttonText, selectorOptions);
+      const buttonSelector = generateSelectorByPriority({ role: 'button', text: buttonText }, selectorOptions);
       return `await ${buttonSelector.code}.click();`;
     }
   }
 
+  const element = selectorOptions.inventory && describeInventoryElement(selector, selectorOptions.inventory);
+  const locator = element ? generateSelectorByPriority(element, selectorOptions).code : `page.locator('${escapeString(selector)}')`;
+
   // Handle select operations
   if (actionLower.includes('select') && selectorOptions.uiFramework === 'antd') {
     const selectSelector = generateSelectSelector(selector, selectorOptions);
@@ -403,22 +767,49 @@ function generateSelectorCode(
   // Handle input/fill actions
   if (actionLower.includes('fill') || actionLower.includes('input') || actionLower.includes('type')) {
     if (inputValue) {
-      return `await page.locator('${escapeString(selector)}').fill('${escapeString(inputValue)}');`;
+      return `await ${locator}.fill('${escapeString(inputValue)}');`;
     }
   }
 
   // Handle click actions
   if (actionLower.includes('click')) {
-    return `await page.locator('${escapeString(selector)}').click();`;
+    return `await ${locator}.click();`;
   }
 
   // Handle scroll actions
   if (actionLower.includes('scroll')) {
-    return `await page.locator('${escapeString(selector)}').scrollIntoViewIfNeeded();`;
+    return `await ${locator}.scrollIntoViewIfNeeded();`;
   }
 
   // Default: just locate and interact
-  return `await page.locator('${escapeString(selector)}').click();`;
+  return `await ${locator}.click();`;
+}
+
+/**
+ * Describe the inventory element a step target names
+ * A target naming an element of the route's inventory by its text, label, placeholder,
+ * test id or field name (also as #name) is described by that element, so that the
+ * highest-priority selector the inventory confirms is used instead of the raw target.
+ * @returns undefined if no element of the inventory is named by the target
+ */
+function describeInventoryElement(target: string, inventory: InventoryElement[]): ElementDescription | undefined {
+  const value = target.trim();
+  const element = inventory.find((candidate) =>
+    [candidate.text, candidate.label, candidate.placeholder, candidate.testId].includes(value) ||
+    (candidate.name !== undefined && (value === candidate.name || value === `#${candidate.name}`))
+  );
+  if (!element) {
+    return undefined;
+  }
+
+  return {
+    role: element.kind === 'button' ? 'button' : undefined,
+    text: element.kind === 'field' ? undefined : element.text,
+    label: element.label,
+    placeholder: element.placeholder,
+    testId: element.testId,
+    css: target,
+  };
 }
 
 /**
@@ -445,8 +836,13 @@ function extractButtonText(action: string): string | null {
 
 /**
  * Generate assertion code
+ * @param visualKey - Baseline key of the assertion's screenshot (visual assertions only)
  */
-function generateAssertionCode(assertion: Assertion, selectorOptions: SelectorOptions): string {
+function generateAssertionCode(
+  assertion: Assertion,
+  selectorOptions: SelectorOptions,
+  visualKey: string
+): string {
   const { assertionId, type, description, expected } = assertion;
   const parts: string[] = [];
 
@@ -455,6 +851,7 @@ function generateAssertionCode(assertion: Assertion, selectorOptions: SelectorOp
   parts.push(`          let actual = null;`);
   parts.push(`          let verdict = 'pass';`);
   parts.push(`          let reasoning = null;`);
+  parts.push(`          let evidencePath = null;`);
   parts.push(`          try {`);
 
   switch (type) {
@@ -486,6 +883,54 @@ function generateAssertionCode(assertion: Assertion, selectorOptions: SelectorOp
       parts.push(`            verdict = currentUrl.includes('${escapeString(expected)}') ? 'pass' : 'fail';`);
       break;
 
+    case 'permission_denied':
+      if (expected.startsWith('/')) {
+        // The route must be refused for the role: 401/403 or a redirect away from it
+        parts.push(`            const response = await page.goto(resolveUrl('${escapeString(expected)}'));`);
+        parts.push(`            await page.waitForLoadState('networkidle');`);
+        parts.push(`            const status = response ? response.status() : null;`);
+        parts.push(`            if (status === 401 || status === 403) {`);
+        parts.push(`              actual = 'status ' + status;`);
+        parts.push(`            } else {`);
+        parts.push(`              actual = page.url().includes('${escapeString(expected)}') ? 'accessible' : 'redirected to ' + page.url();`);
+        parts.push(`            }`);
+        parts.push(`            verdict = actual === 'accessible' ? 'fail' : 'pass';`);
+      } else {
+        // The element must be absent, hidden or disabled for the role
+        parts.push(`            const guarded = page.locator('${escapeString(expected)}');`);
+        parts.push(`            const guardedCount = await guarded.count();`);
+        parts.push(`            const exposed = guardedCount > 0 && await guarded.first().isVisible() && await guarded.first().isEnabled();`);
+        parts.push(`            actual = guardedCount === 0 ? 'absent' : exposed ? 'visible and enabled' : 'hidden or disabled';`);
+        parts.push(`            verdict = exposed ? 'fail' : 'pass';`);
+      }
+      break;
+
+    case 'visual': {
+      // Screenshot the page (or element) with masked regions and compare against the baseline
+      const visual = assertion.visual ?? {};
+      const masks = (visual.maskSelectors ?? []).map((s) => `page.locator('${escapeString(s)}')`);
+      parts.push(`            const mask = [${masks.join(', ')}];`);
+      if (!expected || expected === 'page') {
+        parts.push(`            const screenshot = await page.screenshot({ fullPage: true, mask, animations: 'disabled' });`);
+      } else {
+        parts.push(`            const screenshot = await page.locator('${escapeString(expected)}').first().screenshot({ mask, animations: 'disabled' });`);
+      }
+      parts.push(`            const visualResult = await checkVisual(page, '${escapeString(visualKey)}', screenshot, ${visual.threshold ?? DEFAULT_VISUAL_THRESHOLD}, ${visual.pixelThreshold ?? DEFAULT_PIXEL_THRESHOLD});`);
+      parts.push(`            actual = visualResult.actual;`);
+      parts.push(`            verdict = visualResult.verdict;`);
+      parts.push(`            evidencePath = visualResult.evidencePath;`);
+      break;
+    }
+
+    case 'api_response': {
+      // Check the request the UI steps triggered, as recorded by the network capture
+      const api = assertion.api ?? {};
+      parts.push(`            const apiResult = await checkApiResponse(networkCapture, '${escapeString(expected)}', ${JSON.stringify(api)});`);
+      parts.push(`            actual = apiResult.actual;`);
+      parts.push(`            verdict = apiResult.verdict;`);
+      break;
+    }
+
     case 'soft':
       // Soft assertions require agent verdict - placeholder for AI review
       parts.push(`            // Soft assertion - requires agent review`);
@@ -503,34 +948,12 @@ function generateAssertionCode(assertion: Assertion, selectorOptions: SelectorOp
   parts.push(`            actual = 'error: ' + error.message;`);
   parts.push(`            verdict = 'error';`);
   parts.push(`          }`);
-  parts.push(`          assertionResults.push(createAssertionResult('${assertionId}', '${type}', '${escapeString(expected)}', actual, verdict, reasoning));`);
+  parts.push(`          assertionResults.push(createAssertionResult('${assertionId}', '${type}', '${escapeString(description)}', '${escapeString(expected)}', actual, verdict, reasoning, evidencePath));`);
   parts.push(`        }`);
 
   return parts.join('\n');
 }
 
-/**
- * Generate data step code
- */
-function generateDataStepCode(step: DataStep, index: number, phase: string): string {
-  const { action, target, data } = step;
-
-  switch (action) {
-    case 'api_call':
-      return `// ${phase} step ${index + 1}: API call to ${target}
-        // Note: API calls should be implemented based on target API`;
-
-    case 'create':
-    case 'update':
-    case 'delete':
-      return `// ${phase} step ${index + 1}: ${action} ${target}
-        // Data: ${JSON.stringify(data || {})}`;
-
-    default:
-      return `// ${phase} step ${index + 1}: Unknown action ${action}`;
-  }
-}
-
 /**
  * Generate script entry point
  */
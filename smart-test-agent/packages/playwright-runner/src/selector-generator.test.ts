@@ -12,12 +12,24 @@ import {
   generateModalCloseSelector,
   generateScrollIntoView,
   generateSelectorByPriority,
+  parseSelectorQuery,
+  checkSelectorQuery,
   escapeString,
   compareSelectorPriority,
   SELECTOR_PRIORITY,
   type SelectorOptions,
   type ElementDescription,
 } from './selector-generator.js';
+import type { InventoryElement } from '@smart-test-agent/shared';
+
+const inventory: InventoryElement[] = [
+  { kind: 'button', component: 'a-button', text: '新增用户' },
+  { kind: 'button', component: 'a-button', text: '关 闭', testId: 'close-btn' },
+  { kind: 'button', component: 'a-button' },
+  { kind: 'field', component: 'a-form-item', label: '用户名', name: 'username', placeholder: '请输入用户名' },
+  { kind: 'modal', component: 'a-modal', text: '编辑用户' },
+  { kind: 'element', component: 'div', testId: 'user-table' },
+];
 
 describe('Selector Generator', () => {
   describe('isTwoChineseChars', () => {
@@ -260,6 +272,35 @@ describe('Selector Generator', () => {
       expect(result.priority).toBe(5);
     });
 
+    it('should prefer the highest-priority selector confirmed by the inventory', () => {
+      const element: ElementDescription = {
+        role: 'button',
+        text: '导出',
+        testId: 'close-btn',
+      };
+
+      const result = generateSelectorByPriority(element, { ...options, inventory });
+      expect(result.type).toBe('getByTestId');
+      expect(result.priority).toBe(4);
+      expect(result.verified).toBe(true);
+
+      const placeholder = generateSelectorByPriority(
+        { text: '用户', placeholder: '请输入用户名' },
+        { ...options, inventory }
+      );
+      expect(placeholder.type).toBe('getByText');
+      expect(placeholder.verified).toBe(true);
+    });
+
+    it('should fall back to the priority order when the inventory confirms nothing', () => {
+      const element: ElementDescription = { role: 'textbox', name: '邮箱', css: '#email' };
+
+      const result = generateSelectorByPriority(element, { ...options, inventory });
+      expect(result.type).toBe('getByRole');
+      expect(result.verified).toBe(false);
+      expect(generateSelectorByPriority(element, options).verified).toBeUndefined();
+    });
+
     it('should throw error when no selector info provided', () => {
       const element: ElementDescription = {};
 
@@ -269,6 +310,53 @@ describe('Selector Generator', () => {
     });
   });
 
+  describe('parseSelectorQuery', () => {
+    it('should parse getBy* calls, using the last call of a chain', () => {
+      expect(parseSelectorQuery("page.getByRole('button', { name: '保存' })")).toEqual({
+        type: 'getByRole',
+        role: 'button',
+        value: '保存',
+      });
+      expect(parseSelectorQuery('page.getByRole("button", { name: /关.*闭/ })')).toEqual({
+        type: 'getByRole',
+        role: 'button',
+        value: /关.*闭/,
+      });
+      expect(parseSelectorQuery("page.locator('.ant-modal').getByLabel('用户名')")).toEqual({
+        type: 'getByLabel',
+        value: '用户名',
+      });
+      expect(parseSelectorQuery("getByText('it\\'s')")).toEqual({ type: 'getByText', value: "it's" });
+    });
+
+    it('should parse data-testid CSS selectors and give up on other CSS', () => {
+      expect(parseSelectorQuery('[data-testid="user-table"] tr')).toEqual({ type: 'getByTestId', value: 'user-table' });
+      expect(parseSelectorQuery('.ant-table-row')).toBeUndefined();
+      expect(parseSelectorQuery("page.getByRole('row')")).toBeUndefined();
+    });
+  });
+
+  describe('checkSelectorQuery', () => {
+    it('should verify queries matching inventory elements', () => {
+      expect(checkSelectorQuery({ type: 'getByRole', role: 'button', value: '新增' }, inventory)).toBe('verified');
+      expect(checkSelectorQuery({ type: 'getByRole', role: 'button', value: /关.*闭/ }, inventory)).toBe('verified');
+      expect(checkSelectorQuery({ type: 'getByRole', role: 'textbox', value: '用户名' }, inventory)).toBe('verified');
+      expect(checkSelectorQuery({ type: 'getByRole', role: 'dialog', value: '编辑用户' }, inventory)).toBe('verified');
+      expect(checkSelectorQuery({ type: 'getByPlaceholder', value: '请输入用户名' }, inventory)).toBe('verified');
+      expect(checkSelectorQuery({ type: 'getByTestId', value: 'user-table' }, inventory)).toBe('verified');
+    });
+
+    it('should report missing elements only when the inventory rules them out', () => {
+      expect(checkSelectorQuery({ type: 'getByLabel', value: '邮箱' }, inventory)).toBe('missing');
+      expect(checkSelectorQuery({ type: 'getByTestId', value: 'user' }, inventory)).toBe('missing');
+      // 存在文本为动态表达式的按钮
+      expect(checkSelectorQuery({ type: 'getByRole', role: 'button', value: '导出' }, inventory)).toBe('unknown');
+      // 清单不记录普通文本和链接
+      expect(checkSelectorQuery({ type: 'getByText', value: '暂无数据' }, inventory)).toBe('unknown');
+      expect(checkSelectorQuery({ type: 'getByRole', role: 'link', value: '首页' }, inventory)).toBe('unknown');
+    });
+  });
+
   describe('escapeString', () => {
     it('should escape single quotes', () => {
       expect(escapeString("it's")).toBe("it\\'s");
@@ -4,7 +4,7 @@
  * @see Requirements 4.2, 4.3, 4.4, 4.5, 4.6, 4.10
  */
 
-import type { AntdQuirksConfig, UIFramework } from '@smart-test-agent/shared';
+import type { AntdQuirksConfig, InventoryElement, UIFramework } from '@smart-test-agent/shared';
 
 /**
  * Selector priority order (highest to lowest)
@@ -29,6 +29,8 @@ export interface GeneratedSelector {
   value: string;
   code: string;
   priority: number;
+  /** Whether the element inventory confirms the selector (only set when an inventory is given) */
+  verified?: boolean;
 }
 
 /**
@@ -37,8 +39,32 @@ export interface GeneratedSelector {
 export interface SelectorOptions {
   uiFramework: UIFramework;
   antdQuirks?: AntdQuirksConfig;
+  /** Elements found in the page source; selectors they confirm are preferred */
+  inventory?: InventoryElement[];
 }
 
+/**
+ * What a selector looks for, parsed from selector code
+ */
+export interface SelectorQuery {
+  type: SelectorType;
+  /** Accessible name, text, placeholder, label or test id */
+  value: string | RegExp;
+  /** ARIA role (getByRole) */
+  role?: string;
+}
+
+/**
+ * Result of checking a selector against the element inventory
+ * - verified: an element with the selector's name, text, label, placeholder or test id exists
+ * - missing: no element matches and every candidate element has static values
+ * - unknown: cannot be decided (CSS selector, or candidate elements with dynamic text)
+ */
+export type InventoryMatch = 'verified' | 'missing' | 'unknown';
+
+/** Roles matched against form field labels */
+const FIELD_ROLES = new Set(['textbox', 'searchbox', 'combobox', 'spinbutton', 'checkbox', 'radio', 'switch', 'slider']);
+
 /**
  * Check if text is exactly two Chinese characters
  */
@@ -129,79 +155,239 @@ export function generateScrollIntoView(selector: string): string {
 }
 
 /**
- * Generate selector by priority
- * @see Requirements 4.2
+ * Build the selectors available for an element, in priority order
  */
-export function generateSelectorByPriority(
-  element: ElementDescription,
-  options: SelectorOptions
-): GeneratedSelector {
-  // Try getByRole first
+function buildSelectorCandidates(element: ElementDescription, options: SelectorOptions): GeneratedSelector[] {
+  const candidates: GeneratedSelector[] = [];
+
   if (element.role) {
     if (element.role === 'button' && element.text) {
-      return generateButtonSelector(element.text, options);
+      candidates.push(generateButtonSelector(element.text, options));
+    } else {
+      candidates.push({
+        type: 'getByRole',
+        value: element.role,
+        code: element.name
+          ? `page.getByRole('${element.role}', { name: '${escapeString(element.name)}' })`
+          : `page.getByRole('${element.role}')`,
+        priority: 0,
+      });
     }
-    return {
-      type: 'getByRole',
-      value: element.role,
-      code: element.name
-        ? `page.getByRole('${element.role}', { name: '${escapeString(element.name)}' })`
-        : `page.getByRole('${element.role}')`,
-      priority: 0,
-    };
   }
 
-  // Try getByText
   if (element.text) {
-    return {
+    candidates.push({
       type: 'getByText',
       value: element.text,
       code: `page.getByText('${escapeString(element.text)}')`,
       priority: 1,
-    };
+    });
   }
 
-  // Try getByPlaceholder
   if (element.placeholder) {
-    return {
+    candidates.push({
       type: 'getByPlaceholder',
       value: element.placeholder,
       code: `page.getByPlaceholder('${escapeString(element.placeholder)}')`,
       priority: 2,
-    };
+    });
   }
 
-  // Try getByLabel
   if (element.label) {
-    return {
+    candidates.push({
       type: 'getByLabel',
       value: element.label,
       code: `page.getByLabel('${escapeString(element.label)}')`,
       priority: 3,
-    };
+    });
   }
 
-  // Try getByTestId
   if (element.testId) {
-    return {
+    candidates.push({
       type: 'getByTestId',
       value: element.testId,
       code: `page.getByTestId('${escapeString(element.testId)}')`,
       priority: 4,
-    };
+    });
   }
 
-  // Fallback to CSS selector
   if (element.css) {
-    return {
+    candidates.push({
       type: 'css',
       value: element.css,
       code: `page.locator('${escapeString(element.css)}')`,
       priority: 5,
-    };
+    });
   }
 
-  throw new Error('No valid selector information provided');
+  return candidates;
+}
+
+/**
+ * The query a candidate selector of an element runs
+ */
+function toSelectorQuery(type: SelectorType, element: ElementDescription): SelectorQuery | undefined {
+  switch (type) {
+    case 'getByRole': {
+      const name = element.role === 'button' && element.text ? element.text : element.name;
+      return name ? { type, value: name, role: element.role } : undefined;
+    }
+    case 'getByText':
+      return element.text ? { type, value: element.text } : undefined;
+    case 'getByPlaceholder':
+      return element.placeholder ? { type, value: element.placeholder } : undefined;
+    case 'getByLabel':
+      return element.label ? { type, value: element.label } : undefined;
+    case 'getByTestId':
+      return element.testId ? { type, value: element.testId } : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Generate selector by priority
+ * With an element inventory the highest-priority selector it confirms is chosen,
+ * otherwise (or if none is confirmed) the highest-priority selector available.
+ * @see Requirements 4.2
+ */
+export function generateSelectorByPriority(
+  element: ElementDescription,
+  options: SelectorOptions
+): GeneratedSelector {
+  const candidates = buildSelectorCandidates(element, options);
+  if (candidates.length === 0) {
+    throw new Error('No valid selector information provided');
+  }
+
+  const { inventory } = options;
+  if (!inventory) {
+    return candidates[0];
+  }
+
+  const verified = candidates.find((candidate) => {
+    const query = toSelectorQuery(candidate.type, element);
+    return query !== undefined && checkSelectorQuery(query, inventory) === 'verified';
+  });
+  return verified ? { ...verified, verified: true } : { ...candidates[0], verified: false };
+}
+
+/**
+ * Parse the string or regex literal at the start of an argument list
+ */
+function parseLiteral(text: string): { value: string | RegExp; rest: string } | undefined {
+  const match = /^\s*(?:'((?:\\.|[^'\\])*)'|"((?:\\.|[^"\\])*)"|`([^`$]*)`|\/((?:\\.|[^/\\\n])+)\/([dgimsuy]*))/.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const rest = text.slice(match[0].length);
+  if (match[4] !== undefined) {
+    try {
+      return { value: new RegExp(match[4], match[5].replace(/[gy]/g, '')), rest };
+    } catch {
+      return undefined;
+    }
+  }
+  const value = (match[1] ?? match[2] ?? match[3]).replace(/\\(.)/g, '$1');
+  return { value, rest };
+}
+
+/**
+ * Parse what a selector looks for from selector code
+ * The last getBy* call of a chain is the target element; CSS selectors are only
+ * understood when they select a data-testid.
+ * @example parseSelectorQuery("page.getByRole('button', { name: '保存' })") // { type: 'getByRole', role: 'button', value: '保存' }
+ * @returns undefined if the selector cannot be parsed
+ */
+export function parseSelectorQuery(selector: string): SelectorQuery | undefined {
+  const calls = [...selector.matchAll(/getBy(Role|Text|Placeholder|Label|TestId)\(/g)];
+  const last = calls[calls.length - 1];
+  if (last) {
+    const type = `getBy${last[1]}` as SelectorType;
+    const argument = parseLiteral(selector.slice(last.index! + last[0].length));
+    if (!argument) {
+      return undefined;
+    }
+    if (type !== 'getByRole') {
+      return { type, value: argument.value };
+    }
+    const nameMatch = /^\s*,\s*\{[^}]*?\bname\s*:/.exec(argument.rest);
+    const name = nameMatch && parseLiteral(argument.rest.slice(nameMatch[0].length));
+    return name && typeof argument.value === 'string'
+      ? { type, value: name.value, role: argument.value }
+      : undefined;
+  }
+
+  const testId = /\[data-testid\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*\]/.exec(selector);
+  if (testId) {
+    return { type: 'getByTestId', value: testId[1] ?? testId[2] ?? testId[3] };
+  }
+  return undefined;
+}
+
+/**
+ * Values of inventory elements a query is matched against
+ * undefined marks a candidate element whose value is not static.
+ */
+function getCandidateValues(query: SelectorQuery, inventory: InventoryElement[]): Array<string | undefined> {
+  switch (query.type) {
+    case 'getByRole':
+      if (query.role === 'button') {
+        return inventory.filter((element) => element.kind === 'button').map((element) => element.text);
+      }
+      if (query.role === 'dialog') {
+        return inventory.filter((element) => element.kind === 'modal').map((element) => element.text);
+      }
+      if (query.role === 'columnheader') {
+        return inventory.filter((element) => element.kind === 'table_column').map((element) => element.text);
+      }
+      if (FIELD_ROLES.has(query.role ?? '')) {
+        return inventory
+          .filter((element) => element.kind === 'field')
+          .flatMap((element) => [element.label, element.placeholder]);
+      }
+      // 链接、标签页等角色不在清单中，找不到时无法判断
+      return [...inventory.map((element) => element.text ?? element.label), undefined];
+    case 'getByText':
+      // 清单只记录控件文本，普通文本找不到时无法判断
+      return [...inventory.map((element) => element.text ?? element.label), undefined];
+    case 'getByPlaceholder':
+      return inventory.filter((element) => element.kind === 'field').map((element) => element.placeholder);
+    case 'getByLabel':
+      return inventory.filter((element) => element.kind === 'field').map((element) => element.label);
+    case 'getByTestId':
+      return inventory.filter((element) => element.testId).map((element) => element.testId);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Whether a value from the source satisfies a query value
+ * Strings match as substrings like Playwright's default (inexact) matching, ignoring
+ * whitespace so antd's spaced two-character buttons still match.
+ */
+function matchesValue(candidate: string, value: string | RegExp, exact: boolean): boolean {
+  if (value instanceof RegExp) {
+    return value.test(candidate) || value.test(candidate.replace(/\s+/g, ''));
+  }
+  if (exact) {
+    return candidate === value;
+  }
+  return candidate.replace(/\s+/g, '').toLowerCase().includes(value.replace(/\s+/g, '').toLowerCase());
+}
+
+/**
+ * Check a selector query against the element inventory of a page
+ */
+export function checkSelectorQuery(query: SelectorQuery, inventory: InventoryElement[]): InventoryMatch {
+  const candidates = getCandidateValues(query, inventory);
+  const exact = query.type === 'getByTestId';
+  if (candidates.some((candidate) => candidate !== undefined && matchesValue(candidate, query.value, exact))) {
+    return 'verified';
+  }
+  // 有文本为动态表达式的同类元素时无法判断
+  return candidates.includes(undefined) ? 'unknown' : 'missing';
 }
 
 /**
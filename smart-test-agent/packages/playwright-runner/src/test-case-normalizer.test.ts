@@ -0,0 +1,186 @@
+/**
+ * Unit tests for Test Case Normalizer
+ * @see Requirements 4.1, 4.7, 4.8, 7.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeTestCases, extractRawTestCases } from './test-case-normalizer.js';
+
+describe('Test Case Normalizer', () => {
+  const agentTestCase = {
+    case_id: 'TC-001',
+    requirement_id: 'REQ-001',
+    route: '/users',
+    title: '验证用户列表显示正确的列',
+    precondition: '用户已登录',
+    steps: [
+      { step_id: 'S1', action: 'navigate', target: '/users', description: '导航到用户管理页面' },
+      { step_id: 'S2', action: 'fill', target: '#keyword', value: 'admin', description: '输入关键字' },
+    ],
+    assertions: [
+      {
+        assertion_id: 'AST-001',
+        type: 'element_visible',
+        target: "th:has-text('用户名')",
+        expected: 'visible',
+        description: '验证用户名列存在',
+      },
+      {
+        assertion_id: 'AST-002',
+        type: 'element_count',
+        target: '.ant-table-row',
+        expected: 20,
+        description: '默认每页显示20条',
+      },
+    ],
+    data_preparation: [{ action: 'create', target: 'user', data: { name: 'test' } }],
+  };
+
+  describe('extractRawTestCases', () => {
+    it('should accept array, test_cases and testCases layouts', () => {
+      expect(extractRawTestCases([agentTestCase])).toHaveLength(1);
+      expect(extractRawTestCases({ version: '1.0', test_cases: [agentTestCase] })).toHaveLength(1);
+      expect(extractRawTestCases({ testCases: [agentTestCase] })).toHaveLength(1);
+    });
+
+    it('should return empty array for unsupported input', () => {
+      expect(extractRawTestCases(null)).toEqual([]);
+      expect(extractRawTestCases({ foo: [] })).toEqual([]);
+    });
+  });
+
+  describe('normalizeTestCases', () => {
+    it('should map snake_case fields to the shared model', () => {
+      const [testCase] = normalizeTestCases([agentTestCase], 'run-1');
+
+      expect(testCase.caseId).toBe('TC-001');
+      expect(testCase.runId).toBe('run-1');
+      expect(testCase.requirementId).toBe('REQ-001');
+      expect(testCase.route).toBe('/users');
+      expect(testCase.dataPreparation).toEqual(agentTestCase.data_preparation);
+    });
+
+    it('should number steps sequentially and map target/value', () => {
+      const [testCase] = normalizeTestCases([agentTestCase], 'run-1');
+
+      expect(testCase.steps.map((s) => s.stepNumber)).toEqual([1, 2]);
+      expect(testCase.steps[0]).toMatchObject({ action: 'navigate', selector: '/users' });
+      expect(testCase.steps[1]).toMatchObject({ action: 'fill', selector: '#keyword', inputValue: 'admin' });
+    });
+
+    it('should fold assertion targets into expected values', () => {
+      const [testCase] = normalizeTestCases([agentTestCase], 'run-1');
+
+      expect(testCase.assertions[0].expected).toBe("th:has-text('用户名')");
+      expect(testCase.assertions[1].expected).toBe('.ant-table-row|20');
+      expect(testCase.assertions[0].caseId).toBe('TC-001');
+    });
+
+    it('should treat unknown assertion types as soft', () => {
+      const [testCase] = normalizeTestCases(
+        [{ case_id: 'TC-002', assertions: [{ assertion_id: 'A1', type: 'custom', expected: 'x' }] }],
+        'run-1'
+      );
+
+      expect(testCase.assertions[0].type).toBe('soft');
+    });
+
+    it('should keep camelCase test cases intact', () => {
+      const [testCase] = normalizeTestCases(
+        {
+          testCases: [
+            {
+              caseId: 'TC-003',
+              requirementId: 'REQ-002',
+              route: '/roles',
+              title: 'Roles',
+              precondition: '',
+              steps: [{ stepNumber: 1, action: 'click', selector: '#add' }],
+              assertions: [{ assertionId: 'A1', type: 'navigation', expected: '/roles/new' }],
+            },
+          ],
+        },
+        'run-1'
+      );
+
+      expect(testCase.caseId).toBe('TC-003');
+      expect(testCase.steps[0].selector).toBe('#add');
+      expect(testCase.assertions[0].expected).toBe('/roles/new');
+    });
+
+    it('should keep the role and fold permission_denied targets into expected', () => {
+      const [testCase] = normalizeTestCases(
+        [
+          {
+            ...agentTestCase,
+            role: 'viewer',
+            assertions: [
+              { assertion_id: 'AST-003', type: 'permission_denied', target: '.delete-btn', expected: 'hidden' },
+            ],
+          },
+        ],
+        'run-1'
+      );
+
+      expect(testCase.role).toBe('viewer');
+      expect(testCase.assertions[0].type).toBe('permission_denied');
+      expect(testCase.assertions[0].expected).toBe('.delete-btn');
+      expect(normalizeTestCases([agentTestCase], 'run-1')[0].role).toBeUndefined();
+    });
+
+    it('should map visual assertion options', () => {
+      const [testCase] = normalizeTestCases(
+        [
+          {
+            ...agentTestCase,
+            assertions: [
+              { assertion_id: 'AST-004', type: 'visual', threshold: 0.01, pixel_threshold: 0.2, mask: ['.clock'] },
+              { assertion_id: 'AST-005', type: 'visual', target: '.chart' },
+            ],
+          },
+        ],
+        'run-1'
+      );
+
+      expect(testCase.assertions[0].expected).toBe('page');
+      expect(testCase.assertions[0].visual).toEqual({ threshold: 0.01, pixelThreshold: 0.2, maskSelectors: ['.clock'] });
+      expect(testCase.assertions[1].expected).toBe('.chart');
+      expect(testCase.assertions[1].visual).toEqual({});
+    });
+
+    it('should map api_response assertion options', () => {
+      const [testCase] = normalizeTestCases(
+        [
+          {
+            ...agentTestCase,
+            assertions: [
+              {
+                assertion_id: 'AST-006',
+                type: 'api_response',
+                target: '/api/users/:id',
+                method: 'post',
+                status: 201,
+                max_latency_ms: 800,
+                json_path: '$.data.name',
+                json_value: 'Alice',
+              },
+              { assertion_id: 'AST-007', type: 'api_response', expected: '/api/users', method: 'FETCH' },
+            ],
+          },
+        ],
+        'run-1'
+      );
+
+      expect(testCase.assertions[0].expected).toBe('/api/users/:id');
+      expect(testCase.assertions[0].api).toEqual({
+        method: 'POST',
+        status: 201,
+        maxLatencyMs: 800,
+        jsonPath: '$.data.name',
+        jsonValue: 'Alice',
+      });
+      expect(testCase.assertions[1].expected).toBe('/api/users');
+      expect(testCase.assertions[1].api).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Test Case Normalizer
+ * Converts agent-generated test cases (snake_case, see prompts/prd-parse.md)
+ * into the shared camelCase TestCase model consumed by the script generator
+ * @see Requirements 4.1, 4.7, 4.8, 7.1
+ */
+
+import type {
+  TestCase,
+  TestStep,
+  Assertion,
+  AssertionType,
+  ApiEndpoint,
+  DataStep,
+} from '@smart-test-agent/shared';
+
+type ApiMethod = ApiEndpoint['method'];
+
+/**
+ * Raw test step as written by the agent
+ */
+interface RawTestStep {
+  step_id?: string;
+  stepNumber?: number;
+  action?: string;
+  target?: string;
+  selector?: string;
+  value?: string;
+  inputValue?: string;
+  description?: string;
+  expected_result?: string;
+  expectedResult?: string;
+  screenshot?: boolean;
+}
+
+/**
+ * Raw assertion as written by the agent
+ */
+interface RawAssertion {
+  assertion_id?: string;
+  assertionId?: string;
+  type?: string;
+  target?: string;
+  expected?: unknown;
+  description?: string;
+  threshold?: number;
+  pixel_threshold?: number;
+  pixelThreshold?: number;
+  mask?: string[];
+  mask_selectors?: string[];
+  maskSelectors?: string[];
+  method?: string;
+  status?: number;
+  max_latency_ms?: number;
+  maxLatencyMs?: number;
+  json_path?: string;
+  jsonPath?: string;
+  json_value?: unknown;
+  jsonValue?: unknown;
+}
+
+/**
+ * Raw test case as written by the agent
+ */
+interface RawTestCase {
+  id?: string;
+  case_id?: string;
+  caseId?: string;
+  requirement_id?: string;
+  requirementId?: string;
+  route?: string;
+  role?: string;
+  title?: string;
+  precondition?: string;
+  steps?: RawTestStep[];
+  assertions?: RawAssertion[];
+  data_preparation?: DataStep[];
+  dataPreparation?: DataStep[];
+  data_cleanup?: DataStep[];
+  dataCleanup?: DataStep[];
+}
+
+const ASSERTION_TYPES: AssertionType[] = [
+  'element_visible',
+  'text_content',
+  'element_count',
+  'navigation',
+  'permission_denied',
+  'visual',
+  'api_response',
+  'soft',
+];
+
+const API_METHODS: ApiMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+/**
+ * Extract the test case list from the supported file layouts:
+ * a bare array, `{ test_cases: [...] }` or `{ testCases: [...] }`
+ */
+export function extractRawTestCases(data: unknown): unknown[] {
+  if (Array.isArray(data)) {
+    return data;
+  }
+  if (data && typeof data === 'object') {
+    const obj = data as { test_cases?: unknown; testCases?: unknown };
+    if (Array.isArray(obj.test_cases)) {
+      return obj.test_cases;
+    }
+    if (Array.isArray(obj.testCases)) {
+      return obj.testCases;
+    }
+  }
+  return [];
+}
+
+/**
+ * Normalize test cases loaded from test-cases.json
+ * @param data - Parsed JSON content of test-cases.json
+ * @param runId - Test run ID
+ * @returns Test cases in the shared TestCase model
+ */
+export function normalizeTestCases(data: unknown, runId: string): TestCase[] {
+  return extractRawTestCases(data)
+    .filter((item): item is RawTestCase => !!item && typeof item === 'object')
+    .map((raw, index) => normalizeTestCase(raw, runId, index));
+}
+
+/**
+ * Normalize a single test case
+ */
+export function normalizeTestCase(raw: RawTestCase, runId: string, index = 0): TestCase {
+  const caseId = raw.caseId ?? raw.case_id ?? `TC-${String(index + 1).padStart(3, '0')}`;
+
+  return {
+    id: raw.id ?? `${runId}-${caseId}`,
+    caseId,
+    runId,
+    requirementId: raw.requirementId ?? raw.requirement_id ?? '',
+    route: raw.route ?? '/',
+    role: raw.role || undefined,
+    title: raw.title ?? caseId,
+    precondition: raw.precondition ?? '',
+    steps: (raw.steps ?? []).map((step, idx) => normalizeStep(step, idx)),
+    assertions: (raw.assertions ?? [])
+      .map((assertion, idx) => normalizeAssertion(assertion, runId, caseId, idx)),
+    dataPreparation: raw.dataPreparation ?? raw.data_preparation,
+    dataCleanup: raw.dataCleanup ?? raw.data_cleanup,
+  };
+}
+
+/**
+ * Normalize a test step
+ * Step numbers are assigned sequentially since agent step IDs are free-form (S1, S2...)
+ */
+function normalizeStep(raw: RawTestStep, index: number): TestStep {
+  return {
+    stepNumber: index + 1,
+    action: raw.action ?? raw.description ?? '',
+    selector: raw.selector ?? raw.target,
+    inputValue: raw.inputValue ?? raw.value,
+    expectedResult: raw.expectedResult ?? raw.expected_result ?? raw.description,
+    screenshot: raw.screenshot,
+  };
+}
+
+/**
+ * Normalize an assertion
+ * The script generator reads the selector (or route) from `expected` for element_visible
+ * and permission_denied, `selector|count` for element_count, the element (or 'page')
+ * to screenshot for visual and the request path for api_response, so the agent's `target`
+ * is folded in here.
+ */
+function normalizeAssertion(
+  raw: RawAssertion,
+  runId: string,
+  caseId: string,
+  index: number
+): Assertion {
+  const assertionId = raw.assertionId ?? raw.assertion_id ?? `${caseId}-A${index + 1}`;
+  const type = ASSERTION_TYPES.includes(raw.type as AssertionType)
+    ? (raw.type as AssertionType)
+    : 'soft';
+  const expectedValue = raw.expected === undefined || raw.expected === null
+    ? ''
+    : String(raw.expected);
+
+  let expected = expectedValue;
+  if ((type === 'element_visible' || type === 'permission_denied') && raw.target) {
+    expected = raw.target;
+  } else if (type === 'element_count' && raw.target && !expectedValue.includes('|')) {
+    expected = `${raw.target}|${expectedValue}`;
+  } else if (type === 'visual') {
+    expected = raw.target || expectedValue || 'page';
+  } else if (type === 'api_response' && raw.target) {
+    expected = raw.target;
+  }
+
+  const assertion: Assertion = {
+    id: `${runId}-${caseId}-${assertionId}`,
+    assertionId,
+    runId,
+    caseId,
+    type,
+    description: raw.description ?? '',
+    expected,
+  };
+
+  if (type === 'visual') {
+    const threshold = raw.threshold;
+    const pixelThreshold = raw.pixelThreshold ?? raw.pixel_threshold;
+    const maskSelectors = raw.maskSelectors ?? raw.mask_selectors ?? raw.mask;
+    assertion.visual = {
+      ...(typeof threshold === 'number' && { threshold }),
+      ...(typeof pixelThreshold === 'number' && { pixelThreshold }),
+      ...(Array.isArray(maskSelectors) && { maskSelectors: maskSelectors.map(String) }),
+    };
+  }
+
+  if (type === 'api_response') {
+    const method = typeof raw.method === 'string' ? raw.method.toUpperCase() : undefined;
+    const maxLatencyMs = raw.maxLatencyMs ?? raw.max_latency_ms;
+    const jsonPath = raw.jsonPath ?? raw.json_path;
+    const jsonValue = raw.jsonValue !== undefined ? raw.jsonValue : raw.json_value;
+    assertion.api = {
+      ...(API_METHODS.includes(method as ApiMethod) && { method: method as ApiMethod }),
+      ...(typeof raw.status === 'number' && { status: raw.status }),
+      ...(typeof maxLatencyMs === 'number' && { maxLatencyMs }),
+      ...(typeof jsonPath === 'string' && jsonPath && { jsonPath }),
+      ...(jsonValue !== undefined && { jsonValue }),
+    };
+  }
+
+  return assertion;
+}
@@ -10,8 +10,10 @@ import {
   validateDataSteps,
   hasWriteOperations,
   generateCleanupGuaranteeWrapper,
+  findResourceEndpoints,
+  buildCreatePayload,
 } from './test-data-manager.js';
-import type { TestCase, DataStep } from '@smart-test-agent/shared';
+import type { TestCase, DataStep, ApiEndpoint } from '@smart-test-agent/shared';
 
 describe('Test Data Manager', () => {
   const mockTestCase: TestCase = {
@@ -158,6 +160,94 @@ describe('Test Data Manager', () => {
     });
   });
 
+  describe('OpenAPI endpoints', () => {
+    const apis: ApiEndpoint[] = [
+      {
+        name: 'createUser',
+        method: 'POST',
+        path: '/api/users',
+        requestBody: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            email: { type: 'string', format: 'email' },
+            role: { type: 'string', enum: ['admin', 'member'] },
+            age: { type: 'integer' },
+          },
+          required: ['name', 'email', 'role'],
+        },
+        response: {
+          type: 'object',
+          properties: {
+            code: { type: 'integer' },
+            data: { type: 'object', properties: { userId: { type: 'string' } } },
+          },
+        },
+      },
+      { name: 'updateUser', method: 'PATCH', path: '/api/users/:userId' },
+      { name: 'deleteUser', method: 'DELETE', path: '/api/users/:userId' },
+      { name: 'deleteOrder', method: 'DELETE', path: '/api/orders/:id' },
+    ];
+
+    it('should find the create, update and delete endpoints and the ID field', () => {
+      const endpoints = findResourceEndpoints('users', apis);
+
+      expect(endpoints.create?.name).toBe('createUser');
+      expect(endpoints.update?.name).toBe('updateUser');
+      expect(endpoints.remove?.name).toBe('deleteUser');
+      expect(endpoints.idPath).toEqual(['data', 'userId']);
+    });
+
+    it('should fall back to id for undocumented resources', () => {
+      expect(findResourceEndpoints('roles', apis)).toEqual({
+        create: undefined,
+        update: undefined,
+        remove: undefined,
+        idPath: ['id'],
+      });
+    });
+
+    it('should fill required fields the data step leaves out', () => {
+      expect(buildCreatePayload(apis[0].requestBody, { name: 'Test User' })).toEqual({
+        name: 'Test User',
+        email: 'e2e-test@example.com',
+        role: 'admin',
+      });
+    });
+
+    it('should create through the documented endpoint and record its delete URL', () => {
+      const testCase: TestCase = {
+        ...mockTestCase,
+        dataPreparation: [{ action: 'create', target: 'users', data: { name: 'Test User' } }],
+      };
+
+      const result = generateDataPreparationCode(testCase, 'https://example.com/api', apis);
+
+      expect(result).toContain("fetch(`https://example.com/api/users`");
+      expect(result).toContain('"role":"admin"');
+      expect(result).toContain('const id = created.data?.userId;');
+      expect(result).toContain('url: `https://example.com/api/users/${id}`');
+    });
+
+    it('should update with the documented method', () => {
+      const testCase: TestCase = {
+        ...mockTestCase,
+        dataPreparation: [{ action: 'update', target: 'users', data: { id: '123', name: 'Updated' } }],
+      };
+
+      const result = generateDataPreparationCode(testCase, 'https://example.com', apis);
+
+      expect(result).toContain("method: 'PATCH'");
+      expect(result).toContain('fetch(`https://example.com/api/users/${entityId}`');
+    });
+
+    it('should delete created entities through their recorded URL', () => {
+      const result = generateDataCleanupCode(mockTestCase, 'https://example.com', apis);
+
+      expect(result).toContain('entity.url ??');
+    });
+  });
+
   describe('validateDataSteps', () => {
     it('should return valid for test case without data steps', () => {
       const result = validateDataSteps(mockTestCase);
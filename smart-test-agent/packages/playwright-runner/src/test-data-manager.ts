@@ -4,7 +4,7 @@
  * @see Requirements 4.11, 7.8, 19.1, 19.2, 19.3, 19.4, 19.5
  */
 
-import type { DataStep, TestCase } from '@smart-test-agent/shared';
+import type { ApiEndpoint, ApiSchema, DataStep, TestCase } from '@smart-test-agent/shared';
 
 /**
  * Data operation result
@@ -29,13 +29,206 @@ export interface CleanupContext {
   }>;
 }
 
+/**
+ * Endpoints of a resource used for data preparation and cleanup
+ */
+export interface ResourceEndpoints {
+  create?: ApiEndpoint;
+  update?: ApiEndpoint;
+  remove?: ApiEndpoint;
+  /** Path of the created entity's ID in the create response, e.g. ['data', 'id'] */
+  idPath: string[];
+}
+
+/**
+ * Split an endpoint path or data step target into segments
+ */
+function toPathSegments(path: string): string[] {
+  return path.split('?')[0].split('/').filter(Boolean);
+}
+
+/**
+ * Whether path segments end with the target's segments, path parameters match anything
+ */
+function endsWithTarget(segments: string[], target: string[]): boolean {
+  if (target.length === 0 || segments.length < target.length) {
+    return false;
+  }
+  const tail = segments.slice(segments.length - target.length);
+  return target.every((segment, index) => tail[index].startsWith(':') || segment === tail[index]);
+}
+
+/**
+ * Find the documented ID field in a response, looking into wrapper objects such as { data: { id } }
+ */
+function findIdPath(schema: ApiSchema | undefined, names: string[], depth = 0): string[] | undefined {
+  if (!schema?.properties || depth > 2) {
+    return undefined;
+  }
+  const direct = names.find((name) => name in schema.properties!);
+  if (direct) {
+    return [direct];
+  }
+  for (const [key, property] of Object.entries(schema.properties)) {
+    const nested = findIdPath(property, names, depth + 1);
+    if (nested) {
+      return [key, ...nested];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the create, update and delete endpoints of a data step target
+ * The target is a resource name (users) or a path (admin/users); create is a POST on the
+ * collection, update and delete address an item of it by its last path parameter.
+ * @param apis Endpoints with OpenAPI schemas, see SourceContext.apis
+ * @see Requirements 19.1, 19.3
+ */
+export function findResourceEndpoints(target: string, apis: ApiEndpoint[]): ResourceEndpoints {
+  const targetSegments = toPathSegments(target);
+  const onCollection = (endpoint: ApiEndpoint) => endsWithTarget(toPathSegments(endpoint.path), targetSegments);
+  const onItem = (endpoint: ApiEndpoint) => {
+    const segments = toPathSegments(endpoint.path);
+    return segments[segments.length - 1]?.startsWith(':') === true && endsWithTarget(segments.slice(0, -1), targetSegments);
+  };
+
+  const create = apis.find((endpoint) => endpoint.method === 'POST' && onCollection(endpoint));
+  const update =
+    apis.find((endpoint) => endpoint.method === 'PUT' && onItem(endpoint)) ??
+    apis.find((endpoint) => endpoint.method === 'PATCH' && onItem(endpoint));
+  const remove = apis.find((endpoint) => endpoint.method === 'DELETE' && onItem(endpoint));
+
+  const itemParam = toPathSegments((remove ?? update)?.path ?? '').pop()?.slice(1);
+  const names = [...new Set([itemParam, 'id'].filter((name): name is string => Boolean(name)))];
+
+  return {
+    create,
+    update,
+    remove,
+    idPath: findIdPath(create?.response, names) ?? ['id'],
+  };
+}
+
+/**
+ * Sample value for a required field the data step leaves out
+ */
+function sampleValue(name: string, schema: ApiSchema = {}): unknown {
+  if (schema.example !== undefined) {
+    return schema.example;
+  }
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+  switch (schema.type) {
+    case 'integer':
+    case 'number':
+      return 1;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [];
+    case 'object':
+      return buildCreatePayload(schema, {});
+  }
+  switch (schema.format) {
+    case 'email':
+      return 'e2e-test@example.com';
+    case 'date':
+      return '2024-01-01';
+    case 'date-time':
+      return '2024-01-01T00:00:00.000Z';
+    case 'uuid':
+      return '00000000-0000-4000-8000-000000000000';
+    case 'uri':
+    case 'url':
+      return 'https://example.com';
+  }
+  return `e2e-${name}`;
+}
+
+/**
+ * Build a create payload: the data step's values, plus sample values for required
+ * fields of the request body schema it leaves out
+ * @see Requirements 19.1
+ */
+export function buildCreatePayload(
+  schema: ApiSchema | undefined,
+  data: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const payload = { ...data };
+  for (const name of schema?.required ?? []) {
+    if (payload[name] === undefined) {
+      payload[name] = sampleValue(name, schema?.properties?.[name]);
+    }
+  }
+  return payload;
+}
+
+/**
+ * Join the API base URL and an endpoint path
+ * A path already starting with the base URL's path prefix (e.g. /api) is resolved against its origin.
+ */
+function resolveEndpointUrl(apiBaseUrl: string, path: string): string {
+  const base = apiBaseUrl.replace(/\/+$/, '');
+  const match = /^([a-z][\w+.-]*:\/\/[^/]+)(\/.*)?$/i.exec(base);
+  const prefix = match?.[2];
+  if (match && prefix && (path === prefix || path.startsWith(`${prefix}/`))) {
+    return `${match[1]}${path}`;
+  }
+  return `${base}${path}`;
+}
+
+/**
+ * Fill the path parameters of an endpoint from data step values
+ * @param itemId Code expression for the last parameter of item endpoints
+ * @returns Template literal source, or undefined if a parameter has no value
+ */
+function buildEndpointUrl(
+  apiBaseUrl: string,
+  endpoint: ApiEndpoint,
+  data: Record<string, unknown> | undefined,
+  itemId?: string
+): string | undefined {
+  const segments = endpoint.path.split('/');
+  const lastParam = itemId ? segments.length - 1 : -1;
+  const filled: string[] = [];
+  for (const [index, segment] of segments.entries()) {
+    if (!segment.startsWith(':')) {
+      filled.push(segment.replace(/[`$\\]/g, '\\$&'));
+    } else if (index === lastParam) {
+      filled.push(`\${${itemId}}`);
+    } else if (data?.[segment.slice(1)] !== undefined) {
+      filled.push(String(data[segment.slice(1)]).replace(/[`$\\]/g, '\\$&'));
+    } else {
+      return undefined;
+    }
+  }
+  return `\`${resolveEndpointUrl(apiBaseUrl, filled.join('/'))}\``;
+}
+
+/**
+ * Code expression reading the ID from the created entity
+ */
+function idAccessor(idPath: string[]): string {
+  return idPath
+    .map((key, index) => {
+      const access = /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+      return index === 0 ? access : `?${access.startsWith('.') ? access : `.${access}`}`;
+    })
+    .reduce((code, access) => code + access, 'created');
+}
+
 /**
  * Generate data preparation code for a test case
+ * @param apis Endpoints with OpenAPI schemas; without them the REST conventions
+ *             POST /{target}, PUT|DELETE /{target}/{id} and created.id are assumed
  * @see Requirements 19.1, 19.2
  */
 export function generateDataPreparationCode(
   testCase: TestCase,
-  apiBaseUrl: string
+  apiBaseUrl: string,
+  apis: ApiEndpoint[] = []
 ): string {
   const { dataPreparation, caseId } = testCase;
 
@@ -49,7 +242,7 @@ export function generateDataPreparationCode(
   lines.push('');
 
   dataPreparation.forEach((step, index) => {
-    lines.push(generateDataStepCode(step, index, caseId, apiBaseUrl, 'preparation'));
+    lines.push(generateDataStepCode(step, index, caseId, apiBaseUrl, 'preparation', apis));
   });
 
   return lines.join('\n');
@@ -57,11 +250,14 @@ export function generateDataPreparationCode(
 
 /**
  * Generate data cleanup code for a test case
+ * Created entities are deleted through the delete endpoint recorded at creation, if documented.
+ * @param apis Endpoints with OpenAPI schemas, see generateDataPreparationCode
  * @see Requirements 19.3, 19.4, 19.5
  */
 export function generateDataCleanupCode(
   testCase: TestCase,
-  apiBaseUrl: string
+  apiBaseUrl: string,
+  apis: ApiEndpoint[] = []
 ): string {
   const { dataCleanup, caseId } = testCase;
 
@@ -71,7 +267,7 @@ export function generateDataCleanupCode(
 try {
   for (const entity of createdEntities_${sanitizeId(caseId)}) {
     try {
-      await fetch(\`${apiBaseUrl}/\${entity.target}/\${entity.id}\`, {
+      await fetch(entity.url ?? \`${apiBaseUrl}/\${entity.target}/\${entity.id}\`, {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json' }
       });
@@ -89,14 +285,14 @@ try {
   lines.push('try {');
 
   dataCleanup.forEach((step, index) => {
-    lines.push('  ' + generateDataStepCode(step, index, caseId, apiBaseUrl, 'cleanup'));
+    lines.push('  ' + generateDataStepCode(step, index, caseId, apiBaseUrl, 'cleanup', apis));
   });
 
   // Also clean up any created entities not explicitly handled
   lines.push(`  // Clean up any remaining created entities`);
   lines.push(`  for (const entity of createdEntities_${sanitizeId(caseId)}) {`);
   lines.push(`    try {`);
-  lines.push(`      await fetch(\`${apiBaseUrl}/\${entity.target}/\${entity.id}\`, {`);
+  lines.push(`      await fetch(entity.url ?? \`${apiBaseUrl}/\${entity.target}/\${entity.id}\`, {`);
   lines.push(`        method: 'DELETE',`);
   lines.push(`        headers: { 'Content-Type': 'application/json' }`);
   lines.push(`      });`);
@@ -111,58 +307,83 @@ try {
   return lines.join('\n');
 }
 
+/**
+ * Name of the array tracking the entities a test case created, which cleanup deletes
+ * Generated scripts declare it before the data preparation steps.
+ */
+export function getCreatedEntitiesName(caseId: string): string {
+  return `createdEntities_${sanitizeId(caseId)}`;
+}
+
 /**
  * Generate code for a single data step
+ * Documented endpoints give the URL, method, required payload fields and ID field;
+ * undocumented targets fall back to the REST conventions.
+ * @see Requirements 19.1, 19.3
  */
-function generateDataStepCode(
+export function generateDataStepCode(
   step: DataStep,
   index: number,
   caseId: string,
   apiBaseUrl: string,
-  phase: 'preparation' | 'cleanup'
+  phase: 'preparation' | 'cleanup',
+  apis: ApiEndpoint[] = []
 ): string {
   const { action, target, data } = step;
   const sanitizedCaseId = sanitizeId(caseId);
+  const endpoints = findResourceEndpoints(target, apis);
+  const entityId = data?.id ? `'${data.id}'` : `createdEntities_${sanitizedCaseId}[0]?.id`;
 
   switch (action) {
-    case 'create':
+    case 'create': {
+      const createUrl = endpoints.create && buildEndpointUrl(apiBaseUrl, endpoints.create, data);
+      const payload = createUrl ? buildCreatePayload(endpoints.create!.requestBody, data) : data || {};
+      const deleteUrl = createUrl && endpoints.remove && buildEndpointUrl(apiBaseUrl, endpoints.remove, data, 'id');
       return `// ${phase} step ${index + 1}: Create ${target}
 {
-  const response = await fetch('${apiBaseUrl}/${target}', {
+  const response = await fetch(${createUrl ?? `'${apiBaseUrl}/${target}'`}, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(${JSON.stringify(data || {})})
+    body: JSON.stringify(${JSON.stringify(payload)})
   });
   if (response.ok) {
     const created = await response.json();
-    createdEntities_${sanitizedCaseId}.push({ target: '${target}', id: created.id, data: created });
+${deleteUrl
+  ? `    const id = ${idAccessor(endpoints.idPath)};
+    createdEntities_${sanitizedCaseId}.push({ target: '${target}', id, data: created, url: ${deleteUrl} });`
+  : `    createdEntities_${sanitizedCaseId}.push({ target: '${target}', id: ${idAccessor(endpoints.idPath)}, data: created });`}
   }
 }`;
+    }
 
-    case 'update':
+    case 'update': {
+      const url = endpoints.update && buildEndpointUrl(apiBaseUrl, endpoints.update, data, 'entityId');
       return `// ${phase} step ${index + 1}: Update ${target}
 {
-  const entityId = ${data?.id ? `'${data.id}'` : `createdEntities_${sanitizedCaseId}[0]?.id`};
+  const entityId = ${entityId};
   if (entityId) {
-    await fetch(\`${apiBaseUrl}/${target}/\${entityId}\`, {
-      method: 'PUT',
+    await fetch(${url ?? `\`${apiBaseUrl}/${target}/\${entityId}\``}, {
+      method: '${url ? endpoints.update!.method : 'PUT'}',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(${JSON.stringify(data || {})})
     });
   }
 }`;
+    }
 
-    case 'delete':
+    case 'delete': {
+      const url = endpoints.remove && buildEndpointUrl(apiBaseUrl, endpoints.remove, data, 'entityId');
       return `// ${phase} step ${index + 1}: Delete ${target}
 {
-  const entityId = ${data?.id ? `'${data.id}'` : `createdEntities_${sanitizedCaseId}[0]?.id`};
+  const entityId = ${entityId};
   if (entityId) {
-    await fetch(\`${apiBaseUrl}/${target}/\${entityId}\`, {
+    await fetch(${url ?? `\`${apiBaseUrl}/${target}/\${entityId}\``}, {
       method: 'DELETE',
       headers: { 'Content-Type': 'application/json' }
     });
   }
 }`;
+    }
 
     case 'api_call':
       const method = (data?.method as string) || 'GET';
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for Test Sharder
+ * @see Requirements 7.1, 19.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  shardTestCases,
+  normalizeWorkerCount,
+  getDataDependencies,
+  MAX_WORKERS,
+} from './test-sharder.js';
+import type { TestCase, DataStep } from '@smart-test-agent/shared';
+
+function createCase(caseId: string, options: {
+  action?: string;
+  dataPreparation?: DataStep[];
+} = {}): TestCase {
+  return {
+    id: caseId,
+    caseId,
+    runId: 'run-1',
+    requirementId: 'REQ001',
+    route: '/list',
+    title: caseId,
+    precondition: '',
+    steps: [{ stepNumber: 1, action: options.action ?? 'click search' }],
+    assertions: [],
+    dataPreparation: options.dataPreparation,
+  };
+}
+
+function shardOf(shards: ReturnType<typeof shardTestCases>, caseId: string): number {
+  return shards.findIndex((shard) => shard.caseIds.includes(caseId));
+}
+
+describe('Test Sharder', () => {
+  describe('normalizeWorkerCount', () => {
+    it('should default to one worker and clamp the range', () => {
+      expect(normalizeWorkerCount(undefined)).toBe(1);
+      expect(normalizeWorkerCount(0)).toBe(1);
+      expect(normalizeWorkerCount(2.7)).toBe(2);
+      expect(normalizeWorkerCount(100)).toBe(MAX_WORKERS);
+    });
+  });
+
+  describe('getDataDependencies', () => {
+    it('should collect unique data targets', () => {
+      const testCase = {
+        ...createCase('TC001'),
+        dataPreparation: [{ action: 'create', target: 'users' }] as DataStep[],
+        dataCleanup: [{ action: 'delete', target: 'users' }] as DataStep[],
+      };
+
+      expect(getDataDependencies(testCase)).toEqual(['users']);
+    });
+  });
+
+  describe('shardTestCases', () => {
+    it('should keep everything in one shard for a single worker', () => {
+      const cases = ['TC001', 'TC002', 'TC003'].map((id) => createCase(id));
+
+      const shards = shardTestCases(cases, 1);
+
+      expect(shards).toEqual([{ index: 0, caseIndexes: [0, 1, 2], caseIds: ['TC001', 'TC002', 'TC003'] }]);
+    });
+
+    it('should balance read-only cases across workers', () => {
+      const cases = ['TC001', 'TC002', 'TC003', 'TC004'].map((id) => createCase(id));
+
+      const shards = shardTestCases(cases, 2);
+
+      expect(shards.map((shard) => shard.caseIds.length)).toEqual([2, 2]);
+    });
+
+    it('should not create more shards than test cases', () => {
+      const shards = shardTestCases([createCase('TC001')], 4);
+
+      expect(shards).toHaveLength(1);
+    });
+
+    it('should serialize write cases that share a data dependency', () => {
+      const users: DataStep[] = [{ action: 'create', target: 'users', data: { name: 'a' } }];
+      const orders: DataStep[] = [{ action: 'create', target: 'orders', data: { id: 1 } }];
+      const cases = [
+        createCase('TC001', { dataPreparation: users }),
+        createCase('TC002'),
+        createCase('TC003', { dataPreparation: orders }),
+        createCase('TC004', { dataPreparation: users }),
+        createCase('TC005'),
+      ];
+
+      const shards = shardTestCases(cases, 3);
+
+      expect(shardOf(shards, 'TC001')).toBe(shardOf(shards, 'TC004'));
+      expect(shardOf(shards, 'TC003')).not.toBe(shardOf(shards, 'TC001'));
+      const usersShard = shards[shardOf(shards, 'TC001')].caseIds;
+      expect(usersShard.indexOf('TC001')).toBeLessThan(usersShard.indexOf('TC004'));
+    });
+
+    it('should serialize write cases with unknown data dependencies together', () => {
+      const cases = [
+        createCase('TC001', { action: 'click save' }),
+        createCase('TC002'),
+        createCase('TC003', { action: 'delete row' }),
+        createCase('TC004'),
+      ];
+
+      const shards = shardTestCases(cases, 4);
+
+      expect(shardOf(shards, 'TC001')).toBe(shardOf(shards, 'TC003'));
+    });
+
+    it('should merge groups bridged by a case with several dependencies', () => {
+      const cases = [
+        createCase('TC001', { dataPreparation: [{ action: 'create', target: 'a', data: {} }] }),
+        createCase('TC002', { dataPreparation: [{ action: 'create', target: 'b', data: {} }] }),
+        createCase('TC003', {
+          dataPreparation: [
+            { action: 'update', target: 'a' },
+            { action: 'update', target: 'b' },
+          ],
+        }),
+      ];
+
+      const shards = shardTestCases(cases, 3);
+
+      expect(shards).toHaveLength(1);
+      expect(shards[0].caseIds).toEqual(['TC001', 'TC002', 'TC003']);
+    });
+  });
+});
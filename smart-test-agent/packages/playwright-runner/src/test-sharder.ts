@@ -0,0 +1,131 @@
+/**
+ * Test Case Sharder
+ * Splits test cases across parallel workers.
+ * Read-only cases are balanced freely; write cases that touch the same data are kept
+ * in one shard so they run serially, and write cases with unknown data dependencies
+ * are serialized together.
+ * @see Requirements 7.1, 19.1
+ */
+
+import type { TestCase } from '@smart-test-agent/shared';
+import { hasWriteOperations } from './test-data-manager.js';
+
+/** Default number of workers */
+export const DEFAULT_WORKERS = 1;
+
+/** Upper bound for the number of workers */
+export const MAX_WORKERS = 16;
+
+/**
+ * Test cases assigned to one worker, in execution order
+ */
+export interface TestShard {
+  index: number;
+  /** Positions of the cases in the planned list */
+  caseIndexes: number[];
+  caseIds: string[];
+}
+
+/**
+ * Group of cases that must run in the same shard
+ */
+interface ShardUnit {
+  caseIndexes: number[];
+  cost: number;
+}
+
+/**
+ * Normalizes a worker count to [1, MAX_WORKERS]
+ */
+export function normalizeWorkerCount(workers: number | undefined): number {
+  if (workers === undefined || !Number.isFinite(workers)) {
+    return DEFAULT_WORKERS;
+  }
+  return Math.min(MAX_WORKERS, Math.max(1, Math.floor(workers)));
+}
+
+/**
+ * Get the data targets a test case prepares or cleans up
+ */
+export function getDataDependencies(testCase: TestCase): string[] {
+  const targets = [...(testCase.dataPreparation ?? []), ...(testCase.dataCleanup ?? [])]
+    .map((step) => step.target)
+    .filter((target): target is string => Boolean(target));
+  return [...new Set(targets)];
+}
+
+/**
+ * Estimated execution cost of a test case
+ */
+function estimateCost(testCase: TestCase): number {
+  return 1 + testCase.steps.length + testCase.assertions.length;
+}
+
+/**
+ * Group write cases by shared data dependencies
+ * Cases with write steps but no declared data targets share one serial group.
+ */
+function groupWriteCases(testCases: TestCase[], writeIndexes: number[]): number[][] {
+  const groups: Array<{ keys: Set<string>; caseIndexes: number[] }> = [];
+
+  for (const index of writeIndexes) {
+    const dependencies = getDataDependencies(testCases[index]);
+    const keys = dependencies.length > 0 ? dependencies : ['*'];
+
+    const touched = groups.filter((group) => keys.some((key) => group.keys.has(key)));
+    const merged = {
+      keys: new Set([...keys, ...touched.flatMap((group) => [...group.keys])]),
+      caseIndexes: [...touched.flatMap((group) => group.caseIndexes), index],
+    };
+
+    for (const group of touched) {
+      groups.splice(groups.indexOf(group), 1);
+    }
+    groups.push(merged);
+  }
+
+  return groups.map((group) => group.caseIndexes.sort((a, b) => a - b));
+}
+
+/**
+ * Shard test cases across workers
+ * Units are assigned largest first to the least loaded shard; cases keep their
+ * original relative order within a shard. Empty shards are dropped.
+ * @param testCases Test cases in planned order
+ * @param workers Requested worker count
+ * @returns Shards to run in parallel
+ */
+export function shardTestCases(testCases: TestCase[], workers: number | undefined): TestShard[] {
+  const workerCount = Math.min(normalizeWorkerCount(workers), Math.max(1, testCases.length));
+
+  const writeIndexes: number[] = [];
+  const units: ShardUnit[] = [];
+  testCases.forEach((testCase, index) => {
+    if (hasWriteOperations(testCase)) {
+      writeIndexes.push(index);
+    } else {
+      units.push({ caseIndexes: [index], cost: estimateCost(testCase) });
+    }
+  });
+  for (const caseIndexes of groupWriteCases(testCases, writeIndexes)) {
+    units.push({
+      caseIndexes,
+      cost: caseIndexes.reduce((sum, index) => sum + estimateCost(testCases[index]), 0),
+    });
+  }
+
+  const shards = Array.from({ length: workerCount }, () => ({ load: 0, caseIndexes: [] as number[] }));
+  const ordered = [...units].sort((a, b) => b.cost - a.cost || a.caseIndexes[0] - b.caseIndexes[0]);
+  for (const unit of ordered) {
+    const target = shards.reduce((min, shard) => (shard.load < min.load ? shard : min));
+    target.caseIndexes.push(...unit.caseIndexes);
+    target.load += unit.cost;
+  }
+
+  return shards
+    .filter((shard) => shard.caseIndexes.length > 0)
+    .map((shard, index) => {
+      const caseIndexes = shard.caseIndexes.sort((a, b) => a - b);
+      return { index, caseIndexes, caseIds: caseIndexes.map((i) => testCases[i].caseId) };
+    });
+}
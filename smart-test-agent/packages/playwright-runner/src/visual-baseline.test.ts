@@ -0,0 +1,69 @@
+/**
+ * Unit tests for Visual Regression Baselines
+ * @see Requirements 4.8, 7.4
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import {
+  getBaselineDir,
+  getRouteSlug,
+  getVisualKey,
+  VISUAL_DIFF_SOURCE,
+} from './visual-baseline.js';
+
+type DiffImageData = (
+  baseline: Uint8ClampedArray,
+  actual: Uint8ClampedArray,
+  diff: Uint8ClampedArray,
+  pixelThreshold: number
+) => number;
+
+const diffImageData = new Function(`${VISUAL_DIFF_SOURCE}\nreturn diffImageData;`)() as DiffImageData;
+
+function image(...pixels: number[][]): Uint8ClampedArray {
+  return new Uint8ClampedArray(pixels.flat());
+}
+
+describe('Visual Baseline', () => {
+  describe('baseline layout', () => {
+    it('should keep baselines per project and environment', () => {
+      expect(getBaselineDir('/ws', 'project-1', 'staging')).toBe(path.join('/ws', 'baselines', 'project-1', 'staging'));
+      expect(getBaselineDir('/ws', 'project-1')).toBe(path.join('/ws', 'baselines', 'project-1', '_base'));
+    });
+
+    it('should key screenshots by route, case and assertion', () => {
+      expect(getRouteSlug('/users/list')).toBe('users_list');
+      expect(getRouteSlug('/orders/:id/edit?tab=1')).toBe('orders_id_edit_tab_1');
+      expect(getRouteSlug('/')).toBe('root');
+      expect(getVisualKey('/users/list', 'TC001', 'A001')).toBe('users_list/TC001-A001.png');
+    });
+  });
+
+  describe('diffImageData', () => {
+    it('should count perceptually different pixels and paint them red', () => {
+      const baseline = image([255, 255, 255, 255], [0, 0, 0, 255], [10, 10, 10, 255]);
+      const actual = image([255, 255, 255, 255], [255, 255, 255, 255], [12, 12, 12, 255]);
+      const diff = new Uint8ClampedArray(baseline.length);
+
+      expect(diffImageData(baseline, actual, diff, 0.1)).toBe(1);
+      expect(Array.from(diff.slice(4, 8))).toEqual([255, 0, 0, 255]);
+      expect(diff[0]).toBe(diff[1]);
+    });
+
+    it('should blend transparency onto white', () => {
+      const baseline = image([0, 0, 0, 0]);
+      const actual = image([255, 255, 255, 255]);
+
+      expect(diffImageData(baseline, actual, new Uint8ClampedArray(4), 0.1)).toBe(0);
+    });
+
+    it('should respect the pixel threshold', () => {
+      const baseline = image([100, 100, 100, 255]);
+      const actual = image([120, 120, 120, 255]);
+
+      expect(diffImageData(baseline, actual, new Uint8ClampedArray(4), 0.1)).toBe(0);
+      expect(diffImageData(baseline, actual, new Uint8ClampedArray(4), 0.05)).toBe(1);
+    });
+  });
+});
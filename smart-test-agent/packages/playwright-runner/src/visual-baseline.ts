@@ -0,0 +1,182 @@
+/**
+ * Visual Regression Baselines
+ * Baseline layout (per project + environment + route) and the script code that captures
+ * screenshots and compares them against the stored baselines. Images are decoded and
+ * diffed in a blank browser page, so no image library is needed at runtime.
+ * @see Requirements 4.8, 7.4
+ */
+
+import * as path from 'path';
+
+/** Directory of baselines under the workspaces root */
+export const BASELINES_DIRNAME = 'baselines';
+
+/** Baseline directory for runs against the base profile (not a valid environment name) */
+export const BASE_ENVIRONMENT_DIRNAME = '_base';
+
+/** Directory of visual screenshots under the run's screenshot directory */
+export const VISUAL_SCREENSHOT_DIRNAME = 'visual';
+
+/** Default maximum ratio of differing pixels */
+export const DEFAULT_VISUAL_THRESHOLD = 0.001;
+
+/** Default perceptual color distance above which a pixel counts as different */
+export const DEFAULT_PIXEL_THRESHOLD = 0.1;
+
+/**
+ * Perceptual pixel diff embedded in generated scripts
+ * Compares RGBA buffers in YIQ space (alpha blended onto white), paints differing pixels
+ * red and the rest as a faded grayscale copy, and returns the number of differing pixels.
+ */
+export const VISUAL_DIFF_SOURCE = `function diffImageData(baseline, actual, diff, pixelThreshold) {
+  const maxDelta = 35215 * pixelThreshold * pixelThreshold;
+  const blend = (data, offset, channel) => 255 + (data[offset + channel] - 255) * (data[offset + 3] / 255);
+  let diffPixels = 0;
+  for (let offset = 0; offset < baseline.length; offset += 4) {
+    const r1 = blend(baseline, offset, 0);
+    const g1 = blend(baseline, offset, 1);
+    const b1 = blend(baseline, offset, 2);
+    const r2 = blend(actual, offset, 0);
+    const g2 = blend(actual, offset, 1);
+    const b2 = blend(actual, offset, 2);
+    const y1 = r1 * 0.29889531 + g1 * 0.58662247 + b1 * 0.11448223;
+    const y = y1 - (r2 * 0.29889531 + g2 * 0.58662247 + b2 * 0.11448223);
+    const i = (r1 * 0.59597799 - g1 * 0.2741761 - b1 * 0.32180189) - (r2 * 0.59597799 - g2 * 0.2741761 - b2 * 0.32180189);
+    const q = (r1 * 0.21147017 - g1 * 0.52261711 + b1 * 0.31114694) - (r2 * 0.21147017 - g2 * 0.52261711 + b2 * 0.31114694);
+    const delta = 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+    if (delta > maxDelta) {
+      diffPixels++;
+      diff[offset] = 255;
+      diff[offset + 1] = 0;
+      diff[offset + 2] = 0;
+    } else {
+      const gray = 255 - 0.1 * (255 - y1);
+      diff[offset] = gray;
+      diff[offset + 1] = gray;
+      diff[offset + 2] = gray;
+    }
+    diff[offset + 3] = 255;
+  }
+  return diffPixels;
+}`;
+
+/**
+ * Directory holding the baselines of a project environment
+ * @param workspacesRoot - Root directory containing the run workspaces
+ * @param projectId - Project ID
+ * @param environment - Environment name, or undefined for the base profile
+ */
+export function getBaselineDir(workspacesRoot: string, projectId: string, environment?: string | null): string {
+  return path.join(workspacesRoot, BASELINES_DIRNAME, projectId, environment || BASE_ENVIRONMENT_DIRNAME);
+}
+
+/**
+ * Directory-safe name of a route ('/users/list' -> 'users_list', '/' -> 'root')
+ */
+export function getRouteSlug(route: string): string {
+  const slug = route
+    .replace(/^\/+|\/+$/g, '')
+    .replace(/[^a-zA-Z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return slug || 'root';
+}
+
+/**
+ * Relative path of a visual screenshot, identical in the run's visual directory and the
+ * baseline directory so that promoting a run is a plain copy
+ */
+export function getVisualKey(route: string, caseId: string, assertionId: string): string {
+  return `${getRouteSlug(route)}/${caseId}-${assertionId}.png`;
+}
+
+/**
+ * Generate the visual comparison section of a test script
+ * Expects CONFIG (screenshotDir, baselineDir), fs and path to be defined.
+ * Defines checkVisual(page, key, screenshot, threshold, pixelThreshold), which resolves to
+ * { actual, verdict, evidencePath } with evidencePath relative to the screenshot directory.
+ */
+export function generateVisualCode(): string {
+  return `// Visual regression
+const VISUAL_DIFF_SOURCE = ${JSON.stringify(VISUAL_DIFF_SOURCE)};
+
+// Decode both PNGs and diff them in a blank page of a throwaway context
+async function compareImages(page, baseline, actual, pixelThreshold) {
+  const context = await page.context().browser().newContext();
+  try {
+    const comparePage = await context.newPage();
+    return await comparePage.evaluate(async ({ baseline, actual, pixelThreshold, diffSource }) => {
+      const diffImageData = new Function(diffSource + '\\nreturn diffImageData;')();
+      const load = (data) => new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Failed to decode screenshot'));
+        image.src = 'data:image/png;base64,' + data;
+      });
+      const [before, after] = await Promise.all([load(baseline), load(actual)]);
+      if (before.width !== after.width || before.height !== after.height) {
+        return {
+          sizeMismatch: true,
+          expectedSize: before.width + 'x' + before.height,
+          actualSize: after.width + 'x' + after.height,
+        };
+      }
+      const canvas = document.createElement('canvas');
+      canvas.width = before.width;
+      canvas.height = before.height;
+      const ctx = canvas.getContext('2d');
+      ctx.drawImage(before, 0, 0);
+      const a = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(after, 0, 0);
+      const b = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const diff = ctx.createImageData(canvas.width, canvas.height);
+      const diffPixels = diffImageData(a.data, b.data, diff.data, pixelThreshold);
+      ctx.putImageData(diff, 0, 0);
+      return {
+        diffPixels,
+        totalPixels: canvas.width * canvas.height,
+        diffImage: canvas.toDataURL('image/png').split(',')[1],
+      };
+    }, {
+      baseline: baseline.toString('base64'),
+      actual: actual.toString('base64'),
+      pixelThreshold,
+      diffSource: VISUAL_DIFF_SOURCE,
+    });
+  } finally {
+    await context.close();
+  }
+}
+
+// Save the screenshot for promotion and compare it against the stored baseline
+async function checkVisual(page, key, screenshot, threshold, pixelThreshold) {
+  const visualDir = path.join(CONFIG.screenshotDir, '${VISUAL_SCREENSHOT_DIRNAME}');
+  const actualPath = path.join(visualDir, key);
+  fs.mkdirSync(path.dirname(actualPath), { recursive: true });
+  fs.writeFileSync(actualPath, screenshot);
+  const evidenceKey = '${VISUAL_SCREENSHOT_DIRNAME}/' + key;
+
+  const baselinePath = CONFIG.baselineDir ? path.join(CONFIG.baselineDir, key) : null;
+  if (!baselinePath || !fs.existsSync(baselinePath)) {
+    return { actual: 'no baseline (promote this run to create one)', verdict: 'fail', evidencePath: evidenceKey };
+  }
+
+  const comparison = await compareImages(page, fs.readFileSync(baselinePath), screenshot, pixelThreshold);
+  if (comparison.sizeMismatch) {
+    return {
+      actual: 'size ' + comparison.actualSize + ' differs from baseline ' + comparison.expectedSize,
+      verdict: 'fail',
+      evidencePath: evidenceKey,
+    };
+  }
+
+  const diffKey = key.replace(/\\.png$/, '-diff.png');
+  fs.writeFileSync(path.join(visualDir, diffKey), Buffer.from(comparison.diffImage, 'base64'));
+  const ratio = comparison.totalPixels > 0 ? comparison.diffPixels / comparison.totalPixels : 0;
+  return {
+    actual: (ratio * 100).toFixed(3) + '% pixels differ (' + comparison.diffPixels + '/' + comparison.totalPixels + ')',
+    verdict: ratio <= threshold ? 'pass' : 'fail',
+    evidencePath: '${VISUAL_SCREENSHOT_DIRNAME}/' + diffKey,
+  };
+}`;
+}
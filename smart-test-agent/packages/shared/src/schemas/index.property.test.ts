@@ -27,7 +27,7 @@ describe('Property 8: JSON Output Schema Compliance', () => {
   const assertionIdArb = fc.integer({ min: 1, max: 999 }).map((n) => `A-${String(n).padStart(3, '0')}`);
   const routeArb = fc.stringMatching(/^\/[a-z][a-z0-9-]*$/);
   const priorityArb = fc.constantFrom('P0', 'P1', 'P2');
-  const assertionTypeArb = fc.constantFrom('element_visible', 'text_content', 'element_count', 'navigation', 'soft');
+  const assertionTypeArb = fc.constantFrom('element_visible', 'text_content', 'element_count', 'navigation', 'permission_denied', 'visual', 'api_response', 'soft');
   const verdictArb = fc.constantFrom('pass', 'fail', 'error');
   const reviewVerdictArb = fc.constantFrom('agree', 'disagree', 'uncertain');
   const statusArb = fc.constantFrom('pending', 'running', 'passed', 'failed', 'error');
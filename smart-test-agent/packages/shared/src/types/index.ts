@@ -22,6 +22,55 @@ export interface BrowserConfig {
   headless?: boolean;
   /** Slow down operations by specified milliseconds for debugging (default: 0) */
   slowMo?: number;
+  /** Number of parallel workers, each with its own browser context (default: 1) */
+  workers?: number;
+}
+
+/**
+ * Authentication strategy
+ * - form: username/password login form (default)
+ * - storage_state: pre-captured Playwright storageState JSON file
+ * - cookies: cookies injected into the browser context
+ * - bearer_token: token sent as an HTTP header on every request
+ * - scripted: multi-step login (captcha bypass token, tenant picker, TOTP)
+ */
+export type AuthStrategy = 'form' | 'storage_state' | 'cookies' | 'bearer_token' | 'scripted';
+
+/**
+ * Cookie injected for the cookies strategy
+ * Values support environment variable references like $SESSION_COOKIE
+ */
+export interface AuthCookie {
+  name: string;
+  value: string;
+  /** Cookie domain, defaults to the base URL host */
+  domain?: string;
+  /** Cookie path (default: /) */
+  path?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+}
+
+/**
+ * Action of a scripted login step
+ * - goto: open value (URL or path)
+ * - fill: fill selector with value
+ * - click: click selector
+ * - select: pick option value in selector
+ * - wait: wait for selector to be visible
+ * - totp: fill selector with a one-time code from totpSecret
+ */
+export type LoginStepAction = 'goto' | 'fill' | 'click' | 'select' | 'wait' | 'totp';
+
+/**
+ * Step of a scripted login
+ */
+export interface LoginStep {
+  action: LoginStepAction;
+  /** Target element selector */
+  selector?: string;
+  /** Value, URL or path; supports environment variable references like $CAPTCHA_BYPASS_TOKEN */
+  value?: string;
 }
 
 /**
@@ -29,6 +78,8 @@ export interface BrowserConfig {
  * @see Requirements 1.1, 1.3
  */
 export interface LoginConfig {
+  /** Authentication strategy (default: form) */
+  strategy?: AuthStrategy;
   /** URL of the login page */
   loginUrl: string;
   /** CSS selector for username input */
@@ -48,6 +99,18 @@ export interface LoginConfig {
   tenantValue?: string;
   /** Whether tenant is already selected */
   tenantAlreadySelected?: boolean;
+  /** Path to a Playwright storageState JSON file (storage_state strategy) */
+  storageStatePath?: string;
+  /** Cookies to inject (cookies strategy) */
+  cookies?: AuthCookie[];
+  /** Token value or environment variable reference (bearer_token strategy) */
+  bearerToken?: string;
+  /** Header carrying the token (default: Authorization, sent as "Bearer <token>") */
+  tokenHeader?: string;
+  /** Login steps (scripted strategy) */
+  steps?: LoginStep[];
+  /** Base32 TOTP secret or environment variable reference, used by totp steps */
+  totpSecret?: string;
 }
 
 /**
@@ -57,14 +120,28 @@ export interface LoginConfig {
 export interface SourceCodeConfig {
   /** Root directory of frontend source code */
   frontendRoot: string;
-  /** Path to router configuration file */
+  /** Path to router configuration file, or the routes directory for SvelteKit file-based routing */
   routerFile: string;
   /** Directory containing page components */
   pageDir: string;
   /** Directory containing API definitions */
   apiDir: string;
+  /** File-system routing convention, routes are discovered from pageDir instead of routerFile */
+  routingConvention?: RoutingConvention;
+  /** OpenAPI 3 / Swagger 2 JSON document of the backend, relative to frontendRoot or absolute */
+  openApiFile?: string;
 }
 
+/**
+ * File-system routing conventions
+ * - next-app: Next.js app router, a page.tsx per route directory under app/
+ * - next-pages: Next.js pages router, every file under pages/ is a route
+ * - nuxt: Nuxt pages, every .vue file under pages/ is a route
+ * - umi: umi conventional routing, every file under src/pages/ is a route
+ * @see Requirements 2.1
+ */
+export type RoutingConvention = 'next-app' | 'next-pages' | 'nuxt' | 'umi';
+
 /**
  * Ant Design specific quirks configuration
  * @see Requirements 1.6, 1.7
@@ -127,6 +204,100 @@ export interface TargetProfile {
   uiFramework: UIFramework;
   /** Ant Design specific quirks (optional) */
   antdQuirks?: AntdQuirksConfig;
+  /** Named user roles with their own credentials and permissions (optional) */
+  roles?: RoleConfig[];
+  /** Pipeline steps enabled or disabled for the project (optional) */
+  pipelineSteps?: PipelineStepSelection;
+  /** Retry budgets per error category for failed pipeline steps (optional) */
+  retryBudgets?: RetryBudgets;
+  /** Approval and confirmation deadlines of the project's runs (optional) */
+  reviewPolicy?: ReviewPolicy;
+}
+
+/**
+ * Built-in pipeline steps to enable or disable on top of the registry defaults
+ * Step IDs refer to built-in steps (e.g. a11y_audit); project config cannot insert new steps.
+ */
+export interface PipelineStepSelection {
+  /** Steps to run even if disabled by default */
+  enable?: string[];
+  /** Steps to leave out */
+  disable?: string[];
+}
+
+/**
+ * Error category used to pick a retry policy for a failed pipeline step
+ */
+export type ErrorCategory =
+  | 'network'
+  | 'timeout'
+  | 'playwright'
+  | 'ai_agent'
+  | 'validation'
+  | 'internal';
+
+/**
+ * Maximum attempts per error category, including the first attempt (1 = no retry)
+ * Categories left out use the built-in defaults.
+ */
+export type RetryBudgets = Partial<Record<ErrorCategory, number>>;
+
+/**
+ * Deadlines for reviewing a project's runs
+ * Runs not approved or confirmed in time fail with approval_timeout / confirm_timeout.
+ */
+export interface ReviewPolicy {
+  /** Hours a run may wait for test case approval (default 24) */
+  approvalTimeoutHours?: number;
+  /** Hours a report may wait for confirmation (default 48) */
+  confirmationTimeoutHours?: number;
+  /** Hours before a deadline to send a reminder, 0 disables reminders (default 2) */
+  reminderLeadHours?: number;
+  /** Approve runs limited to read-only operations when the approval deadline passes, instead of failing them */
+  autoApproveReadOnly?: boolean;
+}
+
+/**
+ * Named user role of the target application (e.g. admin, viewer)
+ * Test cases tagged with a role run in a browser session logged in as that role.
+ * @see Requirements 1.3, 1.9
+ */
+export interface RoleConfig {
+  /** Role name, unique within the profile */
+  name: string;
+  /** Human-readable description of the role */
+  description?: string;
+  /** Credentials of the role (supports environment variable references) */
+  credentials?: {
+    username: string;
+    password: string;
+  };
+  /** Login configuration overrides for the role (tokens, storage state, cookies) */
+  login?: Partial<LoginConfig>;
+  /** Operation types the role may perform (defaults to the profile's allowedOperations) */
+  allowedOperations?: OperationType[];
+  /** Operation types the role must not be able to perform */
+  deniedOperations?: OperationType[];
+}
+
+/**
+ * Named environment of a project (e.g. dev, staging, uat)
+ * Overrides are applied on top of the project's base target profile.
+ * @see Requirements 1.1, 1.4
+ */
+export interface TargetEnvironment {
+  /** Unique identifier */
+  id: string;
+  /** Associated project ID */
+  projectId: string;
+  /** Environment name, unique within the project */
+  name: string;
+  /** Base URL override */
+  baseUrl?: string;
+  /** Login configuration overrides (credentials, login URL, tokens) */
+  login?: Partial<LoginConfig>;
+  /** Browser configuration overrides */
+  browser?: Partial<BrowserConfig>;
 }
 
 // ============================================================================
@@ -171,7 +342,9 @@ export type StateEvent =
   | 'GENERATION_COMPLETE'
   | 'APPROVED'
   | 'REJECTED'
+  | 'PARTIALLY_APPROVED'
   | 'EXECUTION_COMPLETE'
+  | 'BATCH_EXECUTED'
   | 'REVIEW_COMPLETE'
   | 'CONFIRMED'
   | 'RETEST'
@@ -210,6 +383,8 @@ export interface EnvFingerprint {
   configHash?: string;
   /** Browser version used */
   browserVersion?: string;
+  /** Target environment name (absent for the base profile) */
+  environment?: string;
 }
 
 /**
@@ -290,6 +465,8 @@ export interface Requirement {
   sourceSection?: string;
   /** Tags for categorization */
   tags: string[];
+  /** Role the requirement applies to (optional, defaults to the profile login) */
+  role?: string;
 }
 
 // ============================================================================
@@ -339,8 +516,45 @@ export type AssertionType =
   | 'text_content'
   | 'element_count'
   | 'navigation'
+  | 'permission_denied'
+  | 'visual'
+  | 'api_response'
   | 'soft';
 
+/**
+ * Options of a visual regression assertion
+ * The assertion's `expected` is the element selector to capture, or 'page' for the full page.
+ * @see Requirements 4.8, 7.4
+ */
+export interface VisualAssertionOptions {
+  /** Maximum ratio of differing pixels (0-1, default 0.001) */
+  threshold?: number;
+  /** Perceptual color distance above which a pixel counts as different (0-1, default 0.1) */
+  pixelThreshold?: number;
+  /** Selectors of regions masked out of the screenshot (timestamps, avatars, ads) */
+  maskSelectors?: string[];
+}
+
+/**
+ * Options of an API response assertion
+ * The assertion's `expected` is the request path to match (`:param` and `*` are wildcards),
+ * typically an `ApiEndpoint.path` from the source context. The most recent matching request
+ * triggered by the case's UI steps is checked.
+ * @see Requirements 2.2, 7.4
+ */
+export interface ApiResponseAssertionOptions {
+  /** HTTP method of the request (any method when omitted) */
+  method?: ApiEndpoint['method'];
+  /** Expected status code (any 2xx when omitted) */
+  status?: number;
+  /** Maximum response time in milliseconds */
+  maxLatencyMs?: number;
+  /** JSON path into the response body, e.g. `$.data.items[0].name` */
+  jsonPath?: string;
+  /** Expected value at `jsonPath`, compared as JSON (only presence is checked when omitted) */
+  jsonValue?: unknown;
+}
+
 /**
  * Verdict types for assertions
  * @see Requirements 7.5, 7.6
@@ -378,6 +592,10 @@ export interface Assertion {
   description: string;
   /** Expected value or condition */
   expected: string;
+  /** Visual comparison options (visual assertions only) */
+  visual?: VisualAssertionOptions;
+  /** API response options (api_response assertions only) */
+  api?: ApiResponseAssertionOptions;
   /** Actual value (after execution) */
   actual?: string;
   /** Machine verdict (deterministic assertions) */
@@ -417,6 +635,8 @@ export interface TestCase {
   requirementId: string;
   /** Route being tested */
   route: string;
+  /** Role whose session runs the case (optional, defaults to the profile login) */
+  role?: string;
   /** Test case title */
   title: string;
   /** Preconditions for the test */
@@ -456,6 +676,8 @@ export interface TestRun {
   testedRoutes: string[];
   /** Workspace directory path */
   workspacePath: string;
+  /** Target environment name (absent for the base profile) */
+  environment?: string;
   /** Environment fingerprint */
   envFingerprint: EnvFingerprint;
   /** Agent versions */
@@ -486,6 +708,14 @@ export interface TestRun {
 // Execution Result Types (Requirements 7.3, 7.4, 7.5, 7.6, 7.7)
 // ============================================================================
 
+/**
+ * Test execution mode
+ * - agent: the agent CLI generates and runs the script itself
+ * - local: the pipeline generates and runs the script with playwright-runner,
+ *   only failing cases are escalated to the agent for repair
+ */
+export type ExecutionMode = 'agent' | 'local';
+
 /**
  * Screenshot information
  * @see Requirements 7.4
@@ -520,6 +750,25 @@ export interface StepResult {
   durationMs: number;
 }
 
+/**
+ * Network or console problem noticed while a test case ran
+ * - http_error: unexpected 4xx/5xx response
+ * - request_failed: request aborted or without response (DNS, CORS, connection reset)
+ * - console_error / page_error: console.error output or uncaught exception on the page
+ * @see Requirements 7.4, 10.1
+ */
+export interface NetworkIssue {
+  kind: 'http_error' | 'request_failed' | 'console_error' | 'page_error';
+  /** Error text (status line, failure reason or console message) */
+  message: string;
+  /** Request method (network issues only) */
+  method?: string;
+  /** Request or page URL */
+  url?: string;
+  /** Response status (http_error only) */
+  status?: number;
+}
+
 /**
  * Test case execution result
  * @see Requirements 7.5
@@ -537,6 +786,10 @@ export interface TestCaseResult {
   durationMs: number;
   /** Error message if failed */
   error?: string;
+  /** Network traffic of the case, relative to the workspace root (evidence/har/<caseId>.har) */
+  harPath?: string;
+  /** Unexpected error responses and console errors, reported as candidate defects */
+  networkIssues?: NetworkIssue[];
 }
 
 /**
@@ -572,7 +825,7 @@ export interface ExecutionResult {
  * Quality metric names
  * @see Requirements 11.1, 11.2, 11.5
  */
-export type QualityMetricName = 'RC' | 'APR' | 'FR';
+export type QualityMetricName = 'RC' | 'APR' | 'FR' | 'A11Y';
 
 /**
  * Quality metric
@@ -600,6 +853,8 @@ export interface QualityMetrics {
   apr: QualityMetric;
   /** Flaky Rate (optional, requires 3+ runs) */
   fr?: QualityMetric;
+  /** Accessibility pass rate (optional, requires an a11y audit) */
+  a11y?: QualityMetric;
 }
 
 /**
@@ -652,6 +907,12 @@ export interface DefectReport {
   requirementId: string;
   /** Route where defect was found */
   route: string;
+  /** Accessibility rule ID (a11y defects only) */
+  ruleId?: string;
+  /** WCAG success criteria violated (a11y defects only) */
+  wcag?: string[];
+  /** Network traffic of the test case, relative to the workspace root */
+  harPath?: string;
 }
 
 /**
@@ -701,10 +962,76 @@ export interface ReportData {
   defects: DefectReport[];
   /** Test case summaries */
   testCases: TestCaseSummary[];
+  /** Accessibility defects (only when an a11y audit ran) */
+  a11yDefects?: DefectReport[];
+  /** Candidate defects from unexpected error responses and console errors */
+  candidateDefects?: DefectReport[];
   /** Generation timestamp */
   generatedAt: string;
 }
 
+// ============================================================================
+// Accessibility Audit Types (Requirements 10.1, 10.3, 11.1)
+// ============================================================================
+
+/**
+ * Impact of an accessibility violation (same scale as axe-core)
+ */
+export type A11yImpact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+/**
+ * Element that violates an accessibility rule
+ */
+export interface A11yViolationNode {
+  /** CSS selector of the element */
+  selector: string;
+  /** Truncated outer HTML */
+  html: string;
+  /** Why the element fails the rule */
+  failureSummary: string;
+}
+
+/**
+ * Accessibility rule violation on one route
+ */
+export interface A11yViolation {
+  /** Rule ID (axe-core naming, e.g. image-alt) */
+  ruleId: string;
+  /** WCAG success criteria, e.g. ['1.1.1'] */
+  wcag: string[];
+  impact: A11yImpact;
+  /** Short description of the rule */
+  help: string;
+  /** Route that was audited */
+  route: string;
+  /** Violating elements */
+  nodes: A11yViolationNode[];
+}
+
+/**
+ * Audit result of one route
+ */
+export interface A11yRouteResult {
+  route: string;
+  /** URL the page ended up on */
+  url: string;
+  /** Rules that applied to the page and passed */
+  passedRules: string[];
+  violations: A11yViolation[];
+  /** Error if the route could not be audited */
+  error?: string;
+}
+
+/**
+ * Accessibility audit result (outputs/a11y-results.json)
+ */
+export interface A11yAuditResult {
+  runId: string;
+  startTime: string;
+  endTime: string;
+  routes: A11yRouteResult[];
+}
+
 // ============================================================================
 // Source Indexer Types (Requirements 2.1, 2.2, 2.3, 2.4, 2.5, 2.6, 2.7, 2.8, 2.9)
 // ============================================================================
@@ -713,7 +1040,7 @@ export interface ReportData {
  * Frontend framework types
  * @see Requirements 2.9
  */
-export type FrameworkType = 'vue' | 'react';
+export type FrameworkType = 'vue' | 'react' | 'angular' | 'svelte';
 
 /**
  * Route mapping from router file
@@ -726,10 +1053,21 @@ export interface RouteMapping {
   componentPath: string;
   /** Menu key (optional) */
   menuKey?: string;
+  /** Layout components wrapping the page, outermost first (file-system routing) */
+  layouts?: string[];
   /** Child routes */
   children?: RouteMapping[];
 }
 
+/**
+ * How reliably an item was extracted from source code
+ * - high: read from the syntax tree with every value resolved
+ * - medium: parts are only known at runtime (e.g. :id path segments), the HTTP client was recognized by its name only,
+ *   or the source has syntax errors
+ * - low: recovered with text patterns, or the HTTP method could not be resolved
+ */
+export type ExtractionConfidence = 'high' | 'medium' | 'low';
+
 /**
  * Extracted component information
  * @see Requirements 2.2, 2.4, 2.5, 2.6, 2.7, 2.8
@@ -739,18 +1077,22 @@ export interface ExtractedComponent {
   filePath: string;
   /** Framework type */
   framework: FrameworkType;
-  /** Template content (Vue) */
+  /** Template content (Vue, Angular, Svelte) */
   template?: string;
-  /** Script exports (Vue) */
+  /** Script exports (Vue, Svelte) or component class (Angular) */
   scriptExports?: string;
   /** JSX content (React) */
   jsxContent?: string;
   /** Hooks content (React) */
   hooksContent?: string;
+  /** Event bindings in the template, e.g. (click)="save()" or on:click={save} (Angular, Svelte) */
+  eventHandlers?: string[];
   /** API imports */
   apiImports: string[];
   /** Whether content was truncated */
   truncated: boolean;
+  /** Extraction confidence */
+  confidence?: ExtractionConfidence;
 }
 
 /**
@@ -772,10 +1114,84 @@ export interface ApiEndpoint {
   name: string;
   /** HTTP method */
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
-  /** URL path */
+  /** URL path, dynamic segments as :name */
   path: string;
   /** Request parameters */
   params?: Record<string, string>;
+  /** Extraction confidence */
+  confidence?: ExtractionConfidence;
+  /** JSON request body schema, with its required fields (from OpenAPI) */
+  requestBody?: ApiSchema;
+  /** Success response schema (from OpenAPI) */
+  response?: ApiSchema;
+}
+
+/**
+ * Subset of JSON Schema describing request bodies and responses
+ * References are resolved; deeply nested schemas are cut off.
+ * @see Requirements 2.2, 19.1
+ */
+export interface ApiSchema {
+  /** Value type */
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  /** Object properties */
+  properties?: Record<string, ApiSchema>;
+  /** Required object properties */
+  required?: string[];
+  /** Array item schema */
+  items?: ApiSchema;
+  /** Allowed values */
+  enum?: Array<string | number | boolean>;
+  /** String format, e.g. email, date-time, uuid */
+  format?: string;
+  /** Example or default value */
+  example?: unknown;
+}
+
+/**
+ * Kind of a UI element found in page source
+ * - button: buttons, with their static text
+ * - field: form fields (form items, inputs, labels)
+ * - table_column: table columns from templates or column definitions
+ * - modal: modals, dialogs and drawers, with their title
+ * - element: any other element carrying a data-testid
+ * @see Requirements 2.2, 4.2
+ */
+export type InventoryElementKind = 'button' | 'field' | 'table_column' | 'modal' | 'element';
+
+/**
+ * UI element found in the template or JSX of a page component
+ * Values are only recorded when written statically in the source.
+ * @see Requirements 2.2, 4.2
+ */
+export interface InventoryElement {
+  /** Element kind */
+  kind: InventoryElementKind;
+  /** Tag or component name as written in the source, e.g. el-button or Form.Item */
+  component: string;
+  /** Visible text: button text, column title or modal title */
+  text?: string;
+  /** Form field label */
+  label?: string;
+  /** Form field prop / name, or table column dataIndex / prop */
+  name?: string;
+  /** Input placeholder */
+  placeholder?: string;
+  /** data-testid value */
+  testId?: string;
+}
+
+/**
+ * UI elements of the page component rendered for a route
+ * @see Requirements 2.2, 4.2
+ */
+export interface ElementInventory {
+  /** Route path */
+  route: string;
+  /** Page component file */
+  componentPath: string;
+  /** Elements found in the component */
+  elements: InventoryElement[];
 }
 
 /**
@@ -855,6 +1271,27 @@ export interface DegradationDecision {
   timestamp: string;
 }
 
+/**
+ * Retry of a failed pipeline step, recorded in the manifest
+ * @see Requirements 7.7, 13.2
+ */
+export interface RetryRecord {
+  /** Pipeline step that failed */
+  step: string;
+  /** Attempt that is about to run (2 = first retry) */
+  attempt: number;
+  /** Retry budget for the error category */
+  maxAttempts: number;
+  /** Error category of the failure */
+  category: ErrorCategory;
+  /** Error message of the failed attempt */
+  error: string;
+  /** Delay before the retry in milliseconds */
+  delayMs: number;
+  /** Timestamp */
+  timestamp: string;
+}
+
 // ============================================================================
 // WebSocket Event Types (Requirements 16.1, 16.2, 16.3, 16.4, 16.5, 16.6, 16.7)
 // ============================================================================
@@ -1005,6 +1442,29 @@ export interface ApprovalDecision {
   reviewerId: string;
   /** Decision timestamp */
   timestamp: string;
+  /** Per-case decisions; if any case is rejected, the approved ones execute while the rejected ones are regenerated */
+  caseDecisions?: CaseApprovalDecision[];
+}
+
+/**
+ * Approval status of a single test case
+ * - pending: waiting for a reviewer decision
+ * - approved: approved but not executed yet
+ * - rejected: sent back for regeneration with the reviewer's feedback
+ * - executed: executed in an earlier batch of the run
+ * @see Requirements 6.3, 6.4
+ */
+export type CaseApprovalStatus = 'pending' | 'approved' | 'rejected' | 'executed';
+
+/**
+ * Reviewer decision on a single test case
+ * @see Requirements 6.3, 6.4
+ */
+export interface CaseApprovalDecision {
+  caseId: string;
+  approved: boolean;
+  /** What to change when regenerating a rejected case */
+  feedback?: string;
 }
 
 /**